@@ -150,6 +150,7 @@ export class PlayerPanel {
           html += `<span class="pp-lvl">Lv${lvl}</span>`;
           html += `<span class="pp-hp" style="color:${hpPct > 50 ? "#4c4" : hpPct > 25 ? "#cc4" : "#c44"}">${hpPct}%</span>`;
           html += `</div>`;
+          html += this.renderItemSets(player);
         }
       }
 
@@ -160,6 +161,20 @@ export class PlayerPanel {
     this.listEl.innerHTML = html;
   }
 
+  /** One line per worn item set, with active bonuses in the tooltip. */
+  private renderItemSets(player: ActivePlayer): string {
+    if (!player.itemSets?.length) return "";
+    let html = "";
+    for (const set of player.itemSets) {
+      const title = set.activeBonuses.join("\n").replace(/"/g, "&quot;");
+      html += `<div class="pp-set" title="${title}">`;
+      html += `<span class="pp-set-name">${set.name}</span>`;
+      html += `<span class="pp-set-count">${set.equippedPieces}/${set.totalPieces}</span>`;
+      html += `</div>`;
+    }
+    return html;
+  }
+
   private renderRanks() {
     const ranked = [...this.players];
 
@@ -288,6 +303,16 @@ export class PlayerPanel {
       .pp-lvl { color: #aaa; font-size: 11px; flex-shrink: 0; }
       .pp-hp { font-size: 11px; width: 34px; text-align: right; flex-shrink: 0; }
 
+      .pp-set {
+        display: flex;
+        gap: 6px;
+        padding: 0 10px 3px 36px;
+        font-size: 10px;
+        color: #c9a;
+      }
+      .pp-set-name { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      .pp-set-count { color: #887; flex-shrink: 0; }
+
       .pp-empty { padding: 20px; text-align: center; color: #556; }
     `;
     document.head.appendChild(style);
@@ -147,6 +147,16 @@ export interface ActivePlayer {
   zoneId: string;
   x: number;
   y: number;
+  /** Item sets with at least one active bonus tier. */
+  itemSets?: ActivePlayerItemSet[];
+}
+
+export interface ActivePlayerItemSet {
+  setId: string;
+  name: string;
+  equippedPieces: number;
+  totalPieces: number;
+  activeBonuses: string[];
 }
 
 export interface ActivePlayersResponse {
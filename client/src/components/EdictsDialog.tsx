@@ -8,11 +8,12 @@ import {
   DialogDescription, DialogFooter,
 } from "@/components/ui/dialog";
 import {
-  type Edict, type EdictCondition, type EdictAction,
+  type Edict, type EdictCondition, type EdictConditionNode, type EdictAction,
   type EdictConditionField, type EdictSubject, type EdictOperator,
-  type EdictActionType, type EdictTargetPreference,
-  CONDITION_LABELS, SUBJECT_LABELS, OPERATOR_LABELS, ACTION_LABELS,
-  conditionSummary, actionSummary,
+  type EdictActionType, type EdictTargetPreference, type EdictGroupOperator,
+  CONDITION_LABELS, SUBJECT_LABELS, OPERATOR_LABELS, ACTION_LABELS, GROUP_LABELS,
+  MAX_CONDITIONS_PER_EDICT, MAX_CONDITION_DEPTH,
+  conditionSummary, actionSummary, countConditions, isConditionGroup,
   createEdictId, createEmptyEdict,
   useEdicts,
 } from "@/hooks/useEdicts";
@@ -20,6 +21,15 @@ import { useTechniques, type TechniqueInfo } from "@/hooks/useTechniques";
 
 // ── Presets ─────────────────────────────────────────────────────────
 
+function makeInterruptEdict(): Edict {
+  return { id: createEdictId(), name: "Interrupt dangerous casts", enabled: true,
+    conditions: [{ op: "or", conditions: [
+      { subject: "target", field: "casting", operator: "is", value: "dangerous" },
+      { subject: "attacker", field: "casting", operator: "is", value: "dangerous" },
+    ] }],
+    action: { type: "interrupt" } };
+}
+
 function makeDpsPreset(techs: TechniqueInfo[], classId: string): Edict[] {
   const classTechs = techs.filter(t => t.className === classId);
   const buff = classTechs.find(t => t.type === "buff" && t.targetType === "self");
@@ -27,6 +37,7 @@ function makeDpsPreset(techs: TechniqueInfo[], classId: string): Edict[] {
   const debuff = classTechs.find(t => t.type === "debuff");
   const aoe = classTechs.find(t => t.type === "attack" && (t.targetType === "area" || (t.effects as Record<string, unknown>).maxTargets));
   const edicts: Edict[] = [];
+  edicts.push(makeInterruptEdict());
   if (heal) edicts.push({ id: createEdictId(), name: "Emergency heal", enabled: true,
     conditions: [{ subject: "self", field: "hp_pct", operator: "lt", value: 25 }],
     action: { type: "use_technique", techniqueId: heal.id } });
@@ -55,6 +66,9 @@ function makeHealerPreset(techs: TechniqueInfo[], classId: string): Edict[] {
     conditions: [{ subject: "self", field: "hp_pct", operator: "lt", value: 30 }],
     action: { type: "use_technique", techniqueId: selfHeal.id } });
   if (partyHeal) {
+    edicts.push({ id: createEdictId(), name: "Keep tank up", enabled: true,
+      conditions: [{ subject: "tank", field: "hp_pct", operator: "lt", value: 60 }],
+      action: { type: "use_technique", techniqueId: partyHeal.id } });
     edicts.push({ id: createEdictId(), name: "Heal ally < 50%", enabled: true,
       conditions: [{ subject: "ally_lowest_hp", field: "hp_pct", operator: "lt", value: 50 }],
       action: { type: "use_technique", techniqueId: partyHeal.id } });
@@ -78,6 +92,7 @@ function makeTankPreset(techs: TechniqueInfo[], classId: string): Edict[] {
   const debuff = classTechs.find(t => t.type === "debuff");
   const anyBuff = defBuff ?? classTechs.find(t => t.type === "buff" && t.targetType === "self");
   const edicts: Edict[] = [];
+  edicts.push(makeInterruptEdict());
   if (anyBuff) edicts.push({ id: createEdictId(), name: "Shield when critical", enabled: true,
     conditions: [
       { subject: "self", field: "hp_pct", operator: "lt", value: 35 },
@@ -283,20 +298,7 @@ function EdictEditor({
   techniques: TechniqueInfo[];
   onChange: (patch: Partial<Edict>) => void;
 }) {
-  const updateCondition = (ci: number, patch: Partial<EdictCondition>) => {
-    const updated = [...edict.conditions];
-    updated[ci] = { ...updated[ci], ...patch };
-    onChange({ conditions: updated });
-  };
-
-  const addCondition = () => {
-    if (edict.conditions.length >= 3) return;
-    onChange({ conditions: [...edict.conditions, { subject: "self", field: "hp_pct", operator: "lt", value: 50 }] });
-  };
-
-  const removeCondition = (ci: number) => {
-    onChange({ conditions: edict.conditions.filter((_, i) => i !== ci) });
-  };
+  const canAddLeaf = countConditions(edict.conditions) < MAX_CONDITIONS_PER_EDICT;
 
   const updateAction = (patch: Partial<EdictAction>) => {
     onChange({ action: { ...edict.action, ...patch } });
@@ -315,47 +317,13 @@ function EdictEditor({
       {/* Conditions */}
       <div className="space-y-1">
         <div className="text-[8px] uppercase text-[#6b7394]">If</div>
-        {edict.conditions.map((cond, ci) => (
-          <div key={ci} className="flex items-center gap-1 flex-wrap">
-            <Sel value={cond.subject} onChange={v => updateCondition(ci, { subject: v as EdictSubject })}
-              options={Object.entries(SUBJECT_LABELS)} />
-            <Sel value={cond.field} onChange={v => {
-              const defaults: Record<string, Partial<EdictCondition>> = {
-                hp_pct: { operator: "lt", value: 40 },
-                essence_pct: { operator: "lt", value: 30 },
-                type: { operator: "is", value: "boss" },
-                active_effect: { operator: "not_has", value: "buff" },
-                effect_from_self: { operator: "not_has", value: "debuff" },
-                nearby_enemies: { operator: "gte", value: 3 },
-                always: { operator: "eq", value: true },
-              };
-              updateCondition(ci, { field: v as EdictConditionField, ...(defaults[v] ?? {}) });
-            }} options={Object.entries(CONDITION_LABELS)} />
-            {cond.field !== "always" && (
-              <>
-                <Sel value={cond.operator} onChange={v => updateCondition(ci, { operator: v as EdictOperator })}
-                  options={getOperatorsForField(cond.field).map(o => [o, OPERATOR_LABELS[o]])} />
-                {needsNumericValue(cond.field) ? (
-                  <input type="number" value={cond.value as number}
-                    onChange={e => updateCondition(ci, { value: Number(e.target.value) })}
-                    className="w-10 bg-[#0a1021] border border-[#2d3651] px-1 py-0.5 text-[9px] text-[#edf2ff] outline-none text-center" />
-                ) : (
-                  <Sel value={String(cond.value)}
-                    onChange={v => updateCondition(ci, { value: v })}
-                    options={getValueOptionsForField(cond.field)} />
-                )}
-              </>
-            )}
-            {edict.conditions.length > 1 && (
-              <button type="button" onClick={() => removeCondition(ci)}
-                className="text-[9px] text-[#6b7394] hover:text-[#f25454]">✕</button>
-            )}
-          </div>
-        ))}
-        {edict.conditions.length < 3 && (
-          <button type="button" onClick={addCondition}
-            className="text-[8px] text-[#6b7394] hover:text-[#ffdd57]">+ AND</button>
-        )}
+        <ConditionListEditor
+          nodes={edict.conditions}
+          depth={0}
+          canAddLeaf={canAddLeaf}
+          techniques={techniques}
+          onChange={(conditions) => onChange({ conditions })}
+        />
       </div>
 
       {/* Action */}
@@ -363,7 +331,7 @@ function EdictEditor({
         <div className="text-[8px] uppercase text-[#6b7394]">Then</div>
         <div className="flex items-center gap-1 flex-wrap">
           <Sel value={edict.action.type}
-            onChange={v => updateAction({ type: v as EdictActionType, techniqueId: undefined, targetPreference: undefined })}
+            onChange={v => updateAction({ type: v as EdictActionType, techniqueId: undefined, targetPreference: undefined, tokenId: undefined })}
             options={Object.entries(ACTION_LABELS)} />
           {edict.action.type === "use_technique" && (
             <Sel value={edict.action.techniqueId ?? ""}
@@ -375,12 +343,148 @@ function EdictEditor({
               onChange={v => updateAction({ targetPreference: v as EdictTargetPreference })}
               options={[["nearest", "Nearest"], ["weakest", "Weakest"], ["strongest", "Strongest"], ["boss", "Boss"]]} />
           )}
+          {edict.action.type === "use_consumable" && (
+            <input type="number" value={edict.action.tokenId ?? ""} placeholder="Token ID"
+              onChange={e => updateAction({ tokenId: Number(e.target.value) })}
+              className="w-16 bg-[#0a1021] border border-[#2d3651] px-1 py-0.5 text-[9px] text-[#edf2ff] outline-none text-center" />
+          )}
         </div>
       </div>
     </div>
   );
 }
 
+// ── Condition list (recursive for and/or/not groups) ────────────────
+
+function ConditionListEditor({
+  nodes, depth, canAddLeaf, techniques, onChange,
+}: {
+  nodes: EdictConditionNode[];
+  depth: number;
+  canAddLeaf: boolean;
+  techniques: TechniqueInfo[];
+  onChange: (nodes: EdictConditionNode[]) => void;
+}) {
+  const updateNode = (ci: number, node: EdictConditionNode) => {
+    const updated = [...nodes];
+    updated[ci] = node;
+    onChange(updated);
+  };
+
+  const removeNode = (ci: number) => {
+    onChange(nodes.filter((_, i) => i !== ci));
+  };
+
+  const newLeaf = (): EdictCondition => ({ subject: "self", field: "hp_pct", operator: "lt", value: 50 });
+
+  const addLeaf = () => {
+    if (!canAddLeaf) return;
+    onChange([...nodes, newLeaf()]);
+  };
+
+  const addGroup = (op: EdictGroupOperator) => {
+    if (!canAddLeaf || depth >= MAX_CONDITION_DEPTH) return;
+    onChange([...nodes, { op, conditions: [newLeaf()] }]);
+  };
+
+  // The top level always keeps at least one condition
+  const removable = depth > 0 || nodes.length > 1;
+
+  return (
+    <div className={depth > 0 ? "space-y-1 border-l border-[#2d3651] pl-2" : "space-y-1"}>
+      {nodes.map((node, ci) => (
+        <div key={ci} className="flex items-start gap-1">
+          {isConditionGroup(node) ? (
+            <div className="flex-1 space-y-1">
+              <Sel value={node.op} onChange={v => updateNode(ci, { ...node, op: v as EdictGroupOperator })}
+                options={Object.entries(GROUP_LABELS)} />
+              <ConditionListEditor
+                nodes={node.conditions}
+                depth={depth + 1}
+                canAddLeaf={canAddLeaf}
+                techniques={techniques}
+                onChange={(conditions) => conditions.length > 0
+                  ? updateNode(ci, { ...node, conditions })
+                  : removeNode(ci)}
+              />
+            </div>
+          ) : (
+            <ConditionRow cond={node} techniques={techniques} onChange={patch => updateNode(ci, { ...node, ...patch })} />
+          )}
+          {removable && (
+            <button type="button" onClick={() => removeNode(ci)}
+              className="text-[9px] text-[#6b7394] hover:text-[#f25454]">✕</button>
+          )}
+        </div>
+      ))}
+      {canAddLeaf && (
+        <div className="flex gap-2">
+          <button type="button" onClick={addLeaf}
+            className="text-[8px] text-[#6b7394] hover:text-[#ffdd57]">+ AND</button>
+          {depth < MAX_CONDITION_DEPTH && (
+            <>
+              <button type="button" onClick={() => addGroup("or")}
+                className="text-[8px] text-[#6b7394] hover:text-[#ffdd57]">+ OR group</button>
+              <button type="button" onClick={() => addGroup("not")}
+                className="text-[8px] text-[#6b7394] hover:text-[#ffdd57]">+ NOT group</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ConditionRow({
+  cond, techniques, onChange,
+}: {
+  cond: EdictCondition;
+  techniques: TechniqueInfo[];
+  onChange: (patch: Partial<EdictCondition>) => void;
+}) {
+  return (
+    <div className="flex items-center gap-1 flex-wrap">
+      <Sel value={cond.subject} onChange={v => onChange({ subject: v as EdictSubject })}
+        options={Object.entries(SUBJECT_LABELS)} />
+      <Sel value={cond.field} onChange={v => {
+        const defaults: Record<string, Partial<EdictCondition>> = {
+          hp_pct: { operator: "lt", value: 40 },
+          essence_pct: { operator: "lt", value: 30 },
+          type: { operator: "is", value: "boss" },
+          active_effect: { operator: "not_has", value: "buff" },
+          effect_from_self: { operator: "not_has", value: "debuff" },
+          nearby_enemies: { operator: "gte", value: 3 },
+          cooldown_ready: { operator: "is", value: techniques[0]?.id ?? "" },
+          casting: { operator: "is", value: "dangerous" },
+          distance: { operator: "gt", value: 50 },
+          level_gap: { operator: "gte", value: 3 },
+          buff_stacks: { operator: "lt", value: 1 },
+          time_of_day: { operator: "is", value: "night" },
+          always: { operator: "eq", value: true },
+        };
+        onChange({ field: v as EdictConditionField, ...(defaults[v] ?? {}) });
+      }} options={Object.entries(CONDITION_LABELS)} />
+      {cond.field !== "always" && (
+        <>
+          <Sel value={cond.operator} onChange={v => onChange({ operator: v as EdictOperator })}
+            options={getOperatorsForField(cond.field).map(o => [o, OPERATOR_LABELS[o]])} />
+          {needsNumericValue(cond.field) ? (
+            <input type="number" value={cond.value as number}
+              onChange={e => onChange({ value: Number(e.target.value) })}
+              className="w-10 bg-[#0a1021] border border-[#2d3651] px-1 py-0.5 text-[9px] text-[#edf2ff] outline-none text-center" />
+          ) : (
+            <Sel value={String(cond.value)}
+              onChange={v => onChange({ value: v })}
+              options={cond.field === "cooldown_ready"
+                ? techniques.map(t => [t.id, t.name])
+                : getValueOptionsForField(cond.field)} />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
 // ── Tiny select helper ──────────────────────────────────────────────
 
 function Sel({ value, onChange, options }: {
@@ -403,9 +507,10 @@ function Sel({ value, onChange, options }: {
 function getOperatorsForField(field: EdictConditionField): EdictOperator[] {
   switch (field) {
     case "hp_pct": case "essence_pct": case "nearby_enemies":
-      return ["lt", "gt", "gte", "eq"];
-    case "type":
-      return ["is"];
+    case "distance": case "level_gap": case "buff_stacks":
+      return ["lt", "lte", "gt", "gte", "eq"];
+    case "type": case "cooldown_ready": case "casting": case "time_of_day":
+      return ["is", "is_not"];
     case "active_effect": case "effect_from_self":
       return ["has", "not_has"];
     default:
@@ -414,7 +519,8 @@ function getOperatorsForField(field: EdictConditionField): EdictOperator[] {
 }
 
 function needsNumericValue(field: EdictConditionField): boolean {
-  return field === "hp_pct" || field === "essence_pct" || field === "nearby_enemies";
+  return field === "hp_pct" || field === "essence_pct" || field === "nearby_enemies"
+    || field === "distance" || field === "level_gap" || field === "buff_stacks";
 }
 
 function getValueOptionsForField(field: EdictConditionField): [string, string][] {
@@ -425,6 +531,10 @@ function getValueOptionsForField(field: EdictConditionField): [string, string][]
       return [["buff", "Buff"], ["debuff", "Debuff"], ["dot", "DoT"], ["shield", "Shield"]];
     case "effect_from_self":
       return [["debuff", "Debuff"], ["dot", "DoT"]];
+    case "casting":
+      return [["any", "Anything"], ["dangerous", "Dangerous"]];
+    case "time_of_day":
+      return [["dawn", "Dawn"], ["day", "Day"], ["dusk", "Dusk"], ["night", "Night"]];
     default:
       return [];
   }
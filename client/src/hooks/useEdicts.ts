@@ -3,13 +3,19 @@ import { API_URL } from "@/config";
 
 // ── Edict types (mirrored from shard) ───────────────────────────────
 
-export type EdictSubject = "self" | "target" | "ally_lowest_hp";
-export type EdictOperator = "lt" | "gt" | "gte" | "eq" | "has" | "not_has" | "is";
+export type EdictSubject =
+  | "self" | "target" | "ally_lowest_hp"
+  | "party_leader" | "tank" | "attacker" | "any_ally";
+export type EdictOperator = "lt" | "lte" | "gt" | "gte" | "eq" | "has" | "not_has" | "is" | "is_not";
 export type EdictConditionField =
   | "hp_pct" | "essence_pct" | "type" | "active_effect"
-  | "effect_from_self" | "nearby_enemies" | "always";
-export type EdictActionType = "use_technique" | "attack" | "prefer_target" | "flee" | "skip";
+  | "effect_from_self" | "nearby_enemies" | "cooldown_ready" | "casting"
+  | "distance" | "level_gap" | "buff_stacks" | "time_of_day" | "always";
+export type EdictActionType =
+  | "use_technique" | "attack" | "prefer_target" | "flee" | "skip"
+  | "use_consumable" | "interrupt" | "swap_to_ally_attacker" | "move_to_party_anchor";
 export type EdictTargetPreference = "nearest" | "weakest" | "strongest" | "boss";
+export type EdictGroupOperator = "and" | "or" | "not";
 
 export interface EdictCondition {
   subject: EdictSubject;
@@ -18,20 +24,39 @@ export interface EdictCondition {
   value: number | string | boolean;
 }
 
+export interface EdictConditionGroup {
+  op: EdictGroupOperator;
+  conditions: EdictConditionNode[];
+}
+
+export type EdictConditionNode = EdictCondition | EdictConditionGroup;
+
 export interface EdictAction {
   type: EdictActionType;
   techniqueId?: string;
   targetPreference?: EdictTargetPreference;
+  tokenId?: number;
 }
 
 export interface Edict {
   id: string;
   name: string;
   enabled: boolean;
-  conditions: EdictCondition[];
+  conditions: EdictConditionNode[];
   action: EdictAction;
 }
 
+export const MAX_CONDITIONS_PER_EDICT = 6;
+export const MAX_CONDITION_DEPTH = 3;
+
+export function isConditionGroup(node: EdictConditionNode): node is EdictConditionGroup {
+  return "op" in node;
+}
+
+export function countConditions(nodes: EdictConditionNode[]): number {
+  return nodes.reduce((n, node) => n + (isConditionGroup(node) ? countConditions(node.conditions) : 1), 0);
+}
+
 // ── Condition/action display labels ─────────────────────────────────
 
 export const CONDITION_LABELS: Record<EdictConditionField, string> = {
@@ -41,6 +66,12 @@ export const CONDITION_LABELS: Record<EdictConditionField, string> = {
   active_effect: "Has Effect",
   effect_from_self: "My Effect On Target",
   nearby_enemies: "Nearby Enemies",
+  cooldown_ready: "Cooldown Ready",
+  casting: "Casting",
+  distance: "Distance",
+  level_gap: "Level Gap",
+  buff_stacks: "Buff Stacks",
+  time_of_day: "Time of Day",
   always: "Always",
 };
 
@@ -48,16 +79,28 @@ export const SUBJECT_LABELS: Record<EdictSubject, string> = {
   self: "Self",
   target: "Target",
   ally_lowest_hp: "Weakest Ally",
+  party_leader: "Party Leader",
+  tank: "Tank",
+  attacker: "My Attacker",
+  any_ally: "Any Ally",
+};
+
+export const GROUP_LABELS: Record<EdictGroupOperator, string> = {
+  and: "ALL of",
+  or: "ANY of",
+  not: "NONE of",
 };
 
 export const OPERATOR_LABELS: Record<EdictOperator, string> = {
   lt: "<",
+  lte: "<=",
   gt: ">",
   gte: ">=",
   eq: "=",
   has: "has",
   not_has: "missing",
   is: "is",
+  is_not: "is not",
 };
 
 export const ACTION_LABELS: Record<EdictActionType, string> = {
@@ -66,6 +109,10 @@ export const ACTION_LABELS: Record<EdictActionType, string> = {
   prefer_target: "Prefer Target",
   flee: "Flee",
   skip: "Skip Turn",
+  use_consumable: "Use Consumable",
+  interrupt: "Interrupt Cast",
+  swap_to_ally_attacker: "Attack Ally's Attacker",
+  move_to_party_anchor: "Regroup on Leader",
 };
 
 // ── Hook ────────────────────────────────────────────────────────────
@@ -129,7 +176,12 @@ export function createEmptyEdict(): Edict {
   };
 }
 
-export function conditionSummary(c: EdictCondition): string {
+export function conditionSummary(c: EdictConditionNode): string {
+  if (isConditionGroup(c)) {
+    const inner = c.conditions.map(conditionSummary);
+    if (c.op === "not") return `NOT (${inner.join(" OR ")})`;
+    return `(${inner.join(c.op === "or" ? " OR " : " AND ")})`;
+  }
   if (c.field === "always") return "Always";
   const subj = SUBJECT_LABELS[c.subject] ?? c.subject;
   const field = CONDITION_LABELS[c.field] ?? c.field;
@@ -141,5 +193,6 @@ export function conditionSummary(c: EdictCondition): string {
 export function actionSummary(a: EdictAction, techniqueName?: string): string {
   if (a.type === "use_technique") return techniqueName ?? a.techniqueId ?? "???";
   if (a.type === "prefer_target") return `Target ${a.targetPreference ?? "nearest"}`;
+  if (a.type === "use_consumable") return `Drink #${a.tokenId ?? "?"}`;
   return ACTION_LABELS[a.type] ?? a.type;
 }
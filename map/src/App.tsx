@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { Toolbar } from "./panels/Toolbar";
 import { TilePalette } from "./panels/TilePalette";
 import { LayerPanel } from "./panels/LayerPanel";
@@ -6,11 +7,47 @@ import { ZoneProperties } from "./panels/ZoneProperties";
 import { FalPanel } from "./panels/FalPanel";
 import { PrefabPalette } from "./panels/PrefabPalette";
 import { NpcEditorPanel } from "./panels/NpcEditorPanel";
+import { QuestGraphPanel } from "./panels/QuestGraphPanel";
 import { MapCanvas } from "./canvas/MapCanvas";
 import { useEditorStore } from "./store/editorStore";
+import { useQuestGraphStore } from "./store/questGraphStore";
+
+type EditorMode = "map" | "quests";
 
 export function App() {
   const zoneId = useEditorStore((s) => s.zoneId);
+  const arcId = useQuestGraphStore((s) => s.arc?.id);
+  const [mode, setMode] = useState<EditorMode>("map");
+
+  const header = (
+    <div className="flex items-center gap-2 border-b border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-400">
+      <span className="font-semibold text-zinc-200">WoG Map Editor</span>
+      <span className="text-zinc-600">|</span>
+      <span>{mode === "map" ? zoneId || "untitled" : arcId ?? "no arc"}</span>
+      <div className="ml-auto flex gap-1">
+        {(["map", "quests"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`rounded px-2 py-0.5 capitalize ${
+              mode === m ? "bg-blue-600/30 text-blue-200" : "text-zinc-400 hover:bg-zinc-800"
+            }`}
+          >
+            {m}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (mode === "quests") {
+    return (
+      <div className="flex h-screen w-screen flex-col overflow-hidden">
+        {header}
+        <QuestGraphPanel />
+      </div>
+    );
+  }
 
   return (
     <div className="flex h-screen w-screen overflow-hidden">
@@ -25,11 +62,7 @@ export function App() {
 
       {/* Center — canvas */}
       <div className="flex min-w-0 flex-1 flex-col">
-        <div className="flex items-center gap-2 border-b border-zinc-800 bg-zinc-900 px-3 py-1.5 text-xs text-zinc-400">
-          <span className="font-semibold text-zinc-200">WoG Map Editor</span>
-          <span className="text-zinc-600">|</span>
-          <span>{zoneId || "untitled"}</span>
-        </div>
+        {header}
         <MapCanvas />
       </div>
 
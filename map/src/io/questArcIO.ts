@@ -0,0 +1,194 @@
+import {
+  useQuestGraphStore,
+  type SimulatedMaterial,
+  type SimulatedPlayer,
+} from "../store/questGraphStore";
+import type {
+  QuestArcDefinition,
+  QuestGraphAppliedEffect,
+  QuestGraphRenderableNode,
+  QuestGraphValidationIssue,
+  QuestSceneDefinition,
+} from "../quests/questGraphTypes";
+
+/** API base — dev uses vite proxy (empty string), prod uses VITE_API_URL. */
+const API_BASE = (import.meta.env.VITE_API_URL as string | undefined) ?? "";
+
+export interface QuestArcSummary {
+  id: string;
+  title: string;
+  summary: string;
+  zoneIds: string[];
+  tags: string[];
+  startingSceneId: string;
+  sceneCount: number;
+}
+
+/** Shape of shard/src/social/questGraphs/data/json/*.json, with every scene as a "graph" template. */
+interface AuthoredArcFile {
+  meta: Omit<QuestArcDefinition, "scenes">;
+  scenes: Array<{ template: string; config: unknown }>;
+}
+
+function toAuthoredArcFile(arc: QuestArcDefinition): AuthoredArcFile {
+  const { scenes, ...meta } = arc;
+  return {
+    meta,
+    scenes: Object.values(scenes).map((scene) => ({ template: "graph", config: scene })),
+  };
+}
+
+/**
+ * Accept either a bare arc definition or an authored arc file. Authored
+ * files using the older builder templates can't be expanded here; load
+ * those from the shard instead, which serves them already built.
+ */
+function parseArcFile(raw: unknown): QuestArcDefinition | string {
+  if (!raw || typeof raw !== "object") return "Not a quest arc file";
+  const source = raw as Record<string, unknown>;
+
+  if (typeof source.id === "string" && source.scenes && typeof source.scenes === "object" && !Array.isArray(source.scenes)) {
+    return source as unknown as QuestArcDefinition;
+  }
+
+  if (source.meta && typeof source.meta === "object" && Array.isArray(source.scenes)) {
+    const file = source as unknown as AuthoredArcFile;
+    const scenes: Record<string, QuestSceneDefinition> = {};
+    for (const entry of file.scenes) {
+      if (entry.template !== "graph") {
+        return `Scene template "${entry.template}" can only be edited after loading the arc from the shard`;
+      }
+      const scene = entry.config as QuestSceneDefinition;
+      scenes[scene.id] = scene;
+    }
+    return { ...file.meta, scenes };
+  }
+
+  return "Not a quest arc file";
+}
+
+/**
+ * Download the current arc as an authored arc file, ready to drop into
+ * shard/src/social/questGraphs/data/json/.
+ */
+export function downloadArc() {
+  const { arc, fileName } = useQuestGraphStore.getState();
+  if (!arc) return;
+  const json = JSON.stringify(toAuthoredArcFile(arc), null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName ?? `${arc.id}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+  useQuestGraphStore.getState().markClean();
+}
+
+/**
+ * Open a file picker and load a quest arc JSON file.
+ */
+export function pickAndLoadArc() {
+  const input = document.createElement("input");
+  input.type = "file";
+  input.accept = ".json";
+
+  input.onchange = async () => {
+    const file = input.files?.[0];
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const arc = parseArcFile(JSON.parse(text));
+      if (typeof arc === "string") {
+        alert(arc);
+        return;
+      }
+      useQuestGraphStore.getState().loadArc(arc, file.name);
+    } catch {
+      alert("Failed to parse quest arc file");
+    }
+  };
+
+  input.click();
+}
+
+/** List the arcs the shard has loaded. */
+export async function fetchArcList(): Promise<QuestArcSummary[]> {
+  try {
+    const res = await fetch(`${API_BASE}/quest-arcs`);
+    if (!res.ok) return [];
+    const raw = (await res.json()) as { arcs: QuestArcSummary[] };
+    return Array.isArray(raw.arcs) ? raw.arcs : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Load one arc from the shard, with template scenes already built into graphs. */
+export async function loadArcFromShard(arcId: string): Promise<boolean> {
+  try {
+    const res = await fetch(`${API_BASE}/quest-arcs/${encodeURIComponent(arcId)}`);
+    if (!res.ok) return false;
+    const raw = (await res.json()) as { arc: QuestArcDefinition };
+    useQuestGraphStore.getState().loadArc(raw.arc);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Run the shard's arc validator on the current draft and store the result. */
+export async function validateArc(arc: QuestArcDefinition): Promise<void> {
+  const { setValidation } = useQuestGraphStore.getState();
+  try {
+    const res = await fetch(`${API_BASE}/quest-arcs/validate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ arc }),
+    });
+    const raw = (await res.json()) as { validationIssues?: QuestGraphValidationIssue[]; error?: string };
+    if (!res.ok) {
+      setValidation([], raw.error ?? `Validation failed (${res.status})`);
+      return;
+    }
+    setValidation(raw.validationIssues ?? [], null);
+  } catch {
+    setValidation([], "Validator offline — is the shard running?");
+  }
+}
+
+export interface SimulationResult {
+  node: QuestGraphRenderableNode;
+  appliedEffects: QuestGraphAppliedEffect[];
+  resolution?: { type: "freeform"; confidence: number; matchedRouteId?: string; fallbackText?: string };
+  player: SimulatedPlayer;
+  material: SimulatedMaterial;
+}
+
+/**
+ * Run one step of a scene against the fake player on the shard. Omit
+ * nodeId to start the scene. Nothing is persisted; the returned player
+ * and material are what the next step should send.
+ */
+export async function simulateStep(
+  arc: QuestArcDefinition,
+  sceneId: string,
+  player: SimulatedPlayer,
+  material: SimulatedMaterial,
+  step?: { nodeId: string; choiceId?: string; freeformInput?: string },
+): Promise<SimulationResult | string> {
+  try {
+    const res = await fetch(`${API_BASE}/quest-arcs/simulate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ arc, sceneId, player, material, ...step }),
+    });
+    const raw = (await res.json()) as SimulationResult & { error?: string };
+    if (!res.ok) return raw.error ?? `Simulation failed (${res.status})`;
+    return raw;
+  } catch {
+    return "Simulator offline — is the shard running?";
+  }
+}
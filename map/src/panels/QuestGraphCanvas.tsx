@@ -0,0 +1,177 @@
+import { useRef } from "react";
+import { useQuestGraphStore } from "../store/questGraphStore";
+import { getNodeEdges, NODE_HEIGHT, NODE_WIDTH } from "../quests/questGraphModel";
+import type { QuestGraphNode } from "../quests/questGraphTypes";
+
+const NODE_COLORS: Record<QuestGraphNode["type"], string> = {
+  line: "#3f3f46",
+  choice: "#1e3a8a",
+  branch: "#581c87",
+  effect: "#065f46",
+  freeform: "#7c2d12",
+  end: "#27272a",
+};
+
+function nodePreview(node: QuestGraphNode): string {
+  switch (node.type) {
+    case "line":
+    case "choice":
+    case "freeform":
+      return node.text;
+    case "branch":
+      return `${node.branches.length} branch${node.branches.length === 1 ? "" : "es"}`;
+    case "effect":
+      return node.effects.map((effect) => effect.type).join(", ") || "no effects";
+    case "end":
+      return node.text ?? "";
+  }
+}
+
+export function QuestGraphCanvas() {
+  const arc = useQuestGraphStore((s) => s.arc);
+  const sceneId = useQuestGraphStore((s) => s.sceneId);
+  const positions = useQuestGraphStore((s) => (s.sceneId ? s.positions[s.sceneId] : undefined));
+  const selectedNodeId = useQuestGraphStore((s) => s.selectedNodeId);
+  const issues = useQuestGraphStore((s) => s.validationIssues);
+  const simSteps = useQuestGraphStore((s) => s.simSteps);
+  const selectNode = useQuestGraphStore((s) => s.selectNode);
+  const moveNode = useQuestGraphStore((s) => s.moveNode);
+
+  const drag = useRef<{ nodeId: string; dx: number; dy: number } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const scene = arc && sceneId ? arc.scenes[sceneId] : null;
+  if (!scene || !positions) {
+    return (
+      <div className="flex flex-1 items-center justify-center text-xs text-zinc-600">
+        Open an arc or create a new one to start editing.
+      </div>
+    );
+  }
+
+  const nodes = Object.values(scene.nodes);
+  const placed = (id: string) => positions[id] ?? { x: 40, y: 40 };
+  const width = Math.max(800, ...nodes.map((n) => placed(n.id).x + NODE_WIDTH + 80));
+  const height = Math.max(500, ...nodes.map((n) => placed(n.id).y + NODE_HEIGHT + 80));
+
+  const nodesWithIssues = new Set(
+    issues.filter((issue) => issue.sceneId === scene.id && issue.nodeId).map((issue) => issue.nodeId!),
+  );
+  const simNodeId = simSteps.length > 0 ? simSteps[simSteps.length - 1].node.id : null;
+
+  const toSvgPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, nodeId: string) => {
+    e.stopPropagation();
+    const point = toSvgPoint(e);
+    const pos = placed(nodeId);
+    drag.current = { nodeId, dx: point.x - pos.x, dy: point.y - pos.y };
+    svgRef.current?.setPointerCapture(e.pointerId);
+    selectNode(nodeId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const point = toSvgPoint(e);
+    moveNode(drag.current.nodeId, Math.max(0, point.x - drag.current.dx), Math.max(0, point.y - drag.current.dy));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (drag.current) svgRef.current?.releasePointerCapture(e.pointerId);
+    drag.current = null;
+  };
+
+  return (
+    <div className="min-h-0 flex-1 overflow-auto bg-zinc-950">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        onPointerDown={() => selectNode(null)}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="select-none"
+      >
+        <defs>
+          <marker id="quest-edge-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#71717a" />
+          </marker>
+        </defs>
+
+        {/* Edges */}
+        {nodes.flatMap((node) =>
+          getNodeEdges(node).map((edge, index) => {
+            const from = placed(edge.from);
+            const target = scene.nodes[edge.to];
+            const to = target ? placed(edge.to) : { x: from.x + NODE_WIDTH + 60, y: from.y };
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+            return (
+              <g key={`${edge.from}-${index}`}>
+                <path
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={target ? "#71717a" : "#dc2626"}
+                  strokeDasharray={target ? undefined : "4 3"}
+                  strokeWidth={1.5}
+                  markerEnd="url(#quest-edge-arrow)"
+                />
+                {edge.label && (
+                  <text
+                    x={(x1 + x2) / 2}
+                    y={(y1 + y2) / 2 - 4}
+                    textAnchor="middle"
+                    className="fill-zinc-400 text-[10px]"
+                  >
+                    {edge.label.length > 24 ? `${edge.label.slice(0, 23)}…` : edge.label}
+                  </text>
+                )}
+              </g>
+            );
+          }),
+        )}
+
+        {/* Nodes */}
+        {nodes.map((node) => {
+          const pos = placed(node.id);
+          const isStart = node.id === scene.startNodeId;
+          const stroke = node.id === simNodeId
+            ? "#f59e0b"
+            : node.id === selectedNodeId
+              ? "#60a5fa"
+              : nodesWithIssues.has(node.id)
+                ? "#dc2626"
+                : isStart
+                  ? "#10b981"
+                  : "#52525b";
+          const preview = nodePreview(node);
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${pos.x} ${pos.y})`}
+              onPointerDown={(e) => handlePointerDown(e, node.id)}
+              className="cursor-move"
+            >
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={6} fill={NODE_COLORS[node.type]} stroke={stroke} strokeWidth={2} />
+              <text x={8} y={16} className="fill-zinc-400 text-[9px] uppercase">
+                {isStart ? "▶ " : ""}{node.type}
+              </text>
+              <text x={8} y={32} className="fill-zinc-100 text-[11px] font-semibold">
+                {node.id.length > 28 ? `${node.id.slice(0, 27)}…` : node.id}
+              </text>
+              <text x={8} y={50} className="fill-zinc-400 text-[10px]">
+                {preview.length > 32 ? `${preview.slice(0, 31)}…` : preview}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+}
@@ -0,0 +1,366 @@
+import { useEffect, useState } from "react";
+import { Download, FilePlus, FolderOpen, LayoutGrid, Loader2, Plus, Server, Trash2 } from "lucide-react";
+import { useQuestGraphStore } from "../store/questGraphStore";
+import {
+  downloadArc,
+  fetchArcList,
+  loadArcFromShard,
+  pickAndLoadArc,
+  validateArc,
+  type QuestArcSummary,
+} from "../io/questArcIO";
+import type { QuestGraphNodeType } from "../quests/questGraphTypes";
+import { QuestGraphCanvas } from "./QuestGraphCanvas";
+import { QuestNodeInspector } from "./QuestNodeInspector";
+import { QuestSimulatorPanel } from "./QuestSimulatorPanel";
+
+const INPUT_CLASS =
+  "w-full rounded border border-zinc-700 bg-zinc-900 px-1.5 py-0.5 text-xs text-zinc-200 outline-none focus:border-zinc-500";
+
+const NODE_TYPES: QuestGraphNodeType[] = ["line", "choice", "branch", "effect", "freeform", "end"];
+
+/** Wait this long after the last edit before asking the shard to validate. */
+const VALIDATE_DEBOUNCE_MS = 400;
+
+/**
+ * Quest arc editor: arc + scene list on the left, the scene graph in the
+ * middle, node inspector and simulator on the right. Validation and
+ * simulation run on the shard so they match what players will get.
+ */
+export function QuestGraphPanel() {
+  const arc = useQuestGraphStore((s) => s.arc);
+
+  // Live validation
+  useEffect(() => {
+    if (!arc) return;
+    const timer = setTimeout(() => void validateArc(arc), VALIDATE_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [arc]);
+
+  return (
+    <div className="flex min-h-0 flex-1">
+      <div className="flex w-64 flex-col overflow-y-auto border-r border-zinc-800 bg-zinc-900">
+        <ArcSection />
+        {arc && <SceneSection />}
+        {arc && <ValidationSection />}
+      </div>
+
+      <div className="flex min-w-0 flex-1 flex-col">
+        <QuestGraphCanvas />
+      </div>
+
+      <div className="flex w-80 flex-col overflow-y-auto border-l border-zinc-800 bg-zinc-900">
+        <QuestNodeInspector />
+        <QuestSimulatorPanel />
+      </div>
+    </div>
+  );
+}
+
+function ArcSection() {
+  const arc = useQuestGraphStore((s) => s.arc);
+  const dirty = useQuestGraphStore((s) => s.dirty);
+  const newArc = useQuestGraphStore((s) => s.newArc);
+  const updateArc = useQuestGraphStore((s) => s.updateArc);
+
+  const [shardArcs, setShardArcs] = useState<QuestArcSummary[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const confirmDiscard = () => !dirty || confirm("Discard unsaved changes to this arc?");
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    const id = prompt("Arc id (kebab-case)", "new-arc");
+    if (id?.trim()) newArc(id.trim());
+  };
+
+  const handleBrowseShard = async () => {
+    setLoading(true);
+    setShardArcs(await fetchArcList());
+    setLoading(false);
+  };
+
+  const handleLoadShardArc = async (arcId: string) => {
+    if (!arcId || !confirmDiscard()) return;
+    if (!(await loadArcFromShard(arcId))) alert(`Failed to load arc "${arcId}" from the shard`);
+  };
+
+  return (
+    <div className="border-b border-zinc-800 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-zinc-500">
+          Quest Arc
+        </span>
+        {dirty && (
+          <span className="rounded bg-amber-700/30 px-1.5 py-0.5 text-[9px] font-semibold text-amber-300">
+            UNSAVED
+          </span>
+        )}
+      </div>
+
+      <div className="mb-2 grid grid-cols-4 gap-1">
+        <IconButton title="New arc" onClick={handleNew}>
+          <FilePlus size={12} />
+        </IconButton>
+        <IconButton title="Open arc JSON" onClick={() => confirmDiscard() && pickAndLoadArc()}>
+          <FolderOpen size={12} />
+        </IconButton>
+        <IconButton title="Browse arcs on the shard" onClick={handleBrowseShard}>
+          {loading ? <Loader2 size={12} className="animate-spin" /> : <Server size={12} />}
+        </IconButton>
+        <IconButton title="Save arc JSON" onClick={downloadArc} disabled={!arc}>
+          <Download size={12} />
+        </IconButton>
+      </div>
+
+      {shardArcs && (
+        <select
+          value=""
+          onChange={(e) => void handleLoadShardArc(e.target.value)}
+          className={`${INPUT_CLASS} mb-2`}
+        >
+          <option value="">
+            {shardArcs.length === 0 ? "Shard unreachable or no arcs" : `Load from shard (${shardArcs.length})…`}
+          </option>
+          {shardArcs.map((summary) => (
+            <option key={summary.id} value={summary.id}>
+              {summary.title} ({summary.sceneCount})
+            </option>
+          ))}
+        </select>
+      )}
+
+      {arc && (
+        <div className="space-y-1.5">
+          <Field label="Id">
+            <input type="text" value={arc.id} onChange={(e) => updateArc({ id: e.target.value })} className={INPUT_CLASS} />
+          </Field>
+          <Field label="Title">
+            <input type="text" value={arc.title} onChange={(e) => updateArc({ title: e.target.value })} className={INPUT_CLASS} />
+          </Field>
+          <Field label="Summary">
+            <textarea
+              value={arc.summary}
+              rows={2}
+              onChange={(e) => updateArc({ summary: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="Zones (comma separated)">
+            <ListInput key={arc.id} value={arc.zoneIds} onChange={(zoneIds) => updateArc({ zoneIds })} />
+          </Field>
+          <Field label="Tags (comma separated)">
+            <ListInput key={arc.id} value={arc.tags} onChange={(tags) => updateArc({ tags })} />
+          </Field>
+          <Field label="Starting scene">
+            <select
+              value={arc.startingSceneId}
+              onChange={(e) => updateArc({ startingSceneId: e.target.value })}
+              className={INPUT_CLASS}
+            >
+              {!arc.scenes[arc.startingSceneId] && (
+                <option value={arc.startingSceneId}>{arc.startingSceneId} (missing)</option>
+              )}
+              {Object.keys(arc.scenes).map((id) => (
+                <option key={id} value={id}>{id}</option>
+              ))}
+            </select>
+          </Field>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SceneSection() {
+  const arc = useQuestGraphStore((s) => s.arc)!;
+  const sceneId = useQuestGraphStore((s) => s.sceneId);
+  const selectScene = useQuestGraphStore((s) => s.selectScene);
+  const addScene = useQuestGraphStore((s) => s.addScene);
+  const updateScene = useQuestGraphStore((s) => s.updateScene);
+  const removeScene = useQuestGraphStore((s) => s.removeScene);
+  const addNode = useQuestGraphStore((s) => s.addNode);
+  const relayout = useQuestGraphStore((s) => s.relayout);
+
+  const scene = sceneId ? arc.scenes[sceneId] : null;
+
+  const handleAddScene = () => {
+    const id = prompt("Scene id (snake_case)", "new_scene");
+    if (!id?.trim()) return;
+    if (arc.scenes[id.trim()]) {
+      alert(`Scene "${id.trim()}" already exists`);
+      return;
+    }
+    addScene(id.trim(), scene?.npcName ?? "");
+  };
+
+  return (
+    <div className="border-b border-zinc-800 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-zinc-500">
+          Scenes
+        </span>
+        <button onClick={handleAddScene} title="Add scene" className="rounded p-0.5 text-zinc-400 hover:bg-zinc-800">
+          <Plus size={12} />
+        </button>
+      </div>
+
+      <div className="mb-2 max-h-40 overflow-y-auto rounded border border-zinc-800">
+        {Object.values(arc.scenes).map((entry) => (
+          <button
+            key={entry.id}
+            onClick={() => selectScene(entry.id)}
+            className={`block w-full truncate px-2 py-0.5 text-left text-[11px] ${
+              entry.id === sceneId ? "bg-blue-600/30 text-blue-200" : "text-zinc-400 hover:bg-zinc-800"
+            }`}
+          >
+            {entry.id} <span className="text-zinc-600">· {entry.npcName || "no npc"}</span>
+          </button>
+        ))}
+      </div>
+
+      {scene && (
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-semibold text-zinc-400">Editing {scene.id}</span>
+            <button
+              onClick={() => confirm(`Delete scene "${scene.id}"?`) && removeScene(scene.id)}
+              disabled={Object.keys(arc.scenes).length <= 1}
+              title="Delete scene"
+              className="rounded p-1 text-red-400 hover:bg-red-900/30 disabled:opacity-30"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+          <Field label="Title">
+            <input type="text" value={scene.title} onChange={(e) => updateScene({ title: e.target.value })} className={INPUT_CLASS} />
+          </Field>
+          <Field label="NPC name">
+            <input type="text" value={scene.npcName} onChange={(e) => updateScene({ npcName: e.target.value })} className={INPUT_CLASS} />
+          </Field>
+          <Field label="Start node">
+            <select
+              value={scene.startNodeId}
+              onChange={(e) => updateScene({ startNodeId: e.target.value })}
+              className={INPUT_CLASS}
+            >
+              {Object.keys(scene.nodes).map((id) => (
+                <option key={id} value={id}>{id}</option>
+              ))}
+            </select>
+          </Field>
+
+          <div className="pt-1 text-[9px] uppercase tracking-wider text-zinc-500">Add node</div>
+          <div className="grid grid-cols-3 gap-1">
+            {NODE_TYPES.map((type) => (
+              <button
+                key={type}
+                onClick={() => addNode(type)}
+                className="rounded bg-zinc-800 px-1 py-0.5 text-[10px] text-zinc-300 hover:bg-zinc-700"
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={relayout}
+            className="flex w-full items-center justify-center gap-1 rounded bg-zinc-800 px-2 py-1 text-[10px] text-zinc-300 hover:bg-zinc-700"
+          >
+            <LayoutGrid size={10} /> Auto layout
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ValidationSection() {
+  const issues = useQuestGraphStore((s) => s.validationIssues);
+  const error = useQuestGraphStore((s) => s.validationError);
+  const selectScene = useQuestGraphStore((s) => s.selectScene);
+  const selectNode = useQuestGraphStore((s) => s.selectNode);
+
+  return (
+    <div className="p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-zinc-500">
+          Validation
+        </span>
+        {!error && (
+          <span className={`text-[9px] font-semibold ${issues.length === 0 ? "text-emerald-400" : "text-red-400"}`}>
+            {issues.length === 0 ? "OK" : `${issues.length} issue${issues.length === 1 ? "" : "s"}`}
+          </span>
+        )}
+      </div>
+      {error && <div className="text-[10px] text-amber-400">{error}</div>}
+      <ul className="space-y-0.5">
+        {issues.map((issue, index) => (
+          <li key={index}>
+            <button
+              onClick={() => {
+                if (issue.sceneId) selectScene(issue.sceneId);
+                if (issue.nodeId) selectNode(issue.nodeId);
+              }}
+              className="w-full rounded px-1 py-0.5 text-left text-[10px] text-red-300 hover:bg-zinc-800"
+            >
+              {issue.sceneId && (
+                <span className="text-zinc-500">
+                  {issue.sceneId}
+                  {issue.nodeId ? `/${issue.nodeId}` : ""}:{" "}
+                </span>
+              )}
+              {issue.message}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function IconButton({
+  title,
+  onClick,
+  disabled,
+  children,
+}: {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className="flex items-center justify-center rounded bg-zinc-800 px-2 py-1 text-zinc-200 hover:bg-zinc-700 disabled:opacity-50"
+    >
+      {children}
+    </button>
+  );
+}
+
+function ListInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join(", "));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(",").map((entry) => entry.trim()).filter(Boolean));
+      }}
+      className={INPUT_CLASS}
+    />
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-[9px] uppercase tracking-wider text-zinc-500">{label}</span>
+      {children}
+    </label>
+  );
+}
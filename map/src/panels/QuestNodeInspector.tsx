@@ -0,0 +1,530 @@
+import { useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import { useQuestGraphStore } from "../store/questGraphStore";
+import type {
+  QuestGraphChoice,
+  QuestGraphCondition,
+  QuestGraphEffect,
+  QuestGraphFreeformRoute,
+  QuestGraphNode,
+  QuestGraphSpeaker,
+  QuestSceneDefinition,
+} from "../quests/questGraphTypes";
+
+const INPUT_CLASS =
+  "w-full rounded border border-zinc-700 bg-zinc-900 px-1.5 py-0.5 text-xs text-zinc-200 outline-none focus:border-zinc-500";
+
+const SPEAKERS: QuestGraphSpeaker[] = ["npc", "player", "system"];
+
+/**
+ * Edits the selected node of the current scene. Conditions and effects are
+ * edited as JSON; the shard validator reports anything it doesn't accept.
+ */
+export function QuestNodeInspector() {
+  const arc = useQuestGraphStore((s) => s.arc);
+  const sceneId = useQuestGraphStore((s) => s.sceneId);
+  const selectedNodeId = useQuestGraphStore((s) => s.selectedNodeId);
+  const issues = useQuestGraphStore((s) => s.validationIssues);
+  const updateNode = useQuestGraphStore((s) => s.updateNode);
+  const renameNode = useQuestGraphStore((s) => s.renameNode);
+  const removeNode = useQuestGraphStore((s) => s.removeNode);
+  const updateScene = useQuestGraphStore((s) => s.updateScene);
+
+  const scene = arc && sceneId ? arc.scenes[sceneId] : null;
+  const node = scene && selectedNodeId ? scene.nodes[selectedNodeId] : null;
+
+  return (
+    <div className="border-b border-zinc-800 p-3">
+      <div className="mb-2 text-[10px] font-semibold uppercase tracking-wider text-zinc-500">
+        Node
+      </div>
+      {!scene || !node ? (
+        <div className="text-[10px] text-zinc-600">Select a node on the canvas.</div>
+      ) : (
+        // Keyed so JSON drafts and the id field reset when the selection changes
+        <NodeEditor
+          key={`${scene.id}:${node.id}`}
+          scene={scene}
+          node={node}
+          issues={issues
+            .filter((issue) => issue.sceneId === scene.id && issue.nodeId === node.id)
+            .map((issue) => issue.message)}
+          onChange={updateNode}
+          onRename={(newId) => renameNode(node.id, newId)}
+          onRemove={() => removeNode(node.id)}
+          onMakeStart={() => updateScene({ startNodeId: node.id })}
+        />
+      )}
+    </div>
+  );
+}
+
+function NodeEditor({
+  scene,
+  node,
+  issues,
+  onChange,
+  onRename,
+  onRemove,
+  onMakeStart,
+}: {
+  scene: QuestSceneDefinition;
+  node: QuestGraphNode;
+  issues: string[];
+  onChange: (node: QuestGraphNode) => void;
+  onRename: (newId: string) => boolean;
+  onRemove: () => void;
+  onMakeStart: () => void;
+}) {
+  const [idDraft, setIdDraft] = useState(node.id);
+  const nodeIds = Object.keys(scene.nodes);
+
+  const commitRename = () => {
+    const trimmed = idDraft.trim();
+    if (trimmed === node.id) return;
+    if (!onRename(trimmed)) setIdDraft(node.id);
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center gap-1">
+        <span className="rounded bg-zinc-800 px-1.5 py-0.5 text-[9px] uppercase text-zinc-400">{node.type}</span>
+        {scene.startNodeId === node.id ? (
+          <span className="text-[9px] text-emerald-400">start node</span>
+        ) : (
+          <button onClick={onMakeStart} className="text-[9px] text-zinc-500 hover:text-zinc-300">
+            make start
+          </button>
+        )}
+        <button
+          onClick={onRemove}
+          title="Delete node"
+          className="ml-auto rounded p-1 text-red-400 hover:bg-red-900/30"
+        >
+          <Trash2 size={12} />
+        </button>
+      </div>
+
+      <Field label="Id">
+        <input
+          type="text"
+          value={idDraft}
+          onChange={(e) => setIdDraft(e.target.value)}
+          onBlur={commitRename}
+          onKeyDown={(e) => e.key === "Enter" && commitRename()}
+          className={INPUT_CLASS}
+        />
+      </Field>
+
+      {(node.type === "line" || node.type === "choice" || node.type === "freeform") && (
+        <>
+          <Field label="Speaker">
+            <select
+              value={node.speaker}
+              onChange={(e) => onChange({ ...node, speaker: e.target.value as QuestGraphSpeaker })}
+              className={INPUT_CLASS}
+            >
+              {SPEAKERS.map((speaker) => (
+                <option key={speaker} value={speaker}>{speaker}</option>
+              ))}
+            </select>
+          </Field>
+          <Field label="Text">
+            <textarea
+              value={node.text}
+              rows={3}
+              onChange={(e) => onChange({ ...node, text: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+        </>
+      )}
+
+      {node.type === "line" && (
+        <Field label="Next">
+          <NodeSelect value={node.next} nodeIds={nodeIds} onChange={(next) => onChange({ ...node, next })} />
+        </Field>
+      )}
+
+      {node.type === "effect" && (
+        <>
+          <JsonField<QuestGraphEffect[]>
+            label="Effects"
+            value={node.effects}
+            onChange={(effects) => onChange({ ...node, effects: effects ?? [] })}
+          />
+          <Field label="Next">
+            <NodeSelect value={node.next} nodeIds={nodeIds} onChange={(next) => onChange({ ...node, next })} />
+          </Field>
+        </>
+      )}
+
+      {node.type === "end" && (
+        <Field label="Text">
+          <textarea
+            value={node.text ?? ""}
+            rows={2}
+            onChange={(e) => onChange({ ...node, text: e.target.value || undefined })}
+            className={INPUT_CLASS}
+          />
+        </Field>
+      )}
+
+      {node.type === "choice" && (
+        <>
+          <Field label="Default next">
+            <NodeSelect value={node.next} nodeIds={nodeIds} onChange={(next) => onChange({ ...node, next })} />
+          </Field>
+          <ListHeader
+            label="Choices"
+            onAdd={() =>
+              onChange({
+                ...node,
+                choices: [...node.choices, { id: `choice_${node.choices.length + 1}`, label: "", next: null }],
+              })
+            }
+          />
+          {node.choices.map((choice, index) => (
+            <ChoiceEditor
+              key={`${index}/${node.choices.length}`}
+              choice={choice}
+              nodeIds={nodeIds}
+              onChange={(updated) =>
+                onChange({ ...node, choices: node.choices.map((c, i) => (i === index ? updated : c)) })
+              }
+              onRemove={() => onChange({ ...node, choices: node.choices.filter((_, i) => i !== index) })}
+            />
+          ))}
+        </>
+      )}
+
+      {node.type === "branch" && (
+        <>
+          <ListHeader
+            label="Branches (first match wins)"
+            onAdd={() =>
+              onChange({
+                ...node,
+                branches: [...node.branches, { condition: { type: "has_story_flag", flag: "" }, next: "" }],
+              })
+            }
+          />
+          {node.branches.map((branch, index) => (
+            <ItemBox key={`${index}/${node.branches.length}`} onRemove={() => onChange({ ...node, branches: node.branches.filter((_, i) => i !== index) })}>
+              <JsonField<QuestGraphCondition>
+                label={`Condition #${index + 1}`}
+                value={branch.condition}
+                onChange={(condition) =>
+                  condition &&
+                  onChange({
+                    ...node,
+                    branches: node.branches.map((b, i) => (i === index ? { ...b, condition } : b)),
+                  })
+                }
+              />
+              <Field label="Next">
+                <NodeSelect
+                  value={branch.next}
+                  nodeIds={nodeIds}
+                  onChange={(next) =>
+                    onChange({
+                      ...node,
+                      branches: node.branches.map((b, i) => (i === index ? { ...b, next: next ?? "" } : b)),
+                    })
+                  }
+                />
+              </Field>
+            </ItemBox>
+          ))}
+          <Field label="Fallback next">
+            <NodeSelect
+              value={node.fallbackNext}
+              nodeIds={nodeIds}
+              onChange={(fallbackNext) => onChange({ ...node, fallbackNext })}
+            />
+          </Field>
+        </>
+      )}
+
+      {node.type === "freeform" && (
+        <>
+          <Field label="Prompt">
+            <input
+              type="text"
+              value={node.prompt}
+              onChange={(e) => onChange({ ...node, prompt: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="Placeholder">
+            <input
+              type="text"
+              value={node.placeholder ?? ""}
+              onChange={(e) => onChange({ ...node, placeholder: e.target.value || undefined })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="Fallback text">
+            <input
+              type="text"
+              value={node.fallbackText ?? ""}
+              onChange={(e) => onChange({ ...node, fallbackText: e.target.value || undefined })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <ListHeader
+            label="Routes"
+            onAdd={() =>
+              onChange({
+                ...node,
+                routes: [...node.routes, { id: `route_${node.routes.length + 1}`, label: "", intents: [], next: null }],
+              })
+            }
+          />
+          {node.routes.map((route, index) => (
+            <RouteEditor
+              key={`${index}/${node.routes.length}`}
+              route={route}
+              nodeIds={nodeIds}
+              onChange={(updated) =>
+                onChange({ ...node, routes: node.routes.map((r, i) => (i === index ? updated : r)) })
+              }
+              onRemove={() => onChange({ ...node, routes: node.routes.filter((_, i) => i !== index) })}
+            />
+          ))}
+        </>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="space-y-0.5 rounded border border-red-900/50 bg-red-950/30 p-1.5">
+          {issues.map((message, index) => (
+            <li key={index} className="text-[10px] text-red-300">{message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function ChoiceEditor({
+  choice,
+  nodeIds,
+  onChange,
+  onRemove,
+}: {
+  choice: QuestGraphChoice;
+  nodeIds: string[];
+  onChange: (choice: QuestGraphChoice) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <ItemBox onRemove={onRemove}>
+      <div className="grid grid-cols-2 gap-1">
+        <Field label="Id">
+          <input type="text" value={choice.id} onChange={(e) => onChange({ ...choice, id: e.target.value })} className={INPUT_CLASS} />
+        </Field>
+        <Field label="Style">
+          <select
+            value={choice.style ?? ""}
+            onChange={(e) => onChange({ ...choice, style: (e.target.value || undefined) as QuestGraphChoice["style"] })}
+            className={INPUT_CLASS}
+          >
+            <option value="">default</option>
+            <option value="primary">primary</option>
+            <option value="secondary">secondary</option>
+            <option value="danger">danger</option>
+          </select>
+        </Field>
+      </div>
+      <Field label="Label">
+        <input type="text" value={choice.label} onChange={(e) => onChange({ ...choice, label: e.target.value })} className={INPUT_CLASS} />
+      </Field>
+      <Field label="Next">
+        <NodeSelect value={choice.next} nodeIds={nodeIds} onChange={(next) => onChange({ ...choice, next })} />
+      </Field>
+      <JsonField<QuestGraphCondition>
+        label="Condition"
+        optional
+        value={choice.condition}
+        onChange={(condition) => onChange({ ...choice, condition })}
+      />
+      <JsonField<QuestGraphEffect[]>
+        label="Effects"
+        optional
+        value={choice.effects}
+        onChange={(effects) => onChange({ ...choice, effects })}
+      />
+    </ItemBox>
+  );
+}
+
+function RouteEditor({
+  route,
+  nodeIds,
+  onChange,
+  onRemove,
+}: {
+  route: QuestGraphFreeformRoute;
+  nodeIds: string[];
+  onChange: (route: QuestGraphFreeformRoute) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <ItemBox onRemove={onRemove}>
+      <div className="grid grid-cols-2 gap-1">
+        <Field label="Id">
+          <input type="text" value={route.id} onChange={(e) => onChange({ ...route, id: e.target.value })} className={INPUT_CLASS} />
+        </Field>
+        <Field label="Label">
+          <input type="text" value={route.label} onChange={(e) => onChange({ ...route, label: e.target.value })} className={INPUT_CLASS} />
+        </Field>
+      </div>
+      <Field label="Intents (comma separated)">
+        <ListInput value={route.intents} onChange={(intents) => onChange({ ...route, intents })} />
+      </Field>
+      <Field label="Phrases (comma separated)">
+        <ListInput
+          value={route.phrases ?? []}
+          onChange={(phrases) => onChange({ ...route, phrases: phrases.length > 0 ? phrases : undefined })}
+        />
+      </Field>
+      <Field label="Next">
+        <NodeSelect value={route.next} nodeIds={nodeIds} onChange={(next) => onChange({ ...route, next })} />
+      </Field>
+      <JsonField<QuestGraphCondition>
+        label="Condition"
+        optional
+        value={route.condition}
+        onChange={(condition) => onChange({ ...route, condition })}
+      />
+      <JsonField<QuestGraphEffect[]>
+        label="Effects"
+        optional
+        value={route.effects}
+        onChange={(effects) => onChange({ ...route, effects })}
+      />
+    </ItemBox>
+  );
+}
+
+/**
+ * JSON textarea that only reports a value once it parses. An empty
+ * optional field clears the value.
+ */
+function JsonField<T>({
+  label,
+  value,
+  optional,
+  onChange,
+}: {
+  label: string;
+  value: T | undefined;
+  optional?: boolean;
+  onChange: (value: T | undefined) => void;
+}) {
+  const [text, setText] = useState(value === undefined ? "" : JSON.stringify(value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    if (next.trim() === "") {
+      if (optional) {
+        setError(null);
+        onChange(undefined);
+      } else {
+        setError("Required");
+      }
+      return;
+    }
+    try {
+      onChange(JSON.parse(next) as T);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <Field label={label}>
+      <textarea
+        value={text}
+        rows={Math.min(8, Math.max(2, text.split("\n").length))}
+        spellCheck={false}
+        onChange={(e) => handleChange(e.target.value)}
+        className={`${INPUT_CLASS} font-mono text-[10px] ${error ? "border-red-700" : ""}`}
+      />
+      {error && <span className="text-[9px] text-red-400">{error}</span>}
+    </Field>
+  );
+}
+
+function ListInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join(", "));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(e.target.value.split(",").map((entry) => entry.trim()).filter(Boolean));
+      }}
+      className={INPUT_CLASS}
+    />
+  );
+}
+
+function NodeSelect({
+  value,
+  nodeIds,
+  onChange,
+}: {
+  value: string | null | undefined;
+  nodeIds: string[];
+  onChange: (value: string | null) => void;
+}) {
+  const missing = value && !nodeIds.includes(value) ? value : null;
+  return (
+    <select value={value ?? ""} onChange={(e) => onChange(e.target.value || null)} className={INPUT_CLASS}>
+      <option value="">(none — ends scene)</option>
+      {missing && <option value={missing}>{missing} (missing)</option>}
+      {nodeIds.map((id) => (
+        <option key={id} value={id}>{id}</option>
+      ))}
+    </select>
+  );
+}
+
+function ListHeader({ label, onAdd }: { label: string; onAdd: () => void }) {
+  return (
+    <div className="flex items-center justify-between pt-1">
+      <span className="text-[9px] uppercase tracking-wider text-zinc-500">{label}</span>
+      <button onClick={onAdd} className="rounded p-0.5 text-zinc-400 hover:bg-zinc-800" title="Add">
+        <Plus size={12} />
+      </button>
+    </div>
+  );
+}
+
+function ItemBox({ children, onRemove }: { children: React.ReactNode; onRemove: () => void }) {
+  return (
+    <div className="relative space-y-1 rounded border border-zinc-800 bg-zinc-950 p-1.5 pr-5">
+      <button
+        onClick={onRemove}
+        title="Remove"
+        className="absolute right-0.5 top-0.5 rounded p-0.5 text-zinc-500 hover:bg-red-900/30 hover:text-red-400"
+      >
+        <X size={10} />
+      </button>
+      {children}
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-[9px] uppercase tracking-wider text-zinc-500">{label}</span>
+      {children}
+    </label>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { Loader2, Play, RotateCcw, Send } from "lucide-react";
+import { useQuestGraphStore, type SimulatedMaterial, type SimulatedPlayer } from "../store/questGraphStore";
+import { simulateStep } from "../io/questArcIO";
+
+const INPUT_CLASS =
+  "w-full rounded border border-zinc-700 bg-zinc-900 px-1.5 py-0.5 text-xs text-zinc-200 outline-none focus:border-zinc-500";
+
+const REPUTATION_CATEGORIES = ["combat", "economic", "social", "crafting", "agent"] as const;
+
+function splitList(text: string): string[] {
+  return text.split(",").map((entry) => entry.trim()).filter(Boolean);
+}
+
+/** "1:3, 42:1" → { "1": 3, "42": 1 } */
+function parseItems(text: string): Record<string, number> {
+  const items: Record<string, number> = {};
+  for (const entry of splitList(text)) {
+    const [tokenId, quantity] = entry.split(":").map((part) => part.trim());
+    if (/^\d+$/.test(tokenId)) items[tokenId] = Math.max(0, parseInt(quantity ?? "1", 10) || 0);
+  }
+  return items;
+}
+
+function formatItems(items: Record<string, number>): string {
+  return Object.entries(items).map(([tokenId, quantity]) => `${tokenId}:${quantity}`).join(", ");
+}
+
+/**
+ * Steps through the current scene on the shard against a fake player. The
+ * form is the starting state; each step carries the state the previous
+ * step left behind, so flags and items granted mid-scene count.
+ */
+export function QuestSimulatorPanel() {
+  const arc = useQuestGraphStore((s) => s.arc);
+  const sceneId = useQuestGraphStore((s) => s.sceneId);
+  const simPlayer = useQuestGraphStore((s) => s.simPlayer);
+  const simMaterial = useQuestGraphStore((s) => s.simMaterial);
+  const simSteps = useQuestGraphStore((s) => s.simSteps);
+  const setSimPlayer = useQuestGraphStore((s) => s.setSimPlayer);
+  const setSimMaterial = useQuestGraphStore((s) => s.setSimMaterial);
+  const pushSimStep = useQuestGraphStore((s) => s.pushSimStep);
+  const resetSim = useQuestGraphStore((s) => s.resetSim);
+
+  const [live, setLive] = useState<{ player: SimulatedPlayer; material: SimulatedMaterial } | null>(null);
+  const [freeform, setFreeform] = useState("");
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!arc || !sceneId) return null;
+
+  const current = simSteps.length > 0 ? simSteps[simSteps.length - 1].node : null;
+  const reputation = simMaterial.reputation ? simMaterial.reputation.combat : null;
+
+  const run = async (step?: { nodeId: string; choiceId?: string; freeformInput?: string }, label?: string) => {
+    const state = step && live ? live : { player: simPlayer, material: simMaterial };
+    if (!step) resetSim();
+    setRunning(true);
+    setError(null);
+    const result = await simulateStep(arc, sceneId, state.player, state.material, step);
+    setRunning(false);
+    if (typeof result === "string") {
+      setError(result);
+      return;
+    }
+    setLive({ player: result.player, material: result.material });
+    pushSimStep({ node: result.node, appliedEffects: result.appliedEffects, input: label });
+  };
+
+  return (
+    <div className="border-b border-zinc-800 p-3">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-zinc-500">
+          Simulator
+        </span>
+        <span className="text-[9px] text-zinc-600">scene {sceneId}</span>
+      </div>
+
+      {/* Starting state */}
+      <div className="space-y-1.5">
+        <div className="grid grid-cols-3 gap-1">
+          <Field label="Level">
+            <input
+              type="number"
+              value={simPlayer.level}
+              onChange={(e) => setSimPlayer({ ...simPlayer, level: parseInt(e.target.value, 10) || 1 })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="Class">
+            <input
+              type="text"
+              value={simPlayer.classId}
+              onChange={(e) => setSimPlayer({ ...simPlayer, classId: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="Origin">
+            <input
+              type="text"
+              value={simPlayer.origin}
+              onChange={(e) => setSimPlayer({ ...simPlayer, origin: e.target.value })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+        </div>
+        <Field label="Story flags">
+          <ListInput value={simPlayer.storyFlags} onChange={(storyFlags) => setSimPlayer({ ...simPlayer, storyFlags })} />
+        </Field>
+        <Field label="Completed quests">
+          <ListInput
+            value={simPlayer.completedQuests}
+            onChange={(completedQuests) => setSimPlayer({ ...simPlayer, completedQuests })}
+          />
+        </Field>
+        <Field label="Active quests">
+          <ListInput
+            value={simPlayer.activeQuests.map((quest) => quest.questId)}
+            onChange={(ids) =>
+              setSimPlayer({
+                ...simPlayer,
+                activeQuests: ids.map((questId) => ({ questId, progress: 0, startedAt: Date.now() })),
+              })
+            }
+          />
+        </Field>
+        <div className="grid grid-cols-2 gap-1">
+          <Field label="Copper">
+            <input
+              type="number"
+              value={simMaterial.copper}
+              onChange={(e) => setSimMaterial({ ...simMaterial, copper: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              className={INPUT_CLASS}
+            />
+          </Field>
+          <Field label="Reputation (all)">
+            <input
+              type="number"
+              value={reputation ?? ""}
+              placeholder="none"
+              onChange={(e) => {
+                const score = parseInt(e.target.value, 10);
+                setSimMaterial({
+                  ...simMaterial,
+                  reputation: Number.isFinite(score)
+                    ? Object.fromEntries(REPUTATION_CATEGORIES.map((category) => [category, score]))
+                    : null,
+                });
+              }}
+              className={INPUT_CLASS}
+            />
+          </Field>
+        </div>
+        <Field label="Items (tokenId:qty, …)">
+          <ItemsInput value={simMaterial.items} onChange={(items) => setSimMaterial({ ...simMaterial, items })} />
+        </Field>
+      </div>
+
+      <div className="mt-2 flex gap-1">
+        <button
+          onClick={() => run()}
+          disabled={running}
+          className="flex flex-1 items-center justify-center gap-1 rounded bg-emerald-700 px-2 py-1 text-xs font-medium text-white hover:bg-emerald-600 disabled:opacity-50"
+        >
+          {running ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+          {simSteps.length > 0 ? "Restart" : "Start"}
+        </button>
+        <button
+          onClick={() => {
+            resetSim();
+            setLive(null);
+            setError(null);
+          }}
+          disabled={simSteps.length === 0}
+          title="Clear transcript"
+          className="flex items-center justify-center rounded bg-zinc-800 px-2 py-1 text-xs text-zinc-200 hover:bg-zinc-700 disabled:opacity-50"
+        >
+          <RotateCcw size={12} />
+        </button>
+      </div>
+
+      {error && <div className="mt-2 text-[10px] text-red-400">{error}</div>}
+
+      {/* Transcript */}
+      {simSteps.length > 0 && (
+        <div className="mt-2 max-h-72 space-y-1 overflow-y-auto rounded border border-zinc-800 bg-zinc-950 p-1.5">
+          {simSteps.map((step, index) => (
+            <div key={index} className="space-y-0.5 border-b border-zinc-900 pb-1 last:border-0">
+              {step.input && <div className="text-[10px] italic text-blue-300">→ {step.input}</div>}
+              <div className="text-[10px] text-zinc-500">
+                <span className="text-zinc-400">{step.node.id}</span>
+                {"speaker" in step.node ? ` · ${step.node.speaker}` : ""}
+              </div>
+              {step.node.text && <div className="text-[11px] text-zinc-200">{step.node.text}</div>}
+              {step.appliedEffects.map((applied, effectIndex) => (
+                <div
+                  key={effectIndex}
+                  className={`text-[10px] ${applied.applied ? "text-emerald-400" : "text-amber-400"}`}
+                >
+                  {applied.applied ? "✓" : "✗"} {applied.effect.type}
+                  {applied.reason ? ` — ${applied.reason}` : ""}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Current step input */}
+      {current && !running && (
+        <div className="mt-2 space-y-1">
+          {current.type === "line" && (
+            <button
+              onClick={() => run({ nodeId: current.id }, "Continue")}
+              className="w-full rounded bg-zinc-800 px-2 py-1 text-xs text-zinc-200 hover:bg-zinc-700"
+            >
+              Continue
+            </button>
+          )}
+          {current.type === "choice" &&
+            current.choices.map((choice) => (
+              <button
+                key={choice.id}
+                onClick={() => run({ nodeId: current.id, choiceId: choice.id }, choice.label)}
+                className={`w-full rounded px-2 py-1 text-left text-xs ${
+                  choice.style === "danger"
+                    ? "bg-red-900/40 text-red-200 hover:bg-red-900/60"
+                    : "bg-zinc-800 text-zinc-200 hover:bg-zinc-700"
+                }`}
+              >
+                {choice.label}
+              </button>
+            ))}
+          {current.type === "freeform" && (
+            <div className="flex gap-1">
+              <input
+                type="text"
+                value={freeform}
+                placeholder={current.placeholder ?? current.prompt}
+                onChange={(e) => setFreeform(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && freeform.trim()) {
+                    void run({ nodeId: current.id, freeformInput: freeform }, freeform);
+                    setFreeform("");
+                  }
+                }}
+                className={INPUT_CLASS}
+              />
+              <button
+                onClick={() => {
+                  void run({ nodeId: current.id, freeformInput: freeform }, freeform);
+                  setFreeform("");
+                }}
+                disabled={!freeform.trim()}
+                className="rounded bg-zinc-800 px-2 text-zinc-200 hover:bg-zinc-700 disabled:opacity-50"
+              >
+                <Send size={12} />
+              </button>
+            </div>
+          )}
+          {current.type === "end" && <div className="text-center text-[10px] text-zinc-500">Scene ended.</div>}
+        </div>
+      )}
+
+      {live && (
+        <div className="mt-2 text-[9px] leading-tight text-zinc-600">
+          Now: level {live.player.level}, {live.material.copper} copper, flags [{live.player.storyFlags.join(", ")}]
+          {Object.keys(live.material.items).length > 0 && `, items ${formatItems(live.material.items)}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ListInput({ value, onChange }: { value: string[]; onChange: (value: string[]) => void }) {
+  const [text, setText] = useState(value.join(", "));
+  return (
+    <input
+      type="text"
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(splitList(e.target.value));
+      }}
+      className={INPUT_CLASS}
+    />
+  );
+}
+
+function ItemsInput({
+  value,
+  onChange,
+}: {
+  value: Record<string, number>;
+  onChange: (value: Record<string, number>) => void;
+}) {
+  const [text, setText] = useState(formatItems(value));
+  return (
+    <input
+      type="text"
+      value={text}
+      placeholder="e.g. 12:3, 40:1"
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parseItems(e.target.value));
+      }}
+      className={INPUT_CLASS}
+    />
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-[9px] uppercase tracking-wider text-zinc-500">{label}</span>
+      {children}
+    </label>
+  );
+}
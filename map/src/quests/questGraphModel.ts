@@ -0,0 +1,161 @@
+import type { QuestArcDefinition, QuestGraphNode, QuestGraphNodeType, QuestSceneDefinition } from "./questGraphTypes";
+
+/** Outgoing links of a node, labelled for the canvas. */
+export interface QuestGraphEdge {
+  from: string;
+  to: string;
+  label: string;
+}
+
+export function getNodeEdges(node: QuestGraphNode): QuestGraphEdge[] {
+  const edges: QuestGraphEdge[] = [];
+  const add = (to: string | null | undefined, label: string) => {
+    if (to) edges.push({ from: node.id, to, label });
+  };
+
+  switch (node.type) {
+    case "line":
+    case "effect":
+      add(node.next, "");
+      break;
+    case "choice":
+      for (const choice of node.choices) add(choice.next ?? node.next, choice.label);
+      break;
+    case "branch":
+      node.branches.forEach((branch, index) => add(branch.next, `if #${index + 1}`));
+      add(node.fallbackNext, "else");
+      break;
+    case "freeform":
+      for (const route of node.routes) add(route.next, route.label);
+      break;
+    case "end":
+      break;
+  }
+  return edges;
+}
+
+export const NODE_WIDTH = 200;
+export const NODE_HEIGHT = 64;
+const COLUMN_GAP = 80;
+const ROW_GAP = 28;
+
+/**
+ * Lay nodes out in columns by distance from the start node, so a scene
+ * reads left to right. Unreachable nodes go in a last column.
+ */
+export function layoutScene(scene: QuestSceneDefinition): Record<string, { x: number; y: number }> {
+  const depth = new Map<string, number>();
+  const queue = [scene.startNodeId];
+  depth.set(scene.startNodeId, 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    const node = scene.nodes[id];
+    if (!node) continue;
+    for (const edge of getNodeEdges(node)) {
+      if (!depth.has(edge.to)) {
+        depth.set(edge.to, depth.get(id)! + 1);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  const maxDepth = Math.max(0, ...depth.values());
+  const columns = new Map<number, string[]>();
+  for (const id of Object.keys(scene.nodes)) {
+    const column = depth.get(id) ?? maxDepth + 1;
+    columns.set(column, [...(columns.get(column) ?? []), id]);
+  }
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  for (const [column, ids] of columns) {
+    ids.forEach((id, row) => {
+      positions[id] = {
+        x: 40 + column * (NODE_WIDTH + COLUMN_GAP),
+        y: 40 + row * (NODE_HEIGHT + ROW_GAP),
+      };
+    });
+  }
+  return positions;
+}
+
+export function createNode(type: QuestGraphNodeType, id: string): QuestGraphNode {
+  switch (type) {
+    case "line":
+      return { id, type, speaker: "npc", text: "", next: null };
+    case "choice":
+      return { id, type, speaker: "npc", text: "", choices: [{ id: "choice_1", label: "Continue", next: null }] };
+    case "branch":
+      return { id, type, branches: [{ condition: { type: "has_story_flag", flag: "" }, next: "" }], fallbackNext: null };
+    case "effect":
+      return { id, type, effects: [], next: null };
+    case "freeform":
+      return { id, type, speaker: "npc", text: "", prompt: "", routes: [] };
+    case "end":
+      return { id, type, text: "" };
+  }
+}
+
+export function createScene(id: string, npcName: string): QuestSceneDefinition {
+  return {
+    id,
+    npcName,
+    title: id,
+    startNodeId: "start",
+    nodes: { start: { id: "start", type: "line", speaker: "npc", text: "", next: null } },
+  };
+}
+
+export function createArc(id: string): QuestArcDefinition {
+  return {
+    id,
+    title: id,
+    summary: "",
+    zoneIds: [],
+    tags: ["authored"],
+    startingSceneId: "intro",
+    scenes: { intro: createScene("intro", "") },
+  };
+}
+
+/** A node id not yet used in the scene, e.g. "choice_3". */
+export function nextNodeId(scene: QuestSceneDefinition, type: QuestGraphNodeType): string {
+  let index = 1;
+  while (scene.nodes[`${type}_${index}`]) index++;
+  return `${type}_${index}`;
+}
+
+/** Point every link at oldId to newId (or drop it when newId is null). */
+export function relinkNodes(
+  nodes: Record<string, QuestGraphNode>,
+  oldId: string,
+  newId: string | null,
+): Record<string, QuestGraphNode> {
+  const fix = <T extends string | null | undefined>(target: T): T | string | null =>
+    target === oldId ? newId : target;
+  const result: Record<string, QuestGraphNode> = {};
+  for (const [key, node] of Object.entries(nodes)) {
+    switch (node.type) {
+      case "line":
+      case "effect":
+        result[key] = { ...node, next: fix(node.next) };
+        break;
+      case "choice":
+        result[key] = { ...node, next: fix(node.next), choices: node.choices.map((c) => ({ ...c, next: fix(c.next) })) };
+        break;
+      case "branch":
+        result[key] = {
+          ...node,
+          fallbackNext: fix(node.fallbackNext),
+          branches: node.branches.map((b) => ({ ...b, next: (fix(b.next) ?? "") as string })),
+        };
+        break;
+      case "freeform":
+        result[key] = { ...node, routes: node.routes.map((r) => ({ ...r, next: fix(r.next) })) };
+        break;
+      case "end":
+        result[key] = node;
+        break;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,149 @@
+/**
+ * Quest graph shapes, mirrored from shard/src/social/questGraphs/types.ts.
+ * The map app doesn't share a package with the shard, so keep these in step
+ * by hand when the shard adds node, condition or effect types.
+ */
+
+export type QuestGraphSpeaker = "npc" | "player" | "system";
+
+export type QuestGraphReputationCategory = "combat" | "economic" | "social" | "crafting" | "agent";
+
+export type QuestGraphCondition =
+  | { type: "all"; conditions: QuestGraphCondition[] }
+  | { type: "any"; conditions: QuestGraphCondition[] }
+  | { type: "not"; condition: QuestGraphCondition }
+  | { type: "has_story_flag"; flag: string }
+  | { type: "missing_story_flag"; flag: string }
+  | { type: "quest_completed"; questId: string }
+  | { type: "quest_active"; questId: string }
+  | { type: "quest_ready_to_turn_in"; questId: string }
+  | { type: "quest_available"; questId: string }
+  | { type: "origin_is"; origin: string }
+  | { type: "class_is"; classId: string }
+  | { type: "npc_is"; npcName: string }
+  | { type: "npc_affinity_at_least"; affinity: number; npcName?: string }
+  | { type: "level_at_least"; level: number }
+  | { type: "has_item"; tokenId: number; quantity?: number }
+  | { type: "gold_at_least"; copper: number }
+  | { type: "reputation_at_least"; category: QuestGraphReputationCategory | "overall"; score: number }
+  | { type: "profession_skill_at_least"; profession: string; skill: number }
+  | { type: "time_phase_is"; phase: "dawn" | "day" | "dusk" | "night" };
+
+export type QuestGraphEffect =
+  | { type: "set_story_flag"; flag: string }
+  | { type: "start_quest"; questId: string }
+  | { type: "complete_quest"; questId: string }
+  | { type: "log_diary"; headline: string; narrative: string; details?: Record<string, unknown> }
+  | { type: "emit_zone_event"; eventType: "chat" | "quest"; message: string }
+  | { type: "grant_item"; tokenId: number; quantity: number }
+  | { type: "take_item"; tokenId: number; quantity: number }
+  | { type: "grant_gold"; copper: number }
+  | { type: "take_gold"; copper: number }
+  | { type: "grant_xp"; xp: number }
+  | { type: "teach_technique"; techniqueId: string }
+  | { type: "open_dungeon_gate"; rank: "E" | "D" | "C" | "B" | "A" | "S"; danger?: boolean }
+  | { type: "adjust_reputation"; category: QuestGraphReputationCategory; delta: number; reason?: string };
+
+export interface QuestGraphChoice {
+  id: string;
+  label: string;
+  next?: string | null;
+  condition?: QuestGraphCondition;
+  effects?: QuestGraphEffect[];
+  style?: "primary" | "secondary" | "danger";
+}
+
+export interface QuestGraphFreeformRoute {
+  id: string;
+  label: string;
+  next?: string | null;
+  intents: string[];
+  phrases?: string[];
+  condition?: QuestGraphCondition;
+  effects?: QuestGraphEffect[];
+}
+
+export type QuestGraphNode =
+  | { id: string; type: "line"; speaker: QuestGraphSpeaker; text: string; next?: string | null }
+  | {
+      id: string;
+      type: "choice";
+      speaker: QuestGraphSpeaker;
+      text: string;
+      choices: QuestGraphChoice[];
+      next?: string | null;
+    }
+  | {
+      id: string;
+      type: "branch";
+      branches: Array<{ condition: QuestGraphCondition; next: string }>;
+      fallbackNext?: string | null;
+    }
+  | { id: string; type: "effect"; effects: QuestGraphEffect[]; next?: string | null }
+  | {
+      id: string;
+      type: "freeform";
+      speaker: QuestGraphSpeaker;
+      text: string;
+      prompt: string;
+      placeholder?: string;
+      routes: QuestGraphFreeformRoute[];
+      fallbackText?: string;
+    }
+  | { id: string; type: "end"; text?: string };
+
+export type QuestGraphNodeType = QuestGraphNode["type"];
+
+export interface QuestSceneDefinition {
+  id: string;
+  npcName: string;
+  title: string;
+  startNodeId: string;
+  entryCondition?: QuestGraphCondition;
+  nodes: Record<string, QuestGraphNode>;
+}
+
+export interface QuestArcDefinition {
+  id: string;
+  title: string;
+  summary: string;
+  zoneIds: string[];
+  tags: string[];
+  startingSceneId: string;
+  scenes: Record<string, QuestSceneDefinition>;
+}
+
+export interface QuestGraphValidationIssue {
+  arcId: string;
+  sceneId?: string;
+  nodeId?: string;
+  message: string;
+}
+
+/** What the shard's runtime shows the player at a stop in the scene. */
+export type QuestGraphRenderableNode =
+  | { id: string; type: "line"; speaker: QuestGraphSpeaker; text: string }
+  | {
+      id: string;
+      type: "choice";
+      speaker: QuestGraphSpeaker;
+      text: string;
+      choices: Array<{ id: string; label: string; style?: "primary" | "secondary" | "danger" }>;
+    }
+  | {
+      id: string;
+      type: "freeform";
+      speaker: QuestGraphSpeaker;
+      text: string;
+      prompt: string;
+      placeholder?: string;
+      routes: Array<{ id: string; label: string }>;
+      fallbackText?: string;
+    }
+  | { id: string; type: "end"; text?: string };
+
+export interface QuestGraphAppliedEffect {
+  effect: QuestGraphEffect;
+  applied: boolean;
+  reason?: string;
+}
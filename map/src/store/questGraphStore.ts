@@ -0,0 +1,262 @@
+import { create } from "zustand";
+import type {
+  QuestArcDefinition,
+  QuestGraphAppliedEffect,
+  QuestGraphNode,
+  QuestGraphNodeType,
+  QuestGraphRenderableNode,
+  QuestGraphValidationIssue,
+  QuestSceneDefinition,
+} from "../quests/questGraphTypes";
+import {
+  createArc,
+  createNode,
+  createScene,
+  layoutScene,
+  nextNodeId,
+  relinkNodes,
+  NODE_HEIGHT,
+} from "../quests/questGraphModel";
+
+/** Fake player the simulator runs scenes against (mirrors the shard's /quest-arcs/simulate body). */
+export interface SimulatedPlayer {
+  level: number;
+  classId: string;
+  origin: string;
+  storyFlags: string[];
+  completedQuests: string[];
+  activeQuests: Array<{ questId: string; progress: number; startedAt: number }>;
+  learnedTechniques: string[];
+}
+
+export interface SimulatedMaterial {
+  copper: number;
+  items: Record<string, number>;
+  /** Per-category scores; null means the player has no reputation record. */
+  reputation: Record<string, number> | null;
+}
+
+export interface SimulationStep {
+  node: QuestGraphRenderableNode;
+  appliedEffects: QuestGraphAppliedEffect[];
+  /** What the writer picked or typed to get here. */
+  input?: string;
+}
+
+type Positions = Record<string, { x: number; y: number }>;
+
+export interface QuestGraphState {
+  arc: QuestArcDefinition | null;
+  fileName: string | null;
+  sceneId: string | null;
+  selectedNodeId: string | null;
+  /** Canvas positions per scene; not saved, recomputed on load. */
+  positions: Record<string, Positions>;
+  dirty: boolean;
+
+  validationIssues: QuestGraphValidationIssue[];
+  /** Set when the shard couldn't validate (offline, or the arc didn't parse). */
+  validationError: string | null;
+
+  simPlayer: SimulatedPlayer;
+  simMaterial: SimulatedMaterial;
+  simSteps: SimulationStep[];
+
+  loadArc: (arc: QuestArcDefinition, fileName?: string) => void;
+  newArc: (id: string) => void;
+  updateArc: (patch: Partial<Omit<QuestArcDefinition, "scenes">>) => void;
+  markClean: () => void;
+
+  selectScene: (sceneId: string) => void;
+  addScene: (sceneId: string, npcName: string) => void;
+  updateScene: (patch: Partial<Omit<QuestSceneDefinition, "nodes" | "id">>) => void;
+  removeScene: (sceneId: string) => void;
+
+  selectNode: (nodeId: string | null) => void;
+  addNode: (type: QuestGraphNodeType) => void;
+  updateNode: (node: QuestGraphNode) => void;
+  renameNode: (oldId: string, newId: string) => boolean;
+  removeNode: (nodeId: string) => void;
+  moveNode: (nodeId: string, x: number, y: number) => void;
+  relayout: () => void;
+
+  setValidation: (issues: QuestGraphValidationIssue[], error: string | null) => void;
+
+  setSimPlayer: (player: SimulatedPlayer) => void;
+  setSimMaterial: (material: SimulatedMaterial) => void;
+  pushSimStep: (step: SimulationStep) => void;
+  resetSim: () => void;
+}
+
+const DEFAULT_SIM_PLAYER: SimulatedPlayer = {
+  level: 1,
+  classId: "warrior",
+  origin: "",
+  storyFlags: [],
+  completedQuests: [],
+  activeQuests: [],
+  learnedTechniques: [],
+};
+
+function layoutArc(arc: QuestArcDefinition): Record<string, Positions> {
+  return Object.fromEntries(Object.values(arc.scenes).map((scene) => [scene.id, layoutScene(scene)]));
+}
+
+export const useQuestGraphStore = create<QuestGraphState>((set, get) => {
+  /** Apply a change to the current scene and mark the arc dirty. */
+  const editScene = (edit: (scene: QuestSceneDefinition) => QuestSceneDefinition) => {
+    const { arc, sceneId } = get();
+    if (!arc || !sceneId || !arc.scenes[sceneId]) return;
+    set({
+      arc: { ...arc, scenes: { ...arc.scenes, [sceneId]: edit(arc.scenes[sceneId]) } },
+      dirty: true,
+    });
+  };
+
+  const setScenePositions = (update: (positions: Positions) => Positions) => {
+    const { positions, sceneId } = get();
+    if (!sceneId) return;
+    set({ positions: { ...positions, [sceneId]: update(positions[sceneId] ?? {}) } });
+  };
+
+  return {
+    arc: null,
+    fileName: null,
+    sceneId: null,
+    selectedNodeId: null,
+    positions: {},
+    dirty: false,
+    validationIssues: [],
+    validationError: null,
+    simPlayer: DEFAULT_SIM_PLAYER,
+    simMaterial: { copper: 0, items: {}, reputation: null },
+    simSteps: [],
+
+    loadArc: (arc, fileName) =>
+      set({
+        arc,
+        fileName: fileName ?? `${arc.id}.json`,
+        sceneId: arc.scenes[arc.startingSceneId] ? arc.startingSceneId : Object.keys(arc.scenes)[0] ?? null,
+        selectedNodeId: null,
+        positions: layoutArc(arc),
+        dirty: false,
+        validationIssues: [],
+        validationError: null,
+        simSteps: [],
+      }),
+
+    newArc: (id) => {
+      const arc = createArc(id);
+      get().loadArc(arc);
+      set({ dirty: true });
+    },
+
+    updateArc: (patch) => {
+      const { arc } = get();
+      if (!arc) return;
+      set({ arc: { ...arc, ...patch }, dirty: true });
+    },
+
+    markClean: () => set({ dirty: false }),
+
+    selectScene: (sceneId) => set({ sceneId, selectedNodeId: null, simSteps: [] }),
+
+    addScene: (sceneId, npcName) => {
+      const { arc, positions } = get();
+      if (!arc || arc.scenes[sceneId]) return;
+      const scene = createScene(sceneId, npcName);
+      set({
+        arc: { ...arc, scenes: { ...arc.scenes, [sceneId]: scene } },
+        positions: { ...positions, [sceneId]: layoutScene(scene) },
+        sceneId,
+        selectedNodeId: null,
+        simSteps: [],
+        dirty: true,
+      });
+    },
+
+    updateScene: (patch) => editScene((scene) => ({ ...scene, ...patch })),
+
+    removeScene: (sceneId) => {
+      const { arc } = get();
+      if (!arc || Object.keys(arc.scenes).length <= 1) return;
+      const scenes = { ...arc.scenes };
+      delete scenes[sceneId];
+      set({
+        arc: { ...arc, scenes },
+        sceneId: Object.keys(scenes)[0],
+        selectedNodeId: null,
+        simSteps: [],
+        dirty: true,
+      });
+    },
+
+    selectNode: (nodeId) => set({ selectedNodeId: nodeId }),
+
+    addNode: (type) => {
+      const { arc, sceneId, positions } = get();
+      if (!arc || !sceneId) return;
+      const scene = arc.scenes[sceneId];
+      const id = nextNodeId(scene, type);
+      const scenePositions = positions[sceneId] ?? {};
+      const lowest = Math.max(0, ...Object.values(scenePositions).map((p) => p.y + NODE_HEIGHT));
+      editScene((s) => ({ ...s, nodes: { ...s.nodes, [id]: createNode(type, id) } }));
+      setScenePositions((p) => ({ ...p, [id]: { x: 40, y: lowest + 28 } }));
+      set({ selectedNodeId: id });
+    },
+
+    updateNode: (node) => editScene((scene) => ({ ...scene, nodes: { ...scene.nodes, [node.id]: node } })),
+
+    renameNode: (oldId, newId) => {
+      const { arc, sceneId } = get();
+      if (!arc || !sceneId || !newId || oldId === newId) return false;
+      const scene = arc.scenes[sceneId];
+      if (!scene.nodes[oldId] || scene.nodes[newId]) return false;
+
+      const nodes: Record<string, QuestGraphNode> = {};
+      for (const [key, node] of Object.entries(scene.nodes)) {
+        if (key === oldId) nodes[newId] = { ...node, id: newId };
+        else nodes[key] = node;
+      }
+      editScene((s) => ({
+        ...s,
+        startNodeId: s.startNodeId === oldId ? newId : s.startNodeId,
+        nodes: relinkNodes(nodes, oldId, newId),
+      }));
+      setScenePositions((p) => {
+        const { [oldId]: moved, ...rest } = p;
+        return moved ? { ...rest, [newId]: moved } : rest;
+      });
+      set({ selectedNodeId: newId });
+      return true;
+    },
+
+    removeNode: (nodeId) => {
+      editScene((scene) => {
+        const nodes = { ...scene.nodes };
+        delete nodes[nodeId];
+        return { ...scene, nodes: relinkNodes(nodes, nodeId, null) };
+      });
+      setScenePositions((p) => {
+        const { [nodeId]: _removed, ...rest } = p;
+        return rest;
+      });
+      set({ selectedNodeId: null });
+    },
+
+    moveNode: (nodeId, x, y) => setScenePositions((p) => ({ ...p, [nodeId]: { x, y } })),
+
+    relayout: () => {
+      const { arc, sceneId } = get();
+      if (!arc || !sceneId) return;
+      setScenePositions(() => layoutScene(arc.scenes[sceneId]));
+    },
+
+    setValidation: (validationIssues, validationError) => set({ validationIssues, validationError }),
+
+    setSimPlayer: (simPlayer) => set({ simPlayer }),
+    setSimMaterial: (simMaterial) => set({ simMaterial }),
+    pushSimStep: (step) => set({ simSteps: [...get().simSteps, step] }),
+    resetSim: () => set({ simSteps: [] }),
+  };
+});
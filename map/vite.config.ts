@@ -19,6 +19,7 @@ export default defineConfig(({ mode }) => {
       port: 5174,
       proxy: {
         "/v2/terrain": API_URL,
+        "/quest-arcs": API_URL,
       },
     },
   };
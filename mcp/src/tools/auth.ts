@@ -1,7 +1,7 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { shard } from "../shard.js";
-import { setSession, deleteSession } from "../session.js";
+import { setSession, deleteSession, requireSession } from "../session.js";
 
 export function registerAuthTools(server: McpServer): void {
   /**
@@ -72,6 +72,111 @@ export function registerAuthTools(server: McpServer): void {
     }
   );
 
+  /**
+   * Authenticate with a scoped API key instead of a wallet signature.
+   */
+  server.registerTool(
+    "auth_use_api_key",
+    {
+      description:
+        "Authenticate this session with a scoped API key (wog_...) issued by auth_create_api_key. The key only unlocks the tools its scopes allow.",
+      inputSchema: {
+        apiKey: z.string().describe("API key beginning with wog_"),
+        sessionId: z.string().optional().describe("Session ID to store the key under (defaults to the key's wallet)"),
+      },
+    },
+    async ({ apiKey, sessionId }, extra) => {
+      const data = await shard.get<{ walletAddress: string; apiKey?: { name: string; scopes: string[] } }>(
+        "/auth/verify-token",
+        apiKey
+      );
+      const id = sessionId ?? (extra?.sessionId as string | undefined) ?? data.walletAddress;
+      setSession(id, data.walletAddress, apiKey);
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Authenticated as ${data.walletAddress} with API key "${data.apiKey?.name}" (scopes: ${data.apiKey?.scopes.join(", ")}). Session ID: ${id}`,
+          },
+        ],
+      };
+    }
+  );
+
+  /**
+   * Issue a named API key for a bot or dashboard.
+   */
+  server.registerTool(
+    "auth_create_api_key",
+    {
+      description:
+        "Create a named, revocable API key for your wallet. Scopes: read (GET only), combat (in-world actions), trade (moves gold/items), agent_config (AI agent settings), admin (everything). The key is shown once.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        name: z.string().describe("Label for the key, e.g. 'stats dashboard'"),
+        scopes: z
+          .array(z.enum(["read", "combat", "trade", "agent_config", "admin"]))
+          .min(1)
+          .describe("Scopes the key may use"),
+        rateLimitPerMinute: z.number().int().min(1).optional().describe("Max requests per minute (default unlimited)"),
+        expiresInDays: z.number().positive().optional().describe("Days until the key expires (default never)"),
+      },
+    },
+    async ({ sessionId, name, scopes, rateLimitPerMinute, expiresInDays }) => {
+      const { token } = requireSession(sessionId);
+      const data = await shard.post<unknown>(
+        "/auth/keys",
+        { name, scopes, rateLimitPerMinute, expiresInDays },
+        token
+      );
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+
+  /**
+   * List the wallet's API keys (secrets are never returned).
+   */
+  server.registerTool(
+    "auth_list_api_keys",
+    {
+      description: "List the API keys issued for your wallet, with scopes, limits, expiry and last use.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+      },
+    },
+    async ({ sessionId }) => {
+      const { token } = requireSession(sessionId);
+      const data = await shard.get<unknown>("/auth/keys", token);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+
+  /**
+   * Revoke an API key immediately.
+   */
+  server.registerTool(
+    "auth_revoke_api_key",
+    {
+      description: "Revoke one of your wallet's API keys so it can no longer be used.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        keyId: z.string().describe("keyId from auth_list_api_keys"),
+      },
+    },
+    async ({ sessionId, keyId }) => {
+      const { token } = requireSession(sessionId);
+      const data = await shard.post<unknown>(`/auth/keys/${encodeURIComponent(keyId)}/revoke`, {}, token);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
+
   /**
    * Register a new wallet (get sFUEL + 200 copper welcome bonus).
    */
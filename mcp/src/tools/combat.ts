@@ -158,4 +158,35 @@ export function registerCombatTools(server: McpServer): void {
       };
     }
   );
+
+  server.registerTool(
+    "edicts_simulate",
+    {
+      description:
+        "Dry-run edicts (gambit rules) without deploying. Simulates N ticks against a live snapshot of your entity (entityId) or a synthetic situation, and returns per tick which edict fired and why each edict above it was skipped (failed condition path + reason, or action unavailable). Omit edicts to test your saved list.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        entityId: z.string().optional().describe("Snapshot this live entity's fight (party, nearby enemies, target)"),
+        edicts: z.array(z.record(z.string(), z.unknown())).optional().describe("Draft edict list; defaults to your saved edicts"),
+        situation: z.record(z.string(), z.unknown()).optional().describe(
+          "Synthetic fight: { self, target?, allies?, enemies?, leaderId?, startTick? }. Each entity: { id?, type?, classId?, level?, hp, maxHp, essence?, maxEssence?, x?, y?, learnedTechniques?, cooldowns?, activeEffects?, casting?: { techniqueId, targetId?, ticks? } }"
+        ),
+        events: z.array(z.record(z.string(), z.unknown())).optional().describe(
+          "Scripted changes: { atTick, entityId, hp?, essence?, x?, y?, casting? } — e.g. the boss starts a windup at tick 3"
+        ),
+        ticks: z.number().int().min(1).max(120).optional().describe("Ticks to simulate (default 10)"),
+      },
+    },
+    async ({ sessionId, entityId, edicts, situation, events, ticks }) => {
+      const { token } = requireSession(sessionId);
+      const data = await shard.post<unknown>(
+        "/agent/edicts/simulate",
+        { entityId, edicts, situation, events, ticks },
+        token
+      );
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }],
+      };
+    }
+  );
 }
@@ -218,6 +218,72 @@ export function registerProfessionTools(server: McpServer): void {
     }
   );
 
+  // ── Crafting queue ───────────────────────────────────────────────────────
+
+  server.registerTool(
+    "crafting_queue_add",
+    {
+      description:
+        "Queue a batch of crafts (blacksmithing, alchemy, cooking, leatherworking or jewelcrafting) at a nearby station. Materials and gold for the whole batch are reserved up front; each craft takes the recipe's crafting time while you stay at the station. Failed crafts are refunded when the job ends.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        entityId: z.string().describe("Your entity ID"),
+        profession: z
+          .enum(["blacksmithing", "alchemy", "cooking", "leatherworking", "jewelcrafting"])
+          .describe("Profession the recipe belongs to"),
+        recipeId: z.string().describe("Recipe ID from that profession's recipe list"),
+        stationId: z.string().describe("Entity ID of the forge, alchemy lab, campfire, tanning rack or jeweler's bench"),
+        quantity: z.number().int().min(1).max(20).describe("How many times to craft the recipe"),
+      },
+    },
+    async ({ sessionId, entityId, profession, recipeId, stationId, quantity }) => {
+      const { walletAddress, token } = requireSession(sessionId);
+      const data = await shard.post<unknown>(
+        "/crafting/queue",
+        { walletAddress, entityId, profession, recipeId, stationId, quantity },
+        token
+      );
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    }
+  );
+
+  server.registerTool(
+    "crafting_queue_status",
+    {
+      description: "Show your queued crafting jobs with crafts done, failed and remaining, and progress on the current craft.",
+      inputSchema: {
+        entityId: z.string().describe("Your entity ID"),
+      },
+    },
+    async ({ entityId }) => {
+      const data = await shard.get<unknown>(`/crafting/queue/${encodeURIComponent(entityId)}`);
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    }
+  );
+
+  server.registerTool(
+    "crafting_queue_manage",
+    {
+      description:
+        "Pause, resume or cancel a queued crafting job. Paused jobs keep their reserved materials; cancelling refunds everything not yet crafted.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        entityId: z.string().describe("Your entity ID"),
+        jobId: z.string().describe("Job ID from crafting_queue_status"),
+        action: z.enum(["pause", "resume", "cancel"]).describe("What to do with the job"),
+      },
+    },
+    async ({ sessionId, entityId, jobId, action }) => {
+      const { walletAddress, token } = requireSession(sessionId);
+      const data = await shard.post<unknown>(
+        `/crafting/queue/${action}`,
+        { walletAddress, entityId, jobId },
+        token
+      );
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    }
+  );
+
   // ── Skinning ─────────────────────────────────────────────────────────────
 
   server.registerTool(
@@ -230,6 +230,47 @@ export function registerSocialTools(server: McpServer): void {
     }
   );
 
+  server.registerTool(
+    "guild_chat_send",
+    {
+      description: "Send a message to your guild's private chat channel. Your guild rank must allow chat.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        guildId: z.string().describe("Your guild ID"),
+        entityId: z.string().describe("Your entity ID"),
+        message: z.string().max(200).describe("Message text (max 200 characters)"),
+      },
+    },
+    async ({ sessionId, guildId, entityId, message }) => {
+      const { token } = requireSession(sessionId);
+      const data = await shard.post<unknown>(
+        `/guild/${guildId}/chat`,
+        { entityId, message },
+        token
+      );
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    }
+  );
+
+  server.registerTool(
+    "guild_chat_read",
+    {
+      description: "Read recent messages from your guild's chat channel, optionally only those after a timestamp.",
+      inputSchema: {
+        sessionId: z.string().describe("Session ID from auth_verify_signature"),
+        guildId: z.string().describe("Your guild ID"),
+        since: z.number().optional().describe("Only messages after this Unix ms timestamp"),
+      },
+    },
+    async ({ sessionId, guildId, since }) => {
+      const { walletAddress, token } = requireSession(sessionId);
+      const query = new URLSearchParams({ memberAddress: walletAddress });
+      if (since != null) query.set("since", String(since));
+      const data = await shard.get<unknown>(`/guild/${guildId}/chat?${query}`, token);
+      return { content: [{ type: "text" as const, text: JSON.stringify(data, null, 2) }] };
+    }
+  );
+
   // ── Party ────────────────────────────────────────────────────────────────
 
   server.registerTool(
@@ -159,19 +159,30 @@ export function registerWorldTools(server: McpServer): void {
   server.registerTool(
     "world_get_leaderboard",
     {
-      description: "Get the player power rankings leaderboard.",
+      description:
+        "Get the player leaderboard. Without category/season it ranks players online now; with them it returns persistent all-time or seasonal standings.",
       inputSchema: {
         limit: z.number().min(1).max(100).optional().describe("Number of players (default 20)"),
         sortBy: z
           .string()
           .optional()
-          .describe("Sort field: level, power, kills, etc."),
+          .describe("Live ranking sort field: level, power, kills, etc."),
+        category: z
+          .enum(["power", "level", "kills", "pvp_elo", "profession_skill", "gold_earned", "dungeon_clears", "quests_completed"])
+          .optional()
+          .describe("Persistent leaderboard category"),
+        season: z
+          .string()
+          .optional()
+          .describe('Season id, "current", or "all-time" (default)'),
       },
     },
-    async ({ limit, sortBy }) => {
+    async ({ limit, sortBy, category, season }) => {
       const params = new URLSearchParams();
       if (limit) params.set("limit", String(limit));
       if (sortBy) params.set("sortBy", sortBy);
+      if (category) params.set("category", category);
+      if (season) params.set("season", season);
       const qs = params.toString() ? `?${params}` : "";
       const data = await shard.get<unknown>(`/leaderboard${qs}`);
       return {
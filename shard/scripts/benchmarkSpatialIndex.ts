@@ -0,0 +1,242 @@
+import { EntitySpatialIndex } from "../src/world/spatialIndex.js";
+
+// Replays the spatial part of a world tick — mob aggro, agent movement with
+// collision, AoE target counts and the entity separation pass — with every
+// agent converging on one zone, once with the old full scans and once with
+// the spatial index. Pure CPU; no shard, Redis or chain needed.
+
+type Args = {
+  agents: number;
+  mobs: number;
+  zones: number;
+  ticks: number;
+};
+
+interface BenchEntity {
+  id: string;
+  type: "player" | "mob";
+  x: number;
+  y: number;
+  region: string;
+  hp: number;
+  targetX: number;
+  targetY: number;
+}
+
+const ZONE_SIZE = 640;
+const MOB_AGGRO_RANGE = 60;
+const AOE_RADIUS = 70;
+const COLLISION_RADIUS = 14;
+const MOVE_SPEED = 30;
+
+function usage(exitCode = 1): never {
+  console.log(
+    [
+      "Usage:",
+      "  pnpm exec tsx scripts/benchmarkSpatialIndex.ts [--agents 300] [--mobs 400] [--zones 8] [--ticks 30]",
+      "",
+      "Notes:",
+      "  - Mobs are spread over every zone; agents start in the first two zones and walk to the middle of the first.",
+      "  - Reports per-tick milliseconds for the full-scan baseline and the spatial index.",
+    ].join("\n")
+  );
+  process.exit(exitCode);
+}
+
+function parseArgs(argv: string[]): Args {
+  const result: Args = { agents: 300, mobs: 400, zones: 8, ticks: 30 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") usage(0);
+    const value = Number(argv[i + 1]);
+    if (!Number.isInteger(value) || value <= 0) usage();
+    if (arg === "--agents") result.agents = value;
+    else if (arg === "--mobs") result.mobs = value;
+    else if (arg === "--zones") result.zones = value;
+    else if (arg === "--ticks") result.ticks = value;
+    else usage();
+    i++;
+  }
+  return result;
+}
+
+/** Deterministic world so both runs start from the same state. */
+function createWorld(args: Args): BenchEntity[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+  const entities: BenchEntity[] = [];
+  for (let i = 0; i < args.mobs; i++) {
+    const zone = i % args.zones;
+    const x = zone * ZONE_SIZE + random() * ZONE_SIZE;
+    const y = random() * ZONE_SIZE;
+    entities.push({ id: `mob-${i}`, type: "mob", x, y, region: `zone-${zone}`, hp: 100, targetX: x, targetY: y });
+  }
+  // Agents start across the first two zones and all head for the middle of zone-0
+  const center = ZONE_SIZE / 2;
+  for (let i = 0; i < args.agents; i++) {
+    const x = random() * ZONE_SIZE * Math.min(2, args.zones);
+    entities.push({
+      id: `agent-${i}`,
+      type: "player",
+      x,
+      y: random() * ZONE_SIZE,
+      region: `zone-${Math.floor(x / ZONE_SIZE)}`,
+      hp: 100,
+      targetX: center + (random() - 0.5) * 120,
+      targetY: center + (random() - 0.5) * 120,
+    });
+  }
+  return entities;
+}
+
+interface SpatialQueries {
+  inRegion(region: string): Iterable<BenchEntity>;
+  near(x: number, y: number, radius: number, region: string): Iterable<BenchEntity>;
+  moved(entity: BenchEntity): void;
+  refresh(region?: string): void;
+}
+
+function fullScan(entities: BenchEntity[]): SpatialQueries {
+  return {
+    *inRegion(region) {
+      for (const e of entities) if (e.region === region) yield e;
+    },
+    *near(x, y, radius, region) {
+      const r2 = radius * radius;
+      for (const e of entities) {
+        if (e.region !== region) continue;
+        const dx = e.x - x;
+        const dy = e.y - y;
+        if (dx * dx + dy * dy <= r2) yield e;
+      }
+    },
+    moved() {},
+    refresh() {},
+  };
+}
+
+function indexed(entities: BenchEntity[]): SpatialQueries {
+  const index = new EntitySpatialIndex<BenchEntity>();
+  for (const e of entities) index.set(e.id, e);
+  return {
+    *inRegion(region) {
+      for (const [, e] of index.regionEntries(region)) yield e;
+    },
+    near: (x, y, radius, region) => index.queryRadius(x, y, radius, region),
+    moved: (entity) => void index.reindex(entity.id),
+    refresh: (region) => void index.refresh(region),
+  };
+}
+
+function tick(queries: SpatialQueries, zones: number): number {
+  let work = 0;
+  queries.refresh();
+  for (let z = 0; z < zones; z++) {
+    const region = `zone-${z}`;
+
+    // Agents walk toward the first zone, pushed out of anything they'd overlap
+    for (const agent of Array.from(queries.inRegion(region))) {
+      if (agent.type !== "player") continue;
+      const dx = agent.targetX - agent.x;
+      const dy = agent.targetY - agent.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist <= 5) continue;
+      const step = Math.min(MOVE_SPEED, dist);
+      let nx = agent.x + (dx / dist) * step;
+      let ny = agent.y + (dy / dist) * step;
+      for (const other of queries.near(nx, ny, COLLISION_RADIUS, region)) {
+        if (other === agent) continue;
+        const ox = nx - other.x;
+        const oy = ny - other.y;
+        const oDist = Math.sqrt(ox * ox + oy * oy);
+        if (oDist < COLLISION_RADIUS && oDist > 0.01) {
+          nx += (ox / oDist) * (COLLISION_RADIUS - oDist);
+          ny += (oy / oDist) * (COLLISION_RADIUS - oDist);
+        }
+      }
+      agent.x = nx;
+      agent.y = ny;
+      agent.region = `zone-${Math.max(0, Math.min(zones - 1, Math.floor(nx / ZONE_SIZE)))}`;
+      queries.moved(agent);
+      work++;
+    }
+
+    // Mob aggro: nearest player in range
+    for (const mob of queries.inRegion(region)) {
+      if (mob.type !== "mob") continue;
+      for (const other of queries.near(mob.x, mob.y, MOB_AGGRO_RANGE, region)) {
+        if (other.type === "player") work++;
+      }
+    }
+
+    // Each agent sizes an AoE on the mobs around it
+    for (const agent of queries.inRegion(region)) {
+      if (agent.type !== "player") continue;
+      for (const other of queries.near(agent.x, agent.y, AOE_RADIUS, region)) {
+        if (other.type === "mob") work++;
+      }
+    }
+
+    // Separation: push overlapping entities apart
+    const living = Array.from(queries.inRegion(region));
+    const order = new Map<BenchEntity, number>();
+    living.forEach((e, i) => order.set(e, i));
+    for (let pass = 0; pass < 3; pass++) {
+      queries.refresh(region);
+      for (let i = 0; i < living.length; i++) {
+        const a = living[i];
+        for (const b of queries.near(a.x, a.y, COLLISION_RADIUS, region)) {
+          const j = order.get(b);
+          if (j === undefined || j <= i) continue;
+          const dx = a.x - b.x;
+          const dy = a.y - b.y;
+          const dist = Math.sqrt(dx * dx + dy * dy);
+          if (dist < COLLISION_RADIUS && dist > 0.01) {
+            const push = ((COLLISION_RADIUS - dist) / dist) * 0.5;
+            a.x += dx * push;
+            a.y += dy * push;
+            b.x -= dx * push;
+            b.y -= dy * push;
+            work++;
+          }
+        }
+      }
+    }
+  }
+  return work;
+}
+
+function run(label: string, args: Args, make: (entities: BenchEntity[]) => SpatialQueries) {
+  const entities = createWorld(args);
+  const queries = make(entities);
+  const times: number[] = [];
+  let work = 0;
+  for (let t = 0; t < args.ticks; t++) {
+    const start = performance.now();
+    work += tick(queries, args.zones);
+    times.push(performance.now() - start);
+  }
+  const inFirstZone = entities.filter((e) => e.region === "zone-0").length;
+  times.sort((a, b) => a - b);
+  const mean = times.reduce((sum, ms) => sum + ms, 0) / times.length;
+  return {
+    label,
+    meanMs: Number(mean.toFixed(2)),
+    p95Ms: Number(times[Math.min(times.length - 1, Math.floor(times.length * 0.95))].toFixed(2)),
+    maxMs: Number(times[times.length - 1].toFixed(2)),
+    entitiesInFirstZone: inFirstZone,
+    work,
+  };
+}
+
+const args = parseArgs(process.argv.slice(2));
+console.log(
+  `[bench] ${args.agents} agents converging on zone-0, ${args.mobs} mobs over ${args.zones} zones, ${args.ticks} ticks`
+);
+const baseline = run("full scan", args, fullScan);
+const withIndex = run("spatial index", args, indexed);
+console.table([baseline, withIndex]);
+console.log(`[bench] speed-up (mean tick): ${(baseline.meanMs / Math.max(withIndex.meanMs, 0.01)).toFixed(1)}x`);
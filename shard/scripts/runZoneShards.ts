@@ -0,0 +1,100 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { randomBytes } from "node:crypto";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+// Runs the shard as N zone shard workers on one host, one process each,
+// with ZONE_SHARD_* filled in. Any worker accepts any request and forwards
+// zone-scoped ones, so put them all behind the load balancer. Background
+// workers (chain batcher, merchants, ...) run on the first worker only.
+
+type Args = {
+  workers: number;
+  basePort: number;
+  host: string;
+  entry: string;
+};
+
+const shardRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+function usage(exitCode = 1): never {
+  console.log(
+    [
+      "Usage:",
+      "  pnpm exec tsx scripts/runZoneShards.ts [--workers 4] [--base-port 3001] [--host 127.0.0.1] [--entry src/server.ts]",
+      "",
+      "Notes:",
+      "  - Worker i listens on base-port + i and is named w<i>.",
+      "  - Needs REDIS_URL for heartbeats and the cluster spawn registry.",
+      "  - ZONE_SHARD_PINS and ZONE_SHARD_SECRET are passed through when set.",
+      "  - Use --entry dist/server.js to run the compiled build.",
+    ].join("\n")
+  );
+  process.exit(exitCode);
+}
+
+function parseArgs(argv: string[]): Args {
+  const result: Args = { workers: 4, basePort: 3001, host: "127.0.0.1", entry: "src/server.ts" };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") usage(0);
+    const value = argv[i + 1];
+    if (value === undefined) usage();
+    if (arg === "--workers" || arg === "--base-port") {
+      const n = Number(value);
+      if (!Number.isInteger(n) || n <= 0) usage();
+      if (arg === "--workers") result.workers = n;
+      else result.basePort = n;
+    } else if (arg === "--host") result.host = value;
+    else if (arg === "--entry") result.entry = value;
+    else usage();
+    i++;
+  }
+  return result;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const ids = Array.from({ length: args.workers }, (_, i) => `w${i}`);
+const workerList = ids.map((id, i) => `${id}=http://${args.host}:${args.basePort + i}`).join(",");
+const secret = process.env.ZONE_SHARD_SECRET?.trim() || randomBytes(24).toString("hex");
+const entry = path.resolve(shardRoot, args.entry);
+// Under tsx the loader flags live in execArgv; children need them for .ts entries
+const nodeArgs = entry.endsWith(".ts") ? [...process.execArgv, entry] : [entry];
+
+const children = new Map<string, ChildProcess>();
+let stopping = false;
+
+for (const [i, id] of ids.entries()) {
+  const child = spawn(process.execPath, nodeArgs, {
+    cwd: shardRoot,
+    stdio: "inherit",
+    env: {
+      ...process.env,
+      PORT: String(args.basePort + i),
+      ZONE_SHARD_WORKERS: workerList,
+      ZONE_SHARD_WORKER_ID: id,
+      ZONE_SHARD_SECRET: secret,
+      ...(i > 0 && { RUN_BACKGROUND_WORKERS: "false" }),
+    },
+  });
+  children.set(id, child);
+  child.on("exit", (code, signal) => {
+    children.delete(id);
+    console.log(`[zone-shards] ${id} exited (${signal ?? code})`);
+    // Peers adopt its zones once its heartbeat expires; bring the rest down only on shutdown
+    if (stopping && children.size === 0) process.exit(0);
+  });
+}
+
+console.log(`[zone-shards] Started ${ids.length} workers: ${workerList}`);
+
+function stopAll(signal: NodeJS.Signals): void {
+  if (stopping) return;
+  stopping = true;
+  console.log(`[zone-shards] ${signal} — stopping workers`);
+  for (const child of children.values()) child.kill(signal);
+  if (children.size === 0) process.exit(0);
+}
+
+process.on("SIGINT", () => stopAll("SIGINT"));
+process.on("SIGTERM", () => stopAll("SIGTERM"));
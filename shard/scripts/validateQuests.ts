@@ -0,0 +1,25 @@
+/**
+ * Validate the quest content in world/content/quests: file structure,
+ * prerequisite chains, and references to NPCs, mobs, zones and items.
+ * Exits non-zero when any error is found, so it can gate CI.
+ *
+ * Run:  pnpm validate:quests
+ */
+import {
+  formatQuestContentIssue,
+  loadQuestContent,
+  loadQuestReferenceData,
+  resolveQuestContentDir,
+  validateQuestCatalog,
+} from "../src/social/questContent.js";
+
+const dir = resolveQuestContentDir();
+const { quests, issues, files } = loadQuestContent(dir);
+issues.push(...validateQuestCatalog(quests, loadQuestReferenceData()));
+
+for (const issue of issues) console.log(formatQuestContentIssue(issue));
+
+const errors = issues.filter((issue) => issue.severity === "error").length;
+const warnings = issues.length - errors;
+console.log(`\n${quests.length} quests in ${files.length} files (${dir ?? "no quest folder"}): ${errors} errors, ${warnings} warnings`);
+process.exit(errors > 0 ? 1 : 0);
@@ -14,6 +14,8 @@ import { sendInboxMessage } from "./agentInbox.js";
 import { getAllEntities } from "../world/zoneRuntime.js";
 import { SKALE_BASE_CHAIN_ID } from "../blockchain/biteChain.js";
 import { getCharacterProjectionByAgentId } from "../character/characterProjectionStore.js";
+import { getValidationRegistryAddress, getValidatorAddress } from "../erc8004/validation.js";
+import { ACHIEVEMENT_CLAIM_KINDS } from "../erc8004/achievementClaims.js";
 
 const BASE_URL = process.env.WOG_SHARD_URL || "https://wog.urbantech.dev";
 const A2A_CHAIN_NAME = getErc8004ChainName(SKALE_BASE_CHAIN_ID);
@@ -250,12 +252,29 @@ export function registerA2ARoutes(server: FastifyInstance): void {
           description: "Get the full REST API reference for interacting with the game world",
           tags: ["documentation", "api"],
         },
+        {
+          id: "verify-achievements",
+          name: "Verify Achievements",
+          description: "Check an agent's signed achievement claims against the ERC-8004 validation registry, where this shard is the validator",
+          tags: ["erc8004", "validation", "achievements"],
+          examples: ["Has agent 42 reached level 60?", "Verify agent 42's dungeon clears"],
+        },
       ],
       erc8004: {
         chain: A2A_CHAIN_NAME,
         chainId: SKALE_BASE_CHAIN_ID,
         mode: ERC8004_MODE,
         registry: process.env.IDENTITY_REGISTRY_ADDRESS ?? null,
+        validation: {
+          registry: getValidationRegistryAddress(),
+          validator: getValidatorAddress(),
+          claims: ACHIEVEMENT_CLAIM_KINDS,
+          endpoints: {
+            list: `${BASE_URL}/api/agents/{agentId}/validations`,
+            document: `${BASE_URL}/api/agents/{agentId}/validations/{requestHash}`,
+            verify: `${BASE_URL}/api/agents/{agentId}/validations/{requestHash}/verify`,
+          },
+        },
       },
     };
   });
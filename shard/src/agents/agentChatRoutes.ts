@@ -8,8 +8,7 @@
  */
 
 import type { FastifyInstance } from "fastify";
-import { type Content, type FunctionDeclaration, type Part, type Type, FunctionCallingConfigMode } from "@google/genai";
-import { gemini, GEMINI_MODEL } from "./geminiClient.js";
+import { getLlmProvider, listLlmProviders, resolveLlmProvider, type LlmMessage, type LlmToolDeclaration } from "./llmProvider.js";
 import { authenticateRequest } from "../auth/auth.js";
 import { agentManager } from "./agentManager.js";
 import {
@@ -61,6 +60,14 @@ import type { AgentMcpClient } from "./mcpClient.js";
 import { QUEST_CATALOG } from "../social/questSystem.js";
 import { validateEdicts, type Edict } from "../combat/edicts.js";
 import { setEdictCache } from "../combat/edictCache.js";
+import {
+  simulateEdicts,
+  snapshotEdictSituation,
+  DEFAULT_SIMULATION_TICKS,
+  MAX_SIMULATION_TICKS,
+  type EdictSituation,
+  type SimEvent,
+} from "../combat/edictSimulator.js";
 import { getPromoCode, hasRedeemedPromoCode, redeemPromoCode, upsertPromoCode } from "../db/runtimeMetaStore.js";
 
 /** Internal fetch with 5s timeout — used for self-calls to avoid hanging forever. */
@@ -68,7 +75,7 @@ function internalFetch(url: string, init?: RequestInit): Promise<Response> {
   return fetch(url, { ...init, signal: AbortSignal.timeout(5_000) });
 }
 
-// Gemini client is initialized in geminiClient.ts
+// LLM providers are resolved per agent in llmProvider.ts
 
 /**
  * Scan a chat message for durable progression directives and persist them as
@@ -925,23 +932,21 @@ Respond ONLY with valid JSON, no markdown, no explanation:
 Focus options: questing, combat, gathering, crafting, enchanting, alchemy, cooking, shopping, trading, traveling, learning, idle
 Zone IDs: ${availableZoneIds.join(", ")}`;
 
-    // ── Call Gemini ──────────────────────────────────────────────────────────
+    // ── Call LLM ─────────────────────────────────────────────────────────────
 
-    if (!process.env.GOOGLE_CLOUD_PROJECT && !process.env.GEMINI_API_KEY) {
+    const llm = resolveLlmProvider({ tier: config.tier, providerId: config.llmProvider });
+    if (!llm.isConfigured()) {
       return reply.code(503).send({ error: "AI not configured" });
     }
 
     try {
-      const res = await gemini.models.generateContent({
-        model: GEMINI_MODEL,
-        contents: [{ role: "user", parts: [{ text: prompt }] }],
-        config: {
-          temperature: 0.8,
-          maxOutputTokens: 512,
-        },
+      const res = await llm.chat({
+        messages: [{ role: "user", text: prompt }],
+        temperature: 0.8,
+        maxOutputTokens: 512,
       });
 
-      const raw = res.candidates?.[0]?.content?.parts?.[0]?.text?.trim();
+      const raw = res.text.trim();
       if (!raw) {
         return reply.code(500).send({ error: "AI returned empty response" });
       }
@@ -1133,6 +1138,52 @@ Zone IDs: ${availableZoneIds.join(", ")}`;
     return reply.send({ ok: true, edicts });
   });
 
+  // ── POST /agent/edicts/simulate — dry-run edicts tick by tick ─────────────
+  // Uses the saved edicts unless a draft list is supplied. The situation is
+  // either synthetic or snapshotted from one of the caller's live entities.
+  server.post<{
+    Body: {
+      edicts?: Edict[];
+      ticks?: number;
+      entityId?: string;
+      situation?: EdictSituation;
+      events?: SimEvent[];
+    };
+  }>("/agent/edicts/simulate", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const authWallet = (request as any).walletAddress as string;
+    const { entityId, events } = request.body ?? {};
+
+    let edicts = request.body?.edicts;
+    if (edicts === undefined) {
+      edicts = (await getAgentConfig(authWallet.toLowerCase()))?.edicts ?? [];
+    }
+    const validation = validateEdicts(edicts);
+    if (!validation.valid) {
+      return reply.code(400).send({ error: validation.error });
+    }
+
+    let situation = request.body?.situation;
+    if (entityId) {
+      const entity = getWorldEntity(entityId);
+      if (!entity || entity.walletAddress?.toLowerCase() !== authWallet.toLowerCase()) {
+        return reply.code(404).send({ error: "Entity not found" });
+      }
+      situation = snapshotEdictSituation(entityId) ?? undefined;
+    }
+    if (!situation?.self || typeof situation.self.hp !== "number" || typeof situation.self.maxHp !== "number") {
+      return reply.code(400).send({ error: "Provide entityId or a situation with self.hp and self.maxHp" });
+    }
+    if (events !== undefined && !Array.isArray(events)) {
+      return reply.code(400).send({ error: "events must be an array" });
+    }
+
+    const ticks = Number(request.body?.ticks ?? DEFAULT_SIMULATION_TICKS);
+    const report = simulateEdicts(edicts as Edict[], situation, Number.isFinite(ticks) ? ticks : DEFAULT_SIMULATION_TICKS, events);
+    return reply.send({ situation, maxTicks: MAX_SIMULATION_TICKS, ...report });
+  });
+
   // ── POST /agent/chat ──────────────────────────────────────────────────────
   server.post<{
     Body: { message: string };
@@ -1190,8 +1241,9 @@ Zone IDs: ${availableZoneIds.join(", ")}`;
       await agentManager.ensureRunning(authWallet);
     }
 
-    if (!process.env.GOOGLE_CLOUD_PROJECT && !process.env.GEMINI_API_KEY) {
-      return reply.code(503).send({ error: "GOOGLE_CLOUD_PROJECT or GEMINI_API_KEY not configured" });
+    const llm = resolveLlmProvider({ tier: config.tier, providerId: config.llmProvider });
+    if (!llm.isConfigured()) {
+      return reply.code(503).send({ error: `LLM provider "${llm.id}" is not configured` });
     }
 
     // Build system prompt
@@ -1304,29 +1356,29 @@ Strategy options: aggressive, balanced, defensive`;
     const runner = agentManager.getRunner(authWallet);
     const mcpClient: AgentMcpClient | null = runner?.mcp?.isConnected() ? runner.mcp : null;
 
-    const chatToolDecls: FunctionDeclaration[] = [
+    const chatToolDecls: LlmToolDeclaration[] = [
       {
         name: "update_focus",
         description: "Update the agent's activity focus and combat strategy. For mining, set focus=gathering and nodeType=ore. For herbalism, set focus=gathering and nodeType=herb.",
         parameters: {
-          type: "OBJECT" as Type,
+          type: "OBJECT",
           properties: {
             focus: {
-              type: "STRING" as Type,
+              type: "STRING",
               enum: ["questing", "combat", "enchanting", "crafting", "gathering", "alchemy", "cooking", "leatherworking", "jewelcrafting", "farming", "trading", "shopping", "traveling", "learning", "idle"],
               description: "The new activity focus",
             },
             strategy: {
-              type: "STRING" as Type,
+              type: "STRING",
               enum: ["aggressive", "balanced", "defensive"],
               description: "The combat/play strategy",
             },
             targetZone: {
-              type: "STRING" as Type,
+              type: "STRING",
               description: "Optional target zone to move to",
             },
             nodeType: {
-              type: "STRING" as Type,
+              type: "STRING",
               enum: ["ore", "herb", "both"],
               description: "Gathering only: which resource nodes to target",
             },
@@ -1338,28 +1390,28 @@ Strategy options: aggressive, balanced, defensive`;
         name: "take_action",
         description: "Execute an immediate in-game action. Use learn_technique when the user asks to learn skills, spells, abilities, techniques, moves, or visit a trainer. Use forge_technique when the user wants to CREATE/FORGE/DESIGN a custom ability — they describe what it should do and the trainer forges it (requires L30+). Use learn_profession to pick up a gathering/crafting profession. Use buy_item/equip_item for gear, repair_gear at a blacksmith, and recycle_item to turn loot into gold.",
         parameters: {
-          type: "OBJECT" as Type,
+          type: "OBJECT",
           properties: {
             action: {
-              type: "STRING" as Type,
+              type: "STRING",
               enum: ["learn_profession", "learn_technique", "forge_technique", "buy_item", "equip_item", "repair_gear", "recycle_item"],
               description: "The action type. Use learn_technique to learn existing techniques. Use forge_technique when the user wants to CREATE/DESIGN a custom ability by describing it (L30+ only). Use learn_profession to pick up a profession.",
             },
             abilityDescription: {
-              type: "STRING" as Type,
+              type: "STRING",
               description: "For forge_technique: the player's description of the custom ability they want to create. Capture their exact fantasy.",
             },
             professionId: {
-              type: "STRING" as Type,
+              type: "STRING",
               enum: ["mining", "herbalism", "skinning", "blacksmithing", "alchemy", "cooking", "leatherworking", "jewelcrafting"],
               description: "Which profession to learn (for learn_profession action)",
             },
             tokenId: {
-              type: "NUMBER" as Type,
+              type: "NUMBER",
               description: "The item token ID to buy, equip, or recycle",
             },
             quantity: {
-              type: "NUMBER" as Type,
+              type: "NUMBER",
               description: "Optional item quantity for recycle_item. Defaults to 1.",
             },
           },
@@ -1369,44 +1421,44 @@ Strategy options: aggressive, balanced, defensive`;
       {
         name: "scan_zone",
         description: "Look around: see nearby mobs (sorted by level fit), NPCs, resource nodes, and portals in your current zone.",
-        parameters: { type: "OBJECT" as Type, properties: {} },
+        parameters: { type: "OBJECT", properties: {} },
       },
       {
         name: "check_inventory",
         description: "Check your gold balance, all items in your inventory with quantities, and which items can be safely recycled for gold.",
-        parameters: { type: "OBJECT" as Type, properties: {} },
+        parameters: { type: "OBJECT", properties: {} },
       },
       {
         name: "check_shop",
         description: "See what the nearest merchant sells and what that merchant buys back.",
-        parameters: { type: "OBJECT" as Type, properties: {} },
+        parameters: { type: "OBJECT", properties: {} },
       },
       {
         name: "what_can_i_craft",
         description: "Check which crafting, alchemy, and cooking recipes you can make right now based on your inventory.",
-        parameters: { type: "OBJECT" as Type, properties: {} },
+        parameters: { type: "OBJECT", properties: {} },
       },
       {
         name: "check_quests",
         description: "See your active quests and available quests in your current zone.",
-        parameters: { type: "OBJECT" as Type, properties: {} },
+        parameters: { type: "OBJECT", properties: {} },
       },
       {
         name: "send_message",
         description: "Send a message to a nearby player/agent. Use this when the user wants to talk to, trade with, or invite another player. The message is delivered to their inbox and they'll see it on their next tick.",
         parameters: {
-          type: "OBJECT" as Type,
+          type: "OBJECT",
           properties: {
             toWallet: {
-              type: "STRING" as Type,
+              type: "STRING",
               description: "The recipient's wallet address (from the nearby players list)",
             },
             body: {
-              type: "STRING" as Type,
+              type: "STRING",
               description: "The message to send, written in-character",
             },
             type: {
-              type: "STRING" as Type,
+              type: "STRING",
               enum: ["direct", "trade-request", "party-invite"],
               description: "Message type: direct for general chat, trade-request for trade offers, party-invite for group invites",
             },
@@ -1418,33 +1470,33 @@ Strategy options: aggressive, balanced, defensive`;
         name: "queue_actions",
         description: "Queue multiple actions to execute in sequence. Use this when the user gives multi-step instructions like 'mine ore then craft a sword then travel to dark-forest'. Each action runs until completion, then the next one starts. The queue takes priority over autonomous behavior.",
         parameters: {
-          type: "OBJECT" as Type,
+          type: "OBJECT",
           properties: {
             actions: {
-              type: "ARRAY" as Type,
+              type: "ARRAY",
               items: {
-                type: "OBJECT" as Type,
+                type: "OBJECT",
                 properties: {
                   type: {
-                    type: "STRING" as Type,
+                    type: "STRING",
                     enum: ["quest", "combat", "gather", "craft", "brew", "cook", "enchant", "leatherwork", "jewelcraft", "farm", "shop", "trade", "travel", "idle"],
                     description: "The action type",
                   },
                   targetZone: {
-                    type: "STRING" as Type,
+                    type: "STRING",
                     description: "For travel: the destination zone",
                   },
                   nodeType: {
-                    type: "STRING" as Type,
+                    type: "STRING",
                     enum: ["ore", "herb", "both"],
                     description: "For gather: which resource nodes to target",
                   },
                   maxLevelOffset: {
-                    type: "NUMBER" as Type,
+                    type: "NUMBER",
                     description: "For combat: max level offset for mobs to fight",
                   },
                   reason: {
-                    type: "STRING" as Type,
+                    type: "STRING",
                     description: "Short reason for this action",
                   },
                 },
@@ -1453,7 +1505,7 @@ Strategy options: aggressive, balanced, defensive`;
               description: "Array of actions to queue in order",
             },
             clearExisting: {
-              type: "BOOLEAN" as Type,
+              type: "BOOLEAN",
               description: "If true, clear the existing queue before adding new actions. Default true.",
             },
           },
@@ -1463,7 +1515,7 @@ Strategy options: aggressive, balanced, defensive`;
       {
         name: "clear_queue",
         description: "Clear all queued actions and return to autonomous behavior. Use when the user says stop, cancel, or wants to do something different.",
-        parameters: { type: "OBJECT" as Type, properties: {} },
+        parameters: { type: "OBJECT", properties: {} },
       },
     ];
 
@@ -1472,8 +1524,8 @@ Strategy options: aggressive, balanced, defensive`;
     // instead of dumping all ~60 MCP tools which bloats token count and confuses the LLM
     if (mcpClient) {
       const localOnlyTools = new Set(["update_focus", "take_action", "send_message", "queue_actions", "clear_queue"]);
-      const localTools = chatToolDecls.filter((t) => localOnlyTools.has(t.name!));
-      const mcpTools = mcpClient.getGeminiTools(/* includeBlocking */ true, /* supervisorOnly */ false, /* chatOnly */ true);
+      const localTools = chatToolDecls.filter((t) => localOnlyTools.has(t.name));
+      const mcpTools = mcpClient.getLlmTools(/* includeBlocking */ true, /* supervisorOnly */ false, /* chatOnly */ true);
       chatToolDecls.length = 0;
       chatToolDecls.push(...localTools, ...mcpTools);
       server.log.info(`[agent/chat] MCP connected — ${mcpTools.length} MCP tools + ${localTools.length} local tools (curated)`);
@@ -1483,32 +1535,28 @@ Strategy options: aggressive, balanced, defensive`;
       ? `${systemPrompt}\n\nRecent activity log:\n${recentActivity}`
       : systemPrompt;
 
-    const contents: Content[] = [
-      ...conversationHistory.map((m) => ({
-        role: (m.role === "user" ? "user" : "model") as "user" | "model",
-        parts: [{ text: m.role === "agent" ? sanitizeAgentHistoryText(m.text) : m.text }],
-      })),
-      { role: "user" as const, parts: [{ text: message }] },
+    const contents: LlmMessage[] = [
+      ...conversationHistory.map((m): LlmMessage => (
+        m.role === "user"
+          ? { role: "user", text: m.text }
+          : { role: "assistant", text: sanitizeAgentHistoryText(m.text) }
+      )),
+      { role: "user", text: message },
     ];
 
-    let geminiResponse;
+    let llmResponse;
     try {
-      geminiResponse = await gemini.models.generateContent({
-        model: GEMINI_MODEL,
-        contents,
-        config: {
-          systemInstruction: fullSystemInstruction,
-          tools: [{ functionDeclarations: chatToolDecls }],
-          // Force tool calling for directives — otherwise Gemini just chats about doing it
-          ...(interactionMode === "directive"
-            ? { toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY } } }
-            : {}),
-          temperature: 0.5,
-          maxOutputTokens: 150,
-        },
+      llmResponse = await llm.chat({
+        system: fullSystemInstruction,
+        messages: contents,
+        tools: chatToolDecls,
+        // Force tool calling for directives — otherwise the model just chats about doing it
+        ...(interactionMode === "directive" && { toolChoice: { mode: "required" as const } }),
+        temperature: 0.5,
+        maxOutputTokens: 150,
       });
     } catch (err: any) {
-      server.log.error(`[agent/chat] Gemini API error: ${err.message}`);
+      server.log.error(`[agent/chat] LLM error (provider=${llm.id}): ${err.message}`);
       return reply.code(502).send({ error: "AI service unavailable" });
     }
 
@@ -1517,27 +1565,25 @@ Strategy options: aggressive, balanced, defensive`;
     let agentResponse = "";
     const actionsTaken: string[] = [];
 
-    const responseParts = geminiResponse.candidates?.[0]?.content?.parts ?? [];
+    const fnCalls = llmResponse.toolCalls;
 
-    // Debug: log what Gemini actually returned
-    const textParts = responseParts.filter((p: Part) => p.text);
-    const fnCallParts = responseParts.filter((p: Part) => p.functionCall);
-    server.log.info(`[agent/chat] Gemini response: text=${JSON.stringify(textParts[0]?.text)?.slice(0, 120)} tool_calls=${fnCallParts.length} model=${GEMINI_MODEL}`);
-    for (const fc of fnCallParts) {
-      server.log.info(`[agent/chat] tool_call: ${fc.functionCall!.name}(${JSON.stringify(fc.functionCall!.args)?.slice(0, 100)})`);
+    // Debug: log what the model actually returned
+    server.log.info(`[agent/chat] LLM response: text=${JSON.stringify(llmResponse.text)?.slice(0, 120)} tool_calls=${fnCalls.length} provider=${llm.id} model=${llmResponse.model}`);
+    for (const fc of fnCalls) {
+      server.log.info(`[agent/chat] tool_call: ${fc.name}(${JSON.stringify(fc.args)?.slice(0, 100)})`);
     }
 
     // Capture first response content
-    if (textParts.length > 0 && textParts[0].text) {
-      agentResponse = textParts[0].text;
+    if (llmResponse.text) {
+      agentResponse = llmResponse.text;
     }
 
     // Execute all tool calls and collect results for potential follow-up
-    const toolResults: { name: string; content: string }[] = [];
-    if (fnCallParts.length > 0) {
-      for (const toolCallPart of fnCallParts) {
-        const fnName = toolCallPart.functionCall!.name!;
-        const fnArgs = toolCallPart.functionCall!.args ?? {};
+    const toolResults: { callId: string; name: string; content: string }[] = [];
+    if (fnCalls.length > 0) {
+      for (const toolCall of fnCalls) {
+        const fnName = toolCall.name;
+        const fnArgs = toolCall.args;
 
         // ── Read tools ──────────────────────────────────────────────
         if (fnName === "scan_zone") {
@@ -1563,7 +1609,7 @@ Strategy options: aggressive, balanced, defensive`;
             mobs.sort((a, b) => Math.abs(a.level - playerLevel) - Math.abs(b.level - playerLevel));
             scanResult = { region: entity.region ?? ref.zoneId, playerLevel, mobs: mobs.slice(0, 15), npcs: npcs.slice(0, 10), resources: resources.slice(0, 10) };
           }
-          toolResults.push({ name: fnName, content: JSON.stringify(scanResult) });
+          toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify(scanResult) });
         }
 
         else if (fnName === "check_inventory") {
@@ -1590,7 +1636,7 @@ Strategy options: aggressive, balanced, defensive`;
               server.log.warn(`[agent/chat] check_inventory fetch failed: ${(err as Error).message}`);
             }
           }
-          toolResults.push({ name: fnName, content: JSON.stringify(invResult) });
+          toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify(invResult) });
         }
 
         else if (fnName === "check_shop") {
@@ -1632,7 +1678,7 @@ Strategy options: aggressive, balanced, defensive`;
               }
             }
           }
-          toolResults.push({ name: fnName, content: JSON.stringify(shopResult) });
+          toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify(shopResult) });
         }
 
         else if (fnName === "what_can_i_craft") {
@@ -1706,7 +1752,7 @@ Strategy options: aggressive, balanced, defensive`;
           } catch (err) {
             server.log.warn(`[agent/chat] what_can_i_craft fetch failed: ${(err as Error).message}`);
           }
-          toolResults.push({ name: fnName, content: JSON.stringify(craftResult) });
+          toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify(craftResult) });
         }
 
         else if (fnName === "check_quests") {
@@ -1725,7 +1771,7 @@ Strategy options: aggressive, balanced, defensive`;
               server.log.warn(`[agent/chat] check_quests fetch failed: ${(err as Error).message}`);
             }
           }
-          toolResults.push({ name: fnName, content: JSON.stringify(questResult) });
+          toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify(questResult) });
         }
 
         // ── Action tools ─────────────────────────────────────────
@@ -1764,9 +1810,9 @@ Strategy options: aggressive, balanced, defensive`;
 
             const runner = agentManager.getRunner(authWallet);
             if (runner) runner.clearScript();
-            toolResults.push({ name: fnName, content: JSON.stringify({ ok: true, ...patch }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ ok: true, ...patch }) });
           } catch {
-            toolResults.push({ name: fnName, content: JSON.stringify({ error: "Failed to update focus" }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "Failed to update focus" }) });
           }
         }
 
@@ -1778,7 +1824,7 @@ Strategy options: aggressive, balanced, defensive`;
               type?: "direct" | "trade-request" | "party-invite";
             };
             if (!input.toWallet || !input.body) {
-              toolResults.push({ name: fnName, content: JSON.stringify({ error: "toWallet and body are required" }) });
+              toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "toWallet and body are required" }) });
             } else {
               const msgId = await sendInboxMessage({
                 from: authWallet,
@@ -1794,10 +1840,10 @@ Strategy options: aggressive, balanced, defensive`;
               const recipientName = recipientPlayer?.name ?? input.toWallet.slice(0, 10);
               actionsTaken.push(`[sent ${input.type ?? "direct"} message to ${recipientName}]`);
               server.log.info(`[agent/chat] send_message to ${recipientName} (${input.toWallet.slice(0, 10)}): "${input.body.slice(0, 60)}"`);
-              toolResults.push({ name: fnName, content: JSON.stringify({ ok: true, messageId: msgId, to: recipientName }) });
+              toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ ok: true, messageId: msgId, to: recipientName }) });
             }
           } catch {
-            toolResults.push({ name: fnName, content: JSON.stringify({ error: "Failed to send message" }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "Failed to send message" }) });
           }
         }
 
@@ -2002,9 +2048,9 @@ Strategy options: aggressive, balanced, defensive`;
                 server.log.info(`[agent/chat] recycle_item(${input.tokenId}, qty=${Math.max(1, Math.floor(input.quantity ?? 1))}) → ${result.ok}`);
               }
             }
-            toolResults.push({ name: fnName, content: JSON.stringify({ ok: true, actions: actionsTaken }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ ok: true, actions: actionsTaken }) });
           } catch {
-            toolResults.push({ name: fnName, content: JSON.stringify({ error: "Action failed" }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "Action failed" }) });
           }
         }
 
@@ -2015,7 +2061,7 @@ Strategy options: aggressive, balanced, defensive`;
               clearExisting?: boolean;
             };
             if (!input.actions || input.actions.length === 0) {
-              toolResults.push({ name: fnName, content: JSON.stringify({ error: "At least one action is required" }) });
+              toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "At least one action is required" }) });
             } else {
               const scripts: BotScript[] = input.actions.map((a) => ({
                 type: a.type as BotScript["type"],
@@ -2032,10 +2078,10 @@ Strategy options: aggressive, balanced, defensive`;
               const summary = scripts.map((s) => s.type).join(" → ");
               actionsTaken.push(`[queued ${scripts.length} actions: ${summary}]`);
               server.log.info(`[agent/chat] queue_actions: ${summary}`);
-              toolResults.push({ name: fnName, content: JSON.stringify({ ok: true, queued: scripts.length, plan: summary }) });
+              toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ ok: true, queued: scripts.length, plan: summary }) });
             }
           } catch {
-            toolResults.push({ name: fnName, content: JSON.stringify({ error: "Failed to queue actions" }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "Failed to queue actions" }) });
           }
         }
 
@@ -2048,9 +2094,9 @@ Strategy options: aggressive, balanced, defensive`;
             }
             actionsTaken.push("[cleared action queue]");
             server.log.info("[agent/chat] clear_queue");
-            toolResults.push({ name: fnName, content: JSON.stringify({ ok: true, message: "Queue cleared, returning to autonomous behavior" }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ ok: true, message: "Queue cleared, returning to autonomous behavior" }) });
           } catch {
-            toolResults.push({ name: fnName, content: JSON.stringify({ error: "Failed to clear queue" }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: "Failed to clear queue" }) });
           }
         }
 
@@ -2066,99 +2112,93 @@ Strategy options: aggressive, balanced, defensive`;
                 walletAddress: custodialWallet ?? undefined,
               },
             );
-            toolResults.push({ name: fnName, content: mcpResult });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: mcpResult });
             server.log.info(`[agent/chat] MCP tool ${fnName} OK`);
           } catch (err: any) {
             server.log.warn(`[agent/chat] MCP tool ${fnName} failed: ${err.message?.slice(0, 80)}`);
-            toolResults.push({ name: fnName, content: JSON.stringify({ error: err.message?.slice(0, 100) }) });
+            toolResults.push({ callId: toolCall.id, name: fnName, content: JSON.stringify({ error: err.message?.slice(0, 100) }) });
           }
         }
       }
     }
 
-    // If tools were called, do a follow-up Gemini call with tool results so the
-    // LLM can formulate a natural response using the actual outcome.
+    // If tools were called, do a follow-up LLM call with tool results so the
+    // model can formulate a natural response using the actual outcome.
     if (toolResults.length > 0) {
       try {
-        const followUpContents: Content[] = [
+        const followUpContents: LlmMessage[] = [
           ...contents,
-          { role: "model", parts: responseParts },
+          llmResponse.message,
           {
-            role: "user",
-            parts: toolResults.map(tr => ({
-              functionResponse: { name: tr.name, response: JSON.parse(tr.content) },
+            role: "tool",
+            results: toolResults.map(tr => ({
+              callId: tr.callId,
+              name: tr.name,
+              response: JSON.parse(tr.content),
             })),
           },
         ];
 
-        const followUp = await gemini.models.generateContent({
-          model: GEMINI_MODEL,
-          contents: followUpContents,
-          config: {
-            systemInstruction: fullSystemInstruction + "\n\nReply in 1-2 short sentences using the tool results. Be natural, specific, and brief. No internal tool names or bracket tags.",
-            temperature: 0.5,
-            maxOutputTokens: 150,
-          },
+        const followUp = await llm.chat({
+          system: fullSystemInstruction + "\n\nReply in 1-2 short sentences using the tool results. Be natural, specific, and brief. No internal tool names or bracket tags.",
+          messages: followUpContents,
+          // Tool declarations must accompany tool-call history for some providers; forbid new calls.
+          tools: chatToolDecls,
+          toolChoice: "none",
+          temperature: 0.5,
+          maxOutputTokens: 150,
         });
 
-        const followUpText = followUp.candidates?.[0]?.content?.parts?.find((p: Part) => p.text)?.text;
-        if (followUpText) {
-          agentResponse = followUpText;
+        if (followUp.text) {
+          agentResponse = followUp.text;
         }
       } catch (err: any) {
-        server.log.warn(`[agent/chat] Follow-up Gemini call failed: ${err.message}`);
+        server.log.warn(`[agent/chat] Follow-up LLM call failed: ${err.message}`);
       }
     }
 
     // If LLM returned nothing useful, retry once with forced tool call
     if (!agentResponse && actionsTaken.length === 0) {
-      server.log.warn(`[agent/chat] Empty response from Gemini — retrying with forced tool`);
+      server.log.warn(`[agent/chat] Empty response from LLM — retrying with forced tool`);
       try {
-        const retryResponse = await gemini.models.generateContent({
-          model: GEMINI_MODEL,
-          contents,
-          config: {
-            systemInstruction: fullSystemInstruction,
-            tools: [{
-              functionDeclarations: [{
-                name: "update_focus",
-                description: "Update the agent's activity focus and combat strategy. Use this for ANY request to change what the agent is doing: fight, quest, gather, craft, shop, brew, cook, idle, travel. For mining use focus=gathering with nodeType=ore. For herbalism use focus=gathering with nodeType=herb.",
-                parameters: {
-                  type: "OBJECT" as Type,
-                  properties: {
-                    focus: {
-                      type: "STRING" as Type,
-                      enum: ["questing", "combat", "enchanting", "crafting", "gathering", "alchemy", "cooking", "leatherworking", "jewelcrafting", "farming", "trading", "shopping", "traveling", "learning", "idle"],
-                      description: "The new activity focus",
-                    },
-                    strategy: {
-                      type: "STRING" as Type,
-                      enum: ["aggressive", "balanced", "defensive"],
-                    },
-                    nodeType: {
-                      type: "STRING" as Type,
-                      enum: ["ore", "herb", "both"],
-                      description: "Gathering only: which resource nodes to target",
-                    },
-                  },
-                  required: ["focus"],
+        const retryResponse = await llm.chat({
+          system: fullSystemInstruction,
+          messages: contents,
+          tools: [{
+            name: "update_focus",
+            description: "Update the agent's activity focus and combat strategy. Use this for ANY request to change what the agent is doing: fight, quest, gather, craft, shop, brew, cook, idle, travel. For mining use focus=gathering with nodeType=ore. For herbalism use focus=gathering with nodeType=herb.",
+            parameters: {
+              type: "OBJECT",
+              properties: {
+                focus: {
+                  type: "STRING",
+                  enum: ["questing", "combat", "enchanting", "crafting", "gathering", "alchemy", "cooking", "leatherworking", "jewelcrafting", "farming", "trading", "shopping", "traveling", "learning", "idle"],
+                  description: "The new activity focus",
                 },
-              }],
-            }],
-            toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.ANY, allowedFunctionNames: ["update_focus"] } },
-            temperature: 0.3,
-            maxOutputTokens: 150,
-          },
+                strategy: {
+                  type: "STRING",
+                  enum: ["aggressive", "balanced", "defensive"],
+                },
+                nodeType: {
+                  type: "STRING",
+                  enum: ["ore", "herb", "both"],
+                  description: "Gathering only: which resource nodes to target",
+                },
+              },
+              required: ["focus"],
+            },
+          }],
+          toolChoice: { mode: "required", allowedTools: ["update_focus"] },
+          temperature: 0.3,
+          maxOutputTokens: 150,
         });
-        const retryParts = retryResponse.candidates?.[0]?.content?.parts ?? [];
-        const retryText = retryParts.find((p: Part) => p.text)?.text;
-        if (retryText) {
-          agentResponse = retryText;
+        if (retryResponse.text) {
+          agentResponse = retryResponse.text;
         }
-        for (const rp of retryParts) {
-          if (rp.functionCall?.name === "update_focus") {
+        for (const call of retryResponse.toolCalls) {
+          if (call.name === "update_focus") {
             try {
-              const input = rp.functionCall.args as unknown as { focus: AgentFocus; strategy?: AgentStrategy };
+              const input = call.args as unknown as { focus: AgentFocus; strategy?: AgentStrategy };
               const patch: any = { focus: input.focus };
               if (input.strategy) patch.strategy = input.strategy;
               patch.targetZone = undefined;
@@ -2179,21 +2219,17 @@ Strategy options: aggressive, balanced, defensive`;
     // If actions were taken but LLM returned no text, ask for an in-character quip
     if (!agentResponse && actionsTaken.length > 0) {
       try {
-        const quipResponse = await gemini.models.generateContent({
-          model: GEMINI_MODEL,
-          contents: [
-            { role: "user" as const, parts: [{ text: message }] },
-            { role: "model" as const, parts: [{ text: `[actions taken: ${actionsTaken.join(", ")}]` }] },
-            { role: "user" as const, parts: [{ text: "Now respond as yourself about what you just did. 1 sentence, in character, with personality. You ARE the character speaking in real time." }] },
+        const quipResponse = await llm.chat({
+          system: fullSystemInstruction,
+          messages: [
+            { role: "user", text: message },
+            { role: "assistant", text: `[actions taken: ${actionsTaken.join(", ")}]` },
+            { role: "user", text: "Now respond as yourself about what you just did. 1 sentence, in character, with personality. You ARE the character speaking in real time." },
           ],
-          config: {
-            systemInstruction: fullSystemInstruction,
-            temperature: 0.7,
-            maxOutputTokens: 80,
-          },
+          temperature: 0.7,
+          maxOutputTokens: 80,
         });
-        const quipText = quipResponse.candidates?.[0]?.content?.parts?.find((p: Part) => p.text)?.text;
-        if (quipText) agentResponse = quipText;
+        if (quipResponse.text) agentResponse = quipResponse.text;
       } catch (err: any) {
         server.log.warn(`[agent/chat] Quip generation failed: ${err.message?.slice(0, 60)}`);
       }
@@ -2309,14 +2345,17 @@ Strategy options: aggressive, balanced, defensive`;
     return reply.send({ ok: true, gotoPosition: { x: cx, y: cy, zoneId } });
   });
 
+  // ── GET /agent/llm-providers — Registered LLM providers and whether they're usable ──
+  server.get("/agent/llm-providers", async () => ({ providers: listLlmProviders() }));
+
   // ── PATCH /agent/config — Direct manual control (bypasses AI) ─────────────
   server.patch<{
-    Body: { focus?: string; strategy?: string; targetZone?: string };
+    Body: { focus?: string; strategy?: string; targetZone?: string; llmProvider?: string | null };
   }>("/agent/config", {
     preHandler: authenticateRequest,
   }, async (request, reply) => {
     const authWallet = (request as any).walletAddress as string;
-    const { focus, strategy, targetZone } = request.body ?? {};
+    const { focus, strategy, targetZone, llmProvider } = request.body ?? {};
 
     const validFocus = new Set([
       "questing", "combat", "enchanting", "crafting", "gathering",
@@ -2345,6 +2384,19 @@ Strategy options: aggressive, balanced, defensive`;
       }
     }
 
+    if (llmProvider !== undefined) {
+      if (llmProvider == null || llmProvider === "") {
+        patch.llmProvider = undefined;
+      } else if (typeof llmProvider === "string" && getLlmProvider(llmProvider)) {
+        patch.llmProvider = getLlmProvider(llmProvider)!.id;
+      } else {
+        return reply.code(400).send({
+          error: `Unknown llmProvider: ${String(llmProvider)}`,
+          validProviders: listLlmProviders().map((p) => p.id),
+        });
+      }
+    }
+
     // Prevent stale travel targets from forcing travel when user switches focus.
     if (patch.focus && patch.focus !== "traveling") {
       patch.targetZone = undefined;
@@ -2361,6 +2413,7 @@ Strategy options: aggressive, balanced, defensive`;
       patch.focus ? `focus→${patch.focus}` : "",
       patch.strategy ? `strategy→${patch.strategy}` : "",
       patch.targetZone ? `travel→${patch.targetZone}` : "",
+      "llmProvider" in patch ? `llm→${patch.llmProvider ?? "default"}` : "",
     ].filter(Boolean).join(", ");
     await appendChatMessage(authWallet, {
       role: "activity",
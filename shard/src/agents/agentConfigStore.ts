@@ -91,6 +91,8 @@ export interface AgentConfig {
   lastUpdated: number;
   /** Pricing tier — defaults to "free" for backward compat */
   tier?: AgentTier;
+  /** LLM provider ID override (gemini | openai | custom; scripted in dev) — see llmProvider.ts. */
+  llmProvider?: string;
   /** Epoch ms when the current session started (for session limit enforcement) */
   sessionStartedAt?: number;
   /** Ordered list of objectives — agent works through them in order */
@@ -41,10 +41,12 @@ import { exportCustodialWallet } from "../blockchain/custodialWalletRedis.js";
 import { authenticateWithWallet, createAuthenticatedAPI } from "../auth/authHelper.js";
 import { ZONE_LEVEL_REQUIREMENTS, QUEST_ZONES, FARM_ZONES, getZoneConnections, resolveRegionId } from "../world/worldLayout.js";
 import { getEntity as getWorldEntity, getEntitiesInRegion, isWalletSpawned, unregisterSpawnedWallet } from "../world/zoneRuntime.js";
+import { getPlannedPathDistance } from "../world/pathfinding.js";
 import { getPartyLeaderId, getPlayerPartyId } from "../social/partySystem.js";
 import { getRecentZoneEvents, type ZoneEvent } from "../world/zoneEvents.js";
 import { runSupervisor } from "./agentSupervisor.js";
-import { TIER_CAPABILITIES, type TierCapabilities } from "./agentTiers.js";
+import { resolveLlmProvider } from "./llmProvider.js";
+import { TIER_CAPABILITIES, type AgentTier, type TierCapabilities } from "./agentTiers.js";
 import { AgentMcpClient } from "./mcpClient.js";
 import { type BotScript, type TriggerEvent } from "../types/botScriptTypes.js";
 import {
@@ -1339,13 +1341,17 @@ export class AgentRunner {
       this.moveToLastDistance = Number.POSITIVE_INFINITY;
     }
 
-    const madeProgress = dist < this.moveToLastDistance - MOVE_PROGRESS_EPSILON;
+    // Measure progress along the terrain path when there is one — walking
+    // around a wall can briefly increase the straight-line distance.
+    const liveEntity = getWorldEntity(this.entityId);
+    const remaining = (liveEntity && getPlannedPathDistance(liveEntity)) ?? dist;
+    const madeProgress = remaining < this.moveToLastDistance - MOVE_PROGRESS_EPSILON;
     if (madeProgress) {
       this.moveToStaleCount = 0;
     } else if (!targetChanged) {
       this.moveToStaleCount++;
     }
-    this.moveToLastDistance = dist;
+    this.moveToLastDistance = remaining;
 
     if (dist <= closeEnoughDist) {
       this.moveToStaleCount = 0;
@@ -1364,8 +1370,7 @@ export class AgentRunner {
       return false; // Treat as "close enough" so the caller can attempt interaction
     }
 
-    const entity = getWorldEntity(this.entityId);
-    const currentOrder = entity?.order;
+    const currentOrder = liveEntity?.order;
     const alreadyMovingToTarget = currentOrder?.action === "move"
       && Math.abs((currentOrder.x ?? 0) - target.x) < 1
       && Math.abs((currentOrder.y ?? 0) - target.y) < 1;
@@ -1623,6 +1628,8 @@ export class AgentRunner {
       autoProgress?: boolean;
       ignoreWeakMobs?: boolean;
       homeZone?: string;
+      tier?: AgentTier;
+      llmProvider?: string;
     },
     strategy: AgentStrategy,
   ): Promise<void> {
@@ -1775,6 +1782,7 @@ export class AgentRunner {
             apiCall: this.api!,
             walletGoldCopper,
             mcpClient: this.mcpClient?.isConnected() ? this.mcpClient : undefined,
+            llm: resolveLlmProvider({ tier: config.tier, providerId: config.llmProvider }),
           });
           this.updateTimingMetric(this.telemetry.supervisor, performance.now() - supervisorStartedAt);
           this.currentScript = newScript;
@@ -11,8 +11,7 @@
  * action that tells the runner what behavior to execute next.
  */
 
-import { type Content, type FunctionDeclaration, type Part, type Type } from "@google/genai";
-import { gemini, GEMINI_MODEL } from "./geminiClient.js";
+import { resolveLlmProvider, type LlmMessage, type LlmProvider, type LlmToolDeclaration, type LlmToolResult } from "./llmProvider.js";
 import { fetchLiquidationInventory, type FailureMemoryEntry } from "./agentUtils.js";
 import { findPortalInZone, getSharedEdge, getZoneConnections, ZONE_LEVEL_REQUIREMENTS } from "../world/worldLayout.js";
 import { getAvailableQuestsForPlayer, isQuestNpc } from "../social/questSystem.js";
@@ -20,10 +19,28 @@ import { getEntitiesInRegion } from "../world/zoneRuntime.js";
 import type { ZoneEvent } from "../world/zoneEvents.js";
 import type { BotScript, TriggerEvent } from "../types/botScriptTypes.js";
 import type { AgentMcpClient } from "./mcpClient.js";
+import { counter, histogram } from "../observability/metrics.js";
 
 const MAX_TURNS_LEGACY = 5;
 const MAX_TURNS_MCP = 5;
 
+const llmCallDuration = histogram(
+  "wog_agent_supervisor_llm_duration_seconds",
+  "Latency of one supervisor LLM call",
+  ["provider", "outcome"],
+  [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60]
+);
+const supervisorFailures = counter(
+  "wog_agent_supervisor_failures_total",
+  "Supervisor failures by cause (llm_error, mcp_tool_error, no_script)",
+  ["provider", "reason"]
+);
+const supervisorRuns = counter(
+  "wog_agent_supervisor_runs_total",
+  "Supervisor runs by outcome (script = set_script called, default = fell back to defaultScript)",
+  ["outcome"]
+);
+
 // ── Context ───────────────────────────────────────────────────────────────
 
 export interface SupervisorContext {
@@ -45,6 +62,8 @@ export interface SupervisorContext {
   configFocus?: string;
   /** MCP client — if connected, supervisor uses MCP tools instead of hardcoded ones. */
   mcpClient?: AgentMcpClient;
+  /** LLM provider for this agent (resolved from tier/config). Defaults to resolveLlmProvider(). */
+  llm?: LlmProvider;
 }
 
 // ── Prompt ────────────────────────────────────────────────────────────────
@@ -114,44 +133,44 @@ Your job: Decide the next bot script to execute.
 
 // ── set_script declaration (always present) ──────────────────────────────
 
-const SET_SCRIPT_DECL: FunctionDeclaration = {
+const SET_SCRIPT_DECL: LlmToolDeclaration = {
   name: "set_script",
   description: "Set the bot's behavior script. Call this once to finalize the decision.",
   parameters: {
-    type: "OBJECT" as Type,
+    type: "OBJECT",
     properties: {
       type: {
-        type: "STRING" as Type,
+        type: "STRING",
         enum: ["combat", "gather", "travel", "shop", "trade", "craft", "brew", "cook", "quest", "learn", "goto", "idle", "dungeon", "farm"],
         description: "Which behavior mode the bot should run. Use 'learn' to find a trainer and learn techniques, 'goto' to walk to a specific NPC, 'dungeon' to enter a dungeon gate, 'farm' to harvest crops in farmland zones.",
       },
       maxLevelOffset: {
-        type: "NUMBER" as Type,
+        type: "NUMBER",
         description: "combat only: max mob level above agent level to engage (1=safe, 5=aggressive)",
       },
       nodeType: {
-        type: "STRING" as Type,
+        type: "STRING",
         enum: ["ore", "herb", "both"],
         description: "gather only: which resource nodes to target",
       },
       targetZone: {
-        type: "STRING" as Type,
+        type: "STRING",
         description: "travel only: destination region ID",
       },
       maxGold: {
-        type: "NUMBER" as Type,
+        type: "NUMBER",
         description: "shop only: maximum gold to spend this session",
       },
       gateEntityId: {
-        type: "STRING" as Type,
+        type: "STRING",
         description: "dungeon only: entity ID of the dungeon gate to open",
       },
       gateRank: {
-        type: "STRING" as Type,
+        type: "STRING",
         description: "dungeon only: rank of the gate (E/D/C/B/A/S)",
       },
       reason: {
-        type: "STRING" as Type,
+        type: "STRING",
         description: "Brief explanation for why this script was chosen (shown in activity log)",
       },
     },
@@ -161,27 +180,27 @@ const SET_SCRIPT_DECL: FunctionDeclaration = {
 
 // ── Legacy hardcoded tools (fallback when MCP is unavailable) ────────────
 
-function buildLegacyTools(): FunctionDeclaration[] {
+function buildLegacyTools(): LlmToolDeclaration[] {
   return [
     {
       name: "read_zone",
       description: "Read the current region — lists mobs, resource nodes, and NPCs with IDs, levels, and distances",
-      parameters: { type: "OBJECT" as Type, properties: {} },
+      parameters: { type: "OBJECT", properties: {} },
     },
     {
       name: "read_inventory",
       description: "Read the agent's inventory — items owned with counts and categories, plus gold balance",
-      parameters: { type: "OBJECT" as Type, properties: {} },
+      parameters: { type: "OBJECT", properties: {} },
     },
     {
       name: "read_connections",
       description: "Read regions reachable from the current region and their level requirements",
-      parameters: { type: "OBJECT" as Type, properties: {} },
+      parameters: { type: "OBJECT", properties: {} },
     },
     {
       name: "read_quests",
       description: "Read available and active quests in the current region",
-      parameters: { type: "OBJECT" as Type, properties: {} },
+      parameters: { type: "OBJECT", properties: {} },
     },
     SET_SCRIPT_DECL,
   ];
@@ -295,94 +314,95 @@ export async function runSupervisor(
   const maxTurns = hasMcp ? MAX_TURNS_MCP : MAX_TURNS_LEGACY;
   const systemInstruction = buildSystemPrompt(event, ctx, hasMcp);
 
+  const llm = ctx.llm ?? resolveLlmProvider();
+
   // Build tools: MCP tools (non-blocking only) + set_script, or legacy fallback
-  let toolDecls: FunctionDeclaration[];
+  let toolDecls: LlmToolDeclaration[];
   if (hasMcp) {
-    const mcpTools = ctx.mcpClient!.getGeminiTools(/* includeBlocking */ false, /* supervisorOnly */ true);
+    const mcpTools = ctx.mcpClient!.getLlmTools(/* includeBlocking */ false, /* supervisorOnly */ true);
     toolDecls = [...mcpTools, SET_SCRIPT_DECL];
   } else {
     toolDecls = buildLegacyTools();
   }
 
-  const contents: Content[] = [
-    { role: "user", parts: [{ text: "What should the bot do next?" }] },
+  const messages: LlmMessage[] = [
+    { role: "user", text: "What should the bot do next?" },
   ];
 
   for (let turn = 0; turn < maxTurns; turn++) {
     let res;
+    const stopLlmTimer = llmCallDuration.startTimer({ provider: llm.id });
     try {
-      res = await gemini.models.generateContent({
-        model: GEMINI_MODEL,
-        contents,
-        config: {
-          systemInstruction,
-          tools: [{ functionDeclarations: toolDecls }],
-          temperature: 0.3,
-          maxOutputTokens: 512,
-        },
+      res = await llm.chat({
+        system: systemInstruction,
+        messages,
+        tools: toolDecls,
+        temperature: 0.3,
+        maxOutputTokens: 512,
       });
+      stopLlmTimer({ outcome: "ok" });
     } catch (err: any) {
-      console.warn(`[supervisor] LLM call failed (turn ${turn}): ${err.message?.slice(0, 80)}`);
+      stopLlmTimer({ outcome: "error" });
+      supervisorFailures.inc({ provider: llm.id, reason: "llm_error" });
+      console.warn(`[supervisor] LLM call failed (provider=${llm.id}, turn ${turn}): ${err.message?.slice(0, 80)}`);
       break;
     }
 
-    const parts = res.candidates?.[0]?.content?.parts;
-    if (!parts || parts.length === 0) break;
+    if (!res.text && res.toolCalls.length === 0) break;
 
     // Add model response to conversation history
-    contents.push({ role: "model", parts });
+    messages.push(res.message);
 
-    const fnCalls = parts.filter((p: Part) => p.functionCall);
-    if (fnCalls.length === 0) break; // LLM gave up without setting a script
+    if (res.toolCalls.length === 0) break; // LLM gave up without setting a script
 
-    const responseParts: Part[] = [];
-
-    for (const part of fnCalls) {
-      const fc = part.functionCall!;
+    const results: LlmToolResult[] = [];
 
+    for (const fc of res.toolCalls) {
       // set_script is the terminal tool — extract and return immediately
       if (fc.name === "set_script") {
         const script = fc.args as unknown as BotScript;
         console.log(`[supervisor] set_script(${event.type}): ${script.type} — ${script.reason}`);
+        supervisorRuns.inc({ outcome: "script" });
         return script;
       }
 
       let result: unknown;
 
       // Route to MCP or legacy handler
-      if (hasMcp && ctx.mcpClient!.hasTool(fc.name!)) {
+      if (hasMcp && ctx.mcpClient!.hasTool(fc.name)) {
         try {
           const mcpResult = await ctx.mcpClient!.callTool(
-            fc.name!,
-            (fc.args ?? {}) as Record<string, unknown>,
+            fc.name,
+            fc.args,
             {
               entityId: ctx.entityId,
               zoneId: ctx.currentRegion,
               walletAddress: ctx.custodialWallet,
             },
           );
-          // Parse JSON response for Gemini
+          // Parse JSON response for the LLM
           try { result = JSON.parse(mcpResult); } catch { result = { text: mcpResult }; }
         } catch (err: any) {
+          supervisorFailures.inc({ provider: llm.id, reason: "mcp_tool_error" });
           console.warn(`[supervisor] MCP tool ${fc.name} failed: ${err.message?.slice(0, 60)}`);
           result = { error: err.message?.slice(0, 100) };
         }
       } else {
-        result = await executeLegacyTool(fc.name!, ctx);
+        result = await executeLegacyTool(fc.name, ctx);
       }
 
-      responseParts.push({
-        functionResponse: { name: fc.name!, response: result as Record<string, unknown> },
-      });
+      results.push({ callId: fc.id, name: fc.name, response: result });
     }
 
-    if (responseParts.length > 0) {
-      contents.push({ role: "user", parts: responseParts });
+    if (results.length > 0) {
+      messages.push({ role: "tool", results });
     }
   }
 
   // LLM didn't call set_script — derive a safe default from the event
   console.warn(`[supervisor] no set_script call for event=${event.type}, using default`);
+  supervisorFailures.inc({ provider: llm.id, reason: "no_script" });
+  supervisorRuns.inc({ outcome: "default" });
   return defaultScript(event, ctx);
 }
 
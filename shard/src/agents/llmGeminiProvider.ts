@@ -0,0 +1,100 @@
+/**
+ * llmGeminiProvider.ts — LlmProvider adapter over the shared @google/genai client.
+ */
+
+import { type Content, type FunctionDeclaration, type Part, FunctionCallingConfigMode } from "@google/genai";
+import { gemini, GEMINI_MODEL } from "./geminiClient.js";
+import {
+  toJsonSchema,
+  toToolResponseObject,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolCall,
+} from "./llmProvider.js";
+
+function toGeminiContents(messages: LlmMessage[]): Content[] {
+  return messages.map((message): Content => {
+    if (message.role === "user") {
+      return { role: "user", parts: [{ text: message.text }] };
+    }
+    if (message.role === "tool") {
+      return {
+        role: "user",
+        parts: message.results.map((result) => ({
+          functionResponse: { id: result.callId, name: result.name, response: toToolResponseObject(result.response) },
+        })),
+      };
+    }
+    // Replay original parts so thought signatures survive multi-turn tool use.
+    if (Array.isArray(message.providerData)) {
+      return { role: "model", parts: message.providerData as Part[] };
+    }
+    const parts: Part[] = [];
+    if (message.text) parts.push({ text: message.text });
+    for (const call of message.toolCalls ?? []) {
+      parts.push({ functionCall: { id: call.id, name: call.name, args: call.args } });
+    }
+    return { role: "model", parts };
+  });
+}
+
+function toGeminiTools(request: LlmChatRequest): FunctionDeclaration[] {
+  return (request.tools ?? []).map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    parametersJsonSchema: toJsonSchema(tool.parameters),
+  }));
+}
+
+export function createGeminiLlmProvider(): LlmProvider {
+  return {
+    id: "gemini",
+    model: GEMINI_MODEL,
+    isConfigured() {
+      return Boolean(process.env.GOOGLE_CLOUD_PROJECT || process.env.GEMINI_API_KEY);
+    },
+    async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+      const functionDeclarations = toGeminiTools(request);
+      const choice = request.toolChoice;
+      const res = await gemini.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: toGeminiContents(request.messages),
+        config: {
+          ...(request.system && { systemInstruction: request.system }),
+          ...(functionDeclarations.length > 0 && { tools: [{ functionDeclarations }] }),
+          ...(choice && choice !== "auto" && {
+            toolConfig: {
+              functionCallingConfig: choice === "none"
+                ? { mode: FunctionCallingConfigMode.NONE }
+                : {
+                    mode: FunctionCallingConfigMode.ANY,
+                    ...(choice.allowedTools && { allowedFunctionNames: choice.allowedTools }),
+                  },
+            },
+          }),
+          ...(request.temperature != null && { temperature: request.temperature }),
+          ...(request.maxOutputTokens != null && { maxOutputTokens: request.maxOutputTokens }),
+        },
+      });
+
+      const parts = res.candidates?.[0]?.content?.parts ?? [];
+      const text = parts.find((part) => part.text)?.text ?? "";
+      const toolCalls: LlmToolCall[] = parts
+        .filter((part) => part.functionCall?.name)
+        .map((part, index) => ({
+          id: part.functionCall!.id ?? `gemini-call-${index}`,
+          name: part.functionCall!.name!,
+          args: (part.functionCall!.args ?? {}) as Record<string, unknown>,
+        }));
+
+      return {
+        text,
+        toolCalls,
+        message: { role: "assistant", ...(text && { text }), toolCalls, providerData: parts },
+        model: GEMINI_MODEL,
+      };
+    },
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * llmOpenAiProvider.ts — LlmProvider adapter for any OpenAI-compatible
+ * /chat/completions endpoint (OpenAI, llama.cpp server, Ollama, vLLM, LM Studio).
+ *
+ * Env:
+ *   AGENT_LLM_OPENAI_BASE_URL  e.g. http://127.0.0.1:11434/v1 (Ollama) or http://127.0.0.1:8080/v1 (llama.cpp)
+ *   AGENT_LLM_OPENAI_API_KEY   optional bearer token (local servers usually ignore it)
+ *   AGENT_LLM_OPENAI_MODEL     model name passed through to the server
+ *   AGENT_LLM_OPENAI_TIMEOUT_MS request timeout (default 30s)
+ */
+
+import {
+  toJsonSchema,
+  toToolResponseObject,
+  type LlmChatRequest,
+  type LlmChatResponse,
+  type LlmMessage,
+  type LlmProvider,
+  type LlmToolCall,
+} from "./llmProvider.js";
+
+interface OpenAiToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAiMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAiChatCompletion {
+  model?: string;
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: OpenAiToolCall[];
+    };
+  }>;
+}
+
+export interface OpenAiCompatibleOptions {
+  id?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  timeoutMs?: number;
+}
+
+function toOpenAiMessages(system: string | undefined, messages: LlmMessage[]): OpenAiMessage[] {
+  const out: OpenAiMessage[] = [];
+  if (system) out.push({ role: "system", content: system });
+  for (const message of messages) {
+    if (message.role === "user") {
+      out.push({ role: "user", content: message.text });
+    } else if (message.role === "assistant") {
+      const toolCalls = message.toolCalls ?? [];
+      out.push({
+        role: "assistant",
+        content: message.text ?? null,
+        ...(toolCalls.length > 0 && {
+          tool_calls: toolCalls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: { name: call.name, arguments: JSON.stringify(call.args ?? {}) },
+          })),
+        }),
+      });
+    } else {
+      for (const result of message.results) {
+        out.push({
+          role: "tool",
+          tool_call_id: result.callId,
+          content: JSON.stringify(toToolResponseObject(result.response)),
+        });
+      }
+    }
+  }
+  return out;
+}
+
+function toOpenAiToolChoice(request: LlmChatRequest): unknown {
+  const choice = request.toolChoice;
+  if (!choice || choice === "auto") return undefined;
+  if (choice === "none") return "none";
+  if (choice.allowedTools?.length === 1) {
+    return { type: "function", function: { name: choice.allowedTools[0] } };
+  }
+  return "required";
+}
+
+function parseArguments(raw: string | undefined): Record<string, unknown> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    // Small local models occasionally emit malformed JSON — treat as no args.
+    return {};
+  }
+}
+
+export function createOpenAiCompatibleLlmProvider(options: OpenAiCompatibleOptions = {}): LlmProvider {
+  const baseUrl = () => (options.baseUrl ?? process.env.AGENT_LLM_OPENAI_BASE_URL ?? "").replace(/\/+$/, "");
+  const apiKey = () => options.apiKey ?? process.env.AGENT_LLM_OPENAI_API_KEY ?? "";
+  const model = options.model ?? process.env.AGENT_LLM_OPENAI_MODEL ?? "gpt-4o-mini";
+  const timeoutMs = options.timeoutMs
+    ?? Math.max(1_000, Number.parseInt(process.env.AGENT_LLM_OPENAI_TIMEOUT_MS ?? "30000", 10) || 30_000);
+
+  return {
+    id: options.id ?? "openai",
+    model,
+    isConfigured() {
+      return baseUrl().length > 0;
+    },
+    async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+      const url = baseUrl();
+      if (!url) throw new Error("AGENT_LLM_OPENAI_BASE_URL not configured");
+
+      const tools = (request.tools ?? []).map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          ...(tool.description && { description: tool.description }),
+          parameters: toJsonSchema(tool.parameters),
+        },
+      }));
+      const toolChoice = toOpenAiToolChoice(request);
+
+      const res = await fetch(`${url}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          ...(apiKey() && { authorization: `Bearer ${apiKey()}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: toOpenAiMessages(request.system, request.messages),
+          ...(tools.length > 0 && { tools }),
+          ...(toolChoice !== undefined && { tool_choice: toolChoice }),
+          ...(request.temperature != null && { temperature: request.temperature }),
+          ...(request.maxOutputTokens != null && { max_tokens: request.maxOutputTokens }),
+        }),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`OpenAI-compatible endpoint returned ${res.status}: ${body.slice(0, 200)}`);
+      }
+
+      const completion = await res.json() as OpenAiChatCompletion;
+      const choice = completion.choices?.[0]?.message;
+      const text = choice?.content ?? "";
+      const toolCalls: LlmToolCall[] = (choice?.tool_calls ?? []).map((call, index) => ({
+        id: call.id || `openai-call-${index}`,
+        name: call.function.name,
+        args: parseArguments(call.function.arguments),
+      }));
+
+      return {
+        text,
+        toolCalls,
+        message: { role: "assistant", ...(text && { text }), toolCalls },
+        model: completion.model ?? model,
+      };
+    },
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * llmProvider.ts — Provider-neutral tool-calling chat completion for agents.
+ *
+ * The supervisor and chat routes speak this interface instead of a vendor SDK.
+ * Built-in adapters:
+ *   - "gemini"  — @google/genai (Vertex AI or AI Studio), see geminiClient.ts
+ *   - "openai"  — any OpenAI-compatible /chat/completions endpoint
+ *                 (OpenAI, llama.cpp server, Ollama, vLLM, ...)
+ *   - "scripted" — deterministic fake that replays canned responses. Only
+ *                  registered with AGENT_LLM_SCRIPTED_PROVIDER=true (local
+ *                  dev); tests install their own via registerLlmProvider()
+ *
+ * Selection order: agent config `llmProvider` → AGENT_LLM_PROVIDER_<TIER>
+ * (e.g. AGENT_LLM_PROVIDER_SELF_HOSTED=openai) → AGENT_LLM_PROVIDER → "gemini".
+ */
+
+import type { AgentTier } from "./agentTiers.js";
+import { createGeminiLlmProvider } from "./llmGeminiProvider.js";
+import { createOpenAiCompatibleLlmProvider } from "./llmOpenAiProvider.js";
+import { createScriptedLlmProvider } from "./llmScriptedProvider.js";
+
+// ── Types ──────────────────────────────────────────────────────────────────
+
+/**
+ * JSON-Schema subset used for tool parameters. `type` may be written in either
+ * Gemini (`"OBJECT"`) or JSON Schema (`"object"`) casing — adapters normalize it.
+ */
+export interface LlmSchema {
+  type?: string;
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, LlmSchema>;
+  items?: LlmSchema;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+export interface LlmToolDeclaration {
+  name: string;
+  description?: string;
+  parameters?: LlmSchema;
+}
+
+export interface LlmToolCall {
+  /** Provider call ID (OpenAI) or a synthesized one — echoed back in tool results. */
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LlmToolResult {
+  callId: string;
+  name: string;
+  response: unknown;
+}
+
+export type LlmMessage =
+  | { role: "user"; text: string }
+  | {
+      role: "assistant";
+      text?: string;
+      toolCalls?: LlmToolCall[];
+      /** Opaque provider payload (e.g. Gemini parts with thought signatures) replayed verbatim when present. */
+      providerData?: unknown;
+    }
+  | { role: "tool"; results: LlmToolResult[] };
+
+export type LlmAssistantMessage = Extract<LlmMessage, { role: "assistant" }>;
+
+export type LlmToolChoice =
+  | "auto"
+  | "none"
+  /** Model must call a tool; optionally restricted to these names. */
+  | { mode: "required"; allowedTools?: string[] };
+
+export interface LlmChatRequest {
+  system?: string;
+  messages: LlmMessage[];
+  tools?: LlmToolDeclaration[];
+  toolChoice?: LlmToolChoice;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmChatResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+  /** Append this to `messages` to continue a multi-turn tool conversation. */
+  message: LlmAssistantMessage;
+  model: string;
+}
+
+export interface LlmProvider {
+  readonly id: string;
+  readonly model: string;
+  /** False when required credentials/endpoints are missing — callers should 503 or fall back. */
+  isConfigured(): boolean;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+}
+
+// ── Schema helpers ─────────────────────────────────────────────────────────
+
+/** Deep-copy a tool schema with every `type` lower-cased to JSON Schema form. */
+export function toJsonSchema(schema: LlmSchema | undefined): LlmSchema {
+  if (!schema) return { type: "object", properties: {} };
+  const out: LlmSchema = { ...schema };
+  if (typeof schema.type === "string") out.type = schema.type.toLowerCase();
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  return out;
+}
+
+/** Wrap non-object tool results so every provider gets a JSON object payload. */
+export function toToolResponseObject(response: unknown): Record<string, unknown> {
+  if (response != null && typeof response === "object" && !Array.isArray(response)) {
+    return response as Record<string, unknown>;
+  }
+  return { result: response ?? null };
+}
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+const providers = new Map<string, LlmProvider>();
+let builtinsRegistered = false;
+
+/** Never on by default: a scripted agent would answer players with canned replies. */
+function isScriptedProviderEnabled(): boolean {
+  return ["1", "true", "yes", "on"].includes((process.env.AGENT_LLM_SCRIPTED_PROVIDER ?? "").trim().toLowerCase());
+}
+
+function ensureBuiltins(): void {
+  if (builtinsRegistered) return;
+  builtinsRegistered = true;
+  for (const provider of [
+    createGeminiLlmProvider(),
+    createOpenAiCompatibleLlmProvider(),
+    ...(isScriptedProviderEnabled() ? [createScriptedLlmProvider({ id: "scripted", steps: [] })] : []),
+  ]) {
+    if (!providers.has(provider.id)) providers.set(provider.id, provider);
+  }
+}
+
+/** Register (or replace) a provider. Tests use this to install a scripted fake. */
+export function registerLlmProvider(provider: LlmProvider): void {
+  ensureBuiltins();
+  providers.set(provider.id, provider);
+}
+
+export function getLlmProvider(id: string): LlmProvider | undefined {
+  ensureBuiltins();
+  return providers.get(id.trim().toLowerCase());
+}
+
+export function listLlmProviders(): Array<{ id: string; model: string; configured: boolean }> {
+  ensureBuiltins();
+  return Array.from(providers.values()).map((provider) => ({
+    id: provider.id,
+    model: provider.model,
+    configured: provider.isConfigured(),
+  }));
+}
+
+function tierEnvKey(tier: AgentTier): string {
+  return `AGENT_LLM_PROVIDER_${tier.toUpperCase().replace(/-/g, "_")}`;
+}
+
+/**
+ * Resolve the provider for an agent. Unknown IDs fall through to the next
+ * source rather than failing, so a stale config never bricks an agent.
+ */
+export function resolveLlmProvider(options: { tier?: AgentTier; providerId?: string } = {}): LlmProvider {
+  ensureBuiltins();
+  const candidates = [
+    options.providerId,
+    options.tier ? process.env[tierEnvKey(options.tier)] : undefined,
+    process.env.AGENT_LLM_PROVIDER,
+  ];
+  for (const candidate of candidates) {
+    if (!candidate?.trim()) continue;
+    const provider = getLlmProvider(candidate);
+    if (provider) return provider;
+    console.warn(`[llm] Unknown provider "${candidate}" — falling back`);
+  }
+  return providers.get("gemini")!;
+}
@@ -0,0 +1,71 @@
+/**
+ * llmScriptedProvider.ts — Deterministic LlmProvider for offline tests.
+ *
+ * Each chat() call consumes the next scripted step. A step is either a fixed
+ * reply or a function of the request (so tests can answer based on tool
+ * results). Every request is recorded in `calls` for assertions. When the
+ * script runs out the provider replies with empty text and no tool calls,
+ * which exercises the callers' fallback paths.
+ */
+
+import type {
+  LlmChatRequest,
+  LlmChatResponse,
+  LlmProvider,
+  LlmToolCall,
+} from "./llmProvider.js";
+
+export interface ScriptedReply {
+  text?: string;
+  toolCalls?: Array<{ name: string; args?: Record<string, unknown> }>;
+  /** Simulate a provider failure on this step. */
+  error?: string;
+}
+
+export type ScriptedStep = ScriptedReply | ((request: LlmChatRequest, callIndex: number) => ScriptedReply);
+
+export interface ScriptedLlmProvider extends LlmProvider {
+  readonly calls: LlmChatRequest[];
+  /** Replace the remaining script and clear recorded calls. */
+  reset(steps?: ScriptedStep[]): void;
+}
+
+export function createScriptedLlmProvider(options: { id?: string; model?: string; steps?: ScriptedStep[] } = {}): ScriptedLlmProvider {
+  let steps = [...(options.steps ?? [])];
+  const calls: LlmChatRequest[] = [];
+  const model = options.model ?? "scripted";
+
+  return {
+    id: options.id ?? "scripted",
+    model,
+    calls,
+    isConfigured() {
+      return true;
+    },
+    reset(next: ScriptedStep[] = []) {
+      steps = [...next];
+      calls.length = 0;
+    },
+    async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+      // Snapshot the message list — callers keep appending to the same array.
+      calls.push({ ...request, messages: [...request.messages] });
+      const callIndex = calls.length - 1;
+      const step = steps.shift();
+      const reply = typeof step === "function" ? step(request, callIndex) : step ?? {};
+      if (reply.error) throw new Error(reply.error);
+
+      const text = reply.text ?? "";
+      const toolCalls: LlmToolCall[] = (reply.toolCalls ?? []).map((call, index) => ({
+        id: `scripted-${callIndex}-${index}`,
+        name: call.name,
+        args: call.args ?? {},
+      }));
+      return {
+        text,
+        toolCalls,
+        message: { role: "assistant", ...(text && { text }), toolCalls },
+        model,
+      };
+    },
+  };
+}
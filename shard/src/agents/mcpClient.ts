@@ -4,18 +4,18 @@
  * Connects to the WoG MCP server (port 3001), authenticates using the agent's
  * custodial wallet, discovers all tools, and proxies tool calls.
  *
- * Gemini gets the tools via `getGeminiTools()` which returns FunctionDeclarations
- * with `parametersJsonSchema` (raw JSON Schema passthrough from MCP).
+ * The LLM provider gets the tools via `getLlmTools()` which returns provider-neutral
+ * declarations carrying the raw JSON Schema from MCP.
  */
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { privateKeyToAccount } from "viem/accounts";
-import type { FunctionDeclaration } from "@google/genai";
+import type { LlmToolDeclaration } from "./llmProvider.js";
 
 const MCP_URL = process.env.MCP_URL ?? "http://localhost:3001/mcp";
 
-/** Parameters automatically injected from agent context — stripped from Gemini schemas. */
+/** Parameters automatically injected from agent context — stripped from LLM tool schemas. */
 const AUTO_INJECT_PARAMS = new Set([
   "sessionId",
   "entityId",
@@ -37,7 +37,7 @@ export interface McpCallContext {
   walletAddress?: string;
 }
 
-// Tools to hide from Gemini — managed internally or dangerous for agents
+// Tools to hide from the LLM — managed internally or dangerous for agents
 const HIDDEN_TOOLS = new Set([
   "auth_get_challenge",
   "auth_verify_signature",
@@ -73,7 +73,7 @@ const SUPERVISOR_TOOLS = new Set([
 ]);
 
 /** Chat allowlist — curated subset for user-facing chat. Keeps tool count low
- *  so Gemini responds fast and doesn't get confused by 60+ tools. */
+ *  so the LLM responds fast and doesn't get confused by 60+ tools. */
 const CHAT_TOOLS = new Set([
   "scan_zone",
   "get_my_status",
@@ -201,10 +201,10 @@ export class AgentMcpClient {
     console.log(`[mcp:${this.tag}] Discovered ${this.tools.length} tools`);
   }
 
-  // ── Gemini Integration ─────────────────────────────────────────────────────
+  // ── LLM Integration ────────────────────────────────────────────────────────
 
   /**
-   * Returns MCP tools as Gemini FunctionDeclarations.
+   * Returns MCP tools as provider-neutral LLM tool declarations.
    * Auto-injected params (sessionId, entityId, zoneId, walletAddress) are stripped
    * from schemas so the LLM doesn't need to provide them.
    *
@@ -212,8 +212,8 @@ export class AgentMcpClient {
    * @param supervisorOnly If true, only return the small set of read tools the supervisor needs.
    * @param chatOnly If true, only return the curated chat subset (~13 tools instead of ~60).
    */
-  getGeminiTools(includeBlocking = true, supervisorOnly = false, chatOnly = false): FunctionDeclaration[] {
-    const decls: FunctionDeclaration[] = [];
+  getLlmTools(includeBlocking = true, supervisorOnly = false, chatOnly = false): LlmToolDeclaration[] {
+    const decls: LlmToolDeclaration[] = [];
 
     for (const tool of this.tools) {
       if (HIDDEN_TOOLS.has(tool.name)) continue;
@@ -232,7 +232,7 @@ export class AgentMcpClient {
       schema.required = required.filter((r: string) => !AUTO_INJECT_PARAMS.has(r));
       if (schema.required.length === 0) delete schema.required;
 
-      // Gemini requires at least one property — add a dummy if empty
+      // Providers require a properties object even when the tool takes no args
       if (Object.keys(props).length === 0) {
         schema.properties = {};
       }
@@ -240,7 +240,7 @@ export class AgentMcpClient {
       decls.push({
         name: tool.name,
         description: tool.description,
-        parametersJsonSchema: schema,
+        parameters: schema,
       });
     }
 
@@ -730,6 +730,8 @@ cmd({
               specialEffect: bestInstance.bonusAffix.specialEffect,
             }
           : undefined,
+        affixes: bestInstance.affixes?.map((affix) => ({ ...affix })),
+        sockets: bestInstance.sockets?.map((gem) => (gem ? { ...gem } : null)),
       }),
     };
     recalculateEntityVitals(entity);
@@ -0,0 +1,187 @@
+/**
+ * API key lifecycle — issue, look up, enforce and revoke wallet API keys.
+ *
+ * Keys are stored hashed in Postgres (memory-only when DATABASE_URL is
+ * unset) and cached briefly here; a revoke on another shard takes effect
+ * once this shard's cache entry goes stale.
+ */
+
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { isPostgresConfigured } from "../db/postgres.js";
+import {
+  getApiKey,
+  insertApiKey,
+  listApiKeysForWallet,
+  revokeApiKeyRecord,
+  touchApiKey,
+} from "../db/apiKeyStore.js";
+import {
+  API_KEY_SCOPE_DESCRIPTIONS,
+  MAX_API_KEYS_PER_WALLET,
+  apiKeyHashMatches,
+  consumeApiKeyRate,
+  generateApiKey,
+  getRequiredScope,
+  parseApiKeyId,
+  resetApiKeyRate,
+  scopesAllow,
+  toPublicApiKey,
+  validateApiKeyInput,
+  type ApiKeyContext,
+  type ApiKeyRecord,
+} from "./apiKeys.js";
+import { authenticateRequest } from "./auth.js";
+
+const CACHE_TTL_MS = 30_000;
+const LAST_USED_WRITE_INTERVAL_MS = 60_000;
+
+const keyCache = new Map<string, { record: ApiKeyRecord; loadedAt: number }>();
+const lastUsedWrittenAt = new Map<string, number>();
+
+async function loadApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+  const cached = keyCache.get(keyId);
+  // Without Postgres the cache is the only copy, so it never goes stale
+  if (cached && (!isPostgresConfigured() || Date.now() - cached.loadedAt < CACHE_TTL_MS)) {
+    return cached.record;
+  }
+  const record = await getApiKey(keyId);
+  if (record) keyCache.set(keyId, { record, loadedAt: Date.now() });
+  else keyCache.delete(keyId);
+  return record;
+}
+
+async function listWalletKeys(walletAddress: string): Promise<ApiKeyRecord[]> {
+  if (isPostgresConfigured()) return listApiKeysForWallet(walletAddress);
+  const wallet = walletAddress.toLowerCase();
+  return Array.from(keyCache.values())
+    .map((entry) => entry.record)
+    .filter((record) => record.walletAddress === wallet)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+function recordKeyUse(record: ApiKeyRecord): void {
+  const now = Date.now();
+  record.lastUsedAt = now;
+  if (now - (lastUsedWrittenAt.get(record.keyId) ?? 0) < LAST_USED_WRITE_INTERVAL_MS) return;
+  lastUsedWrittenAt.set(record.keyId, now);
+  touchApiKey(record.keyId).catch((err) => {
+    console.warn(`[auth] Failed to record API key use for ${record.keyId}:`, err);
+  });
+}
+
+/**
+ * Authenticate a `wog_` bearer token: the key must exist, be live, carry
+ * the scope this route needs and be under its rate limit. On success the
+ * request gets the key's wallet and an `apiKey` context.
+ */
+export async function authenticateApiKey(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  token: string
+): Promise<void> {
+  const keyId = parseApiKeyId(token);
+  const record = keyId ? await loadApiKey(keyId) : null;
+  if (!record || !apiKeyHashMatches(token, record.keyHash)) {
+    reply.code(401).send({ error: "Invalid API key" });
+    return;
+  }
+  if (record.revokedAt !== null) {
+    reply.code(401).send({ error: "API key has been revoked" });
+    return;
+  }
+  if (record.expiresAt !== null && record.expiresAt <= Date.now()) {
+    reply.code(401).send({ error: "API key has expired" });
+    return;
+  }
+
+  const required = getRequiredScope(request.method, request.routeOptions.url ?? request.url);
+  if (!scopesAllow(record.scopes, required)) {
+    reply.code(403).send({
+      error: `API key lacks the "${required}" scope for this route`,
+      requiredScope: required,
+      keyScopes: record.scopes,
+    });
+    return;
+  }
+
+  const rate = consumeApiKeyRate(record.keyId, record.rateLimitPerMinute);
+  if (!rate.allowed) {
+    reply.header("retry-after", String(rate.retryAfterSec));
+    reply.code(429).send({ error: "API key rate limit exceeded", retryAfterSec: rate.retryAfterSec });
+    return;
+  }
+
+  recordKeyUse(record);
+  const context: ApiKeyContext = { keyId: record.keyId, name: record.name, scopes: record.scopes };
+  (request as any).walletAddress = record.walletAddress;
+  (request as any).apiKey = context;
+}
+
+export function registerApiKeyRoutes(server: FastifyInstance): void {
+  // GET /auth/keys — the caller's keys (never the secrets) and scope help
+  server.get("/auth/keys", {
+    preHandler: authenticateRequest,
+  }, async (request) => {
+    const walletAddress = (request as any).walletAddress as string;
+    const keys = await listWalletKeys(walletAddress);
+    return { walletAddress, keys: keys.map(toPublicApiKey), availableScopes: API_KEY_SCOPE_DESCRIPTIONS };
+  });
+
+  // POST /auth/keys — issue a key; the plaintext is returned exactly once
+  server.post("/auth/keys", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const walletAddress = ((request as any).walletAddress as string).toLowerCase();
+    const check = validateApiKeyInput(request.body);
+    if (!check.valid) {
+      return reply.code(400).send({ error: check.error });
+    }
+
+    const existing = await listWalletKeys(walletAddress);
+    const live = existing.filter((k) => k.revokedAt === null && (k.expiresAt === null || k.expiresAt > Date.now()));
+    if (live.length >= MAX_API_KEYS_PER_WALLET) {
+      return reply.code(409).send({ error: `A wallet can hold at most ${MAX_API_KEYS_PER_WALLET} live API keys` });
+    }
+
+    const { keyId, key, keyHash } = generateApiKey();
+    const record: ApiKeyRecord = {
+      keyId,
+      walletAddress,
+      name: check.name,
+      scopes: check.scopes,
+      keyHash,
+      rateLimitPerMinute: check.rateLimitPerMinute,
+      createdAt: Date.now(),
+      expiresAt: check.expiresAt,
+      revokedAt: null,
+      lastUsedAt: null,
+    };
+    await insertApiKey(record);
+    keyCache.set(keyId, { record, loadedAt: Date.now() });
+
+    server.log.info(`[auth] ${walletAddress} issued API key ${keyId} (${record.scopes.join(", ")})`);
+    return reply.code(201).send({
+      ...toPublicApiKey(record),
+      key,
+      warning: "Store this key now — it cannot be shown again.",
+    });
+  });
+
+  // POST /auth/keys/:keyId/revoke — immediately disable a key
+  server.post<{ Params: { keyId: string } }>("/auth/keys/:keyId/revoke", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const walletAddress = ((request as any).walletAddress as string).toLowerCase();
+    const record = await loadApiKey(request.params.keyId);
+    if (!record || record.walletAddress !== walletAddress) {
+      return reply.code(404).send({ error: "API key not found" });
+    }
+    if (record.revokedAt === null) {
+      await revokeApiKeyRecord(record.keyId);
+      record.revokedAt = Date.now();
+      resetApiKeyRate(record.keyId);
+      server.log.info(`[auth] ${walletAddress} revoked API key ${record.keyId}`);
+    }
+    return { ok: true, key: toPublicApiKey(record) };
+  });
+}
@@ -0,0 +1,203 @@
+/**
+ * API key scopes — what a named, revocable wallet key may do.
+ *
+ * Wallet JWTs from /auth/verify can do everything. API keys are meant for
+ * bots and third-party dashboards, so each carries a set of scopes and
+ * every authenticated route maps to the scope it needs. Unlisted writes
+ * require "admin", so a new route is closed to keys until it is classified.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+export const API_KEY_SCOPES = ["read", "combat", "trade", "agent_config", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  read: "Read-only access to authenticated GET routes",
+  combat: "In-world actions: move, fight, quest, gather, craft, party and chat",
+  trade: "Anything that moves gold or items between wallets: shops, auctions, trades, vaults, rentals, bets",
+  agent_config: "Deploy, stop and configure the wallet's AI agent, inbox and notifications",
+  admin: "Everything a wallet login can do, including managing API keys",
+};
+
+/** Every key starts with this, so tokens are told apart from JWTs. */
+export const API_KEY_PREFIX = "wog_";
+export const MAX_API_KEYS_PER_WALLET = 20;
+export const MAX_API_KEY_RATE_LIMIT = 6000;
+
+export interface ApiKeyRecord {
+  keyId: string;
+  walletAddress: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  keyHash: string;
+  /** Requests per minute; null means unlimited. */
+  rateLimitPerMinute: number | null;
+  createdAt: number;
+  expiresAt: number | null;
+  revokedAt: number | null;
+  lastUsedAt: number | null;
+}
+
+/** What routes see on `request.apiKey` when a key authenticated the call. */
+export interface ApiKeyContext {
+  keyId: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === "string" && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+export function isApiKeyToken(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// ── Route classification ────────────────────────────────────────────
+// First match wins; patterns match the registered route URL, so `:params`
+// appear literally. GET and HEAD need only "read" (key management aside).
+
+const ROUTE_SCOPES: Array<[RegExp, ApiKeyScope]> = [
+  [/^\/(admin|auth)(\/|$)/, "admin"],
+  [/^\/api\/agents\/[^/]+\/reputation(\/|$)/, "admin"],
+
+  // Guild creation charges a fee and deposit; proposals and votes can withdraw the treasury;
+  // rank edits and assignments can grant vault withdraw and lend rights
+  [/^\/guild\/create$/, "trade"],
+  [/^\/guild\/[^/]+\/(vault|deposit|propose|vote|ranks|members\/rank)(\/|$)/, "trade"],
+  [/^\/(shop|auctionhouse|marketplace|trade|gold|rentals|plots|name|items)(\/|$)/, "trade"],
+  [/^\/api\/(prediction|x402)(\/|$)/, "trade"],
+
+  [/^\/(agent|inbox|a2a|notifications)(\/|$)/, "agent_config"],
+
+  [/^\/api\/pvp(\/|$)/, "combat"],
+  [
+    /^\/(command|spawn|transition|techniques|essence-technique|quests|quest-arcs|story|npc|dungeon|party|friends|chat|equipment|guild|character|logout|wallet|building|farming|professions|crafting|alchemy|cooking|enchanting|herbalism|mining|skinning|leatherworking|jewelcrafting)(\/|$)/,
+    "combat",
+  ],
+];
+
+export function getRequiredScope(method: string, routeUrl: string): ApiKeyScope {
+  // Listing keys reveals names and scopes, so even reads need admin
+  if (/^\/auth\/keys(\/|$)/.test(routeUrl)) return "admin";
+  const upper = method.toUpperCase();
+  if (upper === "GET" || upper === "HEAD") return "read";
+  for (const [pattern, scope] of ROUTE_SCOPES) {
+    if (pattern.test(routeUrl)) return scope;
+  }
+  return "admin";
+}
+
+/** "admin" grants everything; any other scope also implies "read". */
+export function scopesAllow(scopes: readonly ApiKeyScope[], required: ApiKeyScope): boolean {
+  if (scopes.includes("admin")) return true;
+  if (required === "read") return scopes.length > 0;
+  return scopes.includes(required);
+}
+
+// ── Key material ────────────────────────────────────────────────────
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): { keyId: string; key: string; keyHash: string } {
+  const keyId = randomBytes(6).toString("hex");
+  const key = `${API_KEY_PREFIX}${keyId}_${randomBytes(24).toString("base64url")}`;
+  return { keyId, key, keyHash: hashApiKey(key) };
+}
+
+/** The key id embedded in a token, or null if the token is malformed. */
+export function parseApiKeyId(token: string): string | null {
+  const match = /^wog_([0-9a-f]{12})_[A-Za-z0-9_-]{32}$/.exec(token);
+  return match ? match[1] : null;
+}
+
+export function apiKeyHashMatches(token: string, keyHash: string): boolean {
+  const actual = Buffer.from(hashApiKey(token), "hex");
+  const expected = Buffer.from(keyHash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function validateApiKeyInput(raw: unknown, now = Date.now()):
+  | { valid: true; name: string; scopes: ApiKeyScope[]; rateLimitPerMinute: number | null; expiresAt: number | null }
+  | { valid: false; error: string } {
+  if (!raw || typeof raw !== "object") return { valid: false, error: "Request body is required" };
+  const input = raw as Record<string, unknown>;
+
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name || name.length > 64) return { valid: false, error: "name must be 1-64 characters" };
+
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return { valid: false, error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(", ")}` };
+  }
+  const invalid = input.scopes.find((s) => !isApiKeyScope(s));
+  if (invalid !== undefined) {
+    return { valid: false, error: `Unknown scope "${String(invalid)}". Use: ${API_KEY_SCOPES.join(", ")}` };
+  }
+  const scopes = Array.from(new Set(input.scopes as ApiKeyScope[]));
+
+  let rateLimitPerMinute: number | null = null;
+  if (input.rateLimitPerMinute != null) {
+    const limit = Number(input.rateLimitPerMinute);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_API_KEY_RATE_LIMIT) {
+      return { valid: false, error: `rateLimitPerMinute must be an integer from 1 to ${MAX_API_KEY_RATE_LIMIT}` };
+    }
+    rateLimitPerMinute = limit;
+  }
+
+  let expiresAt: number | null = null;
+  if (input.expiresAt != null) {
+    expiresAt = Date.parse(String(input.expiresAt));
+    if (!Number.isFinite(expiresAt)) return { valid: false, error: "expiresAt must be an ISO date" };
+  } else if (input.expiresInDays != null) {
+    const days = Number(input.expiresInDays);
+    if (!Number.isFinite(days) || days <= 0) return { valid: false, error: "expiresInDays must be positive" };
+    expiresAt = now + days * 24 * 60 * 60 * 1000;
+  }
+  if (expiresAt !== null && expiresAt <= now) return { valid: false, error: "Expiry must be in the future" };
+
+  return { valid: true, name, scopes, rateLimitPerMinute, expiresAt };
+}
+
+// ── Rate limiting ───────────────────────────────────────────────────
+
+const RATE_WINDOW_MS = 60_000;
+const rateWindows = new Map<string, { windowStart: number; count: number }>();
+
+/** Fixed one-minute window per key. Returns seconds to wait when over. */
+export function consumeApiKeyRate(
+  keyId: string,
+  limitPerMinute: number | null,
+  now = Date.now(),
+): { allowed: true } | { allowed: false; retryAfterSec: number } {
+  if (limitPerMinute === null) return { allowed: true };
+  let window = rateWindows.get(keyId);
+  if (!window || now - window.windowStart >= RATE_WINDOW_MS) {
+    window = { windowStart: now, count: 0 };
+    rateWindows.set(keyId, window);
+  }
+  if (window.count >= limitPerMinute) {
+    return { allowed: false, retryAfterSec: Math.ceil((window.windowStart + RATE_WINDOW_MS - now) / 1000) };
+  }
+  window.count++;
+  return { allowed: true };
+}
+
+export function resetApiKeyRate(keyId: string): void {
+  rateWindows.delete(keyId);
+}
+
+export function toPublicApiKey(record: ApiKeyRecord) {
+  return {
+    keyId: record.keyId,
+    name: record.name,
+    scopes: record.scopes,
+    rateLimitPerMinute: record.rateLimitPerMinute,
+    createdAt: record.createdAt,
+    expiresAt: record.expiresAt,
+    revokedAt: record.revokedAt,
+    lastUsedAt: record.lastUsedAt,
+  };
+}
@@ -1,6 +1,8 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from "fastify";
 import jwt from "jsonwebtoken";
 import { verifyMessage } from "viem";
+import { isApiKeyToken } from "./apiKeys.js";
+import { authenticateApiKey } from "./apiKeyService.js";
 
 if (!process.env.JWT_SECRET) {
   throw new Error("JWT_SECRET environment variable is required");
@@ -99,7 +101,8 @@ export async function verifyWalletSignature(
 
 /**
  * Fastify authentication middleware
- * Checks for Bearer token in Authorization header
+ * Checks for Bearer token in Authorization header — either a wallet JWT
+ * (full access) or a scoped `wog_` API key
  */
 export async function authenticateRequest(
   request: FastifyRequest,
@@ -113,6 +116,11 @@ export async function authenticateRequest(
   }
 
   const token = authHeader.substring(7); // Remove "Bearer " prefix
+  if (isApiKeyToken(token)) {
+    await authenticateApiKey(request, reply, token);
+    return;
+  }
+
   const walletAddress = verifyAuthToken(token);
 
   if (!walletAddress) {
@@ -231,10 +239,12 @@ export function registerAuthRoutes(server: FastifyInstance): void {
     preHandler: authenticateRequest,
   }, async (req, reply) => {
     const walletAddress = (req as any).walletAddress;
+    const apiKey = (req as any).apiKey;
 
     return reply.send({
       valid: true,
       walletAddress,
+      ...(apiKey && { apiKey }),
     });
   });
 
@@ -8,7 +8,7 @@ import {
   type ChainOperationRecord,
 } from "./chainOperationStore.js";
 
-const TRADE_CONTRACT_ADDRESS = process.env.TRADE_CONTRACT_ADDRESS!;
+const TRADE_CONTRACT_ADDRESS = process.env.TRADE_CONTRACT_ADDRESS;
 
 /** WoGTrade ABI — only the functions/events we interact with at runtime. */
 const TRADE_ABI = [
@@ -23,11 +23,18 @@ const TRADE_ABI = [
   "event TradeCancelled(uint256 indexed tradeId)",
 ];
 
-const tradeContract = new ethers.Contract(
-  TRADE_CONTRACT_ADDRESS,
-  TRADE_ABI,
-  biteWallet
-);
+const tradeContract = TRADE_CONTRACT_ADDRESS
+  ? new ethers.Contract(TRADE_CONTRACT_ADDRESS, TRADE_ABI, biteWallet)
+  : null;
+
+if (!TRADE_CONTRACT_ADDRESS) {
+  console.warn("[trade] TRADE_CONTRACT_ADDRESS not set — encrypted trades disabled");
+}
+
+function ensureTradeContract(): ethers.Contract {
+  if (!tradeContract) throw new Error("Trade contract not initialized");
+  return tradeContract;
+}
 
 // -- Encryption helpers --
 
@@ -75,9 +82,10 @@ export async function createTradeOnChain(
 
 async function processTradeCreate(record: ChainOperationRecord): Promise<{ result: { tradeId: number; txHash: string }; txHash: string }> {
   const payload = JSON.parse(record.payload) as { encryptedAskPrice: string; tokenId: number; quantity: number; seller: string };
+  const contract = ensureTradeContract();
   return traceTx("trade-create", "createTradeOnChain", { tokenId: payload.tokenId, quantity: payload.quantity, seller: payload.seller }, "bite", async () => {
     const receipt = await queueBiteTransaction(`trade-create:${payload.seller}:${payload.tokenId}`, async () => {
-      const tx = await tradeContract.createTrade(
+      const tx = await contract.createTrade(
         payload.encryptedAskPrice,
         payload.tokenId,
         payload.quantity,
@@ -88,7 +96,7 @@ async function processTradeCreate(record: ChainOperationRecord): Promise<{ resul
 
     for (const log of receipt.logs) {
       try {
-        const parsed = tradeContract.interface.parseLog(log);
+        const parsed = contract.interface.parseLog(log);
         if (parsed?.name === "TradeCreated") {
           return {
             result: {
@@ -128,7 +136,7 @@ async function processTradeOffer(record: ChainOperationRecord): Promise<{ result
   const payload = JSON.parse(record.payload) as { tradeId: number; encryptedBidPrice: string; buyer: string };
   return traceTx("trade-offer", "submitOfferOnChain", { tradeId: payload.tradeId, buyer: payload.buyer }, "bite", async () => {
     const receipt = await queueBiteTransaction(`trade-offer:${payload.tradeId}:${payload.buyer}`, async () => {
-      const tx = await tradeContract.submitOffer(
+      const tx = await ensureTradeContract().submitOffer(
         payload.tradeId,
         payload.encryptedBidPrice,
         payload.buyer,
@@ -171,7 +179,7 @@ async function processTradeCancel(record: ChainOperationRecord): Promise<{ resul
   const payload = JSON.parse(record.payload) as { tradeId: number };
   return traceTx("trade-cancel", "cancelTradeOnChain", { tradeId: payload.tradeId }, "bite", async () => {
     const receipt = await queueBiteTransaction(`trade-cancel:${payload.tradeId}`, async () => {
-      const tx = await tradeContract.cancelTrade(payload.tradeId);
+      const tx = await ensureTradeContract().cancelTrade(payload.tradeId);
       return tx.wait();
     });
     return { result: receipt.hash, txHash: receipt.hash };
@@ -183,7 +191,7 @@ registerChainOperationProcessor("trade-cancel", processTradeCancel);
 /** Read trade details from the contract. */
 export async function getTradeFromChain(tradeId: number): Promise<TradeResult> {
   const [seller, buyer, tokenId, quantity, status, askPrice, bidPrice, matched] =
-    await tradeContract.getTrade(tradeId);
+    await ensureTradeContract().getTrade(tradeId);
 
   return {
     tradeId,
@@ -200,5 +208,5 @@ export async function getTradeFromChain(tradeId: number): Promise<TradeResult> {
 
 /** Get the next trade ID (total number of trades created). */
 export async function getNextTradeId(): Promise<number> {
-  return Number(await tradeContract.nextTradeId());
+  return Number(await ensureTradeContract().nextTradeId());
 }
@@ -54,7 +54,8 @@ import { getNFT } from "thirdweb/extensions/erc721";
 
 const TRUE_VALUES = new Set(["1", "true", "yes", "on"]);
 const DEV_ENABLED = TRUE_VALUES.has((process.env.DEV ?? "").trim().toLowerCase());
-const INLINE_TEST_METADATA = DEV_ENABLED;
+// Nothing to pin metadata to without a network: inline it for local chains
+const INLINE_TEST_METADATA = DEV_ENABLED || (process.env.CHAIN_MODE ?? "").trim().toLowerCase() === "memory";
 
 // =============================================================================
 //  Balance Cache — avoids redundant RPC reads (TTL-based eviction)
@@ -358,7 +359,7 @@ async function ensureItemTokenIdExists(targetChainTokenId: bigint): Promise<void
           contract: itemsContract,
           to: serverAccount.address,
           supply: 1n,
-          nft: DEV_ENABLED ? toInlineMetadataUri(nftMetadata) : nftMetadata,
+          nft: INLINE_TEST_METADATA ? toInlineMetadataUri(nftMetadata) : nftMetadata,
         });
         return sendTransactionWithManagedGas(tx, serverAccount);
       });
@@ -1121,6 +1122,16 @@ async function processIdentityRegistrationPayload(
         console.warn(`[identity] Failed to submit metadata update for agent #${agentId}: ${(err as Error).message?.slice(0, 120)}`);
       }
 
+      // Validation requests must come from the identity's owner: file them while the server still is.
+      if (payload.validationTags?.length) {
+        try {
+          const { recordIdentityClaims } = await import("../erc8004/achievementClaims.js");
+          await recordIdentityClaims(agentId, payload.validationTags);
+        } catch (err) {
+          console.warn(`[identity] Failed to publish validation claims for agent #${agentId}: ${(err as Error).message?.slice(0, 120)}`);
+        }
+      }
+
       if (payload.ownerAddress.toLowerCase() !== serverAddress.toLowerCase()) {
         try {
           await submitIdentityTransfer(agentId);
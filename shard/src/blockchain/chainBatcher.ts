@@ -35,6 +35,7 @@ import {
 import { isPostgresConfigured } from "../db/postgres.js";
 import { getChainReceiptStatus } from "./chainReceipt.js";
 import { addWalletGold, addWalletItem } from "../db/walletBalanceStore.js";
+import { histogram } from "../observability/metrics.js";
 
 // ── Configuration ──────────────────────────────────────────────────────────
 
@@ -55,6 +56,13 @@ const CHAIN_BATCHER_SUBMITTED_RECOVERY_MS = Math.max(
   Number.parseInt(process.env.CHAIN_BATCHER_SUBMITTED_RECOVERY_MS ?? "120000", 10) || 120_000
 );
 
+const flushSize = histogram(
+  "wog_chain_batcher_flush_size",
+  "Intents (Postgres) or wallets (memory) handled per batcher flush",
+  ["kind"],
+  [1, 2, 5, 10, 25, 50, 100, 250]
+);
+
 // ── State ──────────────────────────────────────────────────────────────────
 
 /** Per-wallet accumulated item mints: wallet → tokenId → quantity */
@@ -342,6 +350,7 @@ async function flushAllItems(): Promise<void> {
     const intents = await listDueChainIntents(ITEM_INTENT_TYPE);
     if (intents.length === 0) return;
     console.log(`[chainBatcher] flushing items for ${intents.length} intent(s)`);
+    flushSize.observe({ kind: "items" }, intents.length);
     for (const intent of intents) {
       await flushItemIntent(intent);
     }
@@ -352,6 +361,7 @@ async function flushAllItems(): Promise<void> {
   if (wallets.length === 0) return;
 
   console.log(`[chainBatcher] flushing items for ${wallets.length} wallet(s)`);
+  flushSize.observe({ kind: "items" }, wallets.length);
   // Process sequentially to avoid nonce collisions on the server wallet
   for (const wallet of wallets) {
     await flushItemsForWallet(wallet);
@@ -376,6 +386,7 @@ async function flushAllGold(): Promise<void> {
     const intents = await listDueChainIntents(GOLD_INTENT_TYPE);
     if (intents.length === 0) return;
     console.log(`[chainBatcher] flushing gold for ${intents.length} intent(s)`);
+    flushSize.observe({ kind: "gold" }, intents.length);
     for (const intent of intents) {
       await flushGoldIntent(intent);
     }
@@ -386,6 +397,7 @@ async function flushAllGold(): Promise<void> {
   if (wallets.length === 0) return;
 
   console.log(`[chainBatcher] flushing gold for ${wallets.length} wallet(s)`);
+  flushSize.observe({ kind: "gold" }, wallets.length);
   for (const wallet of wallets) {
     await flushGoldForWallet(wallet);
   }
@@ -2,6 +2,7 @@ import { randomUUID } from "crypto";
 import { getRedis, isMemoryFallbackAllowed, assertRedisAvailable } from "../redis.js";
 import { isPostgresConfigured, postgresQuery, withPostgresClient } from "../db/postgres.js";
 import { classifyTxFailure } from "./txTracer.js";
+import { traceChainIntent } from "../observability/chainIntentSpans.js";
 
 export type ChainIntentStatus =
   | "pending"
@@ -307,11 +308,13 @@ export async function createChainIntent(input: {
         intent.updatedAt,
       ]
     );
+    traceChainIntent(intent);
     return intent;
   }
 
   memoryIntents.set(intent.intentId, intent);
   memoryAggregate.set(`${intent.type}:${intent.aggregateKey}`, intent.intentId);
+  traceChainIntent(intent);
   return intent;
 }
 
@@ -328,7 +331,7 @@ export async function upsertAggregatedChainIntent(input: {
     for (let attemptIndex = 0; attemptIndex < 3; attemptIndex++) {
       const now = Date.now();
       try {
-        return await withPostgresClient(async (client) => {
+        const intent = await withPostgresClient(async (client) => {
           await client.query("begin");
           try {
             const { rows } = await client.query<ChainIntentRow>(
@@ -463,6 +466,8 @@ export async function upsertAggregatedChainIntent(input: {
             throw err;
           }
         });
+        traceChainIntent(intent);
+        return intent;
       } catch (err) {
         const message = formatChainError(err, 200);
         const isUniqueConflict = message.includes("idx_chain_write_intents_active_aggregate")
@@ -493,6 +498,7 @@ export async function upsertAggregatedChainIntent(input: {
       updatedAt: now,
     };
     memoryIntents.set(existing.intentId, updated);
+    traceChainIntent(updated);
     return updated;
   }
   const created: ChainWriteIntentRecord = {
@@ -511,6 +517,7 @@ export async function upsertAggregatedChainIntent(input: {
   };
   memoryIntents.set(created.intentId, created);
   memoryAggregate.set(aggregateLookup, created.intentId);
+  traceChainIntent(created);
   return created;
 }
 
@@ -714,6 +721,7 @@ export async function updateChainIntent(
     if (updated.status !== "processing") memoryClaims.delete(intentId);
     memoryAggregate.set(`${updated.type}:${updated.aggregateKey}`, intentId);
   }
+  traceChainIntent(updated);
   return updated;
 }
 
@@ -970,6 +978,29 @@ export async function getChainIntentStats(types?: string[]): Promise<Record<stri
   return output;
 }
 
+/** Intent counts per type and exact status, for the queue depth gauge. */
+export async function countChainIntentsByStatus(): Promise<Array<{ type: string; status: ChainIntentStatus; count: number }>> {
+  if (shouldUsePostgres()) {
+    const { rows } = await postgresQuery<{ type: string; status: ChainIntentStatus; count: string }>(
+      `
+        select type, status, count(*)::text as count
+        from game.chain_write_intents
+        group by type, status
+      `
+    );
+    return rows.map((row) => ({ type: row.type, status: row.status, count: Number(row.count) || 0 }));
+  }
+
+  const counts = new Map<string, { type: string; status: ChainIntentStatus; count: number }>();
+  for (const row of memoryIntents.values()) {
+    const key = `${row.type}:${row.status}`;
+    const entry = counts.get(key) ?? { type: row.type, status: row.status, count: 0 };
+    entry.count += 1;
+    counts.set(key, entry);
+  }
+  return [...counts.values()];
+}
+
 export async function listChainIntents(filters?: {
   type?: string;
   walletAddress?: string;
@@ -1,3 +1,4 @@
+import "../config/devLocalContracts.js";
 import { ethers } from "ethers";
 
 const receiptProvider = new ethers.JsonRpcProvider(
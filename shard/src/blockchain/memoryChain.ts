@@ -0,0 +1,731 @@
+/**
+ * In-process memory chain for CHAIN_MODE=memory.
+ *
+ * A JSON-RPC endpoint on 127.0.0.1 that speaks enough of the Ethereum API
+ * for thirdweb and ethers (signed raw transactions, receipts, logs, fee
+ * data) and runs the game contracts in memory (memoryChainContracts.ts).
+ * devLocalContracts.ts starts it and points SKALE_BASE_RPC_URL at it, so
+ * blockchain.ts, wallet.ts, goldLedger.ts, the auction/guild/name/reputation
+ * chain modules, chainBatcher and the recovery tests run unchanged with no
+ * Hardhat node or SKALE RPC.
+ *
+ * Like Hardhat it automines: one transaction per block, mined on
+ * submission. Transaction hashes are the real signed-transaction hashes, so
+ * the same sequence of writes from a fresh process produces the same
+ * hashes; block hashes derive from them. Block timestamps follow the wall
+ * clock (auctions and guild votes compare against it). State lives only as
+ * long as the process, and each process has its own chain — do not combine
+ * with ZONE_SHARD_WORKERS.
+ *
+ * Failures can be injected per transaction (CHAIN_MEMORY_FAILURES or
+ * injectFailure()):
+ *   sfuel   — submission rejected with "insufficient funds for gas"
+ *   revert  — mined with status 0, no state change
+ *   timeout — accepted, but held back from mining (no receipt, nonce
+ *             unused) for CHAIN_MEMORY_TIMEOUT_MS, then mined
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import {
+  deployMemoryContracts,
+  isRevert,
+  type CallContext,
+  type MemoryChainContractKey,
+  type MemoryContract,
+} from "./memoryChainContracts.js";
+
+export type MemoryChainFailureKind = "sfuel" | "revert" | "timeout";
+
+export interface MemoryChainFailureRule {
+  kind: MemoryChainFailureKind;
+  /** Function name, contract address or sender address; omitted matches every transaction. */
+  match?: string;
+  /** How many matching transactions fail; omitted means all of them. */
+  times?: number;
+}
+
+export interface MemoryChainOptions {
+  chainId: number;
+  /** Deployer of every contract and the only funded account at genesis. */
+  ownerPrivateKey: string;
+  addresses: Record<MemoryChainContractKey, string>;
+  failures?: MemoryChainFailureRule[];
+  /** How long a "timeout" transaction is held before it mines. */
+  timeoutMs?: number;
+}
+
+export interface MemoryChain {
+  readonly chainId: number;
+  readonly owner: string;
+  /** Handle one JSON-RPC call. Throws an error carrying `rpcCode` on failure. */
+  request(method: string, params: unknown[]): unknown;
+  injectFailure(rule: MemoryChainFailureRule): void;
+  clearFailures(): void;
+  setBalance(address: string, wei: bigint): void;
+  blockNumber(): number;
+  /** Cancel pending "timeout" timers. */
+  close(): void;
+}
+
+const FAILURE_KINDS = new Set<MemoryChainFailureKind>(["sfuel", "revert", "timeout"]);
+const GAS_PRICE = 100_000n;
+/** Non-zero like Hardhat's: ethers and feePolicy.ts read a zero tip as "no EIP-1559". */
+const PRIORITY_FEE = 1_000n;
+const BLOCK_GAS_LIMIT = 30_000_000n;
+const TX_GAS = 21_000n;
+const CONTRACT_CALL_GAS = 60_000n;
+const GENESIS_BALANCE = ethers.parseEther("1000000");
+const DEFAULT_TIMEOUT_MS = 90_000;
+const EMPTY_BLOOM = `0x${"00".repeat(256)}`;
+const EMPTY_UNCLES_HASH = "0x1dcc4de8dec75d7aab85b567b6ccd41ad312451b948a7413f0a142fd40d49347";
+const q = ethers.toQuantity;
+
+/**
+ * Parse CHAIN_MEMORY_FAILURES: comma-separated `kind[:match][*times]`, e.g.
+ *   revert:mintTo*1,sfuel:0x70997970c51812dc3a010c7d01b50e0d17dc79c8,timeout:burn*2
+ * Throws on unknown kinds so a typo does not silently disable a test.
+ */
+export function parseMemoryChainFailures(raw: string | undefined): MemoryChainFailureRule[] {
+  const rules: MemoryChainFailureRule[] = [];
+  for (const part of (raw ?? "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [spec, timesRaw] = part.split("*").map((s) => s.trim());
+    const [kind, match] = spec.split(":").map((s) => s.trim());
+    if (!FAILURE_KINDS.has(kind as MemoryChainFailureKind)) {
+      throw new Error(`[memory-chain] Unknown failure kind in "${part}" (expected sfuel, revert or timeout)`);
+    }
+    const times = timesRaw === undefined ? undefined : Number(timesRaw);
+    if (times !== undefined && (!Number.isInteger(times) || times <= 0)) {
+      throw new Error(`[memory-chain] Invalid repeat count in "${part}"`);
+    }
+    rules.push({
+      kind: kind as MemoryChainFailureKind,
+      ...(match && { match: match.toLowerCase() }),
+      ...(times !== undefined && { times }),
+    });
+  }
+  return rules;
+}
+
+function rpcError(code: number, message: string, data?: string): Error {
+  return Object.assign(new Error(message), { rpcCode: code, rpcData: data });
+}
+
+function revertError(err: Error & { revertData: string }): Error {
+  return rpcError(3, `execution reverted: ${err.message}`, err.revertData);
+}
+
+interface Account {
+  balance: bigint;
+  nonce: number;
+}
+
+interface PooledTx {
+  tx: ethers.Transaction;
+  from: string;
+  forceRevert: boolean;
+  /** Held by a "timeout" failure until this time; 0 once released. */
+  heldUntil: number;
+}
+
+interface MinedTx {
+  tx: ethers.Transaction;
+  from: string;
+  blockNumber: number;
+  effectiveGasPrice: bigint;
+  receipt: Record<string, unknown>;
+}
+
+interface Block {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  txHashes: string[];
+  gasUsed: bigint;
+}
+
+interface Log {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionHash: string;
+  transactionIndex: string;
+  logIndex: string;
+  removed: false;
+}
+
+function lower(value: unknown): string {
+  return String(value ?? "").toLowerCase();
+}
+
+function intrinsicGas(data: string, isContract: boolean): bigint {
+  let gas = TX_GAS + (isContract ? CONTRACT_CALL_GAS : 0n);
+  for (const byte of ethers.getBytes(data || "0x")) gas += byte === 0 ? 4n : 16n;
+  return gas;
+}
+
+function parseBlockTag(tag: unknown, head: number): number {
+  if (tag === undefined || tag === null || tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") {
+    return head;
+  }
+  if (tag === "earliest") return 0;
+  return Number(BigInt(String(tag)));
+}
+
+export function createMemoryChain(options: MemoryChainOptions): MemoryChain {
+  const chainId = options.chainId;
+  const owner = new ethers.Wallet(options.ownerPrivateKey).address;
+  const contracts = deployMemoryContracts(owner, options.addresses);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const failures: MemoryChainFailureRule[] = (options.failures ?? []).map((rule) => ({ ...rule }));
+
+  const accounts = new Map<string, Account>([[lower(owner), { balance: GENESIS_BALANCE, nonce: 0 }]]);
+  const pool = new Map<string, Map<number, PooledTx>>();
+  const mined = new Map<string, MinedTx>();
+  const logs: Log[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  const genesis: Block = {
+    number: 0,
+    hash: ethers.keccak256(ethers.toUtf8Bytes(`wog-memory-chain:${chainId}`)),
+    parentHash: ethers.ZeroHash,
+    timestamp: Math.floor(Date.now() / 1000),
+    txHashes: [],
+    gasUsed: 0n,
+  };
+  const blocks: Block[] = [genesis];
+
+  const head = () => blocks[blocks.length - 1];
+  const account = (address: string): Account => {
+    const key = lower(address);
+    let entry = accounts.get(key);
+    if (!entry) {
+      entry = { balance: 0n, nonce: 0 };
+      accounts.set(key, entry);
+    }
+    return entry;
+  };
+
+  // ── Execution ───────────────────────────────────────────────────────
+
+  function view(address: string, fn: string, args: unknown[], caller: string, timestamp: number): ethers.Result {
+    const contract = contracts.get(lower(address));
+    if (!contract) throw Object.assign(new Error("call to non-contract"), { revertData: "0x" });
+    const output = contract.invoke(contract.iface.encodeFunctionData(fn, args), context(address, caller, timestamp, []));
+    return contract.iface.decodeFunctionResult(fn, output);
+  }
+
+  function context(address: string, sender: string, timestamp: number, emitted: Array<{ address: string; topics: string[]; data: string }>): CallContext {
+    const contract = contracts.get(lower(address))!;
+    return {
+      address: lower(address),
+      sender: lower(sender),
+      timestamp: BigInt(timestamp),
+      chainId: BigInt(chainId),
+      emit: (event, args) => {
+        const { topics, data } = contract.iface.encodeEventLog(event, args);
+        emitted.push({ address: ethers.getAddress(address), topics, data });
+      },
+      view: (other, fn, args) => view(other, fn, args, address, timestamp),
+    };
+  }
+
+  function isReadOnly(contract: MemoryContract, data: string): boolean {
+    try {
+      return contract.iface.getFunction(ethers.dataSlice(data, 0, 4))?.constant ?? false;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run a call against current state. With `commit` false any writes are
+   * rolled back (eth_call, eth_estimateGas). Throws a revert error.
+   */
+  function execute(from: string, to: string | null, data: string, value: bigint, timestamp: number, commit: boolean) {
+    const emitted: Array<{ address: string; topics: string[]; data: string }> = [];
+    if (!to) {
+      throw Object.assign(new Error("contract deployment is not supported on the memory chain"), { revertData: "0x" });
+    }
+    const contract = contracts.get(lower(to));
+    if (!contract) return { output: "0x", emitted };
+    if (value > 0n) throw Object.assign(new Error("non-payable function"), { revertData: "0x" });
+    const snapshot = isReadOnly(contract, data) ? null : contract.snapshot();
+    try {
+      const output = contract.invoke(data, context(to, from, timestamp, emitted));
+      if (!commit && snapshot !== null) contract.restore(snapshot);
+      return { output, emitted };
+    } catch (err) {
+      if (snapshot !== null) contract.restore(snapshot);
+      if (isRevert(err)) throw err;
+      throw Object.assign(new Error(String((err as Error)?.message ?? err)), { revertData: "0x" });
+    }
+  }
+
+  // ── Failure injection ───────────────────────────────────────────────
+
+  function takeFailure(tx: ethers.Transaction, from: string): MemoryChainFailureKind | null {
+    const contract = tx.to ? contracts.get(lower(tx.to)) : undefined;
+    let fnName = "";
+    if (contract) {
+      try {
+        fnName = lower(contract.iface.getFunction(ethers.dataSlice(tx.data, 0, 4))?.name);
+      } catch {
+        fnName = "";
+      }
+    }
+    for (const rule of failures) {
+      if (rule.times === 0) continue;
+      if (rule.match && rule.match !== fnName && rule.match !== lower(tx.to) && rule.match !== from) continue;
+      if (rule.times !== undefined) rule.times -= 1;
+      return rule.kind;
+    }
+    return null;
+  }
+
+  // ── Mining ──────────────────────────────────────────────────────────
+
+  function effectiveGasPrice(tx: ethers.Transaction): bigint {
+    if (tx.maxFeePerGas != null) {
+      const capped = GAS_PRICE + (tx.maxPriorityFeePerGas ?? 0n);
+      return capped < tx.maxFeePerGas ? capped : tx.maxFeePerGas;
+    }
+    return tx.gasPrice ?? GAS_PRICE;
+  }
+
+  function maxCost(tx: ethers.Transaction): bigint {
+    return tx.gasLimit * (tx.maxFeePerGas ?? tx.gasPrice ?? GAS_PRICE) + tx.value;
+  }
+
+  function insufficientFunds(from: string, have: bigint, want: bigint): Error {
+    return rpcError(-32000, `insufficient funds for gas * price + value: address ${from} have ${have} want ${want}`);
+  }
+
+  function mine(entry: PooledTx): void {
+    const { tx, from } = entry;
+    const sender = account(from);
+    const parent = head();
+    const number = parent.number + 1;
+    const timestamp = Math.max(parent.timestamp + 1, Math.floor(Date.now() / 1000));
+    const txHash = tx.hash!;
+    const blockHash = ethers.keccak256(ethers.concat([parent.hash, ethers.toBeHex(number, 32), txHash]));
+    const isContract = Boolean(tx.to && contracts.has(lower(tx.to)));
+    const gasUsed = intrinsicGas(tx.data, isContract);
+    const price = effectiveGasPrice(tx);
+
+    let success = false;
+    let emitted: Array<{ address: string; topics: string[]; data: string }> = [];
+    if (!entry.forceRevert && tx.gasLimit >= gasUsed) {
+      try {
+        emitted = execute(from, tx.to, tx.data, tx.value, timestamp, true).emitted;
+        success = true;
+      } catch (err) {
+        if (!isRevert(err)) throw err;
+      }
+    }
+    if (success && tx.value > 0n && tx.to) {
+      sender.balance -= tx.value;
+      account(tx.to).balance += tx.value;
+    }
+    sender.balance -= gasUsed * price;
+    sender.nonce += 1;
+
+    const blockNumberHex = q(number);
+    const minedLogs: Log[] = emitted.map((log, i) => ({
+      ...log,
+      blockNumber: blockNumberHex,
+      blockHash,
+      transactionHash: txHash,
+      transactionIndex: "0x0",
+      logIndex: q(i),
+      removed: false,
+    }));
+    logs.push(...minedLogs);
+    blocks.push({ number, hash: blockHash, parentHash: parent.hash, timestamp, txHashes: [txHash], gasUsed });
+    mined.set(txHash, {
+      tx,
+      from,
+      blockNumber: number,
+      effectiveGasPrice: price,
+      receipt: {
+        transactionHash: txHash,
+        transactionIndex: "0x0",
+        blockHash,
+        blockNumber: blockNumberHex,
+        from: ethers.getAddress(from),
+        to: tx.to ? ethers.getAddress(tx.to) : null,
+        cumulativeGasUsed: q(gasUsed),
+        gasUsed: q(gasUsed),
+        effectiveGasPrice: q(price),
+        contractAddress: null,
+        logs: minedLogs,
+        logsBloom: EMPTY_BLOOM,
+        status: success ? "0x1" : "0x0",
+        type: q(tx.type ?? 0),
+      },
+    });
+    pool.get(from)?.delete(tx.nonce);
+  }
+
+  /** Mine the sender's pooled transactions for as long as the next nonce is ready. */
+  function drain(from: string): void {
+    const queue = pool.get(from);
+    while (queue) {
+      const next = queue.get(account(from).nonce);
+      if (!next || next.heldUntil > Date.now()) break;
+      if (account(from).balance < maxCost(next.tx)) {
+        // A node would drop it too; the sender can resubmit after a top-up
+        console.warn(`[memory-chain] Dropped ${next.tx.hash} from ${from}: insufficient funds at mining time`);
+        queue.delete(next.tx.nonce);
+        break;
+      }
+      mine(next);
+    }
+    if (queue?.size === 0) pool.delete(from);
+  }
+
+  function sendRawTransaction(raw: string): string {
+    let tx: ethers.Transaction;
+    try {
+      tx = ethers.Transaction.from(raw);
+    } catch (err) {
+      throw rpcError(-32602, `invalid raw transaction: ${(err as Error).message}`);
+    }
+    if (!tx.hash || !tx.from) throw rpcError(-32602, "invalid raw transaction: unsigned");
+    if (mined.has(tx.hash) || pool.get(lower(tx.from))?.get(tx.nonce)?.tx.hash === tx.hash) return tx.hash;
+
+    const from = lower(tx.from);
+    const sender = account(from);
+    if (tx.chainId !== 0n && tx.chainId !== BigInt(chainId)) {
+      throw rpcError(-32000, `invalid chain id: got ${tx.chainId}, expected ${chainId}`);
+    }
+    if (tx.nonce < sender.nonce) {
+      throw rpcError(-32000, `nonce too low: next nonce ${sender.nonce}, tx nonce ${tx.nonce}`);
+    }
+    if (pool.get(from)?.has(tx.nonce)) {
+      throw rpcError(-32000, "replacement transaction underpriced");
+    }
+    if (tx.gasLimit < intrinsicGas(tx.data, Boolean(tx.to && contracts.has(lower(tx.to))))) {
+      throw rpcError(-32000, "intrinsic gas too low");
+    }
+    if ((tx.maxFeePerGas ?? tx.gasPrice ?? 0n) < GAS_PRICE) {
+      throw rpcError(-32000, `max fee per gas less than block base fee: have ${tx.maxFeePerGas ?? tx.gasPrice}, want ${GAS_PRICE}`);
+    }
+
+    const failure = takeFailure(tx, from);
+    if (failure === "sfuel") throw insufficientFunds(from, 0n, maxCost(tx));
+    if (sender.balance < maxCost(tx)) throw insufficientFunds(from, sender.balance, maxCost(tx));
+
+    const entry: PooledTx = {
+      tx,
+      from,
+      forceRevert: failure === "revert",
+      heldUntil: failure === "timeout" ? Date.now() + timeoutMs : 0,
+    };
+    const queue = pool.get(from) ?? new Map<number, PooledTx>();
+    queue.set(tx.nonce, entry);
+    pool.set(from, queue);
+    if (entry.heldUntil > 0) {
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        entry.heldUntil = 0;
+        drain(from);
+      }, timeoutMs);
+      timer.unref();
+      timers.add(timer);
+    }
+    drain(from);
+    return tx.hash;
+  }
+
+  // ── JSON formatting ─────────────────────────────────────────────────
+
+  function formatTx(tx: ethers.Transaction, from: string, minedTx?: MinedTx): Record<string, unknown> {
+    const block = minedTx ? blocks[minedTx.blockNumber] : null;
+    const sig = tx.signature!;
+    const v = tx.type === 0 || tx.type === null
+      ? (tx.chainId > 0n ? tx.chainId * 2n + 35n : 27n) + BigInt(sig.yParity)
+      : BigInt(sig.yParity);
+    return {
+      hash: tx.hash,
+      nonce: q(tx.nonce),
+      blockHash: block?.hash ?? null,
+      blockNumber: block ? q(block.number) : null,
+      transactionIndex: block ? "0x0" : null,
+      from: ethers.getAddress(from),
+      to: tx.to ? ethers.getAddress(tx.to) : null,
+      value: q(tx.value),
+      gas: q(tx.gasLimit),
+      gasPrice: q(minedTx?.effectiveGasPrice ?? tx.gasPrice ?? tx.maxFeePerGas ?? GAS_PRICE),
+      ...(tx.maxFeePerGas != null && { maxFeePerGas: q(tx.maxFeePerGas), maxPriorityFeePerGas: q(tx.maxPriorityFeePerGas ?? 0n) }),
+      input: tx.data,
+      type: q(tx.type ?? 0),
+      chainId: q(tx.chainId),
+      accessList: tx.accessList ?? [],
+      v: q(v),
+      r: sig.r,
+      s: sig.s,
+      yParity: q(sig.yParity),
+    };
+  }
+
+  function formatBlock(block: Block | undefined, full: boolean): Record<string, unknown> | null {
+    if (!block) return null;
+    return {
+      number: q(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      nonce: "0x0000000000000000",
+      mixHash: ethers.ZeroHash,
+      sha3Uncles: EMPTY_UNCLES_HASH,
+      logsBloom: EMPTY_BLOOM,
+      transactionsRoot: ethers.ZeroHash,
+      stateRoot: ethers.ZeroHash,
+      receiptsRoot: ethers.ZeroHash,
+      miner: ethers.ZeroAddress,
+      difficulty: "0x0",
+      totalDifficulty: "0x0",
+      extraData: "0x",
+      size: "0x0",
+      gasLimit: q(BLOCK_GAS_LIMIT),
+      gasUsed: q(block.gasUsed),
+      timestamp: q(block.timestamp),
+      baseFeePerGas: q(GAS_PRICE),
+      transactions: full
+        ? block.txHashes.map((hash) => {
+          const entry = mined.get(hash)!;
+          return formatTx(entry.tx, entry.from, entry);
+        })
+        : block.txHashes,
+      uncles: [],
+    };
+  }
+
+  function getLogs(filter: Record<string, any>): Log[] {
+    let fromBlock: number;
+    let toBlock: number;
+    if (filter.blockHash) {
+      const block = blocks.find((b) => b.hash === lower(filter.blockHash));
+      if (!block) return [];
+      fromBlock = toBlock = block.number;
+    } else {
+      fromBlock = parseBlockTag(filter.fromBlock, head().number);
+      toBlock = parseBlockTag(filter.toBlock, head().number);
+    }
+    const addresses = filter.address == null ? null : new Set((Array.isArray(filter.address) ? filter.address : [filter.address]).map(lower));
+    const topics: Array<string | string[] | null> = filter.topics ?? [];
+    return logs.filter((log) => {
+      const n = Number(log.blockNumber);
+      if (n < fromBlock || n > toBlock) return false;
+      if (addresses && !addresses.has(lower(log.address))) return false;
+      return topics.every((want, i) => {
+        if (want == null) return true;
+        const options = (Array.isArray(want) ? want : [want]).map(lower);
+        return options.length === 0 || options.includes(lower(log.topics[i]));
+      });
+    });
+  }
+
+  function callArgs(req: Record<string, any>) {
+    return {
+      from: lower(req.from ?? ethers.ZeroAddress),
+      to: req.to ? lower(req.to) : null,
+      data: String(req.input ?? req.data ?? "0x"),
+      value: BigInt(req.value ?? 0),
+    };
+  }
+
+  // ── JSON-RPC ────────────────────────────────────────────────────────
+
+  function request(method: string, params: unknown[] = []): unknown {
+    const p = params as any[];
+    switch (method) {
+      case "eth_chainId":
+        return q(chainId);
+      case "net_version":
+        return String(chainId);
+      case "web3_clientVersion":
+        return "WoGMemoryChain/1.0.0";
+      case "eth_syncing":
+        return false;
+      case "eth_accounts":
+        return [];
+      case "eth_blockNumber":
+        return q(head().number);
+      case "eth_gasPrice":
+        return q(GAS_PRICE);
+      case "eth_maxPriorityFeePerGas":
+        return q(PRIORITY_FEE);
+      case "eth_feeHistory": {
+        const count = Math.min(Number(BigInt(p[0] ?? 1)), head().number + 1);
+        const newest = parseBlockTag(p[1], head().number);
+        return {
+          oldestBlock: q(Math.max(0, newest - count + 1)),
+          baseFeePerGas: Array.from({ length: count + 1 }, () => q(GAS_PRICE)),
+          gasUsedRatio: Array.from({ length: count }, () => 0),
+          ...(Array.isArray(p[2]) && { reward: Array.from({ length: count }, () => p[2].map(() => q(PRIORITY_FEE))) }),
+        };
+      }
+      case "eth_getBalance":
+        return q(accounts.get(lower(p[0]))?.balance ?? 0n);
+      case "eth_getTransactionCount": {
+        const from = lower(p[0]);
+        let nonce = accounts.get(from)?.nonce ?? 0;
+        if (p[1] === "pending") {
+          while (pool.get(from)?.has(nonce)) nonce++;
+        }
+        return q(nonce);
+      }
+      case "eth_getCode":
+        return contracts.has(lower(p[0])) ? "0xfe" : "0x";
+      case "eth_call": {
+        const { from, to, data, value } = callArgs(p[0] ?? {});
+        try {
+          return execute(from, to, data, value, head().timestamp, false).output;
+        } catch (err) {
+          if (isRevert(err)) throw revertError(err);
+          throw err;
+        }
+      }
+      case "eth_estimateGas": {
+        const req = p[0] ?? {};
+        const { from, to, data, value } = callArgs(req);
+        const fee = BigInt(req.maxFeePerGas ?? req.gasPrice ?? 0);
+        const gas = intrinsicGas(data, Boolean(to && contracts.has(to)));
+        if (fee > 0n || value > 0n) {
+          const have = accounts.get(from)?.balance ?? 0n;
+          if (have < gas * fee + value) throw insufficientFunds(from, have, gas * fee + value);
+        }
+        try {
+          execute(from, to, data, value, head().timestamp, false);
+        } catch (err) {
+          if (isRevert(err)) throw revertError(err);
+          throw err;
+        }
+        return q(gas);
+      }
+      case "eth_sendRawTransaction":
+        return sendRawTransaction(String(p[0]));
+      case "eth_getTransactionReceipt":
+        return mined.get(lower(p[0]))?.receipt ?? null;
+      case "eth_getTransactionByHash": {
+        const hash = lower(p[0]);
+        const minedTx = mined.get(hash);
+        if (minedTx) return formatTx(minedTx.tx, minedTx.from, minedTx);
+        for (const queue of pool.values()) {
+          for (const entry of queue.values()) {
+            if (entry.tx.hash === hash) return formatTx(entry.tx, entry.from);
+          }
+        }
+        return null;
+      }
+      case "eth_getBlockByNumber":
+        return formatBlock(blocks[parseBlockTag(p[0], head().number)], Boolean(p[1]));
+      case "eth_getBlockByHash":
+        return formatBlock(blocks.find((b) => b.hash === lower(p[0])), Boolean(p[1]));
+      case "eth_getLogs":
+        return getLogs(p[0] ?? {});
+      default:
+        throw rpcError(-32601, `Method ${method} is not supported by the memory chain`);
+    }
+  }
+
+  return {
+    chainId,
+    owner,
+    request,
+    injectFailure: (rule) => failures.push({ ...rule, ...(rule.match && { match: rule.match.toLowerCase() }) }),
+    clearFailures: () => {
+      failures.length = 0;
+    },
+    setBalance: (address, wei) => {
+      account(address).balance = wei;
+    },
+    blockNumber: () => head().number,
+    close: () => {
+      for (const timer of timers) clearTimeout(timer);
+      timers.clear();
+    },
+  };
+}
+
+// ── HTTP transport ────────────────────────────────────────────────────
+
+function handleRpcMessage(chain: MemoryChain, message: any): Record<string, unknown> {
+  const id = message?.id ?? null;
+  try {
+    if (!message || typeof message.method !== "string") throw rpcError(-32600, "Invalid request");
+    return { jsonrpc: "2.0", id, result: chain.request(message.method, Array.isArray(message.params) ? message.params : []) };
+  } catch (err: any) {
+    return {
+      jsonrpc: "2.0",
+      id,
+      error: {
+        code: typeof err?.rpcCode === "number" ? err.rpcCode : -32603,
+        message: String(err?.message ?? err),
+        ...(err?.rpcData !== undefined && { data: err.rpcData }),
+      },
+    };
+  }
+}
+
+export interface MemoryChainServer {
+  chain: MemoryChain;
+  url: string;
+  close(): Promise<void>;
+}
+
+let activeServer: MemoryChainServer | null = null;
+
+/**
+ * Create a chain and serve it over JSON-RPC on 127.0.0.1. Port 0 picks a
+ * free port. The server does not keep the process alive on its own.
+ */
+export async function startMemoryChain(options: MemoryChainOptions & { port?: number }): Promise<MemoryChainServer> {
+  const chain = createMemoryChain(options);
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      let body: unknown;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        body = undefined;
+      }
+      const reply = body === undefined
+        ? { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } }
+        : Array.isArray(body)
+          ? body.map((message) => handleRpcMessage(chain, message))
+          : handleRpcMessage(chain, body);
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(reply));
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => resolve());
+  });
+  server.unref();
+  const { port } = server.address() as AddressInfo;
+  const started: MemoryChainServer = {
+    chain,
+    url: `http://127.0.0.1:${port}`,
+    close: async () => {
+      chain.close();
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      if (activeServer === started) activeServer = null;
+    },
+  };
+  activeServer = started;
+  return started;
+}
+
+/** The chain started by devLocalContracts for CHAIN_MODE=memory, if any. */
+export function getMemoryChain(): MemoryChain | null {
+  return activeServer?.chain ?? null;
+}
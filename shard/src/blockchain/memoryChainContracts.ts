@@ -0,0 +1,1332 @@
+/**
+ * Contract emulation for the in-process memory chain (see memoryChain.ts).
+ *
+ * Each emulated contract decodes calldata with the same ABI the shard uses,
+ * runs the logic of the matching Hardhat contract in hardhat/contracts
+ * (WoGMock*, WoGAuctionHouse, WoGGuild, WoGNameService) and emits the same
+ * events, so thirdweb extensions, ethers contracts and log scanning behave
+ * as they do against `deploy:localhost`. Revert strings follow the
+ * OpenZeppelin 4.x messages those contracts inherit.
+ *
+ * Trade, guild vault, land and prediction contracts are not emulated;
+ * memory mode leaves their addresses unset so those features
+ * report themselves disabled.
+ */
+
+import { ethers } from "ethers";
+import {
+  OFFICIAL_IDENTITY_REGISTRY_ABI,
+  OFFICIAL_REPUTATION_REGISTRY_ABI,
+  OFFICIAL_VALIDATION_REGISTRY_ABI,
+} from "../erc8004/official.js";
+
+export interface CallContext {
+  /** Address of the contract being called (lowercase). */
+  address: string;
+  /** msg.sender (lowercase). */
+  sender: string;
+  /** block.timestamp in seconds. */
+  timestamp: bigint;
+  chainId: bigint;
+  emit(event: string, args: unknown[]): void;
+  /** Read-only call into another emulated contract. */
+  view(address: string, fn: string, args: unknown[]): ethers.Result;
+}
+
+type Handler<S> = (state: S, args: ethers.Result, ctx: CallContext) => unknown[] | void;
+
+export interface MemoryContract {
+  readonly name: string;
+  readonly iface: ethers.Interface;
+  /** Run a call; throws a revert error (see isRevert) on failure. Returns ABI-encoded output. */
+  invoke(data: string, ctx: CallContext): string;
+  snapshot(): unknown;
+  restore(snapshot: unknown): void;
+}
+
+const ZERO = ethers.ZeroAddress.toLowerCase();
+const MAX_UINT = ethers.MaxUint256;
+const ERROR_IFACE = new ethers.Interface(["error Error(string)"]);
+
+function revert(reason: string): never {
+  throw Object.assign(new Error(reason), { revertData: ERROR_IFACE.encodeErrorResult("Error", [reason]) });
+}
+
+function require(condition: unknown, reason: string): asserts condition {
+  if (!condition) revert(reason);
+}
+
+export function isRevert(err: unknown): err is Error & { revertData: string } {
+  return err instanceof Error && typeof (err as any).revertData === "string";
+}
+
+function addr(value: unknown): string {
+  return String(value).toLowerCase();
+}
+
+function onlyOwner(owner: string, ctx: CallContext): void {
+  require(ctx.sender === owner, "Ownable: caller is not the owner");
+}
+
+/**
+ * Wrap a state object and its handlers. Handlers are looked up by full
+ * signature first (for overloads) and then by name; unknown selectors
+ * revert with no data, like a contract without a fallback.
+ */
+function emulate<S>(
+  name: string,
+  abi: readonly string[],
+  initialState: S,
+  handlers: Record<string, Handler<S>>,
+): MemoryContract {
+  const iface = new ethers.Interface(abi as string[]);
+  let state = initialState;
+  return {
+    name,
+    iface,
+    invoke(data, ctx) {
+      let call: ethers.TransactionDescription | null = null;
+      try {
+        call = iface.parseTransaction({ data });
+      } catch {
+        call = null;
+      }
+      const handler = call && (handlers[call.signature] ?? handlers[call.name]);
+      if (!call || !handler) {
+        throw Object.assign(new Error(`${name}: unknown function`), { revertData: "0x" });
+      }
+      const result = handler(state, call.args, ctx) ?? [];
+      return iface.encodeFunctionResult(call.fragment, result);
+    },
+    snapshot: () => structuredClone(state),
+    restore: (snapshot) => {
+      state = snapshot as S;
+    },
+  };
+}
+
+// ── ERC-721 core, shared by characters and the identity registry ─────
+
+interface NftState {
+  owners: Map<bigint, string>;
+  balances: Map<string, bigint>;
+  tokenApprovals: Map<bigint, string>;
+  operatorApprovals: Set<string>;
+  uris: Map<bigint, string>;
+  /** ERC721Enumerable bookkeeping, in OpenZeppelin's swap-and-pop order. */
+  ownedTokens: Map<string, bigint[]>;
+  allTokens: bigint[];
+}
+
+const ERC721_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function ownerOf(uint256 tokenId) view returns (address)",
+  "function tokenURI(uint256 tokenId) view returns (string)",
+  "function approve(address to, uint256 tokenId)",
+  "function getApproved(uint256 tokenId) view returns (address)",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function isApprovedForAll(address owner, address operator) view returns (bool)",
+  "function transferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function owner() view returns (address)",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)",
+  "event ApprovalForAll(address indexed owner, address indexed operator, bool approved)",
+];
+
+function emptyNftState(): NftState {
+  return {
+    owners: new Map(),
+    balances: new Map(),
+    tokenApprovals: new Map(),
+    operatorApprovals: new Set(),
+    uris: new Map(),
+    ownedTokens: new Map(),
+    allTokens: [],
+  };
+}
+
+function nftOwnerOf(s: NftState, tokenId: bigint): string {
+  const owner = s.owners.get(tokenId);
+  require(owner, "ERC721: invalid token ID");
+  return owner;
+}
+
+function nftIsApprovedOrOwner(s: NftState, spender: string, tokenId: bigint): boolean {
+  const owner = nftOwnerOf(s, tokenId);
+  return spender === owner || s.operatorApprovals.has(`${owner}:${spender}`) || s.tokenApprovals.get(tokenId) === spender;
+}
+
+function nftMove(s: NftState, from: string, to: string, tokenId: bigint): void {
+  if (from !== ZERO) {
+    const owned = s.ownedTokens.get(from) ?? [];
+    const i = owned.indexOf(tokenId);
+    owned[i] = owned[owned.length - 1];
+    owned.pop();
+    s.balances.set(from, (s.balances.get(from) ?? 0n) - 1n);
+  } else {
+    s.allTokens.push(tokenId);
+  }
+  s.ownedTokens.set(to, [...(s.ownedTokens.get(to) ?? []), tokenId]);
+  s.balances.set(to, (s.balances.get(to) ?? 0n) + 1n);
+  s.owners.set(tokenId, to);
+}
+
+function nftMint(s: NftState, to: string, tokenId: bigint, ctx: CallContext): void {
+  require(to !== ZERO, "ERC721: mint to the zero address");
+  require(!s.owners.has(tokenId), "ERC721: token already minted");
+  nftMove(s, ZERO, to, tokenId);
+  ctx.emit("Transfer", [ZERO, to, tokenId]);
+}
+
+function erc721Handlers<S extends NftState>(
+  name: string,
+  symbol: string,
+  owner: string,
+  interfaceIds: string[],
+  beforeTransfer?: (s: S, from: string, to: string, tokenId: bigint, ctx: CallContext) => void,
+): Record<string, Handler<S>> {
+  const transfer: Handler<S> = (s, [fromRaw, toRaw, tokenId], ctx) => {
+    const from = addr(fromRaw);
+    const to = addr(toRaw);
+    require(nftIsApprovedOrOwner(s, ctx.sender, tokenId), "ERC721: caller is not token owner or approved");
+    require(nftOwnerOf(s, tokenId) === from, "ERC721: transfer from incorrect owner");
+    require(to !== ZERO, "ERC721: transfer to the zero address");
+    beforeTransfer?.(s, from, to, tokenId, ctx);
+    s.tokenApprovals.delete(tokenId);
+    nftMove(s, from, to, tokenId);
+    ctx.emit("Transfer", [from, to, tokenId]);
+  };
+  return {
+    name: () => [name],
+    symbol: () => [symbol],
+    owner: () => [owner],
+    balanceOf: (s, [ownerRaw]) => {
+      require(addr(ownerRaw) !== ZERO, "ERC721: address zero is not a valid owner");
+      return [s.balances.get(addr(ownerRaw)) ?? 0n];
+    },
+    ownerOf: (s, [tokenId]) => [nftOwnerOf(s, tokenId)],
+    tokenURI: (s, [tokenId]) => {
+      nftOwnerOf(s, tokenId);
+      return [s.uris.get(tokenId) ?? ""];
+    },
+    approve: (s, [toRaw, tokenId], ctx) => {
+      const to = addr(toRaw);
+      const tokenOwner = nftOwnerOf(s, tokenId);
+      require(to !== tokenOwner, "ERC721: approval to current owner");
+      require(
+        ctx.sender === tokenOwner || s.operatorApprovals.has(`${tokenOwner}:${ctx.sender}`),
+        "ERC721: approve caller is not token owner or approved for all",
+      );
+      s.tokenApprovals.set(tokenId, to);
+      ctx.emit("Approval", [tokenOwner, to, tokenId]);
+    },
+    getApproved: (s, [tokenId]) => {
+      nftOwnerOf(s, tokenId);
+      return [s.tokenApprovals.get(tokenId) ?? ZERO];
+    },
+    setApprovalForAll: (s, [operatorRaw, approved], ctx) => {
+      const operator = addr(operatorRaw);
+      require(operator !== ctx.sender, "ERC721: approve to caller");
+      if (approved) s.operatorApprovals.add(`${ctx.sender}:${operator}`);
+      else s.operatorApprovals.delete(`${ctx.sender}:${operator}`);
+      ctx.emit("ApprovalForAll", [ctx.sender, operator, approved]);
+    },
+    isApprovedForAll: (s, [ownerRaw, operatorRaw]) => [s.operatorApprovals.has(`${addr(ownerRaw)}:${addr(operatorRaw)}`)],
+    transferFrom: transfer,
+    safeTransferFrom: transfer,
+    supportsInterface: (_s, [interfaceId]) => [["0x01ffc9a7", "0x80ac58cd", "0x5b5e139f", ...interfaceIds].includes(String(interfaceId).toLowerCase())],
+  };
+}
+
+// ── WoGMockGold (ERC-20) ─────────────────────────────────────────────
+
+interface GoldState {
+  balances: Map<string, bigint>;
+  allowances: Map<string, bigint>;
+  totalSupply: bigint;
+}
+
+const GOLD_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+  "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+  "function mintTo(address to, uint256 amount)",
+  "function owner() view returns (address)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+];
+
+function goldContract(owner: string): MemoryContract {
+  const move = (s: GoldState, from: string, to: string, amount: bigint, ctx: CallContext) => {
+    require(from !== ZERO, "ERC20: transfer from the zero address");
+    require(to !== ZERO, "ERC20: transfer to the zero address");
+    const balance = s.balances.get(from) ?? 0n;
+    require(balance >= amount, "ERC20: transfer amount exceeds balance");
+    s.balances.set(from, balance - amount);
+    s.balances.set(to, (s.balances.get(to) ?? 0n) + amount);
+    ctx.emit("Transfer", [from, to, amount]);
+  };
+  return emulate<GoldState>("WoGMockGold", GOLD_ABI, { balances: new Map(), allowances: new Map(), totalSupply: 0n }, {
+    name: () => ["WoG Gold"],
+    symbol: () => ["GOLD"],
+    decimals: () => [18],
+    owner: () => [owner],
+    totalSupply: (s) => [s.totalSupply],
+    balanceOf: (s, [account]) => [s.balances.get(addr(account)) ?? 0n],
+    allowance: (s, [holder, spender]) => [s.allowances.get(`${addr(holder)}:${addr(spender)}`) ?? 0n],
+    approve: (s, [spenderRaw, amount], ctx) => {
+      const spender = addr(spenderRaw);
+      require(spender !== ZERO, "ERC20: approve to the zero address");
+      s.allowances.set(`${ctx.sender}:${spender}`, amount);
+      ctx.emit("Approval", [ctx.sender, spender, amount]);
+      return [true];
+    },
+    transfer: (s, [to, amount], ctx) => {
+      move(s, ctx.sender, addr(to), amount, ctx);
+      return [true];
+    },
+    transferFrom: (s, [fromRaw, to, amount], ctx) => {
+      const from = addr(fromRaw);
+      const key = `${from}:${ctx.sender}`;
+      const allowance = s.allowances.get(key) ?? 0n;
+      if (allowance !== MAX_UINT) {
+        require(allowance >= amount, "ERC20: insufficient allowance");
+        s.allowances.set(key, allowance - amount);
+      }
+      move(s, from, addr(to), amount, ctx);
+      return [true];
+    },
+    mintTo: (s, [toRaw, amount], ctx) => {
+      onlyOwner(owner, ctx);
+      const to = addr(toRaw);
+      require(to !== ZERO, "ERC20: mint to the zero address");
+      s.totalSupply += amount;
+      s.balances.set(to, (s.balances.get(to) ?? 0n) + amount);
+      ctx.emit("Transfer", [ZERO, to, amount]);
+    },
+  });
+}
+
+// ── WoGMockItems (ERC-1155) ──────────────────────────────────────────
+
+interface ItemsState {
+  balances: Map<string, bigint>;
+  operatorApprovals: Set<string>;
+  uris: Map<bigint, string>;
+  nextTokenIdToMint: bigint;
+}
+
+const ITEMS_ABI = [
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+  "function balanceOfBatch(address[] accounts, uint256[] ids) view returns (uint256[])",
+  "function setApprovalForAll(address operator, bool approved)",
+  "function isApprovedForAll(address account, address operator) view returns (bool)",
+  "function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes data)",
+  "function safeBatchTransferFrom(address from, address to, uint256[] ids, uint256[] amounts, bytes data)",
+  "function uri(uint256 tokenId) view returns (string)",
+  "function nextTokenIdToMint() view returns (uint256)",
+  "function mintTo(address to, uint256 tokenId, string tokenUri, uint256 amount)",
+  "function burn(address account, uint256 id, uint256 value)",
+  "function supportsInterface(bytes4 interfaceId) view returns (bool)",
+  "function owner() view returns (address)",
+  "event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)",
+  "event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)",
+  "event ApprovalForAll(address indexed account, address indexed operator, bool approved)",
+];
+
+function itemsContract(owner: string): MemoryContract {
+  const key = (account: string, id: bigint) => `${account}:${id}`;
+  const balanceOf = (s: ItemsState, account: string, id: bigint) => s.balances.get(key(account, id)) ?? 0n;
+  const debit = (s: ItemsState, account: string, id: bigint, amount: bigint, reason: string) => {
+    const balance = balanceOf(s, account, id);
+    require(balance >= amount, reason);
+    s.balances.set(key(account, id), balance - amount);
+  };
+  const credit = (s: ItemsState, account: string, id: bigint, amount: bigint) => {
+    s.balances.set(key(account, id), balanceOf(s, account, id) + amount);
+  };
+  const requireOwnerOrApproved = (s: ItemsState, account: string, ctx: CallContext) => {
+    require(
+      account === ctx.sender || s.operatorApprovals.has(`${account}:${ctx.sender}`),
+      "ERC1155: caller is not token owner or approved",
+    );
+  };
+  const initial: ItemsState = { balances: new Map(), operatorApprovals: new Set(), uris: new Map(), nextTokenIdToMint: 0n };
+  return emulate<ItemsState>("WoGMockItems", ITEMS_ABI, initial, {
+    owner: () => [owner],
+    balanceOf: (s, [account, id]) => {
+      require(addr(account) !== ZERO, "ERC1155: address zero is not a valid owner");
+      return [balanceOf(s, addr(account), id)];
+    },
+    balanceOfBatch: (s, [accounts, ids]) => {
+      require(accounts.length === ids.length, "ERC1155: accounts and ids length mismatch");
+      return [Array.from(accounts, (account: string, i) => balanceOf(s, addr(account), ids[i]))];
+    },
+    setApprovalForAll: (s, [operatorRaw, approved], ctx) => {
+      const operator = addr(operatorRaw);
+      require(operator !== ctx.sender, "ERC1155: setting approval status for self");
+      if (approved) s.operatorApprovals.add(`${ctx.sender}:${operator}`);
+      else s.operatorApprovals.delete(`${ctx.sender}:${operator}`);
+      ctx.emit("ApprovalForAll", [ctx.sender, operator, approved]);
+    },
+    isApprovedForAll: (s, [account, operator]) => [s.operatorApprovals.has(`${addr(account)}:${addr(operator)}`)],
+    safeTransferFrom: (s, [fromRaw, toRaw, id, amount], ctx) => {
+      const from = addr(fromRaw);
+      const to = addr(toRaw);
+      requireOwnerOrApproved(s, from, ctx);
+      require(to !== ZERO, "ERC1155: transfer to the zero address");
+      debit(s, from, id, amount, "ERC1155: insufficient balance for transfer");
+      credit(s, to, id, amount);
+      ctx.emit("TransferSingle", [ctx.sender, from, to, id, amount]);
+    },
+    safeBatchTransferFrom: (s, [fromRaw, toRaw, ids, amounts], ctx) => {
+      const from = addr(fromRaw);
+      const to = addr(toRaw);
+      require(ids.length === amounts.length, "ERC1155: ids and amounts length mismatch");
+      requireOwnerOrApproved(s, from, ctx);
+      require(to !== ZERO, "ERC1155: transfer to the zero address");
+      for (let i = 0; i < ids.length; i++) {
+        require(balanceOf(s, from, ids[i]) >= amounts[i], "ERC1155: insufficient balance for transfer");
+      }
+      for (let i = 0; i < ids.length; i++) {
+        debit(s, from, ids[i], amounts[i], "ERC1155: insufficient balance for transfer");
+        credit(s, to, ids[i], amounts[i]);
+      }
+      ctx.emit("TransferBatch", [ctx.sender, from, to, Array.from(ids), Array.from(amounts)]);
+    },
+    uri: (s, [tokenId]) => [s.uris.get(tokenId) ?? ""],
+    nextTokenIdToMint: (s) => [s.nextTokenIdToMint],
+    mintTo: (s, [toRaw, tokenId, tokenUri, amount], ctx) => {
+      onlyOwner(owner, ctx);
+      const to = addr(toRaw);
+      require(to !== ZERO, "ERC1155: mint to the zero address");
+      let resolvedTokenId = tokenId as bigint;
+      if (resolvedTokenId === MAX_UINT) {
+        require(String(tokenUri).length > 0, "URI required for new token");
+        resolvedTokenId = s.nextTokenIdToMint;
+        s.nextTokenIdToMint += 1n;
+        s.uris.set(resolvedTokenId, tokenUri);
+      } else {
+        require(resolvedTokenId < s.nextTokenIdToMint, "Token does not exist");
+        if (String(tokenUri).length > 0) s.uris.set(resolvedTokenId, tokenUri);
+      }
+      credit(s, to, resolvedTokenId, amount);
+      ctx.emit("TransferSingle", [ctx.sender, ZERO, to, resolvedTokenId, amount]);
+    },
+    burn: (s, [accountRaw, id, value], ctx) => {
+      const account = addr(accountRaw);
+      requireOwnerOrApproved(s, account, ctx);
+      require(account !== ZERO, "ERC1155: burn from the zero address");
+      debit(s, account, id, value, "ERC1155: burn amount exceeds balance");
+      ctx.emit("TransferSingle", [ctx.sender, account, ZERO, id, value]);
+    },
+    supportsInterface: (_s, [interfaceId]) => [["0x01ffc9a7", "0xd9b67a26", "0x0e89341c"].includes(String(interfaceId).toLowerCase())],
+  });
+}
+
+// ── WoGMockCharacters (ERC-721 enumerable) ───────────────────────────
+
+interface CharacterState extends NftState {
+  nextTokenIdToMint: bigint;
+}
+
+const CHARACTERS_ABI = [
+  ...ERC721_ABI,
+  "function totalSupply() view returns (uint256)",
+  "function tokenByIndex(uint256 index) view returns (uint256)",
+  "function tokenOfOwnerByIndex(address owner, uint256 index) view returns (uint256)",
+  "function nextTokenIdToMint() view returns (uint256)",
+  "function mintTo(address to, string tokenUri) returns (uint256)",
+  "function setTokenURI(uint256 tokenId, string tokenUri)",
+];
+
+function charactersContract(owner: string): MemoryContract {
+  return emulate<CharacterState>("WoGMockCharacters", CHARACTERS_ABI, { ...emptyNftState(), nextTokenIdToMint: 0n }, {
+    ...erc721Handlers<CharacterState>("WoG Characters", "WOGC", owner, ["0x780e9d63"]),
+    totalSupply: (s) => [BigInt(s.allTokens.length)],
+    tokenByIndex: (s, [index]) => {
+      require(index < BigInt(s.allTokens.length), "ERC721Enumerable: global index out of bounds");
+      return [s.allTokens[Number(index)]];
+    },
+    tokenOfOwnerByIndex: (s, [ownerRaw, index]) => {
+      const owned = s.ownedTokens.get(addr(ownerRaw)) ?? [];
+      require(index < BigInt(owned.length), "ERC721Enumerable: owner index out of bounds");
+      return [owned[Number(index)]];
+    },
+    nextTokenIdToMint: (s) => [s.nextTokenIdToMint],
+    mintTo: (s, [to, tokenUri], ctx) => {
+      onlyOwner(owner, ctx);
+      const tokenId = s.nextTokenIdToMint;
+      s.nextTokenIdToMint += 1n;
+      nftMint(s, addr(to), tokenId, ctx);
+      s.uris.set(tokenId, tokenUri);
+      return [tokenId];
+    },
+    setTokenURI: (s, [tokenId, tokenUri], ctx) => {
+      onlyOwner(owner, ctx);
+      nftOwnerOf(s, tokenId);
+      s.uris.set(tokenId, tokenUri);
+    },
+  });
+}
+
+// ── WoGMockIdentityRegistry (ERC-8004 identity) ──────────────────────
+
+interface IdentityState extends NftState {
+  lastId: bigint;
+  /** `${agentId}:${key}` → hex bytes */
+  metadata: Map<string, string>;
+}
+
+const IDENTITY_ABI = [...OFFICIAL_IDENTITY_REGISTRY_ABI, ...ERC721_ABI.filter((f) => !OFFICIAL_IDENTITY_REGISTRY_ABI.some((o) => o === f))];
+const AGENT_WALLET_KEY = "agentWallet";
+const MAX_DEADLINE_DELAY = 300n;
+
+function identityContract(owner: string): MemoryContract {
+  const setMeta = (s: IdentityState, agentId: bigint, key: string, value: string, ctx: CallContext) => {
+    s.metadata.set(`${agentId}:${key}`, value);
+    ctx.emit("MetadataSet", [agentId, key, key, value]);
+  };
+  const requireAuthorized = (s: IdentityState, agentId: bigint, ctx: CallContext) => {
+    require(nftIsApprovedOrOwner(s, ctx.sender, agentId), "Not authorized");
+  };
+  // Transfers between holders drop the agent wallet binding, as in the registry.
+  const beforeTransfer = (s: IdentityState, from: string, to: string, tokenId: bigint, ctx: CallContext) => {
+    if (from !== ZERO && to !== ZERO) setMeta(s, tokenId, AGENT_WALLET_KEY, "0x", ctx);
+  };
+  return emulate<IdentityState>("WoGMockIdentityRegistry", IDENTITY_ABI, { ...emptyNftState(), lastId: 0n, metadata: new Map() }, {
+    ...erc721Handlers<IdentityState>("AgentIdentity", "AGENT", owner, [], beforeTransfer),
+    register: (s, args, ctx) => {
+      const agentURI: string = args.length > 0 ? args[0] : "";
+      const entries: Array<[string, string]> = args.length > 1 ? Array.from(args[1], (e: ethers.Result) => [e[0], e[1]]) : [];
+      for (const [key] of entries) require(key !== AGENT_WALLET_KEY, "reserved key");
+      const agentId = s.lastId++;
+      s.metadata.set(`${agentId}:${AGENT_WALLET_KEY}`, ctx.sender);
+      nftMint(s, ctx.sender, agentId, ctx);
+      if (agentURI) s.uris.set(agentId, agentURI);
+      ctx.emit("Registered", [agentId, agentURI, ctx.sender]);
+      ctx.emit("MetadataSet", [agentId, AGENT_WALLET_KEY, AGENT_WALLET_KEY, ctx.sender]);
+      for (const [key, value] of entries) setMeta(s, agentId, key, value, ctx);
+      return [agentId];
+    },
+    getMetadata: (s, [agentId, key]) => [s.metadata.get(`${agentId}:${key}`) ?? "0x"],
+    setMetadata: (s, [agentId, key, value], ctx) => {
+      requireAuthorized(s, agentId, ctx);
+      require(key !== AGENT_WALLET_KEY, "reserved key");
+      setMeta(s, agentId, key, value, ctx);
+    },
+    setAgentURI: (s, [agentId, newURI], ctx) => {
+      requireAuthorized(s, agentId, ctx);
+      s.uris.set(agentId, newURI);
+      ctx.emit("URIUpdated", [agentId, newURI, ctx.sender]);
+    },
+    getAgentWallet: (s, [agentId]) => {
+      const data = s.metadata.get(`${agentId}:${AGENT_WALLET_KEY}`) ?? "0x";
+      return [ethers.dataLength(data) < 20 ? ZERO : ethers.dataSlice(data, 0, 20)];
+    },
+    setAgentWallet: (s, [agentId, newWalletRaw, deadline, signature], ctx) => {
+      requireAuthorized(s, agentId, ctx);
+      const newWallet = addr(newWalletRaw);
+      require(newWallet !== ZERO, "bad wallet");
+      require(ctx.timestamp <= deadline, "expired");
+      require(deadline <= ctx.timestamp + MAX_DEADLINE_DELAY, "deadline too far");
+      const domain = { name: "ERC8004IdentityRegistry", version: "1", chainId: ctx.chainId, verifyingContract: ctx.address };
+      const types = {
+        AgentWalletSet: [
+          { name: "agentId", type: "uint256" },
+          { name: "newWallet", type: "address" },
+          { name: "owner", type: "address" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      let recovered = "";
+      try {
+        recovered = ethers.verifyTypedData(domain, types, { agentId, newWallet, owner: nftOwnerOf(s, agentId), deadline }, signature);
+      } catch {
+        recovered = "";
+      }
+      // No contract wallets on the memory chain, so no ERC-1271 fallback
+      require(addr(recovered) === newWallet, "invalid wallet sig");
+      setMeta(s, agentId, AGENT_WALLET_KEY, newWallet, ctx);
+    },
+    unsetAgentWallet: (s, [agentId], ctx) => {
+      requireAuthorized(s, agentId, ctx);
+      setMeta(s, agentId, AGENT_WALLET_KEY, "0x", ctx);
+    },
+    isAuthorizedOrOwner: (s, [spender, agentId]) => [nftIsApprovedOrOwner(s, addr(spender), agentId)],
+    getVersion: () => ["2.0.0"],
+  });
+}
+
+// ── WoGMockReputationRegistry (ERC-8004 reputation) ──────────────────
+
+interface Feedback {
+  value: bigint;
+  valueDecimals: bigint;
+  isRevoked: boolean;
+  tag1: string;
+  tag2: string;
+}
+
+interface ReputationState {
+  /** `${agentId}:${client}:${index}` */
+  feedback: Map<string, Feedback>;
+  /** `${agentId}:${client}` */
+  lastIndex: Map<string, bigint>;
+  /** `${agentId}:${client}:${index}` → responder → count, in first-response order */
+  responses: Map<string, Map<string, bigint>>;
+  clients: Map<bigint, string[]>;
+}
+
+const REPUTATION_ABI = [
+  ...OFFICIAL_REPUTATION_REGISTRY_ABI,
+  "event NewFeedback(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, int128 value, uint8 valueDecimals, string indexed indexedTag1, string tag1, string tag2, string endpoint, string feedbackURI, bytes32 feedbackHash)",
+  "event FeedbackRevoked(uint256 indexed agentId, address indexed clientAddress, uint64 indexed feedbackIndex)",
+  "event ResponseAppended(uint256 indexed agentId, address indexed clientAddress, uint64 feedbackIndex, address indexed responder, string responseURI, bytes32 responseHash)",
+];
+const MAX_ABS_FEEDBACK = 10n ** 38n;
+
+function reputationContract(identityRegistry: string): MemoryContract {
+  const lastIndexOf = (s: ReputationState, agentId: bigint, client: string) => s.lastIndex.get(`${agentId}:${client}`) ?? 0n;
+  const matches = (fb: Feedback, tag1: string, tag2: string) => (!tag1 || fb.tag1 === tag1) && (!tag2 || fb.tag2 === tag2);
+  const countResponses = (s: ReputationState, agentId: bigint, client: string, index: bigint, responders: string[]) => {
+    const counts = s.responses.get(`${agentId}:${client}:${index}`);
+    if (!counts) return 0n;
+    const who = responders.length > 0 ? responders : Array.from(counts.keys());
+    return who.reduce((sum, r) => sum + (counts.get(r) ?? 0n), 0n);
+  };
+  const initial: ReputationState = { feedback: new Map(), lastIndex: new Map(), responses: new Map(), clients: new Map() };
+  return emulate<ReputationState>("WoGMockReputationRegistry", REPUTATION_ABI, initial, {
+    getIdentityRegistry: () => [identityRegistry],
+    giveFeedback: (s, [agentId, value, valueDecimals, tag1, tag2, endpoint, feedbackURI, feedbackHash], ctx) => {
+      require(valueDecimals <= 18n, "too many decimals");
+      require(value >= -MAX_ABS_FEEDBACK && value <= MAX_ABS_FEEDBACK, "value too large");
+      require(!ctx.view(identityRegistry, "isAuthorizedOrOwner", [ctx.sender, agentId])[0], "Self-feedback not allowed");
+      const index = lastIndexOf(s, agentId, ctx.sender) + 1n;
+      s.lastIndex.set(`${agentId}:${ctx.sender}`, index);
+      s.feedback.set(`${agentId}:${ctx.sender}:${index}`, { value, valueDecimals, tag1, tag2, isRevoked: false });
+      const clients = s.clients.get(agentId) ?? [];
+      if (!clients.includes(ctx.sender)) s.clients.set(agentId, [...clients, ctx.sender]);
+      ctx.emit("NewFeedback", [agentId, ctx.sender, index, value, valueDecimals, tag1, tag1, tag2, endpoint, feedbackURI, feedbackHash]);
+    },
+    revokeFeedback: (s, [agentId, index], ctx) => {
+      require(index > 0n, "index must be > 0");
+      require(index <= lastIndexOf(s, agentId, ctx.sender), "index out of bounds");
+      const fb = s.feedback.get(`${agentId}:${ctx.sender}:${index}`)!;
+      require(!fb.isRevoked, "Already revoked");
+      fb.isRevoked = true;
+      ctx.emit("FeedbackRevoked", [agentId, ctx.sender, index]);
+    },
+    appendResponse: (s, [agentId, clientRaw, index, responseURI, responseHash], ctx) => {
+      const client = addr(clientRaw);
+      require(index > 0n, "index must be > 0");
+      require(String(responseURI).length > 0, "Empty URI");
+      require(index <= lastIndexOf(s, agentId, client), "index out of bounds");
+      const key = `${agentId}:${client}:${index}`;
+      const counts = s.responses.get(key) ?? new Map<string, bigint>();
+      counts.set(ctx.sender, (counts.get(ctx.sender) ?? 0n) + 1n);
+      s.responses.set(key, counts);
+      ctx.emit("ResponseAppended", [agentId, client, index, ctx.sender, responseURI, responseHash]);
+    },
+    getLastIndex: (s, [agentId, client]) => [lastIndexOf(s, agentId, addr(client))],
+    readFeedback: (s, [agentId, clientRaw, index]) => {
+      const client = addr(clientRaw);
+      require(index > 0n, "index must be > 0");
+      require(index <= lastIndexOf(s, agentId, client), "index out of bounds");
+      const fb = s.feedback.get(`${agentId}:${client}:${index}`)!;
+      return [fb.value, fb.valueDecimals, fb.tag1, fb.tag2, fb.isRevoked];
+    },
+    getSummary: (s, [agentId, clientAddresses, tag1, tag2]) => {
+      require(clientAddresses.length > 0, "clientAddresses required");
+      let sum = 0n;
+      let count = 0n;
+      const decimalCounts = new Array<number>(19).fill(0);
+      for (const clientRaw of clientAddresses) {
+        const client = addr(clientRaw);
+        for (let j = 1n; j <= lastIndexOf(s, agentId, client); j++) {
+          const fb = s.feedback.get(`${agentId}:${client}:${j}`)!;
+          if (fb.isRevoked || !matches(fb, tag1, tag2)) continue;
+          sum += fb.value * 10n ** (18n - fb.valueDecimals);
+          decimalCounts[Number(fb.valueDecimals)]++;
+          count++;
+        }
+      }
+      if (count === 0n) return [0n, 0n, 0n];
+      let modeDecimals = 0;
+      for (let d = 0; d <= 18; d++) {
+        if (decimalCounts[d] > decimalCounts[modeDecimals]) modeDecimals = d;
+      }
+      // BigInt division truncates toward zero, like Solidity's int256
+      return [count, sum / count / 10n ** BigInt(18 - modeDecimals), modeDecimals];
+    },
+    readAllFeedback: (s, [agentId, clientAddresses, tag1, tag2, includeRevoked]) => {
+      const clientList: string[] = clientAddresses.length > 0 ? Array.from(clientAddresses, addr) : s.clients.get(agentId) ?? [];
+      const out: [string[], bigint[], bigint[], bigint[], string[], string[], boolean[]] = [[], [], [], [], [], [], []];
+      for (const client of clientList) {
+        for (let j = 1n; j <= lastIndexOf(s, agentId, client); j++) {
+          const fb = s.feedback.get(`${agentId}:${client}:${j}`)!;
+          if ((!includeRevoked && fb.isRevoked) || !matches(fb, tag1, tag2)) continue;
+          out[0].push(client);
+          out[1].push(j);
+          out[2].push(fb.value);
+          out[3].push(fb.valueDecimals);
+          out[4].push(fb.tag1);
+          out[5].push(fb.tag2);
+          out[6].push(fb.isRevoked);
+        }
+      }
+      return out;
+    },
+    getResponseCount: (s, [agentId, clientRaw, index, respondersRaw]) => {
+      const client = addr(clientRaw);
+      const responders: string[] = Array.from(respondersRaw, addr);
+      let count = 0n;
+      if (client === ZERO) {
+        for (const c of s.clients.get(agentId) ?? []) {
+          for (let j = 1n; j <= lastIndexOf(s, agentId, c); j++) count += countResponses(s, agentId, c, j, responders);
+        }
+      } else if (index === 0n) {
+        for (let j = 1n; j <= lastIndexOf(s, agentId, client); j++) count += countResponses(s, agentId, client, j, responders);
+      } else {
+        count = countResponses(s, agentId, client, index, responders);
+      }
+      return [count];
+    },
+    getClients: (s, [agentId]) => [s.clients.get(agentId) ?? []],
+    getVersion: () => ["2.0.0"],
+  });
+}
+
+// ── WoGMockValidationRegistry ────────────────────────────────────────
+
+interface ValidationStatus {
+  validatorAddress: string;
+  agentId: bigint;
+  response: bigint;
+  responseHash: string;
+  tag: string;
+  lastUpdate: bigint;
+  hasResponse: boolean;
+}
+
+interface ValidationState {
+  validations: Map<string, ValidationStatus>;
+  agentValidations: Map<bigint, string[]>;
+  validatorRequests: Map<string, string[]>;
+}
+
+const VALIDATION_ABI = [
+  ...OFFICIAL_VALIDATION_REGISTRY_ABI,
+  "event ValidationRequest(address indexed validatorAddress, uint256 indexed agentId, string requestURI, bytes32 indexed requestHash)",
+  "event ValidationResponse(address indexed validatorAddress, uint256 indexed agentId, bytes32 indexed requestHash, uint8 response, string responseURI, bytes32 responseHash, string tag)",
+];
+
+function validationContract(identityRegistry: string): MemoryContract {
+  const initial: ValidationState = { validations: new Map(), agentValidations: new Map(), validatorRequests: new Map() };
+  const statusOf = (s: ValidationState, requestHash: string) => {
+    const status = s.validations.get(requestHash);
+    require(status, "unknown");
+    return status;
+  };
+  return emulate<ValidationState>("WoGMockValidationRegistry", VALIDATION_ABI, initial, {
+    getIdentityRegistry: () => [identityRegistry],
+    validationRequest: (s, [validatorRaw, agentId, requestURI, requestHash], ctx) => {
+      const validator = addr(validatorRaw);
+      require(validator !== ZERO, "bad validator");
+      require(!s.validations.has(requestHash), "exists");
+      const owner = addr(ctx.view(identityRegistry, "ownerOf", [agentId])[0]);
+      require(
+        ctx.sender === owner
+          || ctx.view(identityRegistry, "isApprovedForAll", [owner, ctx.sender])[0]
+          || addr(ctx.view(identityRegistry, "getApproved", [agentId])[0]) === ctx.sender,
+        "Not authorized",
+      );
+      s.validations.set(requestHash, {
+        validatorAddress: validator,
+        agentId,
+        response: 0n,
+        responseHash: ethers.ZeroHash,
+        tag: "",
+        lastUpdate: ctx.timestamp,
+        hasResponse: false,
+      });
+      s.agentValidations.set(agentId, [...(s.agentValidations.get(agentId) ?? []), requestHash]);
+      s.validatorRequests.set(validator, [...(s.validatorRequests.get(validator) ?? []), requestHash]);
+      ctx.emit("ValidationRequest", [validator, agentId, requestURI, requestHash]);
+    },
+    validationResponse: (s, [requestHash, response, responseURI, responseHash, tag], ctx) => {
+      const status = s.validations.get(requestHash);
+      require(status, "unknown");
+      require(ctx.sender === status.validatorAddress, "not validator");
+      require(response <= 100n, "resp>100");
+      Object.assign(status, { response, responseHash, tag, lastUpdate: ctx.timestamp, hasResponse: true });
+      ctx.emit("ValidationResponse", [status.validatorAddress, status.agentId, requestHash, response, responseURI, responseHash, tag]);
+    },
+    getValidationStatus: (s, [requestHash]) => {
+      const status = statusOf(s, requestHash);
+      return [status.validatorAddress, status.agentId, status.response, status.responseHash, status.tag, status.lastUpdate];
+    },
+    getSummary: (s, [agentId, validatorAddresses, tag]) => {
+      const validators: string[] = Array.from(validatorAddresses, addr);
+      let total = 0n;
+      let count = 0n;
+      for (const requestHash of s.agentValidations.get(agentId) ?? []) {
+        const status = s.validations.get(requestHash)!;
+        const matchValidator = validators.length === 0 || validators.includes(status.validatorAddress);
+        const matchTag = !tag || status.tag === tag;
+        if (matchValidator && matchTag && status.hasResponse) {
+          total += status.response;
+          count++;
+        }
+      }
+      return [count, count > 0n ? total / count : 0n];
+    },
+    getAgentValidations: (s, [agentId]) => [s.agentValidations.get(agentId) ?? []],
+    getValidatorRequests: (s, [validator]) => [s.validatorRequests.get(addr(validator)) ?? []],
+    getVersion: () => ["2.0.0"],
+  });
+}
+
+// ── WoGAuctionHouse ──────────────────────────────────────────────────
+
+interface Auction {
+  zoneId: string;
+  seller: string;
+  tokenId: bigint;
+  quantity: bigint;
+  startPrice: bigint;
+  buyoutPrice: bigint;
+  endTime: bigint;
+  highBidder: string;
+  highBid: bigint;
+  status: number;
+  extensionCount: number;
+}
+
+interface AuctionState {
+  nextAuctionId: bigint;
+  auctions: Map<bigint, Auction>;
+}
+
+const AUCTION_HOUSE_ABI = [
+  "function createAuction(string zoneId, address seller, uint256 tokenId, uint256 quantity, uint256 startPrice, uint256 durationSeconds, uint256 buyoutPrice) returns (uint256)",
+  "function placeBid(uint256 auctionId, address bidder, uint256 bidAmount) returns (address, uint256)",
+  "function buyout(uint256 auctionId, address buyer)",
+  "function endAuction(uint256 auctionId)",
+  "function cancelAuction(uint256 auctionId)",
+  "function getAuction(uint256 auctionId) view returns (string zoneId, address seller, uint256 tokenId, uint256 quantity, uint256 startPrice, uint256 buyoutPrice, uint256 endTime, address highBidder, uint256 highBid, uint8 status, uint8 extensionCount)",
+  "function nextAuctionId() view returns (uint256)",
+  "function owner() view returns (address)",
+  "event AuctionCreated(uint256 indexed auctionId, string zoneId, address indexed seller, uint256 tokenId, uint256 quantity, uint256 startPrice, uint256 buyoutPrice, uint256 endTime)",
+  "event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 bidAmount, address previousBidder, uint256 previousBid, uint256 newEndTime, bool extended)",
+  "event AuctionEnded(uint256 indexed auctionId, address winner, uint256 finalPrice)",
+  "event AuctionCancelled(uint256 indexed auctionId)",
+  "event BuyoutExecuted(uint256 indexed auctionId, address buyer, uint256 buyoutPrice)",
+];
+const AUCTION_ACTIVE = 0;
+const AUCTION_ENDED = 1;
+const AUCTION_CANCELLED = 2;
+const SNIPE_WINDOW = 300n;
+const SNIPE_EXTENSION = 300n;
+const MAX_EXTENSIONS = 2;
+const MIN_BID_INCREMENT = ethers.parseEther("10");
+
+function emptyAuction(): Auction {
+  return {
+    zoneId: "", seller: ZERO, tokenId: 0n, quantity: 0n, startPrice: 0n, buyoutPrice: 0n,
+    endTime: 0n, highBidder: ZERO, highBid: 0n, status: AUCTION_ACTIVE, extensionCount: 0,
+  };
+}
+
+function auctionHouseContract(owner: string): MemoryContract {
+  const onlyOwnerAuction = (ctx: CallContext) => require(ctx.sender === owner, "Only owner");
+  // Unset auctions read as zeroed structs, and Active is 0, as in Solidity
+  const get = (s: AuctionState, id: bigint) => s.auctions.get(id) ?? emptyAuction();
+  const put = (s: AuctionState, id: bigint, a: Auction) => s.auctions.set(id, a);
+  return emulate<AuctionState>("WoGAuctionHouse", AUCTION_HOUSE_ABI, { nextAuctionId: 0n, auctions: new Map() }, {
+    owner: () => [owner],
+    nextAuctionId: (s) => [s.nextAuctionId],
+    createAuction: (s, [zoneId, sellerRaw, tokenId, quantity, startPrice, durationSeconds, buyoutPrice], ctx) => {
+      onlyOwnerAuction(ctx);
+      const seller = addr(sellerRaw);
+      require(seller !== ZERO, "Invalid seller");
+      require(quantity > 0n, "Quantity must be positive");
+      require(startPrice > 0n, "Start price must be positive");
+      require(durationSeconds > 0n, "Duration must be positive");
+      const auctionId = s.nextAuctionId++;
+      const endTime = ctx.timestamp + durationSeconds;
+      put(s, auctionId, { ...emptyAuction(), zoneId, seller, tokenId, quantity, startPrice, buyoutPrice, endTime });
+      ctx.emit("AuctionCreated", [auctionId, zoneId, seller, tokenId, quantity, startPrice, buyoutPrice, endTime]);
+      return [auctionId];
+    },
+    placeBid: (s, [auctionId, bidderRaw, bidAmount], ctx) => {
+      onlyOwnerAuction(ctx);
+      const a = get(s, auctionId);
+      const bidder = addr(bidderRaw);
+      require(a.status === AUCTION_ACTIVE, "Auction not active");
+      require(ctx.timestamp < a.endTime, "Auction has ended");
+      require(bidder !== ZERO, "Invalid bidder");
+      require(bidder !== a.seller, "Seller cannot bid on own auction");
+      require(bidAmount >= (a.highBid === 0n ? a.startPrice : a.highBid + MIN_BID_INCREMENT), "Bid too low");
+      const previousBidder = a.highBidder;
+      const previousBid = a.highBid;
+      a.highBidder = bidder;
+      a.highBid = bidAmount;
+      let extended = false;
+      if (a.endTime - ctx.timestamp <= SNIPE_WINDOW && a.extensionCount < MAX_EXTENSIONS) {
+        a.endTime += SNIPE_EXTENSION;
+        a.extensionCount++;
+        extended = true;
+      }
+      put(s, auctionId, a);
+      ctx.emit("BidPlaced", [auctionId, bidder, bidAmount, previousBidder, previousBid, a.endTime, extended]);
+      return [previousBidder, previousBid];
+    },
+    endAuction: (s, [auctionId], ctx) => {
+      onlyOwnerAuction(ctx);
+      const a = get(s, auctionId);
+      require(a.status === AUCTION_ACTIVE, "Auction not active");
+      require(ctx.timestamp >= a.endTime, "Auction still ongoing");
+      a.status = AUCTION_ENDED;
+      put(s, auctionId, a);
+      ctx.emit("AuctionEnded", [auctionId, a.highBidder, a.highBid]);
+    },
+    buyout: (s, [auctionId, buyerRaw], ctx) => {
+      onlyOwnerAuction(ctx);
+      const a = get(s, auctionId);
+      const buyer = addr(buyerRaw);
+      require(a.status === AUCTION_ACTIVE, "Auction not active");
+      require(a.buyoutPrice > 0n, "Buyout not available");
+      require(buyer !== ZERO, "Invalid buyer");
+      require(buyer !== a.seller, "Seller cannot buy own auction");
+      const previousBidder = a.highBidder;
+      const previousBid = a.highBid;
+      a.highBidder = buyer;
+      a.highBid = a.buyoutPrice;
+      a.status = AUCTION_ENDED;
+      put(s, auctionId, a);
+      ctx.emit("BuyoutExecuted", [auctionId, buyer, a.buyoutPrice]);
+      ctx.emit("BidPlaced", [auctionId, buyer, a.buyoutPrice, previousBidder, previousBid, a.endTime, false]);
+      ctx.emit("AuctionEnded", [auctionId, buyer, a.buyoutPrice]);
+    },
+    cancelAuction: (s, [auctionId], ctx) => {
+      onlyOwnerAuction(ctx);
+      const a = get(s, auctionId);
+      require(a.status === AUCTION_ACTIVE, "Auction not active");
+      require(a.highBidder === ZERO, "Cannot cancel with bids");
+      a.status = AUCTION_CANCELLED;
+      put(s, auctionId, a);
+      ctx.emit("AuctionCancelled", [auctionId]);
+    },
+    getAuction: (s, [auctionId]) => {
+      const a = get(s, auctionId);
+      return [a.zoneId, a.seller, a.tokenId, a.quantity, a.startPrice, a.buyoutPrice, a.endTime, a.highBidder, a.highBid, a.status, a.extensionCount];
+    },
+  });
+}
+
+// ── WoGGuild ─────────────────────────────────────────────────────────
+
+interface Guild {
+  name: string;
+  description: string;
+  founder: string;
+  treasury: bigint;
+  level: bigint;
+  reputation: bigint;
+  status: number;
+  createdAt: bigint;
+  memberCount: bigint;
+}
+
+interface GuildMember {
+  rank: number;
+  joinedAt: bigint;
+  contributedGold: bigint;
+}
+
+interface Proposal {
+  guildId: bigint;
+  proposer: string;
+  proposalType: number;
+  description: string;
+  createdAt: bigint;
+  votingEndsAt: bigint;
+  yesVotes: bigint;
+  noVotes: bigint;
+  status: number;
+  targetAddress: string;
+  targetAmount: bigint;
+}
+
+interface GuildState {
+  nextGuildId: bigint;
+  nextProposalId: bigint;
+  totalFeesCollected: bigint;
+  guilds: Map<bigint, Guild>;
+  /** `${guildId}:${member}` */
+  members: Map<string, GuildMember>;
+  memberLists: Map<bigint, string[]>;
+  memberToGuild: Map<string, bigint>;
+  proposals: Map<bigint, Proposal>;
+  /** `${proposalId}:${voter}` */
+  hasVoted: Set<string>;
+}
+
+const GUILD_ABI = [
+  "function createGuild(string name, string description, address founder, uint256 initialDeposit, uint256 creationFee) returns (uint256)",
+  "function inviteMember(uint256 guildId, address member)",
+  "function joinGuild(uint256 guildId, address member)",
+  "function leaveGuild(uint256 guildId, address member)",
+  "function depositGold(uint256 guildId, address member, uint256 amount)",
+  "function createProposal(uint256 guildId, address proposer, uint8 proposalType, string description, address targetAddress, uint256 targetAmount) returns (uint256)",
+  "function vote(uint256 proposalId, address voter, bool voteYes)",
+  "function executeProposal(uint256 proposalId)",
+  "function getGuild(uint256 guildId) view returns (string name, string description, address founder, uint256 treasury, uint256 level, uint256 reputation, uint8 status, uint256 createdAt, uint256 memberCount)",
+  "function getMember(uint256 guildId, address memberAddress) view returns (uint8 rank, uint256 joinedAt, uint256 contributedGold)",
+  "function getGuildMembers(uint256 guildId) view returns (address[])",
+  "function getProposal(uint256 proposalId) view returns (uint256 guildId, address proposer, uint8 proposalType, string description, uint256 createdAt, uint256 votingEndsAt, uint256 yesVotes, uint256 noVotes, uint8 status, address targetAddress, uint256 targetAmount)",
+  "function nextGuildId() view returns (uint256)",
+  "function nextProposalId() view returns (uint256)",
+  "function memberToGuild(address member) view returns (uint256)",
+  "function hasVoted(uint256 proposalId, address voter) view returns (bool)",
+  "function totalFeesCollected() view returns (uint256)",
+  "function owner() view returns (address)",
+  "event GuildCreated(uint256 indexed guildId, string name, address indexed founder, uint256 initialDeposit)",
+  "event MemberInvited(uint256 indexed guildId, address indexed member)",
+  "event MemberJoined(uint256 indexed guildId, address indexed member)",
+  "event MemberLeft(uint256 indexed guildId, address indexed member)",
+  "event GoldDeposited(uint256 indexed guildId, address indexed member, uint256 amount)",
+  "event ProposalCreated(uint256 indexed proposalId, uint256 indexed guildId, address indexed proposer, uint8 proposalType)",
+  "event VoteCast(uint256 indexed proposalId, address indexed voter, bool vote)",
+  "event ProposalExecuted(uint256 indexed proposalId, bool passed)",
+  "event MemberPromoted(uint256 indexed guildId, address indexed member, uint8 newRank)",
+  "event MemberKicked(uint256 indexed guildId, address indexed member)",
+  "event GuildDisbanded(uint256 indexed guildId)",
+];
+const GUILD_ACTIVE = 0;
+const GUILD_DISBANDED = 1;
+const RANK_MEMBER = 0;
+const RANK_OFFICER = 1;
+const RANK_FOUNDER = 2;
+const PROPOSAL_ACTIVE = 0;
+const PROPOSAL_FAILED = 2;
+const PROPOSAL_EXECUTED = 3;
+const MIN_GUILD_DEPOSIT = ethers.parseEther("100");
+const GUILD_CREATION_FEE = ethers.parseEther("50");
+const VOTING_DURATION = 24n * 60n * 60n;
+
+function guildContract(owner: string): MemoryContract {
+  const onlyOwnerGuild = (ctx: CallContext) => require(ctx.sender === owner, "Only owner");
+  const emptyGuild = (): Guild => ({
+    name: "", description: "", founder: ZERO, treasury: 0n, level: 0n, reputation: 0n,
+    status: GUILD_ACTIVE, createdAt: 0n, memberCount: 0n,
+  });
+  const emptyProposal = (): Proposal => ({
+    guildId: 0n, proposer: ZERO, proposalType: 0, description: "", createdAt: 0n, votingEndsAt: 0n,
+    yesVotes: 0n, noVotes: 0n, status: PROPOSAL_ACTIVE, targetAddress: ZERO, targetAmount: 0n,
+  });
+  const guildOf = (s: GuildState, id: bigint) => s.guilds.get(id) ?? emptyGuild();
+  const memberOf = (s: GuildState, guildId: bigint, member: string) => s.members.get(`${guildId}:${member}`);
+  // memberToGuild reads 0 for "no guild", so guild 0's members look guildless — same as the contract
+  const guildIdOf = (s: GuildState, member: string) => s.memberToGuild.get(member) ?? 0n;
+  const removeMember = (s: GuildState, guildId: bigint, member: string) => {
+    s.members.delete(`${guildId}:${member}`);
+    s.memberToGuild.delete(member);
+    const list = s.memberLists.get(guildId) ?? [];
+    const i = list.indexOf(member);
+    if (i >= 0) {
+      list[i] = list[list.length - 1];
+      list.pop();
+    }
+    const g = guildOf(s, guildId);
+    g.memberCount -= 1n;
+    s.guilds.set(guildId, g);
+  };
+  const initial: GuildState = {
+    nextGuildId: 0n, nextProposalId: 0n, totalFeesCollected: 0n, guilds: new Map(), members: new Map(),
+    memberLists: new Map(), memberToGuild: new Map(), proposals: new Map(), hasVoted: new Set(),
+  };
+  return emulate<GuildState>("WoGGuild", GUILD_ABI, initial, {
+    owner: () => [owner],
+    nextGuildId: (s) => [s.nextGuildId],
+    nextProposalId: (s) => [s.nextProposalId],
+    totalFeesCollected: (s) => [s.totalFeesCollected],
+    memberToGuild: (s, [member]) => [guildIdOf(s, addr(member))],
+    hasVoted: (s, [proposalId, voter]) => [s.hasVoted.has(`${proposalId}:${addr(voter)}`)],
+    createGuild: (s, [name, description, founderRaw, initialDeposit, creationFee], ctx) => {
+      onlyOwnerGuild(ctx);
+      const founder = addr(founderRaw);
+      const nameLength = ethers.toUtf8Bytes(name).length;
+      require(nameLength > 0 && nameLength <= 32, "Invalid name length");
+      require(founder !== ZERO, "Invalid founder");
+      require(initialDeposit >= MIN_GUILD_DEPOSIT, "Insufficient initial deposit");
+      require(creationFee >= GUILD_CREATION_FEE, "Insufficient creation fee");
+      require(guildIdOf(s, founder) === 0n, "Already in a guild");
+      s.totalFeesCollected += creationFee;
+      const guildId = s.nextGuildId++;
+      s.guilds.set(guildId, {
+        name, description, founder, treasury: initialDeposit, level: 1n, reputation: 0n,
+        status: GUILD_ACTIVE, createdAt: ctx.timestamp, memberCount: 1n,
+      });
+      s.members.set(`${guildId}:${founder}`, { rank: RANK_FOUNDER, joinedAt: ctx.timestamp, contributedGold: initialDeposit });
+      s.memberLists.set(guildId, [...(s.memberLists.get(guildId) ?? []), founder]);
+      s.memberToGuild.set(founder, guildId);
+      ctx.emit("GuildCreated", [guildId, name, founder, initialDeposit]);
+      ctx.emit("MemberJoined", [guildId, founder]);
+      return [guildId];
+    },
+    inviteMember: (s, [guildId, memberRaw], ctx) => {
+      onlyOwnerGuild(ctx);
+      const member = addr(memberRaw);
+      require(guildOf(s, guildId).status === GUILD_ACTIVE, "Guild not active");
+      require(member !== ZERO, "Invalid address");
+      require(guildIdOf(s, member) === 0n, "Already in a guild");
+      ctx.emit("MemberInvited", [guildId, member]);
+    },
+    joinGuild: (s, [guildId, memberRaw], ctx) => {
+      onlyOwnerGuild(ctx);
+      const member = addr(memberRaw);
+      const g = guildOf(s, guildId);
+      require(g.status === GUILD_ACTIVE, "Guild not active");
+      require(member !== ZERO, "Invalid address");
+      require(guildIdOf(s, member) === 0n, "Already in a guild");
+      require(!memberOf(s, guildId, member), "Already a member");
+      s.members.set(`${guildId}:${member}`, { rank: RANK_MEMBER, joinedAt: ctx.timestamp, contributedGold: 0n });
+      s.memberLists.set(guildId, [...(s.memberLists.get(guildId) ?? []), member]);
+      s.memberToGuild.set(member, guildId);
+      g.memberCount += 1n;
+      s.guilds.set(guildId, g);
+      ctx.emit("MemberJoined", [guildId, member]);
+    },
+    leaveGuild: (s, [guildId, memberRaw], ctx) => {
+      onlyOwnerGuild(ctx);
+      const member = addr(memberRaw);
+      require(guildIdOf(s, member) === guildId, "Not a member");
+      require((memberOf(s, guildId, member)?.rank ?? RANK_MEMBER) !== RANK_FOUNDER, "Founder cannot leave");
+      removeMember(s, guildId, member);
+      ctx.emit("MemberLeft", [guildId, member]);
+    },
+    depositGold: (s, [guildId, memberRaw, amount], ctx) => {
+      onlyOwnerGuild(ctx);
+      const member = addr(memberRaw);
+      const g = guildOf(s, guildId);
+      require(g.status === GUILD_ACTIVE, "Guild not active");
+      require(guildIdOf(s, member) === guildId, "Not a member");
+      require(amount > 0n, "Amount must be positive");
+      g.treasury += amount;
+      s.guilds.set(guildId, g);
+      const m = memberOf(s, guildId, member) ?? { rank: RANK_MEMBER, joinedAt: 0n, contributedGold: 0n };
+      m.contributedGold += amount;
+      s.members.set(`${guildId}:${member}`, m);
+      ctx.emit("GoldDeposited", [guildId, member, amount]);
+    },
+    createProposal: (s, [guildId, proposerRaw, proposalType, description, targetAddress, targetAmount], ctx) => {
+      onlyOwnerGuild(ctx);
+      const proposer = addr(proposerRaw);
+      require(guildOf(s, guildId).status === GUILD_ACTIVE, "Guild not active");
+      require(guildIdOf(s, proposer) === guildId, "Not a member");
+      const rank = memberOf(s, guildId, proposer)?.rank ?? RANK_MEMBER;
+      require(rank === RANK_OFFICER || rank === RANK_FOUNDER, "Only officers can propose");
+      require(proposalType <= 4n, "invalid proposal type");
+      const proposalId = s.nextProposalId++;
+      s.proposals.set(proposalId, {
+        guildId, proposer, proposalType: Number(proposalType), description, createdAt: ctx.timestamp,
+        votingEndsAt: ctx.timestamp + VOTING_DURATION, yesVotes: 0n, noVotes: 0n, status: PROPOSAL_ACTIVE,
+        targetAddress: addr(targetAddress), targetAmount,
+      });
+      ctx.emit("ProposalCreated", [proposalId, guildId, proposer, proposalType]);
+      return [proposalId];
+    },
+    vote: (s, [proposalId, voterRaw, voteYes], ctx) => {
+      onlyOwnerGuild(ctx);
+      const voter = addr(voterRaw);
+      const p = s.proposals.get(proposalId) ?? emptyProposal();
+      require(p.status === PROPOSAL_ACTIVE, "Proposal not active");
+      require(guildIdOf(s, voter) === p.guildId, "Not a member");
+      require(!s.hasVoted.has(`${proposalId}:${voter}`), "Already voted");
+      require(ctx.timestamp < p.votingEndsAt, "Voting period ended");
+      s.hasVoted.add(`${proposalId}:${voter}`);
+      if (voteYes) p.yesVotes += 1n;
+      else p.noVotes += 1n;
+      s.proposals.set(proposalId, p);
+      ctx.emit("VoteCast", [proposalId, voter, voteYes]);
+    },
+    executeProposal: (s, [proposalId], ctx) => {
+      onlyOwnerGuild(ctx);
+      const p = s.proposals.get(proposalId) ?? emptyProposal();
+      require(p.status === PROPOSAL_ACTIVE, "Proposal not active");
+      require(ctx.timestamp >= p.votingEndsAt, "Voting still ongoing");
+      const g = guildOf(s, p.guildId);
+      const passed = p.yesVotes > p.noVotes;
+      if (passed) {
+        const target = memberOf(s, p.guildId, p.targetAddress);
+        switch (p.proposalType) {
+          case 0: // WithdrawGold
+            require(g.treasury >= p.targetAmount, "Insufficient treasury");
+            g.treasury -= p.targetAmount;
+            s.guilds.set(p.guildId, g);
+            break;
+          case 1: // KickMember
+            require((target?.rank ?? RANK_MEMBER) !== RANK_FOUNDER, "Cannot kick founder");
+            removeMember(s, p.guildId, p.targetAddress);
+            ctx.emit("MemberKicked", [p.guildId, p.targetAddress]);
+            break;
+          case 2: // PromoteOfficer
+            require(target, "Not a member");
+            require(target.rank === RANK_MEMBER, "Already officer or founder");
+            target.rank = RANK_OFFICER;
+            ctx.emit("MemberPromoted", [p.guildId, p.targetAddress, RANK_OFFICER]);
+            break;
+          case 3: // DemoteOfficer
+            require(target?.rank === RANK_OFFICER, "Not an officer");
+            target.rank = RANK_MEMBER;
+            ctx.emit("MemberPromoted", [p.guildId, p.targetAddress, RANK_MEMBER]);
+            break;
+          case 4: // DisbandGuild
+            g.status = GUILD_DISBANDED;
+            s.guilds.set(p.guildId, g);
+            ctx.emit("GuildDisbanded", [p.guildId]);
+            break;
+        }
+        p.status = PROPOSAL_EXECUTED;
+      } else {
+        p.status = PROPOSAL_FAILED;
+      }
+      s.proposals.set(proposalId, p);
+      ctx.emit("ProposalExecuted", [proposalId, passed]);
+    },
+    getGuild: (s, [guildId]) => {
+      const g = guildOf(s, guildId);
+      return [g.name, g.description, g.founder, g.treasury, g.level, g.reputation, g.status, g.createdAt, g.memberCount];
+    },
+    getMember: (s, [guildId, member]) => {
+      const m = memberOf(s, guildId, addr(member));
+      return [m?.rank ?? RANK_MEMBER, m?.joinedAt ?? 0n, m?.contributedGold ?? 0n];
+    },
+    getGuildMembers: (s, [guildId]) => [s.memberLists.get(guildId) ?? []],
+    getProposal: (s, [proposalId]) => {
+      const p = s.proposals.get(proposalId) ?? emptyProposal();
+      return [p.guildId, p.proposer, p.proposalType, p.description, p.createdAt, p.votingEndsAt, p.yesVotes, p.noVotes, p.status, p.targetAddress, p.targetAmount];
+    },
+  });
+}
+
+// ── WoGNameService ───────────────────────────────────────────────────
+
+interface NameState {
+  nameHashToOwner: Map<string, string>;
+  ownerToName: Map<string, string>;
+}
+
+const NAME_SERVICE_ABI = [
+  "function registerName(address wallet, string name)",
+  "function releaseName(address wallet)",
+  "function resolve(string name) view returns (address)",
+  "function reverseLookup(address wallet) view returns (string)",
+  "function nameTaken(bytes32 nameHash) view returns (bool)",
+  "function nameHashToOwner(bytes32 nameHash) view returns (address)",
+  "function ownerToName(address wallet) view returns (string)",
+  "function owner() view returns (address)",
+  "event NameRegistered(address indexed owner, string name)",
+  "event NameReleased(address indexed owner, string name)",
+  "error NameTooShort()",
+  "error NameTooLong()",
+  "error InvalidCharacter()",
+  "error NameAlreadyTaken()",
+  "error WalletAlreadyHasName()",
+  "error WalletHasNoName()",
+];
+
+function nameServiceContract(owner: string): MemoryContract {
+  const iface = new ethers.Interface(NAME_SERVICE_ABI);
+  const fail = (error: string): never => {
+    throw Object.assign(new Error(error), { revertData: iface.encodeErrorResult(error, []) });
+  };
+  // The contract lowercases ASCII A-Z only; everything else hashes as-is
+  const nameHash = (name: string) =>
+    ethers.keccak256(Uint8Array.from(ethers.toUtf8Bytes(name), (c) => (c >= 0x41 && c <= 0x5a ? c + 32 : c)));
+  return emulate<NameState>("WoGNameService", NAME_SERVICE_ABI, { nameHashToOwner: new Map(), ownerToName: new Map() }, {
+    owner: () => [owner],
+    registerName: (s, [walletRaw, name], ctx) => {
+      onlyOwner(owner, ctx);
+      const wallet = addr(walletRaw);
+      const bytes = ethers.toUtf8Bytes(name);
+      if (bytes.length < 3) fail("NameTooShort");
+      if (bytes.length > 16) fail("NameTooLong");
+      if (!/^[A-Za-z0-9_-]+$/.test(name)) fail("InvalidCharacter");
+      const hash = nameHash(name);
+      if (s.nameHashToOwner.has(hash)) fail("NameAlreadyTaken");
+      if (s.ownerToName.get(wallet)) fail("WalletAlreadyHasName");
+      s.nameHashToOwner.set(hash, wallet);
+      s.ownerToName.set(wallet, name);
+      ctx.emit("NameRegistered", [wallet, name]);
+    },
+    releaseName: (s, [walletRaw], ctx) => {
+      onlyOwner(owner, ctx);
+      const wallet = addr(walletRaw);
+      const current = s.ownerToName.get(wallet);
+      if (!current) fail("WalletHasNoName");
+      s.nameHashToOwner.delete(nameHash(current!));
+      s.ownerToName.delete(wallet);
+      ctx.emit("NameReleased", [wallet, current]);
+    },
+    resolve: (s, [name]) => [s.nameHashToOwner.get(nameHash(name)) ?? ZERO],
+    reverseLookup: (s, [wallet]) => [s.ownerToName.get(addr(wallet)) ?? ""],
+    nameTaken: (s, [hash]) => [s.nameHashToOwner.has(String(hash).toLowerCase())],
+    nameHashToOwner: (s, [hash]) => [s.nameHashToOwner.get(String(hash).toLowerCase()) ?? ZERO],
+    ownerToName: (s, [wallet]) => [s.ownerToName.get(addr(wallet)) ?? ""],
+  });
+}
+
+// ── Deployment ───────────────────────────────────────────────────────
+
+/** Env var holding each emulated contract's address, in Hardhat deploy order. */
+export const MEMORY_CHAIN_CONTRACT_KEYS = [
+  "GOLD_CONTRACT_ADDRESS",
+  "ITEMS_CONTRACT_ADDRESS",
+  "CHARACTER_CONTRACT_ADDRESS",
+  "IDENTITY_REGISTRY_ADDRESS",
+  "REPUTATION_REGISTRY_ADDRESS",
+  "VALIDATION_REGISTRY_ADDRESS",
+  "AUCTION_HOUSE_CONTRACT_ADDRESS",
+  "GUILD_CONTRACT_ADDRESS",
+  "NAME_SERVICE_CONTRACT_ADDRESS",
+] as const;
+
+export type MemoryChainContractKey = (typeof MEMORY_CHAIN_CONTRACT_KEYS)[number];
+
+/**
+ * "Deploy" every emulated contract with `owner` as the deployer, at the
+ * given addresses. Returns lowercase address → contract.
+ */
+export function deployMemoryContracts(
+  owner: string,
+  addresses: Record<MemoryChainContractKey, string>,
+): Map<string, MemoryContract> {
+  const deployer = addr(owner);
+  const identity = addr(addresses.IDENTITY_REGISTRY_ADDRESS);
+  const contracts: Record<MemoryChainContractKey, MemoryContract> = {
+    GOLD_CONTRACT_ADDRESS: goldContract(deployer),
+    ITEMS_CONTRACT_ADDRESS: itemsContract(deployer),
+    CHARACTER_CONTRACT_ADDRESS: charactersContract(deployer),
+    IDENTITY_REGISTRY_ADDRESS: identityContract(deployer),
+    REPUTATION_REGISTRY_ADDRESS: reputationContract(identity),
+    VALIDATION_REGISTRY_ADDRESS: validationContract(identity),
+    AUCTION_HOUSE_CONTRACT_ADDRESS: auctionHouseContract(deployer),
+    GUILD_CONTRACT_ADDRESS: guildContract(deployer),
+    NAME_SERVICE_CONTRACT_ADDRESS: nameServiceContract(deployer),
+  };
+  return new Map(MEMORY_CHAIN_CONTRACT_KEYS.map((key) => [addr(addresses[key]), contracts[key]]));
+}
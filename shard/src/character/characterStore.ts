@@ -8,6 +8,7 @@
 
 import { assertRedisAvailable, getRedis, isMemoryFallbackAllowed, scanKeys } from "../redis.js";
 import { CLASS_DEFINITIONS } from "./classes.js";
+import { parseCraftingQueue, type CraftingJob } from "../professions/craftingJobs.js";
 import {
   deleteCharacterProjection,
   getCharacterSnapshotForWallet,
@@ -46,10 +47,13 @@ export interface CharacterSaveData {
     questId: string;
     progress: number;
     startedAt: number;
+    extraProgress?: number[];
   }>;
   completedQuests: string[];
   storyFlags: string[];
   learnedTechniques: string[];
+  questGraphGrants?: string[];
+  craftingQueue?: CraftingJob[];
   professions: string[];
   runEnergy?: number;
   maxRunEnergy?: number;
@@ -125,7 +129,7 @@ function parseStringArray(value: string | undefined): string[] {
 
 function parseActiveQuests(
   value: string | undefined
-): Array<{ questId: string; progress: number; startedAt: number }> {
+): Array<{ questId: string; progress: number; startedAt: number; extraProgress?: number[] }> {
   if (!value) return [];
   try {
     const parsed = JSON.parse(value);
@@ -136,6 +140,9 @@ function parseActiveQuests(
         questId: String((entry as any).questId ?? ""),
         progress: Number((entry as any).progress ?? 0) || 0,
         startedAt: Number((entry as any).startedAt ?? 0) || 0,
+        ...(Array.isArray((entry as any).extraProgress)
+          ? { extraProgress: ((entry as any).extraProgress as unknown[]).map((v) => Number(v) || 0) }
+          : {}),
       }))
       .filter((entry) => entry.questId.length > 0);
   } catch {
@@ -168,6 +175,8 @@ function parseCharacter(raw: Record<string, string>): CharacterSaveData {
     completedQuests: parseStringArray(raw.completedQuests),
     storyFlags: parseStringArray(raw.storyFlags),
     learnedTechniques: parseStringArray(raw.learnedTechniques),
+    questGraphGrants: parseStringArray(raw.questGraphGrants),
+    craftingQueue: raw.craftingQueue ? (() => { try { return parseCraftingQueue(JSON.parse(raw.craftingQueue)); } catch { return []; } })() : undefined,
     professions: parseStringArray(raw.professions),
     runEnergy: raw.runEnergy != null ? parseFloat(raw.runEnergy) : undefined,
     maxRunEnergy: raw.maxRunEnergy != null ? parseFloat(raw.maxRunEnergy) : undefined,
@@ -17,6 +17,7 @@ import {
   getWorldTick,
   updateSpawnedWalletZone,
   pickTechnique,
+  reindexEntity,
   type Entity,
 } from "../world/zoneRuntime.js";
 import { logZoneEvent } from "../world/zoneEvents.js";
@@ -269,6 +270,7 @@ class ArenaManager {
 
     // Move entity to the arena region
     entity.region = ARENA_REGION;
+    reindexEntity(entity);
     if (entity.walletAddress) {
       updateSpawnedWalletZone(entity.walletAddress, ARENA_REGION);
     }
@@ -779,6 +781,7 @@ class ArenaManager {
         entity.x = saved.x;
         entity.y = saved.y;
         entity.region = saved.region;
+        reindexEntity(entity);
         if (entity.walletAddress) {
           updateSpawnedWalletZone(entity.walletAddress, saved.region);
         }
@@ -1092,6 +1095,7 @@ class ArenaManager {
         entity.x = saved.x;
         entity.y = saved.y;
         entity.region = saved.region;
+        reindexEntity(entity);
         if (entity.walletAddress) {
           updateSpawnedWalletZone(entity.walletAddress, saved.region);
         }
@@ -4,10 +4,25 @@
 // edicts top-to-bottom. First full match wins.  Returns null if no edict
 // matches — caller falls through to existing pickTechnique() AI.
 
-import type { Edict, EdictCondition, EdictAction } from "./edicts.js";
+import { isConditionGroup, type Edict, type EdictCondition, type EdictConditionNode, type EdictAction } from "./edicts.js";
 import { getTechniqueById, type TechniqueDefinition } from "./techniques.js";
-import type { Entity, ActiveEffect } from "../world/zoneRuntime.js";
-import { getPartyMembers } from "../social/partySystem.js";
+import type { Entity, ActiveEffect, VisibleIntent } from "../world/zoneRuntime.js";
+import { getPartyMembers, getPartyLeaderId } from "../social/partySystem.js";
+import { getGameTime } from "../world/worldClock.js";
+import { getPotionEffect } from "../professions/potionEffects.js";
+
+// ── Edict-only cooldowns (stored in entity.cooldowns) ───────────────
+
+export const INTERRUPT_COOLDOWN_KEY = "edict:interrupt";
+export const INTERRUPT_COOLDOWN_TICKS = 16;
+export const INTERRUPT_RANGE = 100;
+export const CONSUMABLE_COOLDOWN_KEY = "edict:consumable";
+export const CONSUMABLE_COOLDOWN_TICKS = 10;
+
+/** Classes that count as the party's "tank" subject. */
+const TANK_CLASSES = new Set(["warrior", "paladin"]);
+/** move_to_party_anchor does nothing while already this close to the leader. */
+const ANCHOR_REGROUP_RADIUS = 30;
 
 // ── Public result type ──────────────────────────────────────────────
 
@@ -19,6 +34,31 @@ export interface EdictResult {
   techniqueOverride?: TechniqueDefinition;
   /** Override pickAutoCombatTarget — attack this entity instead. */
   targetOverride?: Entity;
+  /** Cancel this entity's windup (castingIntent). */
+  interruptTargetId?: string;
+  /** Drink this potion/elixir/tonic. */
+  consumableTokenId?: number;
+}
+
+/** Why an edict did or didn't fire, one entry per edict considered. */
+export interface EdictTraceStep {
+  edictId: string;
+  name: string;
+  outcome: "fired" | "disabled" | "no_conditions" | "condition_failed" | "action_unavailable";
+  reason?: string;
+  /** Failing condition, e.g. "conditions[1].conditions[0]". */
+  conditionPath?: string;
+}
+
+type ActionOutcome = EdictResult | { unavailable: string };
+
+function unavailable(reason: string): ActionOutcome {
+  return { unavailable: reason };
+}
+
+interface ConditionFailure {
+  path: string;
+  reason: string;
 }
 
 // ── Zone state shape (minimal interface to avoid circular import) ───
@@ -26,6 +66,10 @@ export interface EdictResult {
 interface ZoneView {
   entities: Map<string, Entity>;
   tick: number;
+  /** buildVisibleIntents() for the zone; needed by the "casting" field. */
+  intents?: VisibleIntent[];
+  /** Party override for simulations; live zones use the party system. */
+  party?: { memberIds: string[]; leaderId?: string };
 }
 
 // ── Main evaluator ──────────────────────────────────────────────────
@@ -35,46 +79,118 @@ export function evaluateEdicts(
   zone: ZoneView,
   edicts: Edict[],
   currentTarget: Entity | null,
+  trace?: EdictTraceStep[],
 ): EdictResult | null {
   for (const edict of edicts) {
-    if (!edict.enabled) continue;
-    if (edict.conditions.length === 0) continue;
-
-    // AND: all conditions must pass
-    let allMatch = true;
-    for (const cond of edict.conditions) {
-      if (!evaluateCondition(entity, zone, currentTarget, cond)) {
-        allMatch = false;
-        break;
-      }
+    const step = (outcome: EdictTraceStep["outcome"], extra?: Partial<EdictTraceStep>) =>
+      trace?.push({ edictId: edict.id, name: edict.name, outcome, ...extra });
+
+    if (!edict.enabled) { step("disabled"); continue; }
+    if (edict.conditions.length === 0) { step("no_conditions"); continue; }
+
+    // AND: all top-level conditions must pass
+    const failure = explainList(entity, zone, currentTarget, edict.conditions, "conditions");
+    if (failure) {
+      step("condition_failed", { reason: failure.reason, conditionPath: failure.path });
+      continue;
     }
-    if (!allMatch) continue;
 
     // Conditions matched — resolve action
     const result = resolveAction(entity, zone, currentTarget, edict);
-    if (result) return result;
+    if (!("unavailable" in result)) {
+      step("fired");
+      return result;
+    }
     // If action can't execute (cooldown, no essence), skip to next edict
+    step("action_unavailable", { reason: result.unavailable });
   }
   return null;
 }
 
 // ── Condition evaluation ────────────────────────────────────────────
 
-function evaluateCondition(
+/** First failing node of an AND list, or null when every node passes. */
+function explainList(
+  entity: Entity,
+  zone: ZoneView,
+  currentTarget: Entity | null,
+  nodes: EdictConditionNode[],
+  path: string,
+): ConditionFailure | null {
+  for (let i = 0; i < nodes.length; i++) {
+    const failure = explainNode(entity, zone, currentTarget, nodes[i], `${path}[${i}]`);
+    if (failure) return failure;
+  }
+  return null;
+}
+
+function explainNode(
+  entity: Entity,
+  zone: ZoneView,
+  currentTarget: Entity | null,
+  node: EdictConditionNode,
+  path: string,
+): ConditionFailure | null {
+  if (!isConditionGroup(node)) {
+    const reason = explainCondition(entity, zone, currentTarget, node);
+    return reason ? { path, reason } : null;
+  }
+
+  const childPath = `${path}.conditions`;
+  switch (node.op) {
+    case "and":
+      return explainList(entity, zone, currentTarget, node.conditions, childPath);
+    case "or": {
+      const failures: string[] = [];
+      for (let i = 0; i < node.conditions.length; i++) {
+        const failure = explainNode(entity, zone, currentTarget, node.conditions[i], `${childPath}[${i}]`);
+        if (!failure) return null;
+        failures.push(failure.reason);
+      }
+      return { path, reason: `no alternative passed (${failures.join("; ")})` };
+    }
+    case "not":
+      for (let i = 0; i < node.conditions.length; i++) {
+        if (!explainNode(entity, zone, currentTarget, node.conditions[i], `${childPath}[${i}]`)) {
+          return { path, reason: `excluded condition ${childPath}[${i}] passed` };
+        }
+      }
+      return null;
+    default:
+      return { path, reason: `unknown group ${String((node as { op: unknown }).op)}` };
+  }
+}
+
+/** Null when the condition passes, otherwise a human-readable reason. */
+function explainCondition(
   entity: Entity,
   zone: ZoneView,
   currentTarget: Entity | null,
   cond: EdictCondition,
-): boolean {
+): string | null {
+  if (cond.field === "always") return null;
+  const wanted = `${cond.operator} ${String(cond.value)}`;
+
+  // any_ally is existential: true if at least one living ally passes
+  if (cond.subject === "any_ally") {
+    const allies = getAlliesInZone(entity, zone);
+    if (allies.length === 0) return "no living ally in zone";
+    if (allies.some((ally) => testSubject(ally, entity, zone, cond))) return null;
+    return `no ally has ${cond.field} ${wanted}`;
+  }
+
   // Resolve subject entity
   const subject = resolveSubject(cond.subject, entity, zone, currentTarget);
-  if (!subject && cond.field !== "always") return false;
-
-  // Read field value
-  const actual = readField(subject, entity, zone, cond.field);
-  if (actual === undefined && cond.field !== "always") return false;
+  if (!subject) return `no ${cond.subject}`;
+  const actual = readField(subject, entity, zone, cond);
+  if (actual === undefined) return `${cond.subject} has no ${cond.field}`;
+  if (compare(actual, cond.operator, cond.value)) return null;
+  return `${cond.subject} ${cond.field} is ${String(actual)}, needs ${wanted}`;
+}
 
-  // Compare
+function testSubject(subject: Entity, self: Entity, zone: ZoneView, cond: EdictCondition): boolean {
+  const actual = readField(subject, self, zone, cond);
+  if (actual === undefined) return false;
   return compare(actual, cond.operator, cond.value);
 }
 
@@ -90,14 +206,9 @@ function resolveSubject(
     case "target":
       return currentTarget;
     case "ally_lowest_hp": {
-      const partyIds = getPartyMembers(entity.id);
-      if (partyIds.length === 0) return null;
       let lowest: Entity | null = null;
       let lowestRatio = 1;
-      for (const pid of partyIds) {
-        if (pid === entity.id) continue;
-        const ally = zone.entities.get(pid);
-        if (!ally || ally.hp <= 0) continue;
+      for (const ally of getAlliesInZone(entity, zone)) {
         const ratio = ally.hp / Math.max(1, ally.maxHp);
         if (ratio < lowestRatio) {
           lowestRatio = ratio;
@@ -106,32 +217,85 @@ function resolveSubject(
       }
       return lowest;
     }
+    case "party_leader": {
+      const leaderId = getLeaderId(entity, zone);
+      const leader = leaderId ? zone.entities.get(leaderId) : undefined;
+      return leader && leader.hp > 0 ? leader : null;
+    }
+    case "tank": {
+      let tank: Entity | null = null;
+      for (const member of [entity, ...getAlliesInZone(entity, zone)]) {
+        if (!TANK_CLASSES.has(member.classId ?? "") || member.hp <= 0) continue;
+        if (!tank || member.maxHp > tank.maxHp) tank = member;
+      }
+      return tank;
+    }
+    case "attacker":
+      return findAttackerOf(entity, zone);
     default:
       return null;
   }
 }
 
+function getLeaderId(entity: Entity, zone: ZoneView): string | undefined {
+  return zone.party ? zone.party.leaderId : getPartyLeaderId(entity.id);
+}
+
+/** Living party members in this zone, excluding the entity itself. */
+function getAlliesInZone(entity: Entity, zone: ZoneView): Entity[] {
+  const allies: Entity[] = [];
+  for (const pid of zone.party?.memberIds ?? getPartyMembers(entity.id)) {
+    if (pid === entity.id) continue;
+    const ally = zone.entities.get(pid);
+    if (ally && ally.hp > 0) allies.push(ally);
+  }
+  return allies;
+}
+
+/** Nearest living mob/boss whose attack, technique or windup targets `victim`. */
+function findAttackerOf(victim: Entity, zone: ZoneView): Entity | null {
+  let nearest: Entity | null = null;
+  let nearestDist = Infinity;
+  for (const e of zone.entities.values()) {
+    if (e.hp <= 0) continue;
+    if (e.type !== "mob" && e.type !== "boss") continue;
+    const targetId = e.castingIntent?.targetId
+      ?? (e.order && e.order.action !== "move" ? e.order.targetId : undefined);
+    if (targetId !== victim.id) continue;
+    const dist = distanceBetween(victim, e);
+    if (dist < nearestDist) {
+      nearestDist = dist;
+      nearest = e;
+    }
+  }
+  return nearest;
+}
+
+function distanceBetween(a: Entity, b: Entity): number {
+  const dx = b.x - a.x, dy = (b.y ?? 0) - (a.y ?? 0);
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
 function readField(
-  subject: Entity | null,
+  subject: Entity,
   self: Entity,
   zone: ZoneView,
-  field: string,
+  cond: EdictCondition,
 ): number | string | boolean | undefined {
-  switch (field) {
+  switch (cond.field) {
     case "hp_pct":
-      return subject ? Math.round((subject.hp / Math.max(1, subject.maxHp)) * 100) : undefined;
+      return Math.round((subject.hp / Math.max(1, subject.maxHp)) * 100);
     case "essence_pct":
-      return subject?.essence != null && subject?.maxEssence
+      return subject.essence != null && subject.maxEssence
         ? Math.round((subject.essence / subject.maxEssence) * 100)
         : undefined;
     case "type":
-      return subject?.type;
+      return subject.type;
     case "active_effect":
-      // Returns the type string of the first active effect, or "none"
-      // Operator will be "has" or "not_has" with value = effect type
-      return hasEffectType(subject?.activeEffects, undefined) ? "present" : "none";
+      // Operator is "has" or "not_has" with value = effect type
+      return hasEffectType(subject.activeEffects, cond.value) ? "present" : "none";
     case "effect_from_self":
-      return hasEffectFromCaster(subject?.activeEffects, self.id) ? "present" : "none";
+      return hasEffectFromCaster(subject.activeEffects, self.id, cond.value) ? "present" : "none";
     case "nearby_enemies": {
       let count = 0;
       const RANGE = 70;
@@ -144,42 +308,61 @@ function readField(
       }
       return count;
     }
-    case "always":
-      return true;
+    case "cooldown_ready": {
+      const techId = String(cond.value);
+      if (!subject.learnedTechniques?.includes(techId)) return false;
+      const expiresAtTick = subject.cooldowns?.get(techId);
+      return expiresAtTick == null || zone.tick >= expiresAtTick;
+    }
+    case "casting":
+      return getCastingSeverity(subject, zone);
+    case "distance":
+      return Math.round(distanceBetween(self, subject));
+    case "level_gap":
+      return (subject.level ?? 1) - (self.level ?? 1);
+    case "buff_stacks":
+      return subject.activeEffects?.filter(e => e.type === "buff").length ?? 0;
+    case "time_of_day":
+      return getGameTime(zone.tick).phase;
     default:
       return undefined;
   }
 }
 
-function hasEffectType(effects: ActiveEffect[] | undefined, _unused: unknown): boolean {
-  return !!effects && effects.length > 0;
+/** "dangerous" | "normal" for an entity mid-windup, "none" otherwise. */
+function getCastingSeverity(subject: Entity, zone: ZoneView): string {
+  if (!subject.castingIntent && !subject.encounter?.cast) return "none";
+  const intent = zone.intents?.find(i => i.sourceId === subject.id && i.state === "casting");
+  if (intent) return intent.severity;
+  return subject.type === "boss" ? "dangerous" : "normal";
+}
+
+function hasEffectType(effects: ActiveEffect[] | undefined, type: unknown): boolean {
+  if (!effects || effects.length === 0) return false;
+  if (typeof type !== "string" || type === "any") return true;
+  return effects.some(e => e.type === type);
 }
 
-function hasEffectFromCaster(effects: ActiveEffect[] | undefined, casterId: string): boolean {
+function hasEffectFromCaster(effects: ActiveEffect[] | undefined, casterId: string, type: unknown): boolean {
   if (!effects) return false;
-  return effects.some(e => e.casterId === casterId);
+  return effects.some(e => e.casterId === casterId && (typeof type !== "string" || type === "any" || e.type === type));
 }
 
 // Special-case: for "active_effect" and "effect_from_self" fields,
-// the operator/value work differently — we check for specific effect types
+// readField() already applied the effect type, returning "present"/"none"
 function compare(
-  actual: number | string | boolean | undefined,
+  actual: number | string | boolean,
   operator: string,
   value: number | string | boolean,
 ): boolean {
-  // Special handling for effect-presence fields
-  if (typeof value === "string" && (operator === "has" || operator === "not_has")) {
-    // "has"/"not_has" with effect type value — delegate to special check
-    // actual is "present" or "none" (simplified), but we need the real check
-    // This is handled via the field reader returning "present"/"none"
-    if (operator === "has") return actual === "present";
-    if (operator === "not_has") return actual === "none";
-  }
+  if (operator === "has") return actual === "present";
+  if (operator === "not_has") return actual === "none";
 
   // Numeric comparisons
   if (typeof actual === "number" && typeof value === "number") {
     switch (operator) {
       case "lt": return actual < value;
+      case "lte": return actual <= value;
       case "gt": return actual > value;
       case "gte": return actual >= value;
       case "eq": return actual === value;
@@ -187,9 +370,22 @@ function compare(
     }
   }
 
-  // String/type comparisons
-  if (operator === "is") return actual === value;
-  if (operator === "eq") return actual === value;
+  // Boolean fields (cooldown_ready) whose value names what is checked (a
+  // techniqueId) compare against true; a boolean value is compared directly.
+  if (typeof actual === "boolean") {
+    const expected = typeof value === "boolean" ? value : true;
+    if (operator === "is" || operator === "eq") return actual === expected;
+    if (operator === "is_not") return actual !== expected;
+    return false;
+  }
+
+  // String/type comparisons — "any" matches every value except "none"
+  if (operator === "is" || operator === "eq") {
+    return value === "any" ? actual !== "none" : actual === value;
+  }
+  if (operator === "is_not") {
+    return value === "any" ? actual === "none" : actual !== value;
+  }
 
   return false;
 }
@@ -201,7 +397,7 @@ function resolveAction(
   zone: ZoneView,
   currentTarget: Entity | null,
   edict: Edict,
-): EdictResult | null {
+): ActionOutcome {
   const action = edict.action;
 
   switch (action.type) {
@@ -209,7 +405,7 @@ function resolveAction(
       return resolveTechniqueAction(entity, zone, edict, action);
 
     case "attack":
-      if (!currentTarget) return null;
+      if (!currentTarget) return unavailable("no target in range");
       return { edict, order: { action: "attack", targetId: currentTarget.id } };
 
     case "prefer_target":
@@ -221,8 +417,20 @@ function resolveAction(
     case "skip":
       return { edict, order: { action: "move", x: entity.x, y: entity.y } };
 
+    case "use_consumable":
+      return resolveConsumable(entity, zone, edict, action);
+
+    case "interrupt":
+      return resolveInterrupt(entity, zone, currentTarget, edict);
+
+    case "swap_to_ally_attacker":
+      return resolveAllyAttacker(entity, zone, edict);
+
+    case "move_to_party_anchor":
+      return resolvePartyAnchor(entity, zone, edict);
+
     default:
-      return null;
+      return unavailable(`unknown action ${action.type}`);
   }
 }
 
@@ -231,25 +439,25 @@ function resolveTechniqueAction(
   zone: ZoneView,
   edict: Edict,
   action: EdictAction,
-): EdictResult | null {
-  if (!action.techniqueId) return null;
+): ActionOutcome {
+  if (!action.techniqueId) return unavailable("no technique selected");
 
   const tech = getTechniqueById(action.techniqueId);
-  if (!tech) return null;
+  if (!tech) return unavailable(`unknown technique ${action.techniqueId}`);
 
   // Must have learned the technique
-  if (!entity.learnedTechniques?.includes(tech.id)) return null;
+  if (!entity.learnedTechniques?.includes(tech.id)) return unavailable(`${tech.name} not learned`);
 
   // Check cooldown
   if (entity.cooldowns?.has(tech.id)) {
     const expiresAtTick = entity.cooldowns.get(tech.id)!;
-    if (zone.tick < expiresAtTick) return null; // on cooldown — skip to next edict
+    if (zone.tick < expiresAtTick) return unavailable(`${tech.name} on cooldown for ${expiresAtTick - zone.tick} ticks`); // skip to next edict
   }
 
   // Check essence cost
   if (tech.essenceCost > 0) {
     const currentEssence = entity.essence ?? 0;
-    if (currentEssence < tech.essenceCost) return null; // not enough — skip to next edict
+    if (currentEssence < tech.essenceCost) return unavailable(`not enough essence for ${tech.name} (${currentEssence}/${tech.essenceCost})`); // skip to next edict
   }
 
   return { edict, techniqueOverride: tech };
@@ -260,7 +468,7 @@ function resolveTargetPreference(
   zone: ZoneView,
   edict: Edict,
   action: EdictAction,
-): EdictResult | null {
+): ActionOutcome {
   const pref = action.targetPreference ?? "nearest";
   let best: Entity | null = null;
   let bestScore = -Infinity;
@@ -296,7 +504,7 @@ function resolveTargetPreference(
     }
   }
 
-  if (!best) return null;
+  if (!best) return unavailable(`no enemy within ${RANGE} units`);
   return { edict, targetOverride: best };
 }
 
@@ -304,7 +512,7 @@ function resolveFlee(
   entity: Entity,
   currentTarget: Entity | null,
   edict: Edict,
-): EdictResult | null {
+): ActionOutcome {
   // Move 80 units away from current threat
   const threatX = currentTarget?.x ?? entity.x;
   const threatY = currentTarget?.y ?? entity.y;
@@ -316,3 +524,78 @@ function resolveFlee(
 
   return { edict, order: { action: "move", x: Math.round(fleeX), y: Math.round(fleeY) } as unknown as EdictResult["order"] };
 }
+
+function isOffCooldown(entity: Entity, key: string, tick: number): boolean {
+  const expiresAtTick = entity.cooldowns?.get(key);
+  return expiresAtTick == null || tick >= expiresAtTick;
+}
+
+function resolveConsumable(
+  entity: Entity,
+  zone: ZoneView,
+  edict: Edict,
+  action: EdictAction,
+): ActionOutcome {
+  if (action.tokenId == null) return unavailable("no consumable selected");
+  if (!getPotionEffect(BigInt(action.tokenId))) return unavailable(`token ${action.tokenId} is not a consumable`);
+  if (!isOffCooldown(entity, CONSUMABLE_COOLDOWN_KEY, zone.tick)) return unavailable("consumable on cooldown");
+  return { edict, consumableTokenId: action.tokenId };
+}
+
+function resolveInterrupt(
+  entity: Entity,
+  zone: ZoneView,
+  currentTarget: Entity | null,
+  edict: Edict,
+): ActionOutcome {
+  if (!isOffCooldown(entity, INTERRUPT_COOLDOWN_KEY, zone.tick)) return unavailable("interrupt on cooldown");
+
+  const inReach = (e: Entity | null | undefined): e is Entity =>
+    !!e && e.hp > 0 && (!!e.castingIntent || !!e.encounter?.cast?.interruptible) && distanceBetween(entity, e) <= INTERRUPT_RANGE;
+
+  // Current target first, then whoever is casting at us, then the nearest
+  // enemy caster in reach (e.g. a boss winding up on the tank).
+  if (inReach(currentTarget)) return { edict, interruptTargetId: currentTarget.id };
+  const attacker = findAttackerOf(entity, zone);
+  if (inReach(attacker)) return { edict, interruptTargetId: attacker.id };
+
+  let nearest: Entity | null = null;
+  let nearestDist = Infinity;
+  for (const e of zone.entities.values()) {
+    if (e.type !== "mob" && e.type !== "boss") continue;
+    if (!inReach(e)) continue;
+    const dist = distanceBetween(entity, e);
+    if (dist < nearestDist) {
+      nearestDist = dist;
+      nearest = e;
+    }
+  }
+  return nearest ? { edict, interruptTargetId: nearest.id } : unavailable("nobody in reach is casting");
+}
+
+function resolveAllyAttacker(
+  entity: Entity,
+  zone: ZoneView,
+  edict: Edict,
+): ActionOutcome {
+  const allies = getAlliesInZone(entity, zone)
+    .sort((a, b) => a.hp / Math.max(1, a.maxHp) - b.hp / Math.max(1, b.maxHp));
+  for (const ally of allies) {
+    const attacker = findAttackerOf(ally, zone);
+    if (attacker) return { edict, targetOverride: attacker };
+  }
+  return unavailable("no ally is under attack");
+}
+
+function resolvePartyAnchor(
+  entity: Entity,
+  zone: ZoneView,
+  edict: Edict,
+): ActionOutcome {
+  const leaderId = getLeaderId(entity, zone);
+  if (!leaderId || leaderId === entity.id) return unavailable("no party leader to regroup on");
+  const leader = zone.entities.get(leaderId);
+  if (!leader || leader.hp <= 0) return unavailable("party leader not in zone");
+  if (distanceBetween(entity, leader) <= ANCHOR_REGROUP_RADIUS) return unavailable("already with the party leader");
+  return { edict, order: { action: "move", x: Math.round(leader.x), y: Math.round(leader.y) } };
+}
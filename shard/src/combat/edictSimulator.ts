@@ -0,0 +1,385 @@
+// ── Edict Simulator ─────────────────────────────────────────────────
+//
+// Dry-runs a player's edicts against a synthetic or snapshotted combat
+// situation and reports, per tick, which edict fired and why every edict
+// above it was skipped. Runs on detached copies — the live zone is never
+// touched.
+//
+// The simulation only tracks what edicts react to: cooldowns, essence
+// spent, effect/windup expiry, potion restores, interrupts and moves.
+// Damage and healing are not modelled; script them with `events`.
+
+import { randomUUID } from "crypto";
+import type { Edict } from "./edicts.js";
+import {
+  evaluateEdicts,
+  CONSUMABLE_COOLDOWN_KEY,
+  CONSUMABLE_COOLDOWN_TICKS,
+  INTERRUPT_COOLDOWN_KEY,
+  INTERRUPT_COOLDOWN_TICKS,
+  type EdictResult,
+  type EdictTraceStep,
+} from "./edictEvaluator.js";
+import { getTechniqueById } from "./techniques.js";
+import { getPotionEffect } from "../professions/potionEffects.js";
+import { getPartyLeaderId, getPartyMembers } from "../social/partySystem.js";
+import {
+  getAllZones,
+  getCastingSeverity,
+  getEntity,
+  type ActiveEffect,
+  type Entity,
+  type VisibleIntent,
+} from "../world/zoneRuntime.js";
+
+export const DEFAULT_SIMULATION_TICKS = 10;
+export const MAX_SIMULATION_TICKS = 120;
+/** Enemies this close to the player are included in a live snapshot. */
+const SNAPSHOT_ENEMY_RADIUS = 150;
+
+// ── Input shapes ────────────────────────────────────────────────────
+
+export interface SimEntityInput {
+  id?: string;
+  name?: string;
+  type?: "player" | "mob" | "boss";
+  classId?: string;
+  level?: number;
+  hp: number;
+  maxHp: number;
+  essence?: number;
+  maxEssence?: number;
+  x?: number;
+  y?: number;
+  learnedTechniques?: string[];
+  /** techniqueId (or edict cooldown key) → ticks until ready. */
+  cooldowns?: Record<string, number>;
+  activeEffects?: Array<{ name?: string; type: ActiveEffect["type"]; casterId?: string; remainingTicks: number }>;
+  /** Windup in progress: resolves after `ticks` (default 1). */
+  casting?: { techniqueId: string; targetId?: string; ticks?: number };
+}
+
+export interface EdictSituation {
+  self: SimEntityInput;
+  target?: SimEntityInput;
+  allies?: SimEntityInput[];
+  enemies?: SimEntityInput[];
+  /** Party leader id; defaults to self when allies are given. */
+  leaderId?: string;
+  /** World tick the simulation starts at (affects time_of_day). */
+  startTick?: number;
+}
+
+/** Scripted change applied at the start of simulated tick `atTick` (0-based). */
+export interface SimEvent {
+  atTick: number;
+  entityId: string;
+  hp?: number;
+  essence?: number;
+  x?: number;
+  y?: number;
+  casting?: SimEntityInput["casting"] | null;
+}
+
+// ── Output shapes ───────────────────────────────────────────────────
+
+export interface SimTick {
+  tick: number;
+  /** Edict that fired, or null when the default AI would take over. */
+  fired: { edictId: string; name: string; action: string } | null;
+  trace: EdictTraceStep[];
+  self: { hp: number; essence?: number; targetId: string | null };
+}
+
+export interface SimulationReport {
+  ticks: SimTick[];
+  firedCounts: Record<string, number>;
+  /** Enabled edicts that never fired during the run. */
+  neverFired: Array<{ edictId: string; name: string }>;
+}
+
+// ── Building the simulated zone ─────────────────────────────────────
+
+function toSimEntity(input: SimEntityInput, fallbackId: string, defaultType: string, tick: number): Entity {
+  const id = input.id ?? fallbackId;
+  const entity = {
+    id,
+    type: input.type ?? defaultType,
+    name: input.name ?? id,
+    x: input.x ?? 0,
+    y: input.y ?? 0,
+    hp: input.hp,
+    maxHp: input.maxHp,
+    createdAt: 0,
+    ...(input.classId && { classId: input.classId }),
+    ...(input.level != null && { level: input.level }),
+    ...(input.essence != null && { essence: input.essence }),
+    ...(input.maxEssence != null && { maxEssence: input.maxEssence }),
+    ...(input.learnedTechniques && { learnedTechniques: [...input.learnedTechniques] }),
+  } as Entity;
+
+  if (input.cooldowns) {
+    entity.cooldowns = new Map(Object.entries(input.cooldowns).map(([key, ticks]) => [key, tick + ticks]));
+  }
+  if (input.activeEffects) {
+    entity.activeEffects = input.activeEffects.map((e) => ({
+      id: randomUUID(),
+      techniqueId: "simulated",
+      name: e.name ?? e.type,
+      type: e.type,
+      casterId: e.casterId ?? id,
+      appliedAtTick: tick,
+      durationTicks: e.remainingTicks,
+      remainingTicks: e.remainingTicks,
+    }));
+  }
+  return entity;
+}
+
+function applyCasting(entity: Entity, casting: SimEntityInput["casting"] | null | undefined, fallbackTargetId: string, tick: number): void {
+  if (casting === undefined) return;
+  entity.castingIntent = casting
+    ? {
+        techniqueId: casting.techniqueId,
+        targetId: casting.targetId ?? fallbackTargetId,
+        startedAtTick: tick,
+        resolveAtTick: tick + Math.max(1, casting.ticks ?? 1),
+      }
+    : undefined;
+}
+
+function buildIntents(entities: Map<string, Entity>): VisibleIntent[] {
+  const intents: VisibleIntent[] = [];
+  for (const entity of entities.values()) {
+    if (!entity.castingIntent) continue;
+    const technique = getTechniqueById(entity.castingIntent.techniqueId);
+    const target = entities.get(entity.castingIntent.targetId);
+    const severity = technique
+      ? getCastingSeverity(entity, technique)
+      : entity.type === "boss" ? "dangerous" : "normal";
+    intents.push({
+      id: `intent:sim:${entity.id}:casting:${entity.castingIntent.techniqueId}`,
+      sourceId: entity.id,
+      sourceName: entity.name,
+      sourceType: entity.type,
+      targetId: entity.castingIntent.targetId,
+      targetName: target?.name ?? entity.castingIntent.targetId,
+      targetType: target?.type ?? "unknown",
+      category: technique?.type === "healing" ? "heal" : technique?.type === "buff" ? "buff" : technique?.type === "debuff" ? "debuff" : "attack",
+      delivery: technique?.animStyle ?? "instant",
+      severity,
+      state: "casting",
+      techniqueId: entity.castingIntent.techniqueId,
+      ...(technique && { techniqueName: technique.name }),
+    });
+  }
+  return intents;
+}
+
+function describeResult(result: EdictResult): string {
+  if (result.interruptTargetId) return `interrupt ${result.interruptTargetId}`;
+  if (result.consumableTokenId != null) return `use consumable ${result.consumableTokenId}`;
+  if (result.techniqueOverride) return `use technique ${result.techniqueOverride.id}`;
+  if (result.order?.action === "move") return `move to (${result.order.x}, ${result.order.y})`;
+  if (result.order?.action === "attack") return `attack ${result.order.targetId}`;
+  if (result.targetOverride) return `attack ${result.targetOverride.id}`;
+  return result.edict.action.type;
+}
+
+// ── Simulation ──────────────────────────────────────────────────────
+
+export function simulateEdicts(
+  edicts: Edict[],
+  situation: EdictSituation,
+  tickCount = DEFAULT_SIMULATION_TICKS,
+  events: SimEvent[] = [],
+): SimulationReport {
+  const ticks = Math.min(MAX_SIMULATION_TICKS, Math.max(1, Math.floor(tickCount)));
+  const startTick = situation.startTick ?? 0;
+
+  const self = toSimEntity(situation.self, "self", "player", startTick);
+  const target = situation.target ? toSimEntity(situation.target, "target", "mob", startTick) : null;
+  const allies = (situation.allies ?? []).map((a, i) => toSimEntity(a, `ally-${i + 1}`, "player", startTick));
+  const enemies = (situation.enemies ?? []).map((e, i) => toSimEntity(e, `enemy-${i + 1}`, "mob", startTick));
+
+  const entities = new Map<string, Entity>();
+  for (const entity of [self, ...allies, ...(target ? [target] : []), ...enemies]) entities.set(entity.id, entity);
+
+  // Enemy windups default to targeting the player
+  if (target) applyCasting(target, situation.target?.casting, self.id, startTick);
+  enemies.forEach((enemy, i) => applyCasting(enemy, situation.enemies?.[i]?.casting, self.id, startTick));
+  allies.forEach((ally, i) => applyCasting(ally, situation.allies?.[i]?.casting, target?.id ?? self.id, startTick));
+
+  const party = allies.length > 0
+    ? { memberIds: [self.id, ...allies.map((a) => a.id)], leaderId: situation.leaderId ?? self.id }
+    : { memberIds: [self.id], leaderId: situation.leaderId };
+
+  let currentTargetId = target?.id ?? null;
+  const report: SimulationReport = { ticks: [], firedCounts: {}, neverFired: [] };
+
+  for (let i = 0; i < ticks; i++) {
+    const tick = startTick + i;
+
+    for (const event of events) {
+      if (event.atTick !== i) continue;
+      const entity = entities.get(event.entityId);
+      if (!entity) continue;
+      if (event.hp != null) entity.hp = Math.max(0, Math.min(entity.maxHp, event.hp));
+      if (event.essence != null) entity.essence = event.essence;
+      if (event.x != null) entity.x = event.x;
+      if (event.y != null) entity.y = event.y;
+      applyCasting(entity, event.casting, self.id, tick);
+    }
+
+    // Effects tick down; finished windups resolve off-screen
+    for (const entity of entities.values()) {
+      if (entity.activeEffects) {
+        entity.activeEffects = entity.activeEffects.filter((e) => tick - e.appliedAtTick < e.durationTicks);
+        for (const effect of entity.activeEffects) effect.remainingTicks = effect.durationTicks - (tick - effect.appliedAtTick);
+      }
+      if (entity.castingIntent && tick >= entity.castingIntent.resolveAtTick) entity.castingIntent = undefined;
+    }
+
+    let currentTarget = currentTargetId ? entities.get(currentTargetId) ?? null : null;
+    if (!currentTarget || currentTarget.hp <= 0) {
+      currentTarget = enemies.find((e) => e.hp > 0) ?? null;
+      currentTargetId = currentTarget?.id ?? null;
+    }
+
+    const trace: EdictTraceStep[] = [];
+    const result = evaluateEdicts(self, { entities, tick, intents: buildIntents(entities), party }, edicts, currentTarget, trace);
+
+    if (result) {
+      report.firedCounts[result.edict.id] = (report.firedCounts[result.edict.id] ?? 0) + 1;
+      applySimulatedResult(self, result, entities, tick);
+      if (result.targetOverride) currentTargetId = result.targetOverride.id;
+      else if (result.order?.action === "attack" && result.order.targetId) currentTargetId = result.order.targetId;
+    }
+
+    report.ticks.push({
+      tick,
+      fired: result ? { edictId: result.edict.id, name: result.edict.name, action: describeResult(result) } : null,
+      trace,
+      self: { hp: self.hp, ...(self.essence != null && { essence: self.essence }), targetId: currentTargetId },
+    });
+  }
+
+  report.neverFired = edicts
+    .filter((e) => e.enabled && !report.firedCounts[e.id])
+    .map((e) => ({ edictId: e.id, name: e.name }));
+  return report;
+}
+
+/** Mirror the bookkeeping the zone tick does when an edict fires. */
+function applySimulatedResult(self: Entity, result: EdictResult, entities: Map<string, Entity>, tick: number): void {
+  if (!self.cooldowns) self.cooldowns = new Map();
+
+  if (result.interruptTargetId) {
+    const target = entities.get(result.interruptTargetId);
+    if (target) target.castingIntent = undefined;
+    self.cooldowns.set(INTERRUPT_COOLDOWN_KEY, tick + INTERRUPT_COOLDOWN_TICKS);
+    return;
+  }
+
+  if (result.consumableTokenId != null) {
+    self.cooldowns.set(CONSUMABLE_COOLDOWN_KEY, tick + CONSUMABLE_COOLDOWN_TICKS);
+    const effect = getPotionEffect(BigInt(result.consumableTokenId));
+    if (effect?.hpRestore) self.hp = Math.min(self.maxHp, self.hp + effect.hpRestore);
+    if (effect?.mpRestore && self.essence != null && self.maxEssence != null) {
+      self.essence = Math.min(self.maxEssence, self.essence + effect.mpRestore);
+    }
+    if (effect?.buff) {
+      self.activeEffects = (self.activeEffects ?? []).filter((e) => e.name !== effect.buff!.name);
+      self.activeEffects.push({
+        id: randomUUID(),
+        techniqueId: `potion-${result.consumableTokenId}`,
+        name: effect.buff.name,
+        type: effect.buff.type,
+        casterId: self.id,
+        appliedAtTick: tick,
+        durationTicks: effect.buff.durationTicks,
+        remainingTicks: effect.buff.durationTicks,
+      });
+    }
+    return;
+  }
+
+  if (result.techniqueOverride) {
+    const tech = result.techniqueOverride;
+    self.cooldowns.set(tech.id, tick + tech.cooldown);
+    if (self.essence != null) self.essence = Math.max(0, self.essence - tech.essenceCost);
+    return;
+  }
+
+  // Moves complete instantly in the simulation
+  if (result.order?.action === "move" && result.order.x != null && result.order.y != null) {
+    self.x = result.order.x;
+    self.y = result.order.y;
+  }
+}
+
+// ── Live snapshot ───────────────────────────────────────────────────
+
+function toSimInput(entity: Entity, tick: number): SimEntityInput {
+  const cooldowns: Record<string, number> = {};
+  for (const [key, expiresAt] of entity.cooldowns ?? []) {
+    if (expiresAt > tick) cooldowns[key] = expiresAt - tick;
+  }
+  return {
+    id: entity.id,
+    name: entity.name,
+    type: entity.type === "boss" || entity.type === "mob" ? entity.type : "player",
+    hp: entity.hp,
+    maxHp: entity.maxHp,
+    x: entity.x,
+    y: entity.y,
+    ...(entity.classId && { classId: entity.classId }),
+    ...(entity.level != null && { level: entity.level }),
+    ...(entity.essence != null && { essence: entity.essence }),
+    ...(entity.maxEssence != null && { maxEssence: entity.maxEssence }),
+    ...(entity.learnedTechniques && { learnedTechniques: [...entity.learnedTechniques] }),
+    ...(Object.keys(cooldowns).length > 0 && { cooldowns }),
+    ...(entity.activeEffects?.length && {
+      activeEffects: entity.activeEffects.map((e) => ({ name: e.name, type: e.type, casterId: e.casterId, remainingTicks: e.remainingTicks })),
+    }),
+    ...(entity.castingIntent && {
+      casting: {
+        techniqueId: entity.castingIntent.techniqueId,
+        targetId: entity.castingIntent.targetId,
+        ticks: Math.max(1, entity.castingIntent.resolveAtTick - tick),
+      },
+    }),
+  };
+}
+
+/** Capture a live player's current fight (party, nearby enemies, target) as a situation. */
+export function snapshotEdictSituation(entityId: string): EdictSituation | null {
+  const self = getEntity(entityId);
+  if (!self || !self.region) return null;
+  const zone = getAllZones().get(self.region);
+  if (!zone) return null;
+
+  const allies = getPartyMembers(self.id)
+    .filter((id) => id !== self.id)
+    .map((id) => zone.entities.get(id))
+    .filter((e): e is Entity => !!e && e.hp > 0);
+
+  const targetId = self.order && self.order.action !== "move" ? self.order.targetId : undefined;
+  const target = targetId ? zone.entities.get(targetId) : undefined;
+
+  const enemies: Entity[] = [];
+  for (const e of zone.entities.values()) {
+    if (e.type !== "mob" && e.type !== "boss") continue;
+    if (e.hp <= 0 || e.id === target?.id) continue;
+    if (Math.hypot(e.x - self.x, e.y - self.y) <= SNAPSHOT_ENEMY_RADIUS) enemies.push(e);
+  }
+
+  return {
+    self: toSimInput(self, zone.tick),
+    ...(target && target.hp > 0 && { target: toSimInput(target, zone.tick) }),
+    allies: allies.map((a) => toSimInput(a, zone.tick)),
+    enemies: enemies.map((e) => toSimInput(e, zone.tick)),
+    leaderId: getPartyLeaderId(self.id),
+    startTick: zone.tick,
+  };
+}
@@ -2,15 +2,24 @@
 //
 // Evaluated top-to-bottom each combat tick. First match wins.
 // If no edict matches, existing pickTechnique() AI takes over.
+// Conditions nest: an edict's top-level list is AND-ed, and any entry
+// may be an and/or/not group of further conditions.
 
 // ── Condition model ─────────────────────────────────────────────────
 
-export type EdictSubject = "self" | "target" | "ally_lowest_hp";
+export type EdictSubject =
+  | "self"
+  | "target"
+  | "ally_lowest_hp"
+  | "party_leader"
+  | "tank"              // party warrior/paladin with the most max HP
+  | "attacker"          // nearest enemy whose attack or cast targets self
+  | "any_ally";         // matches if ANY living party member (not self) passes
 
 export type EdictOperator =
-  | "lt" | "gt" | "gte" | "eq"     // numeric comparisons
+  | "lt" | "lte" | "gt" | "gte" | "eq"  // numeric comparisons
   | "has" | "not_has"               // effect presence
-  | "is";                           // type/class checks
+  | "is" | "is_not";                // type/class/readiness checks
 
 export type EdictConditionField =
   | "hp_pct"            // (hp / maxHp) * 100
@@ -19,6 +28,12 @@ export type EdictConditionField =
   | "active_effect"     // "buff" | "debuff" | "dot" | "shield"
   | "effect_from_self"  // "debuff" | "dot" — cast by this entity
   | "nearby_enemies"    // count within 70 units
+  | "cooldown_ready"    // value = techniqueId, learned and off cooldown
+  | "casting"           // "any" | "dangerous" — VisibleIntent severity of a windup in progress
+  | "distance"          // units from self to subject
+  | "level_gap"         // subject level minus own level
+  | "buff_stacks"       // number of active buffs on subject
+  | "time_of_day"       // "dawn" | "day" | "dusk" | "night"
   | "always";           // unconditional (catch-all)
 
 export interface EdictCondition {
@@ -28,6 +43,20 @@ export interface EdictCondition {
   value: number | string | boolean;
 }
 
+export type EdictGroupOperator = "and" | "or" | "not";
+
+/** and: every child passes. or: any child passes. not: no child passes. */
+export interface EdictConditionGroup {
+  op: EdictGroupOperator;
+  conditions: EdictConditionNode[];
+}
+
+export type EdictConditionNode = EdictCondition | EdictConditionGroup;
+
+export function isConditionGroup(node: EdictConditionNode): node is EdictConditionGroup {
+  return "op" in node;
+}
+
 // ── Action model ────────────────────────────────────────────────────
 
 export type EdictActionType =
@@ -35,7 +64,11 @@ export type EdictActionType =
   | "attack"            // basic auto-attack
   | "prefer_target"     // override target selection
   | "flee"              // disengage, move away
-  | "skip";             // do nothing this tick
+  | "skip"              // do nothing this tick
+  | "use_consumable"    // drink a potion/elixir/tonic from the wallet
+  | "interrupt"         // cancel the windup of a casting target or attacker
+  | "swap_to_ally_attacker" // attack whatever is hitting the lowest-HP ally
+  | "move_to_party_anchor"; // regroup on the party leader
 
 export type EdictTargetPreference = "nearest" | "weakest" | "strongest" | "boss";
 
@@ -43,6 +76,7 @@ export interface EdictAction {
   type: EdictActionType;
   techniqueId?: string;                         // for use_technique
   targetPreference?: EdictTargetPreference;     // for prefer_target
+  tokenId?: number;                             // for use_consumable
 }
 
 // ── Complete Edict rule ─────────────────────────────────────────────
@@ -51,34 +85,67 @@ export interface Edict {
   id: string;                   // client-generated uuid
   name: string;                 // human-readable label
   enabled: boolean;
-  conditions: EdictCondition[]; // ALL must be true (AND logic)
+  conditions: EdictConditionNode[]; // ALL must be true (AND logic)
   action: EdictAction;
 }
 
 // ── Constraints ─────────────────────────────────────────────────────
 
 export const MAX_EDICTS = 12;
-export const MAX_CONDITIONS_PER_EDICT = 3;
+/** Leaf conditions per edict, counted across all groups. */
+export const MAX_CONDITIONS_PER_EDICT = 6;
+/** Group nesting depth below the edict's top-level list. */
+export const MAX_CONDITION_DEPTH = 3;
 
 // ── Validation ──────────────────────────────────────────────────────
 
 const VALID_FIELDS: Set<string> = new Set<EdictConditionField>([
   "hp_pct", "essence_pct", "type", "active_effect",
-  "effect_from_self", "nearby_enemies", "always",
+  "effect_from_self", "nearby_enemies", "cooldown_ready", "casting",
+  "distance", "level_gap", "buff_stacks", "time_of_day", "always",
 ]);
 
 const VALID_OPERATORS: Set<string> = new Set<EdictOperator>([
-  "lt", "gt", "gte", "eq", "has", "not_has", "is",
+  "lt", "lte", "gt", "gte", "eq", "has", "not_has", "is", "is_not",
 ]);
 
 const VALID_SUBJECTS: Set<string> = new Set<EdictSubject>([
-  "self", "target", "ally_lowest_hp",
+  "self", "target", "ally_lowest_hp", "party_leader", "tank", "attacker", "any_ally",
 ]);
 
+const VALID_GROUP_OPERATORS: Set<string> = new Set<EdictGroupOperator>(["and", "or", "not"]);
+
 const VALID_ACTION_TYPES: Set<string> = new Set<EdictActionType>([
   "use_technique", "attack", "prefer_target", "flee", "skip",
+  "use_consumable", "interrupt", "swap_to_ally_attacker", "move_to_party_anchor",
 ]);
 
+/** Validates a condition list in place; returns an error string or the number of leaves. */
+function validateConditionList(list: unknown, path: string, depth: number): string | number {
+  if (!Array.isArray(list)) return `${path} must be an array`;
+  let leaves = 0;
+  for (let j = 0; j < list.length; j++) {
+    const c = list[j] as Record<string, unknown>;
+    const at = `${path}[${j}]`;
+    if (!c || typeof c !== "object") return `${at} must be an object`;
+    if ("op" in c) {
+      if (!VALID_GROUP_OPERATORS.has(c.op as string)) return `${at}.op invalid`;
+      if (depth >= MAX_CONDITION_DEPTH) return `${at} nests deeper than ${MAX_CONDITION_DEPTH} groups`;
+      if (Array.isArray(c.conditions) && c.conditions.length === 0) return `${at}.conditions must not be empty`;
+      const nested = validateConditionList(c.conditions, `${at}.conditions`, depth + 1);
+      if (typeof nested === "string") return nested;
+      leaves += nested;
+      continue;
+    }
+    if (!VALID_SUBJECTS.has(c.subject as string)) return `${at}.subject invalid`;
+    if (!VALID_FIELDS.has(c.field as string)) return `${at}.field invalid`;
+    if (!VALID_OPERATORS.has(c.operator as string)) return `${at}.operator invalid`;
+    if (c.field === "cooldown_ready" && typeof c.value !== "string") return `${at}.value must be a techniqueId`;
+    leaves++;
+  }
+  return leaves;
+}
+
 export function validateEdicts(edicts: unknown): { valid: boolean; error?: string } {
   if (!Array.isArray(edicts)) return { valid: false, error: "edicts must be an array" };
   if (edicts.length > MAX_EDICTS) return { valid: false, error: `max ${MAX_EDICTS} edicts` };
@@ -90,16 +157,9 @@ export function validateEdicts(edicts: unknown): { valid: boolean; error?: strin
     if (typeof e.name !== "string") return { valid: false, error: `edict[${i}].name must be a string` };
     if (typeof e.enabled !== "boolean") return { valid: false, error: `edict[${i}].enabled must be boolean` };
 
-    const conditions = e.conditions;
-    if (!Array.isArray(conditions)) return { valid: false, error: `edict[${i}].conditions must be an array` };
-    if (conditions.length > MAX_CONDITIONS_PER_EDICT) return { valid: false, error: `edict[${i}] max ${MAX_CONDITIONS_PER_EDICT} conditions` };
-
-    for (let j = 0; j < conditions.length; j++) {
-      const c = conditions[j] as Record<string, unknown>;
-      if (!VALID_SUBJECTS.has(c.subject as string)) return { valid: false, error: `edict[${i}].conditions[${j}].subject invalid` };
-      if (!VALID_FIELDS.has(c.field as string)) return { valid: false, error: `edict[${i}].conditions[${j}].field invalid` };
-      if (!VALID_OPERATORS.has(c.operator as string)) return { valid: false, error: `edict[${i}].conditions[${j}].operator invalid` };
-    }
+    const leaves = validateConditionList(e.conditions, `edict[${i}].conditions`, 0);
+    if (typeof leaves === "string") return { valid: false, error: leaves };
+    if (leaves > MAX_CONDITIONS_PER_EDICT) return { valid: false, error: `edict[${i}] max ${MAX_CONDITIONS_PER_EDICT} conditions` };
 
     const action = e.action as Record<string, unknown>;
     if (!action || typeof action !== "object") return { valid: false, error: `edict[${i}].action must be an object` };
@@ -107,6 +167,9 @@ export function validateEdicts(edicts: unknown): { valid: boolean; error?: strin
     if (action.type === "use_technique" && typeof action.techniqueId !== "string") {
       return { valid: false, error: `edict[${i}].action.techniqueId required for use_technique` };
     }
+    if (action.type === "use_consumable" && !Number.isInteger(action.tokenId)) {
+      return { valid: false, error: `edict[${i}].action.tokenId required for use_consumable` };
+    }
   }
 
   return { valid: true };
@@ -9,6 +9,7 @@
 import { createHash } from "crypto";
 import type { TechniqueDefinition, TechniqueType, TargetType, TechniqueEffect, AnimStyle } from "./techniques.js";
 import { registerTechniqueFallbackLookup } from "./techniques.js";
+import { mulberry32, seedToUint32 } from "../world/rng.js";
 
 // ── Types ──────────────────────────────────────────────────────────────
 
@@ -22,22 +23,7 @@ export interface EssenceTechnique extends TechniqueDefinition {
   displayColor: string;
 }
 
-// ── Seeded PRNG (mulberry32) ───────────────────────────────────────────
-
-function seedToUint32(seed: string): number {
-  const hash = createHash("sha256").update(seed).digest();
-  return hash.readUInt32BE(0);
-}
-
-function mulberry32(seed: number): () => number {
-  let state = seed | 0;
-  return () => {
-    state = (state + 0x6d2b79f5) | 0;
-    let t = Math.imul(state ^ (state >>> 15), 1 | state);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
+// ── Seeded PRNG (mulberry32, shared with world/rng.ts) ─────────────────
 
 /** Returns a float in [min, max) */
 function rngRange(rng: () => number, min: number, max: number): number {
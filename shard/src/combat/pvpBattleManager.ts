@@ -18,6 +18,9 @@ import { pvpReputationIntegration } from "./pvpReputationIntegration.js";
 import { getRedis } from "../redis.js";
 import { arenaManager, type ArenaMatchState, type ArenaMatchResult } from "./arenaManager.js";
 import { predictionPoolManager } from "../economy/predictionPoolManager.js";
+import { advanceQuestObjectives } from "../social/questSystem.js";
+import { getEntity } from "../world/zoneRuntime.js";
+import { recordPvpWinAchievements } from "../erc8004/achievementClaims.js";
 
 export interface PvPDatabase {
   // Player stats
@@ -477,6 +480,10 @@ export class PvPBattleManager {
       const won = isFFA
         ? combatant.entityId === result.ffaWinnerId
         : combatant.team === result.winner;
+      if (won) {
+        const winner = getEntity(agentId);
+        if (winner?.type === "player") advanceQuestObjectives(winner, { type: "pvp_win" });
+      }
 
       // Calculate ELO change using real stored ELO
       const opponentElos = result.combatants
@@ -496,6 +503,8 @@ export class PvPBattleManager {
       if (won) {
         stats.wins++;
         stats.currentStreak = stats.currentStreak >= 0 ? stats.currentStreak + 1 : 1;
+        const winner = getEntity(agentId);
+        if (winner?.type === "player") recordPvpWinAchievements(winner, stats.wins);
       } else {
         stats.losses++;
         stats.currentStreak = stats.currentStreak <= 0 ? stats.currentStreak - 1 : -1;
@@ -579,6 +588,8 @@ export class PvPBattleManager {
       if (won) {
         stats.wins++;
         stats.currentStreak = stats.currentStreak >= 0 ? stats.currentStreak + 1 : 1;
+        const winner = getEntity(player.agentId);
+        if (winner?.type === "player") recordPvpWinAchievements(winner, stats.wins);
       } else {
         stats.losses++;
         stats.currentStreak = stats.currentStreak <= 0 ? stats.currentStreak - 1 : -1;
@@ -598,6 +609,8 @@ export class PvPBattleManager {
       if (won) {
         stats.wins++;
         stats.currentStreak = stats.currentStreak >= 0 ? stats.currentStreak + 1 : 1;
+        const winner = getEntity(player.agentId);
+        if (winner?.type === "player") recordPvpWinAchievements(winner, stats.wins);
       } else {
         stats.losses++;
         stats.currentStreak = stats.currentStreak <= 0 ? stats.currentStreak - 1 : -1;
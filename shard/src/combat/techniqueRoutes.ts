@@ -1,7 +1,14 @@
 import type { FastifyInstance } from "fastify";
 import { getTechniquesByClass, getLearnedTechniques, getTechniqueById, getRequiredPreviousRank, getPreviousRankId } from "./techniques.js";
 import type { TechniqueDefinition } from "./techniques.js";
-import { getOrCreateZone, getEntity, recalculateEntityVitals, unregisterSpawnedWallet } from "../world/zoneRuntime.js";
+import {
+  getOrCreateZone,
+  getEntity,
+  getSetTechniqueModifiers,
+  recalculateEntityVitals,
+  reindexEntity,
+  unregisterSpawnedWallet,
+} from "../world/zoneRuntime.js";
 import { clampToZoneBounds } from "../world/worldLayout.js";
 import type { Entity, ActiveEffect, ZoneState } from "../world/zoneRuntime.js";
 import { getAvailableGoldAsync, recordGoldSpendAsync } from "../blockchain/goldLedger.js";
@@ -12,6 +19,8 @@ import { saveCharacter } from "../character/characterStore.js";
 import { copperToGold } from "../blockchain/currency.js";
 import { logZoneEvent } from "../world/zoneEvents.js";
 import { getPartyMembers } from "../social/partySystem.js";
+import { advanceQuestObjectives } from "../social/questSystem.js";
+import { addSupportThreat, addThreat, applyTaunt, HEAL_THREAT_RATIO, SHIELD_THREAT_RATIO } from "./threat.js";
 
 export function registerTechniqueRoutes(server: FastifyInstance): void {
   // Get all techniques for a class
@@ -329,6 +338,7 @@ export function registerTechniqueRoutes(server: FastifyInstance): void {
       caster.cooldowns = new Map();
     }
     caster.cooldowns.set(techniqueId, cooldownExpiresAtTick);
+    if (caster.type === "player") advanceQuestObjectives(caster, { type: "use_technique", techniqueId });
 
     // Party-targeted techniques: apply to all party members
     if (technique.targetType === "party") {
@@ -430,11 +440,14 @@ function applyTechniqueEffects(
 ): any {
   const { effects, type } = technique;
   const result: any = {};
+  const threatMultiplier = effects.threatMultiplier ?? 1;
+  const setModifiers = getSetTechniqueModifiers(caster);
+  const healMultiplier = 1 + setModifiers.healingPct / 100;
 
   // Attack techniques
   if (type === "attack" && effects.damageMultiplier) {
     const baseDamage = calculateBaseDamage(caster);
-    const damage = Math.floor(baseDamage * effects.damageMultiplier);
+    const damage = Math.floor(baseDamage * effects.damageMultiplier * (1 + setModifiers.damagePct / 100));
 
     if (effects.maxTargets && effects.maxTargets > 1) {
       // Multi-target attack
@@ -442,6 +455,7 @@ function applyTechniqueEffects(
       result.targets = targets.map((t: Entity) => {
         const actualDamage = Math.min(damage, t.hp);
         t.hp = Math.max(0, t.hp - damage);
+        addThreat(t, caster.id, actualDamage * threatMultiplier);
         if (t.hp === 0) {
           if (t.type === "mob" || t.type === "boss") {
             zone.entities.delete(t.id);
@@ -455,6 +469,7 @@ function applyTechniqueEffects(
       // Single target attack
       const actualDamage = Math.min(damage, target.hp);
       target.hp = Math.max(0, target.hp - damage);
+      addThreat(target, caster.id, actualDamage * threatMultiplier);
       result.damage = actualDamage;
       result.targetHp = target.hp;
 
@@ -513,7 +528,7 @@ function applyTechniqueEffects(
   if (type === "healing" && effects.healAmount) {
     if (effects.duration && effects.duration > 0) {
       // Heal-over-time (Renew, Nature's Blessing, Meditation)
-      const totalHeal = Math.floor(target.maxHp * (effects.healAmount / 100));
+      const totalHeal = Math.floor(target.maxHp * (effects.healAmount / 100) * healMultiplier);
       const healPerTick = Math.max(1, Math.floor(totalHeal / effects.duration));
       const hotEffect: ActiveEffect = {
         id: randomUUID(),
@@ -532,9 +547,10 @@ function applyTechniqueEffects(
       result.duration = effects.duration;
     } else {
       // Instant heal (Holy Light, Lay on Hands)
-      const healAmount = Math.floor(target.maxHp * (effects.healAmount / 100));
+      const healAmount = Math.floor(target.maxHp * (effects.healAmount / 100) * healMultiplier);
       const actualHeal = Math.min(healAmount, target.maxHp - target.hp);
       target.hp = Math.min(target.maxHp, target.hp + actualHeal);
+      addSupportThreat(caster.id, target.id, actualHeal * HEAL_THREAT_RATIO * threatMultiplier, zone.entities.values());
       result.healing = actualHeal;
       result.targetHp = target.hp;
     }
@@ -563,6 +579,7 @@ function applyTechniqueEffects(
       const healAmount = Math.floor(target.maxHp * (effects.healAmount / 100));
       const actualHeal = Math.min(healAmount, target.maxHp - target.hp);
       target.hp = Math.min(target.maxHp, target.hp + actualHeal);
+      addSupportThreat(caster.id, target.id, actualHeal * HEAL_THREAT_RATIO * threatMultiplier, zone.entities.values());
       result.healing = actualHeal;
     }
 
@@ -582,6 +599,7 @@ function applyTechniqueEffects(
         shieldMaxHp: shieldHp,
       };
       addActiveEffect(target, shieldEffect);
+      addSupportThreat(caster.id, target.id, shieldHp * SHIELD_THREAT_RATIO * threatMultiplier, zone.entities.values());
       result.shield = shieldHp;
     }
 
@@ -660,10 +678,16 @@ function applyTechniqueEffects(
       shieldMaxHp: shieldHp,
     };
     addActiveEffect(target, shieldEffect);
+    addSupportThreat(caster.id, target.id, shieldHp * SHIELD_THREAT_RATIO * threatMultiplier, zone.entities.values());
     result.shield = shieldHp;
     result.duration = effects.duration;
   }
 
+  if (effects.taunt) {
+    applyTaunt(target, caster.id, zone.tick);
+    result.taunted = true;
+  }
+
   // ── Knockback: push target away from caster ──────────────────────
   if (effects.knockback && target.id !== caster.id) {
     const dx = target.x - caster.x;
@@ -674,6 +698,7 @@ function applyTechniqueEffects(
     target.x += Math.round(nx * effects.knockback);
     target.y += Math.round(ny * effects.knockback);
     clampToZoneBounds(target, zone.zoneId);
+    reindexEntity(target);
     result.knockback = effects.knockback;
     result.targetNewX = target.x;
     result.targetNewZ = target.y;
@@ -691,6 +716,7 @@ function applyTechniqueEffects(
     caster.x += Math.round(nx * lungeActual);
     caster.y += Math.round(ny * lungeActual);
     clampToZoneBounds(caster, zone.zoneId);
+    reindexEntity(caster);
     result.lunge = effects.lunge;
     result.casterNewX = caster.x;
     result.casterNewZ = caster.y;
@@ -13,6 +13,8 @@ export interface TechniqueEffect {
   maxTargets?: number; // For multi-target attacks
   knockback?: number; // Push target away from caster (world units)
   lunge?: number; // Dash caster toward target (world units)
+  threatMultiplier?: number; // Scales threat from this technique's damage/healing (default 1)
+  taunt?: boolean; // Target jumps to the caster and stays fixed on them briefly
 }
 
 /**
@@ -46,17 +48,17 @@ export const TECHNIQUES: TechniqueDefinition[] = [
     description: "Powerful melee strike dealing 150% weapon damage",
     className: "warrior", levelRequired: 1, copperCost: 10, essenceCost: 15, cooldown: 6,
     type: "attack", targetType: "enemy", animStyle: "melee",
-    effects: { damageMultiplier: 1.5 } },
+    effects: { damageMultiplier: 1.5, threatMultiplier: 2 } },
   { id: "warrior_shield_wall", name: "Shield Wall",
     description: "Increases defense by 50% for 10 seconds",
     className: "warrior", levelRequired: 3, copperCost: 30, essenceCost: 20, cooldown: 30,
     type: "buff", targetType: "self",
     effects: { statBonus: { def: 50 }, duration: 10 } },
   { id: "warrior_intimidating_shout", name: "Intimidating Shout",
-    description: "Reduces enemy attack power by 30% for 8 seconds",
+    description: "Taunts the enemy and reduces its attack power by 30% for 8 seconds",
     className: "warrior", levelRequired: 6, copperCost: 60, essenceCost: 25, cooldown: 20,
     type: "debuff", targetType: "enemy", animStyle: "area",
-    effects: { statReduction: { str: 30 }, duration: 8 } },
+    effects: { statReduction: { str: 30 }, duration: 8, taunt: true } },
   { id: "warrior_battle_rage", name: "Battle Rage",
     description: "Increases strength by 40% for 12 seconds",
     className: "warrior", levelRequired: 9, copperCost: 90, essenceCost: 30, cooldown: 45,
@@ -88,7 +90,7 @@ export const TECHNIQUES: TechniqueDefinition[] = [
     description: "Holy ground deals damage over time to enemies standing in it",
     className: "paladin", levelRequired: 9, copperCost: 90, essenceCost: 35, cooldown: 25,
     type: "debuff", targetType: "area", animStyle: "area",
-    effects: { dotDamage: 10, duration: 8, areaRadius: 5 } },
+    effects: { dotDamage: 10, duration: 8, areaRadius: 5, threatMultiplier: 2 } },
   { id: "paladin_blessing_of_might", name: "Blessing of Might",
     description: "Increases strength by 25% for 15 seconds",
     className: "paladin", levelRequired: 12, copperCost: 120, essenceCost: 25, cooldown: 30,
@@ -266,7 +268,7 @@ export const TECHNIQUES: TechniqueDefinition[] = [
     description: "Powerful melee strike dealing 210% weapon damage",
     className: "warrior", levelRequired: 14, copperCost: 300, essenceCost: 20, cooldown: 5,
     type: "attack", targetType: "enemy", animStyle: "melee",
-    effects: { damageMultiplier: 2.1, lunge: 8 } },
+    effects: { damageMultiplier: 2.1, lunge: 8, threatMultiplier: 2 } },
   { id: "warrior_battle_rage_r2", name: "Battle Rage R2",
     description: "Increases strength by 60% for 15 seconds",
     className: "warrior", levelRequired: 18, copperCost: 400, essenceCost: 35, cooldown: 40,
@@ -281,7 +283,7 @@ export const TECHNIQUES: TechniqueDefinition[] = [
     description: "Devastating melee strike dealing 280% weapon damage",
     className: "warrior", levelRequired: 24, copperCost: 900, essenceCost: 25, cooldown: 5,
     type: "attack", targetType: "enemy", animStyle: "melee",
-    effects: { damageMultiplier: 2.8, knockback: 12, lunge: 10 } },
+    effects: { damageMultiplier: 2.8, knockback: 12, lunge: 10, threatMultiplier: 2 } },
   { id: "warrior_rallying_cry", name: "Rallying Cry",
     description: "War cry granting +35% DEF for 12s and healing 15% HP",
     className: "warrior", levelRequired: 16, copperCost: 450, essenceCost: 30, cooldown: 35,
@@ -303,7 +305,7 @@ export const TECHNIQUES: TechniqueDefinition[] = [
     description: "Holy ground dealing 15 damage/tick over 10s in radius 7",
     className: "paladin", levelRequired: 18, copperCost: 400, essenceCost: 40, cooldown: 22,
     type: "debuff", targetType: "area", animStyle: "area",
-    effects: { dotDamage: 15, duration: 10, areaRadius: 7 } },
+    effects: { dotDamage: 15, duration: 10, areaRadius: 7, threatMultiplier: 2 } },
   { id: "paladin_lay_on_hands_r2", name: "Lay on Hands R2",
     description: "Powerful self-heal restoring 75% max HP",
     className: "paladin", levelRequired: 20, copperCost: 500, essenceCost: 55, cooldown: 100,
@@ -531,7 +533,7 @@ export const TECHNIQUES: TechniqueDefinition[] = [
     description: "Earth-shattering strike dealing 370% damage, lunging forward and sending the target flying",
     className: "warrior", levelRequired: 30, copperCost: 1800, essenceCost: 30, cooldown: 4,
     type: "attack", targetType: "enemy", animStyle: "melee",
-    effects: { damageMultiplier: 3.7, knockback: 16, lunge: 14 } },
+    effects: { damageMultiplier: 3.7, knockback: 16, lunge: 14, threatMultiplier: 2 } },
   { id: "warrior_titans_charge", name: "Titan's Charge",
     description: "Hurtle across the battlefield and slam into the target, dealing 220% damage and crippling their agility by 90% for 6s",
     className: "warrior", levelRequired: 30, copperCost: 2200, essenceCost: 50, cooldown: 25,
@@ -0,0 +1,136 @@
+// ── Threat tables: who a mob or boss wants to hit ───────────────────
+//
+// Each mob/boss keeps threat per player (entity.threat). Damage adds
+// threat 1:1, healing and shields add threat split across every mob
+// already fighting the healed player, and techniques scale it with
+// TechniqueEffect.threatMultiplier. A taunt jumps the caster to the top
+// of the table and fixes the mob on them for a few ticks.
+//
+// Target switching follows the classic overaggro rule: a challenger must
+// exceed the current target's threat by 10% in melee range or 30% at
+// range, so tanks don't lose a mob to a single lucky crit.
+
+import type { Entity } from "../world/zoneRuntime.js";
+
+/** Healing threat per HP healed, before splitting across mobs. */
+export const HEAL_THREAT_RATIO = 0.5;
+/** Shield threat per HP absorbed-capacity granted, before splitting. */
+export const SHIELD_THREAT_RATIO = 0.5;
+/** Threat a mob gets toward a player it aggroes on by proximity. */
+export const PROXIMITY_THREAT = 1;
+/** A taunt puts the caster this far above the current top threat. */
+const TAUNT_THREAT_MARGIN = 1.1;
+/** Ticks a taunted mob stays fixed on the taunter. */
+export const TAUNT_FIXATE_TICKS = 6;
+
+const MELEE_SWITCH_RATIO = 1.1;
+const RANGED_SWITCH_RATIO = 1.3;
+const MELEE_SWITCH_RANGE = 40;
+/** Entries returned per mob in the zone payload. */
+const THREAT_SNAPSHOT_LIMIT = 5;
+
+function holdsThreat(entity: Entity): boolean {
+  return entity.type === "mob" || entity.type === "boss";
+}
+
+export function addThreat(mob: Entity, sourceId: string, amount: number): void {
+  if (!holdsThreat(mob) || amount <= 0) return;
+  if (!mob.threat) mob.threat = new Map();
+  mob.threat.set(sourceId, (mob.threat.get(sourceId) ?? 0) + amount);
+}
+
+/**
+ * Support threat (healing, shields): split across every mob that already
+ * has the supported player — or the supporter — on its table. Support on
+ * players nobody is fighting generates no threat.
+ */
+export function addSupportThreat(
+  supporterId: string,
+  supportedId: string,
+  amount: number,
+  entities: Iterable<Entity>,
+): void {
+  if (amount <= 0) return;
+  const engaged: Entity[] = [];
+  for (const e of entities) {
+    if (!holdsThreat(e) || e.hp <= 0 || !e.threat) continue;
+    if (e.threat.has(supportedId) || e.threat.has(supporterId)) engaged.push(e);
+  }
+  if (engaged.length === 0) return;
+  const share = amount / engaged.length;
+  for (const mob of engaged) addThreat(mob, supporterId, share);
+}
+
+export function applyTaunt(mob: Entity, taunterId: string, tick: number): void {
+  if (!holdsThreat(mob)) return;
+  let top = 0;
+  for (const value of mob.threat?.values() ?? []) top = Math.max(top, value);
+  const current = mob.threat?.get(taunterId) ?? 0;
+  addThreat(mob, taunterId, Math.max(1, top * TAUNT_THREAT_MARGIN - current));
+  mob.tauntedBy = { entityId: taunterId, untilTick: tick + TAUNT_FIXATE_TICKS };
+}
+
+export function clearThreat(mob: Entity): void {
+  mob.threat = undefined;
+  mob.tauntedBy = undefined;
+}
+
+/** Remove a player from every table (death, logout, zone change). */
+export function dropThreatSource(sourceId: string, entities: Iterable<Entity>): void {
+  for (const e of entities) {
+    if (!e.threat?.delete(sourceId)) continue;
+    if (e.threat.size === 0) e.threat = undefined;
+    if (e.tauntedBy?.entityId === sourceId) e.tauntedBy = undefined;
+  }
+}
+
+/**
+ * The player this mob should be attacking, or null when its table holds no
+ * one it can reach. Prunes entries for players that died or left.
+ */
+export function pickThreatTarget(
+  mob: Entity,
+  entities: Map<string, Entity>,
+  maxRange: number,
+  tick: number,
+): Entity | null {
+  if (!mob.threat) return null;
+
+  const candidates: Array<{ entity: Entity; threat: number; dist: number }> = [];
+  for (const [sourceId, threat] of mob.threat) {
+    const source = entities.get(sourceId);
+    if (!source || source.type !== "player" || source.hp <= 0) {
+      mob.threat.delete(sourceId);
+      continue;
+    }
+    const dist = Math.hypot(source.x - mob.x, source.y - mob.y);
+    if (dist <= maxRange) candidates.push({ entity: source, threat, dist });
+  }
+  if (mob.threat.size === 0) mob.threat = undefined;
+  if (candidates.length === 0) return null;
+
+  if (mob.tauntedBy) {
+    const taunter = candidates.find((c) => c.entity.id === mob.tauntedBy!.entityId);
+    if (taunter && tick < mob.tauntedBy.untilTick) return taunter.entity;
+    mob.tauntedBy = undefined;
+  }
+
+  let top = candidates[0];
+  for (const c of candidates) if (c.threat > top.threat) top = c;
+
+  const currentId = mob.order && mob.order.action !== "move" ? mob.order.targetId : undefined;
+  const current = candidates.find((c) => c.entity.id === currentId);
+  if (!current || current === top) return top.entity;
+
+  const ratio = top.dist <= MELEE_SWITCH_RANGE ? MELEE_SWITCH_RATIO : RANGED_SWITCH_RATIO;
+  return top.threat > current.threat * ratio ? top.entity : current.entity;
+}
+
+/** Highest-threat entries for the zone payload. */
+export function getThreatSnapshot(mob: Entity): Array<{ entityId: string; threat: number }> {
+  if (!mob.threat) return [];
+  return [...mob.threat]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, THREAT_SNAPSHOT_LIMIT)
+    .map(([entityId, threat]) => ({ entityId, threat: Math.round(threat) }));
+}
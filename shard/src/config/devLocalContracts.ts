@@ -13,6 +13,7 @@ const TRUE_VALUES = new Set(["1", "true", "yes", "on"]);
 const DEV_ENABLED = TRUE_VALUES.has((process.env.DEV ?? "").trim().toLowerCase());
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 const SHARD_CHAIN_ENV = (process.env.SHARD_CHAIN_ENV ?? "").trim().toLowerCase();
+const MEMORY_CHAIN_ENABLED = (process.env.CHAIN_MODE ?? "").trim().toLowerCase() === "memory";
 const HARDHAT_ACCOUNT_0_PRIVATE_KEY =
   "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
 
@@ -178,11 +179,50 @@ function applyChainPreset(presetName: string): void {
   }
 }
 
-if (SHARD_CHAIN_ENV && CHAIN_PRESETS[SHARD_CHAIN_ENV]) {
+/**
+ * CHAIN_MODE=memory: serve an in-process chain (blockchain/memoryChain.ts)
+ * at the local preset's contract addresses and point the RPC at it. It
+ * overrides SHARD_CHAIN_ENV, DEV manifests and any addresses in .env;
+ * contracts it does not emulate are unset so those features stay off.
+ */
+async function applyMemoryChain(): Promise<void> {
+  const { startMemoryChain, parseMemoryChainFailures } = await import("../blockchain/memoryChain.js");
+  const { MEMORY_CHAIN_CONTRACT_KEYS } = await import("../blockchain/memoryChainContracts.js");
+
+  const ownerPrivateKey =
+    process.env.LOCAL_SERVER_PRIVATE_KEY ||
+    process.env.HARDHAT_LOCAL_SERVER_PRIVATE_KEY ||
+    HARDHAT_ACCOUNT_0_PRIVATE_KEY;
+  const addresses = Object.fromEntries(
+    MEMORY_CHAIN_CONTRACT_KEYS.map((key) => [key, LOCAL_PRESET.environment[key]])
+  ) as Record<(typeof MEMORY_CHAIN_CONTRACT_KEYS)[number], string>;
+
+  const { url } = await startMemoryChain({
+    chainId: Number(LOCAL_PRESET.chainId),
+    ownerPrivateKey,
+    addresses,
+    failures: parseMemoryChainFailures(process.env.CHAIN_MEMORY_FAILURES),
+    timeoutMs: Number(process.env.CHAIN_MEMORY_TIMEOUT_MS) || undefined,
+    port: Number(process.env.CHAIN_MEMORY_PORT) || 0,
+  });
+
+  for (const key of Object.keys(LOCAL_PRESET.environment)) {
+    delete process.env[key];
+  }
+  Object.assign(process.env, addresses);
+  process.env.SKALE_BASE_CHAIN_ID = LOCAL_PRESET.chainId;
+  process.env.SKALE_BASE_RPC_URL = url;
+  process.env.SERVER_PRIVATE_KEY = ownerPrivateKey;
+  console.log(`[chain] CHAIN_MODE=memory — in-process chain at ${url}`);
+}
+
+if (MEMORY_CHAIN_ENABLED) {
+  await applyMemoryChain();
+} else if (SHARD_CHAIN_ENV && CHAIN_PRESETS[SHARD_CHAIN_ENV]) {
   applyChainPreset(SHARD_CHAIN_ENV);
 }
 
-if (DEV_ENABLED) {
+if (DEV_ENABLED && !MEMORY_CHAIN_ENABLED) {
   if (!SHARD_CHAIN_ENV || SHARD_CHAIN_ENV === "local") {
     process.env.SKALE_BASE_CHAIN_ID ??= "31337";
     process.env.SKALE_BASE_RPC_URL ??= process.env.HARDHAT_RPC_URL || "http://127.0.0.1:8545";
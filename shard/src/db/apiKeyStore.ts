@@ -0,0 +1,104 @@
+import { isPostgresConfigured, postgresQuery } from "./postgres.js";
+import type { ApiKeyRecord, ApiKeyScope } from "../auth/apiKeys.js";
+
+interface ApiKeyRow {
+  key_id: string;
+  wallet_address: string;
+  name: string;
+  scopes_json: ApiKeyScope[];
+  key_hash: string;
+  rate_limit_per_minute: number | null;
+  created_at_ms: string;
+  expires_at_ms: string | null;
+  revoked_at_ms: string | null;
+  last_used_at_ms: string | null;
+}
+
+const API_KEY_COLUMNS = `
+  key_id,
+  wallet_address,
+  name,
+  scopes_json,
+  key_hash,
+  rate_limit_per_minute,
+  (extract(epoch from created_at) * 1000)::bigint::text as created_at_ms,
+  (extract(epoch from expires_at) * 1000)::bigint::text as expires_at_ms,
+  (extract(epoch from revoked_at) * 1000)::bigint::text as revoked_at_ms,
+  (extract(epoch from last_used_at) * 1000)::bigint::text as last_used_at_ms
+`;
+
+function mapApiKeyRow(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    keyId: row.key_id,
+    walletAddress: row.wallet_address,
+    name: row.name,
+    scopes: row.scopes_json ?? [],
+    keyHash: row.key_hash,
+    rateLimitPerMinute: row.rate_limit_per_minute,
+    createdAt: Number(row.created_at_ms),
+    expiresAt: row.expires_at_ms != null ? Number(row.expires_at_ms) : null,
+    revokedAt: row.revoked_at_ms != null ? Number(row.revoked_at_ms) : null,
+    lastUsedAt: row.last_used_at_ms != null ? Number(row.last_used_at_ms) : null,
+  };
+}
+
+export async function insertApiKey(record: ApiKeyRecord): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `
+      insert into game.api_keys (
+        key_id, wallet_address, name, scopes_json, key_hash,
+        rate_limit_per_minute, created_at, expires_at, updated_at
+      ) values (
+        $1, $2, $3, $4::jsonb, $5, $6,
+        to_timestamp($7::double precision / 1000.0),
+        case when $8::double precision is null then null else to_timestamp($8::double precision / 1000.0) end,
+        now()
+      )
+    `,
+    [
+      record.keyId,
+      record.walletAddress.toLowerCase(),
+      record.name,
+      JSON.stringify(record.scopes),
+      record.keyHash,
+      record.rateLimitPerMinute,
+      record.createdAt,
+      record.expiresAt,
+    ]
+  );
+}
+
+export async function getApiKey(keyId: string): Promise<ApiKeyRecord | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<ApiKeyRow>(
+    `select ${API_KEY_COLUMNS} from game.api_keys where key_id = $1 limit 1`,
+    [keyId]
+  );
+  return rows[0] ? mapApiKeyRow(rows[0]) : null;
+}
+
+export async function listApiKeysForWallet(walletAddress: string): Promise<ApiKeyRecord[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<ApiKeyRow>(
+    `select ${API_KEY_COLUMNS} from game.api_keys where wallet_address = $1 order by created_at desc`,
+    [walletAddress.toLowerCase()]
+  );
+  return rows.map(mapApiKeyRow);
+}
+
+export async function revokeApiKeyRecord(keyId: string): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `update game.api_keys set revoked_at = coalesce(revoked_at, now()), updated_at = now() where key_id = $1`,
+    [keyId]
+  );
+}
+
+export async function touchApiKey(keyId: string): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `update game.api_keys set last_used_at = now() where key_id = $1`,
+    [keyId]
+  );
+}
@@ -745,6 +745,148 @@ export async function ensureGameSchema(): Promise<void> {
           normalized_name text not null unique,
           updated_at timestamptz not null default now()
         );
+
+        create table if not exists game.leaderboard_seasons (
+          season_id text primary key,
+          name text not null,
+          starts_at timestamptz not null,
+          ends_at timestamptz not null,
+          status text not null default 'scheduled',
+          rewards_json jsonb not null default '[]'::jsonb,
+          archived_at timestamptz,
+          updated_at timestamptz not null default now()
+        );
+
+        create table if not exists game.leaderboard_scores (
+          season_id text not null,
+          category text not null,
+          wallet_address text not null,
+          normalized_name text not null,
+          character_name text not null,
+          class_id text,
+          race_id text,
+          score double precision not null default 0,
+          updated_at timestamptz not null default now(),
+          primary key (season_id, category, wallet_address, normalized_name)
+        );
+
+        create index if not exists idx_leaderboard_scores_rank
+          on game.leaderboard_scores (season_id, category, score desc);
+
+        create table if not exists game.leaderboard_final_standings (
+          season_id text not null references game.leaderboard_seasons(season_id) on delete cascade,
+          category text not null,
+          rank integer not null,
+          wallet_address text not null,
+          character_name text not null,
+          class_id text,
+          race_id text,
+          score double precision not null,
+          rewards_json jsonb not null default '[]'::jsonb,
+          updated_at timestamptz not null default now(),
+          primary key (season_id, category, rank)
+        );
+
+        create index if not exists idx_leaderboard_final_standings_wallet
+          on game.leaderboard_final_standings (wallet_address);
+
+        create table if not exists game.api_keys (
+          key_id text primary key,
+          wallet_address text not null,
+          name text not null,
+          scopes_json jsonb not null default '[]'::jsonb,
+          key_hash text not null unique,
+          rate_limit_per_minute integer,
+          created_at timestamptz not null default now(),
+          expires_at timestamptz,
+          revoked_at timestamptz,
+          last_used_at timestamptz,
+          updated_at timestamptz not null default now()
+        );
+
+        create index if not exists idx_api_keys_wallet
+          on game.api_keys (wallet_address);
+
+        create table if not exists game.guild_settings (
+          guild_id bigint primary key,
+          motd text not null default '',
+          motd_updated_by text,
+          motd_updated_at timestamptz,
+          ranks_json jsonb,
+          xp bigint not null default 0,
+          updated_at timestamptz not null default now()
+        );
+
+        create table if not exists game.guild_member_ranks (
+          guild_id bigint not null,
+          wallet_address text not null,
+          rank_id text not null,
+          updated_at timestamptz not null default now(),
+          primary key (guild_id, wallet_address)
+        );
+
+        create table if not exists game.guild_activity_log (
+          id bigserial primary key,
+          guild_id bigint not null,
+          kind text not null,
+          actor_wallet text,
+          target_wallet text,
+          token_id bigint,
+          quantity integer,
+          gold_amount double precision,
+          loan_id bigint,
+          detail text,
+          created_at timestamptz not null default now()
+        );
+
+        create index if not exists idx_guild_activity_log_guild
+          on game.guild_activity_log (guild_id, created_at desc);
+
+        create table if not exists game.guild_vault_loans (
+          id bigserial primary key,
+          guild_id bigint not null,
+          chain_loan_id bigint unique,
+          token_id bigint not null,
+          quantity integer not null,
+          borrower_wallet text not null,
+          lender_wallet text not null,
+          duration_days integer not null,
+          collateral_json jsonb not null default '{"gold":0,"items":[]}'::jsonb,
+          status text not null,
+          created_at timestamptz not null default now(),
+          lent_at timestamptz,
+          due_at timestamptz,
+          reminder_sent_at timestamptz,
+          overdue_notified_at timestamptz,
+          closed_at timestamptz,
+          updated_at timestamptz not null default now()
+        );
+
+        create index if not exists idx_guild_vault_loans_guild
+          on game.guild_vault_loans (guild_id, status);
+
+        create index if not exists idx_guild_vault_loans_open
+          on game.guild_vault_loans (status)
+          where status in ('offered', 'active');
+
+        create table if not exists game.npc_relationships (
+          wallet_address text not null,
+          npc_name text not null,
+          affinity integer not null default 0,
+          conversation_count integer not null default 0,
+          gifts_given integer not null default 0,
+          quests_completed integer not null default 0,
+          memories_json jsonb not null default '[]'::jsonb,
+          gift_affinity_day integer not null default 0,
+          gift_affinity_today integer not null default 0,
+          last_interaction_at timestamptz not null default now(),
+          updated_at timestamptz not null default now(),
+          primary key (wallet_address, npc_name)
+        );
+
+        alter table game.npc_relationships
+          add column if not exists gift_affinity_day integer not null default 0,
+          add column if not exists gift_affinity_today integer not null default 0;
       `);
       await client.query("commit");
     } catch (err) {
@@ -800,6 +942,13 @@ export async function getGameSchemaHealth(): Promise<{
   walletGoldBalanceCount: number;
   walletItemBalanceCount: number;
   walletNameCount: number;
+  leaderboardSeasonCount: number;
+  leaderboardScoreCount: number;
+  apiKeyCount: number;
+  guildSettingsCount: number;
+  guildActivityLogCount: number;
+  guildVaultLoanCount: number;
+  npcRelationshipCount: number;
 }> {
   const [
     { rows: characterRows },
@@ -847,6 +996,13 @@ export async function getGameSchemaHealth(): Promise<{
     { rows: walletGoldRows },
     { rows: walletItemRows },
     { rows: walletNameRows },
+    { rows: leaderboardSeasonRows },
+    { rows: leaderboardScoreRows },
+    { rows: apiKeyRows },
+    { rows: guildSettingsRows },
+    { rows: guildActivityLogRows },
+    { rows: guildVaultLoanRows },
+    { rows: npcRelationshipRows },
   ] = await Promise.all([
     postgresQuery<{ count: string }>("select count(*)::text as count from game.characters"),
     postgresQuery<{ count: string }>("select count(*)::text as count from game.character_identity_state"),
@@ -893,6 +1049,13 @@ export async function getGameSchemaHealth(): Promise<{
     postgresQuery<{ count: string }>("select count(*)::text as count from game.wallet_gold_balances"),
     postgresQuery<{ count: string }>("select count(*)::text as count from game.wallet_item_balances"),
     postgresQuery<{ count: string }>("select count(*)::text as count from game.wallet_names"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.leaderboard_seasons"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.leaderboard_scores"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.api_keys"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.guild_settings"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.guild_activity_log"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.guild_vault_loans"),
+    postgresQuery<{ count: string }>("select count(*)::text as count from game.npc_relationships"),
   ]);
 
   return {
@@ -941,5 +1104,12 @@ export async function getGameSchemaHealth(): Promise<{
     walletGoldBalanceCount: Number(walletGoldRows[0]?.count ?? "0"),
     walletItemBalanceCount: Number(walletItemRows[0]?.count ?? "0"),
     walletNameCount: Number(walletNameRows[0]?.count ?? "0"),
+    leaderboardSeasonCount: Number(leaderboardSeasonRows[0]?.count ?? "0"),
+    leaderboardScoreCount: Number(leaderboardScoreRows[0]?.count ?? "0"),
+    apiKeyCount: Number(apiKeyRows[0]?.count ?? "0"),
+    guildSettingsCount: Number(guildSettingsRows[0]?.count ?? "0"),
+    guildActivityLogCount: Number(guildActivityLogRows[0]?.count ?? "0"),
+    guildVaultLoanCount: Number(guildVaultLoanRows[0]?.count ?? "0"),
+    npcRelationshipCount: Number(npcRelationshipRows[0]?.count ?? "0"),
   };
 }
@@ -0,0 +1,198 @@
+import { isPostgresConfigured, postgresQuery } from "./postgres.js";
+import type { GuildLoanRecord, GuildLoanStatus, LoanCollateral } from "../economy/guildLoans.js";
+
+interface GuildLoanRow {
+  id: string;
+  guild_id: string;
+  chain_loan_id: string | null;
+  token_id: string;
+  quantity: number;
+  borrower_wallet: string;
+  lender_wallet: string;
+  duration_days: number;
+  collateral_json: LoanCollateral;
+  status: GuildLoanStatus;
+  created_at_ms: string;
+  lent_at_ms: string | null;
+  due_at_ms: string | null;
+  reminder_sent_at_ms: string | null;
+  overdue_notified_at_ms: string | null;
+  closed_at_ms: string | null;
+}
+
+const GUILD_LOAN_COLUMNS = `
+  id::text as id,
+  guild_id::text as guild_id,
+  chain_loan_id::text as chain_loan_id,
+  token_id::text as token_id,
+  quantity,
+  borrower_wallet,
+  lender_wallet,
+  duration_days,
+  collateral_json,
+  status,
+  (extract(epoch from created_at) * 1000)::bigint::text as created_at_ms,
+  (extract(epoch from lent_at) * 1000)::bigint::text as lent_at_ms,
+  (extract(epoch from due_at) * 1000)::bigint::text as due_at_ms,
+  (extract(epoch from reminder_sent_at) * 1000)::bigint::text as reminder_sent_at_ms,
+  (extract(epoch from overdue_notified_at) * 1000)::bigint::text as overdue_notified_at_ms,
+  (extract(epoch from closed_at) * 1000)::bigint::text as closed_at_ms
+`;
+
+function optionalMs(value: string | null): number | null {
+  return value != null ? Number(value) : null;
+}
+
+function mapGuildLoanRow(row: GuildLoanRow): GuildLoanRecord {
+  return {
+    id: Number(row.id),
+    guildId: Number(row.guild_id),
+    chainLoanId: row.chain_loan_id != null ? Number(row.chain_loan_id) : null,
+    tokenId: Number(row.token_id),
+    quantity: row.quantity,
+    borrower: row.borrower_wallet,
+    lender: row.lender_wallet,
+    durationDays: row.duration_days,
+    collateral: row.collateral_json ?? { gold: 0, items: [] },
+    status: row.status,
+    createdAt: Number(row.created_at_ms),
+    lentAt: optionalMs(row.lent_at_ms),
+    dueAt: optionalMs(row.due_at_ms),
+    reminderSentAt: optionalMs(row.reminder_sent_at_ms),
+    overdueNotifiedAt: optionalMs(row.overdue_notified_at_ms),
+    closedAt: optionalMs(row.closed_at_ms),
+  };
+}
+
+/** SQL for a millisecond timestamp parameter that may be null. */
+function nullableTimestamp(n: number): string {
+  return `case when $${n}::double precision is null then null else to_timestamp($${n}::double precision / 1000.0) end`;
+}
+
+export async function insertGuildLoan(loan: Omit<GuildLoanRecord, "id">): Promise<number | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<{ id: string }>(
+    `
+      insert into game.guild_vault_loans (
+        guild_id, chain_loan_id, token_id, quantity, borrower_wallet, lender_wallet,
+        duration_days, collateral_json, status, created_at, lent_at, due_at, updated_at
+      ) values (
+        $1, $2, $3, $4, $5, $6, $7, $8::jsonb, $9,
+        to_timestamp($10::double precision / 1000.0), ${nullableTimestamp(11)}, ${nullableTimestamp(12)}, now()
+      )
+      returning id::text as id
+    `,
+    [
+      loan.guildId,
+      loan.chainLoanId,
+      loan.tokenId,
+      loan.quantity,
+      loan.borrower.toLowerCase(),
+      loan.lender.toLowerCase(),
+      loan.durationDays,
+      JSON.stringify(loan.collateral),
+      loan.status,
+      loan.createdAt,
+      loan.lentAt,
+      loan.dueAt,
+    ]
+  );
+  return rows[0] ? Number(rows[0].id) : null;
+}
+
+export async function updateGuildLoan(loan: GuildLoanRecord): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `
+      update game.guild_vault_loans set
+        chain_loan_id = $2,
+        status = $3,
+        lent_at = ${nullableTimestamp(4)},
+        due_at = ${nullableTimestamp(5)},
+        reminder_sent_at = ${nullableTimestamp(6)},
+        overdue_notified_at = ${nullableTimestamp(7)},
+        closed_at = ${nullableTimestamp(8)},
+        updated_at = now()
+      where id = $1
+    `,
+    [
+      loan.id,
+      loan.chainLoanId,
+      loan.status,
+      loan.lentAt,
+      loan.dueAt,
+      loan.reminderSentAt,
+      loan.overdueNotifiedAt,
+      loan.closedAt,
+    ]
+  );
+}
+
+/**
+ * Move a loan from one status to another only if it is still in `from`.
+ * Returns the updated record, or null if another request or the tick got
+ * there first.
+ */
+export async function transitionGuildLoanStatus(
+  id: number,
+  from: GuildLoanStatus,
+  to: GuildLoanStatus,
+  closedAt: number | null = null
+): Promise<GuildLoanRecord | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<GuildLoanRow>(
+    `
+      update game.guild_vault_loans set
+        status = $3,
+        closed_at = coalesce(${nullableTimestamp(4)}, closed_at),
+        updated_at = now()
+      where id = $1 and status = $2
+      returning ${GUILD_LOAN_COLUMNS}
+    `,
+    [id, from, to, closedAt]
+  );
+  return rows[0] ? mapGuildLoanRow(rows[0]) : null;
+}
+
+export async function getGuildLoan(id: number): Promise<GuildLoanRecord | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<GuildLoanRow>(
+    `select ${GUILD_LOAN_COLUMNS} from game.guild_vault_loans where id = $1 limit 1`,
+    [id]
+  );
+  return rows[0] ? mapGuildLoanRow(rows[0]) : null;
+}
+
+export async function getGuildLoanByChainId(chainLoanId: number): Promise<GuildLoanRecord | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<GuildLoanRow>(
+    `select ${GUILD_LOAN_COLUMNS} from game.guild_vault_loans where chain_loan_id = $1 limit 1`,
+    [chainLoanId]
+  );
+  return rows[0] ? mapGuildLoanRow(rows[0]) : null;
+}
+
+export async function listGuildLoans(guildId: number, statuses?: GuildLoanStatus[]): Promise<GuildLoanRecord[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<GuildLoanRow>(
+    `
+      select ${GUILD_LOAN_COLUMNS}
+        from game.guild_vault_loans
+       where guild_id = $1
+         and ($2::text[] is null or status = any($2::text[]))
+       order by created_at desc
+       limit 500
+    `,
+    [guildId, statuses ?? null]
+  );
+  return rows.map(mapGuildLoanRow);
+}
+
+/** Offered and active loans across all guilds, for the loan tick. */
+export async function listOpenGuildLoans(): Promise<GuildLoanRecord[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<GuildLoanRow>(
+    `select ${GUILD_LOAN_COLUMNS} from game.guild_vault_loans where status in ('offered', 'active') order by id`
+  );
+  return rows.map(mapGuildLoanRow);
+}
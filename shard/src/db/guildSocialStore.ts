@@ -0,0 +1,198 @@
+import { isPostgresConfigured, postgresQuery } from "./postgres.js";
+import type { GuildRank } from "../economy/guildRanks.js";
+import type { GuildActivityEntry, GuildActivityKind, GuildSettings } from "../economy/guildSocial.js";
+
+interface GuildSettingsRow {
+  guild_id: string;
+  motd: string;
+  motd_updated_by: string | null;
+  motd_updated_at_ms: string | null;
+  ranks_json: GuildRank[] | null;
+  xp: string;
+}
+
+interface GuildMemberRankRow {
+  wallet_address: string;
+  rank_id: string;
+}
+
+interface GuildActivityRow {
+  id: string;
+  guild_id: string;
+  kind: GuildActivityKind;
+  actor_wallet: string | null;
+  target_wallet: string | null;
+  token_id: string | null;
+  quantity: number | null;
+  gold_amount: number | null;
+  loan_id: string | null;
+  detail: string | null;
+  created_at_ms: string;
+}
+
+function mapActivityRow(row: GuildActivityRow): GuildActivityEntry {
+  return {
+    id: Number(row.id),
+    guildId: Number(row.guild_id),
+    kind: row.kind,
+    actorWallet: row.actor_wallet,
+    targetWallet: row.target_wallet,
+    tokenId: row.token_id != null ? Number(row.token_id) : null,
+    quantity: row.quantity,
+    goldAmount: row.gold_amount,
+    loanId: row.loan_id != null ? Number(row.loan_id) : null,
+    detail: row.detail,
+    createdAt: Number(row.created_at_ms),
+  };
+}
+
+export async function getGuildSettings(guildId: number): Promise<GuildSettings | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<GuildSettingsRow>(
+    `
+      select guild_id, motd, motd_updated_by,
+             (extract(epoch from motd_updated_at) * 1000)::bigint::text as motd_updated_at_ms,
+             ranks_json, xp::text as xp
+        from game.guild_settings
+       where guild_id = $1
+       limit 1
+    `,
+    [guildId]
+  );
+  const row = rows[0];
+  if (!row) return null;
+  return {
+    motd: row.motd,
+    motdUpdatedBy: row.motd_updated_by,
+    motdUpdatedAt: row.motd_updated_at_ms != null ? Number(row.motd_updated_at_ms) : null,
+    ranks: row.ranks_json,
+    xp: Number(row.xp),
+  };
+}
+
+export async function saveGuildMotd(guildId: number, motd: string, updatedBy: string, updatedAt: number): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `
+      insert into game.guild_settings (guild_id, motd, motd_updated_by, motd_updated_at, updated_at)
+      values ($1, $2, $3, to_timestamp($4::double precision / 1000.0), now())
+      on conflict (guild_id) do update set
+        motd = excluded.motd,
+        motd_updated_by = excluded.motd_updated_by,
+        motd_updated_at = excluded.motd_updated_at,
+        updated_at = now()
+    `,
+    [guildId, motd, updatedBy.toLowerCase(), updatedAt]
+  );
+}
+
+export async function saveGuildRanks(guildId: number, ranks: GuildRank[]): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `
+      insert into game.guild_settings (guild_id, ranks_json, updated_at)
+      values ($1, $2::jsonb, now())
+      on conflict (guild_id) do update set
+        ranks_json = excluded.ranks_json,
+        updated_at = now()
+    `,
+    [guildId, JSON.stringify(ranks)]
+  );
+}
+
+/** Atomically add XP so every shard's contributions land. Returns the new total. */
+export async function addGuildXpRecord(guildId: number, amount: number): Promise<number | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<{ xp: string }>(
+    `
+      insert into game.guild_settings (guild_id, xp, updated_at)
+      values ($1, $2, now())
+      on conflict (guild_id) do update set
+        xp = game.guild_settings.xp + excluded.xp,
+        updated_at = now()
+      returning xp::text as xp
+    `,
+    [guildId, Math.floor(amount)]
+  );
+  return rows[0] ? Number(rows[0].xp) : null;
+}
+
+export async function listGuildMemberRanks(guildId: number): Promise<Map<string, string>> {
+  const assignments = new Map<string, string>();
+  if (!isPostgresConfigured()) return assignments;
+  const { rows } = await postgresQuery<GuildMemberRankRow>(
+    `select wallet_address, rank_id from game.guild_member_ranks where guild_id = $1`,
+    [guildId]
+  );
+  for (const row of rows) assignments.set(row.wallet_address, row.rank_id);
+  return assignments;
+}
+
+export async function setGuildMemberRankRecord(guildId: number, walletAddress: string, rankId: string | null): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  if (rankId === null) {
+    await postgresQuery(
+      `delete from game.guild_member_ranks where guild_id = $1 and wallet_address = $2`,
+      [guildId, walletAddress.toLowerCase()]
+    );
+    return;
+  }
+  await postgresQuery(
+    `
+      insert into game.guild_member_ranks (guild_id, wallet_address, rank_id, updated_at)
+      values ($1, $2, $3, now())
+      on conflict (guild_id, wallet_address) do update set
+        rank_id = excluded.rank_id,
+        updated_at = now()
+    `,
+    [guildId, walletAddress.toLowerCase(), rankId]
+  );
+}
+
+export async function insertGuildActivity(entry: Omit<GuildActivityEntry, "id">): Promise<number | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<{ id: string }>(
+    `
+      insert into game.guild_activity_log (
+        guild_id, kind, actor_wallet, target_wallet, token_id,
+        quantity, gold_amount, loan_id, detail, created_at
+      ) values ($1, $2, $3, $4, $5, $6, $7, $8, $9, to_timestamp($10::double precision / 1000.0))
+      returning id::text as id
+    `,
+    [
+      entry.guildId,
+      entry.kind,
+      entry.actorWallet?.toLowerCase() ?? null,
+      entry.targetWallet?.toLowerCase() ?? null,
+      entry.tokenId,
+      entry.quantity,
+      entry.goldAmount,
+      entry.loanId,
+      entry.detail,
+      entry.createdAt,
+    ]
+  );
+  return rows[0] ? Number(rows[0].id) : null;
+}
+
+export async function listGuildActivity(
+  guildId: number,
+  options: { limit: number; kinds?: GuildActivityKind[]; beforeId?: number }
+): Promise<GuildActivityEntry[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<GuildActivityRow>(
+    `
+      select id::text as id, guild_id::text as guild_id, kind, actor_wallet, target_wallet,
+             token_id::text as token_id, quantity, gold_amount, loan_id::text as loan_id, detail,
+             (extract(epoch from created_at) * 1000)::bigint::text as created_at_ms
+        from game.guild_activity_log
+       where guild_id = $1
+         and ($2::text[] is null or kind = any($2::text[]))
+         and ($3::bigint is null or id < $3::bigint)
+       order by id desc
+       limit $4
+    `,
+    [guildId, options.kinds ?? null, options.beforeId ?? null, options.limit]
+  );
+  return rows.map(mapActivityRow);
+}
@@ -0,0 +1,312 @@
+import { isPostgresConfigured, postgresQuery, withPostgresClient } from "./postgres.js";
+import type {
+  LeaderboardCategory,
+  LeaderboardSeason,
+  LeaderboardSeasonStatus,
+  SeasonReward,
+} from "../social/leaderboardSeasons.js";
+
+export interface LeaderboardScoreUpdate {
+  seasonId: string;
+  category: LeaderboardCategory;
+  walletAddress: string;
+  normalizedName: string;
+  characterName: string;
+  classId: string | null;
+  raceId: string | null;
+  /** "set" replaces the stored score (gauges); "add" accumulates (counters). */
+  mode: "set" | "add";
+  value: number;
+}
+
+export interface LeaderboardStanding {
+  rank: number;
+  walletAddress: string;
+  characterName: string;
+  classId: string | null;
+  raceId: string | null;
+  score: number;
+}
+
+export interface LeaderboardFinalStanding extends LeaderboardStanding {
+  rewards: SeasonReward[];
+}
+
+interface SeasonRow {
+  season_id: string;
+  name: string;
+  starts_at_ms: string;
+  ends_at_ms: string;
+  status: LeaderboardSeasonStatus;
+  rewards_json: SeasonReward[];
+  archived_at_ms: string | null;
+}
+
+interface StandingRow {
+  rank: string;
+  wallet_address: string;
+  character_name: string;
+  class_id: string | null;
+  race_id: string | null;
+  score: number;
+}
+
+function mapSeasonRow(row: SeasonRow): LeaderboardSeason {
+  return {
+    seasonId: row.season_id,
+    name: row.name,
+    startsAt: Number(row.starts_at_ms),
+    endsAt: Number(row.ends_at_ms),
+    status: row.status,
+    rewards: row.rewards_json ?? [],
+    ...(row.archived_at_ms != null && { archivedAt: Number(row.archived_at_ms) }),
+  };
+}
+
+function mapStandingRow(row: StandingRow): LeaderboardStanding {
+  return {
+    rank: Number(row.rank),
+    walletAddress: row.wallet_address,
+    characterName: row.character_name,
+    classId: row.class_id,
+    raceId: row.race_id,
+    score: Number(row.score),
+  };
+}
+
+const SEASON_COLUMNS = `
+  season_id,
+  name,
+  (extract(epoch from starts_at) * 1000)::bigint::text as starts_at_ms,
+  (extract(epoch from ends_at) * 1000)::bigint::text as ends_at_ms,
+  status,
+  rewards_json,
+  (extract(epoch from archived_at) * 1000)::bigint::text as archived_at_ms
+`;
+
+export async function applyLeaderboardScoreUpdates(updates: LeaderboardScoreUpdate[]): Promise<void> {
+  if (!isPostgresConfigured() || updates.length === 0) return;
+  await withPostgresClient(async (client) => {
+    await client.query("begin");
+    try {
+      for (const update of updates) {
+        await client.query(
+          `
+            insert into game.leaderboard_scores (
+              season_id, category, wallet_address, normalized_name,
+              character_name, class_id, race_id, score, updated_at
+            ) values ($1, $2, $3, $4, $5, $6, $7, $8, now())
+            on conflict (season_id, category, wallet_address, normalized_name)
+            do update set
+              character_name = excluded.character_name,
+              class_id = excluded.class_id,
+              race_id = excluded.race_id,
+              score = case when $9 = 'add'
+                then game.leaderboard_scores.score + excluded.score
+                else excluded.score end,
+              updated_at = now()
+          `,
+          [
+            update.seasonId,
+            update.category,
+            update.walletAddress.toLowerCase(),
+            update.normalizedName,
+            update.characterName,
+            update.classId,
+            update.raceId,
+            update.value,
+            update.mode,
+          ]
+        );
+      }
+      await client.query("commit");
+    } catch (err) {
+      await client.query("rollback");
+      throw err;
+    }
+  });
+}
+
+export async function listLeaderboardStandings(
+  seasonId: string,
+  category: LeaderboardCategory,
+  limit: number,
+  offset = 0,
+): Promise<LeaderboardStanding[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<StandingRow>(
+    `
+      select
+        (row_number() over (order by score desc, updated_at asc))::text as rank,
+        wallet_address, character_name, class_id, race_id, score
+      from game.leaderboard_scores
+      where season_id = $1 and category = $2
+      order by score desc, updated_at asc
+      limit $3 offset $4
+    `,
+    [seasonId, category, limit, offset]
+  );
+  return rows.map(mapStandingRow);
+}
+
+export async function getLeaderboardStandingsForWallet(
+  seasonId: string,
+  category: LeaderboardCategory,
+  walletAddress: string,
+): Promise<LeaderboardStanding[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<StandingRow>(
+    `
+      select * from (
+        select
+          (row_number() over (order by score desc, updated_at asc))::text as rank,
+          wallet_address, character_name, class_id, race_id, score
+        from game.leaderboard_scores
+        where season_id = $1 and category = $2
+      ) ranked
+      where wallet_address = $3
+      order by rank::int asc
+    `,
+    [seasonId, category, walletAddress.toLowerCase()]
+  );
+  return rows.map(mapStandingRow);
+}
+
+export async function countLeaderboardEntries(seasonId: string, category: LeaderboardCategory): Promise<number> {
+  if (!isPostgresConfigured()) return 0;
+  const { rows } = await postgresQuery<{ count: string }>(
+    `select count(*)::text as count from game.leaderboard_scores where season_id = $1 and category = $2`,
+    [seasonId, category]
+  );
+  return Number(rows[0]?.count ?? "0");
+}
+
+export async function upsertLeaderboardSeason(season: LeaderboardSeason): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `
+      insert into game.leaderboard_seasons (
+        season_id, name, starts_at, ends_at, status, rewards_json, archived_at, updated_at
+      ) values (
+        $1, $2,
+        to_timestamp($3::double precision / 1000.0),
+        to_timestamp($4::double precision / 1000.0),
+        $5, $6::jsonb,
+        case when $7::double precision is null then null else to_timestamp($7::double precision / 1000.0) end,
+        now()
+      )
+      on conflict (season_id)
+      do update set
+        name = excluded.name,
+        starts_at = excluded.starts_at,
+        ends_at = excluded.ends_at,
+        status = excluded.status,
+        rewards_json = excluded.rewards_json,
+        archived_at = excluded.archived_at,
+        updated_at = now()
+    `,
+    [
+      season.seasonId,
+      season.name,
+      season.startsAt,
+      season.endsAt,
+      season.status,
+      JSON.stringify(season.rewards),
+      season.archivedAt ?? null,
+    ]
+  );
+}
+
+export async function listLeaderboardSeasons(): Promise<LeaderboardSeason[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<SeasonRow>(
+    `select ${SEASON_COLUMNS} from game.leaderboard_seasons order by starts_at desc`
+  );
+  return rows.map(mapSeasonRow);
+}
+
+export async function getLeaderboardSeason(seasonId: string): Promise<LeaderboardSeason | null> {
+  if (!isPostgresConfigured()) return null;
+  const { rows } = await postgresQuery<SeasonRow>(
+    `select ${SEASON_COLUMNS} from game.leaderboard_seasons where season_id = $1 limit 1`,
+    [seasonId]
+  );
+  return rows[0] ? mapSeasonRow(rows[0]) : null;
+}
+
+/**
+ * Freeze a season: write its final standings and flip it to archived in one
+ * transaction, so a crash mid-archive leaves the season live for a retry.
+ * The status flip runs first and only matches a season that is not archived
+ * yet, so of two concurrent archives exactly one returns true.
+ */
+export async function archiveLeaderboardSeason(
+  seasonId: string,
+  standings: Array<{ category: LeaderboardCategory } & LeaderboardFinalStanding>,
+): Promise<boolean> {
+  if (!isPostgresConfigured()) return false;
+  return withPostgresClient(async (client) => {
+    await client.query("begin");
+    try {
+      const claimed = await client.query(
+        `
+          update game.leaderboard_seasons
+          set status = 'archived', archived_at = now(), updated_at = now()
+          where season_id = $1 and status <> 'archived'
+          returning season_id
+        `,
+        [seasonId]
+      );
+      if (claimed.rows.length === 0) {
+        await client.query("rollback");
+        return false;
+      }
+      await client.query(`delete from game.leaderboard_final_standings where season_id = $1`, [seasonId]);
+      for (const standing of standings) {
+        await client.query(
+          `
+            insert into game.leaderboard_final_standings (
+              season_id, category, rank, wallet_address, character_name,
+              class_id, race_id, score, rewards_json, updated_at
+            ) values ($1, $2, $3, $4, $5, $6, $7, $8, $9::jsonb, now())
+          `,
+          [
+            seasonId,
+            standing.category,
+            standing.rank,
+            standing.walletAddress,
+            standing.characterName,
+            standing.classId,
+            standing.raceId,
+            standing.score,
+            JSON.stringify(standing.rewards),
+          ]
+        );
+      }
+      await client.query("commit");
+      return true;
+    } catch (err) {
+      await client.query("rollback");
+      throw err;
+    }
+  });
+}
+
+export async function listLeaderboardFinalStandings(
+  seasonId: string,
+  category: LeaderboardCategory,
+  limit: number,
+): Promise<LeaderboardFinalStanding[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<StandingRow & { rewards_json: SeasonReward[] }>(
+    `
+      select rank::text as rank, wallet_address, character_name, class_id, race_id, score, rewards_json
+      from game.leaderboard_final_standings
+      where season_id = $1 and category = $2
+      order by rank asc
+      limit $3
+    `,
+    [seasonId, category, limit]
+  );
+  return rows.map((row) => ({ ...mapStandingRow(row), rewards: row.rewards_json ?? [] }));
+}
@@ -0,0 +1,93 @@
+import { isPostgresConfigured, postgresQuery } from "./postgres.js";
+import type { NpcMemory, NpcRelationship } from "../social/npcAffinity.js";
+
+interface NpcRelationshipRow {
+  wallet_address: string;
+  npc_name: string;
+  affinity: number;
+  conversation_count: number;
+  gifts_given: number;
+  quests_completed: number;
+  memories_json: NpcMemory[] | null;
+  gift_affinity_day: number;
+  gift_affinity_today: number;
+  last_interaction_at_ms: string;
+}
+
+const NPC_RELATIONSHIP_COLUMNS = `
+  wallet_address,
+  npc_name,
+  affinity,
+  conversation_count,
+  gifts_given,
+  quests_completed,
+  memories_json,
+  gift_affinity_day,
+  gift_affinity_today,
+  (extract(epoch from last_interaction_at) * 1000)::bigint::text as last_interaction_at_ms
+`;
+
+function mapNpcRelationshipRow(row: NpcRelationshipRow): NpcRelationship {
+  return {
+    walletAddress: row.wallet_address,
+    npcName: row.npc_name,
+    affinity: row.affinity,
+    conversationCount: row.conversation_count,
+    giftsGiven: row.gifts_given,
+    questsCompleted: row.quests_completed,
+    memories: row.memories_json ?? [],
+    giftAffinityDay: row.gift_affinity_day,
+    giftAffinityToday: row.gift_affinity_today,
+    lastInteractionAt: Number(row.last_interaction_at_ms),
+  };
+}
+
+export async function listNpcRelationshipsForWallet(walletAddress: string): Promise<NpcRelationship[]> {
+  if (!isPostgresConfigured()) return [];
+  const { rows } = await postgresQuery<NpcRelationshipRow>(
+    `
+      select ${NPC_RELATIONSHIP_COLUMNS}
+        from game.npc_relationships
+       where wallet_address = $1
+       order by last_interaction_at desc
+    `,
+    [walletAddress.toLowerCase()]
+  );
+  return rows.map(mapNpcRelationshipRow);
+}
+
+export async function upsertNpcRelationship(relationship: NpcRelationship): Promise<void> {
+  if (!isPostgresConfigured()) return;
+  await postgresQuery(
+    `
+      insert into game.npc_relationships (
+        wallet_address, npc_name, affinity, conversation_count, gifts_given, quests_completed,
+        memories_json, gift_affinity_day, gift_affinity_today, last_interaction_at, updated_at
+      ) values (
+        $1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9, to_timestamp($10::double precision / 1000.0), now()
+      )
+      on conflict (wallet_address, npc_name) do update set
+        affinity = excluded.affinity,
+        conversation_count = excluded.conversation_count,
+        gifts_given = excluded.gifts_given,
+        quests_completed = excluded.quests_completed,
+        memories_json = excluded.memories_json,
+        gift_affinity_day = excluded.gift_affinity_day,
+        gift_affinity_today = excluded.gift_affinity_today,
+        last_interaction_at = excluded.last_interaction_at,
+        updated_at = now()
+    `,
+    [
+      relationship.walletAddress.toLowerCase(),
+      relationship.npcName,
+      relationship.affinity,
+      relationship.conversationCount,
+      relationship.giftsGiven,
+      relationship.questsCompleted,
+      JSON.stringify(relationship.memories),
+      relationship.giftAffinityDay,
+      relationship.giftAffinityToday,
+      relationship.lastInteractionAt,
+    ]
+  );
+}
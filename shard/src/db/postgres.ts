@@ -1,4 +1,16 @@
 import { Pool, type PoolClient, type QueryResult, type QueryResultRow } from "pg";
+import { histogram } from "../observability/metrics.js";
+
+const queryDuration = histogram(
+  "wog_postgres_query_duration_seconds",
+  "Postgres query latency; `transaction` covers a whole withPostgresClient callback",
+  ["operation", "outcome"]
+);
+
+function queryOperation(text: string): string {
+  const keyword = text.trimStart().split(/\s/, 1)[0]?.toLowerCase();
+  return keyword && /^(select|insert|update|delete|with|begin|commit|rollback)$/.test(keyword) ? keyword : "other";
+}
 
 let pool: Pool | null = null;
 let initialized = false;
@@ -76,9 +88,15 @@ export function assertPostgresAvailable(context: string): void {
 
 export async function withPostgresClient<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
   assertPostgresAvailable("withPostgresClient");
+  const stopTimer = queryDuration.startTimer({ operation: "transaction" });
   const client = await pool!.connect();
   try {
-    return await fn(client);
+    const result = await fn(client);
+    stopTimer({ outcome: "ok" });
+    return result;
+  } catch (err) {
+    stopTimer({ outcome: "error" });
+    throw err;
   } finally {
     client.release();
   }
@@ -89,5 +107,13 @@ export async function postgresQuery<T extends QueryResultRow = QueryResultRow>(
   values?: unknown[]
 ): Promise<QueryResult<T>> {
   assertPostgresAvailable("postgresQuery");
-  return await pool!.query<T>(text, values);
+  const stopTimer = queryDuration.startTimer({ operation: queryOperation(text) });
+  try {
+    const result = await pool!.query<T>(text, values);
+    stopTimer({ outcome: "ok" });
+    return result;
+  } catch (err) {
+    stopTimer({ outcome: "error" });
+    throw err;
+  }
 }
@@ -53,6 +53,8 @@ function formatAuctionForResponse(auction: AuctionData) {
     quality: instance?.quality?.tier ?? null,
     rolledStats: instance?.rolledStats ?? {},
     bonusAffix: instance?.bonusAffix ?? null,
+    affixes: instance?.affixes ?? null,
+    sockets: instance?.sockets ?? null,
     maxDurability: instance?.currentMaxDurability ?? item?.maxDurability ?? null,
     durability: instance?.currentDurability ?? null,
   };
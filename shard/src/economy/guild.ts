@@ -34,6 +34,14 @@ import { getEntity } from "../world/zoneRuntime.js";
 import { authenticateRequest } from "../auth/auth.js";
 import { addActiveProposal } from "./guildTick.js";
 import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
+import {
+  addGuildXp,
+  clearGuildMemberRank,
+  describeMemberRanks,
+  logGuildActivity,
+  resolveGuildActor,
+} from "./guildSocial.js";
+import { GUILD_XP_AWARDS, rankHasPermission } from "./guildRanks.js";
 
 const RANK_NAMES = ["Member", "Officer", "Founder"];
 const STATUS_NAMES = ["active", "disbanded"];
@@ -55,10 +63,11 @@ function formatGuildForResponse(guild: GuildData) {
   };
 }
 
-function formatMemberForResponse(member: MemberData) {
+function formatMemberForResponse(member: MemberData, guildRankName?: string) {
   return {
     address: member.address,
     rank: RANK_NAMES[member.rank] || "unknown",
+    ...(guildRankName ? { guildRank: guildRankName } : {}),
     joinedAt: member.joinedAt,
     contributedGold: member.contributedGold,
   };
@@ -286,11 +295,14 @@ export function registerGuildRoutes(server: FastifyInstance) {
         const guild = await getGuildFromChain(guildId);
         const memberAddresses = await getGuildMembersFromChain(guildId);
 
-        const members = [];
+        const memberData: MemberData[] = [];
         for (const address of memberAddresses) {
-          const member = await getMemberFromChain(guildId, address);
-          members.push(formatMemberForResponse(member));
+          memberData.push(await getMemberFromChain(guildId, address));
         }
+        const guildRanks = await describeMemberRanks(guildId, memberData);
+        const members = memberData.map((m) =>
+          formatMemberForResponse(m, guildRanks.get(m.address.toLowerCase())?.name)
+        );
 
         return {
           ...formatGuildForResponse(guild),
@@ -306,16 +318,17 @@ export function registerGuildRoutes(server: FastifyInstance) {
 
   /**
    * POST /guild/:guildId/invite
-   * Invite a member to the guild (officers+ only).
+   * Invite a member to the guild (ranks with the invite permission).
+   * inviterAddress defaults to the authenticated wallet.
    */
   server.post<{
     Params: { guildId: string };
-    Body: { memberAddress: string };
+    Body: { memberAddress: string; inviterAddress?: string };
   }>("/guild/:guildId/invite", {
     preHandler: authenticateRequest,
   }, async (request, reply) => {
     const guildId = parseInt(request.params.guildId, 10);
-    const { memberAddress } = request.body;
+    const { memberAddress, inviterAddress } = request.body;
 
     if (!memberAddress || !/^0x[a-fA-F0-9]{40}$/.test(memberAddress)) {
       reply.code(400);
@@ -323,6 +336,16 @@ export function registerGuildRoutes(server: FastifyInstance) {
     }
 
     try {
+      const inviter = await resolveGuildActor(request, guildId, inviterAddress);
+      if (!inviter.ok) {
+        reply.code(inviter.status);
+        return { error: inviter.error };
+      }
+      if (!rankHasPermission(inviter.rank, "invite")) {
+        reply.code(403);
+        return { error: `Your rank (${inviter.rank.name}) cannot invite members` };
+      }
+
       // Check if member is already in a guild
       const currentGuildId = await getMemberGuildId(memberAddress);
       if (currentGuildId > 0) {
@@ -332,6 +355,7 @@ export function registerGuildRoutes(server: FastifyInstance) {
 
       const txHash = await inviteMemberOnChain(guildId, memberAddress);
 
+      logGuildActivity({ guildId, kind: "member_invited", actorWallet: inviter.wallet, targetWallet: memberAddress });
       server.log.info(`Invited ${memberAddress} to guild ${guildId}`);
 
       return {
@@ -385,6 +409,7 @@ export function registerGuildRoutes(server: FastifyInstance) {
         server.log.warn(`[guild] Failed to refresh guild cache after join: ${String((err as Error)?.message ?? err).slice(0, 120)}`);
       });
 
+      logGuildActivity({ guildId, kind: "member_joined", actorWallet: memberAddress });
       server.log.info(`${memberAddress} joined guild ${guildId}`);
 
       return {
@@ -430,6 +455,10 @@ export function registerGuildRoutes(server: FastifyInstance) {
         server.log.warn(`[guild] Failed to refresh guild cache after leave: ${String((err as Error)?.message ?? err).slice(0, 120)}`);
       });
 
+      await clearGuildMemberRank(guildId, memberAddress).catch((err) => {
+        server.log.warn(`[guild] Failed to clear rank after leave: ${String((err as Error)?.message ?? err).slice(0, 120)}`);
+      });
+      logGuildActivity({ guildId, kind: "member_left", actorWallet: memberAddress });
       server.log.info(`${memberAddress} left guild ${guildId}`);
 
       return {
@@ -495,6 +524,8 @@ export function registerGuildRoutes(server: FastifyInstance) {
       // Record gold spend
       await recordGoldSpendAsync(memberAddress, amount);
 
+      logGuildActivity({ guildId, kind: "gold_deposit", actorWallet: memberAddress, goldAmount: amount });
+      addGuildXp(guildId, amount * GUILD_XP_AWARDS.goldDepositedPerGold);
       server.log.info(`${memberAddress} deposited ${amount} gold to guild ${guildId}`);
 
       return {
@@ -705,13 +736,16 @@ export function registerGuildRoutes(server: FastifyInstance) {
 
       const memberData = await getMemberFromChain(guildId, walletAddress);
       const memberAddresses = await getGuildMembersFromChain(guildId);
-      const members = [];
+      const allMembers: MemberData[] = [];
       for (const addr of memberAddresses) {
         try {
-          const m = await getMemberFromChain(guildId, addr);
-          members.push(formatMemberForResponse(m));
+          allMembers.push(await getMemberFromChain(guildId, addr));
         } catch { /* skip */ }
       }
+      const guildRanks = await describeMemberRanks(guildId, [memberData, ...allMembers]);
+      const members = allMembers.map((m) =>
+        formatMemberForResponse(m, guildRanks.get(m.address.toLowerCase())?.name)
+      );
 
       // Fetch proposals for this guild
       const nextPropId = await getNextProposalId();
@@ -728,7 +762,7 @@ export function registerGuildRoutes(server: FastifyInstance) {
       return {
         inGuild: true,
         guild: formatGuildForResponse(guild),
-        member: formatMemberForResponse(memberData),
+        member: formatMemberForResponse(memberData, guildRanks.get(memberData.address.toLowerCase())?.name),
         members,
         proposals,
       };
@@ -567,6 +567,7 @@ export async function getMemberGuildId(memberAddress: string): Promise<number> {
 // --- Guild name cache (refreshed periodically, used by entity serialization) ---
 
 const guildNameCache = new Map<string, string>(); // walletAddress (lowercase) → guild name
+const guildIdCache = new Map<string, number>(); // walletAddress (lowercase) → guild id
 let cacheRefreshing = false;
 
 /** Get cached guild name for a wallet address (returns undefined if not in a guild). */
@@ -574,6 +575,18 @@ export function getCachedGuildName(walletAddress: string): string | undefined {
   return guildNameCache.get(walletAddress.toLowerCase());
 }
 
+/** Get cached guild id for a wallet address (returns undefined if not in a guild). */
+export function getCachedGuildId(walletAddress: string): number | undefined {
+  return guildIdCache.get(walletAddress.toLowerCase());
+}
+
+function replaceGuildCaches(names: Map<string, string>, ids: Map<string, number>): void {
+  guildNameCache.clear();
+  for (const [k, v] of names) guildNameCache.set(k, v);
+  guildIdCache.clear();
+  for (const [k, v] of ids) guildIdCache.set(k, v);
+}
+
 /** Refresh the guild name cache by scanning all active guilds. */
 export async function refreshGuildNameCache(): Promise<void> {
   if (cacheRefreshing) return;
@@ -583,15 +596,16 @@ export async function refreshGuildNameCache(): Promise<void> {
     if (isPostgresConfigured()) {
       const guilds = await listGuilds();
       const newCache = new Map<string, string>();
+      const newIds = new Map<string, number>();
       for (const guild of guilds) {
         if (guild.status !== GuildStatus.Active) continue;
         const members = await listGuildMembers(guild.guildId);
         for (const addr of members) {
           newCache.set(addr.toLowerCase(), guild.name);
+          newIds.set(addr.toLowerCase(), guild.guildId);
         }
       }
-      guildNameCache.clear();
-      for (const [k, v] of newCache) guildNameCache.set(k, v);
+      replaceGuildCaches(newCache, newIds);
       return;
     }
 
@@ -626,6 +640,7 @@ export async function refreshGuildNameCache(): Promise<void> {
       throw err;
     }
     const newCache = new Map<string, string>();
+    const newIds = new Map<string, number>();
 
     // Read all guilds in parallel for faster refresh
     const guildIds = Array.from({ length: nextId - 1 }, (_, i) => i + 1);
@@ -635,7 +650,7 @@ export async function refreshGuildNameCache(): Promise<void> {
           const [name, , , , , , status, ,] = await guildContract!.getGuild(guildId);
           if (Number(status) !== GuildStatus.Active) return null;
           const members: string[] = await guildContract!.getGuildMembers(guildId);
-          return { name, members };
+          return { guildId, name, members };
         } catch {
           return null;
         }
@@ -646,11 +661,11 @@ export async function refreshGuildNameCache(): Promise<void> {
       if (!result) continue;
       for (const addr of result.members) {
         newCache.set(addr.toLowerCase(), result.name);
+        newIds.set(addr.toLowerCase(), result.guildId);
       }
     }
 
-    guildNameCache.clear();
-    for (const [k, v] of newCache) guildNameCache.set(k, v);
+    replaceGuildCaches(newCache, newIds);
   } catch (err) {
     console.error("[guild-cache] Failed to refresh guild name cache:", err);
   } finally {
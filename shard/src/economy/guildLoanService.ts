@@ -0,0 +1,402 @@
+/**
+ * Guild vault loan lifecycle — loan records, collateral escrow, reminders,
+ * overdue notices and defaults.
+ *
+ * Loan records live in Postgres (memory-only when DATABASE_URL is unset).
+ * Gold collateral is reserved in the gold ledger and item collateral is
+ * burned into server escrow, the same way auctions hold bids and listings.
+ */
+
+import type { FastifyInstance } from "fastify";
+import { burnItem, getGoldBalance, getItemBalance, mintItem } from "../blockchain/blockchain.js";
+import {
+  getAvailableGoldAsync,
+  recordGoldSpendAsync,
+  reserveGoldAsync,
+  unreserveGoldAsync,
+} from "../blockchain/goldLedger.js";
+import { sendSystemNotification } from "../agents/agentInbox.js";
+import { sendPushToWallet } from "../social/webPushService.js";
+import { isPostgresConfigured } from "../db/postgres.js";
+import {
+  getGuildLoan,
+  getGuildLoanByChainId,
+  insertGuildLoan,
+  listGuildLoans,
+  listOpenGuildLoans,
+  transitionGuildLoanStatus,
+  updateGuildLoan,
+} from "../db/guildLoanStore.js";
+import { resolvePreferredAgentIdForWallet } from "../erc8004/agentResolution.js";
+import { getItemByTokenId } from "../items/itemCatalog.js";
+import { reputationManager, ReputationCategory } from "./reputationManager.js";
+import { depositGoldOnChain } from "./guildChain.js";
+import { depositItemOnChain, lendItemOnChain } from "./guildVaultChain.js";
+import { logGuildActivity } from "./guildSocial.js";
+import {
+  LOAN_REPUTATION_PENALTIES,
+  getLoanTickAction,
+  hasCollateral,
+  type GuildLoanRecord,
+  type GuildLoanStatus,
+  type LoanCollateral,
+} from "./guildLoans.js";
+
+const TICK_INTERVAL_MS = Math.max(
+  10_000,
+  Number.parseInt(process.env.GUILD_LOAN_TICK_INTERVAL_MS ?? "300000", 10) || 300_000
+); // 5 minutes default
+
+// Only used when Postgres is not configured
+const memoryLoans = new Map<number, GuildLoanRecord>();
+let nextMemoryLoanId = 1;
+
+// ── Records ─────────────────────────────────────────────────────────
+
+export async function createLoanRecord(loan: Omit<GuildLoanRecord, "id">): Promise<GuildLoanRecord> {
+  const normalized = { ...loan, borrower: loan.borrower.toLowerCase(), lender: loan.lender.toLowerCase() };
+  if (!isPostgresConfigured()) {
+    const record = { ...normalized, id: nextMemoryLoanId++ };
+    memoryLoans.set(record.id, record);
+    return record;
+  }
+  const id = await insertGuildLoan(normalized);
+  if (id === null) throw new Error("Failed to record guild loan");
+  return { ...normalized, id };
+}
+
+export async function saveLoanRecord(loan: GuildLoanRecord): Promise<void> {
+  if (!isPostgresConfigured()) {
+    memoryLoans.set(loan.id, loan);
+    return;
+  }
+  await updateGuildLoan(loan);
+}
+
+/**
+ * Compare-and-set on the loan status, so an accept, a decline and the
+ * offer-expiry tick can't all act on the same offer. Returns the updated
+ * record, or null if the loan had already left `from`.
+ */
+export async function transitionLoanStatus(
+  id: number,
+  from: GuildLoanStatus,
+  to: GuildLoanStatus,
+  closedAt: number | null = null
+): Promise<GuildLoanRecord | null> {
+  if (!isPostgresConfigured()) {
+    const loan = memoryLoans.get(id);
+    if (!loan || loan.status !== from) return null;
+    loan.status = to;
+    if (closedAt !== null) loan.closedAt = closedAt;
+    return loan;
+  }
+  return transitionGuildLoanStatus(id, from, to, closedAt);
+}
+
+export async function getLoanRecord(id: number): Promise<GuildLoanRecord | null> {
+  if (!isPostgresConfigured()) return memoryLoans.get(id) ?? null;
+  return getGuildLoan(id);
+}
+
+export async function getLoanRecordByChainId(chainLoanId: number): Promise<GuildLoanRecord | null> {
+  if (!isPostgresConfigured()) {
+    return Array.from(memoryLoans.values()).find((l) => l.chainLoanId === chainLoanId) ?? null;
+  }
+  return getGuildLoanByChainId(chainLoanId);
+}
+
+export async function listLoanRecords(guildId: number, statuses?: GuildLoanStatus[]): Promise<GuildLoanRecord[]> {
+  if (!isPostgresConfigured()) {
+    return Array.from(memoryLoans.values())
+      .filter((l) => l.guildId === guildId && (!statuses || statuses.includes(l.status)))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+  return listGuildLoans(guildId, statuses);
+}
+
+async function listOpenLoanRecords(): Promise<GuildLoanRecord[]> {
+  if (!isPostgresConfigured()) {
+    return Array.from(memoryLoans.values()).filter((l) => l.status === "offered" || l.status === "active");
+  }
+  return listOpenGuildLoans();
+}
+
+/**
+ * Put a loan on-chain and start its clock. The due date is tracked here
+ * as well as on the contract so the loan tick needs no chain reads.
+ */
+export async function activateLoan(loan: GuildLoanRecord): Promise<{ loanId: number; txHash: string }> {
+  const { loanId, txHash } = await lendItemOnChain(
+    loan.guildId,
+    loan.tokenId,
+    loan.quantity,
+    loan.borrower,
+    loan.durationDays
+  );
+  const now = Date.now();
+  loan.chainLoanId = loanId;
+  loan.status = "active";
+  loan.lentAt = now;
+  loan.dueAt = now + loan.durationDays * 24 * 60 * 60 * 1000;
+  await saveLoanRecord(loan);
+  return { loanId, txHash };
+}
+
+// ── Collateral ──────────────────────────────────────────────────────
+
+/**
+ * Take the borrower's collateral into escrow. Returns an error message if
+ * they can't cover it; on failure anything already escrowed is restored.
+ */
+export async function escrowCollateral(borrower: string, collateral: LoanCollateral): Promise<string | null> {
+  if (collateral.gold > 0) {
+    const onChainGold = parseFloat(await getGoldBalance(borrower));
+    const available = await getAvailableGoldAsync(borrower, Number.isFinite(onChainGold) ? onChainGold : 0);
+    if (available < collateral.gold) return `Insufficient gold for collateral (need ${collateral.gold})`;
+  }
+  for (const item of collateral.items) {
+    const balance = await getItemBalance(borrower, BigInt(item.tokenId));
+    if (balance < BigInt(item.quantity)) {
+      return `Insufficient balance of token ${item.tokenId} for collateral (need ${item.quantity})`;
+    }
+  }
+
+  const burned: LoanCollateral["items"] = [];
+  let reserved = false;
+  try {
+    if (collateral.gold > 0) {
+      await reserveGoldAsync(borrower, collateral.gold);
+      reserved = true;
+    }
+    for (const item of collateral.items) {
+      await burnItem(borrower, BigInt(item.tokenId), BigInt(item.quantity));
+      burned.push(item);
+    }
+    return null;
+  } catch (err) {
+    await releaseCollateral(borrower, { gold: reserved ? collateral.gold : 0, items: burned }).catch((restoreErr) => {
+      console.error(`[guild-loan] CRITICAL: failed to restore partial collateral for ${borrower}:`, restoreErr);
+    });
+    throw err;
+  }
+}
+
+/** Give escrowed collateral back to the borrower. */
+export async function releaseCollateral(borrower: string, collateral: LoanCollateral): Promise<void> {
+  if (collateral.gold > 0) await unreserveGoldAsync(borrower, collateral.gold);
+  for (const item of collateral.items) {
+    await mintItem(borrower, BigInt(item.tokenId), BigInt(item.quantity));
+  }
+}
+
+/** Hand escrowed collateral to the guild: gold to the treasury, items to the vault. */
+async function forfeitCollateral(loan: GuildLoanRecord): Promise<void> {
+  const { gold, items } = loan.collateral;
+  if (gold > 0) {
+    await unreserveGoldAsync(loan.borrower, gold);
+    await depositGoldOnChain(loan.guildId, loan.borrower, gold);
+    await recordGoldSpendAsync(loan.borrower, gold);
+  }
+  for (const item of items) {
+    await depositItemOnChain(loan.guildId, item.tokenId, item.quantity, loan.borrower);
+  }
+}
+
+export function describeCollateral(collateral: LoanCollateral): string {
+  if (!hasCollateral(collateral)) return "no collateral";
+  const parts: string[] = [];
+  if (collateral.gold > 0) parts.push(`${collateral.gold} gold`);
+  for (const item of collateral.items) {
+    parts.push(`${item.quantity}x ${getItemByTokenId(BigInt(item.tokenId))?.name ?? `token ${item.tokenId}`}`);
+  }
+  return parts.join(", ");
+}
+
+// ── Notifications and reputation ────────────────────────────────────
+
+function loanItemLabel(loan: GuildLoanRecord): string {
+  return `${loan.quantity}x ${getItemByTokenId(BigInt(loan.tokenId))?.name ?? `token ${loan.tokenId}`}`;
+}
+
+/** Inbox + web push, fire-and-forget. */
+export function notifyLoanParty(wallet: string, title: string, body: string, loan: GuildLoanRecord): void {
+  void sendSystemNotification(wallet, "", body, {
+    action: "guild-loan",
+    guildId: loan.guildId,
+    loanRecordId: loan.id,
+    loanId: loan.chainLoanId,
+    status: loan.status,
+    dueAt: loan.dueAt,
+  });
+  sendPushToWallet(wallet, { title, body, tag: `wog-guild-loan-${loan.id}`, url: "/world" }).catch(() => {});
+}
+
+export async function penalizeBorrower(loan: GuildLoanRecord, delta: number, reason: string): Promise<void> {
+  const agentId = await resolvePreferredAgentIdForWallet(loan.borrower).catch(() => null);
+  if (!agentId) return;
+  reputationManager.submitFeedback(agentId, ReputationCategory.Economic, delta, reason);
+}
+
+// ── Closing loans ───────────────────────────────────────────────────
+
+interface LoanLogger {
+  warn: (msg: string) => void;
+  error: (err: unknown, msg?: string) => void;
+}
+
+/**
+ * Close the shard-side record of a loan whose item came back on-chain and
+ * give the borrower their collateral. The loan is claimed before any
+ * collateral moves, so a return racing the default tick settles it once.
+ * Null when the loan is unknown or no longer active (e.g. already defaulted).
+ */
+export async function settleReturnedLoan(
+  chainLoanId: number,
+  logger: LoanLogger,
+  now = Date.now()
+): Promise<{ loan: GuildLoanRecord; late: boolean; collateralReturned: boolean } | null> {
+  const loan = await getLoanRecordByChainId(chainLoanId);
+  if (!loan) return null;
+  const closed = await transitionLoanStatus(loan.id, "active", "returned", now);
+  if (!closed) return null;
+
+  const late = closed.dueAt !== null && now > closed.dueAt;
+  let collateralReturned = hasCollateral(closed.collateral);
+  try {
+    await releaseCollateral(closed.borrower, closed.collateral);
+  } catch (err) {
+    collateralReturned = false;
+    logger.error(err, `[guild-loan] CRITICAL: loan ${closed.id} returned but its collateral was not released`);
+  }
+  if (late) {
+    await penalizeBorrower(closed, LOAN_REPUTATION_PENALTIES.lateReturn, `Returned guild loan ${chainLoanId} late`);
+  }
+  return { loan: closed, late, collateralReturned };
+}
+
+/**
+ * Default an active loan: claim it as "defaulting", forfeit the collateral,
+ * then mark it defaulted. Returns false if a return (or another tick) got
+ * there first, or if the forfeit failed; a failed forfeit leaves the loan in
+ * "defaulting", which the tick skips, for an operator to finish.
+ */
+export async function defaultLoan(loan: GuildLoanRecord, logger: LoanLogger, now = Date.now()): Promise<boolean> {
+  const claimed = await transitionLoanStatus(loan.id, "active", "defaulting");
+  if (!claimed) return false;
+  try {
+    await forfeitCollateral(claimed);
+  } catch (err) {
+    logger.error(err, `[guild-loan] CRITICAL: forfeit for loan ${loan.id} failed partway; left defaulting`);
+    return false;
+  }
+  Object.assign(loan, (await transitionLoanStatus(loan.id, "defaulting", "defaulted", now)) ?? claimed);
+
+  const label = loanItemLabel(loan);
+  await penalizeBorrower(loan, LOAN_REPUTATION_PENALTIES.defaulted, `Defaulted on guild loan of ${label}`);
+  logGuildActivity({
+    guildId: loan.guildId,
+    kind: "vault_loan_defaulted",
+    targetWallet: loan.borrower,
+    tokenId: loan.tokenId,
+    quantity: loan.quantity,
+    loanId: loan.chainLoanId,
+    goldAmount: loan.collateral.gold || null,
+    detail: `Forfeited ${describeCollateral(loan.collateral)}`,
+  });
+  notifyLoanParty(
+    loan.borrower,
+    "Guild loan defaulted",
+    `You defaulted on ${label}. Forfeited ${describeCollateral(loan.collateral)} to the guild.`,
+    loan,
+  );
+  notifyLoanParty(loan.lender, "Guild loan defaulted", `${loan.borrower} defaulted on ${label}; collateral went to the guild.`, loan);
+  logger.warn(`[guild-loan] Loan ${loan.id} (chain ${loan.chainLoanId}) defaulted by ${loan.borrower}`);
+  return true;
+}
+
+// ── Tick ────────────────────────────────────────────────────────────
+
+async function processLoan(server: FastifyInstance, loan: GuildLoanRecord, now: number): Promise<void> {
+  const action = getLoanTickAction(loan, now);
+  if (!action) return;
+  const label = loanItemLabel(loan);
+
+  switch (action) {
+    case "expire_offer": {
+      // An accept may have claimed the offer since the tick listed it
+      if (!(await transitionLoanStatus(loan.id, "offered", "expired", now))) return;
+      loan.status = "expired";
+      loan.closedAt = now;
+      logGuildActivity({ guildId: loan.guildId, kind: "vault_loan_expired", targetWallet: loan.borrower, tokenId: loan.tokenId, quantity: loan.quantity });
+      notifyLoanParty(loan.lender, "Loan offer expired", `${loan.borrower} never accepted your offer of ${label}.`, loan);
+      return;
+    }
+    case "remind": {
+      loan.reminderSentAt = now;
+      await saveLoanRecord(loan);
+      notifyLoanParty(
+        loan.borrower,
+        "Guild loan due soon",
+        `Your borrowed ${label} is due back in the guild vault by ${new Date(loan.dueAt!).toUTCString()}.`,
+        loan,
+      );
+      return;
+    }
+    case "notify_overdue": {
+      loan.overdueNotifiedAt = now;
+      await saveLoanRecord(loan);
+      logGuildActivity({
+        guildId: loan.guildId,
+        kind: "vault_loan_overdue",
+        targetWallet: loan.borrower,
+        tokenId: loan.tokenId,
+        quantity: loan.quantity,
+        loanId: loan.chainLoanId,
+      });
+      notifyLoanParty(
+        loan.borrower,
+        "Guild loan overdue",
+        `Your borrowed ${label} is overdue. Return it soon or forfeit ${describeCollateral(loan.collateral)} and reputation.`,
+        loan,
+      );
+      notifyLoanParty(loan.lender, "Guild loan overdue", `${loan.borrower} is late returning ${label}.`, loan);
+      return;
+    }
+    case "default": {
+      await defaultLoan(loan, server.log, now);
+      return;
+    }
+  }
+}
+
+async function guildLoanTick(server: FastifyInstance): Promise<void> {
+  const loans = await listOpenLoanRecords();
+  const now = Date.now();
+  for (const loan of loans) {
+    try {
+      await processLoan(server, loan, now);
+    } catch (err) {
+      server.log.error(err, `[guild-loan] Failed to process loan ${loan.id}`);
+    }
+  }
+}
+
+/**
+ * Register the loan tick: expires stale offers, sends reminders and overdue
+ * notices, and defaults loans past the grace period.
+ */
+export function registerGuildLoanTick(server: FastifyInstance) {
+  server.log.info(`Registering guild loan tick (${Math.round(TICK_INTERVAL_MS / 1000)}s interval)`);
+
+  const tickInterval = setInterval(() => {
+    guildLoanTick(server).catch((err) => {
+      server.log.error(err, "Unhandled error in guild loan tick");
+    });
+  }, TICK_INTERVAL_MS);
+
+  server.addHook("onClose", async () => {
+    clearInterval(tickInterval);
+    server.log.info("Guild loan tick stopped");
+  });
+}
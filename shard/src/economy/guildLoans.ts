@@ -0,0 +1,145 @@
+// ── Guild vault loan lifecycle ──────────────────────────────────────
+//
+// The WoGGuildVault contract records who borrowed what and when it is due,
+// but nothing happens when a due date passes. The shard tracks each loan
+// alongside the contract: optional collateral escrowed when the borrower
+// accepts, a reminder before the due date, an overdue notice, and default
+// (collateral forfeited to the guild, reputation penalty) after a grace
+// period.
+
+// "accepting" is held by the one accept request that claimed an offer while
+// it escrows collateral and lends the item; the tick and other requests skip it.
+// "defaulting" is held by the tick while it forfeits collateral, and stays put
+// if the forfeit fails partway so it is never forfeited twice.
+export type GuildLoanStatus =
+  | "offered"
+  | "accepting"
+  | "active"
+  | "returned"
+  | "defaulting"
+  | "defaulted"
+  | "declined"
+  | "expired";
+
+export interface LoanCollateral {
+  gold: number;
+  items: Array<{ tokenId: number; quantity: number }>;
+}
+
+export interface GuildLoanRecord {
+  id: number;
+  guildId: number;
+  /** Set once the loan is on-chain. */
+  chainLoanId: number | null;
+  tokenId: number;
+  quantity: number;
+  borrower: string;
+  lender: string;
+  durationDays: number;
+  collateral: LoanCollateral;
+  status: GuildLoanStatus;
+  createdAt: number;
+  lentAt: number | null;
+  dueAt: number | null;
+  reminderSentAt: number | null;
+  overdueNotifiedAt: number | null;
+  closedAt: number | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** A collateralised offer the borrower hasn't accepted lapses after this. */
+export const LOAN_OFFER_TTL_MS = 48 * HOUR_MS;
+/** Borrowers get a reminder this long before the due date. */
+export const LOAN_REMINDER_LEAD_MS = DAY_MS;
+/** Days past due before the loan defaults and collateral is forfeited. */
+export const LOAN_DEFAULT_GRACE_MS = 3 * DAY_MS;
+
+export const LOAN_REPUTATION_PENALTIES = {
+  lateReturn: -5,
+  defaulted: -40,
+} as const;
+
+const MAX_COLLATERAL_ITEM_STACKS = 5;
+
+export function hasCollateral(collateral: LoanCollateral): boolean {
+  return collateral.gold > 0 || collateral.items.length > 0;
+}
+
+export function validateLoanCollateral(
+  raw: unknown,
+): { valid: true; collateral: LoanCollateral } | { valid: false; error: string } {
+  if (raw == null) return { valid: true, collateral: { gold: 0, items: [] } };
+  if (typeof raw !== "object") return { valid: false, error: "collateral must be an object" };
+  const input = raw as Record<string, unknown>;
+
+  const gold = input.gold == null ? 0 : Number(input.gold);
+  if (!Number.isFinite(gold) || gold < 0) return { valid: false, error: "collateral.gold must be a non-negative number" };
+
+  const items: LoanCollateral["items"] = [];
+  if (input.items != null) {
+    if (!Array.isArray(input.items)) return { valid: false, error: "collateral.items must be a list" };
+    if (input.items.length > MAX_COLLATERAL_ITEM_STACKS) {
+      return { valid: false, error: `At most ${MAX_COLLATERAL_ITEM_STACKS} collateral item stacks` };
+    }
+    for (const [i, entry] of input.items.entries()) {
+      const item = (entry ?? {}) as Record<string, unknown>;
+      const tokenId = Number(item.tokenId);
+      const quantity = Number(item.quantity);
+      if (!Number.isInteger(tokenId) || tokenId < 0) {
+        return { valid: false, error: `collateral.items[${i}].tokenId must be a token id` };
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        return { valid: false, error: `collateral.items[${i}].quantity must be a positive integer` };
+      }
+      const existing = items.find((it) => it.tokenId === tokenId);
+      if (existing) existing.quantity += quantity;
+      else items.push({ tokenId, quantity });
+    }
+  }
+
+  return { valid: true, collateral: { gold, items } };
+}
+
+export function isLoanOverdue(loan: GuildLoanRecord, now = Date.now()): boolean {
+  return loan.status === "active" && loan.dueAt !== null && now > loan.dueAt;
+}
+
+export type LoanTickAction = "expire_offer" | "remind" | "notify_overdue" | "default";
+
+/** What the loan tick should do with a loan right now, if anything. */
+export function getLoanTickAction(loan: GuildLoanRecord, now = Date.now()): LoanTickAction | null {
+  if (loan.status === "offered") {
+    return now - loan.createdAt >= LOAN_OFFER_TTL_MS ? "expire_offer" : null;
+  }
+  if (loan.status !== "active" || loan.dueAt === null) return null;
+  if (now >= loan.dueAt + LOAN_DEFAULT_GRACE_MS) return "default";
+  if (now > loan.dueAt) return loan.overdueNotifiedAt === null ? "notify_overdue" : null;
+  if (loan.dueAt - now <= LOAN_REMINDER_LEAD_MS && loan.reminderSentAt === null) return "remind";
+  return null;
+}
+
+export function toPublicLoan(loan: GuildLoanRecord, now = Date.now()) {
+  const overdue = isLoanOverdue(loan, now);
+  return {
+    id: loan.id,
+    guildId: loan.guildId,
+    loanId: loan.chainLoanId,
+    tokenId: loan.tokenId,
+    quantity: loan.quantity,
+    borrower: loan.borrower,
+    lender: loan.lender,
+    durationDays: loan.durationDays,
+    collateral: loan.collateral,
+    status: loan.status,
+    createdAt: loan.createdAt,
+    lentAt: loan.lentAt,
+    dueAt: loan.dueAt,
+    isOverdue: overdue,
+    daysOverdue: overdue && loan.dueAt !== null ? Math.floor((now - loan.dueAt) / DAY_MS) : 0,
+    defaultsAt: loan.status === "active" && loan.dueAt !== null ? loan.dueAt + LOAN_DEFAULT_GRACE_MS : null,
+    offerExpiresAt: loan.status === "offered" ? loan.createdAt + LOAN_OFFER_TTL_MS : null,
+    closedAt: loan.closedAt,
+  };
+}
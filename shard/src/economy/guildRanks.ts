@@ -0,0 +1,200 @@
+// ── Guild ranks, permissions and progression ────────────────────────
+//
+// The WoGGuild contract only knows Member / Officer / Founder. Guilds layer
+// their own named ranks on top, each carrying permission bits. A member
+// without an explicit assignment falls back to the rank matching their
+// on-chain standing, so guilds work before anyone touches rank settings.
+
+// On-chain MemberRank values (guildChain.ts); mirrored so this module stays
+// free of contract wiring.
+const CHAIN_RANK_OFFICER = 1;
+const CHAIN_RANK_FOUNDER = 2;
+
+export const GUILD_PERMISSIONS = {
+  invite: 1 << 0,
+  withdraw_vault: 1 << 1,
+  lend_vault: 1 << 2,
+  edit_motd: 1 << 3,
+  manage_ranks: 1 << 4,
+  view_log: 1 << 5,
+  chat: 1 << 6,
+} as const;
+
+export type GuildPermission = keyof typeof GUILD_PERMISSIONS;
+
+export const ALL_GUILD_PERMISSIONS = Object.values(GUILD_PERMISSIONS).reduce((all, bit) => all | bit, 0);
+
+export const GUILD_MASTER_RANK_ID = "guild-master";
+export const BASE_MAX_GUILD_RANKS = 5;
+
+export interface GuildRank {
+  rankId: string;
+  name: string;
+  /** 0 is the top; a rank can only manage ranks with a higher order. */
+  order: number;
+  permissions: number;
+}
+
+export function createDefaultGuildRanks(): GuildRank[] {
+  const p = GUILD_PERMISSIONS;
+  return [
+    { rankId: GUILD_MASTER_RANK_ID, name: "Guild Master", order: 0, permissions: ALL_GUILD_PERMISSIONS },
+    {
+      rankId: "officer",
+      name: "Officer",
+      order: 1,
+      permissions: p.invite | p.withdraw_vault | p.lend_vault | p.edit_motd | p.view_log | p.chat,
+    },
+    { rankId: "member", name: "Member", order: 2, permissions: p.view_log | p.chat },
+    { rankId: "recruit", name: "Recruit", order: 3, permissions: p.chat },
+  ];
+}
+
+export function isGuildPermission(value: unknown): value is GuildPermission {
+  return typeof value === "string" && value in GUILD_PERMISSIONS;
+}
+
+export function rankHasPermission(rank: GuildRank, permission: GuildPermission): boolean {
+  return (rank.permissions & GUILD_PERMISSIONS[permission]) !== 0;
+}
+
+export function listRankPermissions(permissions: number): GuildPermission[] {
+  return (Object.keys(GUILD_PERMISSIONS) as GuildPermission[])
+    .filter((name) => (permissions & GUILD_PERMISSIONS[name]) !== 0);
+}
+
+/**
+ * The rank a member holds: their explicit assignment if it still exists,
+ * otherwise the default for their on-chain rank.
+ */
+export function resolveMemberRank(
+  ranks: GuildRank[],
+  assignedRankId: string | undefined,
+  chainRank: number,
+): GuildRank {
+  const sorted = [...ranks].sort((a, b) => a.order - b.order);
+  if (chainRank === CHAIN_RANK_FOUNDER) return sorted[0];
+  const assigned = assignedRankId ? sorted.find((r) => r.rankId === assignedRankId) : undefined;
+  if (assigned && assigned.rankId !== GUILD_MASTER_RANK_ID) return assigned;
+  const fallbackId = chainRank === CHAIN_RANK_OFFICER ? "officer" : "member";
+  return sorted.find((r) => r.rankId === fallbackId) ?? sorted[sorted.length - 1];
+}
+
+/** Whether `actor` may edit `target` or move members into or out of it. */
+export function outranks(actor: GuildRank, target: GuildRank): boolean {
+  return actor.order < target.order;
+}
+
+export function validateGuildRanks(
+  raw: unknown,
+  maxRanks: number,
+): { valid: true; ranks: GuildRank[] } | { valid: false; error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) return { valid: false, error: "ranks must be a non-empty list" };
+  if (raw.length > maxRanks) return { valid: false, error: `This guild can define at most ${maxRanks} ranks` };
+
+  const ranks: GuildRank[] = [];
+  const seen = new Set<string>();
+  for (const [i, entry] of raw.entries()) {
+    const r = (entry ?? {}) as Record<string, unknown>;
+    const rankId = typeof r.rankId === "string" ? r.rankId.trim() : "";
+    if (!/^[a-z0-9][a-z0-9-]{0,23}$/.test(rankId)) {
+      return { valid: false, error: `ranks[${i}].rankId must be 1-24 lowercase letters, digits or dashes` };
+    }
+    if (seen.has(rankId)) return { valid: false, error: `Duplicate rankId ${rankId}` };
+    seen.add(rankId);
+
+    const name = typeof r.name === "string" ? r.name.trim() : "";
+    if (!name || name.length > 24) return { valid: false, error: `ranks[${i}].name must be 1-24 characters` };
+
+    let permissions = 0;
+    if (!Array.isArray(r.permissions)) {
+      return { valid: false, error: `ranks[${i}].permissions must list permission names` };
+    }
+    for (const perm of r.permissions) {
+      if (!isGuildPermission(perm)) {
+        return {
+          valid: false,
+          error: `Unknown permission "${String(perm)}". Use: ${Object.keys(GUILD_PERMISSIONS).join(", ")}`,
+        };
+      }
+      permissions |= GUILD_PERMISSIONS[perm];
+    }
+
+    ranks.push({ rankId, name, order: i, permissions });
+  }
+
+  const master = ranks[0];
+  if (master.rankId !== GUILD_MASTER_RANK_ID) {
+    return { valid: false, error: `The first rank must be ${GUILD_MASTER_RANK_ID}` };
+  }
+  if (master.permissions !== ALL_GUILD_PERMISSIONS) {
+    return { valid: false, error: "The guild master rank keeps every permission" };
+  }
+  if (ranks.length < 2) return { valid: false, error: "Define at least one rank below guild master" };
+
+  return { valid: true, ranks };
+}
+
+// ── Guild XP and perks ──────────────────────────────────────────────
+// Members earn guild XP by playing and by funding the guild. Levels unlock
+// perks that the relevant systems read at the point of use.
+
+export const GUILD_XP_AWARDS = {
+  mobKill: 1,
+  questCompleted: 10,
+  dungeonCleared: 50,
+  goldDepositedPerGold: 2,
+  vaultItemDeposited: 1,
+} as const;
+
+export const MAX_GUILD_LEVEL = 10;
+
+export interface GuildPerks {
+  /** Bonus XP on quest turn-in for every member. */
+  questXpBonusPct: number;
+  maxRanks: number;
+  /** Longest loan officers may grant from the vault. */
+  vaultLoanMaxDays: number;
+}
+
+const PERK_UNLOCKS: Array<{ level: number; perks: Partial<GuildPerks>; description: string }> = [
+  { level: 2, perks: { questXpBonusPct: 5 }, description: "+5% quest XP for members" },
+  { level: 3, perks: { maxRanks: 8 }, description: "Up to 8 custom ranks" },
+  { level: 4, perks: { vaultLoanMaxDays: 45 }, description: "Vault loans up to 45 days" },
+  { level: 5, perks: { questXpBonusPct: 10 }, description: "+10% quest XP for members" },
+  { level: 6, perks: { maxRanks: 10 }, description: "Up to 10 custom ranks" },
+  { level: 8, perks: { questXpBonusPct: 15 }, description: "+15% quest XP for members" },
+  { level: 10, perks: { vaultLoanMaxDays: 60 }, description: "Vault loans up to 60 days" },
+];
+
+/** Total XP needed to reach `level` (level 1 is free). */
+export function getGuildLevelXp(level: number): number {
+  return 1000 * (level - 1) ** 2;
+}
+
+export function getGuildLevel(xp: number): number {
+  let level = 1;
+  while (level < MAX_GUILD_LEVEL && xp >= getGuildLevelXp(level + 1)) level++;
+  return level;
+}
+
+export function getGuildPerks(level: number): GuildPerks {
+  const perks: GuildPerks = { questXpBonusPct: 0, maxRanks: BASE_MAX_GUILD_RANKS, vaultLoanMaxDays: 30 };
+  for (const unlock of PERK_UNLOCKS) {
+    if (unlock.level <= level) Object.assign(perks, unlock.perks);
+  }
+  return perks;
+}
+
+export function getGuildProgress(xp: number) {
+  const level = getGuildLevel(xp);
+  const nextLevelXp = level < MAX_GUILD_LEVEL ? getGuildLevelXp(level + 1) : null;
+  return {
+    xp,
+    level,
+    nextLevelXp,
+    xpToNextLevel: nextLevelXp === null ? 0 : nextLevelXp - xp,
+    perks: getGuildPerks(level),
+    unlocks: PERK_UNLOCKS.map((u) => ({ level: u.level, description: u.description, unlocked: u.level <= level })),
+  };
+}
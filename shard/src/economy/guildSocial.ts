@@ -0,0 +1,711 @@
+/**
+ * Guild social layer — custom ranks, message of the day, guild chat, the
+ * vault/treasury activity log and guild XP.
+ *
+ * Everything here lives on the shard (Postgres when configured, memory
+ * otherwise); the WoGGuild contract still owns membership, the treasury and
+ * proposals.
+ */
+
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { authenticateRequest } from "../auth/auth.js";
+import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
+import { isPostgresConfigured } from "../db/postgres.js";
+import {
+  addGuildXpRecord,
+  getGuildSettings,
+  insertGuildActivity,
+  listGuildActivity,
+  listGuildMemberRanks,
+  saveGuildMotd,
+  saveGuildRanks,
+  setGuildMemberRankRecord,
+} from "../db/guildSocialStore.js";
+import { getCachedGuildId, getMemberFromChain, getMemberGuildId, MemberRank } from "./guildChain.js";
+import {
+  GUILD_MASTER_RANK_ID,
+  GUILD_PERMISSIONS,
+  createDefaultGuildRanks,
+  getGuildLevel,
+  getGuildPerks,
+  getGuildProgress,
+  listRankPermissions,
+  outranks,
+  rankHasPermission,
+  resolveMemberRank,
+  validateGuildRanks,
+  type GuildPerks,
+  type GuildPermission,
+  type GuildRank,
+} from "./guildRanks.js";
+
+export const GUILD_ACTIVITY_KINDS = [
+  "vault_deposit",
+  "vault_withdraw",
+  "vault_lend",
+  "vault_return",
+  "vault_loan_offered",
+  "vault_loan_declined",
+  "vault_loan_expired",
+  "vault_loan_overdue",
+  "vault_loan_defaulted",
+  "gold_deposit",
+  "member_invited",
+  "member_joined",
+  "member_left",
+  "rank_assigned",
+  "ranks_updated",
+  "motd_updated",
+  "level_up",
+] as const;
+export type GuildActivityKind = (typeof GUILD_ACTIVITY_KINDS)[number];
+
+export interface GuildActivityEntry {
+  id: number;
+  guildId: number;
+  kind: GuildActivityKind;
+  actorWallet: string | null;
+  targetWallet: string | null;
+  tokenId: number | null;
+  quantity: number | null;
+  goldAmount: number | null;
+  loanId: number | null;
+  detail: string | null;
+  createdAt: number;
+}
+
+export interface GuildSettings {
+  motd: string;
+  motdUpdatedBy: string | null;
+  motdUpdatedAt: number | null;
+  /** null until the guild customises its ranks. */
+  ranks: GuildRank[] | null;
+  xp: number;
+}
+
+export interface GuildChatMessage {
+  id: number;
+  guildId: number;
+  walletAddress: string;
+  entityId: string;
+  senderName: string;
+  rankName: string;
+  message: string;
+  timestamp: number;
+}
+
+const MAX_MOTD_LENGTH = 500;
+const MAX_CHAT_HISTORY = 200;
+const MAX_MEMORY_LOG_ENTRIES = 500;
+const CACHE_TTL_MS = 30_000;
+const XP_FLUSH_DELAY_MS = 15_000;
+
+interface GuildSocialState {
+  settings: GuildSettings;
+  memberRanks: Map<string, string>; // wallet (lowercase) → rankId
+  loadedAt: number;
+}
+
+const stateCache = new Map<number, GuildSocialState>();
+const pendingXp = new Map<number, number>();
+let xpFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+const chatHistory = new Map<number, GuildChatMessage[]>();
+let nextChatId = 1;
+
+// Only used when Postgres is not configured
+const memoryLog = new Map<number, GuildActivityEntry[]>();
+let nextMemoryLogId = 1;
+
+function emptySettings(): GuildSettings {
+  return { motd: "", motdUpdatedBy: null, motdUpdatedAt: null, ranks: null, xp: 0 };
+}
+
+async function loadGuildState(guildId: number): Promise<GuildSocialState> {
+  const cached = stateCache.get(guildId);
+  // Without Postgres the cache is the only copy, so it never goes stale
+  if (cached && (!isPostgresConfigured() || Date.now() - cached.loadedAt < CACHE_TTL_MS)) {
+    return cached;
+  }
+  const [settings, memberRanks] = await Promise.all([
+    getGuildSettings(guildId),
+    listGuildMemberRanks(guildId),
+  ]);
+  const state: GuildSocialState = {
+    settings: settings ?? emptySettings(),
+    memberRanks,
+    loadedAt: Date.now(),
+  };
+  stateCache.set(guildId, state);
+  return state;
+}
+
+function guildRanksOf(state: GuildSocialState): GuildRank[] {
+  return state.settings.ranks ?? createDefaultGuildRanks();
+}
+
+function effectiveXp(guildId: number, state: GuildSocialState | undefined): number {
+  return (state?.settings.xp ?? 0) + (pendingXp.get(guildId) ?? 0);
+}
+
+// ── Ranks and permissions ───────────────────────────────────────────
+
+/**
+ * The custom rank a wallet holds in `guildId`, or null if it is not a
+ * member of that guild.
+ */
+export async function getMemberGuildRank(guildId: number, walletAddress: string): Promise<GuildRank | null> {
+  if ((await getMemberGuildId(walletAddress)) !== guildId) return null;
+  const member = await getMemberFromChain(guildId, walletAddress);
+  const state = await loadGuildState(guildId);
+  return resolveMemberRank(guildRanksOf(state), state.memberRanks.get(walletAddress.toLowerCase()), member.rank);
+}
+
+export async function hasGuildPermission(
+  guildId: number,
+  walletAddress: string,
+  permission: GuildPermission,
+): Promise<boolean> {
+  const rank = await getMemberGuildRank(guildId, walletAddress);
+  return rank !== null && rankHasPermission(rank, permission);
+}
+
+/** Rank assignments and names for every listed member, for guild detail responses. */
+export async function describeMemberRanks(
+  guildId: number,
+  members: Array<{ address: string; rank: number }>,
+): Promise<Map<string, GuildRank>> {
+  const state = await loadGuildState(guildId);
+  const ranks = guildRanksOf(state);
+  const described = new Map<string, GuildRank>();
+  for (const member of members) {
+    const wallet = member.address.toLowerCase();
+    described.set(wallet, resolveMemberRank(ranks, state.memberRanks.get(wallet), member.rank));
+  }
+  return described;
+}
+
+/** Drop a departed member's rank assignment so rejoining starts fresh. */
+export async function clearGuildMemberRank(guildId: number, walletAddress: string): Promise<void> {
+  const wallet = walletAddress.toLowerCase();
+  stateCache.get(guildId)?.memberRanks.delete(wallet);
+  await setGuildMemberRankRecord(guildId, wallet, null);
+}
+
+// ── Activity log ────────────────────────────────────────────────────
+
+/** Record a guild event. Never throws; a failed write only loses the log line. */
+export function logGuildActivity(
+  entry: Pick<GuildActivityEntry, "guildId" | "kind"> & Partial<Omit<GuildActivityEntry, "id" | "guildId" | "kind">>,
+): void {
+  const record: Omit<GuildActivityEntry, "id"> = {
+    guildId: entry.guildId,
+    kind: entry.kind,
+    actorWallet: entry.actorWallet?.toLowerCase() ?? null,
+    targetWallet: entry.targetWallet?.toLowerCase() ?? null,
+    tokenId: entry.tokenId ?? null,
+    quantity: entry.quantity ?? null,
+    goldAmount: entry.goldAmount ?? null,
+    loanId: entry.loanId ?? null,
+    detail: entry.detail ?? null,
+    createdAt: entry.createdAt ?? Date.now(),
+  };
+
+  if (!isPostgresConfigured()) {
+    const log = memoryLog.get(record.guildId) ?? [];
+    log.unshift({ id: nextMemoryLogId++, ...record });
+    if (log.length > MAX_MEMORY_LOG_ENTRIES) log.length = MAX_MEMORY_LOG_ENTRIES;
+    memoryLog.set(record.guildId, log);
+    return;
+  }
+
+  insertGuildActivity(record).catch((err) => {
+    console.warn(`[guild] Failed to log ${record.kind} for guild ${record.guildId}:`, err);
+  });
+}
+
+async function readGuildActivity(
+  guildId: number,
+  options: { limit: number; kinds?: GuildActivityKind[]; beforeId?: number },
+): Promise<GuildActivityEntry[]> {
+  if (isPostgresConfigured()) return listGuildActivity(guildId, options);
+  return (memoryLog.get(guildId) ?? [])
+    .filter((e) => (!options.kinds || options.kinds.includes(e.kind)) && (options.beforeId == null || e.id < options.beforeId))
+    .slice(0, options.limit);
+}
+
+// ── Guild XP and perks ──────────────────────────────────────────────
+
+async function flushGuildXp(): Promise<void> {
+  xpFlushTimer = null;
+  const batch = Array.from(pendingXp.entries());
+  pendingXp.clear();
+  for (const [guildId, amount] of batch) {
+    const state = stateCache.get(guildId);
+    const before = state?.settings.xp ?? 0;
+    try {
+      const total = await addGuildXpRecord(guildId, amount);
+      if (state && total !== null) {
+        state.settings.xp = total;
+        const level = getGuildLevel(total);
+        if (level > getGuildLevel(before)) {
+          logGuildActivity({ guildId, kind: "level_up", detail: `Reached guild level ${level}` });
+        }
+      }
+    } catch (err) {
+      console.warn(`[guild] Failed to save ${amount} XP for guild ${guildId}:`, err);
+      pendingXp.set(guildId, (pendingXp.get(guildId) ?? 0) + amount);
+    }
+  }
+}
+
+/**
+ * Credit guild XP for something a member did. Cheap enough to call from
+ * combat: it reads the cached wallet → guild map and batches writes.
+ */
+export function awardGuildXp(walletAddress: string | undefined, amount: number): void {
+  if (!walletAddress || !(amount > 0)) return;
+  const guildId = getCachedGuildId(walletAddress);
+  if (!guildId) return;
+  addGuildXp(guildId, amount);
+}
+
+export function addGuildXp(guildId: number, amount: number): void {
+  if (!(amount > 0)) return;
+
+  if (!isPostgresConfigured()) {
+    const state = stateCache.get(guildId) ?? { settings: emptySettings(), memberRanks: new Map(), loadedAt: Date.now() };
+    const before = state.settings.xp;
+    state.settings.xp += amount;
+    stateCache.set(guildId, state);
+    const level = getGuildLevel(state.settings.xp);
+    if (level > getGuildLevel(before)) {
+      logGuildActivity({ guildId, kind: "level_up", detail: `Reached guild level ${level}` });
+    }
+    return;
+  }
+
+  pendingXp.set(guildId, (pendingXp.get(guildId) ?? 0) + amount);
+  if (!xpFlushTimer) {
+    xpFlushTimer = setTimeout(() => {
+      flushGuildXp().catch((err) => console.warn("[guild] XP flush failed:", err));
+    }, XP_FLUSH_DELAY_MS);
+    xpFlushTimer.unref?.();
+  }
+}
+
+export async function getGuildPerksForGuild(guildId: number): Promise<GuildPerks> {
+  const state = await loadGuildState(guildId);
+  return getGuildPerks(getGuildLevel(effectiveXp(guildId, state)));
+}
+
+/**
+ * Perks for a wallet's guild from cache only — base perks if the wallet has
+ * no guild or its guild hasn't been loaded yet (this call starts the load).
+ */
+export function getCachedGuildPerks(walletAddress: string | undefined): GuildPerks {
+  const guildId = walletAddress ? getCachedGuildId(walletAddress) : undefined;
+  if (!guildId) return getGuildPerks(1);
+  const state = stateCache.get(guildId);
+  if (!state) loadGuildState(guildId).catch(() => {});
+  return getGuildPerks(getGuildLevel(effectiveXp(guildId, state)));
+}
+
+// ── Guild chat ──────────────────────────────────────────────────────
+
+export function postGuildChatMessage(message: Omit<GuildChatMessage, "id" | "timestamp">): GuildChatMessage {
+  const entry: GuildChatMessage = { ...message, id: nextChatId++, timestamp: Date.now() };
+  const history = chatHistory.get(message.guildId) ?? [];
+  history.push(entry);
+  if (history.length > MAX_CHAT_HISTORY) history.splice(0, history.length - MAX_CHAT_HISTORY);
+  chatHistory.set(message.guildId, history);
+  return entry;
+}
+
+/** Messages newer than `since` (a timestamp), oldest first. */
+export function listGuildChat(guildId: number, since?: number, limit = 100): GuildChatMessage[] {
+  const history = chatHistory.get(guildId) ?? [];
+  const filtered = since != null ? history.filter((m) => m.timestamp > since) : history;
+  return filtered.slice(-limit);
+}
+
+// ── Routes ──────────────────────────────────────────────────────────
+
+function formatRank(rank: GuildRank) {
+  return {
+    rankId: rank.rankId,
+    name: rank.name,
+    order: rank.order,
+    permissions: listRankPermissions(rank.permissions),
+  };
+}
+
+async function controlsWallet(authenticatedWallet: string, targetWallet: string): Promise<boolean> {
+  if (targetWallet.toLowerCase() === authenticatedWallet.toLowerCase()) return true;
+  const custodialWallet = await getAgentCustodialWallet(authenticatedWallet);
+  return custodialWallet?.toLowerCase() === targetWallet.toLowerCase();
+}
+
+/**
+ * Resolve the guild member acting on a request: `actorAddress` if given
+ * (the caller must control it), otherwise the authenticated wallet.
+ */
+export async function resolveGuildActor(
+  request: FastifyRequest,
+  guildId: number,
+  actorAddress?: string,
+): Promise<{ ok: true; wallet: string; rank: GuildRank } | { ok: false; status: number; error: string }> {
+  const authenticatedWallet = (request as any).walletAddress as string;
+  const wallet = actorAddress ?? authenticatedWallet;
+  if (!/^0x[a-fA-F0-9]{40}$/.test(wallet)) {
+    return { ok: false, status: 400, error: "Invalid member address" };
+  }
+  if (!(await controlsWallet(authenticatedWallet, wallet))) {
+    return { ok: false, status: 403, error: "Not authorized to act for this wallet" };
+  }
+  const rank = await getMemberGuildRank(guildId, wallet);
+  if (!rank) return { ok: false, status: 403, error: "Not a member of this guild" };
+  return { ok: true, wallet, rank };
+}
+
+function parseGuildId(raw: string): number | null {
+  const guildId = parseInt(raw, 10);
+  return isNaN(guildId) || guildId <= 0 ? null : guildId;
+}
+
+export function registerGuildSocialRoutes(server: FastifyInstance) {
+  /**
+   * GET /guild/:guildId/ranks
+   * The guild's rank table and explicit member assignments.
+   */
+  server.get<{ Params: { guildId: string } }>("/guild/:guildId/ranks", async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+
+    try {
+      const state = await loadGuildState(guildId);
+      const perks = getGuildPerks(getGuildLevel(effectiveXp(guildId, state)));
+      return {
+        guildId,
+        customized: state.settings.ranks !== null,
+        ranks: guildRanksOf(state).map(formatRank),
+        assignments: Array.from(state.memberRanks.entries()).map(([walletAddress, rankId]) => ({ walletAddress, rankId })),
+        maxRanks: perks.maxRanks,
+        availablePermissions: Object.keys(GUILD_PERMISSIONS),
+      };
+    } catch (err) {
+      server.log.error(err, `Failed to get ranks for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to get guild ranks" };
+    }
+  });
+
+  /**
+   * PUT /guild/:guildId/ranks
+   * Replace the rank table (guild master only). Members whose rank was
+   * removed fall back to the default for their on-chain rank.
+   */
+  server.put<{
+    Params: { guildId: string };
+    Body: { actorAddress?: string; ranks: unknown };
+  }>("/guild/:guildId/ranks", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+
+    try {
+      const actor = await resolveGuildActor(request, guildId, request.body?.actorAddress);
+      if (!actor.ok) {
+        reply.code(actor.status);
+        return { error: actor.error };
+      }
+      // Anyone else with manage_ranks could otherwise grant themselves everything
+      if (actor.rank.rankId !== GUILD_MASTER_RANK_ID) {
+        reply.code(403);
+        return { error: "Only the guild master can redefine ranks" };
+      }
+
+      const perks = await getGuildPerksForGuild(guildId);
+      const check = validateGuildRanks(request.body?.ranks, perks.maxRanks);
+      if (!check.valid) {
+        reply.code(400);
+        return { error: check.error };
+      }
+
+      await saveGuildRanks(guildId, check.ranks);
+      const state = await loadGuildState(guildId);
+      state.settings.ranks = check.ranks;
+
+      logGuildActivity({
+        guildId,
+        kind: "ranks_updated",
+        actorWallet: actor.wallet,
+        detail: check.ranks.map((r) => r.name).join(", "),
+      });
+      server.log.info(`[guild] ${actor.wallet} redefined ranks for guild ${guildId}`);
+
+      return { ok: true, guildId, ranks: check.ranks.map(formatRank) };
+    } catch (err) {
+      server.log.error(err, `Failed to update ranks for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to update guild ranks" };
+    }
+  });
+
+  /**
+   * POST /guild/:guildId/members/rank
+   * Assign a member a custom rank (needs manage_ranks and must outrank both
+   * the member's current rank and the new one). rankId null clears it.
+   */
+  server.post<{
+    Params: { guildId: string };
+    Body: { actorAddress?: string; memberAddress: string; rankId: string | null };
+  }>("/guild/:guildId/members/rank", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+    const { actorAddress, memberAddress, rankId } = request.body ?? {};
+
+    if (!memberAddress || !/^0x[a-fA-F0-9]{40}$/.test(memberAddress)) {
+      reply.code(400);
+      return { error: "Invalid member address" };
+    }
+
+    try {
+      const actor = await resolveGuildActor(request, guildId, actorAddress);
+      if (!actor.ok) {
+        reply.code(actor.status);
+        return { error: actor.error };
+      }
+      if (!rankHasPermission(actor.rank, "manage_ranks")) {
+        reply.code(403);
+        return { error: `Your rank (${actor.rank.name}) cannot manage ranks` };
+      }
+
+      const currentRank = await getMemberGuildRank(guildId, memberAddress);
+      if (!currentRank) {
+        reply.code(400);
+        return { error: "Target is not a member of this guild" };
+      }
+      const member = await getMemberFromChain(guildId, memberAddress);
+      if (member.rank === MemberRank.Founder) {
+        reply.code(400);
+        return { error: "The founder is always guild master" };
+      }
+      if (!outranks(actor.rank, currentRank)) {
+        reply.code(403);
+        return { error: `You must outrank ${currentRank.name} to change this member's rank` };
+      }
+
+      const state = await loadGuildState(guildId);
+      const wallet = memberAddress.toLowerCase();
+      let newRank: GuildRank;
+      if (rankId == null) {
+        state.memberRanks.delete(wallet);
+        newRank = resolveMemberRank(guildRanksOf(state), undefined, member.rank);
+      } else {
+        const target = guildRanksOf(state).find((r) => r.rankId === rankId);
+        if (!target || target.rankId === GUILD_MASTER_RANK_ID) {
+          reply.code(400);
+          return { error: `Unknown or unassignable rank: ${rankId}` };
+        }
+        if (!outranks(actor.rank, target)) {
+          reply.code(403);
+          return { error: `You can only assign ranks below ${actor.rank.name}` };
+        }
+        state.memberRanks.set(wallet, target.rankId);
+        newRank = target;
+      }
+      await setGuildMemberRankRecord(guildId, wallet, rankId ?? null);
+
+      logGuildActivity({
+        guildId,
+        kind: "rank_assigned",
+        actorWallet: actor.wallet,
+        targetWallet: wallet,
+        detail: `${currentRank.name} → ${newRank.name}`,
+      });
+
+      return { ok: true, guildId, memberAddress: wallet, rank: formatRank(newRank) };
+    } catch (err) {
+      server.log.error(err, `Failed to assign rank in guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to assign rank" };
+    }
+  });
+
+  /**
+   * GET /guild/:guildId/motd
+   * Message of the day (members only).
+   */
+  server.get<{
+    Params: { guildId: string };
+    Querystring: { memberAddress?: string };
+  }>("/guild/:guildId/motd", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+
+    try {
+      const actor = await resolveGuildActor(request, guildId, request.query.memberAddress);
+      if (!actor.ok) {
+        reply.code(actor.status);
+        return { error: actor.error };
+      }
+      const { settings } = await loadGuildState(guildId);
+      return {
+        guildId,
+        motd: settings.motd,
+        updatedBy: settings.motdUpdatedBy,
+        updatedAt: settings.motdUpdatedAt,
+      };
+    } catch (err) {
+      server.log.error(err, `Failed to get MOTD for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to get message of the day" };
+    }
+  });
+
+  /**
+   * PUT /guild/:guildId/motd
+   * Set the message of the day (needs edit_motd).
+   */
+  server.put<{
+    Params: { guildId: string };
+    Body: { actorAddress?: string; motd: string };
+  }>("/guild/:guildId/motd", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+    const { actorAddress, motd } = request.body ?? {};
+
+    if (typeof motd !== "string") {
+      reply.code(400);
+      return { error: "motd is required" };
+    }
+    const sanitized = motd.trim();
+    if (sanitized.length > MAX_MOTD_LENGTH) {
+      reply.code(400);
+      return { error: `Message of the day is limited to ${MAX_MOTD_LENGTH} characters` };
+    }
+
+    try {
+      const actor = await resolveGuildActor(request, guildId, actorAddress);
+      if (!actor.ok) {
+        reply.code(actor.status);
+        return { error: actor.error };
+      }
+      if (!rankHasPermission(actor.rank, "edit_motd")) {
+        reply.code(403);
+        return { error: `Your rank (${actor.rank.name}) cannot edit the message of the day` };
+      }
+
+      const updatedAt = Date.now();
+      await saveGuildMotd(guildId, sanitized, actor.wallet, updatedAt);
+      const state = await loadGuildState(guildId);
+      state.settings.motd = sanitized;
+      state.settings.motdUpdatedBy = actor.wallet.toLowerCase();
+      state.settings.motdUpdatedAt = updatedAt;
+
+      logGuildActivity({ guildId, kind: "motd_updated", actorWallet: actor.wallet });
+
+      return { ok: true, guildId, motd: sanitized, updatedAt };
+    } catch (err) {
+      server.log.error(err, `Failed to set MOTD for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to set message of the day" };
+    }
+  });
+
+  /**
+   * GET /guild/:guildId/log
+   * Vault, treasury and membership activity, newest first (needs view_log).
+   * Query: memberAddress, kind (comma-separated), limit (max 200), before (entry id).
+   */
+  server.get<{
+    Params: { guildId: string };
+    Querystring: { memberAddress?: string; kind?: string; limit?: string; before?: string };
+  }>("/guild/:guildId/log", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+
+    const kinds = request.query.kind
+      ? request.query.kind.split(",").map((value) => value.trim()).filter(Boolean)
+      : undefined;
+    const unknownKind = kinds?.find((k) => !(GUILD_ACTIVITY_KINDS as readonly string[]).includes(k));
+    if (unknownKind) {
+      reply.code(400);
+      return { error: `Unknown kind "${unknownKind}". Use: ${GUILD_ACTIVITY_KINDS.join(", ")}` };
+    }
+    const limit = Math.min(200, Math.max(1, parseInt(request.query.limit ?? "50", 10) || 50));
+    const beforeId = request.query.before ? parseInt(request.query.before, 10) : undefined;
+
+    try {
+      const actor = await resolveGuildActor(request, guildId, request.query.memberAddress);
+      if (!actor.ok) {
+        reply.code(actor.status);
+        return { error: actor.error };
+      }
+      if (!rankHasPermission(actor.rank, "view_log")) {
+        reply.code(403);
+        return { error: `Your rank (${actor.rank.name}) cannot view the guild log` };
+      }
+
+      const entries = await readGuildActivity(guildId, {
+        limit,
+        kinds: kinds as GuildActivityKind[] | undefined,
+        beforeId: Number.isFinite(beforeId) ? beforeId : undefined,
+      });
+      return { guildId, count: entries.length, entries };
+    } catch (err) {
+      server.log.error(err, `Failed to read log for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to read guild log" };
+    }
+  });
+
+  /**
+   * GET /guild/:guildId/progress
+   * Guild XP, level and unlocked perks.
+   */
+  server.get<{ Params: { guildId: string } }>("/guild/:guildId/progress", async (request, reply) => {
+    const guildId = parseGuildId(request.params.guildId);
+    if (guildId === null) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+
+    try {
+      const state = await loadGuildState(guildId);
+      return { guildId, ...getGuildProgress(effectiveXp(guildId, state)) };
+    } catch (err) {
+      server.log.error(err, `Failed to get progress for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to get guild progress" };
+    }
+  });
+}
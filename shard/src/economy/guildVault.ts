@@ -4,10 +4,31 @@ import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
 import { getItemBalance } from "../blockchain/blockchain.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
 import { getMemberFromChain } from "./guildChain.js";
+import { GUILD_XP_AWARDS, rankHasPermission } from "./guildRanks.js";
+import { addGuildXp, getGuildPerksForGuild, getMemberGuildRank, logGuildActivity } from "./guildSocial.js";
+import {
+  getLoanTickAction,
+  hasCollateral,
+  toPublicLoan,
+  validateLoanCollateral,
+  type GuildLoanStatus,
+} from "./guildLoans.js";
+import {
+  activateLoan,
+  createLoanRecord,
+  describeCollateral,
+  escrowCollateral,
+  getLoanRecord,
+  listLoanRecords,
+  notifyLoanParty,
+  releaseCollateral,
+  saveLoanRecord,
+  settleReturnedLoan,
+  transitionLoanStatus,
+} from "./guildLoanService.js";
 import {
   depositItemOnChain,
   withdrawItemOnChain,
-  lendItemOnChain,
   returnItemOnChain,
   getVaultItemsFromChain,
   getLentItemsFromChain,
@@ -86,7 +107,7 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
 
   /**
    * POST /guild/:guildId/vault/deposit
-   * Deposit item into guild vault (members can deposit).
+   * Deposit item into guild vault (any member can deposit).
    */
   server.post<{
     Params: { guildId: string };
@@ -131,6 +152,8 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
 
       const txHash = await depositItemOnChain(guildId, tokenId, quantity, memberAddress);
 
+      logGuildActivity({ guildId, kind: "vault_deposit", actorWallet: memberAddress, tokenId, quantity });
+      addGuildXp(guildId, quantity * GUILD_XP_AWARDS.vaultItemDeposited);
       server.log.info(
         `${memberAddress} deposited ${quantity}x tokenId ${tokenId} to guild ${guildId} vault`
       );
@@ -151,7 +174,7 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
 
   /**
    * POST /guild/:guildId/vault/withdraw
-   * Withdraw item from guild vault (officers only).
+   * Withdraw item from guild vault (ranks with withdraw_vault).
    */
   server.post<{
     Params: { guildId: string };
@@ -184,16 +207,23 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
     }
 
     try {
-      // Verify officer rank (Officer or Founder)
-      const member = await getMemberFromChain(guildId, officerAddress);
-      if (member.rank < 1) {
-        // 0 = Member, 1 = Officer, 2 = Founder
+      const rank = await getMemberGuildRank(guildId, officerAddress);
+      if (!rank || !rankHasPermission(rank, "withdraw_vault")) {
         reply.code(403);
-        return { error: "Only officers can withdraw from vault" };
+        return { error: rank ? `Your rank (${rank.name}) cannot withdraw from the vault` : "Not a member of this guild" };
       }
 
       const txHash = await withdrawItemOnChain(guildId, tokenId, quantity, recipientAddress);
 
+      logGuildActivity({
+        guildId,
+        kind: "vault_withdraw",
+        actorWallet: officerAddress,
+        targetWallet: recipientAddress,
+        tokenId,
+        quantity,
+      });
+
       // Note: In production, you'd transfer the item from vault contract to recipient
       // This would happen via transferItem() from vault contract to recipient
 
@@ -218,7 +248,9 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
 
   /**
    * POST /guild/:guildId/vault/lend
-   * Lend item to guild member (officers only).
+   * Lend item to guild member (ranks with lend_vault; max duration is a guild perk).
+   * With collateral the loan is only offered: the borrower accepts it via
+   * /vault/loans/:id/accept, which escrows the collateral and lends on-chain.
    */
   server.post<{
     Params: { guildId: string };
@@ -228,6 +260,7 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
       quantity: number;
       borrowerAddress: string;
       durationDays: number;
+      collateral?: { gold?: number; items?: Array<{ tokenId: number; quantity: number }> };
     };
   }>("/guild/:guildId/vault/lend", {
     preHandler: authenticateRequest,
@@ -236,6 +269,13 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
     const guildId = parseInt(request.params.guildId, 10);
     const { officerAddress, tokenId, quantity, borrowerAddress, durationDays } = request.body;
 
+    const collateralCheck = validateLoanCollateral(request.body.collateral);
+    if (!collateralCheck.valid) {
+      reply.code(400);
+      return { error: collateralCheck.error };
+    }
+    const { collateral } = collateralCheck;
+
     if (!officerAddress || !/^0x[a-fA-F0-9]{40}$/.test(officerAddress)) {
       reply.code(400);
       return { error: "Invalid officer address" };
@@ -251,22 +291,22 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
       return { error: "Quantity must be positive" };
     }
 
-    if (durationDays <= 0 || durationDays > 30) {
-      reply.code(400);
-      return { error: "Duration must be 1-30 days" };
-    }
-
     if (!(await controlsWallet(authenticatedWallet, officerAddress))) {
       reply.code(403);
       return { error: "Not authorized to lend for this wallet" };
     }
 
     try {
-      // Verify officer rank
-      const member = await getMemberFromChain(guildId, officerAddress);
-      if (member.rank < 1) {
+      const rank = await getMemberGuildRank(guildId, officerAddress);
+      if (!rank || !rankHasPermission(rank, "lend_vault")) {
         reply.code(403);
-        return { error: "Only officers can lend items" };
+        return { error: rank ? `Your rank (${rank.name}) cannot lend vault items` : "Not a member of this guild" };
+      }
+
+      const { vaultLoanMaxDays } = await getGuildPerksForGuild(guildId);
+      if (durationDays <= 0 || durationDays > vaultLoanMaxDays) {
+        reply.code(400);
+        return { error: `Duration must be 1-${vaultLoanMaxDays} days` };
       }
 
       // Verify borrower is a guild member
@@ -276,17 +316,70 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
         return { error: "Borrower must be a guild member" };
       }
 
-      const { loanId, txHash } = await lendItemOnChain(
+      const loan = await createLoanRecord({
         guildId,
+        chainLoanId: null,
         tokenId,
         quantity,
-        borrowerAddress,
-        durationDays
-      );
+        borrower: borrowerAddress,
+        lender: officerAddress,
+        durationDays,
+        collateral,
+        status: "offered",
+        createdAt: Date.now(),
+        lentAt: null,
+        dueAt: null,
+        reminderSentAt: null,
+        overdueNotifiedAt: null,
+        closedAt: null,
+      });
+
+      if (hasCollateral(collateral)) {
+        logGuildActivity({
+          guildId,
+          kind: "vault_loan_offered",
+          actorWallet: officerAddress,
+          targetWallet: borrowerAddress,
+          tokenId,
+          quantity,
+          goldAmount: collateral.gold || null,
+          detail: `${durationDays} days against ${describeCollateral(collateral)}`,
+        });
+        notifyLoanParty(
+          borrowerAddress,
+          "Guild loan offered",
+          `Your guild offers you ${quantity}x ${getItemByTokenId(BigInt(tokenId))?.name ?? `token ${tokenId}`} for ${durationDays} days against ${describeCollateral(collateral)}. Accept to receive it.`,
+          loan,
+        );
+        reply.code(202);
+        return { ok: true, guildId, status: "offered", loan: toPublicLoan(loan) };
+      }
+
+      let activated: { loanId: number; txHash: string };
+      try {
+        activated = await activateLoan(loan);
+      } catch (err) {
+        loan.status = "expired";
+        loan.closedAt = Date.now();
+        await saveLoanRecord(loan);
+        throw err;
+      }
+      const { loanId, txHash } = activated;
 
       // Note: In production, you'd transfer the item from vault to borrower
       // This would happen via transferItem()
 
+      logGuildActivity({
+        guildId,
+        kind: "vault_lend",
+        actorWallet: officerAddress,
+        targetWallet: borrowerAddress,
+        tokenId,
+        quantity,
+        loanId,
+        detail: `${durationDays} days`,
+      });
+
       server.log.info(
         `Officer ${officerAddress} lent ${quantity}x tokenId ${tokenId} from guild ${guildId} vault to ${borrowerAddress} for ${durationDays} days`
       );
@@ -299,6 +392,7 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
         quantity,
         borrowerAddress,
         durationDays,
+        dueAt: loan.dueAt,
         txHash,
       };
     } catch (err) {
@@ -308,6 +402,234 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
     }
   });
 
+  /**
+   * POST /guild/:guildId/vault/loans/:offerId/accept
+   * Accept a collateralised loan offer: collateral goes into escrow and the
+   * item is lent on-chain.
+   */
+  server.post<{
+    Params: { guildId: string; offerId: string };
+    Body: { borrowerAddress: string };
+  }>("/guild/:guildId/vault/loans/:offerId/accept", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const authenticatedWallet = (request as any).walletAddress as string;
+    const guildId = parseInt(request.params.guildId, 10);
+    const offerId = parseInt(request.params.offerId, 10);
+    const { borrowerAddress } = request.body;
+
+    if (!borrowerAddress || !/^0x[a-fA-F0-9]{40}$/.test(borrowerAddress)) {
+      reply.code(400);
+      return { error: "Invalid borrower address" };
+    }
+
+    if (!(await controlsWallet(authenticatedWallet, borrowerAddress))) {
+      reply.code(403);
+      return { error: "Not authorized to accept for this wallet" };
+    }
+
+    const loan = Number.isFinite(offerId) ? await getLoanRecord(offerId) : null;
+    if (!loan || loan.guildId !== guildId || loan.borrower !== borrowerAddress.toLowerCase()) {
+      reply.code(404);
+      return { error: "Loan offer not found" };
+    }
+    if (loan.status !== "offered" || getLoanTickAction(loan) === "expire_offer") {
+      reply.code(409);
+      return { error: `Loan offer is ${loan.status === "offered" ? "expired" : loan.status}` };
+    }
+
+    // Claim the offer before touching collateral: only one accept (and not the
+    // expiry tick or a decline) may escrow and lend against it.
+    const claimed = await transitionLoanStatus(loan.id, "offered", "accepting");
+    if (!claimed) {
+      reply.code(409);
+      return { error: "Loan offer is no longer open" };
+    }
+    const reopenOffer = () => transitionLoanStatus(loan.id, "accepting", "offered").catch((reopenErr) => {
+      server.log.error(reopenErr, `Failed to reopen guild ${guildId} loan offer ${offerId}`);
+    });
+
+    let escrowError: string | null;
+    try {
+      escrowError = await escrowCollateral(claimed.borrower, claimed.collateral);
+    } catch (err) {
+      await reopenOffer();
+      server.log.error(err, `Failed to escrow collateral for guild ${guildId} loan offer ${offerId}`);
+      reply.code(500);
+      return { error: "Failed to escrow collateral" };
+    }
+    if (escrowError) {
+      await reopenOffer();
+      reply.code(400);
+      return { error: escrowError };
+    }
+
+    try {
+      const { loanId, txHash } = await activateLoan(claimed);
+
+      logGuildActivity({
+        guildId,
+        kind: "vault_lend",
+        actorWallet: loan.lender,
+        targetWallet: loan.borrower,
+        tokenId: loan.tokenId,
+        quantity: loan.quantity,
+        loanId,
+        detail: `${loan.durationDays} days against ${describeCollateral(loan.collateral)}`,
+      });
+      notifyLoanParty(
+        loan.lender,
+        "Guild loan accepted",
+        `${loan.borrower} accepted your loan and escrowed ${describeCollateral(loan.collateral)}.`,
+        claimed,
+      );
+
+      server.log.info(`${borrowerAddress} accepted guild ${guildId} loan offer ${offerId} (loan ${loanId})`);
+
+      return { ok: true, guildId, loanId, txHash, loan: toPublicLoan(claimed) };
+    } catch (err) {
+      await releaseCollateral(loan.borrower, loan.collateral).catch((releaseErr) => {
+        server.log.error(releaseErr, `Failed to release collateral for guild ${guildId} loan offer ${offerId}`);
+      });
+      await reopenOffer();
+      server.log.error(err, `Failed to activate guild ${guildId} loan offer ${offerId}`);
+      reply.code(500);
+      return { error: "Failed to accept loan" };
+    }
+  });
+
+  /**
+   * POST /guild/:guildId/vault/loans/:offerId/decline
+   * Turn down a collateralised loan offer.
+   */
+  server.post<{
+    Params: { guildId: string; offerId: string };
+    Body: { borrowerAddress: string };
+  }>("/guild/:guildId/vault/loans/:offerId/decline", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const authenticatedWallet = (request as any).walletAddress as string;
+    const guildId = parseInt(request.params.guildId, 10);
+    const offerId = parseInt(request.params.offerId, 10);
+    const { borrowerAddress } = request.body;
+
+    if (!borrowerAddress || !/^0x[a-fA-F0-9]{40}$/.test(borrowerAddress)) {
+      reply.code(400);
+      return { error: "Invalid borrower address" };
+    }
+
+    if (!(await controlsWallet(authenticatedWallet, borrowerAddress))) {
+      reply.code(403);
+      return { error: "Not authorized to decline for this wallet" };
+    }
+
+    const loan = Number.isFinite(offerId) ? await getLoanRecord(offerId) : null;
+    if (!loan || loan.guildId !== guildId || loan.borrower !== borrowerAddress.toLowerCase()) {
+      reply.code(404);
+      return { error: "Loan offer not found" };
+    }
+    if (loan.status !== "offered") {
+      reply.code(409);
+      return { error: `Loan offer is ${loan.status}` };
+    }
+
+    const closedAt = Date.now();
+    if (!(await transitionLoanStatus(loan.id, "offered", "declined", closedAt))) {
+      reply.code(409);
+      return { error: "Loan offer is no longer open" };
+    }
+    loan.status = "declined";
+    loan.closedAt = closedAt;
+
+    logGuildActivity({
+      guildId,
+      kind: "vault_loan_declined",
+      actorWallet: loan.borrower,
+      targetWallet: loan.lender,
+      tokenId: loan.tokenId,
+      quantity: loan.quantity,
+    });
+    notifyLoanParty(loan.lender, "Guild loan declined", `${loan.borrower} declined your loan offer.`, loan);
+
+    return { ok: true, guildId, loan: toPublicLoan(loan) };
+  });
+
+  /**
+   * GET /guild/:guildId/vault/loans?actorAddress=0x...&status=outstanding
+   * Officer view of the guild's loans. Needs lend_vault or withdraw_vault.
+   * status: outstanding (default: offered, accepting, active + defaulting), overdue, offered,
+   * active, returned, defaulted, or all.
+   */
+  server.get<{
+    Params: { guildId: string };
+    Querystring: { actorAddress?: string; status?: string };
+  }>("/guild/:guildId/vault/loans", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const authenticatedWallet = (request as any).walletAddress as string;
+    const guildId = parseInt(request.params.guildId, 10);
+    const actorAddress = request.query.actorAddress ?? authenticatedWallet;
+    const statusFilter = request.query.status ?? "outstanding";
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(actorAddress)) {
+      reply.code(400);
+      return { error: "Invalid actor address" };
+    }
+
+    if (!(await controlsWallet(authenticatedWallet, actorAddress))) {
+      reply.code(403);
+      return { error: "Not authorized for this wallet" };
+    }
+
+    let statuses: GuildLoanStatus[] | undefined;
+    switch (statusFilter) {
+      case "outstanding":
+      case "overdue":
+        statuses = ["offered", "accepting", "active", "defaulting"];
+        break;
+      case "offered":
+      case "active":
+      case "returned":
+      case "defaulted":
+        statuses = [statusFilter];
+        break;
+      case "all":
+        statuses = undefined;
+        break;
+      default:
+        reply.code(400);
+        return { error: "status must be outstanding, overdue, offered, active, returned, defaulted or all" };
+    }
+
+    try {
+      const rank = await getMemberGuildRank(guildId, actorAddress);
+      if (!rank || !(rankHasPermission(rank, "lend_vault") || rankHasPermission(rank, "withdraw_vault"))) {
+        reply.code(403);
+        return { error: rank ? `Your rank (${rank.name}) cannot view vault loans` : "Not a member of this guild" };
+      }
+
+      const now = Date.now();
+      const loans = (await listLoanRecords(guildId, statuses))
+        .map((loan) => ({
+          ...toPublicLoan(loan, now),
+          itemName: getItemByTokenId(BigInt(loan.tokenId))?.name ?? "Unknown Item",
+        }))
+        .filter((loan) => statusFilter !== "overdue" || loan.isOverdue);
+
+      return {
+        guildId,
+        status: statusFilter,
+        count: loans.length,
+        overdueCount: loans.filter((loan) => loan.isOverdue).length,
+        loans,
+      };
+    } catch (err) {
+      server.log.error(err, `Failed to list loans for guild ${guildId}`);
+      reply.code(500);
+      return { error: "Failed to list loans" };
+    }
+  });
+
   /**
    * POST /guild/:guildId/vault/return
    * Return borrowed item to vault.
@@ -338,6 +660,13 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
       // Note: In production, you'd transfer the item from borrower back to vault
       // This would happen via transferItem()
 
+      // Close the shard-side record. A defaulted loan already forfeited its
+      // collateral, so only active loans get it back.
+      const settled = await settleReturnedLoan(loanId, server.log);
+      const late = settled?.late ?? false;
+
+      logGuildActivity({ guildId, kind: "vault_return", actorWallet: borrowerAddress, loanId, detail: late ? "late" : null });
+
       server.log.info(
         `${borrowerAddress} returned loan ${loanId} to guild ${guildId} vault`
       );
@@ -346,6 +675,8 @@ export function registerGuildVaultRoutes(server: FastifyInstance) {
         ok: true,
         guildId,
         loanId,
+        late,
+        collateralReturned: settled?.collateralReturned ?? false,
         txHash,
       };
     } catch (err) {
@@ -25,6 +25,8 @@ function formatAuction(auction: AuctionData) {
     armorSlot: item?.armorSlot ?? null,
     statBonuses: instance?.rolledStats ?? item?.statBonuses ?? {},
     bonusAffix: instance?.bonusAffix ?? null,
+    affixes: instance?.affixes ?? null,
+    sockets: instance?.sockets ?? null,
     quality: instance?.quality?.tier ?? null,
     durability: instance?.currentDurability ?? null,
     maxDurability: instance?.currentMaxDurability ?? item?.maxDurability ?? null,
@@ -5,9 +5,10 @@
 
 import type { FastifyInstance } from "fastify";
 import { authenticateRequest } from "../auth/auth.js";
-import { getEntityAgentId } from "../erc8004/agentResolution.js";
+import { getEntityAgentId, normalizeAgentId } from "../erc8004/agentResolution.js";
 import { reputationManager, ReputationCategory } from "./reputationManager.js";
-import { getValidationClaims } from "../erc8004/validation.js";
+import { getValidationClaims, getValidatorAddress } from "../erc8004/validation.js";
+import { getAchievementClaim, listAchievementClaims, verifyAchievementClaim } from "../erc8004/achievementClaims.js";
 import { getAllEntities } from "../world/zoneRuntime.js";
 import { SKALE_BASE_CHAIN_ID } from "../blockchain/biteChain.js";
 import { getCharacterProjectionByAgentId } from "../character/characterProjectionStore.js";
@@ -121,14 +122,54 @@ export async function registerReputationRoutes(app: FastifyInstance) {
 
   /**
    * GET /api/agents/:agentId/validations
-   * Get validation claims for an agent
+   * Get on-chain validations plus the shard's signed achievement claims for an agent
    */
   app.get<{
     Params: { agentId: string };
   }>("/api/agents/:agentId/validations", async (req, reply) => {
     const { agentId } = req.params;
-    const validations = await getValidationClaims(agentId);
-    return reply.send({ validations });
+    const [validations, claims] = await Promise.all([
+      getValidationClaims(agentId),
+      listAchievementClaims(normalizeAgentId(agentId)),
+    ]);
+    return reply.send({
+      validations,
+      claims: claims.map(({ document: _document, ...claim }) => claim),
+    });
+  });
+
+  /**
+   * GET /api/agents/:agentId/validations/:requestHash
+   * The signed claim document (the validation request/response URI).
+   * The body is served byte-for-byte so keccak256(body) === requestHash.
+   */
+  app.get<{
+    Params: { agentId: string; requestHash: string };
+  }>("/api/agents/:agentId/validations/:requestHash", async (req, reply) => {
+    const claim = await getAchievementClaim(req.params.requestHash);
+    if (!claim || claim.agentId !== normalizeAgentId(req.params.agentId)) {
+      return reply.code(404).send({ error: "Claim not found" });
+    }
+    return reply
+      .header("x-wog-claim-signature", claim.signature)
+      .header("x-wog-claim-validator", getValidatorAddress() ?? "")
+      .type("application/json")
+      .send(claim.document);
+  });
+
+  /**
+   * GET /api/agents/:agentId/validations/:requestHash/verify
+   * Check a claim's hash, signature and on-chain validation response
+   */
+  app.get<{
+    Params: { agentId: string; requestHash: string };
+  }>("/api/agents/:agentId/validations/:requestHash/verify", async (req, reply) => {
+    const claim = await getAchievementClaim(req.params.requestHash);
+    if (!claim || claim.agentId !== normalizeAgentId(req.params.agentId)) {
+      return reply.code(404).send({ error: "Claim not found" });
+    }
+    const verification = await verifyAchievementClaim(claim.requestHash);
+    return reply.send(verification);
   });
 
   /**
@@ -4,13 +4,14 @@ import { formatGold, getAvailableGoldAsync, recordGoldSpendAsync } from "../bloc
 import { ITEM_CATALOG, getItemByTokenId, getItemRecycleCopperValue, getItemsByTokenIds } from "../items/itemCatalog.js";
 import { getEquippedInstanceIds, getEquippedItemCounts, getRecyclableQuantity } from "../items/inventoryState.js";
 import { consumeOwnedItemInstances } from "../items/itemRng.js";
-import { getEntity, getAllEntities } from "../world/zoneRuntime.js";
+import { getEntity, getAllEntities, type Entity } from "../world/zoneRuntime.js";
 import { authenticateRequest } from "../auth/auth.js";
 import { getCustodialWallet } from "../blockchain/custodialWalletRedis.js";
 import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
 import {
   getMerchantState,
   getMerchantPrice,
+  getMerchantPriceForBuyer,
   getMerchantStock,
   getMerchantBuyPrice,
   recordMerchantSale,
@@ -18,6 +19,7 @@ import {
   resolveMerchantEntityId,
 } from "../world/merchantAgent.js";
 import { logDiary, narrativeBuy, narrativeRecycle, narrativeSell } from "../social/diary.js";
+import { recordLeaderboardStat } from "../social/leaderboardService.js";
 import { copperToGold } from "../blockchain/currency.js";
 
 export function registerShopRoutes(server: FastifyInstance) {
@@ -43,6 +45,7 @@ export function registerShopRoutes(server: FastifyInstance) {
    * GET /shop/npc/:entityId
    * Returns the catalog for a specific merchant NPC (filtered by their shopItems).
    * Includes dynamic pricing and stock if merchant agent is active.
+   * ?buyerAddress=0x... adds yourPrice after that buyer's affinity discount.
    */
   const shopNpcHandler = async (request: any, reply: any) => {
     const requestedEntityId = request.params.entityId;
@@ -56,6 +59,16 @@ export function registerShopRoutes(server: FastifyInstance) {
 
     const items = getItemsByTokenIds(entity.shopItems);
     const merchantActive = !!getMerchantState(entityId);
+    const buyerAddress = typeof request.query?.buyerAddress === "string" && /^0x[a-fA-F0-9]{40}$/.test(request.query.buyerAddress)
+      ? request.query.buyerAddress
+      : null;
+    const buyerPrices = new Map<number, number>();
+    if (buyerAddress && merchantActive) {
+      for (const item of items) {
+        const buyerPrice = await getMerchantPriceForBuyer(entityId, Number(item.tokenId), buyerAddress);
+        if (buyerPrice) buyerPrices.set(Number(item.tokenId), buyerPrice.unitPrice);
+      }
+    }
 
     return {
       npcId: entity.id,
@@ -73,6 +86,7 @@ export function registerShopRoutes(server: FastifyInstance) {
           description: item.description,
           copperPrice: item.copperPrice,
           currentPrice: dynamicPrice ?? item.copperPrice,
+          ...(buyerAddress ? { yourPrice: buyerPrices.get(tokenIdNum) ?? dynamicPrice ?? item.copperPrice } : {}),
           stock: stock ?? null,
           buyPrice: buyPrice ?? null,
           category: item.category,
@@ -142,6 +156,7 @@ export function registerShopRoutes(server: FastifyInstance) {
     // Dynamic pricing path — if merchantEntityId provided and merchant agent is active
     const merchantState = merchantEntityId ? getMerchantState(merchantEntityId) : undefined;
     let unitPrice = item.copperPrice;
+    let affinityDiscountPct = 0;
 
     if (merchantState) {
       const stock = getMerchantStock(merchantEntityId!, tokenId);
@@ -153,9 +168,10 @@ export function registerShopRoutes(server: FastifyInstance) {
           requested: quantity,
         };
       }
-      const dynPrice = getMerchantPrice(merchantEntityId!, tokenId);
-      if (dynPrice !== undefined) {
-        unitPrice = dynPrice;
+      const buyerPrice = await getMerchantPriceForBuyer(merchantEntityId!, tokenId, buyerAddress);
+      if (buyerPrice !== undefined) {
+        unitPrice = buyerPrice.unitPrice;
+        affinityDiscountPct = buyerPrice.affinityDiscountPct;
       }
     }
 
@@ -214,6 +230,7 @@ export function registerShopRoutes(server: FastifyInstance) {
         item: item.name,
         quantity,
         unitPrice,
+        affinityDiscountPct,
         totalCost,
         remainingGold: formatGold(await getAvailableGoldAsync(buyerAddress, safeOnChainGold)),
         itemTx,
@@ -347,7 +364,7 @@ export function registerShopRoutes(server: FastifyInstance) {
 
       // Log sell diary entry
       {
-        let sellerEntity: { name: string; raceId?: string; classId?: string; region?: string; x: number; y: number } | undefined;
+        let sellerEntity: Entity | undefined;
         for (const e of getAllEntities().values()) {
           if (e.walletAddress?.toLowerCase() === sellerAddress.toLowerCase()) {
             sellerEntity = e;
@@ -355,6 +372,7 @@ export function registerShopRoutes(server: FastifyInstance) {
           }
         }
         if (sellerEntity) {
+          recordLeaderboardStat(sellerEntity, "gold_earned", totalPayout);
           const zoneId = (sellerEntity as any).region ?? "unknown";
           const { headline, narrative } = narrativeSell(sellerEntity.name, sellerEntity.raceId, sellerEntity.classId, zoneId, item.name, quantity, totalPayout);
           logDiary(sellerAddress, sellerEntity.name, zoneId, sellerEntity.x, sellerEntity.y, "sell", headline, narrative, {
@@ -465,7 +483,7 @@ export function registerShopRoutes(server: FastifyInstance) {
       );
 
       {
-        let sellerEntity: { name: string; raceId?: string; classId?: string; region?: string; x: number; y: number } | undefined;
+        let sellerEntity: Entity | undefined;
         for (const e of getAllEntities().values()) {
           if (e.walletAddress?.toLowerCase() === sellerAddress.toLowerCase()) {
             sellerEntity = e;
@@ -473,6 +491,7 @@ export function registerShopRoutes(server: FastifyInstance) {
           }
         }
         if (sellerEntity) {
+          recordLeaderboardStat(sellerEntity, "gold_earned", totalPayoutCopper);
           const zoneId = (sellerEntity as any).region ?? "unknown";
           const { headline, narrative } = narrativeRecycle(
             sellerEntity.name,
@@ -0,0 +1,277 @@
+/**
+ * Achievement Claim Store
+ * Claim documents, their signatures and storage. Building a claim hashes the
+ * canonical document (requestHash = keccak256(document)) and signs the hash
+ * with EIP-191; checking one re-derives the hash and recovers the signer.
+ * Publication to the validation registry lives in achievementClaims.ts.
+ */
+
+import { ethers } from "ethers";
+import { assertRedisAvailable, getRedis, isMemoryFallbackAllowed } from "../redis.js";
+
+export type Achievement =
+  | { kind: "level"; level: number }
+  | { kind: "dungeon-clear"; gateRank: string }
+  | { kind: "pvp-ranked-wins"; wins: number }
+  | { kind: "quest-arc"; arcId: string; title: string }
+  | { kind: "profession-mastery"; profession: string }
+  | { kind: "identity-tag"; tag: string };
+
+/**
+ * signed: document signed, no registry configured (verifiable off-chain only)
+ * queued: validation request/response queued on the registry
+ * awaiting_owner: the identity's owner must file the request before the shard can respond
+ * published: the registry holds a passing response from this shard's validator
+ */
+export type AchievementClaimStatus = "signed" | "queued" | "awaiting_owner" | "published";
+
+export interface AchievementClaimRecord {
+  requestHash: string;
+  agentId: string;
+  /** The registry tag, e.g. "wog:level:20". */
+  claim: string;
+  /** Canonical claim document; keccak256(document) === requestHash. */
+  document: string;
+  signature: string;
+  status: AchievementClaimStatus;
+  operationId?: string;
+  txHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ClaimCharacter {
+  name: string;
+  walletAddress: string | null;
+  raceId: string | null;
+  classId: string | null;
+  level: number | null;
+}
+
+/** Chain context written into every claim document. */
+export interface ClaimDocumentContext {
+  chainId: number;
+  identityRegistry: string | null;
+  validationRegistry: string | null;
+  validator: string | null;
+}
+
+export type ClaimSigner = Pick<ethers.Wallet, "signMessageSync">;
+
+export function achievementTag(achievement: Achievement): string {
+  switch (achievement.kind) {
+    case "level":
+      return `wog:level:${achievement.level}`;
+    case "dungeon-clear":
+      return `wog:dungeon-clear:${achievement.gateRank}`;
+    case "pvp-ranked-wins":
+      return `wog:pvp-ranked-wins:${achievement.wins}`;
+    case "quest-arc":
+      return `wog:quest-arc:${achievement.arcId}`;
+    case "profession-mastery":
+      return `wog:profession-mastery:${achievement.profession}`;
+    case "identity-tag":
+      return achievement.tag;
+  }
+}
+
+// ── Signing ──────────────────────────────────────────────────────────
+
+/** Build, hash and sign a claim document. Not persisted. */
+export function buildAchievementClaim(
+  agentId: string,
+  achievement: Achievement,
+  character: ClaimCharacter | null,
+  context: ClaimDocumentContext,
+  signer: ClaimSigner,
+  now = Date.now(),
+): AchievementClaimRecord {
+  const claim = achievementTag(achievement);
+  const document = JSON.stringify({
+    type: "wog-achievement-claim",
+    version: 1,
+    claim,
+    achievement,
+    agentId,
+    chainId: context.chainId,
+    identityRegistry: context.identityRegistry,
+    validationRegistry: context.validationRegistry,
+    validator: context.validator,
+    character,
+    achievedAt: now,
+  });
+  const requestHash = ethers.id(document);
+  return {
+    requestHash,
+    agentId,
+    claim,
+    document,
+    signature: signer.signMessageSync(ethers.getBytes(requestHash)),
+    status: "signed",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Re-derive the hash from the document and recover who signed it. */
+export function checkAchievementClaimSignature(
+  record: Pick<AchievementClaimRecord, "requestHash" | "document" | "signature">,
+  validator: string | null,
+): { hashMatches: boolean; signer: string | null; signatureValid: boolean } {
+  const hashMatches = ethers.id(record.document) === record.requestHash;
+  let signer: string | null = null;
+  try {
+    signer = ethers.verifyMessage(ethers.getBytes(record.requestHash), record.signature);
+  } catch {}
+  const signatureValid = signer !== null && validator !== null && signer.toLowerCase() === validator.toLowerCase();
+  return { hashMatches, signer, signatureValid };
+}
+
+// ── Storage ──────────────────────────────────────────────────────────
+
+const KEY = (requestHash: string) => `validation:claim:${requestHash}`;
+const KEY_AGENT = (agentId: string) => `validation:claims:${agentId}`;
+const KEY_AWAITING_OWNER = "validation:claims:awaiting_owner";
+
+const memoryClaims = new Map<string, AchievementClaimRecord>();
+const memoryAgentIndex = new Map<string, Map<string, string>>();
+const memoryAwaitingOwner = new Set<string>();
+
+function serialize(record: AchievementClaimRecord): Record<string, string> {
+  return {
+    requestHash: record.requestHash,
+    agentId: record.agentId,
+    claim: record.claim,
+    document: record.document,
+    signature: record.signature,
+    status: record.status,
+    ...(record.operationId ? { operationId: record.operationId } : {}),
+    ...(record.txHash ? { txHash: record.txHash } : {}),
+    createdAt: String(record.createdAt),
+    updatedAt: String(record.updatedAt),
+  };
+}
+
+function deserialize(raw: Record<string, string>): AchievementClaimRecord {
+  return {
+    requestHash: raw.requestHash,
+    agentId: raw.agentId,
+    claim: raw.claim,
+    document: raw.document,
+    signature: raw.signature,
+    status: raw.status as AchievementClaimStatus,
+    operationId: raw.operationId || undefined,
+    txHash: raw.txHash || undefined,
+    createdAt: Number(raw.createdAt),
+    updatedAt: Number(raw.updatedAt),
+  };
+}
+
+async function persist(record: AchievementClaimRecord): Promise<void> {
+  const redis = getRedis();
+  if (redis) {
+    await redis.hset(KEY(record.requestHash), serialize(record));
+    await redis.hset(KEY_AGENT(record.agentId), record.claim, record.requestHash);
+    return;
+  }
+
+  assertRedisAvailable("achievementClaims.persist");
+  memoryClaims.set(record.requestHash, record);
+  let index = memoryAgentIndex.get(record.agentId);
+  if (!index) {
+    index = new Map();
+    memoryAgentIndex.set(record.agentId, index);
+  }
+  index.set(record.claim, record.requestHash);
+}
+
+export async function getAchievementClaim(requestHash: string): Promise<AchievementClaimRecord | null> {
+  const normalized = requestHash.toLowerCase();
+  const redis = getRedis();
+  if (redis) {
+    const raw = await redis.hgetall(KEY(normalized));
+    if (!raw || Object.keys(raw).length === 0) return null;
+    return deserialize(raw);
+  }
+
+  if (!isMemoryFallbackAllowed()) {
+    assertRedisAvailable("achievementClaims.get");
+    return null;
+  }
+  return memoryClaims.get(normalized) ?? null;
+}
+
+async function getClaimHashesForAgent(agentId: string): Promise<Map<string, string>> {
+  const redis = getRedis();
+  if (redis) {
+    const raw = (await redis.hgetall(KEY_AGENT(agentId))) as Record<string, string> | null;
+    return new Map(Object.entries(raw ?? {}));
+  }
+
+  if (!isMemoryFallbackAllowed()) {
+    assertRedisAvailable("achievementClaims.listForAgent");
+    return new Map();
+  }
+  return new Map(memoryAgentIndex.get(agentId) ?? []);
+}
+
+export async function listAchievementClaims(agentId: string): Promise<AchievementClaimRecord[]> {
+  const hashes = await getClaimHashesForAgent(agentId);
+  const records = await Promise.all([...hashes.values()].map((requestHash) => getAchievementClaim(requestHash)));
+  return records
+    .filter((record): record is AchievementClaimRecord => record !== null)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Claims whose identity owner still has to file the validation request. */
+export async function listAwaitingOwnerClaims(): Promise<AchievementClaimRecord[]> {
+  const redis = getRedis();
+  let hashes: string[];
+  if (redis) {
+    hashes = (await redis.smembers(KEY_AWAITING_OWNER)) as string[];
+  } else {
+    assertRedisAvailable("achievementClaims.listAwaitingOwner");
+    hashes = [...memoryAwaitingOwner];
+  }
+  const records = await Promise.all(hashes.map((requestHash) => getAchievementClaim(requestHash)));
+  return records.filter((record): record is AchievementClaimRecord => record?.status === "awaiting_owner");
+}
+
+/**
+ * Sign and store a claim; null when the agent already holds one with this
+ * tag. Callers serialize concurrent claims for the same agent and tag.
+ */
+export async function createAchievementClaim(
+  agentId: string,
+  achievement: Achievement,
+  character: ClaimCharacter | null,
+  context: ClaimDocumentContext,
+  signer: ClaimSigner,
+): Promise<AchievementClaimRecord | null> {
+  const existing = (await getClaimHashesForAgent(agentId)).get(achievementTag(achievement));
+  if (existing) return null;
+  const record = buildAchievementClaim(agentId, achievement, character, context, signer);
+  await persist(record);
+  return record;
+}
+
+/** Update individual fields, so the status listener and publish() never overwrite each other. */
+export async function patchAchievementClaim(
+  requestHash: string,
+  fields: Partial<Pick<AchievementClaimRecord, "status" | "operationId" | "txHash">>,
+): Promise<void> {
+  const updated = { ...fields, updatedAt: Date.now() };
+  const redis = getRedis();
+  if (redis) {
+    await redis.hset(KEY(requestHash), Object.fromEntries(Object.entries(updated).map(([key, value]) => [key, String(value)])));
+    if (fields.status === "awaiting_owner") await redis.sadd(KEY_AWAITING_OWNER, requestHash);
+    else if (fields.status) await redis.srem(KEY_AWAITING_OWNER, requestHash);
+    return;
+  }
+
+  assertRedisAvailable("achievementClaims.patch");
+  const record = memoryClaims.get(requestHash);
+  if (record) Object.assign(record, updated);
+  if (fields.status === "awaiting_owner") memoryAwaitingOwner.add(requestHash);
+  else if (fields.status) memoryAwaitingOwner.delete(requestHash);
+}
@@ -0,0 +1,226 @@
+/**
+ * Achievement Claims
+ * Turns game milestones (level thresholds, dungeon clears, ranked PvP wins,
+ * completed quest arcs, profession mastery) and the capability tags given at
+ * identity registration into claim documents signed by the server wallet and
+ * published to the ERC-8004 validation registry.
+ *
+ * The claim document is the request: its keccak256 is the requestHash, it is
+ * served verbatim from requestURI, and the server's EIP-191 signature over the
+ * hash is what the validator response commits to (responseHash). Anyone can
+ * re-derive the hash, recover the signer and compare it with the validator on
+ * chain without trusting the shard.
+ */
+
+import { ethers } from "ethers";
+import { SKALE_BASE_CHAIN_ID, biteSigner } from "../blockchain/biteChain.js";
+import type { Entity } from "../world/zoneRuntime.js";
+import {
+  achievementTag,
+  checkAchievementClaimSignature,
+  createAchievementClaim,
+  getAchievementClaim,
+  listAwaitingOwnerClaims,
+  patchAchievementClaim,
+  type Achievement,
+  type AchievementClaimRecord,
+  type AchievementClaimStatus,
+  type ClaimCharacter,
+} from "./achievementClaimStore.js";
+import {
+  getValidationRegistryAddress,
+  getValidationStatus,
+  getValidatorAddress,
+  isValidationRegistryEnabled,
+  publishValidationClaim,
+  registerValidationClaimListener,
+  registerValidationClaimSweep,
+  VALIDATION_PASS_RESPONSE,
+  type OnChainValidationStatus,
+} from "./validation.js";
+
+export {
+  achievementTag,
+  getAchievementClaim,
+  listAchievementClaims,
+  type Achievement,
+  type AchievementClaimRecord,
+  type AchievementClaimStatus,
+} from "./achievementClaimStore.js";
+
+const BASE_URL = process.env.WOG_SHARD_URL || "https://wog.urbantech.dev";
+
+export const LEVEL_CLAIM_MILESTONES = [10, 20, 30, 40, 50, 60] as const;
+export const PVP_WINS_CLAIM_MILESTONES = [1, 10, 50, 100] as const;
+
+export interface AchievementClaimVerification {
+  requestHash: string;
+  claim: string;
+  status: AchievementClaimStatus;
+  hashMatches: boolean;
+  signer: string | null;
+  signatureValid: boolean;
+  onChain: OnChainValidationStatus | null;
+  /** Hash and signature check out and the registry holds a passing response with this tag. */
+  verified: boolean;
+}
+
+export const ACHIEVEMENT_CLAIM_KINDS: { kind: Achievement["kind"]; tag: string; description: string }[] = [
+  { kind: "level", tag: "wog:level:<N>", description: `Character reached level N (${LEVEL_CLAIM_MILESTONES.join(", ")})` },
+  { kind: "dungeon-clear", tag: "wog:dungeon-clear:<rank>", description: "Cleared a dungeon gate of rank E-S" },
+  { kind: "pvp-ranked-wins", tag: "wog:pvp-ranked-wins:<N>", description: `Won N ranked PvP matches (${PVP_WINS_CLAIM_MILESTONES.join(", ")})` },
+  { kind: "quest-arc", tag: "wog:quest-arc:<arcId>", description: "Completed every quest in a quest arc" },
+  { kind: "profession-mastery", tag: "wog:profession-mastery:<profession>", description: "Raised a profession skill to its cap" },
+  { kind: "identity-tag", tag: "<tag>", description: "Capability granted at identity registration, e.g. wog:a2a-enabled" },
+];
+
+export function getAchievementClaimURI(agentId: string, requestHash: string): string {
+  return `${BASE_URL}/api/agents/${agentId}/validations/${requestHash}`;
+}
+
+// ── Publication ──────────────────────────────────────────────────────
+
+async function publish(record: AchievementClaimRecord, options?: { wait?: boolean }): Promise<void> {
+  if (!isValidationRegistryEnabled()) return;
+  await patchAchievementClaim(record.requestHash, { status: "queued" });
+  const operationId = await publishValidationClaim({
+    agentId: record.agentId,
+    requestHash: record.requestHash,
+    tag: record.claim,
+    requestURI: getAchievementClaimURI(record.agentId, record.requestHash),
+    responseURI: getAchievementClaimURI(record.agentId, record.requestHash),
+    responseHash: ethers.keccak256(record.signature),
+  }, options);
+  if (operationId) await patchAchievementClaim(record.requestHash, { operationId });
+}
+
+registerValidationClaimListener((requestHash, outcome) => {
+  const txHash = outcome.status === "published" ? outcome.responseTxHash ?? outcome.requestTxHash : null;
+  void patchAchievementClaim(requestHash, { status: outcome.status, ...(txHash ? { txHash } : {}) }).catch((err) => {
+    console.warn(`[achievementClaims] status update failed for ${requestHash}: ${(err as Error)?.message ?? err}`);
+  });
+});
+
+/**
+ * Re-queue claims that were waiting on their identity's owner once the owner
+ * has filed the validation request, so the shard can post its response.
+ * Run by the validation worker.
+ */
+export async function requeueAwaitingOwnerClaims(): Promise<number> {
+  let requeued = 0;
+  for (const record of await listAwaitingOwnerClaims()) {
+    if (!(await getValidationStatus(record.requestHash))) continue;
+    await publish(record);
+    requeued++;
+  }
+  return requeued;
+}
+
+registerValidationClaimSweep(requeueAwaitingOwnerClaims);
+
+/** Sign and store a claim; null when the agent already holds one with this tag. */
+function createClaim(
+  agentId: string,
+  achievement: Achievement,
+  character: ClaimCharacter | null
+): Promise<AchievementClaimRecord | null> {
+  return createAchievementClaim(agentId, achievement, character, {
+    chainId: SKALE_BASE_CHAIN_ID,
+    identityRegistry: process.env.IDENTITY_REGISTRY_ADDRESS ?? null,
+    validationRegistry: getValidationRegistryAddress(),
+    validator: getValidatorAddress(),
+  }, biteSigner!);
+}
+
+/** Keys (agentId:claim) being signed right now, so concurrent triggers don't race the index. */
+const inFlightClaims = new Set<string>();
+
+/**
+ * Sign and publish a claim for `achievement`. Fire-and-forget; each agent
+ * gets at most one claim per tag. No-op for entities without an ERC-8004
+ * identity or when the server wallet is not configured.
+ */
+export function recordAchievement(entity: Entity, achievement: Achievement): void {
+  if (entity.agentId == null || !biteSigner) return;
+  const key = `${entity.agentId}:${achievementTag(achievement)}`;
+  if (inFlightClaims.has(key)) return;
+  inFlightClaims.add(key);
+  const agentId = entity.agentId.toString();
+  void createClaim(agentId, achievement, {
+    name: entity.name,
+    walletAddress: entity.walletAddress ?? null,
+    raceId: entity.raceId ?? null,
+    classId: entity.classId ?? null,
+    level: entity.level ?? null,
+  })
+    .then(async (record) => {
+      if (!record) return;
+      console.log(`[achievementClaims] ${entity.name} (agent #${agentId}) earned ${record.claim}`);
+      await publish(record);
+    })
+    .catch((err) => {
+      console.warn(`[achievementClaims] ${key} failed: ${(err as Error)?.message ?? err}`);
+    })
+    .finally(() => inFlightClaims.delete(key));
+}
+
+/**
+ * Claim the capability tags a character was bootstrapped with (e.g.
+ * "wog:a2a-enabled"). The identity processor awaits this before handing the
+ * NFT to its owner, so the server can still file the requests itself.
+ */
+export async function recordIdentityClaims(agentId: bigint, tags: string[]): Promise<void> {
+  if (!biteSigner) return;
+  for (const tag of new Set(tags)) {
+    const record = await createClaim(agentId.toString(), { kind: "identity-tag", tag }, null);
+    if (record) await publish(record, { wait: true });
+  }
+}
+
+/** Claim every level milestone the entity has reached (levels can jump several at once). */
+export function recordLevelAchievements(entity: Entity): void {
+  const level = entity.level ?? 0;
+  for (const milestone of LEVEL_CLAIM_MILESTONES) {
+    if (level >= milestone) recordAchievement(entity, { kind: "level", level: milestone });
+  }
+}
+
+export function recordPvpWinAchievements(entity: Entity, wins: number): void {
+  for (const milestone of PVP_WINS_CLAIM_MILESTONES) {
+    if (wins >= milestone) recordAchievement(entity, { kind: "pvp-ranked-wins", wins: milestone });
+  }
+}
+
+// ── Verification ─────────────────────────────────────────────────────
+
+/**
+ * Check a claim end to end: the document hashes to requestHash, the signature
+ * recovers to the validator, and the registry holds a passing response with
+ * the claim's tag. Read-only; claims awaiting their owner are re-queued by
+ * the validation worker.
+ */
+export async function verifyAchievementClaim(requestHash: string): Promise<AchievementClaimVerification | null> {
+  const record = await getAchievementClaim(requestHash);
+  if (!record) return null;
+
+  const { hashMatches, signer, signatureValid } = checkAchievementClaimSignature(record, getValidatorAddress());
+
+  const onChain = await getValidationStatus(record.requestHash);
+  const passed = onChain !== null
+    && signer !== null
+    && onChain.validator.toLowerCase() === signer.toLowerCase()
+    && onChain.tag === record.claim
+    && onChain.response >= VALIDATION_PASS_RESPONSE
+    && onChain.responseHash.toLowerCase() === ethers.keccak256(record.signature).toLowerCase();
+
+  return {
+    requestHash: record.requestHash,
+    claim: record.claim,
+    status: record.status,
+    hashMatches,
+    signer,
+    signatureValid,
+    onChain,
+    verified: hashMatches && signatureValid && passed,
+  };
+}
@@ -1,3 +1,56 @@
+/**
+ * Validation Chain Layer
+ * The shard acts as a validator on the ERC-8004 validation registry: each
+ * achievement claim becomes a validation request (filed by the agent's
+ * owner, as the registry requires) answered by a passing response from the
+ * server wallet, tagged with the claim. See achievementClaims.ts.
+ */
+
+import { ethers } from "ethers";
+import { getContract, prepareContractCall, sendTransaction, waitForReceipt } from "thirdweb";
+import { biteProvider, biteSigner, biteWallet } from "../blockchain/biteChain.js";
+import {
+  queueAccountTransaction,
+  queueBiteTransaction,
+  reserveServerNonce,
+  waitForBiteReceipt,
+  waitForBiteSubmission,
+} from "../blockchain/biteTxQueue.js";
+import { distributeSFuel } from "../blockchain/blockchain.js";
+import { skaleBase, thirdwebClient } from "../blockchain/chain.js";
+import { getCustodialWallet, hasCustodialWallet } from "../blockchain/custodialWalletRedis.js";
+import { traceTx } from "../blockchain/txTracer.js";
+import {
+  createChainOperation,
+  listDueChainOperations,
+  processTrackedChainOperation,
+  registerChainOperationProcessor,
+} from "../blockchain/chainOperationStore.js";
+import { normalizeAgentId } from "./agentResolution.js";
+import { OFFICIAL_IDENTITY_REGISTRY_ABI, OFFICIAL_VALIDATION_REGISTRY_ABI } from "./official.js";
+
+const VALIDATION_CONTRACT_ADDRESS = process.env.VALIDATION_REGISTRY_ADDRESS;
+const IDENTITY_CONTRACT_ADDRESS = process.env.IDENTITY_REGISTRY_ADDRESS;
+
+const validationContract =
+  VALIDATION_CONTRACT_ADDRESS && (biteSigner ?? biteWallet)
+    ? new ethers.Contract(VALIDATION_CONTRACT_ADDRESS, OFFICIAL_VALIDATION_REGISTRY_ABI, biteSigner ?? biteWallet)
+    : null;
+
+const identityReader = IDENTITY_CONTRACT_ADDRESS
+  ? new ethers.Contract(IDENTITY_CONTRACT_ADDRESS, OFFICIAL_IDENTITY_REGISTRY_ABI, biteProvider)
+  : null;
+
+if (!VALIDATION_CONTRACT_ADDRESS) {
+  console.warn("[validation] VALIDATION_REGISTRY_ADDRESS not set — on-chain achievement validation disabled");
+}
+
+/** Response the shard gives a claim it vouches for (the registry's 0-100 scale). */
+export const VALIDATION_PASS_RESPONSE = 100;
+
+const VALIDATION_OP_TYPE = "validation-claim";
+const VALIDATION_SWEEP_INTERVAL_MS = 60_000;
+
 export interface AgentValidation {
   requestHash: string;
   validator: string;
@@ -7,20 +60,306 @@ export interface AgentValidation {
   active: boolean;
 }
 
-export async function publishValidationClaim(
-  _agentId: string | bigint,
-  _claim: string
-): Promise<string | null> {
-  return null;
+export interface ValidationClaimPublication {
+  agentId: string;
+  requestHash: string;
+  /** The registry tag, e.g. "wog:level:20". */
+  tag: string;
+  requestURI: string;
+  responseURI: string;
+  responseHash: string;
+}
+
+export type ValidationClaimOutcome =
+  | { status: "published"; requestTxHash: string | null; responseTxHash: string | null }
+  | { status: "awaiting_owner"; owner: string };
+
+export function isValidationRegistryEnabled(): boolean {
+  return validationContract !== null;
 }
 
-export async function getValidationClaims(_agentId: string | bigint): Promise<AgentValidation[]> {
-  return [];
+export function getValidationRegistryAddress(): string | null {
+  return VALIDATION_CONTRACT_ADDRESS ?? null;
 }
 
+/** The validator address the shard answers requests from (the server wallet). */
+export function getValidatorAddress(): string | null {
+  return biteSigner?.address ?? null;
+}
+
+function getValidationClaimListeners(): Set<(requestHash: string, outcome: ValidationClaimOutcome) => void> {
+  const globalKey = "__wogValidationClaimListeners";
+  const globalStore = globalThis as typeof globalThis & {
+    [globalKey]?: Set<(requestHash: string, outcome: ValidationClaimOutcome) => void>;
+  };
+  if (!globalStore[globalKey]) {
+    globalStore[globalKey] = new Set<(requestHash: string, outcome: ValidationClaimOutcome) => void>();
+  }
+  return globalStore[globalKey]!;
+}
+
+export function registerValidationClaimListener(
+  listener: (requestHash: string, outcome: ValidationClaimOutcome) => void
+): () => void {
+  const listeners = getValidationClaimListeners();
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function getValidationClaimSweeps(): Set<() => Promise<unknown>> {
+  const globalKey = "__wogValidationClaimSweeps";
+  const globalStore = globalThis as typeof globalThis & {
+    [globalKey]?: Set<() => Promise<unknown>>;
+  };
+  if (!globalStore[globalKey]) {
+    globalStore[globalKey] = new Set<() => Promise<unknown>>();
+  }
+  return globalStore[globalKey]!;
+}
+
+/**
+ * Register periodic work for the validation worker besides due chain
+ * operations, e.g. re-queueing claims once their owner has filed the request.
+ */
+export function registerValidationClaimSweep(sweep: () => Promise<unknown>): () => void {
+  const sweeps = getValidationClaimSweeps();
+  sweeps.add(sweep);
+  return () => sweeps.delete(sweep);
+}
+
+function notifyValidationClaim(requestHash: string, outcome: ValidationClaimOutcome): void {
+  for (const listener of getValidationClaimListeners()) {
+    try {
+      listener(requestHash, outcome);
+    } catch (err) {
+      console.warn(`[validation] claim listener failed for ${requestHash}:`, err);
+    }
+  }
+}
+
+export interface OnChainValidationStatus {
+  validator: string;
+  agentId: string;
+  response: number;
+  responseHash: string;
+  tag: string;
+  lastUpdated: number;
+}
+
+/** Read a request from the registry; null when it was never filed (or the registry is off). */
+export async function getValidationStatus(requestHash: string): Promise<OnChainValidationStatus | null> {
+  if (!validationContract) return null;
+  try {
+    const [validator, agentId, response, responseHash, tag, lastUpdate] = await validationContract.getValidationStatus(requestHash);
+    return {
+      validator: String(validator),
+      agentId: agentId.toString(),
+      response: Number(response),
+      responseHash: String(responseHash),
+      tag: String(tag),
+      lastUpdated: Number(lastUpdate) * 1000,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export async function getValidationClaims(agentId: string | bigint): Promise<AgentValidation[]> {
+  if (!validationContract) return [];
+  const normalized = normalizeAgentId(agentId);
+  if (!/^\d+$/.test(normalized)) return [];
+
+  try {
+    const requestHashes = Array.from(await validationContract.getAgentValidations(BigInt(normalized))) as string[];
+    const statuses = await Promise.all(requestHashes.map((requestHash) => getValidationStatus(requestHash)));
+    return requestHashes.flatMap((requestHash, i) => {
+      const status = statuses[i];
+      if (!status) return [];
+      return [{
+        requestHash,
+        validator: status.validator,
+        claimType: status.tag,
+        response: status.response,
+        lastUpdated: status.lastUpdated,
+        active: status.tag !== "" && status.response >= VALIDATION_PASS_RESPONSE,
+      }];
+    });
+  } catch (err) {
+    console.warn(`[validation] getValidationClaims failed for ${normalized}: ${(err as Error)?.message ?? err}`);
+    return [];
+  }
+}
+
+/** True when this shard's validator has passed `claim` for the agent on-chain. */
 export async function isValidationClaimActive(
-  _agentId: string | bigint,
-  _claim: string
+  agentId: string | bigint,
+  claim: string
 ): Promise<boolean> {
-  return false;
+  const validator = getValidatorAddress()?.toLowerCase();
+  if (!validator) return false;
+  const validations = await getValidationClaims(agentId);
+  return validations.some(
+    (validation) => validation.active && validation.claimType === claim && validation.validator.toLowerCase() === validator
+  );
 }
+
+/**
+ * Queue a claim for the registry. Returns the chain operation id, or null
+ * when the registry is not configured. Publishing the same requestHash twice
+ * while the first is in flight returns the same operation. With `wait`, the
+ * first attempt runs before this resolves (failures are left to the worker).
+ */
+export async function publishValidationClaim(
+  publication: ValidationClaimPublication,
+  options?: { wait?: boolean }
+): Promise<string | null> {
+  if (!validationContract) return null;
+  const record = await createChainOperation(VALIDATION_OP_TYPE, publication.requestHash, publication);
+  const dispatch = processTrackedChainOperation(record.operationId).catch((err) => {
+    console.warn(`[validation] queue dispatch failed for ${publication.requestHash}: ${(err as Error)?.message ?? err}`);
+  });
+  if (options?.wait) await dispatch;
+  return record.operationId;
+}
+
+/**
+ * File the validation request from whoever may: the server wallet while it
+ * still owns (or is approved for) the identity, otherwise the owner's
+ * custodial wallet. Returns the owner when only an external wallet can file it.
+ */
+async function fileValidationRequest(
+  publication: ValidationClaimPublication,
+  validator: string
+): Promise<{ txHash: string } | { owner: string }> {
+  if (!identityReader) throw new Error("Identity registry unavailable");
+  const agentId = BigInt(publication.agentId);
+  const args = [validator, agentId, publication.requestURI, publication.requestHash] as const;
+
+  if (await identityReader.isAuthorizedOrOwner(validator, agentId)) {
+    const receipt = await traceTx("validation-request", "validationRequest", { agentId: publication.agentId, tag: publication.tag }, "bite", () =>
+      queueBiteTransaction(`validation-request:${publication.requestHash}`, async () => {
+        const tx = await waitForBiteSubmission(validationContract!.validationRequest(
+          ...args,
+          { nonce: await reserveServerNonce() ?? undefined }
+        ));
+        return await waitForBiteReceipt(tx.wait());
+      })
+    );
+    return { txHash: String((receipt as any).hash) };
+  }
+
+  const owner = String(await identityReader.ownerOf(agentId));
+  if (!(await hasCustodialWallet(owner))) {
+    return { owner };
+  }
+
+  const account = await getCustodialWallet(owner);
+  try {
+    await distributeSFuel(owner);
+  } catch {}
+  const transaction = prepareContractCall({
+    contract: getContract({ client: thirdwebClient, chain: skaleBase, address: VALIDATION_CONTRACT_ADDRESS! }),
+    method: "function validationRequest(address validatorAddress, uint256 agentId, string requestURI, bytes32 requestHash)",
+    params: [validator, agentId, publication.requestURI, publication.requestHash as `0x${string}`],
+  });
+  const receipt = await traceTx("validation-request", "validationRequest", { agentId: publication.agentId, tag: publication.tag, owner }, "skale", () =>
+    queueAccountTransaction(owner, `validation-request:${publication.requestHash}`, async () => {
+      const { transactionHash } = await sendTransaction({ transaction, account });
+      return waitForReceipt({ client: thirdwebClient, chain: skaleBase, transactionHash });
+    })
+  );
+  if (receipt.status !== "success") {
+    throw new Error(`validationRequest reverted for ${publication.requestHash}`);
+  }
+  return { txHash: receipt.transactionHash };
+}
+
+async function processValidationClaim(publication: ValidationClaimPublication): Promise<ValidationClaimOutcome> {
+  const validator = getValidatorAddress();
+  if (!validationContract || !validator) throw new Error("Validation registry unavailable");
+
+  let requestTxHash: string | null = null;
+  let status = await getValidationStatus(publication.requestHash);
+  if (!status) {
+    const filed = await fileValidationRequest(publication, validator);
+    if ("owner" in filed) return { status: "awaiting_owner", owner: filed.owner };
+    requestTxHash = filed.txHash;
+    status = await getValidationStatus(publication.requestHash);
+    if (!status) throw new Error(`Validation request ${publication.requestHash} not visible after ${requestTxHash}`);
+  }
+
+  if (status.validator.toLowerCase() !== validator.toLowerCase()) {
+    throw new Error(`Validation request ${publication.requestHash} names validator ${status.validator}`);
+  }
+  if (status.tag === publication.tag && status.response === VALIDATION_PASS_RESPONSE) {
+    return { status: "published", requestTxHash, responseTxHash: null };
+  }
+
+  const receipt = await traceTx("validation-response", "validationResponse", { agentId: publication.agentId, tag: publication.tag }, "bite", () =>
+    queueBiteTransaction(`validation-response:${publication.requestHash}`, async () => {
+      const tx = await waitForBiteSubmission(validationContract.validationResponse(
+        publication.requestHash,
+        VALIDATION_PASS_RESPONSE,
+        publication.responseURI,
+        publication.responseHash,
+        publication.tag,
+        { nonce: await reserveServerNonce() ?? undefined }
+      ));
+      return await waitForBiteReceipt(tx.wait());
+    })
+  );
+  return { status: "published", requestTxHash, responseTxHash: String((receipt as any).hash) };
+}
+
+export async function processPendingValidationClaims(
+  logger: { error: (err: unknown, msg?: string) => void } = console,
+): Promise<void> {
+  const ops = await listDueChainOperations(VALIDATION_OP_TYPE);
+  for (const op of ops) {
+    try {
+      await processTrackedChainOperation(op.operationId);
+    } catch (err) {
+      logger.error(err, `[validation] worker failed for ${op.operationId}`);
+    }
+  }
+}
+
+export async function runValidationClaimSweeps(
+  logger: { error: (err: unknown, msg?: string) => void } = console,
+): Promise<void> {
+  for (const sweep of getValidationClaimSweeps()) {
+    try {
+      await sweep();
+    } catch (err) {
+      logger.error(err, "[validation] claim sweep failed");
+    }
+  }
+}
+
+export function startValidationClaimWorker(logger: { error: (err: unknown, msg?: string) => void }): void {
+  if (!validationContract) return;
+  const tick = async () => {
+    await processPendingValidationClaims(logger);
+  };
+
+  void tick().catch((err) => logger.error(err, "[validation] initial worker tick failed"));
+  setInterval(() => {
+    tick().catch((err) => logger.error(err, "[validation] worker tick failed"));
+  }, 5_000);
+  // Each sweep reads the registry per waiting claim, so run them less often
+  setInterval(() => {
+    void runValidationClaimSweeps(logger);
+  }, VALIDATION_SWEEP_INTERVAL_MS);
+}
+
+registerChainOperationProcessor<ValidationClaimOutcome>(VALIDATION_OP_TYPE, async (record) => {
+  const publication = JSON.parse(record.payload) as ValidationClaimPublication;
+  const outcome = await processValidationClaim(publication);
+  notifyValidationClaim(publication.requestHash, outcome);
+  if (outcome.status === "awaiting_owner") {
+    console.log(`[validation] ${publication.tag} for agent #${publication.agentId} waits on owner ${outcome.owner} to file the request`);
+    return { result: outcome };
+  }
+  console.log(`[validation] Passed ${publication.tag} for agent #${publication.agentId}`);
+  return { result: outcome, txHash: outcome.responseTxHash ?? outcome.requestTxHash };
+});
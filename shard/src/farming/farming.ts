@@ -4,7 +4,7 @@
  */
 
 import type { FastifyInstance } from "fastify";
-import { getEntity, getAllEntities, getEntitiesInRegion, getWorldTick } from "../world/zoneRuntime.js";
+import { getEntity, getEntitiesForLookup, getWorldTick } from "../world/zoneRuntime.js";
 import { enqueueItemMint } from "../blockchain/blockchain.js";
 import { CROP_CATALOG, HARVESTABLE_PHASES, isBonusPhase, type CropType } from "./cropCatalog.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
@@ -43,13 +43,11 @@ export function registerFarmingRoutes(server: FastifyInstance) {
   });
 
   // GET /farming/nodes — all crop nodes (optionally filtered by region)
-  server.get<{ Querystring: { region?: string } }>(
+  server.get<{ Querystring: { region?: string; x?: string; y?: string; radius?: string } }>(
     "/farming/nodes",
     async (request) => {
       const { region } = request.query;
-      const entities = region
-        ? getEntitiesInRegion(region)
-        : [...getAllEntities().values()];
+      const entities = getEntitiesForLookup(request.query);
 
       const cropNodes = entities
         .filter((e) => e.type === "crop-node")
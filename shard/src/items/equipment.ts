@@ -9,6 +9,7 @@ import {
   getAllEntities,
   getEntitiesInRegion,
   getEffectiveStats,
+  getEntityItemSets,
   recalculateEntityVitals,
   type EquippedItemState,
   type Entity,
@@ -53,7 +54,8 @@ function syncEquippedInstance(owner: string | undefined, equipped: EquippedItemS
     !equipped.enchantments?.length &&
     !equipped.quality &&
     !equipped.rolledStats &&
-    !equipped.bonusAffix
+    !equipped.bonusAffix &&
+    !equipped.affixes
   ) {
     return;
   }
@@ -66,6 +68,8 @@ function syncEquippedInstance(owner: string | undefined, equipped: EquippedItemS
     quality: equipped.quality,
     rolledStats: equipped.rolledStats,
     bonusAffix: equipped.bonusAffix,
+    affixes: equipped.affixes,
+    sockets: equipped.sockets,
     durability: equipped.durability,
     maxDurability: equipped.maxDurability,
     enchantments: equipped.enchantments,
@@ -98,6 +102,7 @@ function serializeEntityEquipment(entity: Entity) {
     hp: entity.hp,
     maxHp: entity.maxHp,
     equipment: entity.equipment ?? {},
+    itemSets: getEntityItemSets(entity),
     effectiveStats: entity.effectiveStats ?? getEffectiveStats(entity) ?? null,
   };
 }
@@ -342,6 +347,8 @@ export function registerEquipmentRoutes(server: FastifyInstance) {
               specialEffect: itemInstance.bonusAffix.specialEffect,
             }
           : undefined,
+        affixes: itemInstance.affixes?.map((affix) => ({ ...affix })),
+        sockets: itemInstance.sockets?.map((gem) => (gem ? { ...gem } : null)),
       }),
     };
     recalculateEntityVitals(entity);
@@ -507,8 +514,11 @@ export function registerEquipmentRoutes(server: FastifyInstance) {
       let repairStatBonuses = item.statBonuses;
       if (equipped.rolledStats) {
         const merged: Record<string, number | undefined> = { ...equipped.rolledStats };
-        if (equipped.bonusAffix?.statBonuses) {
-          for (const [k, v] of Object.entries(equipped.bonusAffix.statBonuses)) {
+        const affixBonuses = [equipped.bonusAffix, ...(equipped.affixes ?? [])]
+          .map((affix) => affix?.statBonuses);
+        for (const bonuses of affixBonuses) {
+          if (!bonuses) continue;
+          for (const [k, v] of Object.entries(bonuses)) {
             merged[k] = (merged[k] ?? 0) + (v ?? 0);
           }
         }
@@ -0,0 +1,95 @@
+import { getItemByTokenId } from "./itemCatalog.js";
+import type { CraftedItemInstance, QualityTier, SocketedGem } from "./itemRng.js";
+
+// ── Cut Gems ───────────────────────────────────────────────────────────
+// Jewelcrafters cut rough gems (116–121) into socketable gems (250–255).
+// A gem's stats live on its catalog entry; socketing copies them onto the
+// instance so the bonus survives catalog rebalancing of unsocketed stock.
+
+export const CUT_GEM_TOKEN_IDS: readonly number[] = [250, 251, 252, 253, 254, 255];
+
+export function isCutGem(tokenId: number): boolean {
+  return CUT_GEM_TOKEN_IDS.includes(tokenId);
+}
+
+export function getCutGem(tokenId: number): SocketedGem | undefined {
+  if (!isCutGem(tokenId)) return undefined;
+  const item = getItemByTokenId(BigInt(tokenId));
+  if (!item?.statBonuses) return undefined;
+  return { tokenId, name: item.name, statBonuses: { ...item.statBonuses } };
+}
+
+export function listCutGems(): SocketedGem[] {
+  return CUT_GEM_TOKEN_IDS
+    .map((tokenId) => getCutGem(tokenId))
+    .filter((gem): gem is SocketedGem => gem !== undefined);
+}
+
+/** Copper to pry a gem back out intact — half the gem's price, 25c minimum. */
+export function getUnsocketCopperCost(tokenId: number): number {
+  const price = getItemByTokenId(BigInt(tokenId))?.copperPrice ?? 0;
+  return Math.max(25, Math.round(price * 0.5));
+}
+
+export function socketGem(
+  instance: CraftedItemInstance,
+  socketIndex: number,
+  gem: SocketedGem,
+  burnOperationId?: string,
+): { ok: true } | { ok: false; error: string } {
+  const sockets = instance.sockets;
+  if (!sockets || sockets.length === 0) return { ok: false, error: "Item has no sockets" };
+  if (!Number.isInteger(socketIndex) || socketIndex < 0 || socketIndex >= sockets.length) {
+    return { ok: false, error: "Invalid socket index" };
+  }
+  if (sockets[socketIndex]) return { ok: false, error: "Socket already holds a gem" };
+  sockets[socketIndex] = {
+    ...gem,
+    statBonuses: { ...gem.statBonuses },
+    ...(burnOperationId ? { burnOperationId } : {}),
+  };
+  return { ok: true };
+}
+
+export function unsocketGem(
+  instance: CraftedItemInstance,
+  socketIndex: number,
+): { ok: true; gem: SocketedGem } | { ok: false; error: string } {
+  const gem = instance.sockets?.[socketIndex];
+  if (!gem) return { ok: false, error: "Socket is empty" };
+  instance.sockets![socketIndex] = null;
+  return { ok: true, gem };
+}
+
+// ── Reforging ──────────────────────────────────────────────────────────
+// Rerolling an affix costs a Gate Essence matched to the item's quality,
+// plus copper that doubles with each reforge (capped) so items can't be
+// rerolled endlessly for pennies.
+
+const REFORGE_ESSENCE_BY_TIER: Record<QualityTier, number> = {
+  common: 128, // Crude Gate Essence
+  uncommon: 129, // Lesser Gate Essence
+  rare: 130, // Gate Essence
+  epic: 131, // Greater Gate Essence
+};
+
+const REFORGE_BASE_COPPER: Record<QualityTier, number> = {
+  common: 50,
+  uncommon: 100,
+  rare: 200,
+  epic: 400,
+};
+
+const REFORGE_COST_DOUBLINGS_CAP = 5;
+
+export function getReforgeCost(
+  tier: QualityTier,
+  reforgeCount = 0,
+): { reagentTokenId: number; reagentQuantity: number; copperCost: number } {
+  const doublings = Math.min(reforgeCount, REFORGE_COST_DOUBLINGS_CAP);
+  return {
+    reagentTokenId: REFORGE_ESSENCE_BY_TIER[tier],
+    reagentQuantity: 1,
+    copperCost: REFORGE_BASE_COPPER[tier] * 2 ** doublings,
+  };
+}
@@ -2177,6 +2177,56 @@ export const ITEM_CATALOG: ItemDefinition[] = [
     statBonuses: { def: 7, agi: 2, hp: 3 },
     maxDurability: 98,
   },
+
+  // --- Cut Gems (socketable, see gems.ts) ---
+  {
+    tokenId: 250n,
+    name: "Cut Ruby",
+    description: "A ruby cut to a clean table. Sockets into rare gear. +4 STR.",
+    copperPrice: 90,
+    category: "material",
+    statBonuses: { str: 4 },
+  },
+  {
+    tokenId: 251n,
+    name: "Cut Sapphire",
+    description: "A sapphire faceted to focus the mind. Sockets into rare gear. +4 INT, +3 MP.",
+    copperPrice: 90,
+    category: "material",
+    statBonuses: { int: 4, mp: 3 },
+  },
+  {
+    tokenId: 252n,
+    name: "Cut Emerald",
+    description: "An emerald shaped to channel growth. Sockets into rare gear. +10 HP.",
+    copperPrice: 90,
+    category: "material",
+    statBonuses: { hp: 10 },
+  },
+  {
+    tokenId: 253n,
+    name: "Brilliant Diamond",
+    description: "A flawless brilliant cut. Sockets into rare gear. +5 DEF, +2 HP.",
+    copperPrice: 170,
+    category: "material",
+    statBonuses: { def: 5, hp: 2 },
+  },
+  {
+    tokenId: 254n,
+    name: "Polished Shadow Opal",
+    description: "Polished until the shadows move on their own. Sockets into rare gear. +4 AGI, +2 LUCK.",
+    copperPrice: 190,
+    category: "material",
+    statBonuses: { agi: 4, luck: 2 },
+  },
+  {
+    tokenId: 255n,
+    name: "Faceted Arcane Crystal",
+    description: "Each facet hums with a different spell. Sockets into rare gear. +4 INT, +4 FAITH.",
+    copperPrice: 300,
+    category: "material",
+    statBonuses: { int: 4, faith: 4 },
+  },
 ];
 
 function resolveItemXrVisualId(item: Pick<ItemDefinition, "tokenId" | "equipSlot">): string | null {
@@ -2254,3 +2304,201 @@ export function getItemsByTokenIds(tokenIds: number[]): ItemDefinition[] {
   const set = new Set(tokenIds.map((id) => BigInt(id)));
   return ITEM_CATALOG.filter((item) => set.has(item.tokenId));
 }
+
+// ── Item Sets ────────────────────────────────────────────────────────
+// Crafted gear families grant extra bonuses when several pieces are worn.
+// A set bonus can add stats, a combat proc, or modify technique output.
+// Broken pieces don't count toward a set.
+
+export interface ItemSetProc {
+  /** on_hit: the wearer lands a hit. on_struck: the wearer is hit. */
+  trigger: "on_hit" | "on_struck";
+  /** 0–1 chance per qualifying hit. */
+  chance: number;
+  /** bonus_damage: extra damage to the target; heal: heal the wearer; reflect: damage back to the attacker. */
+  effect: "bonus_damage" | "heal" | "reflect";
+  /** Percent of the triggering hit's damage. */
+  pct: number;
+}
+
+export interface ItemSetTechniqueModifiers {
+  /** Percent added to technique damage. */
+  damagePct?: number;
+  /** Percent added to technique healing (direct and over time). */
+  healingPct?: number;
+}
+
+export interface ItemSetBonus {
+  pieces: 2 | 4 | 6;
+  description: string;
+  statBonuses?: ItemStatBonuses;
+  proc?: ItemSetProc;
+  techniqueModifiers?: ItemSetTechniqueModifiers;
+}
+
+export interface ItemSetDefinition {
+  id: string;
+  name: string;
+  /** Game tokenIds (numbers, so the definition serializes as-is). */
+  tokenIds: number[];
+  bonuses: ItemSetBonus[];
+}
+
+export const ITEM_SETS: ItemSetDefinition[] = [
+  // --- Leatherworking ---
+  {
+    id: "tanned-leather",
+    name: "Wayfarer's Leathers",
+    tokenIds: [91, 92, 93, 94, 95, 96, 97],
+    bonuses: [
+      { pieces: 2, description: "+3 AGI", statBonuses: { agi: 3 } },
+      { pieces: 4, description: "+12 HP, +2 DEF", statBonuses: { hp: 12, def: 2 } },
+      {
+        pieces: 6,
+        description: "10% chance on hit to strike again for 30% damage",
+        proc: { trigger: "on_hit", chance: 0.1, effect: "bonus_damage", pct: 30 },
+      },
+    ],
+  },
+  {
+    id: "reinforced-hide",
+    name: "Hidestalker's Harness",
+    tokenIds: [98, 99, 100, 101, 102, 103, 104],
+    bonuses: [
+      { pieces: 2, description: "+4 AGI, +2 DEF", statBonuses: { agi: 4, def: 2 } },
+      { pieces: 4, description: "Techniques deal 8% more damage", techniqueModifiers: { damagePct: 8 } },
+      {
+        pieces: 6,
+        description: "12% chance when struck to recover 40% of the damage",
+        proc: { trigger: "on_struck", chance: 0.12, effect: "heal", pct: 40 },
+      },
+    ],
+  },
+  // --- Blacksmithing ---
+  {
+    id: "ironclad",
+    name: "Ironclad Battlegear",
+    tokenIds: [9, 10, 17, 18, 19, 20, 21],
+    bonuses: [
+      { pieces: 2, description: "+4 DEF", statBonuses: { def: 4 } },
+      { pieces: 4, description: "+18 HP", statBonuses: { hp: 18 } },
+      {
+        pieces: 6,
+        description: "15% chance when struck to reflect 50% of the damage",
+        proc: { trigger: "on_struck", chance: 0.15, effect: "reflect", pct: 50 },
+      },
+    ],
+  },
+  {
+    id: "rare-earth-warplate",
+    name: "Rare-Earth Warplate",
+    tokenIds: [185, 186, 187, 188, 189],
+    bonuses: [
+      { pieces: 2, description: "+5 STR, +3 DEF", statBonuses: { str: 5, def: 3 } },
+      {
+        pieces: 4,
+        description: "+20 HP; techniques deal 10% more damage",
+        statBonuses: { hp: 20 },
+        techniqueModifiers: { damagePct: 10 },
+      },
+    ],
+  },
+  // --- Jewelcrafting (ring + amulet pairs) ---
+  {
+    id: "emberheart",
+    name: "Emberheart Pair",
+    tokenIds: [122, 125],
+    bonuses: [
+      {
+        pieces: 2,
+        description: "8% chance on hit to scorch for 50% bonus damage",
+        proc: { trigger: "on_hit", chance: 0.08, effect: "bonus_damage", pct: 50 },
+      },
+    ],
+  },
+  {
+    id: "tidecaller",
+    name: "Tidecaller Pair",
+    tokenIds: [123, 127],
+    bonuses: [
+      {
+        pieces: 2,
+        description: "+3 INT; techniques heal 12% more",
+        statBonuses: { int: 3 },
+        techniqueModifiers: { healingPct: 12 },
+      },
+    ],
+  },
+  {
+    id: "verdant-shadow",
+    name: "Verdant Shadow Pair",
+    tokenIds: [124, 126],
+    bonuses: [
+      {
+        pieces: 2,
+        description: "+3 LUCK; 10% chance on hit to heal for 25% of the damage",
+        statBonuses: { luck: 3 },
+        proc: { trigger: "on_hit", chance: 0.1, effect: "heal", pct: 25 },
+      },
+    ],
+  },
+];
+
+export interface ActiveItemSet {
+  setId: string;
+  name: string;
+  equippedPieces: number;
+  totalPieces: number;
+  bonuses: Array<ItemSetBonus & { active: boolean }>;
+}
+
+const itemSetByTokenId = new Map<number, ItemSetDefinition>();
+for (const set of ITEM_SETS) {
+  for (const tokenId of set.tokenIds) itemSetByTokenId.set(tokenId, set);
+}
+
+export function getItemSetForToken(tokenId: number): ItemSetDefinition | undefined {
+  return itemSetByTokenId.get(tokenId);
+}
+
+/** Sets with at least one piece among the given (worn, unbroken) tokenIds. */
+export function getActiveItemSets(equippedTokenIds: Iterable<number>): ActiveItemSet[] {
+  const piecesBySet = new Map<ItemSetDefinition, Set<number>>();
+  for (const tokenId of equippedTokenIds) {
+    const set = itemSetByTokenId.get(tokenId);
+    if (!set) continue;
+    if (!piecesBySet.has(set)) piecesBySet.set(set, new Set());
+    piecesBySet.get(set)!.add(tokenId);
+  }
+
+  return [...piecesBySet].map(([set, pieces]) => ({
+    setId: set.id,
+    name: set.name,
+    equippedPieces: pieces.size,
+    totalPieces: set.tokenIds.length,
+    bonuses: set.bonuses.map((bonus) => ({ ...bonus, active: pieces.size >= bonus.pieces })),
+  }));
+}
+
+/** Flatten the active tiers of the given sets into one bundle of effects. */
+export function collectItemSetEffects(sets: ActiveItemSet[]): {
+  statBonuses: ItemStatBonuses;
+  procs: ItemSetProc[];
+  techniqueModifiers: Required<ItemSetTechniqueModifiers>;
+} {
+  const statBonuses: Record<string, number> = {};
+  const procs: ItemSetProc[] = [];
+  const techniqueModifiers = { damagePct: 0, healingPct: 0 };
+  for (const set of sets) {
+    for (const bonus of set.bonuses) {
+      if (!bonus.active) continue;
+      for (const [key, value] of Object.entries(bonus.statBonuses ?? {})) {
+        if (typeof value === "number") statBonuses[key] = (statBonuses[key] ?? 0) + value;
+      }
+      if (bonus.proc) procs.push(bonus.proc);
+      techniqueModifiers.damagePct += bonus.techniqueModifiers?.damagePct ?? 0;
+      techniqueModifiers.healingPct += bonus.techniqueModifiers?.healingPct ?? 0;
+    }
+  }
+  return { statBonuses, procs, techniqueModifiers };
+}
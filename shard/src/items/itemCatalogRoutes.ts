@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { ITEM_CATALOG, getItemRarity } from "./itemCatalog.js";
+import { ITEM_CATALOG, ITEM_SETS, getItemRarity, getItemSetForToken } from "./itemCatalog.js";
 import { getItemTokenMappingSnapshot } from "./itemTokenMapping.js";
 import { TECHNIQUES } from "../combat/techniques.js";
 
@@ -15,9 +15,14 @@ export function registerItemCatalogRoutes(server: FastifyInstance): void {
       tokenId: Number(item.tokenId),
       chainTokenId: chainTokenIdByGameTokenId.get(Number(item.tokenId)) ?? null,
       rarity: getItemRarity(item.copperPrice),
+      setId: getItemSetForToken(Number(item.tokenId))?.id ?? null,
     }));
   });
 
+  server.get("/items/sets", async () => {
+    return ITEM_SETS;
+  });
+
   server.get("/techniques/catalog", async () => {
     return TECHNIQUES;
   });
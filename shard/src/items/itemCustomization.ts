@@ -0,0 +1,354 @@
+import type { FastifyInstance } from "fastify";
+import { authenticateRequest } from "../auth/auth.js";
+import { enqueueItemBurn, enqueueItemMint, getGoldBalance, getItemBalance } from "../blockchain/blockchain.js";
+import { formatGold, getAvailableGoldAsync, recordGoldSpendAsync } from "../blockchain/goldLedger.js";
+import { copperToGold } from "../blockchain/currency.js";
+import { getEntity, type Entity } from "../world/zoneRuntime.js";
+import { logZoneEvent } from "../world/zoneEvents.js";
+import { getItemByTokenId } from "./itemCatalog.js";
+import { getEquippedInstanceIds, getEquippedItemCounts, getRecyclableQuantity } from "./inventoryState.js";
+import { withWalletItemLock } from "./walletItemLock.js";
+import {
+  getItemInstance,
+  isItemInstanceOwnedBy,
+  reforgeItemAffix,
+  saveItemInstance,
+  type CraftedItemInstance,
+} from "./itemRng.js";
+import {
+  getCutGem,
+  getReforgeCost,
+  getUnsocketCopperCost,
+  listCutGems,
+  socketGem,
+  unsocketGem,
+} from "./gems.js";
+
+const STATION_RANGE = 100;
+
+interface CustomizationBody {
+  walletAddress: string;
+  zoneId: string;
+  entityId: string;
+  stationId: string;
+  instanceId: string;
+}
+
+type Resolved =
+  | { ok: true; entity: Entity; station: Entity; instance: CraftedItemInstance }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * Shared checks for socket/unsocket/reforge: the caller owns the wallet, the
+ * wallet owns the (unequipped) instance and the entity, and the entity stands
+ * at the right station.
+ */
+async function resolveCustomization(
+  authenticatedWallet: string,
+  body: CustomizationBody,
+  stationType: "jewelers-bench" | "forge",
+  stationLabel: string,
+): Promise<Resolved> {
+  const { walletAddress, entityId, stationId, instanceId } = body;
+  if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+    return { ok: false, status: 400, body: { error: "Invalid wallet address" } };
+  }
+  if (authenticatedWallet?.toLowerCase() !== walletAddress.toLowerCase()) {
+    return { ok: false, status: 403, body: { error: "Not authorized for this wallet" } };
+  }
+
+  const instance = instanceId ? getItemInstance(instanceId) : undefined;
+  if (!instance || !isItemInstanceOwnedBy(instance, walletAddress)) {
+    return { ok: false, status: 404, body: { error: "Item instance not found" } };
+  }
+  const equipped = await getEquippedInstanceIds(walletAddress);
+  if (equipped.has(instance.instanceId)) {
+    return { ok: false, status: 409, body: { error: "Unequip the item first" } };
+  }
+
+  const entity = getEntity(entityId);
+  if (!entity) {
+    return { ok: false, status: 404, body: { error: "Entity not found" } };
+  }
+  if (entity.walletAddress?.toLowerCase() !== walletAddress.toLowerCase()) {
+    return { ok: false, status: 403, body: { error: "Not your character" } };
+  }
+  const station = getEntity(stationId);
+  if (!station || station.type !== stationType) {
+    return { ok: false, status: 404, body: { error: `${stationLabel} not found` } };
+  }
+  const dist = Math.hypot(station.x - entity.x, station.y - entity.y);
+  if (dist > STATION_RANGE) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: `Too far from ${stationLabel}`, distance: Math.round(dist), maxRange: STATION_RANGE },
+    };
+  }
+
+  return { ok: true, entity, station, instance };
+}
+
+async function getAvailableGold(wallet: string): Promise<number> {
+  const onChainGold = parseFloat(await getGoldBalance(wallet));
+  const safeOnChainGold = Number.isFinite(onChainGold) ? onChainGold : 0;
+  return getAvailableGoldAsync(wallet, safeOnChainGold);
+}
+
+/** Unequipped quantity the wallet can spend, as shop sells and quest deliveries count it. */
+async function getSpendableQuantity(wallet: string, tokenId: number): Promise<number> {
+  const equippedCounts = await getEquippedItemCounts(wallet);
+  const balance = Number(await getItemBalance(wallet, BigInt(tokenId)));
+  return getRecyclableQuantity(balance, equippedCounts.get(tokenId) ?? 0);
+}
+
+function serializeCustomizedInstance(instance: CraftedItemInstance) {
+  return {
+    instanceId: instance.instanceId,
+    tokenId: instance.baseTokenId,
+    displayName: instance.displayName,
+    quality: instance.quality.tier,
+    affixes: instance.affixes ?? [],
+    sockets: instance.sockets ?? [],
+    reforgeCount: instance.reforgeCount ?? 0,
+    nextReforgeCost: getReforgeCost(instance.quality.tier, instance.reforgeCount),
+  };
+}
+
+export function registerItemCustomizationRoutes(server: FastifyInstance) {
+  // GET /items/gems — socketable gems, their stats and removal cost
+  server.get("/items/gems", async () => {
+    return listCutGems().map((gem) => ({
+      ...gem,
+      unsocketCopperCost: getUnsocketCopperCost(gem.tokenId),
+    }));
+  });
+
+  // POST /items/socket — set a cut gem into an empty socket (consumes the gem)
+  server.post<{
+    Body: CustomizationBody & { socketIndex: number; gemTokenId: number };
+  }>("/items/socket", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => withWalletItemLock(String(request.body.walletAddress ?? ""), async () => {
+    const { walletAddress, zoneId, socketIndex, gemTokenId } = request.body;
+    const resolved = await resolveCustomization(
+      (request as any).walletAddress,
+      request.body,
+      "jewelers-bench",
+      "Jeweler's Workbench",
+    );
+    if (!resolved.ok) {
+      reply.code(resolved.status);
+      return resolved.body;
+    }
+    const { entity, instance } = resolved;
+
+    const gem = getCutGem(Number(gemTokenId));
+    if (!gem) {
+      reply.code(400);
+      return { error: "Not a socketable gem" };
+    }
+    const sockets = instance.sockets ?? [];
+    if (sockets.length === 0) {
+      reply.code(400);
+      return { error: "Item has no sockets" };
+    }
+    if (!Number.isInteger(socketIndex) || socketIndex < 0 || socketIndex >= sockets.length) {
+      reply.code(400);
+      return { error: "Invalid socket index", socketCount: sockets.length };
+    }
+    if (sockets[socketIndex]) {
+      reply.code(409);
+      return { error: "Socket already holds a gem", gem: sockets[socketIndex] };
+    }
+
+    if (await getSpendableQuantity(walletAddress, gem.tokenId) < 1) {
+      reply.code(400);
+      return { error: `You need a ${gem.name} to socket` };
+    }
+
+    let burnTx: string;
+    try {
+      burnTx = await enqueueItemBurn(walletAddress, BigInt(gem.tokenId), 1n);
+    } catch (err) {
+      server.log.error(err, `[items] Failed to burn gem ${gem.tokenId} for ${walletAddress}`);
+      reply.code(500);
+      return { error: `Failed to consume the ${gem.name}` };
+    }
+
+    const result = socketGem(instance, socketIndex, gem, burnTx);
+    if (!result.ok) {
+      reply.code(409);
+      return { error: result.error };
+    }
+    await saveItemInstance(instance);
+
+    logZoneEvent({
+      zoneId,
+      type: "loot",
+      tick: 0,
+      message: `${entity.name} socketed ${gem.name} into ${instance.displayName}`,
+      entityId: entity.id,
+      entityName: entity.name,
+      data: { action: "socket", instanceId: instance.instanceId, gemTokenId: gem.tokenId },
+    });
+
+    return { ok: true, gemBurnTx: burnTx, item: serializeCustomizedInstance(instance) };
+  }));
+
+  // POST /items/unsocket — pry a gem back out for copper; the gem is returned
+  server.post<{
+    Body: CustomizationBody & { socketIndex: number };
+  }>("/items/unsocket", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => withWalletItemLock(String(request.body.walletAddress ?? ""), async () => {
+    const { walletAddress, zoneId, socketIndex } = request.body;
+    const resolved = await resolveCustomization(
+      (request as any).walletAddress,
+      request.body,
+      "jewelers-bench",
+      "Jeweler's Workbench",
+    );
+    if (!resolved.ok) {
+      reply.code(resolved.status);
+      return resolved.body;
+    }
+    const { entity, instance } = resolved;
+
+    const gem = instance.sockets?.[socketIndex];
+    if (!gem) {
+      reply.code(400);
+      return { error: "Socket is empty" };
+    }
+
+    // A gem with no recorded burn was never paid for here; it can be cleared
+    // (free of charge) but is not minted back.
+    const returnable = Boolean(gem.burnOperationId);
+    const copperCost = returnable ? getUnsocketCopperCost(gem.tokenId) : 0;
+    const goldCost = copperToGold(copperCost);
+    const availableGold = await getAvailableGold(walletAddress);
+    if (availableGold < goldCost) {
+      reply.code(400);
+      return { error: "Insufficient gold", required: copperCost, available: formatGold(availableGold) };
+    }
+
+    let mintTx: string | null = null;
+    if (returnable) {
+      try {
+        mintTx = await enqueueItemMint(walletAddress, BigInt(gem.tokenId), 1n);
+      } catch (err) {
+        server.log.error(err, `[items] Failed to return gem ${gem.tokenId} to ${walletAddress}`);
+        reply.code(500);
+        return { error: "Failed to return the gem — it is still socketed" };
+      }
+    }
+
+    unsocketGem(instance, socketIndex);
+    if (goldCost > 0) await recordGoldSpendAsync(walletAddress, goldCost);
+    await saveItemInstance(instance);
+
+    logZoneEvent({
+      zoneId,
+      type: "loot",
+      tick: 0,
+      message: returnable
+        ? `${entity.name} removed ${gem.name} from ${instance.displayName}`
+        : `${entity.name} shattered ${gem.name} prying it out of ${instance.displayName}`,
+      entityId: entity.id,
+      entityName: entity.name,
+      data: { action: "unsocket", instanceId: instance.instanceId, gemTokenId: gem.tokenId, returned: returnable },
+    });
+
+    return {
+      ok: true,
+      gem: { tokenId: gem.tokenId, name: gem.name, returned: returnable, tx: mintTx },
+      copperCost,
+      remainingGold: formatGold(await getAvailableGold(walletAddress)),
+      item: serializeCustomizedInstance(instance),
+    };
+  }));
+
+  // POST /items/reforge — reroll one affix for a Gate Essence and copper
+  server.post<{
+    Body: CustomizationBody & { affixIndex: number };
+  }>("/items/reforge", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => withWalletItemLock(String(request.body.walletAddress ?? ""), async () => {
+    const { walletAddress, zoneId, affixIndex } = request.body;
+    const resolved = await resolveCustomization(
+      (request as any).walletAddress,
+      request.body,
+      "forge",
+      "Forge",
+    );
+    if (!resolved.ok) {
+      reply.code(resolved.status);
+      return resolved.body;
+    }
+    const { entity, instance } = resolved;
+
+    const previous = instance.affixes?.[affixIndex];
+    if (!previous) {
+      reply.code(400);
+      return { error: "Invalid affix index", affixCount: instance.affixes?.length ?? 0 };
+    }
+
+    const cost = getReforgeCost(instance.quality.tier, instance.reforgeCount);
+    const goldCost = copperToGold(cost.copperCost);
+    const availableGold = await getAvailableGold(walletAddress);
+    if (availableGold < goldCost) {
+      reply.code(400);
+      return { error: "Insufficient gold", required: cost.copperCost, available: formatGold(availableGold) };
+    }
+
+    const reagent = getItemByTokenId(BigInt(cost.reagentTokenId));
+    if (await getSpendableQuantity(walletAddress, cost.reagentTokenId) < cost.reagentQuantity) {
+      reply.code(400);
+      return { error: `Reforging needs ${cost.reagentQuantity}x ${reagent?.name ?? "Gate Essence"}` };
+    }
+
+    // Reroll first so an exhausted pool costs nothing; undo if the burn fails.
+    const snapshot = {
+      affixes: instance.affixes!.map((a) => ({ ...a })),
+      displayName: instance.displayName,
+      reforgeCount: instance.reforgeCount,
+    };
+    const rolled = reforgeItemAffix(instance, affixIndex, entity.region);
+    if (!rolled) {
+      reply.code(400);
+      return { error: "No other affix can roll on this item" };
+    }
+
+    let burnTx: string;
+    try {
+      burnTx = await enqueueItemBurn(walletAddress, BigInt(cost.reagentTokenId), BigInt(cost.reagentQuantity));
+    } catch (err) {
+      Object.assign(instance, snapshot);
+      server.log.error(err, `[items] Failed to burn reforge reagent for ${walletAddress}`);
+      reply.code(500);
+      return { error: `Failed to consume ${reagent?.name ?? "Gate Essence"}` };
+    }
+
+    await recordGoldSpendAsync(walletAddress, goldCost);
+    await saveItemInstance(instance);
+
+    logZoneEvent({
+      zoneId,
+      type: "loot",
+      tick: 0,
+      message: `${entity.name} reforged ${previous.name} into ${rolled.name}`,
+      entityId: entity.id,
+      entityName: entity.name,
+      data: { action: "reforge", instanceId: instance.instanceId, from: previous.id, to: rolled.id },
+    });
+
+    return {
+      ok: true,
+      replaced: previous,
+      rolled,
+      reagentBurned: { tokenId: cost.reagentTokenId, quantity: cost.reagentQuantity, tx: burnTx },
+      copperCost: cost.copperCost,
+      item: serializeCustomizedInstance(instance),
+    };
+  }));
+}
@@ -1,8 +1,9 @@
 import type { FastifyInstance } from "fastify";
 import type { CharacterStats } from "../character/classes.js";
-import { getItemByTokenId } from "./itemCatalog.js";
+import { getItemByTokenId, type ItemDefinition } from "./itemCatalog.js";
 import { generateWeaponName, type GeneratedWeaponName } from "./weaponNameGenerator.js";
 import { randomUUID } from "crypto";
+import { rngFloat } from "../world/rng.js";
 import { getRedis } from "../redis.js";
 import { isPostgresConfigured } from "../db/postgres.js";
 import {
@@ -36,14 +37,14 @@ const QUALITY_TABLE: Array<{
   { tier: "common", chance: 0.6, minMult: 0.9, maxMult: 1.0, prefix: "", color: "#9ca3af" },
 ];
 
-export function rollQuality(): QualityRoll {
-  const roll = Math.random();
+export function rollQuality(zoneId?: string): QualityRoll {
+  const roll = rngFloat("quality", zoneId, "tier");
   let cumulative = 0;
 
   for (const entry of QUALITY_TABLE) {
     cumulative += entry.chance;
     if (roll < cumulative) {
-      const statMultiplier = entry.minMult + Math.random() * (entry.maxMult - entry.minMult);
+      const statMultiplier = entry.minMult + rngFloat("quality", zoneId, "multiplier") * (entry.maxMult - entry.minMult);
       return {
         tier: entry.tier,
         statMultiplier,
@@ -57,7 +58,7 @@ export function rollQuality(): QualityRoll {
   const common = QUALITY_TABLE[QUALITY_TABLE.length - 1];
   return {
     tier: "common",
-    statMultiplier: common.minMult + Math.random() * (common.maxMult - common.minMult),
+    statMultiplier: common.minMult + rngFloat("quality", zoneId, "multiplier") * (common.maxMult - common.minMult),
     displayPrefix: "",
     color: common.color,
   };
@@ -67,14 +68,15 @@ export function rollQuality(): QualityRoll {
 
 export function rollStats(
   baseStats: Partial<CharacterStats>,
-  quality: QualityRoll
+  quality: QualityRoll,
+  zoneId?: string,
 ): Partial<CharacterStats> {
   const rolled: Partial<CharacterStats> = {};
 
   for (const [key, value] of Object.entries(baseStats)) {
     if (value == null || value === 0) continue;
     // ±15% variance, then multiply by quality multiplier
-    const variance = 1 + (Math.random() * 0.3 - 0.15); // 0.85 to 1.15
+    const variance = 1 + (rngFloat("quality", zoneId, `stat:${key}`) * 0.3 - 0.15); // 0.85 to 1.15
     const finalValue = Math.round(value * variance * quality.statMultiplier);
     (rolled as Record<string, number>)[key] = Math.max(1, finalValue);
   }
@@ -82,58 +84,200 @@ export function rollStats(
   return rolled;
 }
 
-// ── Bonus Affixes ──────────────────────────────────────────────────────
+// ── Affixes ────────────────────────────────────────────────────────────
+// Items roll prefixes and suffixes from pools keyed by slot group and item
+// level. Better quality means more affixes; affix stats scale with item
+// level so late-game gear is worth re-rolling.
 
-export interface BonusAffix {
+export type AffixKind = "prefix" | "suffix";
+export type AffixSlotGroup = "weapon" | "armor" | "jewelry";
+
+export interface AffixDefinition {
   id: string;
   name: string;
+  kind: AffixKind;
+  /** Stats at item level 1; scaled by getAffixLevelScale(). */
   statBonuses: Partial<CharacterStats>;
   specialEffect?: string;
   weight: number;
-  applicableTo: Array<"weapon" | "armor">;
-}
-
-const BONUS_AFFIXES: BonusAffix[] = [
-  // Defensive
-  { id: "bear", name: "of the Bear", statBonuses: { hp: 8, def: 3 }, weight: 10, applicableTo: ["weapon", "armor"] },
-  { id: "turtle", name: "of the Turtle", statBonuses: { def: 6, hp: 4 }, weight: 8, applicableTo: ["armor"] },
-  { id: "fortitude", name: "of Fortitude", statBonuses: { hp: 12 }, weight: 7, applicableTo: ["armor"] },
-  // Offensive
-  { id: "tiger", name: "of the Tiger", statBonuses: { str: 5, agi: 3 }, weight: 10, applicableTo: ["weapon", "armor"] },
-  { id: "swiftness", name: "of Swiftness", statBonuses: { agi: 6 }, weight: 8, applicableTo: ["weapon", "armor"] },
-  // Magic
-  { id: "owl", name: "of the Owl", statBonuses: { int: 5, mp: 4 }, weight: 8, applicableTo: ["weapon", "armor"] },
-  { id: "devotion", name: "of Devotion", statBonuses: { faith: 5, hp: 3 }, weight: 6, applicableTo: ["weapon", "armor"] },
-  // Special
-  { id: "vampiric", name: "Vampiric", statBonuses: {}, specialEffect: "heals 3% damage dealt", weight: 3, applicableTo: ["weapon"] },
-  { id: "thundering", name: "Thundering", statBonuses: {}, specialEffect: "10% chain lightning", weight: 3, applicableTo: ["weapon"] },
-  { id: "lucky", name: "Lucky", statBonuses: { luck: 5 }, weight: 5, applicableTo: ["weapon", "armor"] },
+  slots: AffixSlotGroup[];
+  minItemLevel: number;
+}
+
+export interface RolledAffix {
+  id: string;
+  name: string;
+  kind: AffixKind;
+  statBonuses: Partial<CharacterStats>;
+  specialEffect?: string;
+}
+
+const AFFIX_POOL: AffixDefinition[] = [
+  // Prefixes
+  { id: "sturdy", name: "Sturdy", kind: "prefix", statBonuses: { def: 3, hp: 4 }, weight: 10, slots: ["armor"], minItemLevel: 1 },
+  { id: "brutal", name: "Brutal", kind: "prefix", statBonuses: { str: 4 }, weight: 10, slots: ["weapon", "jewelry"], minItemLevel: 1 },
+  { id: "nimble", name: "Nimble", kind: "prefix", statBonuses: { agi: 4 }, weight: 9, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "arcane", name: "Arcane", kind: "prefix", statBonuses: { int: 3, mp: 3 }, weight: 8, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "blessed", name: "Blessed", kind: "prefix", statBonuses: { faith: 4 }, weight: 7, slots: ["weapon", "armor", "jewelry"], minItemLevel: 5 },
+  { id: "lucky", name: "Lucky", kind: "prefix", statBonuses: { luck: 5 }, weight: 5, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "vampiric", name: "Vampiric", kind: "prefix", statBonuses: {}, specialEffect: "heals 3% damage dealt", weight: 3, slots: ["weapon"], minItemLevel: 8 },
+  { id: "thundering", name: "Thundering", kind: "prefix", statBonuses: {}, specialEffect: "10% chain lightning", weight: 3, slots: ["weapon"], minItemLevel: 8 },
+  { id: "titanic", name: "Titanic", kind: "prefix", statBonuses: { str: 3, hp: 6 }, weight: 4, slots: ["weapon", "armor"], minItemLevel: 15 },
+  { id: "radiant", name: "Radiant", kind: "prefix", statBonuses: { faith: 3, int: 3 }, weight: 4, slots: ["armor", "jewelry"], minItemLevel: 15 },
+  // Suffixes
+  { id: "bear", name: "of the Bear", kind: "suffix", statBonuses: { hp: 8, def: 3 }, weight: 10, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "turtle", name: "of the Turtle", kind: "suffix", statBonuses: { def: 6, hp: 4 }, weight: 8, slots: ["armor"], minItemLevel: 1 },
+  { id: "fortitude", name: "of Fortitude", kind: "suffix", statBonuses: { hp: 12 }, weight: 7, slots: ["armor", "jewelry"], minItemLevel: 1 },
+  { id: "tiger", name: "of the Tiger", kind: "suffix", statBonuses: { str: 5, agi: 3 }, weight: 10, slots: ["weapon", "armor"], minItemLevel: 1 },
+  { id: "swiftness", name: "of Swiftness", kind: "suffix", statBonuses: { agi: 6 }, weight: 8, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "owl", name: "of the Owl", kind: "suffix", statBonuses: { int: 5, mp: 4 }, weight: 8, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "devotion", name: "of Devotion", kind: "suffix", statBonuses: { faith: 5, hp: 3 }, weight: 6, slots: ["weapon", "armor", "jewelry"], minItemLevel: 1 },
+  { id: "precision", name: "of Precision", kind: "suffix", statBonuses: { agi: 3, luck: 3 }, weight: 6, slots: ["weapon", "jewelry"], minItemLevel: 5 },
+  { id: "whale", name: "of the Whale", kind: "suffix", statBonuses: { hp: 18 }, weight: 4, slots: ["armor", "jewelry"], minItemLevel: 10 },
+  { id: "phoenix", name: "of the Phoenix", kind: "suffix", statBonuses: { hp: 8, faith: 4, int: 4 }, weight: 3, slots: ["weapon", "armor", "jewelry"], minItemLevel: 20 },
 ];
 
-const AFFIX_CHANCE = 0.2; // 20% chance to roll a bonus affix
+/** [min, max] affixes per quality tier. Common items only roll one at AFFIX_CHANCE. */
+const AFFIX_COUNT_BY_TIER: Record<QualityTier, [number, number]> = {
+  common: [0, 1],
+  uncommon: [1, 1],
+  rare: [1, 2],
+  epic: [2, 3],
+};
+const AFFIX_CHANCE = 0.2; // common items: 20% chance of a single affix
+const MAX_ITEM_LEVEL = 40;
+
+/** Item level, derived from the catalog price (sqrt keeps it in 1..40). */
+export function getItemLevel(item: Pick<ItemDefinition, "copperPrice">): number {
+  return Math.max(1, Math.min(MAX_ITEM_LEVEL, Math.floor(Math.sqrt(item.copperPrice))));
+}
 
-export function rollBonusAffix(category: "weapon" | "armor"): BonusAffix | undefined {
-  if (Math.random() > AFFIX_CHANCE) return undefined;
+export function getAffixSlotGroup(item: Pick<ItemDefinition, "category" | "equipSlot">): AffixSlotGroup {
+  if (item.category === "weapon") return "weapon";
+  if (item.equipSlot === "ring" || item.equipSlot === "amulet") return "jewelry";
+  return "armor";
+}
 
-  const eligible = BONUS_AFFIXES.filter((a) => a.applicableTo.includes(category));
+function getAffixLevelScale(itemLevel: number): number {
+  return 1 + itemLevel / 10;
+}
+
+function toRolledAffix(def: AffixDefinition, itemLevel: number): RolledAffix {
+  const scale = getAffixLevelScale(itemLevel);
+  const statBonuses: Partial<CharacterStats> = {};
+  for (const [key, value] of Object.entries(def.statBonuses)) {
+    if (!value) continue;
+    (statBonuses as Record<string, number>)[key] = Math.max(1, Math.round(value * scale));
+  }
+  return {
+    id: def.id,
+    name: def.name,
+    kind: def.kind,
+    statBonuses,
+    ...(def.specialEffect && { specialEffect: def.specialEffect }),
+  };
+}
+
+function pickAffix(
+  group: AffixSlotGroup,
+  itemLevel: number,
+  kind: AffixKind,
+  excludeIds: Set<string>,
+  zoneId?: string,
+): AffixDefinition | undefined {
+  const eligible = AFFIX_POOL.filter(
+    (a) => a.kind === kind && a.slots.includes(group) && a.minItemLevel <= itemLevel && !excludeIds.has(a.id),
+  );
   if (eligible.length === 0) return undefined;
 
   const totalWeight = eligible.reduce((sum, a) => sum + a.weight, 0);
-  let roll = Math.random() * totalWeight;
-
+  let roll = rngFloat("quality", zoneId, `affix:pick:${kind}`) * totalWeight;
   for (const affix of eligible) {
     roll -= affix.weight;
     if (roll <= 0) return affix;
   }
-
   return eligible[eligible.length - 1];
 }
 
+/**
+ * Roll an item's affixes. At most one more suffix than prefix (and vice
+ * versa), never the same affix twice.
+ */
+export function rollAffixes(
+  item: Pick<ItemDefinition, "category" | "equipSlot" | "copperPrice">,
+  tier: QualityTier,
+  zoneId?: string,
+): RolledAffix[] {
+  const [min, max] = AFFIX_COUNT_BY_TIER[tier];
+  let count = min + Math.floor(rngFloat("quality", zoneId, "affix:count") * (max - min + 1));
+  if (tier === "common") count = rngFloat("quality", zoneId, "affix") < AFFIX_CHANCE ? 1 : 0;
+
+  const group = getAffixSlotGroup(item);
+  const itemLevel = getItemLevel(item);
+  const taken = new Set<string>();
+  const affixes: RolledAffix[] = [];
+  for (let i = 0; i < count; i++) {
+    const prefixes = affixes.filter((a) => a.kind === "prefix").length;
+    const suffixes = affixes.length - prefixes;
+    const kind: AffixKind = prefixes > suffixes ? "suffix"
+      : suffixes > prefixes ? "prefix"
+      : rngFloat("quality", zoneId, "affix:kind") < 0.5 ? "prefix" : "suffix";
+    const def = pickAffix(group, itemLevel, kind, taken, zoneId);
+    if (!def) continue;
+    taken.add(def.id);
+    affixes.push(toRolledAffix(def, itemLevel));
+  }
+  return affixes;
+}
+
+/**
+ * Reroll one affix in place, keeping its kind. The new affix never repeats
+ * one already on the item (including the one being replaced).
+ */
+export function rerollAffix(
+  item: Pick<ItemDefinition, "category" | "equipSlot" | "copperPrice">,
+  affixes: RolledAffix[],
+  index: number,
+  zoneId?: string,
+): RolledAffix | undefined {
+  const current = affixes[index];
+  if (!current) return undefined;
+  const taken = new Set(affixes.map((a) => a.id));
+  const def = pickAffix(getAffixSlotGroup(item), getItemLevel(item), current.kind, taken, zoneId);
+  if (!def) return undefined;
+  const rolled = toRolledAffix(def, getItemLevel(item));
+  affixes[index] = rolled;
+  return rolled;
+}
+
+// ── Sockets ────────────────────────────────────────────────────────────
+
+export interface SocketedGem {
+  tokenId: number;
+  name: string;
+  statBonuses: Partial<CharacterStats>;
+  /** Chain operation that burned the player's gem; only burned gems are minted back on unsocket. */
+  burnOperationId?: string;
+}
+
+/** [min, max] sockets per quality tier; only rare+ items get any. */
+const SOCKETS_BY_TIER: Partial<Record<QualityTier, [number, number]>> = {
+  rare: [1, 2],
+  epic: [2, 3],
+};
+
+export function rollSocketCount(tier: QualityTier, zoneId?: string): number {
+  const range = SOCKETS_BY_TIER[tier];
+  if (!range) return 0;
+  const [min, max] = range;
+  return min + Math.floor(rngFloat("quality", zoneId, "sockets") * (max - min + 1));
+}
+
 // ── Durability Rolling ─────────────────────────────────────────────────
 
-export function rollDurability(baseMax: number): number {
+export function rollDurability(baseMax: number, zoneId?: string): number {
   // ±20% variance on catalog maxDurability
-  const variance = 1 + (Math.random() * 0.4 - 0.2); // 0.80 to 1.20
+  const variance = 1 + (rngFloat("quality", zoneId, "durability") * 0.4 - 0.2); // 0.80 to 1.20
   return Math.max(1, Math.round(baseMax * variance));
 }
 
@@ -144,12 +288,18 @@ export interface CraftedItemInstance {
   baseTokenId: number;
   quality: QualityRoll;
   rolledStats: Partial<CharacterStats>;
+  /** Single affix rolled before multi-affix gear; kept for older instances. */
   bonusAffix?: {
     id: string;
     name: string;
     statBonuses: Partial<CharacterStats>;
     specialEffect?: string;
   };
+  affixes?: RolledAffix[];
+  /** One entry per socket; null = empty. */
+  sockets?: Array<SocketedGem | null>;
+  /** Times an affix on this item has been reforged (drives reforge cost). */
+  reforgeCount?: number;
   rolledMaxDurability: number;
   craftedBy: string; // wallet address
   ownerWallet: string; // current owner wallet or auction:<id> escrow key
@@ -311,10 +461,31 @@ function qualityRollFromTier(tier?: string): QualityRoll {
   }
 }
 
+/**
+ * Weapons keep their generated name and gain the first affix suffix;
+ * other gear reads "[Affix prefix | Quality] Base [Affix suffix]".
+ */
+function buildAffixedName(
+  baseName: string,
+  quality: QualityRoll,
+  affixes: RolledAffix[] | undefined,
+  generated?: GeneratedWeaponName | null,
+): string {
+  const prefixAffix = affixes?.find((a) => a.kind === "prefix");
+  const suffixAffix = affixes?.find((a) => a.kind === "suffix");
+  const suffix = suffixAffix ? ` ${suffixAffix.name}` : "";
+  if (generated) return generated.displayName + suffix;
+  const prefixText = prefixAffix?.name ?? quality.displayPrefix;
+  const prefix = prefixText ? `${prefixText} ` : "";
+  return `${prefix}${baseName}${suffix}`;
+}
+
 export function rollCraftedItem(params: {
   baseTokenId: bigint;
   recipeId: string;
   craftedBy: string;
+  /** Zone whose RNG streams the rolls draw from (for replay). */
+  zoneId?: string;
 }): CraftedItemInstance | null {
   const item = getItemByTokenId(params.baseTokenId);
   if (!item) return null;
@@ -322,47 +493,32 @@ export function rollCraftedItem(params: {
   // Only weapons and armor get rolls
   if (item.category !== "weapon" && item.category !== "armor") return null;
 
-  const quality = rollQuality();
+  const quality = rollQuality(params.zoneId);
   const rolledStats = item.statBonuses
-    ? rollStats(item.statBonuses, quality)
+    ? rollStats(item.statBonuses, quality, params.zoneId)
     : {};
-  const affix = rollBonusAffix(item.category);
+  const affixes = rollAffixes(item, quality.tier, params.zoneId);
+  const socketCount = rollSocketCount(quality.tier, params.zoneId);
   const rolledMaxDurability = item.maxDurability
-    ? rollDurability(item.maxDurability)
+    ? rollDurability(item.maxDurability, params.zoneId)
     : 100;
 
   // Build display name using the expanded weapon name generator
-  // Formula: [Prefix] + [Base Weapon] + [Suffix] + [Affix]
+  // Formula: [Prefix] + [Base Weapon] + [Suffix] + [Affix suffix]
   // e.g. "Voidforged Claymore of Eternal Ruin" or "Rusty Dagger of the Bear"
   const generated = item.category === "weapon"
     ? generateWeaponName(Number(params.baseTokenId), quality.tier)
     : null;
 
-  let displayName: string;
-  if (generated) {
-    // Procedural name: attach affix after the generated suffix
-    const affixPart = affix ? ` ${affix.name}` : "";
-    displayName = generated.displayName + affixPart;
-  } else {
-    // Fallback for armor / non-weapon items: original simple logic
-    const prefix = quality.displayPrefix ? `${quality.displayPrefix} ` : "";
-    const suffix = affix ? ` ${affix.name}` : "";
-    displayName = `${prefix}${item.name}${suffix}`;
-  }
+  const displayName = buildAffixedName(item.name, quality, affixes, generated);
 
   const instance: CraftedItemInstance = {
     instanceId: randomUUID(),
     baseTokenId: Number(params.baseTokenId),
     quality,
     rolledStats,
-    bonusAffix: affix
-      ? {
-          id: affix.id,
-          name: affix.name,
-          statBonuses: affix.statBonuses,
-          specialEffect: affix.specialEffect,
-        }
-      : undefined,
+    affixes: affixes.length > 0 ? affixes : undefined,
+    sockets: socketCount > 0 ? Array.from({ length: socketCount }, () => null) : undefined,
     rolledMaxDurability,
     craftedBy: params.craftedBy.toLowerCase(),
     ownerWallet: params.craftedBy.toLowerCase(),
@@ -483,6 +639,8 @@ export function upsertItemInstanceFromEquipment(params: {
     statBonuses: Partial<CharacterStats>;
     specialEffect?: string;
   };
+  affixes?: RolledAffix[];
+  sockets?: Array<SocketedGem | null>;
   enchantments?: CraftedItemInstance["enchantments"];
 }): CraftedItemInstance {
   const existing = params.instanceId ? instanceRegistry.get(params.instanceId) : undefined;
@@ -502,6 +660,8 @@ export function upsertItemInstanceFromEquipment(params: {
         specialEffect: params.bonusAffix.specialEffect,
       };
     }
+    if (params.affixes) existing.affixes = params.affixes.map((a) => ({ ...a }));
+    if (params.sockets) existing.sockets = params.sockets.map((g) => (g ? { ...g } : null));
     if (params.name && !existing.displayName) existing.displayName = params.name;
     if (previousOwner !== existing.ownerWallet) {
       removeInstanceFromOwnerIndex(previousOwner, existing.instanceId);
@@ -524,6 +684,8 @@ export function upsertItemInstanceFromEquipment(params: {
           specialEffect: params.bonusAffix.specialEffect,
         }
       : undefined,
+    affixes: params.affixes?.map((a) => ({ ...a })),
+    sockets: params.sockets?.map((g) => (g ? { ...g } : null)),
     rolledMaxDurability: params.maxDurability,
     craftedBy: params.walletAddress.toLowerCase(),
     ownerWallet: params.walletAddress.toLowerCase(),
@@ -541,6 +703,29 @@ export function upsertItemInstanceFromEquipment(params: {
   return instance;
 }
 
+/** Persist an instance after an in-place change (sockets, reforges). */
+export async function saveItemInstance(instance: CraftedItemInstance): Promise<void> {
+  await persistInstanceToRedis(instance);
+}
+
+/**
+ * Reroll one affix on an instance and rename it to match. Returns the new
+ * affix, or undefined when the pool has nothing else to offer.
+ */
+export function reforgeItemAffix(
+  instance: CraftedItemInstance,
+  affixIndex: number,
+  zoneId?: string,
+): RolledAffix | undefined {
+  const item = getItemByTokenId(BigInt(instance.baseTokenId));
+  if (!item || !instance.affixes) return undefined;
+  const rolled = rerollAffix(item, instance.affixes, affixIndex, zoneId);
+  if (!rolled) return undefined;
+  instance.reforgeCount = (instance.reforgeCount ?? 0) + 1;
+  instance.displayName = buildAffixedName(item.name, instance.quality, instance.affixes, instance.generatedName);
+  return rolled;
+}
+
 // ── API Routes ─────────────────────────────────────────────────────────
 
 export function registerItemRngRoutes(server: FastifyInstance) {
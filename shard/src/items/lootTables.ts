@@ -5,6 +5,8 @@
  * Skinning-drops: Require skinning profession + knife to harvest from corpse
  */
 
+import { rngFloat, rngInt } from "../world/rng.js";
+
 export interface LootDrop {
   tokenId: bigint;
   minQuantity: number;
@@ -409,6 +411,19 @@ export const LOOT_TABLES: Record<string, MobLootTable> = {
     skinningDrops: [],
   },
 
+  "Ancient Guardian": {
+    mobName: "Ancient Guardian",
+    copperMin: 150,
+    copperMax: 240,
+    autoDrops: [
+      { tokenId: 35n, minQuantity: 2, maxQuantity: 4, chance: 0.5 }, // Lavender (bark)
+      { tokenId: 118n, minQuantity: 1, maxQuantity: 1, chance: 0.15 }, // Rough Emerald
+    ],
+    skinningDrops: [
+      { tokenId: 72n, minQuantity: 3, maxQuantity: 5, chance: 0.7 }, // Ancient Bone
+    ],
+  },
+
   "Grom Sentinel": {
     mobName: "Grom Sentinel",
     copperMin: 280,
@@ -1090,14 +1105,12 @@ export function getLootTable(mobName: string): MobLootTable | undefined {
 /**
  * Roll drops based on loot table
  */
-export function rollDrops(drops: LootDrop[]): Array<{ tokenId: bigint; quantity: number }> {
+export function rollDrops(drops: LootDrop[], zoneId?: string): Array<{ tokenId: bigint; quantity: number }> {
   const results: Array<{ tokenId: bigint; quantity: number }> = [];
 
   for (const drop of drops) {
-    if (Math.random() <= drop.chance) {
-      const quantity =
-        Math.floor(Math.random() * (drop.maxQuantity - drop.minQuantity + 1)) +
-        drop.minQuantity;
+    if (rngFloat("loot", zoneId, `drop:${drop.tokenId}`) <= drop.chance) {
+      const quantity = rngInt("loot", drop.minQuantity, drop.maxQuantity, zoneId, `qty:${drop.tokenId}`);
       results.push({ tokenId: drop.tokenId, quantity });
     }
   }
@@ -1108,8 +1121,8 @@ export function rollDrops(drops: LootDrop[]): Array<{ tokenId: bigint; quantity:
 /**
  * Roll random copper amount from range
  */
-export function rollCopper(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function rollCopper(min: number, max: number, zoneId?: string): number {
+  return rngInt("loot", min, max, zoneId, "copper");
 }
 
 /**
@@ -281,6 +281,7 @@ export function registerUpgradingRoutes(server: FastifyInstance) {
         baseTokenId: recipe.outputTokenId,
         recipeId: recipe.recipeId,
         craftedBy: walletAddress,
+        zoneId: entity.region,
       });
 
       if (instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")) {
@@ -317,6 +318,8 @@ export function registerUpgradingRoutes(server: FastifyInstance) {
               displayName: instance.displayName,
               rolledStats: instance.rolledStats,
               bonusAffix: instance.bonusAffix,
+              affixes: instance.affixes,
+              sockets: instance.sockets,
               rolledMaxDurability: instance.rolledMaxDurability,
             }),
           },
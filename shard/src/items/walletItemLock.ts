@@ -0,0 +1,30 @@
+/**
+ * Per-wallet serialization for item balance checks and the burns/mints that
+ * follow them. Without it two concurrent requests can both pass a balance
+ * check before either burn lands; burns clamp at zero, so a later refund or
+ * unsocket would mint items that were never paid for.
+ *
+ * In-process only: zone-scoped requests for a wallet are routed to the worker
+ * that owns its character.
+ */
+
+const walletChains = new Map<string, Promise<void>>();
+
+export async function withWalletItemLock<T>(walletAddress: string, fn: () => Promise<T>): Promise<T> {
+  const key = walletAddress.trim().toLowerCase();
+  const previous = walletChains.get(key) ?? Promise.resolve();
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  walletChains.set(key, tail);
+
+  await previous;
+  try {
+    return await fn();
+  } finally {
+    release();
+    if (walletChains.get(key) === tail) walletChains.delete(key);
+  }
+}
@@ -72,6 +72,8 @@ function enrichListing(listing: DirectListing) {
     armorSlot: item?.armorSlot ?? null,
     statBonuses: instance?.rolledStats ?? item?.statBonuses ?? {},
     bonusAffix: instance?.bonusAffix ?? null,
+    affixes: instance?.affixes ?? null,
+    sockets: instance?.sockets ?? null,
     quality: instance?.quality?.tier ?? null,
     durability: instance?.currentDurability ?? null,
     maxDurability:
@@ -0,0 +1,89 @@
+/**
+ * Chain intent spans — one `chain.intent` span per write intent, opened as a
+ * child of whatever span created the intent (usually the HTTP route), with a
+ * `chain.receipt` child from submission until the receipt lands.
+ *
+ * Spans live in this process only; an intent finished by another worker is
+ * ended as `untracked` once it has been idle for INTENT_SPAN_TTL_MS.
+ */
+
+import type { ChainWriteIntentRecord } from "../blockchain/chainIntentStore.js";
+import { isTracingEnabled, startSpan, type Span } from "./tracing.js";
+
+const INTENT_SPAN_TTL_MS = 30 * 60_000;
+const MAX_TRACKED_INTENTS = 5_000;
+
+interface IntentSpans {
+  intent: Span;
+  receipt: Span | null;
+  status: string;
+  touchedAt: number;
+}
+
+const tracked = new Map<string, IntentSpans>();
+
+function isTerminal(status: string): boolean {
+  return status === "confirmed" || status === "failed_permanent" || status === "superseded";
+}
+
+function evictStale(now: number): void {
+  for (const [intentId, entry] of tracked) {
+    if (tracked.size <= MAX_TRACKED_INTENTS && now - entry.touchedAt < INTENT_SPAN_TTL_MS) continue;
+    entry.receipt?.end("untracked");
+    entry.intent.end("untracked");
+    tracked.delete(intentId);
+  }
+}
+
+/** Record an intent's latest state; called by the intent store after every write. */
+export function traceChainIntent(intent: ChainWriteIntentRecord): void {
+  if (!isTracingEnabled()) return;
+  const now = Date.now();
+  let entry = tracked.get(intent.intentId);
+  if (!entry) {
+    if (isTerminal(intent.status)) return;
+    evictStale(now);
+    entry = {
+      intent: startSpan("chain.intent", {
+        kind: "producer",
+        attributes: {
+          "chain.intent.id": intent.intentId,
+          "chain.intent.type": intent.type,
+          "chain.intent.aggregate": `${intent.aggregateType}:${intent.aggregateKey}`,
+          "chain.wallet": intent.walletAddress,
+        },
+      }),
+      receipt: null,
+      status: "",
+      touchedAt: now,
+    };
+    tracked.set(intent.intentId, entry);
+  }
+  entry.touchedAt = now;
+
+  if (entry.status !== intent.status) {
+    entry.intent.addEvent(`status.${intent.status}`, {
+      attempt: intent.attemptCount,
+      ...(intent.lastError ? { error: intent.lastError } : {}),
+    });
+    entry.status = intent.status;
+  }
+
+  if (intent.status === "submitted" && !entry.receipt) {
+    entry.receipt = startSpan("chain.receipt", {
+      kind: "client",
+      parent: entry.intent.context,
+      attributes: { "chain.tx_hash": intent.txHash, "chain.intent.attempt": intent.attemptCount },
+    });
+  } else if (entry.receipt && intent.status !== "submitted") {
+    entry.receipt.setAttribute("chain.tx_hash", intent.txHash);
+    entry.receipt.end(intent.status === "confirmed" ? undefined : intent.lastError ?? intent.status);
+    entry.receipt = null;
+  }
+
+  if (isTerminal(intent.status)) {
+    entry.intent.setAttribute("chain.tx_hash", intent.txHash);
+    entry.intent.end(intent.status === "confirmed" ? undefined : intent.lastError ?? intent.status);
+    tracked.delete(intent.intentId);
+  }
+}
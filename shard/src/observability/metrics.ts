@@ -0,0 +1,227 @@
+/**
+ * Shard metrics registry — counters, gauges and histograms rendered in the
+ * Prometheus text exposition format (0.0.4) by GET /metrics.
+ *
+ * Modules declare their metrics at load time and record into them inline;
+ * values that are cheaper to read than to track (entity counts, queue depth)
+ * come from collectors that run just before each scrape.
+ */
+
+import { monitorEventLoopDelay } from "node:perf_hooks";
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+interface MetricBase {
+  name: string;
+  help: string;
+  type: MetricType;
+  labelNames: readonly string[];
+  reset(): void;
+  render(): string[];
+}
+
+export interface Counter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: MetricLabels, value: number): void;
+  inc(labels?: MetricLabels, value?: number): void;
+  dec(labels?: MetricLabels, value?: number): void;
+  /** Drop every series, e.g. before a collector rewrites the full set. */
+  reset(): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+  /** Start a timer; calling the result observes the elapsed seconds and returns them. */
+  startTimer(labels?: MetricLabels): (extraLabels?: MetricLabels) => number;
+}
+
+/** Seconds, tuned for request and query latency. */
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const registry = new Map<string, MetricBase>();
+const collectors = new Set<() => void | Promise<void>>();
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+function seriesKey(labelNames: readonly string[], labels: MetricLabels | undefined): string {
+  return labelNames.map((name) => String(labels?.[name] ?? "")).join("\u0000");
+}
+
+function renderLabels(labelNames: readonly string[], key: string, extra?: [string, string]): string {
+  const values = key === "" && labelNames.length === 0 ? [] : key.split("\u0000");
+  const pairs = labelNames.map((name, i) => `${name}="${escapeLabelValue(values[i] ?? "")}"`);
+  if (extra) pairs.push(`${extra[0]}="${escapeLabelValue(extra[1])}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function define<T extends MetricBase>(metric: T): T {
+  const existing = registry.get(metric.name);
+  if (existing) {
+    if (existing.type !== metric.type) {
+      throw new Error(`[metrics] ${metric.name} is already registered as a ${existing.type}`);
+    }
+    return existing as T;
+  }
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+export function counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+  const series = new Map<string, number>();
+  return define({
+    name,
+    help,
+    type: "counter" as const,
+    labelNames,
+    inc(labels?: MetricLabels, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      series.set(key, (series.get(key) ?? 0) + value);
+    },
+    reset: () => series.clear(),
+    render: () => [...series].map(([key, value]) => `${name}${renderLabels(labelNames, key)} ${formatValue(value)}`),
+  });
+}
+
+export function gauge(name: string, help: string, labelNames: readonly string[] = []): Gauge {
+  const series = new Map<string, number>();
+  return define({
+    name,
+    help,
+    type: "gauge" as const,
+    labelNames,
+    set(labels: MetricLabels, value: number) {
+      series.set(seriesKey(labelNames, labels), value);
+    },
+    inc(labels?: MetricLabels, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      series.set(key, (series.get(key) ?? 0) + value);
+    },
+    dec(labels?: MetricLabels, value = 1) {
+      const key = seriesKey(labelNames, labels);
+      series.set(key, (series.get(key) ?? 0) - value);
+    },
+    reset: () => series.clear(),
+    render: () => [...series].map(([key, value]) => `${name}${renderLabels(labelNames, key)} ${formatValue(value)}`),
+  });
+}
+
+export function histogram(
+  name: string,
+  help: string,
+  labelNames: readonly string[] = [],
+  buckets: readonly number[] = DEFAULT_LATENCY_BUCKETS
+): Histogram {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const series = new Map<string, { counts: number[]; sum: number; count: number }>();
+  const observe = (labels: MetricLabels | undefined, value: number) => {
+    const key = seriesKey(labelNames, labels);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { counts: bounds.map(() => 0), sum: 0, count: 0 };
+      series.set(key, entry);
+    }
+    for (let i = 0; i < bounds.length; i++) {
+      if (value <= bounds[i]) entry.counts[i]++;
+    }
+    entry.sum += value;
+    entry.count++;
+  };
+  return define({
+    name,
+    help,
+    type: "histogram" as const,
+    labelNames,
+    observe,
+    startTimer(labels?: MetricLabels) {
+      const start = process.hrtime.bigint();
+      return (extraLabels?: MetricLabels) => {
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+        observe({ ...labels, ...extraLabels }, seconds);
+        return seconds;
+      };
+    },
+    reset: () => series.clear(),
+    render: () => {
+      const lines: string[] = [];
+      for (const [key, entry] of series) {
+        bounds.forEach((bound, i) => {
+          lines.push(`${name}_bucket${renderLabels(labelNames, key, ["le", formatValue(bound)])} ${entry.counts[i]}`);
+        });
+        lines.push(`${name}_bucket${renderLabels(labelNames, key, ["le", "+Inf"])} ${entry.count}`);
+        lines.push(`${name}_sum${renderLabels(labelNames, key)} ${formatValue(entry.sum)}`);
+        lines.push(`${name}_count${renderLabels(labelNames, key)} ${entry.count}`);
+      }
+      return lines;
+    },
+  });
+}
+
+/** Run `collect` before every scrape. Returns an unsubscribe function. */
+export function registerMetricsCollector(collect: () => void | Promise<void>): () => void {
+  collectors.add(collect);
+  return () => collectors.delete(collect);
+}
+
+export async function renderMetrics(): Promise<string> {
+  for (const collect of collectors) {
+    try {
+      await collect();
+    } catch (err) {
+      console.warn(`[metrics] collector failed: ${(err as Error)?.message ?? err}`);
+    }
+  }
+  const lines: string[] = [];
+  for (const metric of registry.values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+    lines.push(`# TYPE ${metric.name} ${metric.type}`);
+    lines.push(...metric.render());
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+/** Clear every recorded value (metric definitions and collectors stay). For tests. */
+export function resetMetrics(): void {
+  for (const metric of registry.values()) metric.reset();
+}
+
+// ── Process ──────────────────────────────────────────────────────────
+
+const eventLoopDelay = monitorEventLoopDelay({ resolution: 20 });
+eventLoopDelay.enable();
+
+const eventLoopDelaySeconds = gauge(
+  "wog_event_loop_delay_seconds",
+  "Event loop delay since the previous scrape",
+  ["quantile"]
+);
+const memoryBytes = gauge("wog_process_memory_bytes", "Process memory usage", ["kind"]);
+const uptimeSeconds = gauge("wog_process_uptime_seconds", "Process uptime");
+
+registerMetricsCollector(() => {
+  if (eventLoopDelay.count > 0) {
+    eventLoopDelaySeconds.set({ quantile: "0.5" }, eventLoopDelay.percentile(50) / 1e9);
+    eventLoopDelaySeconds.set({ quantile: "0.99" }, eventLoopDelay.percentile(99) / 1e9);
+    eventLoopDelaySeconds.set({ quantile: "1" }, eventLoopDelay.max / 1e9);
+  }
+  eventLoopDelay.reset();
+  const memory = process.memoryUsage();
+  memoryBytes.set({ kind: "rss" }, memory.rss);
+  memoryBytes.set({ kind: "heap_used" }, memory.heapUsed);
+  memoryBytes.set({ kind: "heap_total" }, memory.heapTotal);
+  memoryBytes.set({ kind: "external" }, memory.external);
+  uptimeSeconds.set({}, process.uptime());
+});
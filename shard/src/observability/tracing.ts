@@ -0,0 +1,283 @@
+/**
+ * Minimal tracing with optional OTLP/HTTP export.
+ *
+ * Disabled unless OTEL_EXPORTER_OTLP_ENDPOINT (or
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) is set; every call is then a cheap
+ * no-op. Spans follow the active context (AsyncLocalStorage), so a route
+ * span becomes the parent of chain intents created while handling it.
+ * Incoming W3C `traceparent` headers are honoured.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomBytes } from "node:crypto";
+
+export type SpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+export type SpanAttributeValue = string | number | boolean;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+export interface Span {
+  readonly name: string;
+  readonly context: SpanContext;
+  readonly parentSpanId: string | null;
+  setAttribute(key: string, value: SpanAttributeValue | null | undefined): void;
+  addEvent(name: string, attributes?: Record<string, SpanAttributeValue>): void;
+  /** Ends the span; `error` marks it failed. Later calls are ignored. */
+  end(error?: unknown): void;
+  readonly ended: boolean;
+}
+
+interface FinishedSpan {
+  name: string;
+  kind: SpanKind;
+  traceId: string;
+  spanId: string;
+  parentSpanId: string | null;
+  startTimeUnixNano: bigint;
+  endTimeUnixNano: bigint;
+  attributes: Record<string, SpanAttributeValue>;
+  events: { name: string; timeUnixNano: bigint; attributes: Record<string, SpanAttributeValue> }[];
+  error: string | null;
+}
+
+const OTLP_ENDPOINT = resolveTracesEndpoint();
+const SERVICE_NAME = process.env.OTEL_SERVICE_NAME || "wog-shard";
+const EXPORT_INTERVAL_MS = Math.max(1_000, Number.parseInt(process.env.OTEL_BSP_SCHEDULE_DELAY ?? "5000", 10) || 5_000);
+const MAX_QUEUE_SIZE = 2_048;
+const MAX_EXPORT_BATCH_SIZE = 512;
+
+const storage = new AsyncLocalStorage<Span>();
+const finished: FinishedSpan[] = [];
+let droppedSpans = 0;
+let exportTimer: ReturnType<typeof setInterval> | null = null;
+
+function resolveTracesEndpoint(): string | null {
+  const traces = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT?.trim();
+  if (traces) return traces;
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT?.trim();
+  if (base) return `${base.replace(/\/+$/, "")}/v1/traces`;
+  return null;
+}
+
+function parseHeaders(raw: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (raw ?? "").split(",")) {
+    const index = pair.indexOf("=");
+    if (index <= 0) continue;
+    headers[decodeURIComponent(pair.slice(0, index).trim())] = decodeURIComponent(pair.slice(index + 1).trim());
+  }
+  return headers;
+}
+
+function nowUnixNano(): bigint {
+  return BigInt(Date.now()) * 1_000_000n;
+}
+
+export function isTracingEnabled(): boolean {
+  return OTLP_ENDPOINT !== null;
+}
+
+/** Parse a W3C traceparent header (`00-<traceId>-<spanId>-<flags>`). */
+export function parseTraceparent(header: string | string[] | undefined): SpanContext | null {
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = value?.trim().match(/^[\da-f]{2}-([\da-f]{32})-([\da-f]{16})-[\da-f]{2}$/i);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1].toLowerCase(), spanId: match[2].toLowerCase() };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+const NOOP_SPAN: Span = {
+  name: "noop",
+  context: { traceId: "0".repeat(32), spanId: "0".repeat(16) },
+  parentSpanId: null,
+  setAttribute() {},
+  addEvent() {},
+  end() {},
+  ended: true,
+};
+
+/**
+ * Start a span. The parent defaults to the active span; pass `parent: null`
+ * to start a new trace.
+ */
+export function startSpan(
+  name: string,
+  options?: {
+    kind?: SpanKind;
+    parent?: SpanContext | null;
+    attributes?: Record<string, SpanAttributeValue | null | undefined>;
+  }
+): Span {
+  if (!OTLP_ENDPOINT) return NOOP_SPAN;
+
+  const parent = options?.parent === undefined ? getActiveSpan()?.context ?? null : options.parent;
+  const context: SpanContext = {
+    traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+  };
+  const record: FinishedSpan = {
+    name,
+    kind: options?.kind ?? "internal",
+    traceId: context.traceId,
+    spanId: context.spanId,
+    parentSpanId: parent?.spanId ?? null,
+    startTimeUnixNano: nowUnixNano(),
+    endTimeUnixNano: 0n,
+    attributes: {},
+    events: [],
+    error: null,
+  };
+  let ended = false;
+
+  const span: Span = {
+    name,
+    context,
+    parentSpanId: record.parentSpanId,
+    setAttribute(key, value) {
+      if (value !== null && value !== undefined) record.attributes[key] = value;
+    },
+    addEvent(eventName, attributes) {
+      record.events.push({ name: eventName, timeUnixNano: nowUnixNano(), attributes: attributes ?? {} });
+    },
+    end(error) {
+      if (ended) return;
+      ended = true;
+      record.endTimeUnixNano = nowUnixNano();
+      if (error !== undefined) {
+        record.error = error instanceof Error ? error.message : String(error);
+      }
+      if (finished.length >= MAX_QUEUE_SIZE) {
+        droppedSpans++;
+        return;
+      }
+      finished.push(record);
+    },
+    get ended() {
+      return ended;
+    },
+  };
+  for (const [key, value] of Object.entries(options?.attributes ?? {})) span.setAttribute(key, value);
+  return span;
+}
+
+export function getActiveSpan(): Span | undefined {
+  return storage.getStore();
+}
+
+/** Run `fn` with `span` as the active span. */
+export function withSpan<T>(span: Span, fn: () => T): T {
+  if (span === NOOP_SPAN) return fn();
+  return storage.run(span, fn);
+}
+
+/** Run `fn` inside a new child span that ends when `fn` settles. */
+export async function traced<T>(
+  name: string,
+  attributes: Record<string, SpanAttributeValue | null | undefined>,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, { attributes });
+  try {
+    const result = await withSpan(span, () => fn(span));
+    span.end();
+    return result;
+  } catch (err) {
+    span.end(err);
+    throw err;
+  }
+}
+
+// ── OTLP/HTTP JSON export ────────────────────────────────────────────
+
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === "boolean"
+      ? { boolValue: value }
+      : typeof value === "number"
+        ? Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+        : { stringValue: value },
+  }));
+}
+
+/** Build the OTLP/HTTP JSON `ExportTraceServiceRequest` body for a batch of spans. */
+export function buildOtlpTraceRequest(spans: readonly FinishedSpan[]) {
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: toOtlpAttributes({
+          "service.name": SERVICE_NAME,
+          ...(process.env.SHARD_WORKER_ID ? { "service.instance.id": process.env.SHARD_WORKER_ID } : {}),
+        }),
+      },
+      scopeSpans: [{
+        scope: { name: "wog-shard" },
+        spans: spans.map((span) => ({
+          traceId: span.traceId,
+          spanId: span.spanId,
+          ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+          name: span.name,
+          kind: SPAN_KIND_CODES[span.kind],
+          startTimeUnixNano: span.startTimeUnixNano.toString(),
+          endTimeUnixNano: span.endTimeUnixNano.toString(),
+          attributes: toOtlpAttributes(span.attributes),
+          events: span.events.map((event) => ({
+            name: event.name,
+            timeUnixNano: event.timeUnixNano.toString(),
+            attributes: toOtlpAttributes(event.attributes),
+          })),
+          status: span.error ? { code: 2, message: span.error } : { code: 1 },
+        })),
+      }],
+    }],
+  };
+}
+
+/** Send every finished span to the collector. Failed batches are dropped, not retried. */
+export async function flushSpans(): Promise<void> {
+  if (!OTLP_ENDPOINT) return;
+  const headers = { "content-type": "application/json", ...parseHeaders(process.env.OTEL_EXPORTER_OTLP_HEADERS) };
+  while (finished.length > 0) {
+    const batch = finished.splice(0, MAX_EXPORT_BATCH_SIZE);
+    try {
+      const res = await fetch(OTLP_ENDPOINT, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(buildOtlpTraceRequest(batch)),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (!res.ok) {
+        console.warn(`[tracing] OTLP export rejected ${batch.length} span(s): HTTP ${res.status}`);
+      }
+    } catch (err) {
+      console.warn(`[tracing] OTLP export failed for ${batch.length} span(s): ${(err as Error)?.message ?? err}`);
+    }
+  }
+  if (droppedSpans > 0) {
+    console.warn(`[tracing] dropped ${droppedSpans} span(s) while the export queue was full`);
+    droppedSpans = 0;
+  }
+}
+
+export function startTraceExporter(): void {
+  if (!OTLP_ENDPOINT || exportTimer) return;
+  exportTimer = setInterval(() => {
+    void flushSpans();
+  }, EXPORT_INTERVAL_MS);
+  exportTimer.unref();
+  console.log(`[tracing] Exporting spans to ${OTLP_ENDPOINT}`);
+}
+
+export async function stopTraceExporter(): Promise<void> {
+  if (exportTimer) clearInterval(exportTimer);
+  exportTimer = null;
+  await flushSpans();
+}
@@ -1,19 +1,20 @@
 import type { FastifyInstance } from "fastify";
 import { getEntity, getOrCreateZone, type Entity } from "../world/zoneRuntime.js";
 import { hasLearnedProfession } from "./professions.js";
-import { enqueueItemMint, enqueueItemBurn, getItemBalance, getGoldBalance } from "../blockchain/blockchain.js";
+import { enqueueItemMint, enqueueItemBurn, getGoldBalance } from "../blockchain/blockchain.js";
 import { getAvailableGoldAsync, formatGold, recordGoldSpendAsync } from "../blockchain/goldLedger.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
 import { authenticateRequest } from "../auth/auth.js";
 import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
-import { logDiary, narrativeBrew, narrativeConsume } from "../social/diary.js";
+import { logDiary, narrativeBrew } from "../social/diary.js";
 import { awardProfessionXp, PROFESSION_XP, getProfessionSkills, rollFailure } from "./professionXp.js";
 import { reputationManager, ReputationCategory } from "../economy/reputationManager.js";
 import { logZoneEvent } from "../world/zoneEvents.js";
 import { copperToGold } from "../blockchain/currency.js";
-import { getPotionEffect, type PotionEffect } from "./potionEffects.js";
-import { randomUUID } from "crypto";
+import type { PotionEffect } from "./potionEffects.js";
+import { consumePotion } from "./consumePotion.js";
 import { advanceGatherQuests } from "../social/questSystem.js";
+import type { CraftingQueueDefinition } from "./craftingQueue.js";
 
 const lastBrewTime = new Map<string, number>();
 
@@ -34,7 +35,7 @@ export interface AlchemyRecipe {
   requiredMaterials: Array<{ tokenId: bigint; quantity: number }>;
   copperCost: number;
   requiredSkillLevel: number; // alchemy skill level (1-300) needed to brew
-  brewingTime: number; // seconds (for future use)
+  brewingTime: number; // seconds per brew (queued brews; also the single-brew cooldown)
 }
 
 export const ALCHEMY_RECIPES: AlchemyRecipe[] = [
@@ -468,6 +469,90 @@ export function getAlchemyRecipeById(recipeId: string): AlchemyRecipe | undefine
   return ALCHEMY_RECIPES.find((r) => r.recipeId === recipeId);
 }
 
+/** Profession XP for a successful brew: minor potions < early elixirs < everything else. */
+function brewXpForRecipe(recipeId: string): number {
+  const isMinor = recipeId.startsWith("minor-");
+  const isMid = ["stamina-elixir", "wisdom-potion", "swift-step-potion"].includes(recipeId);
+  return isMinor
+    ? PROFESSION_XP.BREW_TIER1
+    : isMid
+      ? PROFESSION_XP.BREW_TIER2
+      : PROFESSION_XP.BREW_TIER3;
+}
+
+/**
+ * Mint a brewed potion (materials already paid) and hand out XP, quest
+ * progress, reputation, zone event and diary entry.
+ */
+async function completeBrew(
+  entity: Entity,
+  zoneId: string,
+  walletAddress: string,
+  recipe: AlchemyRecipe,
+  labName: string,
+) {
+  const potionTx = await enqueueItemMint(
+    walletAddress,
+    recipe.outputTokenId,
+    BigInt(recipe.outputQuantity)
+  );
+
+  const outputItem = getItemByTokenId(recipe.outputTokenId);
+
+  const profXpResult = awardProfessionXp(entity, zoneId, brewXpForRecipe(recipe.recipeId), "alchemy", outputItem?.name);
+
+  advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
+
+  if (entity.agentId != null) {
+    reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 2, `Crafted: ${outputItem?.name ?? recipe.recipeId}`);
+  }
+  console.log(
+    `[alchemy] ${entity.name} brewed ${outputItem?.name} at ${labName} → ${potionTx}`
+  );
+
+  // Emit zone event for client speech bubbles
+  logZoneEvent({
+    zoneId,
+    type: "loot",
+    tick: 0,
+    message: `${entity.name}: Brewed ${outputItem?.name ?? "a potion"}`,
+    entityId: entity.id,
+    entityName: entity.name,
+    data: { craftType: "alchemy", itemName: outputItem?.name ?? "a potion", recipeId: recipe.recipeId },
+  });
+
+  // Log brew diary entry
+  const potionName = outputItem?.name ?? "Unknown Potion";
+  const { headline, narrative } = narrativeBrew(entity.name, entity.raceId, entity.classId, zoneId, potionName, labName);
+  logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "brew", headline, narrative, {
+    recipeId: recipe.recipeId,
+    potionName,
+    labName,
+  });
+
+  return { potionTx, outputItem, profXpResult };
+}
+
+export const ALCHEMY_QUEUE: CraftingQueueDefinition = {
+  profession: "alchemy",
+  stationType: "alchemy-lab",
+  stationName: "Alchemy Lab",
+  stationRange: 100,
+  xpLabel: "alchemy",
+  getRecipe(recipeId) {
+    const recipe = getAlchemyRecipeById(recipeId);
+    return recipe && { ...recipe, craftingTime: recipe.brewingTime };
+  },
+  craftXp: brewXpForRecipe,
+  chargesCopper: true,
+  failureMessage: "The potion fizzled and evaporated.",
+  async completeCraft(entity, zoneId, recipeId, stationName) {
+    const recipe = getAlchemyRecipeById(recipeId)!;
+    const { outputItem } = await completeBrew(entity, zoneId, entity.walletAddress!, recipe, stationName);
+    return outputItem?.name ?? recipeId;
+  },
+};
+
 export function registerAlchemyRoutes(server: FastifyInstance) {
   // GET /alchemy/recipes - list all alchemy recipes
   server.get("/alchemy/recipes", async () => {
@@ -625,7 +710,7 @@ export function registerAlchemyRoutes(server: FastifyInstance) {
     }
 
     // Roll for failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel, entity.region);
     if (failed) {
       lastBrewTime.set(walletAddress.toLowerCase(), Date.now());
       const halfXp = recipe.copperCost <= 15
@@ -705,55 +790,14 @@ export function registerAlchemyRoutes(server: FastifyInstance) {
 
     // Mint crafted potion
     try {
-      const potionTx = await enqueueItemMint(
+      const { potionTx, outputItem, profXpResult } = await completeBrew(
+        entity,
+        zoneId,
         walletAddress,
-        recipe.outputTokenId,
-        BigInt(recipe.outputQuantity)
+        recipe,
+        alchemyLab.name,
       );
 
-      const outputItem = getItemByTokenId(recipe.outputTokenId);
-
-      // Award profession XP based on potion tier
-      const isMinor = recipeId.startsWith("minor-");
-      const isMid = ["stamina-elixir", "wisdom-potion", "swift-step-potion"].includes(recipeId);
-      const brewXp = isMinor
-        ? PROFESSION_XP.BREW_TIER1
-        : isMid
-          ? PROFESSION_XP.BREW_TIER2
-          : PROFESSION_XP.BREW_TIER3;
-      const profXpResult = awardProfessionXp(entity, zoneId, brewXp, "alchemy", outputItem?.name);
-
-      advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
-
-      if (entity.agentId != null) {
-        reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 2, `Crafted: ${outputItem?.name ?? recipeId}`);
-      }
-      server.log.info(
-        `[alchemy] ${entity.name} brewed ${outputItem?.name} at ${alchemyLab.name} → ${potionTx}`
-      );
-
-      // Emit zone event for client speech bubbles
-      logZoneEvent({
-        zoneId,
-        type: "loot",
-        tick: 0,
-        message: `${entity.name}: Brewed ${outputItem?.name ?? "a potion"}`,
-        entityId: entity.id,
-        entityName: entity.name,
-        data: { craftType: "alchemy", itemName: outputItem?.name ?? "a potion", recipeId },
-      });
-
-      // Log brew diary entry
-      if (walletAddress) {
-        const potionName = outputItem?.name ?? "Unknown Potion";
-        const { headline, narrative } = narrativeBrew(entity.name, entity.raceId, entity.classId, zoneId, potionName, alchemyLab.name);
-        logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "brew", headline, narrative, {
-          recipeId: recipe.recipeId,
-          potionName,
-          labName: alchemyLab.name,
-        });
-      }
-
       lastBrewTime.set(walletAddress.toLowerCase(), Date.now());
 
       return {
@@ -822,113 +866,15 @@ export function registerAlchemyRoutes(server: FastifyInstance) {
     // Zone needed for tick reference
     const zone = getOrCreateZone(zoneId);
 
-    // Look up potion effect
-    const effect = getPotionEffect(BigInt(tokenId));
-    if (!effect) {
-      reply.code(400);
-      return { error: "Item is not a consumable potion, elixir, or tonic" };
-    }
-
-    // Check ownership
-    const balance = await getItemBalance(walletAddress, BigInt(tokenId));
-    if (balance < 1n) {
-      reply.code(400);
-      return { error: "You don't own this item" };
-    }
-
-    // Burn the consumable NFT
-    let burnTx: string;
-    try {
-      burnTx = await enqueueItemBurn(walletAddress, BigInt(tokenId), 1n);
-    } catch (err) {
-      server.log.error(err, `[alchemy] Failed to burn consumable for ${walletAddress}`);
-      reply.code(500);
-      return { error: "Failed to consume item" };
-    }
-
-    const item = getItemByTokenId(BigInt(tokenId));
-    const itemName = item?.name ?? "Unknown";
-    const results: Record<string, unknown> = { ok: true, consumed: itemName, category: effect.category, tx: burnTx };
-
-    // Apply instant HP restore
-    if (effect.hpRestore && effect.hpRestore > 0) {
-      const healed = Math.min(effect.hpRestore, entity.maxHp - entity.hp);
-      entity.hp = Math.min(entity.maxHp, entity.hp + effect.hpRestore);
-      results.hpRestored = healed;
-      results.currentHp = entity.hp;
-      results.maxHp = entity.maxHp;
-    }
-
-    // Apply instant MP restore
-    if (effect.mpRestore && effect.mpRestore > 0 && entity.essence != null && entity.maxEssence != null) {
-      const restored = Math.min(effect.mpRestore, entity.maxEssence - entity.essence);
-      entity.essence = Math.min(entity.maxEssence, entity.essence + effect.mpRestore);
-      results.mpRestored = restored;
-      results.currentMp = entity.essence;
-      results.maxMp = entity.maxEssence;
-    }
-
-    // Apply buff as ActiveEffect
-    if (effect.buff) {
-      if (!entity.activeEffects) entity.activeEffects = [];
-
-      // Remove existing buff with same name (don't stack, refresh instead)
-      entity.activeEffects = entity.activeEffects.filter((e) => e.name !== effect.buff!.name);
-
-      entity.activeEffects.push({
-        id: randomUUID(),
-        techniqueId: `potion-${tokenId}`,
-        name: effect.buff.name,
-        type: effect.buff.type,
-        casterId: entity.id,
-        appliedAtTick: zone.tick,
-        durationTicks: effect.buff.durationTicks,
-        remainingTicks: effect.buff.durationTicks,
-        ...(effect.buff.statModifiers && { statModifiers: effect.buff.statModifiers }),
-        ...(effect.buff.hotHealPerTick && { hotHealPerTick: effect.buff.hotHealPerTick }),
-        ...(effect.buff.shieldHp && { shieldHp: effect.buff.shieldHp, shieldMaxHp: effect.buff.shieldHp }),
-      });
-
-      results.buffApplied = {
-        name: effect.buff.name,
-        durationSeconds: Math.round(effect.buff.durationTicks / 2), // 500ms ticks
-        ...(effect.buff.statModifiers && { statModifiers: effect.buff.statModifiers }),
-        ...(effect.xpMultiplier && { xpMultiplier: effect.xpMultiplier }),
-        ...(effect.elementResist && { elementResist: effect.elementResist }),
-      };
-    }
-
-    // Log zone event
-    logZoneEvent({
-      zoneId,
-      type: "consume",
-      tick: zone.tick,
-      message: `${entity.name} consumed ${itemName}`,
-      entityId: entity.id,
-      entityName: entity.name,
-      data: {
-        itemName,
-        consumeType: effect.category,
-        hpRestored: (results.hpRestored as number) ?? 0,
-        mpRestored: (results.mpRestored as number) ?? 0,
-        buffName: effect.buff?.name,
-      },
-    });
-
-    // Log diary
-    if (walletAddress) {
-      const hpRestored = (results.hpRestored as number) ?? 0;
-      const { headline, narrative } = narrativeConsume(entity.name, entity.raceId, entity.classId, zoneId, itemName, hpRestored);
-      logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "consume", headline, narrative, {
-        itemName,
-        category: effect.category,
-        ...(effect.buff && { buffName: effect.buff.name }),
-        ...(effect.xpMultiplier && { xpMultiplier: effect.xpMultiplier }),
-      });
+    const consumed = await consumePotion(walletAddress, entity, zoneId, zone.tick, tokenId);
+    if (!consumed.ok) {
+      if (consumed.cause) server.log.error(consumed.cause, `[alchemy] Failed to burn consumable for ${walletAddress}`);
+      reply.code(consumed.status);
+      return { error: consumed.error };
     }
 
-    server.log.info(`[alchemy] ${entity.name} consumed ${itemName} (${effect.category}) → ${burnTx}`);
-    return results;
+    server.log.info(`[alchemy] ${entity.name} consumed ${consumed.itemName} (${consumed.results.category}) → ${consumed.burnTx}`);
+    return consumed.results;
   });
 
   // ── GET /alchemy/consumables — list all consumable effects ─────────
@@ -0,0 +1,126 @@
+/**
+ * Drinking a potion/elixir/tonic: ownership check, NFT burn, then the
+ * instant restore and/or ActiveEffect on the entity. Shared by
+ * POST /alchemy/consume and the use_consumable edict action.
+ */
+
+import { randomUUID } from "crypto";
+import type { Entity } from "../world/zoneRuntime.js";
+import { enqueueItemBurn, getItemBalance } from "../blockchain/blockchain.js";
+import { getItemByTokenId } from "../items/itemCatalog.js";
+import { logZoneEvent } from "../world/zoneEvents.js";
+import { logDiary, narrativeConsume } from "../social/diary.js";
+import { getPotionEffect } from "./potionEffects.js";
+
+export type ConsumePotionResult =
+  | { ok: true; itemName: string; burnTx: string; results: Record<string, unknown> }
+  | { ok: false; status: number; error: string; cause?: unknown };
+
+export async function consumePotion(
+  walletAddress: string,
+  entity: Entity,
+  zoneId: string,
+  tick: number,
+  tokenId: number,
+): Promise<ConsumePotionResult> {
+  // Look up potion effect
+  const effect = getPotionEffect(BigInt(tokenId));
+  if (!effect) {
+    return { ok: false, status: 400, error: "Item is not a consumable potion, elixir, or tonic" };
+  }
+
+  // Check ownership
+  const balance = await getItemBalance(walletAddress, BigInt(tokenId));
+  if (balance < 1n) {
+    return { ok: false, status: 400, error: "You don't own this item" };
+  }
+
+  // Burn the consumable NFT
+  let burnTx: string;
+  try {
+    burnTx = await enqueueItemBurn(walletAddress, BigInt(tokenId), 1n);
+  } catch (err) {
+    return { ok: false, status: 500, error: "Failed to consume item", cause: err };
+  }
+
+  const item = getItemByTokenId(BigInt(tokenId));
+  const itemName = item?.name ?? "Unknown";
+  const results: Record<string, unknown> = { ok: true, consumed: itemName, category: effect.category, tx: burnTx };
+
+  // Apply instant HP restore
+  if (effect.hpRestore && effect.hpRestore > 0) {
+    const healed = Math.min(effect.hpRestore, entity.maxHp - entity.hp);
+    entity.hp = Math.min(entity.maxHp, entity.hp + effect.hpRestore);
+    results.hpRestored = healed;
+    results.currentHp = entity.hp;
+    results.maxHp = entity.maxHp;
+  }
+
+  // Apply instant MP restore
+  if (effect.mpRestore && effect.mpRestore > 0 && entity.essence != null && entity.maxEssence != null) {
+    const restored = Math.min(effect.mpRestore, entity.maxEssence - entity.essence);
+    entity.essence = Math.min(entity.maxEssence, entity.essence + effect.mpRestore);
+    results.mpRestored = restored;
+    results.currentMp = entity.essence;
+    results.maxMp = entity.maxEssence;
+  }
+
+  // Apply buff as ActiveEffect
+  if (effect.buff) {
+    if (!entity.activeEffects) entity.activeEffects = [];
+
+    // Remove existing buff with same name (don't stack, refresh instead)
+    entity.activeEffects = entity.activeEffects.filter((e) => e.name !== effect.buff!.name);
+
+    entity.activeEffects.push({
+      id: randomUUID(),
+      techniqueId: `potion-${tokenId}`,
+      name: effect.buff.name,
+      type: effect.buff.type,
+      casterId: entity.id,
+      appliedAtTick: tick,
+      durationTicks: effect.buff.durationTicks,
+      remainingTicks: effect.buff.durationTicks,
+      ...(effect.buff.statModifiers && { statModifiers: effect.buff.statModifiers }),
+      ...(effect.buff.hotHealPerTick && { hotHealPerTick: effect.buff.hotHealPerTick }),
+      ...(effect.buff.shieldHp && { shieldHp: effect.buff.shieldHp, shieldMaxHp: effect.buff.shieldHp }),
+    });
+
+    results.buffApplied = {
+      name: effect.buff.name,
+      durationSeconds: Math.round(effect.buff.durationTicks / 2), // 500ms ticks
+      ...(effect.buff.statModifiers && { statModifiers: effect.buff.statModifiers }),
+      ...(effect.xpMultiplier && { xpMultiplier: effect.xpMultiplier }),
+      ...(effect.elementResist && { elementResist: effect.elementResist }),
+    };
+  }
+
+  // Log zone event
+  logZoneEvent({
+    zoneId,
+    type: "consume",
+    tick,
+    message: `${entity.name} consumed ${itemName}`,
+    entityId: entity.id,
+    entityName: entity.name,
+    data: {
+      itemName,
+      consumeType: effect.category,
+      hpRestored: (results.hpRestored as number) ?? 0,
+      mpRestored: (results.mpRestored as number) ?? 0,
+      buffName: effect.buff?.name,
+    },
+  });
+
+  // Log diary
+  const hpRestored = (results.hpRestored as number) ?? 0;
+  const { headline, narrative } = narrativeConsume(entity.name, entity.raceId, entity.classId, zoneId, itemName, hpRestored);
+  logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "consume", headline, narrative, {
+    itemName,
+    category: effect.category,
+    ...(effect.buff && { buffName: effect.buff.name }),
+    ...(effect.xpMultiplier && { xpMultiplier: effect.xpMultiplier }),
+  });
+
+  return { ok: true, itemName, burnTx, results };
+}
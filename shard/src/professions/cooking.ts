@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { getEntity, getOrCreateZone } from "../world/zoneRuntime.js";
+import { getEntity, getOrCreateZone, type Entity } from "../world/zoneRuntime.js";
 import { enqueueItemBurn, enqueueItemMint } from "../blockchain/blockchain.js";
 import { hasLearnedProfession } from "./professions.js";
 import { reputationManager, ReputationCategory } from "../economy/reputationManager.js";
@@ -10,6 +10,7 @@ import { logDiary, narrativeCook, narrativeConsume } from "../social/diary.js";
 import { awardProfessionXp, PROFESSION_XP, getProfessionSkills, rollFailure } from "./professionXp.js";
 import { advanceGatherQuests } from "../social/questSystem.js";
 import { logZoneEvent } from "../world/zoneEvents.js";
+import type { CraftingQueueDefinition } from "./craftingQueue.js";
 
 const COOKING_RANGE = 50;
 const lastCookTime = new Map<string, number>();
@@ -87,6 +88,85 @@ export const COOKING_RECIPES: CookingRecipe[] = [
   },
 ];
 
+/** Profession XP for a successful cook, by recipe tier. */
+function cookXpForRecipe(recipeId: string): number {
+  return recipeId === "cooked_meat"
+    ? PROFESSION_XP.COOK_TIER1
+    : recipeId === "hearty_stew"
+      ? PROFESSION_XP.COOK_TIER2
+      : PROFESSION_XP.COOK_TIER3;
+}
+
+/**
+ * Mint cooked food (ingredients already burned) and hand out XP, quest
+ * progress, reputation, zone event and diary entry.
+ */
+async function completeCook(
+  entity: Entity,
+  zoneId: string,
+  walletAddress: string,
+  recipe: CookingRecipe,
+  campfireName: string,
+) {
+  const cookTx = await enqueueItemMint(
+    walletAddress,
+    recipe.outputTokenId,
+    BigInt(recipe.outputQuantity)
+  );
+
+  const profXpResult = awardProfessionXp(entity, zoneId, cookXpForRecipe(recipe.recipeId), "cooking", recipe.name);
+
+  advanceGatherQuests(entity, recipe.name);
+
+  if (entity.agentId != null) {
+    reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 1, `Crafted: ${recipe.name}`);
+  }
+  console.log(
+    `[cooking] ${entity.name} cooked ${recipe.name} at ${campfireName} → ${cookTx}`
+  );
+
+  // Emit zone event for client speech bubbles
+  logZoneEvent({
+    zoneId,
+    type: "loot",
+    tick: 0,
+    message: `${entity.name}: Cooked ${recipe.name}`,
+    entityId: entity.id,
+    entityName: entity.name,
+    data: { craftType: "cooking", itemName: recipe.name, recipeId: recipe.recipeId },
+  });
+
+  // Log cook diary entry
+  const { headline, narrative } = narrativeCook(entity.name, entity.raceId, entity.classId, zoneId, recipe.name, campfireName);
+  logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "cook", headline, narrative, {
+    recipeName: recipe.name,
+    campfireName,
+    hpRestoration: recipe.hpRestoration,
+  });
+
+  return { cookTx, profXpResult };
+}
+
+export const COOKING_QUEUE: CraftingQueueDefinition = {
+  profession: "cooking",
+  stationType: "campfire",
+  stationName: "Campfire",
+  stationRange: COOKING_RANGE,
+  xpLabel: "cooking",
+  getRecipe(recipeId) {
+    const recipe = COOKING_RECIPES.find((r) => r.recipeId === recipeId);
+    return recipe && { ...recipe, copperCost: 0, craftingTime: recipe.cookingTime };
+  },
+  craftXp: cookXpForRecipe,
+  chargesCopper: false,
+  failureMessage: "The food burned on the fire.",
+  async completeCraft(entity, zoneId, recipeId, stationName) {
+    const recipe = COOKING_RECIPES.find((r) => r.recipeId === recipeId)!;
+    await completeCook(entity, zoneId, entity.walletAddress!, recipe, stationName);
+    return recipe.name;
+  },
+};
+
 export function registerCookingRoutes(server: FastifyInstance) {
   // GET /cooking/recipes - list all cooking recipes
   server.get("/cooking/recipes", async () => {
@@ -196,15 +276,10 @@ export function registerCookingRoutes(server: FastifyInstance) {
     }
 
     // Roll for failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel, entity.region);
     if (failed) {
       lastCookTime.set(walletAddress.toLowerCase(), Date.now());
-      const halfXp = recipeId === "cooked_meat"
-        ? Math.floor(PROFESSION_XP.COOK_TIER1 / 2)
-        : recipeId === "hearty_stew"
-          ? Math.floor(PROFESSION_XP.COOK_TIER2 / 2)
-          : Math.floor(PROFESSION_XP.COOK_TIER3 / 2);
-      awardProfessionXp(entity, zoneId, halfXp, "cooking");
+      awardProfessionXp(entity, zoneId, Math.floor(cookXpForRecipe(recipeId) / 2), "cooking");
       return {
         ok: false,
         failed: true,
@@ -242,49 +317,7 @@ export function registerCookingRoutes(server: FastifyInstance) {
 
     // Mint cooked food
     try {
-      const cookTx = await enqueueItemMint(
-        walletAddress,
-        recipe.outputTokenId,
-        BigInt(recipe.outputQuantity)
-      );
-
-      // Award profession XP based on recipe tier
-      const cookXp = recipeId === "cooked_meat"
-        ? PROFESSION_XP.COOK_TIER1
-        : recipeId === "hearty_stew"
-          ? PROFESSION_XP.COOK_TIER2
-          : PROFESSION_XP.COOK_TIER3;
-      const profXpResult = awardProfessionXp(entity, zoneId, cookXp, "cooking", recipe.name);
-
-      advanceGatherQuests(entity, recipe.name);
-
-      if (entity.agentId != null) {
-        reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 1, `Crafted: ${recipe.name}`);
-      }
-      server.log.info(
-        `[cooking] ${entity.name} cooked ${recipe.name} at ${campfire.name} → ${cookTx}`
-      );
-
-      // Emit zone event for client speech bubbles
-      logZoneEvent({
-        zoneId,
-        type: "loot",
-        tick: 0,
-        message: `${entity.name}: Cooked ${recipe.name}`,
-        entityId: entity.id,
-        entityName: entity.name,
-        data: { craftType: "cooking", itemName: recipe.name, recipeId },
-      });
-
-      // Log cook diary entry
-      if (walletAddress) {
-        const { headline, narrative } = narrativeCook(entity.name, entity.raceId, entity.classId, zoneId, recipe.name, campfire.name);
-        logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "cook", headline, narrative, {
-          recipeName: recipe.name,
-          campfireName: campfire.name,
-          hpRestoration: recipe.hpRestoration,
-        });
-      }
+      const { cookTx, profXpResult } = await completeCook(entity, zoneId, walletAddress, recipe, campfire.name);
 
       lastCookTime.set(walletAddress.toLowerCase(), Date.now());
 
@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { getEntity } from "../world/zoneRuntime.js";
+import { getEntity, type Entity } from "../world/zoneRuntime.js";
 import { hasLearnedProfession } from "./professions.js";
 import { enqueueItemMint, enqueueItemBurn, getItemBalance, getGoldBalance } from "../blockchain/blockchain.js";
 import { getAvailableGoldAsync, formatGold, recordGoldSpendAsync } from "../blockchain/goldLedger.js";
@@ -12,6 +12,7 @@ import { copperToGold } from "../blockchain/currency.js";
 import { awardProfessionXp, PROFESSION_XP, getProfessionSkills, rollFailure } from "./professionXp.js";
 import { reputationManager, ReputationCategory } from "../economy/reputationManager.js";
 import { advanceGatherQuests } from "../social/questSystem.js";
+import type { CraftingQueueDefinition } from "./craftingQueue.js";
 
 const lastCraftTime = new Map<string, number>();
 
@@ -23,7 +24,7 @@ export interface CraftingRecipe {
   copperCost: number;
   requiredProfession: "blacksmithing" | "alchemy" | "leatherworking" | "jewelcrafting";
   requiredSkillLevel: number; // profession skill level (1-300) needed to craft
-  craftingTime: number; // seconds (for future use)
+  craftingTime: number; // seconds per craft (queued crafts; also the single-craft cooldown)
 }
 
 export const CRAFTING_RECIPES: CraftingRecipe[] = [
@@ -622,6 +623,104 @@ export function getRecipeById(recipeId: string): CraftingRecipe | undefined {
   return CRAFTING_RECIPES.find((r) => r.recipeId === recipeId);
 }
 
+/** Profession XP for a successful forge: smelting < weapons < bars. */
+function forgeXpForRecipe(recipeId: string): number {
+  return recipeId.startsWith("smelt-")
+    ? PROFESSION_XP.FORGE_SMELT
+    : recipeId.startsWith("bar-")
+      ? PROFESSION_XP.FORGE_ADVANCED
+      : PROFESSION_XP.FORGE_WEAPON;
+}
+
+/**
+ * Mint a forged item (materials already paid) and hand out its quality
+ * roll, XP, quest progress, reputation, zone event and diary entry.
+ */
+async function completeForgeCraft(
+  entity: Entity,
+  zoneId: string,
+  walletAddress: string,
+  recipe: CraftingRecipe,
+  forgeName: string,
+) {
+  const craftTx = await enqueueItemMint(
+    walletAddress,
+    recipe.outputTokenId,
+    BigInt(recipe.outputQuantity)
+  );
+
+  const outputItem = getItemByTokenId(recipe.outputTokenId);
+
+  // Roll RNG stats for weapons/armor
+  const instance = rollCraftedItem({
+    baseTokenId: recipe.outputTokenId,
+    recipeId: recipe.recipeId,
+    craftedBy: walletAddress,
+    zoneId: entity.region,
+  });
+
+  // Emit zone event for client speech bubbles
+  logZoneEvent({
+    zoneId,
+    type: "loot",
+    tick: 0,
+    message: instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")
+      ? `${entity.name} forged a ${instance.quality.tier} item: ${instance.displayName}!`
+      : `${entity.name}: Forged ${outputItem?.name ?? "an item"}`,
+    entityId: entity.id,
+    entityName: entity.name,
+    data: {
+      craftType: "crafting",
+      itemName: instance?.displayName ?? outputItem?.name ?? "an item",
+      recipeId: recipe.recipeId,
+      ...(instance && { quality: instance.quality.tier, instanceId: instance.instanceId }),
+    },
+  });
+
+  advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
+
+  if (entity.agentId != null) {
+    reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 2, `Crafted: ${instance?.displayName ?? outputItem?.name ?? recipe.recipeId}`);
+  }
+  console.log(
+    `[crafting] ${entity.name} forged ${instance?.displayName ?? outputItem?.name} (${instance?.quality.tier ?? "n/a"}) at ${forgeName} → ${craftTx}`
+  );
+
+  const profXpResult = awardProfessionXp(entity, zoneId, forgeXpForRecipe(recipe.recipeId), "crafting", outputItem?.name);
+
+  // Log craft diary entry
+  const craftedName = instance?.displayName ?? outputItem?.name ?? "Unknown";
+  const { headline, narrative } = narrativeCraft(entity.name, entity.raceId, entity.classId, zoneId, craftedName, forgeName);
+  logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "craft", headline, narrative, {
+    recipeId: recipe.recipeId,
+    itemName: craftedName,
+    quality: instance?.quality.tier,
+    stationName: forgeName,
+  });
+
+  return { craftTx, outputItem, instance, profXpResult };
+}
+
+export const BLACKSMITHING_QUEUE: CraftingQueueDefinition = {
+  profession: "blacksmithing",
+  stationType: "forge",
+  stationName: "Forge",
+  stationRange: 100,
+  xpLabel: "crafting",
+  getRecipe(recipeId) {
+    const recipe = getRecipeById(recipeId);
+    return recipe?.requiredProfession === "blacksmithing" ? recipe : undefined;
+  },
+  craftXp: forgeXpForRecipe,
+  chargesCopper: true,
+  failureMessage: "The metal warped during forging.",
+  async completeCraft(entity, zoneId, recipeId, stationName) {
+    const recipe = getRecipeById(recipeId)!;
+    const { instance, outputItem } = await completeForgeCraft(entity, zoneId, entity.walletAddress!, recipe, stationName);
+    return instance?.displayName ?? outputItem?.name ?? recipeId;
+  },
+};
+
 export function registerCraftingRoutes(server: FastifyInstance) {
   // GET /crafting/recipes - list all crafting recipes
   server.get("/crafting/recipes", async () => {
@@ -762,15 +861,10 @@ export function registerCraftingRoutes(server: FastifyInstance) {
     }
 
     // Roll for failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel, entity.region);
     if (failed) {
       lastCraftTime.set(walletAddress.toLowerCase(), Date.now());
-      const halfXp = recipeId.startsWith("smelt-")
-        ? Math.floor(PROFESSION_XP.FORGE_SMELT / 2)
-        : recipeId.startsWith("bar-")
-          ? Math.floor(PROFESSION_XP.FORGE_ADVANCED / 2)
-          : Math.floor(PROFESSION_XP.FORGE_WEAPON / 2);
-      awardProfessionXp(entity, zoneId, halfXp, "crafting");
+      awardProfessionXp(entity, zoneId, Math.floor(forgeXpForRecipe(recipeId) / 2), "crafting");
       return {
         ok: false,
         failed: true,
@@ -856,68 +950,14 @@ export function registerCraftingRoutes(server: FastifyInstance) {
 
     // Mint crafted item
     try {
-      const craftTx = await enqueueItemMint(
-        walletAddress,
-        recipe.outputTokenId,
-        BigInt(recipe.outputQuantity)
-      );
-
-      const outputItem = getItemByTokenId(recipe.outputTokenId);
-
-      // Roll RNG stats for weapons/armor
-      const instance = rollCraftedItem({
-        baseTokenId: recipe.outputTokenId,
-        recipeId: recipe.recipeId,
-        craftedBy: walletAddress,
-      });
-
-      // Emit zone event for client speech bubbles
-      logZoneEvent({
+      const { craftTx, outputItem, instance, profXpResult } = await completeForgeCraft(
+        entity,
         zoneId,
-        type: "loot",
-        tick: 0,
-        message: instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")
-          ? `${entity.name} forged a ${instance.quality.tier} item: ${instance.displayName}!`
-          : `${entity.name}: Forged ${outputItem?.name ?? "an item"}`,
-        entityId: entity.id,
-        entityName: entity.name,
-        data: {
-          craftType: "crafting",
-          itemName: instance?.displayName ?? outputItem?.name ?? "an item",
-          recipeId,
-          ...(instance && { quality: instance.quality.tier, instanceId: instance.instanceId }),
-        },
-      });
-
-      advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
-
-      if (entity.agentId != null) {
-        reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 2, `Crafted: ${instance?.displayName ?? outputItem?.name ?? recipeId}`);
-      }
-      server.log.info(
-        `[crafting] ${entity.name} forged ${instance?.displayName ?? outputItem?.name} (${instance?.quality.tier ?? "n/a"}) at ${forge.name} → ${craftTx}`
+        walletAddress,
+        recipe,
+        forge.name,
       );
 
-      // Award profession XP based on recipe type
-      const craftXp = recipeId.startsWith("smelt-")
-        ? PROFESSION_XP.FORGE_SMELT
-        : recipeId.startsWith("bar-")
-          ? PROFESSION_XP.FORGE_ADVANCED
-          : PROFESSION_XP.FORGE_WEAPON;
-      const profXpResult = awardProfessionXp(entity, zoneId, craftXp, "crafting", outputItem?.name);
-
-      // Log craft diary entry
-      if (walletAddress) {
-        const craftedName = instance?.displayName ?? outputItem?.name ?? "Unknown";
-        const { headline, narrative } = narrativeCraft(entity.name, entity.raceId, entity.classId, zoneId, craftedName, forge.name);
-        logDiary(walletAddress, entity.name, zoneId, entity.x, entity.y, "craft", headline, narrative, {
-          recipeId: recipe.recipeId,
-          itemName: craftedName,
-          quality: instance?.quality.tier,
-          stationName: forge.name,
-        });
-      }
-
       lastCraftTime.set(walletAddress.toLowerCase(), Date.now());
 
       return {
@@ -935,6 +975,8 @@ export function registerCraftingRoutes(server: FastifyInstance) {
             displayName: instance.displayName,
             rolledStats: instance.rolledStats,
             bonusAffix: instance.bonusAffix,
+            affixes: instance.affixes,
+            sockets: instance.sockets,
             rolledMaxDurability: instance.rolledMaxDurability,
           }),
         },
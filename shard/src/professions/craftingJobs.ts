@@ -0,0 +1,179 @@
+// Pure bookkeeping for queued batch crafts. The queue service owns the
+// chain calls and the world tick; everything here is plain data so it can
+// be tested without a shard.
+
+export type CraftingQueueProfession =
+  | "blacksmithing"
+  | "alchemy"
+  | "cooking"
+  | "leatherworking"
+  | "jewelcrafting";
+
+export const CRAFTING_QUEUE_PROFESSIONS: CraftingQueueProfession[] = [
+  "blacksmithing",
+  "alchemy",
+  "cooking",
+  "leatherworking",
+  "jewelcrafting",
+];
+
+export interface CraftingMaterial {
+  tokenId: bigint;
+  quantity: number;
+}
+
+export interface CraftingJobStation {
+  id: string;
+  name: string;
+  zoneId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * One queued batch: `quantity` crafts of a single recipe at one station.
+ * Materials and gold for every craft are escrowed when the job is queued;
+ * whatever was not turned into a successful craft is handed back when the
+ * job ends.
+ */
+export interface CraftingJob {
+  jobId: string;
+  profession: CraftingQueueProfession;
+  recipeId: string;
+  quantity: number;
+  succeeded: number;
+  failed: number;
+  /** Ticks (seconds) spent on the craft in progress. */
+  progressTicks: number;
+  /** Seconds per craft, copied from the recipe when queued. */
+  craftingTime: number;
+  paused: boolean;
+  station: CraftingJobStation;
+  /** Gold reserved per craft; 0 for professions that don't charge copper. */
+  goldPerCraft: number;
+  /**
+   * Materials burned into escrow for the whole batch (tokenId as a string so
+   * the queue stays JSON). Jobs saved before this was recorded fall back to
+   * the recipe.
+   */
+  escrowedMaterials?: Array<{ tokenId: string; quantity: number }>;
+  createdAt: number;
+}
+
+/** Jobs a character can have queued at once, across all professions. */
+export const MAX_QUEUED_JOBS = 5;
+/** Crafts per job. */
+export const MAX_BATCH_QUANTITY = 20;
+
+export function validateBatchQuantity(raw: unknown): { valid: true; quantity: number } | { valid: false; error: string } {
+  const quantity = raw == null ? 1 : Number(raw);
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_BATCH_QUANTITY) {
+    return { valid: false, error: `quantity must be a whole number from 1 to ${MAX_BATCH_QUANTITY}` };
+  }
+  return { valid: true, quantity };
+}
+
+/** Materials for `count` crafts, merged per token. */
+export function batchMaterials(materials: CraftingMaterial[], count: number): CraftingMaterial[] {
+  const totals = new Map<bigint, number>();
+  for (const material of materials) {
+    totals.set(material.tokenId, (totals.get(material.tokenId) ?? 0) + material.quantity * count);
+  }
+  return Array.from(totals, ([tokenId, quantity]) => ({ tokenId, quantity })).filter((m) => m.quantity > 0);
+}
+
+export function isJobDone(job: CraftingJob): boolean {
+  return job.succeeded + job.failed >= job.quantity;
+}
+
+/**
+ * Escrow still held for a job: every craft that has not succeeded. Failed
+ * crafts refund their materials and gold, like a failed single craft. Items
+ * come from what the job actually escrowed, never more.
+ */
+export function getUnspentEscrow(
+  job: CraftingJob,
+  materials: CraftingMaterial[],
+): { gold: number; items: CraftingMaterial[] } {
+  const unspent = Math.max(0, job.quantity - job.succeeded);
+  if (!job.escrowedMaterials) {
+    return { gold: job.goldPerCraft * unspent, items: batchMaterials(materials, unspent) };
+  }
+  const items = job.quantity > 0
+    ? job.escrowedMaterials
+      .map((m) => ({ tokenId: BigInt(m.tokenId), quantity: Math.floor((m.quantity * unspent) / job.quantity) }))
+      .filter((m) => m.quantity > 0)
+    : [];
+  return { gold: job.goldPerCraft * unspent, items };
+}
+
+/** The job the world tick works on: the oldest one that isn't paused. */
+export function getActiveJob(queue: CraftingJob[] | undefined): CraftingJob | undefined {
+  return queue?.find((job) => !job.paused && !isJobDone(job));
+}
+
+/** Crafting only progresses while the player stays at the station. */
+export function isAtStation(
+  position: { x: number; y: number; region?: string },
+  station: CraftingJobStation,
+  range: number,
+): boolean {
+  if (position.region !== station.zoneId) return false;
+  const dx = station.x - position.x;
+  const dy = station.y - position.y;
+  return Math.sqrt(dx * dx + dy * dy) <= range;
+}
+
+export function toPublicJob(job: CraftingJob, atStation: boolean) {
+  const remaining = Math.max(0, job.quantity - job.succeeded - job.failed);
+  return {
+    jobId: job.jobId,
+    profession: job.profession,
+    recipeId: job.recipeId,
+    quantity: job.quantity,
+    succeeded: job.succeeded,
+    failed: job.failed,
+    remaining,
+    paused: job.paused,
+    atStation,
+    station: { id: job.station.id, name: job.station.name, zoneId: job.station.zoneId },
+    currentCraftProgress: job.craftingTime > 0 ? Math.min(1, job.progressTicks / job.craftingTime) : 0,
+    secondsRemaining: remaining > 0 ? remaining * job.craftingTime - job.progressTicks : 0,
+    createdAt: job.createdAt,
+  };
+}
+
+/** Keeps only well-formed jobs when restoring a saved queue. */
+export function parseCraftingQueue(raw: unknown): CraftingJob[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((entry): entry is Record<string, any> => entry != null && typeof entry === "object")
+    .filter((entry) => CRAFTING_QUEUE_PROFESSIONS.includes(entry.profession) && typeof entry.jobId === "string")
+    .map((entry) => ({
+      jobId: String(entry.jobId),
+      profession: entry.profession as CraftingQueueProfession,
+      recipeId: String(entry.recipeId ?? ""),
+      quantity: Number(entry.quantity) || 0,
+      succeeded: Number(entry.succeeded) || 0,
+      failed: Number(entry.failed) || 0,
+      progressTicks: Number(entry.progressTicks) || 0,
+      craftingTime: Number(entry.craftingTime) || 0,
+      paused: entry.paused === true,
+      station: {
+        id: String(entry.station?.id ?? ""),
+        name: String(entry.station?.name ?? ""),
+        zoneId: String(entry.station?.zoneId ?? ""),
+        x: Number(entry.station?.x) || 0,
+        y: Number(entry.station?.y) || 0,
+      },
+      goldPerCraft: Number(entry.goldPerCraft) || 0,
+      ...(Array.isArray(entry.escrowedMaterials)
+        ? {
+          escrowedMaterials: entry.escrowedMaterials
+            .filter((m: any) => m != null && /^\d+$/.test(String(m.tokenId)))
+            .map((m: any) => ({ tokenId: String(m.tokenId), quantity: Math.max(0, Math.floor(Number(m.quantity) || 0)) })),
+        }
+        : {}),
+      createdAt: Number(entry.createdAt) || 0,
+    }));
+}
@@ -0,0 +1,437 @@
+import type { FastifyInstance } from "fastify";
+import { randomUUID } from "crypto";
+import { authenticateRequest } from "../auth/auth.js";
+import { getAllEntities, getEntity, registerWorldTickListener, type Entity } from "../world/zoneRuntime.js";
+import { logZoneEvent } from "../world/zoneEvents.js";
+import { enqueueItemBurn, enqueueItemMint, getGoldBalance, getItemBalance } from "../blockchain/blockchain.js";
+import {
+  formatGold,
+  getAvailableGoldAsync,
+  recordGoldSpendAsync,
+  reserveGoldAsync,
+  unreserveGoldAsync,
+} from "../blockchain/goldLedger.js";
+import { copperToGold } from "../blockchain/currency.js";
+import { saveCharacter } from "../character/characterStore.js";
+import { hasLearnedProfession } from "./professions.js";
+import { withWalletItemLock } from "../items/walletItemLock.js";
+import { awardProfessionXp, getProfessionSkills, rollFailure } from "./professionXp.js";
+import { BLACKSMITHING_QUEUE } from "./crafting.js";
+import { ALCHEMY_QUEUE } from "./alchemy.js";
+import { COOKING_QUEUE } from "./cooking.js";
+import { LEATHERWORKING_QUEUE } from "./leatherworking.js";
+import { JEWELCRAFTING_QUEUE } from "./jewelcrafting.js";
+import {
+  CRAFTING_QUEUE_PROFESSIONS,
+  MAX_QUEUED_JOBS,
+  batchMaterials,
+  getActiveJob,
+  getUnspentEscrow,
+  isAtStation,
+  isJobDone,
+  toPublicJob,
+  validateBatchQuantity,
+  type CraftingJob,
+  type CraftingMaterial,
+  type CraftingQueueProfession,
+} from "./craftingJobs.js";
+
+// Batch crafting: a player queues N crafts of one recipe at a station. All
+// materials (and gold, where the profession charges it) are escrowed up
+// front, then each craft takes the recipe's crafting time in world ticks
+// while the player stays at the station. Failed crafts and anything left
+// when a job is cancelled are refunded. Enchanting is not queueable — it
+// works on a specific equipped item rather than producing one.
+
+export interface CraftingQueueRecipe {
+  recipeId: string;
+  requiredMaterials: CraftingMaterial[];
+  copperCost: number;
+  requiredSkillLevel: number;
+  /** Seconds per craft. */
+  craftingTime: number;
+}
+
+/** How a crafting profession plugs into the queue. */
+export interface CraftingQueueDefinition {
+  profession: CraftingQueueProfession;
+  stationType: string;
+  stationName: string;
+  stationRange: number;
+  /** Profession label passed to awardProfessionXp. */
+  xpLabel: string;
+  getRecipe(recipeId: string): CraftingQueueRecipe | undefined;
+  craftXp(recipeId: string): number;
+  chargesCopper: boolean;
+  failureMessage: string;
+  /** Mints the output and runs the profession's success side-effects; returns the crafted item's display name. */
+  completeCraft(entity: Entity, zoneId: string, recipeId: string, stationName: string): Promise<string>;
+}
+
+const QUEUE_DEFINITIONS: Record<CraftingQueueProfession, CraftingQueueDefinition> = {
+  blacksmithing: BLACKSMITHING_QUEUE,
+  alchemy: ALCHEMY_QUEUE,
+  cooking: COOKING_QUEUE,
+  leatherworking: LEATHERWORKING_QUEUE,
+  jewelcrafting: JEWELCRAFTING_QUEUE,
+};
+
+/** Jobs whose current craft is being minted — the tick and cancel leave them alone. */
+const finishing = new Set<string>();
+
+function persistQueue(entity: Entity): void {
+  if (!entity.walletAddress) return;
+  saveCharacter(entity.walletAddress, entity.name, { craftingQueue: entity.craftingQueue ?? [] }).catch((err) => {
+    console.warn(`[crafting-queue] Failed to save queue for ${entity.name}:`, err);
+  });
+}
+
+function isEntityAtJobStation(entity: Entity, job: CraftingJob): boolean {
+  return isAtStation(entity, job.station, QUEUE_DEFINITIONS[job.profession].stationRange);
+}
+
+/** Hand back whatever the job still holds in escrow and drop it from the queue. */
+async function endJob(entity: Entity, job: CraftingJob, reason: "finished" | "cancelled"): Promise<void> {
+  entity.craftingQueue = (entity.craftingQueue ?? []).filter((j) => j.jobId !== job.jobId);
+  persistQueue(entity);
+
+  const wallet = entity.walletAddress!;
+  const recipe = QUEUE_DEFINITIONS[job.profession].getRecipe(job.recipeId);
+  const escrow = getUnspentEscrow(job, recipe?.requiredMaterials ?? []);
+  try {
+    if (escrow.gold > 0) await unreserveGoldAsync(wallet, escrow.gold);
+    for (const item of escrow.items) {
+      await enqueueItemMint(wallet, item.tokenId, BigInt(item.quantity));
+    }
+  } catch (err) {
+    console.error(`[crafting-queue] CRITICAL: failed to refund escrow for job ${job.jobId} (${wallet}):`, err);
+  }
+
+  console.log(
+    `[crafting-queue] ${entity.name} ${reason} ${job.profession} job ${job.recipeId}: ${job.succeeded}/${job.quantity} crafted, ${job.failed} failed`
+  );
+}
+
+/** Resolve the craft in progress: roll for failure, then mint or refund. */
+async function finishCraft(entity: Entity, job: CraftingJob): Promise<void> {
+  const definition = QUEUE_DEFINITIONS[job.profession];
+  const recipe = definition.getRecipe(job.recipeId);
+  const wallet = entity.walletAddress!;
+  const zoneId = entity.region ?? job.station.zoneId;
+  job.progressTicks = 0;
+
+  if (!recipe) {
+    job.failed = job.quantity - job.succeeded;
+  } else {
+    const currentSkillLevel = getProfessionSkills(wallet)[job.profession]?.level ?? 1;
+    const { failed } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel, zoneId);
+    if (failed) {
+      job.failed++;
+      awardProfessionXp(entity, zoneId, Math.floor(definition.craftXp(job.recipeId) / 2), definition.xpLabel);
+      logZoneEvent({
+        zoneId,
+        type: "loot",
+        tick: 0,
+        message: `${entity.name}: ${definition.failureMessage}`,
+        entityId: entity.id,
+        entityName: entity.name,
+        data: { craftType: job.profession, recipeId: job.recipeId, failed: true, queued: true },
+      });
+    } else {
+      try {
+        await definition.completeCraft(entity, zoneId, job.recipeId, job.station.name);
+        job.succeeded++;
+        if (job.goldPerCraft > 0) {
+          await unreserveGoldAsync(wallet, job.goldPerCraft);
+          await recordGoldSpendAsync(wallet, job.goldPerCraft);
+        }
+      } catch (err) {
+        job.failed++;
+        console.error(`[crafting-queue] Failed to complete ${job.recipeId} for ${wallet}:`, err);
+      }
+    }
+  }
+
+  if (isJobDone(job)) {
+    await endJob(entity, job, "finished");
+  } else {
+    persistQueue(entity);
+  }
+}
+
+function tickCraftingQueues(): void {
+  for (const entity of getAllEntities().values()) {
+    if (entity.type !== "player" || !entity.walletAddress || !entity.craftingQueue?.length) continue;
+    const job = getActiveJob(entity.craftingQueue);
+    if (!job || finishing.has(job.jobId) || !isEntityAtJobStation(entity, job)) continue;
+
+    job.progressTicks++;
+    if (job.progressTicks < job.craftingTime) continue;
+
+    finishing.add(job.jobId);
+    void finishCraft(entity, job)
+      .catch((err) => console.error(`[crafting-queue] Tick failed for job ${job.jobId}:`, err))
+      .finally(() => finishing.delete(job.jobId));
+  }
+}
+
+/** Resolves the caller's entity and job for the cancel/pause/resume routes. */
+function findOwnJob(
+  request: { body: { walletAddress: string; entityId: string; jobId: string } },
+  authenticatedWallet: string,
+): { entity: Entity; job: CraftingJob } | { status: number; error: string } {
+  const { walletAddress, entityId, jobId } = request.body;
+  if (!walletAddress || walletAddress.toLowerCase() !== authenticatedWallet.toLowerCase()) {
+    return { status: 403, error: "Not authorized to use this wallet" };
+  }
+  const entity = getEntity(entityId);
+  if (!entity || entity.walletAddress?.toLowerCase() !== walletAddress.toLowerCase()) {
+    return { status: 404, error: "Entity not found" };
+  }
+  const job = entity.craftingQueue?.find((j) => j.jobId === jobId);
+  if (!job) return { status: 404, error: "Crafting job not found" };
+  return { entity, job };
+}
+
+export function registerCraftingQueue(server: FastifyInstance): void {
+  const unsubscribe = registerWorldTickListener(() => tickCraftingQueues());
+  server.addHook("onClose", async () => {
+    unsubscribe();
+  });
+
+  // GET /crafting/queue/:entityId — queue with per-job progress
+  server.get<{ Params: { entityId: string } }>("/crafting/queue/:entityId", async (request, reply) => {
+    const entity = getEntity(request.params.entityId);
+    if (!entity) {
+      reply.code(404);
+      return { error: "Entity not found" };
+    }
+    const active = getActiveJob(entity.craftingQueue);
+    return {
+      entityId: entity.id,
+      activeJobId: active?.jobId ?? null,
+      jobs: (entity.craftingQueue ?? []).map((job) => toPublicJob(job, isEntityAtJobStation(entity, job))),
+    };
+  });
+
+  // POST /crafting/queue — queue a batch of crafts, escrowing everything up front
+  server.post<{
+    Body: {
+      walletAddress: string;
+      entityId: string;
+      profession: CraftingQueueProfession;
+      recipeId: string;
+      stationId: string;
+      quantity?: number;
+    };
+  }>("/crafting/queue", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => withWalletItemLock(String(request.body.walletAddress ?? ""), async () => {
+    // Serialized per wallet: the balance checks below must still hold when the escrow burns run
+    const { walletAddress, entityId, profession, recipeId, stationId } = request.body;
+    const authenticatedWallet = (request as any).walletAddress;
+
+    if (!walletAddress || !/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      reply.code(400);
+      return { error: "Invalid wallet address" };
+    }
+    if (walletAddress.toLowerCase() !== authenticatedWallet.toLowerCase()) {
+      reply.code(403);
+      return { error: "Not authorized to use this wallet" };
+    }
+
+    if (!CRAFTING_QUEUE_PROFESSIONS.includes(profession)) {
+      reply.code(400);
+      return { error: `profession must be one of: ${CRAFTING_QUEUE_PROFESSIONS.join(", ")}` };
+    }
+    const definition = QUEUE_DEFINITIONS[profession];
+
+    const quantityCheck = validateBatchQuantity(request.body.quantity);
+    if (!quantityCheck.valid) {
+      reply.code(400);
+      return { error: quantityCheck.error };
+    }
+    const { quantity } = quantityCheck;
+
+    const recipe = definition.getRecipe(recipeId);
+    if (!recipe) {
+      reply.code(404);
+      return { error: "Recipe not found" };
+    }
+
+    if (!hasLearnedProfession(walletAddress, profession)) {
+      reply.code(400);
+      return { error: `You must learn ${profession} to craft this item`, requiredProfession: profession };
+    }
+
+    const currentSkillLevel = getProfessionSkills(walletAddress)[profession]?.level ?? 1;
+    if (currentSkillLevel < recipe.requiredSkillLevel) {
+      reply.code(400);
+      return {
+        error: `${profession[0].toUpperCase()}${profession.slice(1)} skill too low for this recipe`,
+        requiredSkillLevel: recipe.requiredSkillLevel,
+        currentSkillLevel,
+      };
+    }
+
+    const entity = getEntity(entityId);
+    if (!entity || entity.walletAddress?.toLowerCase() !== walletAddress.toLowerCase()) {
+      reply.code(404);
+      return { error: "Entity not found" };
+    }
+
+    if ((entity.craftingQueue?.length ?? 0) >= MAX_QUEUED_JOBS) {
+      reply.code(400);
+      return { error: `You can have at most ${MAX_QUEUED_JOBS} crafting jobs queued` };
+    }
+
+    const station = getEntity(stationId);
+    if (!station || station.type !== definition.stationType) {
+      reply.code(404);
+      return { error: `${definition.stationName} not found` };
+    }
+    const stationRef = {
+      id: station.id,
+      name: station.name,
+      zoneId: station.region ?? entity.region ?? "",
+      x: station.x,
+      y: station.y,
+    };
+    if (!isAtStation(entity, stationRef, definition.stationRange)) {
+      reply.code(400);
+      return { error: `Too far from ${definition.stationName}`, maxRange: definition.stationRange };
+    }
+
+    // PRE-CHECK balances for the whole batch before escrowing anything
+    const goldPerCraft = definition.chargesCopper && recipe.copperCost > 0 ? copperToGold(recipe.copperCost) : 0;
+    const totalGold = goldPerCraft * quantity;
+    if (totalGold > 0) {
+      const onChainGold = parseFloat(await getGoldBalance(walletAddress));
+      const availableGold = await getAvailableGoldAsync(walletAddress, Number.isFinite(onChainGold) ? onChainGold : 0);
+      if (availableGold < totalGold) {
+        reply.code(400);
+        return {
+          error: "Insufficient gold for this batch",
+          required: formatGold(totalGold),
+          available: formatGold(availableGold),
+        };
+      }
+    }
+    const materials = batchMaterials(recipe.requiredMaterials, quantity);
+    for (const material of materials) {
+      const balance = await getItemBalance(walletAddress, material.tokenId);
+      if (balance < BigInt(material.quantity)) {
+        reply.code(400);
+        return {
+          error: "Insufficient materials for this batch",
+          missing: { tokenId: material.tokenId.toString(), need: material.quantity, have: Number(balance) },
+        };
+      }
+    }
+
+    // Escrow: reserve gold, burn materials; put back whatever was taken if any step fails
+    const burned: CraftingMaterial[] = [];
+    let reserved = false;
+    try {
+      if (totalGold > 0) {
+        await reserveGoldAsync(walletAddress, totalGold);
+        reserved = true;
+      }
+      for (const material of materials) {
+        await enqueueItemBurn(walletAddress, material.tokenId, BigInt(material.quantity));
+        burned.push(material);
+      }
+    } catch (err) {
+      server.log.error(err, `[crafting-queue] Failed to escrow materials for ${walletAddress}`);
+      try {
+        if (reserved) await unreserveGoldAsync(walletAddress, totalGold);
+        for (const material of burned) {
+          await enqueueItemMint(walletAddress, material.tokenId, BigInt(material.quantity));
+        }
+      } catch (restoreErr) {
+        console.error(`[crafting-queue] CRITICAL: failed to restore partial escrow for ${walletAddress}:`, restoreErr);
+      }
+      reply.code(500);
+      return { error: "Failed to reserve materials for the batch" };
+    }
+
+    const job: CraftingJob = {
+      jobId: randomUUID(),
+      profession,
+      recipeId: recipe.recipeId,
+      quantity,
+      succeeded: 0,
+      failed: 0,
+      progressTicks: 0,
+      craftingTime: recipe.craftingTime,
+      paused: false,
+      station: stationRef,
+      goldPerCraft,
+      escrowedMaterials: materials.map((m) => ({ tokenId: m.tokenId.toString(), quantity: m.quantity })),
+      createdAt: Date.now(),
+    };
+    entity.craftingQueue = [...(entity.craftingQueue ?? []), job];
+    persistQueue(entity);
+
+    server.log.info(`[crafting-queue] ${entity.name} queued ${quantity}x ${recipe.recipeId} at ${station.name}`);
+    return {
+      ok: true,
+      job: toPublicJob(job, true),
+      escrowed: {
+        gold: totalGold > 0 ? formatGold(totalGold) : "0",
+        materials: materials.map((m) => ({ tokenId: m.tokenId.toString(), quantity: m.quantity })),
+      },
+    };
+  }));
+
+  type JobActionBody = { walletAddress: string; entityId: string; jobId: string };
+
+  // POST /crafting/queue/cancel — stop a job and refund everything not yet crafted
+  server.post<{ Body: JobActionBody }>("/crafting/queue/cancel", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => withWalletItemLock(String(request.body.walletAddress ?? ""), async () => {
+    const found = findOwnJob(request, (request as any).walletAddress);
+    if ("error" in found) {
+      reply.code(found.status);
+      return { error: found.error };
+    }
+    const { entity, job } = found;
+    if (finishing.has(job.jobId)) {
+      reply.code(409);
+      return { error: "A craft is finishing right now; try again in a moment" };
+    }
+    const refunded = job.quantity - job.succeeded;
+    await endJob(entity, job, "cancelled");
+    return { ok: true, jobId: job.jobId, succeeded: job.succeeded, failed: job.failed, refundedCrafts: refunded };
+  }));
+
+  // POST /crafting/queue/pause — keep the escrow but stop progress
+  server.post<{ Body: JobActionBody }>("/crafting/queue/pause", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const found = findOwnJob(request, (request as any).walletAddress);
+    if ("error" in found) {
+      reply.code(found.status);
+      return { error: found.error };
+    }
+    const { entity, job } = found;
+    job.paused = true;
+    persistQueue(entity);
+    return { ok: true, job: toPublicJob(job, isEntityAtJobStation(entity, job)) };
+  });
+
+  // POST /crafting/queue/resume
+  server.post<{ Body: JobActionBody }>("/crafting/queue/resume", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const found = findOwnJob(request, (request as any).walletAddress);
+    if ("error" in found) {
+      reply.code(found.status);
+      return { error: found.error };
+    }
+    const { entity, job } = found;
+    job.paused = false;
+    persistQueue(entity);
+    return { ok: true, job: toPublicJob(job, isEntityAtJobStation(entity, job)) };
+  });
+}
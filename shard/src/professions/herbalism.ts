@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { getEntity, getAllEntities, getEntitiesInRegion, getWorldTick } from "../world/zoneRuntime.js";
+import { getEntity, getEntitiesForLookup, getWorldTick } from "../world/zoneRuntime.js";
 import { enqueueItemMint } from "../blockchain/blockchain.js";
 import { FLOWER_CATALOG } from "../resources/flowerCatalog.js";
 import { NECTAR_CATALOG } from "../resources/nectarCatalog.js";
@@ -39,13 +39,11 @@ export function registerHerbalismRoutes(server: FastifyInstance) {
   });
 
   // GET /herbalism/nodes - all flower nodes (optionally filtered by region)
-  server.get<{ Querystring: { region?: string } }>(
+  server.get<{ Querystring: { region?: string; x?: string; y?: string; radius?: string } }>(
     "/herbalism/nodes",
     async (request) => {
       const { region } = request.query;
-      const entities = region
-        ? getEntitiesInRegion(region)
-        : [...getAllEntities().values()];
+      const entities = getEntitiesForLookup(request.query);
 
       const flowerNodes = entities
         .filter((e) => e.type === "flower-node")
@@ -186,7 +184,7 @@ export function registerHerbalismRoutes(server: FastifyInstance) {
     }
 
     // Roll for gathering failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, flowerProps.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, flowerProps.requiredSkillLevel, entity.region);
     if (failed) {
       weaponEquipped.durability = Math.max(0, weaponEquipped.durability - 1);
       if (weaponEquipped.durability === 0) {
@@ -314,13 +312,11 @@ export function registerHerbalismRoutes(server: FastifyInstance) {
   });
 
   // GET /herbalism/nectars — all nectar nodes (optionally filtered by region)
-  server.get<{ Querystring: { region?: string } }>(
+  server.get<{ Querystring: { region?: string; x?: string; y?: string; radius?: string } }>(
     "/herbalism/nectars",
     async (request) => {
       const { region } = request.query;
-      const entities = region
-        ? getEntitiesInRegion(region)
-        : [...getAllEntities().values()];
+      const entities = getEntitiesForLookup(request.query);
 
       const nectarNodes = entities
         .filter((e) => e.type === "nectar-node")
@@ -460,7 +456,7 @@ export function registerHerbalismRoutes(server: FastifyInstance) {
     }
 
     // Roll for gathering failure
-    const { failed: nectarFailed, failChance: nectarFailChance } = rollFailure(nectarSkillLevel, nectarProps.requiredSkillLevel);
+    const { failed: nectarFailed, failChance: nectarFailChance } = rollFailure(nectarSkillLevel, nectarProps.requiredSkillLevel, entity.region);
     if (nectarFailed) {
       weaponEquipped.durability = Math.max(0, weaponEquipped.durability - 1);
       if (weaponEquipped.durability === 0) {
@@ -1,6 +1,6 @@
 import type { FastifyInstance } from "fastify";
 import { authenticateRequest } from "../auth/auth.js";
-import { getEntity } from "../world/zoneRuntime.js";
+import { getEntity, type Entity } from "../world/zoneRuntime.js";
 import { hasLearnedProfession } from "./professions.js";
 import { enqueueItemMint, enqueueItemBurn } from "../blockchain/blockchain.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
@@ -9,6 +9,7 @@ import { logZoneEvent } from "../world/zoneEvents.js";
 import { awardProfessionXp, PROFESSION_XP, getProfessionSkills, rollFailure } from "./professionXp.js";
 import { reputationManager, ReputationCategory } from "../economy/reputationManager.js";
 import { advanceGatherQuests } from "../social/questSystem.js";
+import type { CraftingQueueDefinition } from "./craftingQueue.js";
 
 const lastCraftTime = new Map<string, number>();
 
@@ -97,6 +98,73 @@ export const JEWELCRAFTING_RECIPES: JewelcraftingRecipe[] = [
     requiredSkillLevel: 100,
     craftingTime: 48,
   },
+  // --- Gem cutting: rough gems → socketable cut gems ---
+  {
+    recipeId: "cut-ruby",
+    outputTokenId: 250n, // Cut Ruby
+    outputQuantity: 1,
+    requiredMaterials: [
+      { tokenId: 116n, quantity: 3 }, // 3x Rough Ruby
+    ],
+    copperCost: 60,
+    requiredSkillLevel: 15,
+    craftingTime: 20,
+  },
+  {
+    recipeId: "cut-sapphire",
+    outputTokenId: 251n, // Cut Sapphire
+    outputQuantity: 1,
+    requiredMaterials: [
+      { tokenId: 117n, quantity: 3 }, // 3x Rough Sapphire
+    ],
+    copperCost: 60,
+    requiredSkillLevel: 20,
+    craftingTime: 20,
+  },
+  {
+    recipeId: "cut-emerald",
+    outputTokenId: 252n, // Cut Emerald
+    outputQuantity: 1,
+    requiredMaterials: [
+      { tokenId: 118n, quantity: 3 }, // 3x Rough Emerald
+    ],
+    copperCost: 60,
+    requiredSkillLevel: 30,
+    craftingTime: 20,
+  },
+  {
+    recipeId: "cut-brilliant-diamond",
+    outputTokenId: 253n, // Brilliant Diamond
+    outputQuantity: 1,
+    requiredMaterials: [
+      { tokenId: 119n, quantity: 3 }, // 3x Flawed Diamond
+    ],
+    copperCost: 120,
+    requiredSkillLevel: 60,
+    craftingTime: 30,
+  },
+  {
+    recipeId: "cut-shadow-opal",
+    outputTokenId: 254n, // Polished Shadow Opal
+    outputQuantity: 1,
+    requiredMaterials: [
+      { tokenId: 120n, quantity: 3 }, // 3x Shadow Opal
+    ],
+    copperCost: 140,
+    requiredSkillLevel: 80,
+    craftingTime: 30,
+  },
+  {
+    recipeId: "cut-arcane-crystal",
+    outputTokenId: 255n, // Faceted Arcane Crystal
+    outputQuantity: 1,
+    requiredMaterials: [
+      { tokenId: 121n, quantity: 3 }, // 3x Arcane Crystal
+    ],
+    copperCost: 220,
+    requiredSkillLevel: 110,
+    craftingTime: 36,
+  },
 ];
 
 export function getJewelcraftingRecipeById(
@@ -105,6 +173,89 @@ export function getJewelcraftingRecipeById(
   return JEWELCRAFTING_RECIPES.find((r) => r.recipeId === recipeId);
 }
 
+/** Profession XP for a successful craft (ring = 35, amulet = 45). */
+function jewelXpForRecipe(recipeId: string): number {
+  return recipeId.includes("amulet")
+    ? PROFESSION_XP.JEWEL_AMULET
+    : PROFESSION_XP.JEWEL_RING;
+}
+
+/**
+ * Mint a crafted piece of jewelry (materials already burned), roll its stats
+ * and hand out XP, quest progress, reputation and the zone event.
+ */
+async function completeJewelCraft(
+  entity: Entity,
+  zoneId: string,
+  walletAddress: string,
+  recipe: JewelcraftingRecipe,
+  stationName: string,
+) {
+  const craftTx = await enqueueItemMint(
+    walletAddress,
+    recipe.outputTokenId,
+    BigInt(recipe.outputQuantity)
+  );
+
+  const outputItem = getItemByTokenId(recipe.outputTokenId);
+
+  // Roll RNG stats for jewelry (armor category)
+  const instance = rollCraftedItem({
+    baseTokenId: recipe.outputTokenId,
+    recipeId: recipe.recipeId,
+    craftedBy: walletAddress,
+    zoneId: entity.region,
+  });
+
+  // Emit zone event for client speech bubbles
+  logZoneEvent({
+    zoneId,
+    type: "loot",
+    tick: 0,
+    message: instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")
+      ? `${entity.name} crafted a ${instance.quality.tier} item: ${instance.displayName}!`
+      : `${entity.name}: Crafted ${outputItem?.name ?? "an item"}`,
+    entityId: entity.id,
+    entityName: entity.name,
+    data: {
+      craftType: "jewelcrafting",
+      itemName: instance?.displayName ?? outputItem?.name ?? "an item",
+      recipeId: recipe.recipeId,
+      ...(instance && { quality: instance.quality.tier, instanceId: instance.instanceId }),
+    },
+  });
+
+  const profXpResult = awardProfessionXp(entity, zoneId, jewelXpForRecipe(recipe.recipeId), "jewelcrafting", outputItem?.name);
+
+  advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
+
+  if (entity.agentId != null) {
+    reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 3, `Crafted: ${instance?.displayName ?? outputItem?.name ?? recipe.recipeId}`);
+  }
+  console.log(
+    `[jewelcrafting] ${entity.name} crafted ${instance?.displayName ?? outputItem?.name} (${instance?.quality.tier ?? "n/a"}) at ${stationName} → ${craftTx}`
+  );
+
+  return { craftTx, outputItem, instance, profXpResult };
+}
+
+export const JEWELCRAFTING_QUEUE: CraftingQueueDefinition = {
+  profession: "jewelcrafting",
+  stationType: "jewelers-bench",
+  stationName: "Jeweler's Workbench",
+  stationRange: 100,
+  xpLabel: "jewelcrafting",
+  getRecipe: getJewelcraftingRecipeById,
+  craftXp: jewelXpForRecipe,
+  chargesCopper: false,
+  failureMessage: "The gem shattered during setting.",
+  async completeCraft(entity, zoneId, recipeId, stationName) {
+    const recipe = getJewelcraftingRecipeById(recipeId)!;
+    const { outputItem, instance } = await completeJewelCraft(entity, zoneId, entity.walletAddress!, recipe, stationName);
+    return instance?.displayName ?? outputItem?.name ?? recipe.recipeId;
+  },
+};
+
 export function registerJewelcraftingRoutes(server: FastifyInstance) {
   // GET /jewelcrafting/recipes
   server.get("/jewelcrafting/recipes", async () => {
@@ -194,13 +345,10 @@ export function registerJewelcraftingRoutes(server: FastifyInstance) {
     }
 
     // Roll for failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel, entity.region);
     if (failed) {
       lastCraftTime.set(walletAddress.toLowerCase(), Date.now());
-      const halfXp = recipeId.includes("amulet")
-        ? Math.floor(PROFESSION_XP.JEWEL_AMULET / 2)
-        : Math.floor(PROFESSION_XP.JEWEL_RING / 2);
-      awardProfessionXp(entity, zoneId, halfXp, "jewelcrafting");
+      awardProfessionXp(entity, zoneId, Math.floor(jewelXpForRecipe(recipeId) / 2), "jewelcrafting");
       return {
         ok: false,
         failed: true,
@@ -255,53 +403,8 @@ export function registerJewelcraftingRoutes(server: FastifyInstance) {
 
     // Mint crafted jewelry
     try {
-      const craftTx = await enqueueItemMint(
-        walletAddress,
-        recipe.outputTokenId,
-        BigInt(recipe.outputQuantity)
-      );
-
-      const outputItem = getItemByTokenId(recipe.outputTokenId);
-
-      // Roll RNG stats for jewelry (armor category)
-      const instance = rollCraftedItem({
-        baseTokenId: recipe.outputTokenId,
-        recipeId: recipe.recipeId,
-        craftedBy: walletAddress,
-      });
-
-      // Emit zone event for client speech bubbles
-      logZoneEvent({
-        zoneId,
-        type: "loot",
-        tick: 0,
-        message: instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")
-          ? `${entity.name} crafted a ${instance.quality.tier} item: ${instance.displayName}!`
-          : `${entity.name}: Crafted ${outputItem?.name ?? "an item"}`,
-        entityId: entity.id,
-        entityName: entity.name,
-        data: {
-          craftType: "jewelcrafting",
-          itemName: instance?.displayName ?? outputItem?.name ?? "an item",
-          recipeId,
-          ...(instance && { quality: instance.quality.tier, instanceId: instance.instanceId }),
-        },
-      });
-
-      // Award profession XP (ring = 35, amulet = 45)
-      const jcXp = recipeId.includes("amulet")
-        ? PROFESSION_XP.JEWEL_AMULET
-        : PROFESSION_XP.JEWEL_RING;
-      const profXpResult = awardProfessionXp(entity, zoneId, jcXp, "jewelcrafting", outputItem?.name);
-
-      advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
-
-      if (entity.agentId != null) {
-        reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 3, `Crafted: ${instance?.displayName ?? outputItem?.name ?? recipeId}`);
-      }
-      server.log.info(
-        `[jewelcrafting] ${entity.name} crafted ${instance?.displayName ?? outputItem?.name} (${instance?.quality.tier ?? "n/a"}) at ${station.name} → ${craftTx}`
-      );
+      const { craftTx, outputItem, instance, profXpResult } =
+        await completeJewelCraft(entity, zoneId, walletAddress, recipe, station.name);
 
       lastCraftTime.set(walletAddress.toLowerCase(), Date.now());
 
@@ -320,6 +423,8 @@ export function registerJewelcraftingRoutes(server: FastifyInstance) {
             displayName: instance.displayName,
             rolledStats: instance.rolledStats,
             bonusAffix: instance.bonusAffix,
+            affixes: instance.affixes,
+            sockets: instance.sockets,
             rolledMaxDurability: instance.rolledMaxDurability,
           }),
         },
@@ -1,6 +1,6 @@
 import type { FastifyInstance } from "fastify";
 import { authenticateRequest } from "../auth/auth.js";
-import { getEntity } from "../world/zoneRuntime.js";
+import { getEntity, type Entity } from "../world/zoneRuntime.js";
 import { hasLearnedProfession } from "./professions.js";
 import { enqueueItemMint, enqueueItemBurn } from "../blockchain/blockchain.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
@@ -9,6 +9,7 @@ import { logZoneEvent } from "../world/zoneEvents.js";
 import { awardProfessionXp, PROFESSION_XP, getProfessionSkills, rollFailure } from "./professionXp.js";
 import { reputationManager, ReputationCategory } from "../economy/reputationManager.js";
 import { advanceGatherQuests } from "../social/questSystem.js";
+import type { CraftingQueueDefinition } from "./craftingQueue.js";
 
 const lastCraftTime = new Map<string, number>();
 
@@ -213,6 +214,89 @@ export function getLeatherworkingRecipeById(
   return LEATHERWORKING_RECIPES.find((r) => r.recipeId === recipeId);
 }
 
+/** Profession XP for a successful craft (basic tanned = 30, reinforced = 40). */
+function leatherXpForRecipe(recipeId: string): number {
+  return recipeId.startsWith("reinforced-")
+    ? PROFESSION_XP.LEATHER_ADVANCED
+    : PROFESSION_XP.LEATHER_BASIC;
+}
+
+/**
+ * Mint a crafted leather piece (materials already burned), roll its stats and
+ * hand out XP, quest progress, reputation and the zone event.
+ */
+async function completeLeatherCraft(
+  entity: Entity,
+  zoneId: string,
+  walletAddress: string,
+  recipe: LeatherworkingRecipe,
+  stationName: string,
+) {
+  const craftTx = await enqueueItemMint(
+    walletAddress,
+    recipe.outputTokenId,
+    BigInt(recipe.outputQuantity)
+  );
+
+  const outputItem = getItemByTokenId(recipe.outputTokenId);
+
+  // Roll RNG stats for weapons/armor
+  const instance = rollCraftedItem({
+    baseTokenId: recipe.outputTokenId,
+    recipeId: recipe.recipeId,
+    craftedBy: walletAddress,
+    zoneId: entity.region,
+  });
+
+  // Emit zone event for client speech bubbles
+  logZoneEvent({
+    zoneId,
+    type: "loot",
+    tick: 0,
+    message: instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")
+      ? `${entity.name} crafted a ${instance.quality.tier} item: ${instance.displayName}!`
+      : `${entity.name}: Crafted ${outputItem?.name ?? "an item"}`,
+    entityId: entity.id,
+    entityName: entity.name,
+    data: {
+      craftType: "leatherworking",
+      itemName: instance?.displayName ?? outputItem?.name ?? "an item",
+      recipeId: recipe.recipeId,
+      ...(instance && { quality: instance.quality.tier, instanceId: instance.instanceId }),
+    },
+  });
+
+  const profXpResult = awardProfessionXp(entity, zoneId, leatherXpForRecipe(recipe.recipeId), "leatherworking", outputItem?.name);
+
+  advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
+
+  if (entity.agentId != null) {
+    reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 2, `Crafted: ${instance?.displayName ?? outputItem?.name ?? recipe.recipeId}`);
+  }
+  console.log(
+    `[leatherworking] ${entity.name} crafted ${instance?.displayName ?? outputItem?.name} (${instance?.quality.tier ?? "n/a"}) at ${stationName} → ${craftTx}`
+  );
+
+  return { craftTx, outputItem, instance, profXpResult };
+}
+
+export const LEATHERWORKING_QUEUE: CraftingQueueDefinition = {
+  profession: "leatherworking",
+  stationType: "tanning-rack",
+  stationName: "Tanning Rack",
+  stationRange: 100,
+  xpLabel: "leatherworking",
+  getRecipe: getLeatherworkingRecipeById,
+  craftXp: leatherXpForRecipe,
+  chargesCopper: false,
+  failureMessage: "The leather cracked during shaping.",
+  async completeCraft(entity, zoneId, recipeId, stationName) {
+    const recipe = getLeatherworkingRecipeById(recipeId)!;
+    const { outputItem, instance } = await completeLeatherCraft(entity, zoneId, entity.walletAddress!, recipe, stationName);
+    return instance?.displayName ?? outputItem?.name ?? recipe.recipeId;
+  },
+};
+
 export function registerLeatherworkingRoutes(server: FastifyInstance) {
   // GET /leatherworking/recipes
   server.get("/leatherworking/recipes", async () => {
@@ -302,13 +386,10 @@ export function registerLeatherworkingRoutes(server: FastifyInstance) {
     }
 
     // Roll for failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, recipe.requiredSkillLevel, entity.region);
     if (failed) {
       lastCraftTime.set(walletAddress.toLowerCase(), Date.now());
-      const halfXp = recipeId.startsWith("reinforced-")
-        ? Math.floor(PROFESSION_XP.LEATHER_ADVANCED / 2)
-        : Math.floor(PROFESSION_XP.LEATHER_BASIC / 2);
-      awardProfessionXp(entity, zoneId, halfXp, "leatherworking");
+      awardProfessionXp(entity, zoneId, Math.floor(leatherXpForRecipe(recipeId) / 2), "leatherworking");
       return {
         ok: false,
         failed: true,
@@ -359,53 +440,8 @@ export function registerLeatherworkingRoutes(server: FastifyInstance) {
 
     // Mint crafted item
     try {
-      const craftTx = await enqueueItemMint(
-        walletAddress,
-        recipe.outputTokenId,
-        BigInt(recipe.outputQuantity)
-      );
-
-      const outputItem = getItemByTokenId(recipe.outputTokenId);
-
-      // Roll RNG stats for weapons/armor
-      const instance = rollCraftedItem({
-        baseTokenId: recipe.outputTokenId,
-        recipeId: recipe.recipeId,
-        craftedBy: walletAddress,
-      });
-
-      // Emit zone event for client speech bubbles
-      logZoneEvent({
-        zoneId,
-        type: "loot",
-        tick: 0,
-        message: instance && (instance.quality.tier === "rare" || instance.quality.tier === "epic")
-          ? `${entity.name} crafted a ${instance.quality.tier} item: ${instance.displayName}!`
-          : `${entity.name}: Crafted ${outputItem?.name ?? "an item"}`,
-        entityId: entity.id,
-        entityName: entity.name,
-        data: {
-          craftType: "leatherworking",
-          itemName: instance?.displayName ?? outputItem?.name ?? "an item",
-          recipeId,
-          ...(instance && { quality: instance.quality.tier, instanceId: instance.instanceId }),
-        },
-      });
-
-      // Award profession XP (basic tanned = 30, reinforced = 40)
-      const lwXp = recipeId.startsWith("reinforced-")
-        ? PROFESSION_XP.LEATHER_ADVANCED
-        : PROFESSION_XP.LEATHER_BASIC;
-      const profXpResult = awardProfessionXp(entity, zoneId, lwXp, "leatherworking", outputItem?.name);
-
-      advanceGatherQuests(entity, outputItem?.name ?? "Unknown");
-
-      if (entity.agentId != null) {
-        reputationManager.submitFeedback(entity.agentId, ReputationCategory.Crafting, 2, `Crafted: ${instance?.displayName ?? outputItem?.name ?? recipeId}`);
-      }
-      server.log.info(
-        `[leatherworking] ${entity.name} crafted ${instance?.displayName ?? outputItem?.name} (${instance?.quality.tier ?? "n/a"}) at ${station.name} → ${craftTx}`
-      );
+      const { craftTx, outputItem, instance, profXpResult } =
+        await completeLeatherCraft(entity, zoneId, walletAddress, recipe, station.name);
 
       lastCraftTime.set(walletAddress.toLowerCase(), Date.now());
 
@@ -424,6 +460,8 @@ export function registerLeatherworkingRoutes(server: FastifyInstance) {
             displayName: instance.displayName,
             rolledStats: instance.rolledStats,
             bonusAffix: instance.bonusAffix,
+            affixes: instance.affixes,
+            sockets: instance.sockets,
             rolledMaxDurability: instance.rolledMaxDurability,
           }),
         },
@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { getEntity, getAllEntities, getEntitiesInRegion, getWorldTick } from "../world/zoneRuntime.js";
+import { getEntity, getEntitiesForLookup, getWorldTick } from "../world/zoneRuntime.js";
 import { enqueueItemMint } from "../blockchain/blockchain.js";
 import { ORE_CATALOG } from "../resources/oreCatalog.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
@@ -38,13 +38,11 @@ export function registerMiningRoutes(server: FastifyInstance) {
   });
 
   // GET /mining/nodes - all ore nodes (optionally filtered by region)
-  server.get<{ Querystring: { region?: string } }>(
+  server.get<{ Querystring: { region?: string; x?: string; y?: string; radius?: string } }>(
     "/mining/nodes",
     async (request) => {
       const { region } = request.query;
-      const entities = region
-        ? getEntitiesInRegion(region)
-        : [...getAllEntities().values()];
+      const entities = getEntitiesForLookup(request.query);
 
       const oreNodes = entities
         .filter((e) => e.type === "ore-node")
@@ -181,7 +179,7 @@ export function registerMiningRoutes(server: FastifyInstance) {
     }
 
     // Roll for gathering failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, oreProps.requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, oreProps.requiredSkillLevel, entity.region);
     if (failed) {
       // Consume tool durability but don't deplete node
       weaponEquipped.durability = Math.max(0, weaponEquipped.durability - 1);
@@ -7,10 +7,12 @@
 import { xpForLevel, MAX_LEVEL, computeStatsAtLevel } from "../character/leveling.js";
 import { recalculateEntityVitals, type Entity, getAllZones } from "../world/zoneRuntime.js";
 import { logZoneEvent } from "../world/zoneEvents.js";
+import { rngChance } from "../world/rng.js";
 import { saveCharacter } from "../character/characterStore.js";
 import { logDiary, narrativeLevelUp } from "../social/diary.js";
 import { QUEST_CATALOG } from "../social/questSystem.js";
 import type { ProfessionType } from "./professions.js";
+import { recordAchievement, recordLevelAchievements } from "../erc8004/achievementClaims.js";
 
 // ── Per-profession skill tracking ───────────────────────────────────
 
@@ -184,6 +186,9 @@ export function awardProfessionXp(
           newLevel: skillResult.newLevel,
         },
       });
+      if (skillResult.newLevel >= PROFESSION_SKILL_MAX) {
+        recordAchievement(entity, { kind: "profession-mastery", profession: skillResult.profession });
+      }
     }
   }
 
@@ -235,6 +240,7 @@ export function awardProfessionXp(
       }
 
       console.log(`[${actionLabel}] *** ${entity.name} leveled up to ${entity.level}! ***`);
+      recordLevelAchievements(entity);
     }
   }
 
@@ -320,8 +326,15 @@ export function calculateFailChance(currentSkill: number, requiredSkill: number)
 /**
  * Roll against a failure chance. Returns true if the action fails.
  */
-export function rollFailure(currentSkill: number, requiredSkill: number): { failed: boolean; failChance: number } {
+export function rollFailure(
+  currentSkill: number,
+  requiredSkill: number,
+  zoneId?: string,
+): { failed: boolean; failChance: number } {
   const failChance = calculateFailChance(currentSkill, requiredSkill);
   if (failChance <= 0) return { failed: false, failChance: 0 };
-  return { failed: Math.random() < failChance, failChance: Math.round(failChance * 100) };
+  return {
+    failed: rngChance("crafting", failChance, zoneId, "failure"),
+    failChance: Math.round(failChance * 100),
+  };
 }
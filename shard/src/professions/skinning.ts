@@ -1,5 +1,5 @@
 import type { FastifyInstance } from "fastify";
-import { getEntity, getAllEntities, getEntitiesInRegion, getWorldTick } from "../world/zoneRuntime.js";
+import { getEntity, getEntitiesForLookup, getWorldTick } from "../world/zoneRuntime.js";
 import { enqueueItemMint } from "../blockchain/blockchain.js";
 import { getLootTable, rollDrops } from "../items/lootTables.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
@@ -22,13 +22,11 @@ const SKINNING_KNIFE_TIERS: Record<number, number> = {
 
 export function registerSkinningRoutes(server: FastifyInstance) {
   // GET /skinning/corpses - list available corpses to skin (optionally filtered by region)
-  server.get<{ Querystring: { region?: string } }>(
+  server.get<{ Querystring: { region?: string; x?: string; y?: string; radius?: string } }>(
     "/skinning/corpses",
     async (request) => {
       const { region } = request.query;
-      const entities = region
-        ? getEntitiesInRegion(region)
-        : [...getAllEntities().values()];
+      const entities = getEntitiesForLookup(request.query);
 
       const corpses = entities
         .filter((e) => e.type === "corpse" && !e.skinned)
@@ -159,7 +157,7 @@ export function registerSkinningRoutes(server: FastifyInstance) {
     }
 
     // Roll for skinning failure
-    const { failed, failChance } = rollFailure(currentSkillLevel, requiredSkillLevel);
+    const { failed, failChance } = rollFailure(currentSkillLevel, requiredSkillLevel, entity.region);
     if (failed) {
       // Consume knife durability but don't mark corpse as skinned
       weaponEquipped.durability = Math.max(0, weaponEquipped.durability - 1);
@@ -192,7 +190,7 @@ export function registerSkinningRoutes(server: FastifyInstance) {
     }
 
     // Roll skinning drops
-    const drops = rollDrops(lootTable.skinningDrops);
+    const drops = rollDrops(lootTable.skinningDrops, entity.region);
     if (drops.length === 0) {
       reply.code(400);
       return { error: "Nothing of value could be harvested from this corpse" };
@@ -4,6 +4,14 @@
  * In-memory fallback is only enabled when REDIS_ALLOW_MEMORY_FALLBACK=true.
  */
 
+import { histogram } from "./observability/metrics.js";
+
+const commandDuration = histogram(
+  "wog_redis_command_duration_seconds",
+  "Redis command latency",
+  ["command", "outcome"]
+);
+
 let redis: any = null;
 let initialized = false;
 let redisConfigured = false;
@@ -63,6 +71,17 @@ async function init() {
         ...(needsTls ? { tls: { rejectUnauthorized: false } } : {}),
       });
 
+      // Time every command without touching call sites.
+      const sendCommand = client.sendCommand.bind(client);
+      client.sendCommand = (command: any, stream?: unknown) => {
+        const stopTimer = commandDuration.startTimer({ command: String(command?.name ?? "unknown").toLowerCase() });
+        command?.promise?.then(
+          () => stopTimer({ outcome: "ok" }),
+          () => stopTimer({ outcome: "error" })
+        );
+        return sendCommand(command, stream);
+      };
+
       client.on("error", (err: Error) => {
         lastRedisError = err.message;
         console.warn("[redis] Connection error:", err.message);
@@ -0,0 +1,134 @@
+/**
+ * Prometheus scrape endpoint and per-route instrumentation.
+ * GET /metrics  →  text exposition format; requires `Authorization: Bearer
+ * $METRICS_TOKEN` when METRICS_TOKEN is set.
+ *
+ * Register before other routes so the hooks below see every request. When
+ * OTLP export is configured each request also gets a server span, which
+ * becomes the parent of chain intents created while handling it.
+ */
+
+import { timingSafeEqual } from "crypto";
+import type { FastifyInstance, FastifyRequest } from "fastify";
+import { counter, histogram, gauge, registerMetricsCollector, renderMetrics } from "../observability/metrics.js";
+import {
+  isTracingEnabled,
+  parseTraceparent,
+  startSpan,
+  startTraceExporter,
+  stopTraceExporter,
+  withSpan,
+  type Span,
+} from "../observability/tracing.js";
+import { getAllZones } from "../world/zoneRuntime.js";
+import { ownsZone } from "../world/zoneSharding.js";
+import { countChainIntentsByStatus } from "../blockchain/chainIntentStore.js";
+
+const METRICS_TOKEN = process.env.METRICS_TOKEN?.trim() || null;
+
+const requestDuration = histogram(
+  "wog_http_request_duration_seconds",
+  "HTTP request latency by matched route",
+  ["method", "route", "status_code"]
+);
+const rateLimitRejections = counter(
+  "wog_rate_limit_rejections_total",
+  "Requests rejected with 429 by a RATE_LIMIT_RULES entry",
+  ["rule"]
+);
+const entityCount = gauge("wog_entities", "Live entities in zones owned by this worker", ["zone", "type"]);
+const chainIntentCount = gauge("wog_chain_intents", "Chain write intents by type and status", ["type", "status"]);
+
+/** Called by the server's rate-limit hook for every 429 it sends. */
+export function recordRateLimitRejection(rule: string): void {
+  rateLimitRejections.inc({ rule });
+}
+
+function isAuthorizedScrape(request: FastifyRequest): boolean {
+  if (!METRICS_TOKEN) return true;
+  const header = request.headers.authorization ?? "";
+  const actual = Buffer.from(header.startsWith("Bearer ") ? header.slice(7).trim() : "");
+  const expected = Buffer.from(METRICS_TOKEN);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+export function registerMetricsRoutes(server: FastifyInstance): void {
+  registerMetricsCollector(() => {
+    entityCount.reset();
+    for (const zone of getAllZones().values()) {
+      if (!ownsZone(zone.zoneId)) continue;
+      const byType = new Map<string, number>();
+      for (const entity of zone.entities.values()) {
+        byType.set(entity.type, (byType.get(entity.type) ?? 0) + 1);
+      }
+      for (const [type, count] of byType) entityCount.set({ zone: zone.zoneId, type }, count);
+    }
+  });
+
+  registerMetricsCollector(async () => {
+    const rows = await countChainIntentsByStatus();
+    chainIntentCount.reset();
+    for (const row of rows) chainIntentCount.set({ type: row.type, status: row.status }, row.count);
+  });
+
+  server.addHook("onResponse", async (request, reply) => {
+    requestDuration.observe(
+      {
+        method: request.method,
+        // Route templates keep cardinality bounded; unmatched URLs share one series
+        route: request.routeOptions.url ?? "unmatched",
+        status_code: reply.statusCode,
+      },
+      reply.elapsedTime / 1000
+    );
+  });
+
+  if (isTracingEnabled()) {
+    const requestSpans = new WeakMap<FastifyRequest, Span>();
+
+    server.addHook("onRequest", (request, _reply, done) => {
+      const span = startSpan(`${request.method} ${request.routeOptions.url ?? "unmatched"}`, {
+        kind: "server",
+        parent: parseTraceparent(request.headers.traceparent),
+        attributes: {
+          "http.request.method": request.method,
+          "http.route": request.routeOptions.url,
+          "url.path": request.url.split("?", 1)[0],
+        },
+      });
+      requestSpans.set(request, span);
+      withSpan(span, done);
+    });
+
+    // Body parsing runs outside the onRequest context; re-enter it for the handler
+    server.addHook("preHandler", (request, _reply, done) => {
+      const span = requestSpans.get(request);
+      if (!span) {
+        done();
+        return;
+      }
+      withSpan(span, done);
+    });
+
+    server.addHook("onResponse", async (request, reply) => {
+      const span = requestSpans.get(request);
+      if (!span) return;
+      span.setAttribute("http.response.status_code", reply.statusCode);
+      span.end(reply.statusCode >= 500 ? `HTTP ${reply.statusCode}` : undefined);
+    });
+
+    startTraceExporter();
+    server.addHook("onClose", async () => {
+      await stopTraceExporter();
+    });
+  }
+
+  server.get("/metrics", async (request, reply) => {
+    if (!isAuthorizedScrape(request)) {
+      reply.code(401);
+      return { error: "Invalid metrics token" };
+    }
+    reply.header("content-type", "text/plain; version=0.0.4; charset=utf-8");
+    return await renderMetrics();
+  });
+}
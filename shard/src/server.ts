@@ -4,9 +4,13 @@ import { runMigrations } from "./db.js";
 import Fastify from "fastify";
 import cors from "@fastify/cors";
 import { registerZoneRuntime } from "./world/zoneRuntime.js";
+import { findRemoteSpawnedWallet, registerZoneSharding } from "./world/zoneShardService.js";
+import { isZoneShardingEnabled } from "./world/zoneSharding.js";
+import { registerZoneStreamRoutes } from "./world/zoneStream.js";
 import { registerSpawnOrders } from "./world/spawnOrders.js";
 import { registerStateApi } from "./routes/stateApi.js";
 import { registerStatsRoutes } from "./routes/statsRoutes.js";
+import { recordRateLimitRejection, registerMetricsRoutes } from "./routes/metricsRoutes.js";
 import { registerCommands } from "./social/commands.js";
 import { registerWalletRoutes, startWalletRegistrationWorker } from "./blockchain/wallet.js";
 import { registerShopRoutes } from "./economy/shop.js";
@@ -18,13 +22,17 @@ import { registerAuctionHouseTick } from "./economy/auctionHouseTick.js";
 import { registerGuildRoutes } from "./economy/guild.js";
 import { registerGuildTick } from "./economy/guildTick.js";
 import { registerGuildVaultRoutes } from "./economy/guildVault.js";
+import { registerGuildLoanTick } from "./economy/guildLoanService.js";
+import { registerGuildSocialRoutes } from "./economy/guildSocial.js";
 import { spawnNpcs, tickMobRespawner } from "./world/npcSpawner.js";
 import { initMerchantWallets, registerMerchantAgentTick, getMerchantCount } from "./world/merchantAgent.js";
 import { registerMiningRoutes } from "./professions/mining.js";
 import { spawnOreNodes } from "./resources/oreSpawner.js";
 import { registerProfessionRoutes } from "./professions/professions.js";
 import { registerCraftingRoutes } from "./professions/crafting.js";
+import { registerCraftingQueue } from "./professions/craftingQueue.js";
 import { registerQuestRoutes } from "./social/questSystem.js";
+import { registerQuestObjectiveTracker } from "./social/questObjectiveTracker.js";
 import { registerHerbalismRoutes } from "./professions/herbalism.js";
 import { spawnFlowerNodes } from "./resources/flowerSpawner.js";
 import { spawnNectarNodes } from "./resources/nectarSpawner.js";
@@ -39,8 +47,10 @@ import { registerCookingRoutes } from "./professions/cooking.js";
 import { registerPartyRoutes } from "./social/partySystem.js";
 import { registerFriendsRoutes } from "./social/friendsSystem.js";
 import { registerAuthRoutes } from "./auth/auth.js";
+import { registerApiKeyRoutes } from "./auth/apiKeyService.js";
 import { registerZoneTransitionRoutes } from "./world/zoneTransition.js";
 import { registerLeaderboardRoutes } from "./social/leaderboard.js";
+import { registerLeaderboardTick } from "./social/leaderboardService.js";
 import { registerLeatherworkingRoutes } from "./professions/leatherworking.js";
 import { registerUpgradingRoutes } from "./items/upgrading.js";
 import { registerJewelcraftingRoutes } from "./professions/jewelcrafting.js";
@@ -54,10 +64,12 @@ import { registerA2ARoutes } from "./agents/a2aRoutes.js";
 import { registerAgentDirectoryRoutes } from "./agents/agentDirectoryRoutes.js";
 import { agentManager } from "./agents/agentManager.js";
 import { registerItemRngRoutes } from "./items/itemRng.js";
+import { registerItemCustomizationRoutes } from "./items/itemCustomization.js";
 import { registerMarketplaceRoutes } from "./economy/marketplace.js";
 import { registerDirectBuyRoutes } from "./marketplace/directBuyRoutes.js";
 import { registerMarketplaceAdminRoutes } from "./marketplace/adminRoutes.js";
 import { registerChainAdminRoutes } from "./blockchain/adminRoutes.js";
+import { registerRngRoutes } from "./world/rngRoutes.js";
 import { registerRentalRoutes } from "./marketplace/rentalRoutes.js";
 import { registerItemCatalogRoutes } from "./items/itemCatalogRoutes.js";
 import { registerReputationRoutes } from "./economy/reputationRoutes.js";
@@ -99,13 +111,18 @@ import { assertRedisAvailable, getRedis, isMemoryFallbackAllowed } from "./redis
 import { pvpBattleManager } from "./combat/pvpBattleManager.js";
 import { startCharacterBootstrapWorker } from "./character/characterBootstrap.js";
 import { startReputationChainWorker } from "./economy/reputationChain.js";
+import { startValidationClaimWorker } from "./erc8004/validation.js";
 import { startChainOperationReplayWorker } from "./blockchain/chainOperationStore.js";
 import { ensureGameSchema, getGameSchemaHealth } from "./db/gameSchema.js";
 import { migrateRedisToPostgres } from "./character/migrateRedisToPostgres.js";
 import { initPostgres, isPostgresConfigured } from "./db/postgres.js";
 import { startAgentRuntimeReconciler } from "./services/agentRuntimeService.js";
 
-const server = Fastify({ logger: true });
+// Number of proxy hops (load balancer, CDN) in front of the shard. request.ip
+// then resolves to the client address those proxies appended to
+// X-Forwarded-For instead of a value the client could set itself.
+const TRUST_PROXY_HOPS = Math.max(0, Number.parseInt(process.env.TRUST_PROXY_HOPS ?? "0", 10) || 0);
+const server = Fastify({ logger: true, trustProxy: (_address, hop) => hop < TRUST_PROXY_HOPS });
 const ADMIN_SECRET = process.env.ADMIN_SECRET?.trim() || null;
 const REQUIRE_REDIS_PERSISTENCE = !["0", "false", "no", "off"].includes(
   (process.env.REQUIRE_REDIS_PERSISTENCE ?? "true").trim().toLowerCase()
@@ -118,6 +135,9 @@ const LAZY_RUNTIME_HYDRATION = !["0", "false", "no", "off"].includes(
 const RUN_BACKGROUND_WORKERS = !["0", "false", "no", "off"].includes(
   (process.env.RUN_BACKGROUND_WORKERS ?? "true").trim().toLowerCase()
 );
+const RATE_LIMITS_ENABLED = ["1", "true", "yes", "on"].includes(
+  (process.env.RATE_LIMITS_ENABLED ?? "false").trim().toLowerCase()
+);
 const HOTPATH_CONCURRENCY_LIMITS_ENABLED = !["0", "false", "no", "off"].includes(
   (process.env.HOTPATH_CONCURRENCY_LIMITS_ENABLED ?? "true").trim().toLowerCase()
 );
@@ -166,6 +186,8 @@ const RATE_LIMIT_RULES: RateLimitRule[] = [
   { key: "zones-list", methods: ["GET"], exact: "/zones", max: 120, windowMs: 60_000 },
   { key: "zones-detail", methods: ["GET"], prefix: "/zones/", max: 300, windowMs: 60_000 },
   { key: "players-active", methods: ["GET"], exact: "/players/active", max: 60, windowMs: 60_000 },
+  // Stream connects are long-lived; only reconnect storms should hit this.
+  { key: "zone-stream", methods: ["GET"], prefix: "/stream/", max: 60, windowMs: 60_000 },
   { key: "world-state", methods: ["GET"], exact: "/state", max: 12, windowMs: 60_000 },
   { key: "wallet-read", methods: ["GET"], prefix: "/wallet/", max: 120, windowMs: 60_000 },
   { key: "agent-status", methods: ["GET"], prefix: "/agent/status/", max: 120, windowMs: 60_000 },
@@ -397,10 +419,11 @@ server.get("/play", async (_req, reply) => {
       },
       world: {
         "GET /zones/:zoneId": "All entities, events, tick in a region",
+        "GET /stream/zones/:zoneId": "SSE stream of per-tick entity/intent/event deltas (?since=<epoch>:<seq> to resume)",
         "GET /mining/nodes/:zoneId": "Ore nodes",
         "GET /herbalism/nodes/:zoneId": "Herb nodes",
         "GET /shop/catalog": "Full item catalog with prices",
-        "GET /shop/npc/:merchantEntityId": "Merchant inventory",
+        "GET /shop/npc/:merchantEntityId": "Merchant inventory (?buyerAddress= for affinity pricing)",
       },
       inventory: {
         "GET /inventory/:walletAddress": "Gold + items",
@@ -416,8 +439,12 @@ server.get("/play", async (_req, reply) => {
         "GET /quests/npc/:npcEntityId": "Available quests from NPC",
         "GET /quests/active/:entityId": "Your active quests",
         "POST /quests/accept": "{ entityId, npcEntityId, questId }",
-        "POST /quests/complete": "{ entityId, npcEntityId, questId }",
+        "POST /quests/complete": "{ entityId, npcEntityId, questId } — hands over items owed to the quest giver",
+        "POST /quests/deliver": "{ entityId, npcEntityId, questId? } — hand quest items to another NPC",
         "POST /quests/talk": "{ zoneId, playerId, npcEntityId }",
+        "POST /npc/dialogue": "{ entityId, npcEntityId, message } — NPCs remember you",
+        "POST /npc/gift": "{ entityId, npcEntityId, tokenId, quantity } — raise NPC affinity",
+        "GET /npc/relationships/:walletAddress": "Affinity tiers, discounts and NPC memories",
       },
       techniques: {
         "GET /techniques/available/:entityId": "Learnable skills from trainers",
@@ -438,7 +465,8 @@ server.get("/play", async (_req, reply) => {
       social: {
         "POST /chat": "{ entityId, message }",
         "POST /party/invite": "{ inviterId, targetId }",
-        "GET /leaderboard": "Top players",
+        "GET /leaderboard": "Top players (live by sortBy, or ?category=&season= for persistent standings)",
+        "GET /leaderboard/seasons": "Leaderboard seasons, schedules and rewards",
       },
       auction_house: {
         "GET /auctionhouse/auctions": "Browse listings",
@@ -448,6 +476,15 @@ server.get("/play", async (_req, reply) => {
       guilds: {
         "GET /guild/registrar/:registrarEntityId": "Guild info",
         "POST /guild/create": "Create guild (150 gold)",
+        "GET /guild/:guildId/ranks": "Custom ranks and their permissions",
+        "POST /guild/:guildId/members/rank": "{ memberAddress, rankId } — needs manage_ranks",
+        "PUT /guild/:guildId/motd": "{ motd } — needs edit_motd",
+        "GET /guild/:guildId/log": "Vault, treasury and membership activity — needs view_log",
+        "GET /guild/:guildId/progress": "Guild XP, level and perks",
+        "POST /guild/:guildId/vault/lend": "{ officerAddress, tokenId, quantity, borrowerAddress, durationDays, collateral? } — collateral makes it an offer",
+        "POST /guild/:guildId/vault/loans/:offerId/accept": "{ borrowerAddress } — escrow collateral and receive the item",
+        "GET /guild/:guildId/vault/loans": "?status=outstanding|overdue|all — officer view of guild loans",
+        "POST /guild/:guildId/chat": "{ entityId, message } — guild chat",
       },
       a2a: {
         "GET /a2a/:wallet": "Agent Card — A2A protocol service discovery (ERC-8004)",
@@ -845,11 +882,34 @@ server.register(cors, {
   },
 });
 
+// Metrics hooks ahead of everything so route latency and rejections cover all routes
+registerMetricsRoutes(server);
+
+if (RATE_LIMITS_ENABLED) {
+  server.addHook("onRequest", async (request, reply) => {
+    // Worker-to-worker handoff routes are authenticated by the shard secret, not per-IP limited
+    if (request.url.startsWith("/zone-shard/")) return;
+    const rule = getRateLimitRule(request.method, request.url);
+    if (!rule) return;
+    // request.ip honours TRUST_PROXY_HOPS; never bucket by the raw X-Forwarded-For header
+    const { ok, retryAfterSeconds } = enforceRateLimit(request.ip, getRequestPath(request.url), rule);
+    if (ok) return;
+    recordRateLimitRejection(rule.key);
+    reply.header("retry-after", String(retryAfterSeconds));
+    return reply.code(429).send({ error: "Too many requests", retryAfterSeconds });
+  });
+}
+
+// Zone sharding first: its router must see every route registered below
+registerZoneSharding(server);
+
 // Register subsystems
 registerAuthRoutes(server);
+registerApiKeyRoutes(server);
 registerFarcasterAuthRoutes(server);
 registerX402Routes(server);
 registerZoneRuntime(server);
+registerZoneStreamRoutes(server);
 if (RUN_BACKGROUND_WORKERS) {
   startChainBatcher();
 } else {
@@ -868,11 +928,16 @@ registerAuctionHouseRoutes(server);
 if (RUN_BACKGROUND_WORKERS) registerAuctionHouseTick(server);
 registerGuildRoutes(server);
 if (RUN_BACKGROUND_WORKERS) registerGuildTick(server);
+if (RUN_BACKGROUND_WORKERS) registerGuildLoanTick(server);
+if (RUN_BACKGROUND_WORKERS) registerLeaderboardTick(server);
 registerGuildVaultRoutes(server);
+registerGuildSocialRoutes(server);
 registerMiningRoutes(server);
 registerProfessionRoutes(server);
 registerCraftingRoutes(server);
+registerCraftingQueue(server);
 registerQuestRoutes(server);
+registerQuestObjectiveTracker(server);
 registerNpcDialogueRoutes(server);
 registerQuestGraphRoutes(server);
 registerHerbalismRoutes(server);
@@ -899,11 +964,13 @@ registerA2ARoutes(server);
 registerAgentDirectoryRoutes(server);
 registerGoldPurchaseRoutes(server);
 registerItemRngRoutes(server);
+registerItemCustomizationRoutes(server);
 registerMarketplaceRoutes(server);
 registerDirectBuyRoutes(server);
 registerRentalRoutes(server);
 registerMarketplaceAdminRoutes(server);
 registerChainAdminRoutes(server);
+registerRngRoutes(server);
 registerItemCatalogRoutes(server);
 registerReputationRoutes(server);
 registerNameServiceRoutes(server);
@@ -941,8 +1008,9 @@ spawnFlowerNodes();
 spawnNectarNodes();
 spawnCropNodes();
 
-// Mob respawner - check every 5 seconds
-if (RUN_BACKGROUND_WORKERS) {
+// Mob respawner - check every 5 seconds. Each zone shard worker respawns
+// the mobs of its own zones, so it runs there even without background workers.
+if (RUN_BACKGROUND_WORKERS || isZoneShardingEnabled()) {
   setInterval(() => {
     tickMobRespawner();
   }, MOB_RESPAWNER_INTERVAL_MS);
@@ -1039,7 +1107,9 @@ const start = async () => {
     await pvpBattleManager.restoreFromRedis().catch((err: any) => {
       server.log.warn(`[pvp] PvP restore failed (non-fatal): ${err.message?.slice(0, 100)}`);
     });
-    await restoreLivePlayersFromPostgres().then((count) => {
+    await restoreLivePlayersFromPostgres(
+      async (walletAddress) => (await findRemoteSpawnedWallet(walletAddress)) !== null
+    ).then((count) => {
       if (count > 0) {
         server.log.info(`[live-player] Restored ${count} active player session(s) from Postgres`);
       }
@@ -1057,6 +1127,7 @@ const start = async () => {
     startNameServiceWorker(server.log);
     startPlotOperationWorker(server.log);
     startReputationChainWorker(server.log);
+    startValidationClaimWorker(server.log);
     startChainOperationReplayWorker(server.log);
   } else {
     server.log.warn("[workers] RUN_BACKGROUND_WORKERS=false — async workers not started on this node");
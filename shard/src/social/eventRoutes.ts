@@ -2,6 +2,8 @@ import type { FastifyInstance } from "fastify";
 import { authenticateRequest } from "../auth/auth.js";
 import { getZoneEvents, getAllZoneEvents, logZoneEvent, type ZoneEventType } from "../world/zoneEvents.js";
 import { getEntity } from "../world/zoneRuntime.js";
+import { listGuildChat, postGuildChatMessage, resolveGuildActor } from "../economy/guildSocial.js";
+import { rankHasPermission } from "../economy/guildRanks.js";
 
 export function registerEventRoutes(server: FastifyInstance) {
   /**
@@ -144,4 +146,92 @@ export function registerEventRoutes(server: FastifyInstance) {
 
     return { ok: true };
   });
+
+  /**
+   * POST /guild/:guildId/chat — send a message to guild chat
+   * Body: { entityId, message } — the entity's wallet must be a member whose rank allows chat
+   */
+  server.post<{
+    Params: { guildId: string };
+    Body: { entityId: string; message: string };
+  }>("/guild/:guildId/chat", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseInt(request.params.guildId, 10);
+    if (isNaN(guildId) || guildId <= 0) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+    const { entityId, message } = request.body;
+
+    if (!entityId || !message || typeof message !== "string") {
+      reply.code(400);
+      return { error: "Missing entityId or message" };
+    }
+
+    const entity = getEntity(entityId);
+    if (!entity || !entity.walletAddress) {
+      reply.code(404);
+      return { error: "Entity not found" };
+    }
+
+    const sanitized = message.trim().slice(0, 200);
+    if (!sanitized) {
+      reply.code(400);
+      return { error: "Empty message" };
+    }
+
+    const actor = await resolveGuildActor(request, guildId, entity.walletAddress);
+    if (!actor.ok) {
+      reply.code(actor.status);
+      return { error: actor.error };
+    }
+    if (!rankHasPermission(actor.rank, "chat")) {
+      reply.code(403);
+      return { error: `Your rank (${actor.rank.name}) cannot use guild chat` };
+    }
+
+    const posted = postGuildChatMessage({
+      guildId,
+      walletAddress: actor.wallet.toLowerCase(),
+      entityId: entity.id,
+      senderName: entity.name,
+      rankName: actor.rank.name,
+      message: sanitized,
+    });
+
+    return { ok: true, messageId: posted.id, timestamp: posted.timestamp };
+  });
+
+  /**
+   * GET /guild/:guildId/chat — recent guild chat (members only)
+   * Query params: memberAddress (defaults to the caller), since (timestamp filter), limit (default 100)
+   */
+  server.get<{
+    Params: { guildId: string };
+    Querystring: { memberAddress?: string; since?: string; limit?: string };
+  }>("/guild/:guildId/chat", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const guildId = parseInt(request.params.guildId, 10);
+    if (isNaN(guildId) || guildId <= 0) {
+      reply.code(400);
+      return { error: "Invalid guild ID" };
+    }
+    const since = request.query.since ? parseInt(request.query.since, 10) : undefined;
+    const limit = Math.min(200, request.query.limit ? parseInt(request.query.limit, 10) || 100 : 100);
+
+    const actor = await resolveGuildActor(request, guildId, request.query.memberAddress);
+    if (!actor.ok) {
+      reply.code(actor.status);
+      return { error: actor.error };
+    }
+
+    const messages = listGuildChat(guildId, since, limit);
+    return {
+      guildId,
+      count: messages.length,
+      messages,
+    };
+  });
 }
@@ -1,5 +1,25 @@
 import type { FastifyInstance } from "fastify";
+import { isPostgresConfigured } from "../db/postgres.js";
+import {
+  countLeaderboardEntries,
+  getLeaderboardSeason,
+  getLeaderboardStandingsForWallet,
+  listLeaderboardFinalStandings,
+  listLeaderboardSeasons,
+  listLeaderboardStandings,
+} from "../db/leaderboardStore.js";
 import { getAllEntities, type Entity } from "../world/zoneRuntime.js";
+import {
+  ALL_TIME_SEASON_ID,
+  LEADERBOARD_CATEGORIES,
+  computePowerScore,
+  isLeaderboardCategory,
+  validateSeasonInput,
+  type LeaderboardCategory,
+} from "./leaderboardSeasons.js";
+import { archiveSeason, createLeaderboardSeason, getActiveSeasonId } from "./leaderboardService.js";
+
+const ADMIN_SECRET = process.env.ADMIN_SECRET?.trim() || null;
 
 interface LeaderboardEntry {
   rank: number;
@@ -16,75 +36,187 @@ interface LeaderboardEntry {
 
 type SortBy = "power" | "level" | "kills";
 
-function computePowerScore(entity: Entity): number {
-  const level = entity.level ?? 1;
-  const kills = entity.kills ?? 0;
-  const stats = entity.effectiveStats;
-
-  let score = level * 100 + kills * 10;
-
-  if (stats) {
-    score +=
-      stats.str * 2 +
-      stats.def * 1.5 +
-      stats.agi * 1.5 +
-      stats.int * 2 +
-      stats.hp * 0.5 +
-      stats.mp * 0.5 +
-      stats.faith * 1 +
-      stats.luck * 0.5;
+function verifyAdmin(
+  request: { headers: Record<string, string | string[] | undefined> },
+  reply: { code: (n: number) => { send: (b: unknown) => unknown } }
+): boolean {
+  if (!ADMIN_SECRET) {
+    reply.code(503).send({ error: "Admin route disabled: ADMIN_SECRET is not configured" });
+    return false;
+  }
+  const secret = request.headers["x-admin-secret"];
+  if (secret !== ADMIN_SECRET) {
+    reply.code(401).send({ error: "Unauthorized" });
+    return false;
   }
+  return true;
+}
+
+/** Ranking of players online right now (the original `sortBy` board). */
+function rankLivePlayers(sortBy: SortBy, limit: number): LeaderboardEntry[] {
+  const players: Array<{ entity: Entity; zoneId: string; powerScore: number }> = [];
+
+  for (const entity of getAllEntities().values()) {
+    if (entity.type !== "player") continue;
+    players.push({
+      entity,
+      zoneId: entity.region ?? "unknown",
+      powerScore: computePowerScore(entity),
+    });
+  }
+
+  // Sort
+  players.sort((a, b) => {
+    if (sortBy === "level") {
+      const ld = (b.entity.level ?? 1) - (a.entity.level ?? 1);
+      return ld !== 0 ? ld : b.powerScore - a.powerScore;
+    }
+    if (sortBy === "kills") {
+      const kd = (b.entity.kills ?? 0) - (a.entity.kills ?? 0);
+      return kd !== 0 ? kd : b.powerScore - a.powerScore;
+    }
+    return b.powerScore - a.powerScore;
+  });
 
-  return Math.round(score);
+  return players.slice(0, limit).map((p, i) => ({
+    rank: i + 1,
+    entityId: p.entity.id,
+    name: p.entity.name,
+    level: p.entity.level ?? 1,
+    xp: p.entity.xp ?? 0,
+    kills: p.entity.kills ?? 0,
+    raceId: p.entity.raceId ?? null,
+    classId: p.entity.classId ?? null,
+    zoneId: p.zoneId,
+    powerScore: p.powerScore,
+  }));
 }
 
 export function registerLeaderboardRoutes(server: FastifyInstance) {
+  // GET /leaderboard — live ranking by `sortBy`, or persistent standings
+  // when a `category` or `season` (id, "current" or "all-time") is given.
   server.get<{
-    Querystring: { limit?: string; sortBy?: string };
-  }>("/leaderboard", async (request) => {
+    Querystring: { limit?: string; offset?: string; sortBy?: string; category?: string; season?: string };
+  }>("/leaderboard", async (request, reply) => {
     const limit = Math.min(100, Math.max(1, Number(request.query.limit) || 20));
-    const sortBy: SortBy =
-      request.query.sortBy === "level" || request.query.sortBy === "kills"
-        ? request.query.sortBy
-        : "power";
-
-    const players: Array<{ entity: Entity; zoneId: string; powerScore: number }> = [];
-
-    for (const entity of getAllEntities().values()) {
-      if (entity.type !== "player") continue;
-      players.push({
-        entity,
-        zoneId: entity.region ?? "unknown",
-        powerScore: computePowerScore(entity),
+    const offset = Math.max(0, Number(request.query.offset) || 0);
+
+    if (request.query.category === undefined && request.query.season === undefined) {
+      const sortBy: SortBy =
+        request.query.sortBy === "level" || request.query.sortBy === "kills"
+          ? request.query.sortBy
+          : "power";
+      return { timestamp: Date.now(), sortBy, entries: rankLivePlayers(sortBy, limit) };
+    }
+
+    const requested = request.query.category ?? "power";
+    if (!isLeaderboardCategory(requested)) {
+      return reply.code(400).send({
+        error: `Invalid category. Must be one of: ${LEADERBOARD_CATEGORIES.join(", ")}`,
       });
     }
+    const category: LeaderboardCategory = requested;
+    if (!isPostgresConfigured()) {
+      return reply.code(503).send({ error: "Persistent leaderboards need Postgres" });
+    }
 
-    // Sort
-    players.sort((a, b) => {
-      if (sortBy === "level") {
-        const ld = (b.entity.level ?? 1) - (a.entity.level ?? 1);
-        return ld !== 0 ? ld : b.powerScore - a.powerScore;
-      }
-      if (sortBy === "kills") {
-        const kd = (b.entity.kills ?? 0) - (a.entity.kills ?? 0);
-        return kd !== 0 ? kd : b.powerScore - a.powerScore;
+    const seasonParam = request.query.season ?? ALL_TIME_SEASON_ID;
+    const seasonId = seasonParam === "current" ? getActiveSeasonId() : seasonParam;
+    if (!seasonId) {
+      return reply.code(404).send({ error: "No season is active" });
+    }
+
+    if (seasonId !== ALL_TIME_SEASON_ID) {
+      const season = await getLeaderboardSeason(seasonId);
+      if (!season) return reply.code(404).send({ error: "Season not found" });
+      if (season.status === "archived") {
+        const entries = await listLeaderboardFinalStandings(seasonId, category, offset + limit);
+        return { timestamp: Date.now(), season, category, final: true, entries: entries.slice(offset) };
       }
-      return b.powerScore - a.powerScore;
-    });
+    }
+
+    const [entries, total] = await Promise.all([
+      listLeaderboardStandings(seasonId, category, limit, offset),
+      countLeaderboardEntries(seasonId, category),
+    ]);
+    return { timestamp: Date.now(), seasonId, category, total, entries };
+  });
 
-    const entries: LeaderboardEntry[] = players.slice(0, limit).map((p, i) => ({
-      rank: i + 1,
-      entityId: p.entity.id,
-      name: p.entity.name,
-      level: p.entity.level ?? 1,
-      xp: p.entity.xp ?? 0,
-      kills: p.entity.kills ?? 0,
-      raceId: p.entity.raceId ?? null,
-      classId: p.entity.classId ?? null,
-      zoneId: p.zoneId,
-      powerScore: p.powerScore,
-    }));
-
-    return { timestamp: Date.now(), sortBy, entries };
+  // GET /leaderboard/rank/:walletAddress — where a wallet's characters place
+  server.get<{
+    Params: { walletAddress: string };
+    Querystring: { category?: string; season?: string };
+  }>("/leaderboard/rank/:walletAddress", async (request, reply) => {
+    const { walletAddress } = request.params;
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      return reply.code(400).send({ error: "Invalid wallet address" });
+    }
+    const seasonParam = request.query.season ?? ALL_TIME_SEASON_ID;
+    const seasonId = seasonParam === "current" ? getActiveSeasonId() : seasonParam;
+    if (!seasonId) {
+      return reply.code(404).send({ error: "No season is active" });
+    }
+    const categories = request.query.category
+      ? [request.query.category]
+      : [...LEADERBOARD_CATEGORIES];
+    if (!categories.every(isLeaderboardCategory)) {
+      return reply.code(400).send({
+        error: `Invalid category. Must be one of: ${LEADERBOARD_CATEGORIES.join(", ")}`,
+      });
+    }
+
+    const ranks: Record<string, unknown> = {};
+    for (const category of categories) {
+      ranks[category] = await getLeaderboardStandingsForWallet(seasonId, category, walletAddress);
+    }
+    return { walletAddress, seasonId, ranks };
   });
+
+  // GET /leaderboard/seasons — every season with its schedule and rewards
+  server.get("/leaderboard/seasons", async () => {
+    return { activeSeasonId: getActiveSeasonId(), seasons: await listLeaderboardSeasons() };
+  });
+
+  // GET /leaderboard/seasons/:seasonId — one season, with the top of each
+  // category's final standings once archived
+  server.get<{
+    Params: { seasonId: string };
+    Querystring: { limit?: string };
+  }>("/leaderboard/seasons/:seasonId", async (request, reply) => {
+    const season = await getLeaderboardSeason(request.params.seasonId);
+    if (!season) return reply.code(404).send({ error: "Season not found" });
+    if (season.status !== "archived") return { season };
+
+    const limit = Math.min(100, Math.max(1, Number(request.query.limit) || 10));
+    const finalStandings: Record<string, unknown> = {};
+    for (const category of LEADERBOARD_CATEGORIES) {
+      finalStandings[category] = await listLeaderboardFinalStandings(season.seasonId, category, limit);
+    }
+    return { season, finalStandings };
+  });
+
+  // POST /admin/leaderboard/seasons — schedule a season and its rewards
+  server.post("/admin/leaderboard/seasons", async (request, reply) => {
+    if (!verifyAdmin(request, reply)) return;
+    if (!isPostgresConfigured()) {
+      return reply.code(503).send({ error: "Seasons need persistent storage" });
+    }
+    const check = validateSeasonInput(request.body, await listLeaderboardSeasons());
+    if (!check.valid) return reply.code(400).send({ error: check.error });
+    await createLeaderboardSeason(check.season);
+    return { ok: true, season: check.season };
+  });
+
+  // POST /admin/leaderboard/seasons/:seasonId/archive — end a season early
+  server.post<{ Params: { seasonId: string } }>(
+    "/admin/leaderboard/seasons/:seasonId/archive",
+    async (request, reply) => {
+      if (!verifyAdmin(request, reply)) return;
+      const result = await archiveSeason(server, request.params.seasonId);
+      if (!result) {
+        return reply.code(404).send({ error: "Season not found or already archived" });
+      }
+      return { ok: true, ...result };
+    }
+  );
 }
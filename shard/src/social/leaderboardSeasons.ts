@@ -0,0 +1,156 @@
+// ── Leaderboard categories, seasons and rewards ─────────────────────
+//
+// Pure definitions shared by the leaderboard service and its routes.
+// Scores are kept per character for the running "all-time" board and for
+// the active season. Gauge categories store the latest value (a level or
+// rating can go down); counter categories accumulate for the season.
+
+import type { Entity } from "../world/zoneRuntime.js";
+
+export const LEADERBOARD_CATEGORIES = [
+  "power",
+  "level",
+  "kills",
+  "pvp_elo",
+  "profession_skill",
+  "gold_earned",
+  "dungeon_clears",
+  "quests_completed",
+] as const;
+
+export type LeaderboardCategory = (typeof LEADERBOARD_CATEGORIES)[number];
+
+const GAUGE_CATEGORIES = new Set<LeaderboardCategory>(["power", "level", "pvp_elo", "profession_skill"]);
+
+/** Season id for standings that never reset. */
+export const ALL_TIME_SEASON_ID = "all-time";
+
+export type LeaderboardSeasonStatus = "scheduled" | "active" | "archived";
+
+export interface SeasonReward {
+  category: LeaderboardCategory;
+  /** Inclusive rank range, 1-based. */
+  fromRank: number;
+  toRank: number;
+  copper?: number;
+  itemTokenId?: number;
+  itemQuantity?: number;
+  title?: string;
+}
+
+export interface LeaderboardSeason {
+  seasonId: string;
+  name: string;
+  startsAt: number;
+  endsAt: number;
+  status: LeaderboardSeasonStatus;
+  rewards: SeasonReward[];
+  archivedAt?: number;
+}
+
+export function isLeaderboardCategory(value: unknown): value is LeaderboardCategory {
+  return typeof value === "string" && (LEADERBOARD_CATEGORIES as readonly string[]).includes(value);
+}
+
+export function isGaugeCategory(category: LeaderboardCategory): boolean {
+  return GAUGE_CATEGORIES.has(category);
+}
+
+export function computePowerScore(entity: Pick<Entity, "level" | "kills" | "effectiveStats">): number {
+  const level = entity.level ?? 1;
+  const kills = entity.kills ?? 0;
+  const stats = entity.effectiveStats;
+
+  let score = level * 100 + kills * 10;
+
+  if (stats) {
+    score +=
+      stats.str * 2 +
+      stats.def * 1.5 +
+      stats.agi * 1.5 +
+      stats.int * 2 +
+      stats.hp * 0.5 +
+      stats.mp * 0.5 +
+      stats.faith * 1 +
+      stats.luck * 0.5;
+  }
+
+  return Math.round(score);
+}
+
+/** Where a season should be given the clock; archived seasons stay archived. */
+export function resolveSeasonStatus(season: LeaderboardSeason, now: number): LeaderboardSeasonStatus {
+  if (season.status === "archived") return "archived";
+  if (now < season.startsAt) return "scheduled";
+  if (now < season.endsAt) return "active";
+  return "archived";
+}
+
+export function validateSeasonInput(
+  raw: unknown,
+  existing: LeaderboardSeason[],
+): { valid: true; season: LeaderboardSeason } | { valid: false; error: string } {
+  if (!raw || typeof raw !== "object") return { valid: false, error: "Season body is required" };
+  const input = raw as Record<string, unknown>;
+
+  const seasonId = typeof input.seasonId === "string" ? input.seasonId.trim() : "";
+  if (!/^[a-z0-9][a-z0-9-]{1,47}$/.test(seasonId) || seasonId === ALL_TIME_SEASON_ID) {
+    return { valid: false, error: "seasonId must be 2-48 lowercase letters, digits or dashes" };
+  }
+  if (existing.some((s) => s.seasonId === seasonId)) {
+    return { valid: false, error: `Season ${seasonId} already exists` };
+  }
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) return { valid: false, error: "name is required" };
+
+  const startsAt = Date.parse(String(input.startsAt ?? ""));
+  const endsAt = Date.parse(String(input.endsAt ?? ""));
+  if (!Number.isFinite(startsAt) || !Number.isFinite(endsAt)) {
+    return { valid: false, error: "startsAt and endsAt must be ISO dates" };
+  }
+  if (endsAt <= startsAt) return { valid: false, error: "endsAt must be after startsAt" };
+  if (endsAt <= Date.now()) return { valid: false, error: "endsAt must be in the future" };
+
+  const overlap = existing.find((s) => s.status !== "archived" && startsAt < s.endsAt && s.startsAt < endsAt);
+  if (overlap) return { valid: false, error: `Overlaps season ${overlap.seasonId}` };
+
+  const rewards: SeasonReward[] = [];
+  for (const [i, r] of (Array.isArray(input.rewards) ? input.rewards : []).entries()) {
+    const reward = r as Partial<SeasonReward>;
+    if (!isLeaderboardCategory(reward.category)) {
+      return { valid: false, error: `rewards[${i}].category must be one of ${LEADERBOARD_CATEGORIES.join(", ")}` };
+    }
+    const fromRank = Number(reward.fromRank);
+    const toRank = Number(reward.toRank);
+    if (!Number.isInteger(fromRank) || !Number.isInteger(toRank) || fromRank < 1 || toRank < fromRank) {
+      return { valid: false, error: `rewards[${i}] needs 1 <= fromRank <= toRank` };
+    }
+    if (!reward.copper && !reward.itemTokenId && !reward.title) {
+      return { valid: false, error: `rewards[${i}] must grant copper, an item or a title` };
+    }
+    rewards.push({
+      category: reward.category,
+      fromRank,
+      toRank,
+      ...(reward.copper && { copper: Math.max(0, Math.floor(Number(reward.copper))) }),
+      ...(reward.itemTokenId && {
+        itemTokenId: Number(reward.itemTokenId),
+        itemQuantity: Math.max(1, Math.floor(Number(reward.itemQuantity ?? 1))),
+      }),
+      ...(reward.title && { title: String(reward.title) }),
+    });
+  }
+
+  const season: LeaderboardSeason = { seasonId, name, startsAt, endsAt, status: "scheduled", rewards };
+  season.status = resolveSeasonStatus(season, Date.now()) === "active" ? "active" : "scheduled";
+  return { valid: true, season };
+}
+
+/** Rewards a final rank earns in one category. */
+export function getSeasonRewardsForRank(
+  rewards: SeasonReward[],
+  category: LeaderboardCategory,
+  rank: number,
+): SeasonReward[] {
+  return rewards.filter((r) => r.category === category && rank >= r.fromRank && rank <= r.toRank);
+}
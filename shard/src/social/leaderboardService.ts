@@ -0,0 +1,260 @@
+import type { FastifyInstance } from "fastify";
+import { enqueueGoldMint, enqueueItemMint } from "../blockchain/blockchain.js";
+import { copperToGold } from "../blockchain/currency.js";
+import { normalizeStoredCharacterName } from "../character/characterProjectionStore.js";
+import { pvpBattleManager } from "../combat/pvpBattleManager.js";
+import { isPostgresConfigured } from "../db/postgres.js";
+import {
+  applyLeaderboardScoreUpdates,
+  archiveLeaderboardSeason,
+  getLeaderboardSeason,
+  listLeaderboardSeasons,
+  listLeaderboardStandings,
+  upsertLeaderboardSeason,
+  type LeaderboardFinalStanding,
+  type LeaderboardScoreUpdate,
+} from "../db/leaderboardStore.js";
+import { getProfessionSkills } from "../professions/professionXp.js";
+import { getAllEntities, type Entity } from "../world/zoneRuntime.js";
+import {
+  ALL_TIME_SEASON_ID,
+  LEADERBOARD_CATEGORIES,
+  computePowerScore,
+  getSeasonRewardsForRank,
+  isGaugeCategory,
+  resolveSeasonStatus,
+  type LeaderboardCategory,
+  type LeaderboardSeason,
+} from "./leaderboardSeasons.js";
+
+const FLUSH_INTERVAL_MS = Math.max(
+  10_000,
+  Number.parseInt(process.env.LEADERBOARD_FLUSH_INTERVAL_MS ?? "60000", 10) || 60_000
+); // 1 minute default
+
+/** Final standings kept per category when a season is archived. */
+const FINAL_STANDINGS_LIMIT = 100;
+
+interface PendingCounter {
+  walletAddress: string;
+  normalizedName: string;
+  characterName: string;
+  classId: string | null;
+  raceId: string | null;
+  category: LeaderboardCategory;
+  amount: number;
+}
+
+// Counter increments buffered between flushes, keyed by character + category
+const pendingCounters = new Map<string, PendingCounter>();
+let activeSeasonId: string | null = null;
+
+function getCharacterIdentity(entity: Entity) {
+  if (entity.type !== "player" || !entity.walletAddress) return null;
+  const normalizedName = normalizeStoredCharacterName(entity.name);
+  if (!normalizedName) return null;
+  return {
+    walletAddress: entity.walletAddress.toLowerCase(),
+    normalizedName,
+    characterName: entity.name,
+    classId: entity.classId ?? null,
+    raceId: entity.raceId ?? null,
+  };
+}
+
+/**
+ * Count a kill, clear, quest or gold gain toward the all-time and current
+ * season boards. Buffered in memory and written on the next flush.
+ */
+export function recordLeaderboardStat(
+  entity: Entity | undefined,
+  category: LeaderboardCategory,
+  amount = 1,
+): void {
+  if (!entity || !isPostgresConfigured() || isGaugeCategory(category)) return;
+  if (!Number.isFinite(amount) || amount <= 0) return;
+  const identity = getCharacterIdentity(entity);
+  if (!identity) return;
+
+  const key = `${identity.walletAddress}:${identity.normalizedName}:${category}`;
+  const pending = pendingCounters.get(key);
+  if (pending) {
+    pending.amount += amount;
+    pending.characterName = identity.characterName;
+  } else {
+    pendingCounters.set(key, { ...identity, category, amount });
+  }
+}
+
+export function getActiveSeasonId(): string | null {
+  return activeSeasonId;
+}
+
+function sumProfessionSkill(walletAddress: string): number {
+  return Object.values(getProfessionSkills(walletAddress))
+    .reduce((sum, skill) => sum + (skill.level ?? 0), 0);
+}
+
+function collectGaugeSnapshots(): Array<Omit<LeaderboardScoreUpdate, "seasonId">> {
+  const updates: Array<Omit<LeaderboardScoreUpdate, "seasonId">> = [];
+  for (const entity of getAllEntities().values()) {
+    const identity = getCharacterIdentity(entity);
+    if (!identity) continue;
+    const gauges: Record<"power" | "level" | "pvp_elo" | "profession_skill", number | undefined> = {
+      power: computePowerScore(entity),
+      level: entity.level ?? 1,
+      pvp_elo: pvpBattleManager.getPlayerStats(entity.id)?.elo,
+      profession_skill: sumProfessionSkill(identity.walletAddress),
+    };
+    for (const [category, value] of Object.entries(gauges) as Array<[LeaderboardCategory, number | undefined]>) {
+      if (value === undefined) continue;
+      updates.push({ ...identity, category, mode: "set", value });
+    }
+  }
+  return updates;
+}
+
+/** Write buffered counters and live gauge values for every online player. */
+export async function flushLeaderboardScores(): Promise<number> {
+  if (!isPostgresConfigured()) return 0;
+
+  const counters = Array.from(pendingCounters.values());
+  pendingCounters.clear();
+  const base: Array<Omit<LeaderboardScoreUpdate, "seasonId">> = [
+    ...counters.map(({ amount, ...rest }) => ({ ...rest, mode: "add" as const, value: amount })),
+    ...collectGaugeSnapshots(),
+  ];
+
+  const seasonIds = activeSeasonId ? [ALL_TIME_SEASON_ID, activeSeasonId] : [ALL_TIME_SEASON_ID];
+  const updates = seasonIds.flatMap((seasonId) => base.map((u) => ({ ...u, seasonId })));
+
+  try {
+    await applyLeaderboardScoreUpdates(updates);
+  } catch (err) {
+    // Put counters back so a transient database error doesn't drop progress
+    for (const counter of counters) {
+      const key = `${counter.walletAddress}:${counter.normalizedName}:${counter.category}`;
+      const pending = pendingCounters.get(key);
+      if (pending) pending.amount += counter.amount;
+      else pendingCounters.set(key, counter);
+    }
+    throw err;
+  }
+  return updates.length;
+}
+
+export async function createLeaderboardSeason(season: LeaderboardSeason): Promise<void> {
+  await upsertLeaderboardSeason(season);
+  if (season.status === "active") activeSeasonId = season.seasonId;
+}
+
+/**
+ * Rank every category, pay out rewards and freeze the standings. Rewards are
+ * queued after the archive commits so a failed archive never double-pays.
+ * Returns null when the season is missing or was already archived.
+ */
+export async function archiveSeason(
+  server: FastifyInstance,
+  seasonId: string,
+): Promise<{ seasonId: string; standings: number; rewardsGranted: number } | null> {
+  const season = await getLeaderboardSeason(seasonId);
+  if (!season || season.status === "archived") return null;
+
+  // Capture the last minute of progress before ranking
+  await flushLeaderboardScores();
+
+  const standings: Array<{ category: LeaderboardCategory } & LeaderboardFinalStanding> = [];
+  for (const category of LEADERBOARD_CATEGORIES) {
+    const ranked = await listLeaderboardStandings(seasonId, category, FINAL_STANDINGS_LIMIT);
+    for (const entry of ranked) {
+      standings.push({
+        category,
+        ...entry,
+        rewards: getSeasonRewardsForRank(season.rewards, category, entry.rank),
+      });
+    }
+  }
+
+  // The tick and the admin route can race here; only the caller whose
+  // conditional update archived the season pays out its rewards.
+  const archived = await archiveLeaderboardSeason(seasonId, standings);
+  if (activeSeasonId === seasonId) activeSeasonId = null;
+  if (!archived) return null;
+
+  let rewardsGranted = 0;
+  for (const standing of standings) {
+    for (const reward of standing.rewards) {
+      try {
+        if (reward.copper) {
+          await enqueueGoldMint(standing.walletAddress, copperToGold(reward.copper).toString());
+        }
+        if (reward.itemTokenId) {
+          await enqueueItemMint(
+            standing.walletAddress,
+            BigInt(reward.itemTokenId),
+            BigInt(reward.itemQuantity ?? 1)
+          );
+        }
+        rewardsGranted++;
+      } catch (err) {
+        server.log.error(
+          err,
+          `[leaderboard] Failed to grant ${seasonId} ${standing.category} rank ${standing.rank} reward to ${standing.walletAddress}`
+        );
+      }
+    }
+  }
+
+  server.log.info(
+    `[leaderboard] Archived season ${seasonId}: ${standings.length} standings, ${rewardsGranted} rewards granted`
+  );
+  return { seasonId, standings: standings.length, rewardsGranted };
+}
+
+/** Start scheduled seasons whose time has come and archive finished ones. */
+async function advanceSeasons(server: FastifyInstance): Promise<void> {
+  const now = Date.now();
+  let current: string | null = null;
+  for (const season of await listLeaderboardSeasons()) {
+    if (season.status === "archived") continue;
+    const status = resolveSeasonStatus(season, now);
+    if (status === "archived") {
+      await archiveSeason(server, season.seasonId);
+    } else if (status === "active") {
+      if (season.status !== "active") {
+        await upsertLeaderboardSeason({ ...season, status: "active" });
+        server.log.info(`[leaderboard] Season ${season.seasonId} started`);
+      }
+      current = season.seasonId;
+    }
+  }
+  activeSeasonId = current;
+}
+
+async function leaderboardTick(server: FastifyInstance) {
+  if (!isPostgresConfigured()) return;
+  await advanceSeasons(server);
+  await flushLeaderboardScores();
+}
+
+/**
+ * Register the leaderboard tick with the server.
+ * Flushes scores and rolls seasons over once a minute.
+ */
+export function registerLeaderboardTick(server: FastifyInstance) {
+  server.log.info(`Registering leaderboard tick (${FLUSH_INTERVAL_MS / 1000}s interval)`);
+
+  const tickInterval = setInterval(() => {
+    leaderboardTick(server).catch((err) => {
+      server.log.error(err, "Unhandled error in leaderboard tick");
+    });
+  }, FLUSH_INTERVAL_MS);
+
+  server.addHook("onClose", async () => {
+    clearInterval(tickInterval);
+    await flushLeaderboardScores().catch((err) => {
+      server.log.error(err, "[leaderboard] Final flush failed");
+    });
+    server.log.info("Leaderboard tick stopped");
+  });
+}
@@ -0,0 +1,229 @@
+// ── NPC relationships ───────────────────────────────────────────────
+//
+// Each player has a relationship with every named NPC they deal with: an
+// affinity score that moves with conversations, gifts and quests done for
+// that NPC, plus a short list of remembered moments the NPC can bring up
+// later. Affinity tiers unlock warmer dialogue, merchant discounts and
+// quest graph branches (`npc_affinity_at_least`).
+
+export type NpcMemoryKind = "conversation" | "gift" | "quest";
+
+export interface NpcMemory {
+  kind: NpcMemoryKind;
+  summary: string;
+  affinityDelta: number;
+  at: number;
+}
+
+export interface NpcRelationship {
+  walletAddress: string;
+  npcName: string;
+  affinity: number;
+  conversationCount: number;
+  giftsGiven: number;
+  questsCompleted: number;
+  memories: NpcMemory[];
+  /** UTC day (days since the epoch) that `giftAffinityToday` counts. */
+  giftAffinityDay: number;
+  /**
+   * Affinity gifts have earned on `giftAffinityDay`. Kept apart from
+   * `memories`, which only hold the last few moments and so can't cap a day.
+   */
+  giftAffinityToday: number;
+  lastInteractionAt: number;
+}
+
+export type NpcAffinityTierId = "hostile" | "wary" | "neutral" | "friendly" | "trusted" | "devoted";
+
+export interface NpcAffinityTier {
+  id: NpcAffinityTierId;
+  label: string;
+  minAffinity: number;
+  shopDiscountPct: number;
+}
+
+export const NPC_AFFINITY_MIN = -100;
+export const NPC_AFFINITY_MAX = 100;
+
+/** Ordered lowest first. */
+export const NPC_AFFINITY_TIERS: NpcAffinityTier[] = [
+  { id: "hostile", label: "Hostile", minAffinity: NPC_AFFINITY_MIN, shopDiscountPct: 0 },
+  { id: "wary", label: "Wary", minAffinity: -30, shopDiscountPct: 0 },
+  { id: "neutral", label: "Neutral", minAffinity: 0, shopDiscountPct: 0 },
+  { id: "friendly", label: "Friendly", minAffinity: 20, shopDiscountPct: 3 },
+  { id: "trusted", label: "Trusted", minAffinity: 50, shopDiscountPct: 7 },
+  { id: "devoted", label: "Devoted", minAffinity: 80, shopDiscountPct: 12 },
+];
+
+export const NPC_AFFINITY_GAINS = {
+  conversation: 1,
+  questCompleted: 10,
+} as const;
+
+/** Talking again within this window continues the same remembered conversation. */
+export const NPC_CONVERSATION_SESSION_MS = 30 * 60 * 1000;
+/** Gifts stop raising affinity with one NPC past this much in a UTC day. */
+export const NPC_GIFT_DAILY_AFFINITY_CAP = 15;
+export const MAX_NPC_MEMORIES = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function createNpcRelationship(walletAddress: string, npcName: string, now = Date.now()): NpcRelationship {
+  return {
+    walletAddress: walletAddress.toLowerCase(),
+    npcName,
+    affinity: 0,
+    conversationCount: 0,
+    giftsGiven: 0,
+    questsCompleted: 0,
+    memories: [],
+    giftAffinityDay: getUtcDay(now),
+    giftAffinityToday: 0,
+    lastInteractionAt: now,
+  };
+}
+
+export function clampAffinity(affinity: number): number {
+  return Math.max(NPC_AFFINITY_MIN, Math.min(NPC_AFFINITY_MAX, Math.round(affinity)));
+}
+
+export function getNpcAffinityTier(affinity: number): NpcAffinityTier {
+  let tier = NPC_AFFINITY_TIERS[0];
+  for (const candidate of NPC_AFFINITY_TIERS) {
+    if (affinity >= candidate.minAffinity) tier = candidate;
+  }
+  return tier;
+}
+
+export function isAffinityTierAtLeast(affinity: number, tierId: NpcAffinityTierId): boolean {
+  const tier = NPC_AFFINITY_TIERS.find((entry) => entry.id === tierId);
+  return tier ? affinity >= tier.minAffinity : false;
+}
+
+/** Apply a merchant's affinity discount to a unit price (never below 1). */
+export function applyAffinityDiscount(price: number, affinity: number): number {
+  const { shopDiscountPct } = getNpcAffinityTier(affinity);
+  if (shopDiscountPct <= 0) return price;
+  return Math.max(1, Math.floor((price * (100 - shopDiscountPct)) / 100));
+}
+
+/** Affinity a gift is worth before the daily cap: grows with the square root of its value. */
+export function getGiftAffinityValue(totalCopperValue: number): number {
+  if (!(totalCopperValue > 0)) return 1;
+  return Math.max(1, Math.min(10, Math.round(Math.sqrt(totalCopperValue / 20))));
+}
+
+function getUtcDay(at: number): number {
+  return Math.floor(at / DAY_MS);
+}
+
+export function getGiftAffinityToday(relationship: NpcRelationship, now = Date.now()): number {
+  return relationship.giftAffinityDay === getUtcDay(now) ? relationship.giftAffinityToday : 0;
+}
+
+function clip(text: string, max: number): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+export function summarizeConversation(playerMessage: string, intent: string): string {
+  return `They said "${clip(playerMessage, 80)}" and I answered with ${intent.replace(/_/g, " ")}.`;
+}
+
+function pushMemory(relationship: NpcRelationship, memory: NpcMemory): void {
+  relationship.memories.push(memory);
+  if (relationship.memories.length > MAX_NPC_MEMORIES) {
+    relationship.memories.splice(0, relationship.memories.length - MAX_NPC_MEMORIES);
+  }
+}
+
+function adjust(relationship: NpcRelationship, delta: number, now: number): number {
+  const before = relationship.affinity;
+  relationship.affinity = clampAffinity(before + delta);
+  relationship.lastInteractionAt = now;
+  return relationship.affinity - before;
+}
+
+/**
+ * Remember a conversation. Affinity rises once per session; follow-up
+ * messages in the same session replace that session's summary.
+ */
+export function applyConversation(
+  relationship: NpcRelationship,
+  playerMessage: string,
+  intent: string,
+  now = Date.now(),
+): number {
+  relationship.conversationCount += 1;
+  const summary = summarizeConversation(playerMessage, intent);
+  const last = relationship.memories[relationship.memories.length - 1];
+  if (last?.kind === "conversation" && now - last.at < NPC_CONVERSATION_SESSION_MS) {
+    last.summary = summary;
+    last.at = now;
+    relationship.lastInteractionAt = now;
+    return 0;
+  }
+  const delta = adjust(relationship, NPC_AFFINITY_GAINS.conversation, now);
+  pushMemory(relationship, { kind: "conversation", summary, affinityDelta: delta, at: now });
+  return delta;
+}
+
+export function applyGift(
+  relationship: NpcRelationship,
+  itemName: string,
+  quantity: number,
+  totalCopperValue: number,
+  now = Date.now(),
+): number {
+  const room = Math.max(0, NPC_GIFT_DAILY_AFFINITY_CAP - getGiftAffinityToday(relationship, now));
+  const delta = adjust(relationship, Math.min(room, getGiftAffinityValue(totalCopperValue)), now);
+  relationship.giftAffinityToday = getGiftAffinityToday(relationship, now) + Math.max(0, delta);
+  relationship.giftAffinityDay = getUtcDay(now);
+  relationship.giftsGiven += 1;
+  pushMemory(relationship, {
+    kind: "gift",
+    summary: `They gave me ${quantity > 1 ? `${quantity}x ` : ""}${itemName}.`,
+    affinityDelta: delta,
+    at: now,
+  });
+  return delta;
+}
+
+export function applyQuestCompleted(relationship: NpcRelationship, questTitle: string, now = Date.now()): number {
+  const delta = adjust(relationship, NPC_AFFINITY_GAINS.questCompleted, now);
+  relationship.questsCompleted += 1;
+  pushMemory(relationship, {
+    kind: "quest",
+    summary: `They finished "${questTitle}" for me.`,
+    affinityDelta: delta,
+    at: now,
+  });
+  return delta;
+}
+
+/**
+ * A gift or quest the NPC hasn't talked about yet, i.e. one newer than the
+ * last conversation. Bringing it up records a conversation, so it's said once.
+ */
+export function getMemorableMoment(relationship: NpcRelationship): NpcMemory | undefined {
+  const last = relationship.memories[relationship.memories.length - 1];
+  return last && last.kind !== "conversation" ? last : undefined;
+}
+
+export function toPublicRelationship(relationship: NpcRelationship) {
+  const tier = getNpcAffinityTier(relationship.affinity);
+  const nextTier = NPC_AFFINITY_TIERS.find((entry) => entry.minAffinity > relationship.affinity) ?? null;
+  return {
+    npcName: relationship.npcName,
+    affinity: relationship.affinity,
+    tier: tier.id,
+    tierLabel: tier.label,
+    shopDiscountPct: tier.shopDiscountPct,
+    nextTier: nextTier ? { id: nextTier.id, minAffinity: nextTier.minAffinity } : null,
+    conversationCount: relationship.conversationCount,
+    giftsGiven: relationship.giftsGiven,
+    questsCompleted: relationship.questsCompleted,
+    memories: relationship.memories.map((memory) => ({ kind: memory.kind, summary: memory.summary, at: memory.at })),
+    lastInteractionAt: relationship.lastInteractionAt,
+  };
+}
@@ -1,12 +1,23 @@
 import type { FastifyInstance } from "fastify";
 import { authenticateRequest, walletsMatch } from "../auth/auth.js";
 import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
-import { getEntity } from "../world/zoneRuntime.js";
+import { enqueueItemBurn, getItemBalance } from "../blockchain/blockchain.js";
+import { getItemByTokenId } from "../items/itemCatalog.js";
+import { getEquippedItemCounts, getRecyclableQuantity } from "../items/inventoryState.js";
+import { withWalletItemLock } from "../items/walletItemLock.js";
+import { getEntity, type Entity } from "../world/zoneRuntime.js";
 import { isQuestNpc } from "./questSystem.js";
 import {
   generateNpcDialogueResponse,
   type NpcDialogueHistoryEntry,
 } from "./npcDialogueService.js";
+import { toPublicRelationship } from "./npcAffinity.js";
+import {
+  getNpcRelationship,
+  loadNpcRelationships,
+  recordNpcConversation,
+  recordNpcGift,
+} from "./npcMemoryService.js";
 
 interface NpcDialogueBody {
   npcEntityId: string;
@@ -16,6 +27,25 @@ interface NpcDialogueBody {
   recentHistory?: NpcDialogueHistoryEntry[];
 }
 
+interface NpcGiftBody {
+  npcEntityId: string;
+  entityId?: string;
+  playerId?: string;
+  tokenId: number;
+  quantity?: number;
+}
+
+const DIALOGUE_NPC_TYPES = new Set([
+  "quest-giver", "lore-npc", "trainer", "profession-trainer",
+  "merchant", "crafting-master", "guild-registrar", "auctioneer",
+  "arena-master", "forge", "alchemy-lab", "enchanting-altar",
+  "campfire", "tanning-rack", "jewelers-bench",
+]);
+
+function isDialogueNpc(npc: Entity): boolean {
+  return DIALOGUE_NPC_TYPES.has(npc.type) || npc.name === "Scout Kaela";
+}
+
 async function playerWalletMatches(authenticatedWallet: string, playerWalletAddress?: string): Promise<boolean> {
   if (walletsMatch(authenticatedWallet, playerWalletAddress)) return true;
   const custodialWallet = await getAgentCustodialWallet(authenticatedWallet);
@@ -53,24 +83,139 @@ export function registerNpcDialogueRoutes(server: FastifyInstance): void {
       return { error: "NPC not found" };
     }
 
-    const DIALOGUE_NPC_TYPES = new Set([
-      "quest-giver", "lore-npc", "trainer", "profession-trainer",
-      "merchant", "crafting-master", "guild-registrar", "auctioneer",
-      "arena-master", "forge", "alchemy-lab", "enchanting-altar",
-      "campfire", "tanning-rack", "jewelers-bench",
-    ]);
-    if (!DIALOGUE_NPC_TYPES.has(npc.type) && npc.name !== "Scout Kaela") {
+    if (!isDialogueNpc(npc)) {
       reply.code(400);
       return { error: "This NPC has nothing to say" };
     }
 
+    const relationship = player.walletAddress
+      ? await getNpcRelationship(player.walletAddress, npc.name).catch((err) => {
+          request.log.warn(err, `[npc-memory] Failed to load relationship with ${npc.name}`);
+          return undefined;
+        })
+      : undefined;
+
     const response = await generateNpcDialogueResponse({
       npc,
       player,
       message,
       recentHistory: request.body.recentHistory ?? [],
+      relationship,
     });
 
+    if (player.walletAddress) {
+      void recordNpcConversation(player.walletAddress, npc.name, message, response.intent).catch((err) => {
+        request.log.warn(err, `[npc-memory] Failed to record conversation with ${npc.name}`);
+      });
+    }
+
     return reply.send(response);
   });
+
+  /**
+   * POST /npc/gift { entityId, npcEntityId, tokenId, quantity }
+   * Give an item to an NPC. The item is destroyed and the NPC's affinity
+   * for the player rises with its value (capped per day).
+   */
+  server.post<{ Body: NpcGiftBody }>("/npc/gift", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const authenticatedWallet = (request as any).walletAddress as string;
+    const playerId = request.body.entityId || request.body.playerId;
+    const { npcEntityId, tokenId } = request.body;
+    const quantity = request.body.quantity ?? 1;
+
+    if (!playerId || !npcEntityId || tokenId == null) {
+      reply.code(400);
+      return { error: "entityId (or playerId), npcEntityId, and tokenId are required" };
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > 100) {
+      reply.code(400);
+      return { error: "Quantity must be between 1 and 100" };
+    }
+
+    const player = getEntity(playerId);
+    if (!player || player.type !== "player" || !player.walletAddress) {
+      reply.code(404);
+      return { error: "Player not found" };
+    }
+    if (!(await playerWalletMatches(authenticatedWallet, player.walletAddress))) {
+      reply.code(403);
+      return { error: "Not authorized to gift on behalf of this player" };
+    }
+
+    const npc = getEntity(npcEntityId);
+    if (!npc || !isDialogueNpc(npc)) {
+      reply.code(404);
+      return { error: "NPC not found" };
+    }
+
+    const item = getItemByTokenId(BigInt(tokenId));
+    if (!item) {
+      reply.code(400);
+      return { error: `Unknown tokenId: ${tokenId}` };
+    }
+
+    try {
+      const wallet = player.walletAddress;
+      // Two gifts at once must not both pass the balance check before either burn lands
+      const shortfall = await withWalletItemLock(wallet, async () => {
+        const balance = Number(await getItemBalance(wallet, BigInt(tokenId)));
+        const equippedCount = (await getEquippedItemCounts(wallet)).get(tokenId) ?? 0;
+        if (quantity > getRecyclableQuantity(balance, equippedCount)) {
+          return equippedCount > 0 ? "Unequip that item before giving it away" : "You don't have enough of this item";
+        }
+        await enqueueItemBurn(wallet, BigInt(tokenId), BigInt(quantity));
+        return null;
+      });
+      if (shortfall) {
+        reply.code(400);
+        return { error: shortfall };
+      }
+
+      const { relationship, affinityDelta } = await recordNpcGift(
+        player.walletAddress,
+        npc.name,
+        item.name,
+        quantity,
+        item.copperPrice * quantity,
+      );
+
+      return {
+        ok: true,
+        npcName: npc.name,
+        item: item.name,
+        quantity,
+        affinityDelta,
+        relationship: toPublicRelationship(relationship),
+      };
+    } catch (err) {
+      request.log.error(err, `[npc-memory] Gift to ${npc.name} failed`);
+      reply.code(500);
+      return { error: "Failed to give gift" };
+    }
+  });
+
+  /**
+   * GET /npc/relationships/:walletAddress
+   * Affinity and remembered moments with every NPC the wallet has met.
+   */
+  server.get<{ Params: { walletAddress: string } }>("/npc/relationships/:walletAddress", {
+    preHandler: authenticateRequest,
+  }, async (request, reply) => {
+    const authenticatedWallet = (request as any).walletAddress as string;
+    const { walletAddress } = request.params;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress)) {
+      reply.code(400);
+      return { error: "Invalid wallet address" };
+    }
+    if (!(await playerWalletMatches(authenticatedWallet, walletAddress))) {
+      reply.code(403);
+      return { error: "Not authorized for this wallet" };
+    }
+
+    const relationships = await loadNpcRelationships(walletAddress);
+    return { walletAddress, relationships: relationships.map(toPublicRelationship) };
+  });
 }
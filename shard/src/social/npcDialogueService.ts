@@ -1,6 +1,13 @@
 import type { Entity } from "../world/zoneRuntime.js";
 import { getAvailableQuestsForPlayer, isQuestComplete, QUEST_CATALOG, type ActiveQuest, type Quest } from "./questSystem.js";
+import { describeQuestObjective, getQuestObjectives } from "./questObjectives.js";
 import { getNpcPersona, type NpcPersona } from "./npcPersonas.js";
+import {
+  getMemorableMoment,
+  getNpcAffinityTier,
+  isAffinityTierAtLeast,
+  type NpcRelationship,
+} from "./npcAffinity.js";
 import {
   validateNpcDialogueDraft,
   type NpcDialogueDraft,
@@ -18,6 +25,8 @@ export interface NpcDialogueContext {
   player: Entity;
   message: string;
   recentHistory: NpcDialogueHistoryEntry[];
+  /** What this NPC remembers about the player; absent for wallet-less players. */
+  relationship?: NpcRelationship;
 }
 
 interface QuestStateView {
@@ -43,6 +52,11 @@ export interface NpcDialogueResponse {
     activeQuestIds: string[];
     completableQuestIds: string[];
   };
+  relationship?: {
+    affinity: number;
+    tier: string;
+    shopDiscountPct: number;
+  };
 }
 
 const NPC_DIALOGUE_API_BASE_URL = process.env.NPC_DIALOGUE_API_BASE_URL?.trim() || "";
@@ -78,17 +92,7 @@ function sanitizeHistory(history: NpcDialogueHistoryEntry[]): NpcDialogueHistory
 }
 
 function objectiveLabel(quest: Quest): string {
-  const objective = quest.objective;
-  if (objective.type === "kill") {
-    return `Defeat ${objective.count} ${objective.targetMobName ?? objective.targetMobType ?? "enemies"}`;
-  }
-  if (objective.type === "gather") {
-    return `Gather ${objective.count} ${objective.targetItemName ?? "items"}`;
-  }
-  if (objective.type === "craft") {
-    return `Craft ${objective.count} ${objective.targetItemName ?? "items"}`;
-  }
-  return `Speak with ${objective.targetNpcName ?? "the target"}`;
+  return getQuestObjectives(quest).map(describeQuestObjective).join("; ");
 }
 
 function buildQuestState(player: Entity, npc: Entity): QuestStateView {
@@ -108,7 +112,7 @@ function buildQuestState(player: Entity, npc: Entity): QuestStateView {
       const quest = QUEST_CATALOG.find((candidate) => candidate.id === entry.questId);
       if (!quest || quest.npcId !== npc.name) return null;
       const required = quest.objective.count;
-      const complete = isQuestComplete(quest, entry.progress);
+      const complete = isQuestComplete(quest, entry);
       return { quest, progress: entry.progress, required, complete };
     })
     .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
@@ -160,10 +164,16 @@ function buildDeterministicDraft(
   player: Entity,
   message: string,
   questState: QuestStateView,
+  relationship?: NpcRelationship,
 ): NpcDialogueDraft {
   const text = message.trim().toLowerCase();
   const hasBriefing = (player.storyFlags ?? []).includes(SCOUT_KAELA_BRIEFED_FLAG);
   const pName = player.name ?? "adventurer";
+  const affinity = relationship?.affinity ?? 0;
+  const tier = getNpcAffinityTier(affinity).id;
+  const moment = relationship && isAffinityTierAtLeast(affinity, "friendly")
+    ? getMemorableMoment(relationship)
+    : undefined;
 
   if (npc.name === SCOUT_KAELA_NAME && !hasBriefing) {
     return {
@@ -195,6 +205,18 @@ function buildDeterministicDraft(
     };
   }
 
+  // ── Hostile — only business gets through ──
+  if (tier === "hostile") {
+    return {
+      reply: pick([
+        `${npc.name} doesn't look up. "I've nothing to say to you, ${pName}."`,
+        `"You've got some nerve showing your face here. Move along."`,
+      ], text),
+      intent: "refuse",
+      suggestedActions: [],
+    };
+  }
+
   // ── Keyword: rewards/pay ──
   if (/\b(reward|pay|earn|gold|xp)\b/.test(text) && questState.active.length > 0) {
     const quest = questState.active[0].quest;
@@ -261,6 +283,13 @@ function buildDeterministicDraft(
 
   // ── Keyword: greetings ──
   if (/\b(hello|hi|hey|greetings|howdy|yo|sup|what'?s up|good (morning|evening|day))\b/.test(text)) {
+    if (moment) {
+      return {
+        reply: `${pName}! Good to see a friend. I haven't forgotten — ${moment.summary.replace(/^They /, "you ")}`,
+        intent: "greeting",
+        suggestedActions: defaultSuggestedActions(persona, questState),
+      };
+    }
     if (questState.active.length > 0) {
       const quest = questState.active[0];
       const replies = [
@@ -323,6 +352,19 @@ function buildDeterministicDraft(
 
   // ── Keyword: lore/story/tell me ──
   if (/\b(lore|story|tell me|history|about|rumor|rumour|news)\b/.test(text)) {
+    if (isAffinityTierAtLeast(affinity, "trusted")) {
+      return {
+        reply: pick([
+          `${npc.name} lowers their voice. "Between us, ${pName}? Not everyone in charge here wants these lands safe. Watch who profits when the roads close."`,
+          `"I'll tell you what I don't tell most. The old maps mark places nobody's allowed to talk about. You've earned the right to ask."`,
+        ], text),
+        intent: "lore",
+        suggestedActions: [
+          { label: "Ask for more", prompt: "What else are they hiding?" },
+          ...defaultSuggestedActions(persona, questState).slice(0, 1),
+        ],
+      };
+    }
     const loreReplies = [
       `${npc.name} leans in. "This land has its secrets, ${pName}. Keep your eyes open and your blade sharp."`,
       `"Plenty of history in these walls. But history won't save you — skill will."`,
@@ -392,6 +434,7 @@ function buildSystemPrompt(persona: NpcPersona): string {
     "referencesQuestId must be a quest id string or null.",
     "suggestedActions must be an array of up to 3 objects with label and prompt.",
     "If unsure, choose the safest grounded intent and keep the reply brief.",
+    "relationship describes how you feel about this player and what you remember of them. Let the tier set your warmth and mention a memory only when it fits.",
     'Example JSON: {"reply":"The meadow is not safe after dusk.","intent":"redirect","referencesQuestId":null,"suggestedActions":[{"label":"Ask about work","prompt":"What needs doing right now?"}]}',
     `Speech rules: ${persona.speechStyle.join(" ")}`,
     `Priorities: ${persona.priorities.join(" ")}`,
@@ -492,6 +535,7 @@ function buildModelPrompt(
   message: string,
   history: NpcDialogueHistoryEntry[],
   questState: QuestStateView,
+  relationship?: NpcRelationship,
 ): string {
   return JSON.stringify({
     npc: {
@@ -514,6 +558,12 @@ function buildModelPrompt(
     },
     playerMessage: message,
     recentHistory: history,
+    relationship: {
+      affinity: relationship?.affinity ?? 0,
+      tier: getNpcAffinityTier(relationship?.affinity ?? 0).id,
+      conversationCount: relationship?.conversationCount ?? 0,
+      memories: (relationship?.memories ?? []).slice(-6).map((memory) => memory.summary),
+    },
     questState: {
       available: questState.available.map((quest) => ({
         id: quest.id,
@@ -556,6 +606,7 @@ export async function generateNpcDialogueResponse(
     context.player,
     context.message,
     questState,
+    context.relationship,
   );
   let provider: "deterministic" | "llm" = "deterministic";
 
@@ -570,6 +621,7 @@ export async function generateNpcDialogueResponse(
           context.message,
           history,
           questState,
+          context.relationship,
         ),
       });
       if (llmDraft?.reply) {
@@ -608,5 +660,14 @@ export async function generateNpcDialogueResponse(
       activeQuestIds: questState.active.map((entry) => entry.quest.id),
       completableQuestIds: questState.completable.map((entry) => entry.quest.id),
     },
+    ...(context.relationship
+      ? {
+          relationship: {
+            affinity: context.relationship.affinity,
+            tier: getNpcAffinityTier(context.relationship.affinity).id,
+            shopDiscountPct: getNpcAffinityTier(context.relationship.affinity).shopDiscountPct,
+          },
+        }
+      : {}),
   };
 }
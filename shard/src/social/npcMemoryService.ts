@@ -0,0 +1,106 @@
+import { isPostgresConfigured } from "../db/postgres.js";
+import { listNpcRelationshipsForWallet, upsertNpcRelationship } from "../db/npcRelationshipStore.js";
+import {
+  applyConversation,
+  applyGift,
+  applyQuestCompleted,
+  createNpcRelationship,
+  getNpcAffinityTier,
+  type NpcRelationship,
+} from "./npcAffinity.js";
+
+// Relationships are loaded per wallet and cached so quest graph conditions
+// and merchant pricing can read affinity synchronously. Postgres is the
+// source of truth; without it the cache is all there is.
+
+const RELATIONSHIP_CACHE_TTL_MS = 5 * 60 * 1000;
+
+interface WalletRelationships {
+  loadedAt: number;
+  byNpc: Map<string, NpcRelationship>;
+}
+
+const relationshipCache = new Map<string, WalletRelationships>();
+const inflightLoads = new Map<string, Promise<WalletRelationships>>();
+
+async function loadWallet(walletAddress: string): Promise<WalletRelationships> {
+  const wallet = walletAddress.toLowerCase();
+  const cached = relationshipCache.get(wallet);
+  if (cached && (!isPostgresConfigured() || Date.now() - cached.loadedAt < RELATIONSHIP_CACHE_TTL_MS)) {
+    return cached;
+  }
+
+  let inflight = inflightLoads.get(wallet);
+  if (!inflight) {
+    inflight = listNpcRelationshipsForWallet(wallet)
+      .then((rows) => {
+        const entry: WalletRelationships = {
+          loadedAt: Date.now(),
+          byNpc: new Map(rows.map((row) => [row.npcName, row])),
+        };
+        relationshipCache.set(wallet, entry);
+        return entry;
+      })
+      .finally(() => inflightLoads.delete(wallet));
+    inflightLoads.set(wallet, inflight);
+  }
+  return inflight;
+}
+
+/** Load (or refresh) every NPC relationship for a wallet into the cache. */
+export async function loadNpcRelationships(walletAddress: string): Promise<NpcRelationship[]> {
+  const entry = await loadWallet(walletAddress);
+  return Array.from(entry.byNpc.values()).sort((a, b) => b.lastInteractionAt - a.lastInteractionAt);
+}
+
+/** A wallet's relationship with one NPC; a fresh neutral one if they've never met. */
+export async function getNpcRelationship(walletAddress: string, npcName: string): Promise<NpcRelationship> {
+  const entry = await loadWallet(walletAddress);
+  return entry.byNpc.get(npcName) ?? createNpcRelationship(walletAddress, npcName);
+}
+
+/** Cached affinity for synchronous callers. Call loadNpcRelationships first. */
+export function getCachedNpcAffinity(walletAddress: string | undefined, npcName: string): number {
+  if (!walletAddress) return 0;
+  return relationshipCache.get(walletAddress.toLowerCase())?.byNpc.get(npcName)?.affinity ?? 0;
+}
+
+async function updateRelationship(
+  walletAddress: string,
+  npcName: string,
+  mutate: (relationship: NpcRelationship) => number,
+): Promise<{ relationship: NpcRelationship; affinityDelta: number }> {
+  const entry = await loadWallet(walletAddress);
+  const relationship = entry.byNpc.get(npcName) ?? createNpcRelationship(walletAddress, npcName);
+  const tierBefore = getNpcAffinityTier(relationship.affinity).id;
+  const affinityDelta = mutate(relationship);
+  entry.byNpc.set(npcName, relationship);
+  await upsertNpcRelationship(relationship);
+
+  const tierAfter = getNpcAffinityTier(relationship.affinity).id;
+  if (tierAfter !== tierBefore) {
+    console.log(`[npc-memory] ${relationship.walletAddress} is now ${tierAfter} with ${npcName} (${relationship.affinity})`);
+  }
+  return { relationship, affinityDelta };
+}
+
+export function recordNpcConversation(walletAddress: string, npcName: string, playerMessage: string, intent: string) {
+  return updateRelationship(walletAddress, npcName, (relationship) =>
+    applyConversation(relationship, playerMessage, intent));
+}
+
+export function recordNpcGift(
+  walletAddress: string,
+  npcName: string,
+  itemName: string,
+  quantity: number,
+  totalCopperValue: number,
+) {
+  return updateRelationship(walletAddress, npcName, (relationship) =>
+    applyGift(relationship, itemName, quantity, totalCopperValue));
+}
+
+export function recordNpcQuestCompleted(walletAddress: string, npcName: string, questTitle: string) {
+  return updateRelationship(walletAddress, npcName, (relationship) =>
+    applyQuestCompleted(relationship, questTitle));
+}
@@ -0,0 +1,313 @@
+import fs from "node:fs";
+import path from "node:path";
+import { getItemByTokenId } from "../items/itemCatalog.js";
+import { LOOT_TABLES } from "../items/lootTables.js";
+import { getQuestObjectives, validateQuestObjective, type QuestObjective } from "./questObjectives.js";
+import type { Quest } from "./questSystem.js";
+
+// ── Quest content files ─────────────────────────────────────────────
+// Classic quests live in world/content/quests/*.json (schema:
+// quest.schema.json in the same folder) and load in file-name order, so
+// the numeric prefixes decide catalog order. Parsing rejects malformed
+// quests; validateQuestCatalog then checks the catalog as a whole against
+// the rest of the world content (NPC files, loot tables, item catalog).
+// `npm run validate:quests` runs both from the command line.
+
+export const QUEST_CONTENT_VERSION = 1;
+const SCHEMA_FILE = "quest.schema.json";
+
+export interface QuestContentIssue {
+  severity: "error" | "warning";
+  file?: string;
+  questId?: string;
+  message: string;
+}
+
+export interface QuestReferenceData {
+  npcNames: Set<string>;
+  mobNames: Set<string>;
+  zoneIds: Set<string>;
+}
+
+function resolveContentDir(kind: string): string | null {
+  const prodPath = path.join(process.cwd(), "world", "content", kind);
+  if (fs.existsSync(prodPath)) return prodPath;
+  const devPath = path.join(process.cwd(), "..", "world", "content", kind);
+  if (fs.existsSync(devPath)) return devPath;
+  return null;
+}
+
+export function resolveQuestContentDir(): string | null {
+  return resolveContentDir("quests");
+}
+
+// ── Parsing ─────────────────────────────────────────────────────────
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isNonEmptyString);
+}
+
+function isNonNegativeInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function parseObjective(raw: unknown, at: string): { objective?: QuestObjective; errors: string[] } {
+  if (!isRecord(raw)) return { errors: [`${at} must be an object`] };
+  if (!isNonEmptyString(raw.type)) return { errors: [`${at}.type must be a string`] };
+  const objective = raw as unknown as QuestObjective;
+  const errors = validateQuestObjective(objective).map((issue) => `${at}: ${issue}`);
+  return errors.length > 0 ? { errors } : { objective, errors };
+}
+
+function parseQuest(raw: unknown, at: string): { quest?: Quest; errors: string[] } {
+  if (!isRecord(raw)) return { errors: [`${at} must be an object`] };
+  const errors: string[] = [];
+
+  for (const key of ["id", "title", "description", "npcId"]) {
+    if (!isNonEmptyString(raw[key])) errors.push(`${at}.${key} must be a non-empty string`);
+  }
+  if (raw.prerequisiteQuestId !== undefined && !isNonEmptyString(raw.prerequisiteQuestId)) {
+    errors.push(`${at}.prerequisiteQuestId must be a non-empty string when present`);
+  }
+  for (const key of ["requiredStoryFlags", "grantStoryFlagsOnAccept", "grantStoryFlagsOnComplete"]) {
+    if (raw[key] !== undefined && !isStringArray(raw[key])) errors.push(`${at}.${key} must be an array of strings`);
+  }
+
+  errors.push(...parseObjective(raw.objective, `${at}.objective`).errors);
+  if (raw.extraObjectives !== undefined) {
+    if (!Array.isArray(raw.extraObjectives)) {
+      errors.push(`${at}.extraObjectives must be an array`);
+    } else {
+      raw.extraObjectives.forEach((entry, index) => {
+        errors.push(...parseObjective(entry, `${at}.extraObjectives[${index}]`).errors);
+      });
+    }
+  }
+
+  const rewards = raw.rewards;
+  if (!isRecord(rewards)) {
+    errors.push(`${at}.rewards must be an object`);
+  } else {
+    if (!isNonNegativeInt(rewards.copper)) errors.push(`${at}.rewards.copper must be a non-negative integer`);
+    if (!isNonNegativeInt(rewards.xp)) errors.push(`${at}.rewards.xp must be a non-negative integer`);
+    if (rewards.items !== undefined) {
+      const items = rewards.items;
+      if (!Array.isArray(items) || items.some((item) =>
+        !isRecord(item) || !isNonNegativeInt(item.tokenId) || !isNonNegativeInt(item.quantity) || item.quantity === 0
+      )) {
+        errors.push(`${at}.rewards.items must be an array of { tokenId, quantity }`);
+      }
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { quest: raw as unknown as Quest, errors };
+}
+
+/** Parse one quest file. Malformed quests are dropped and reported. */
+export function parseQuestContentFile(raw: unknown, file: string): { quests: Quest[]; issues: QuestContentIssue[] } {
+  const issues: QuestContentIssue[] = [];
+  if (!isRecord(raw)) return { quests: [], issues: [{ severity: "error", file, message: "file must hold a JSON object" }] };
+  if (raw.version !== QUEST_CONTENT_VERSION) {
+    return {
+      quests: [],
+      issues: [{ severity: "error", file, message: `version must be ${QUEST_CONTENT_VERSION} (got ${JSON.stringify(raw.version)})` }],
+    };
+  }
+  if (!Array.isArray(raw.quests)) return { quests: [], issues: [{ severity: "error", file, message: "quests must be an array" }] };
+
+  const quests: Quest[] = [];
+  raw.quests.forEach((entry, index) => {
+    const questId = isRecord(entry) && isNonEmptyString(entry.id) ? entry.id : undefined;
+    const { quest, errors } = parseQuest(entry, `quests[${index}]`);
+    for (const message of errors) issues.push({ severity: "error", file, questId, message });
+    if (quest) quests.push(quest);
+  });
+  return { quests, issues };
+}
+
+/** Read every quest file in the content folder, in file-name order. */
+export function loadQuestContent(dir = resolveQuestContentDir()): { quests: Quest[]; issues: QuestContentIssue[]; files: string[] } {
+  if (!dir) return { quests: [], issues: [{ severity: "error", message: "world/content/quests not found" }], files: [] };
+
+  const files = fs.readdirSync(dir).filter((entry) => entry.endsWith(".json") && entry !== SCHEMA_FILE).sort();
+  const quests: Quest[] = [];
+  const issues: QuestContentIssue[] = [];
+  for (const file of files) {
+    try {
+      const parsed = parseQuestContentFile(JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8")), file);
+      quests.push(...parsed.quests);
+      issues.push(...parsed.issues);
+    } catch (err) {
+      issues.push({ severity: "error", file, message: `unreadable: ${(err as Error).message}` });
+    }
+  }
+  return { quests, issues, files };
+}
+
+// ── Catalog validation ──────────────────────────────────────────────
+
+/** NPC names from world/content/npcs, mob names from the loot tables, zone ids from world/content/zones. */
+export function loadQuestReferenceData(): QuestReferenceData {
+  const npcNames = new Set<string>();
+  const npcDir = resolveContentDir("npcs");
+  for (const entry of npcDir ? fs.readdirSync(npcDir) : []) {
+    if (!entry.endsWith(".json")) continue;
+    try {
+      const data = JSON.parse(fs.readFileSync(path.join(npcDir!, entry), "utf-8"));
+      for (const npc of Array.isArray(data?.npcs) ? data.npcs : []) {
+        if (isNonEmptyString(npc?.name)) npcNames.add(npc.name);
+      }
+    } catch {
+      // A broken NPC file is the NPC loader's problem; its names just count as unknown here.
+    }
+  }
+
+  const zoneDir = resolveContentDir("zones");
+  const zoneIds = new Set(
+    (zoneDir ? fs.readdirSync(zoneDir) : []).filter((entry) => entry.endsWith(".json")).map((entry) => entry.replace(/\.json$/, ""))
+  );
+
+  return { npcNames, mobNames: new Set(Object.keys(LOOT_TABLES)), zoneIds };
+}
+
+function isKnownToken(tokenId: number): boolean {
+  return !!getItemByTokenId(BigInt(tokenId));
+}
+
+/**
+ * Whole-catalog checks: duplicate ids, prerequisite references and cycles,
+ * NPC, mob, zone and item references, and quests whose rewards can never
+ * be earned because something upstream is broken.
+ */
+export function validateQuestCatalog(quests: Quest[], refs: QuestReferenceData): QuestContentIssue[] {
+  const issues: QuestContentIssue[] = [];
+  const error = (questId: string, message: string) => issues.push({ severity: "error", questId, message });
+  const warn = (questId: string, message: string) => issues.push({ severity: "warning", questId, message });
+
+  const byId = new Map<string, Quest>();
+  for (const quest of quests) {
+    if (byId.has(quest.id)) error(quest.id, "duplicate quest id");
+    else byId.set(quest.id, quest);
+  }
+
+  const grantedFlags = new Set(quests.flatMap((quest) => [
+    ...(quest.grantStoryFlagsOnAccept ?? []),
+    ...(quest.grantStoryFlagsOnComplete ?? []),
+  ]));
+
+  // Quests that are broken on their own; reachability propagates from here.
+  const broken = new Map<string, string>();
+
+  for (const quest of byId.values()) {
+    if (!refs.npcNames.has(quest.npcId)) {
+      error(quest.id, `unknown quest giver "${quest.npcId}"`);
+      broken.set(quest.id, `its quest giver "${quest.npcId}" doesn't exist`);
+    }
+    if (quest.prerequisiteQuestId && !byId.has(quest.prerequisiteQuestId)) {
+      error(quest.id, `unknown prerequisite "${quest.prerequisiteQuestId}"`);
+      broken.set(quest.id, `its prerequisite "${quest.prerequisiteQuestId}" doesn't exist`);
+    }
+    for (const flag of quest.requiredStoryFlags ?? []) {
+      if (!grantedFlags.has(flag)) warn(quest.id, `required story flag "${flag}" isn't granted by any quest (quest graphs may set it)`);
+    }
+
+    getQuestObjectives(quest).forEach((objective, index) => {
+      const at = index === 0 ? "objective" : `extraObjectives[${index - 1}]`;
+      if (objective.type === "kill" && objective.targetMobName && !refs.mobNames.has(objective.targetMobName)) {
+        error(quest.id, `${at}: unknown mob "${objective.targetMobName}" (no loot table)`);
+        broken.set(quest.id, `"${objective.targetMobName}" can't be hunted`);
+      }
+      if ((objective.type === "talk" || objective.type === "deliver") && objective.targetNpcName
+        && !refs.npcNames.has(objective.targetNpcName)) {
+        error(quest.id, `${at}: unknown NPC "${objective.targetNpcName}"`);
+        broken.set(quest.id, `"${objective.targetNpcName}" doesn't exist`);
+      }
+      if (objective.type === "deliver" && objective.tokenId != null && !isKnownToken(objective.tokenId)) {
+        error(quest.id, `${at}: unknown item tokenId ${objective.tokenId}`);
+        broken.set(quest.id, `item ${objective.tokenId} doesn't exist`);
+      }
+      if (objective.location && !refs.zoneIds.has(objective.location.zoneId)) {
+        error(quest.id, `${at}: unknown zone "${objective.location.zoneId}"`);
+        broken.set(quest.id, `zone "${objective.location.zoneId}" doesn't exist`);
+      }
+    });
+
+    for (const item of quest.rewards.items ?? []) {
+      if (!isKnownToken(item.tokenId)) error(quest.id, `reward item tokenId ${item.tokenId} doesn't exist`);
+    }
+    if (quest.rewards.copper === 0 && quest.rewards.xp === 0 && !quest.rewards.items?.length) {
+      warn(quest.id, "quest has no rewards");
+    }
+  }
+
+  // Prerequisite cycles: every quest has at most one prerequisite, so walk the chain.
+  const reported = new Set<string>();
+  for (const quest of byId.values()) {
+    const seen: string[] = [];
+    let current: Quest | undefined = quest;
+    while (current && !seen.includes(current.id)) {
+      seen.push(current.id);
+      current = current.prerequisiteQuestId ? byId.get(current.prerequisiteQuestId) : undefined;
+    }
+    if (!current) continue;
+    const cycle = seen.slice(seen.indexOf(current.id));
+    const key = [...cycle].sort().join(",");
+    if (!reported.has(key)) {
+      reported.add(key);
+      error(current.id, `prerequisite cycle: ${[...cycle, current.id].join(" → ")}`);
+    }
+    for (const id of cycle) broken.set(id, "it is part of a prerequisite cycle");
+  }
+
+  // Rewards are unreachable when anything up the prerequisite chain is broken.
+  for (const quest of byId.values()) {
+    if (broken.has(quest.id)) {
+      error(quest.id, `rewards are unreachable: ${broken.get(quest.id)}`);
+      continue;
+    }
+    const seen = new Set<string>([quest.id]);
+    let prerequisiteId = quest.prerequisiteQuestId;
+    while (prerequisiteId && !seen.has(prerequisiteId)) {
+      seen.add(prerequisiteId);
+      if (broken.has(prerequisiteId)) {
+        error(quest.id, `rewards are unreachable: prerequisite "${prerequisiteId}" can't be completed because ${broken.get(prerequisiteId)}`);
+        break;
+      }
+      prerequisiteId = byId.get(prerequisiteId)?.prerequisiteQuestId;
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Watch the quest folder and call onChange once edits settle. Editors
+ * write files in bursts, hence the debounce. Returns a stop function.
+ */
+export function watchQuestContent(onChange: () => void, debounceMs = 250): () => void {
+  const dir = resolveQuestContentDir();
+  if (!dir) return () => {};
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const watcher = fs.watch(dir, (_event, file) => {
+    if (file && !String(file).endsWith(".json")) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(onChange, debounceMs);
+  });
+  return () => {
+    if (timer) clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+export function formatQuestContentIssue(issue: QuestContentIssue): string {
+  const where = [issue.file, issue.questId].filter(Boolean).join(" › ");
+  return `${issue.severity === "error" ? "error" : "warn "} ${where ? `${where}: ` : ""}${issue.message}`;
+}
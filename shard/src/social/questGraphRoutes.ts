@@ -1,10 +1,15 @@
 import type { FastifyInstance } from "fastify";
 import { authenticateRequest, walletsMatch } from "../auth/auth.js";
 import { getAgentCustodialWallet } from "../agents/agentConfigStore.js";
-import { getEntity } from "../world/zoneRuntime.js";
+import { getEntity, type Entity } from "../world/zoneRuntime.js";
 import { cloneQuestGraphPlayerState, persistQuestGraphPlayerState } from "./questGraphs/effects.js";
 import { getQuestArcById, listQuestArcSummaries, QUEST_ARC_VALIDATION_ISSUES } from "./questGraphs/registry.js";
 import { advanceQuestGraphScene, startQuestGraphScene } from "./questGraphs/runtime.js";
+import { loadQuestGraphMaterialState, type QuestGraphMaterialState } from "./questGraphs/material.js";
+import { parseQuestArcDefinition } from "./questGraphs/data/contentLoader.js";
+import { validateQuestArc } from "./questGraphs/validation.js";
+import { loadNpcRelationships } from "./npcMemoryService.js";
+import type { ActiveQuest } from "./questSystem.js";
 
 async function playerWalletMatches(authenticatedWallet: string, playerWalletAddress?: string): Promise<boolean> {
   if (walletsMatch(authenticatedWallet, playerWalletAddress)) return true;
@@ -25,6 +30,81 @@ interface QuestGraphAdvanceBody extends QuestGraphStartBody {
   freeformInput?: string;
 }
 
+/** Player state the graph editor simulates against; carried between steps by the client. */
+interface SimulatedPlayerState {
+  name?: string;
+  level?: number;
+  xp?: number;
+  classId?: string;
+  origin?: string;
+  storyFlags?: string[];
+  completedQuests?: string[];
+  activeQuests?: ActiveQuest[];
+  learnedTechniques?: string[];
+}
+
+interface SimulatedMaterialState {
+  copper?: number;
+  items?: Record<string, number>;
+  reputation?: Partial<Record<"combat" | "economic" | "social" | "crafting" | "agent", number>>;
+}
+
+interface QuestGraphSimulateBody {
+  arc: unknown;
+  sceneId: string;
+  /** Omit to start the scene; set with choiceId/freeformInput to advance. */
+  nodeId?: string;
+  choiceId?: string;
+  freeformInput?: string;
+  player?: SimulatedPlayerState;
+  material?: SimulatedMaterialState;
+}
+
+function buildSimulatedPlayer(state: SimulatedPlayerState = {}): Entity {
+  return {
+    id: "simulated-player",
+    type: "player",
+    name: state.name || "Simulated Player",
+    x: 0,
+    y: 0,
+    hp: 100,
+    maxHp: 100,
+    createdAt: Date.now(),
+    level: state.level ?? 1,
+    xp: state.xp ?? 0,
+    classId: state.classId,
+    origin: state.origin,
+    storyFlags: [...(state.storyFlags ?? [])],
+    completedQuests: [...(state.completedQuests ?? [])],
+    activeQuests: (state.activeQuests ?? []).map((quest) => ({ ...quest })),
+    learnedTechniques: [...(state.learnedTechniques ?? [])],
+  };
+}
+
+function buildSimulatedMaterial(state: SimulatedMaterialState = {}): QuestGraphMaterialState {
+  const reputation = state.reputation
+    ? {
+        combat: state.reputation.combat ?? 500,
+        economic: state.reputation.economic ?? 500,
+        social: state.reputation.social ?? 500,
+        crafting: state.reputation.crafting ?? 500,
+        agent: state.reputation.agent ?? 500,
+        overall: 0,
+        lastUpdated: Date.now(),
+      }
+    : null;
+  if (reputation) {
+    reputation.overall = Math.round(
+      (reputation.combat + reputation.economic + reputation.social + reputation.crafting + reputation.agent) / 5,
+    );
+  }
+  return {
+    copper: state.copper ?? 0,
+    items: new Map(Object.entries(state.items ?? {}).map(([tokenId, quantity]) => [Number(tokenId), quantity])),
+    reputation,
+  };
+}
+
 export function registerQuestGraphRoutes(server: FastifyInstance): void {
   server.get("/quest-arcs", async () => ({
     arcs: listQuestArcSummaries(),
@@ -44,6 +124,72 @@ export function registerQuestGraphRoutes(server: FastifyInstance): void {
     };
   });
 
+  // ── Editor support (map tool) ──
+  // Both run on a posted arc and never touch a real player.
+
+  server.post<{ Body: { arc: unknown } }>("/quest-arcs/validate", async (request, reply) => {
+    try {
+      const arc = parseQuestArcDefinition(request.body?.arc, "arc");
+      return { ok: true, validationIssues: validateQuestArc(arc) };
+    } catch (err) {
+      reply.code(400);
+      return { error: (err as Error).message };
+    }
+  });
+
+  server.post<{ Body: QuestGraphSimulateBody }>("/quest-arcs/simulate", async (request, reply) => {
+    let arc;
+    try {
+      arc = parseQuestArcDefinition(request.body?.arc, "arc");
+    } catch (err) {
+      reply.code(400);
+      return { error: (err as Error).message };
+    }
+    const { sceneId, nodeId } = request.body;
+    if (!arc.scenes[sceneId]) {
+      reply.code(400);
+      return { error: `Unknown scene "${sceneId}"` };
+    }
+
+    const player = buildSimulatedPlayer(request.body.player);
+    const effectContext = {
+      player,
+      arcId: arc.id,
+      sceneId,
+      commit: false,
+      material: buildSimulatedMaterial(request.body.material),
+    };
+    const result = nodeId
+      ? await advanceQuestGraphScene(arc, sceneId, nodeId, {
+          choiceId: request.body.choiceId,
+          freeformInput: request.body.freeformInput,
+        }, effectContext)
+      : await startQuestGraphScene(arc, sceneId, effectContext);
+
+    const material = effectContext.material;
+    return {
+      node: result.node,
+      appliedEffects: result.appliedEffects,
+      resolution: result.resolution,
+      player: {
+        name: player.name,
+        level: player.level,
+        xp: player.xp,
+        classId: player.classId,
+        origin: player.origin,
+        storyFlags: player.storyFlags,
+        completedQuests: player.completedQuests,
+        activeQuests: player.activeQuests,
+        learnedTechniques: player.learnedTechniques,
+      },
+      material: {
+        copper: material.copper,
+        items: Object.fromEntries(material.items),
+        reputation: material.reputation,
+      },
+    };
+  });
+
   server.post<{ Params: { arcId: string }; Body: QuestGraphStartBody }>("/quest-arcs/:arcId/start", {
     preHandler: authenticateRequest,
   }, async (request, reply) => {
@@ -70,6 +216,10 @@ export function registerQuestGraphRoutes(server: FastifyInstance): void {
       return { error: "Not authorized for this player" };
     }
 
+    // npc_affinity_at_least conditions read the relationship cache
+    if (player.walletAddress) await loadNpcRelationships(player.walletAddress);
+    const material = await loadQuestGraphMaterialState(player, arc);
+
     const commit = Boolean(request.body.commit);
     const workingPlayer = commit ? player : cloneQuestGraphPlayerState(player);
     const result = await startQuestGraphScene(arc, request.body.sceneId, {
@@ -77,6 +227,7 @@ export function registerQuestGraphRoutes(server: FastifyInstance): void {
       arcId: arc.id,
       sceneId: request.body.sceneId,
       commit,
+      material,
     });
 
     if (commit && result.dirty) {
@@ -120,6 +271,10 @@ export function registerQuestGraphRoutes(server: FastifyInstance): void {
       return { error: "Not authorized for this player" };
     }
 
+    // npc_affinity_at_least conditions read the relationship cache
+    if (player.walletAddress) await loadNpcRelationships(player.walletAddress);
+    const material = await loadQuestGraphMaterialState(player, arc);
+
     const commit = Boolean(request.body.commit);
     const workingPlayer = commit ? player : cloneQuestGraphPlayerState(player);
     const result = await advanceQuestGraphScene(
@@ -135,6 +290,7 @@ export function registerQuestGraphRoutes(server: FastifyInstance): void {
         arcId: arc.id,
         sceneId: request.body.sceneId,
         commit,
+        material,
       },
     );
 
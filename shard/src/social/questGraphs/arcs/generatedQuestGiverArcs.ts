@@ -1,4 +1,5 @@
 import { QUEST_CATALOG, type Quest } from "../../questSystem.js";
+import { describeQuestObjective, getQuestObjectives, isMultiObjectiveQuest } from "../../questObjectives.js";
 import type { QuestArcDefinition, QuestGraphNode } from "../types.js";
 
 function slugifyNpcName(name: string): string {
@@ -14,6 +15,9 @@ export function buildQuestGiverArcId(npcName: string): string {
 }
 
 function objectiveSummary(quest: Quest): string {
+  if (isMultiObjectiveQuest(quest)) {
+    return `${getQuestObjectives(quest).map(describeQuestObjective).join(", then ")}.`;
+  }
   switch (quest.objective.type) {
     case "talk":
       return `Listen to what ${quest.objective.targetNpcName ?? quest.npcId} has to say about "${quest.title}".`;
@@ -26,12 +30,12 @@ function objectiveSummary(quest: Quest): string {
     case "craft":
       return `Craft ${quest.objective.count} ${quest.objective.targetItemName ?? "items"}.`;
     default:
-      return "Complete the assigned work.";
+      return `${describeQuestObjective(quest.objective)}.`;
   }
 }
 
 function acceptanceLine(quest: Quest): string {
-  if (quest.objective.type === "talk") {
+  if (quest.objective.type === "talk" && !isMultiObjectiveQuest(quest)) {
     return "Good. We can settle this exchange right here and now.";
   }
   return "Good. Take the work seriously and return when the objective is complete.";
@@ -59,7 +63,8 @@ function idleLine(npcName: string): string {
 }
 
 function buildQuestNodes(quest: Quest): Record<string, QuestGraphNode> {
-  const offerEffectType = quest.objective.type === "talk" ? "complete_quest" : "start_quest";
+  const settlesNow = quest.objective.type === "talk" && !isMultiObjectiveQuest(quest);
+  const offerEffectType = settlesNow ? "complete_quest" : "start_quest";
   return {
     [`${quest.id}_offer_intro`]: {
       id: `${quest.id}_offer_intro`,
@@ -76,7 +81,7 @@ function buildQuestNodes(quest: Quest): Record<string, QuestGraphNode> {
       choices: [
         {
           id: `${quest.id}_accept`,
-          label: quest.objective.type === "talk" ? "Let's handle it now." : "I accept the assignment.",
+          label: settlesNow ? "Let's handle it now." : "I accept the assignment.",
           style: "primary",
           next: `${quest.id}_offer_effect`,
         },
@@ -280,7 +285,8 @@ function buildQuestGiverArc(npcName: string, quests: Quest[]): QuestArcDefinitio
   };
 }
 
-export const generatedQuestGiverArcs: QuestArcDefinition[] = (() => {
+/** One graph per quest giver in the current QUEST_CATALOG. */
+export function buildGeneratedQuestGiverArcs(): QuestArcDefinition[] {
   const questsByNpc = new Map<string, Quest[]>();
   for (const quest of QUEST_CATALOG) {
     const list = questsByNpc.get(quest.npcId);
@@ -292,4 +298,6 @@ export const generatedQuestGiverArcs: QuestArcDefinition[] = (() => {
   }
 
   return Array.from(questsByNpc.entries()).map(([npcName, quests]) => buildQuestGiverArc(npcName, quests));
-})();
+}
+
+export const generatedQuestGiverArcs: QuestArcDefinition[] = buildGeneratedQuestGiverArcs();
@@ -1,10 +1,16 @@
-import type { Entity } from "../../world/zoneRuntime.js";
+import { getWorldTick, type Entity } from "../../world/zoneRuntime.js";
+import { getGameTime } from "../../world/worldClock.js";
+import { getProfessionSkills } from "../../professions/professionXp.js";
 import { getAvailableQuestsForPlayer, isQuestComplete, QUEST_CATALOG } from "../questSystem.js";
+import { getCachedNpcAffinity } from "../npcMemoryService.js";
+import type { QuestGraphMaterialState } from "./material.js";
 import type { QuestGraphCondition } from "./types.js";
 
 export interface QuestGraphEvaluationContext {
   player: Entity;
   npcName: string;
+  /** Without it, item, gold and reputation conditions fail closed. */
+  material?: QuestGraphMaterialState;
 }
 
 export function evaluateQuestGraphCondition(
@@ -33,7 +39,7 @@ export function evaluateQuestGraphCondition(
       if (!activeQuest) return false;
       const questDef = QUEST_CATALOG.find((quest) => quest.id === condition.questId);
       if (!questDef) return false;
-      return isQuestComplete(questDef, activeQuest.progress);
+      return isQuestComplete(questDef, activeQuest);
     }
     case "quest_available": {
       const completedQuestIds = context.player.completedQuests ?? [];
@@ -54,6 +60,25 @@ export function evaluateQuestGraphCondition(
       return context.player.classId === condition.classId;
     case "npc_is":
       return context.npcName === condition.npcName;
+    case "npc_affinity_at_least":
+      return getCachedNpcAffinity(context.player.walletAddress, condition.npcName ?? context.npcName) >= condition.affinity;
+    case "level_at_least":
+      return (context.player.level ?? 1) >= condition.level;
+    case "has_item":
+      return (context.material?.items.get(condition.tokenId) ?? 0) >= (condition.quantity ?? 1);
+    case "gold_at_least":
+      return (context.material?.copper ?? 0) >= condition.copper;
+    case "reputation_at_least": {
+      const reputation = context.material?.reputation;
+      return !!reputation && reputation[condition.category] >= condition.score;
+    }
+    case "profession_skill_at_least": {
+      if (!context.player.walletAddress) return false;
+      const skill = getProfessionSkills(context.player.walletAddress)[condition.profession];
+      return (skill?.level ?? 0) >= condition.skill;
+    }
+    case "time_phase_is":
+      return getGameTime(getWorldTick()).phase === condition.phase;
     default:
       return false;
   }
@@ -13,18 +13,20 @@ import {
   type MarcusWelcomeTourSceneConfig,
   type StagedContractsSceneConfig,
 } from "../builders/authoredQuestSceneBuilders.js";
-import type { QuestArcDefinition } from "../types.js";
+import type { QuestArcDefinition, QuestSceneDefinition } from "../types.js";
 import {
   parseAuthoredQuestArcMeta,
   parseAuthoredTalkQuestSceneConfig,
   parseKaelaBriefingSceneConfig,
   parseMarcusOnboardingSceneConfig,
   parseMarcusWelcomeTourSceneConfig,
+  parseQuestSceneDefinition,
   parseStagedContractsSceneConfig,
   type AuthoredQuestArcMeta,
 } from "./contentLoader.js";
 
 type AuthoredSceneTemplate =
+  | "graph"
   | "kaela_briefing"
   | "marcus_onboarding"
   | "marcus_welcome_tour"
@@ -38,7 +40,8 @@ interface AuthoredSceneEntry {
     | MarcusOnboardingSceneConfig
     | MarcusWelcomeTourSceneConfig
     | StagedContractsSceneConfig
-    | AuthoredTalkQuestSceneConfig;
+    | AuthoredTalkQuestSceneConfig
+    | QuestSceneDefinition;
 }
 
 function assertRecord(value: unknown, label: string): Record<string, unknown> {
@@ -61,6 +64,12 @@ function readSceneEntry(input: unknown, label: string): AuthoredSceneEntry {
   const config = assertRecord(source.config, `${label}.config`);
 
   switch (template) {
+    // A finished scene graph, as saved by the map tool's quest graph editor
+    case "graph":
+      return {
+        template,
+        config: parseQuestSceneDefinition(config, `${label}.config`),
+      };
     case "kaela_briefing":
       return {
         template,
@@ -107,6 +116,8 @@ function parseAuthoredArcJson(input: unknown, label: string): {
 
 function buildScene(entry: AuthoredSceneEntry): QuestArcDefinition["scenes"][string] {
   switch (entry.template) {
+    case "graph":
+      return entry.config as QuestSceneDefinition;
     case "kaela_briefing":
       return buildKaelaBriefingScene(entry.config as KaelaBriefingSceneConfig);
     case "marcus_onboarding":
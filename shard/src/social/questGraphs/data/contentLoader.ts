@@ -5,6 +5,14 @@ import type {
   MarcusWelcomeTourSceneConfig,
   StagedContractsSceneConfig,
 } from "../builders/authoredQuestSceneBuilders.js";
+import type {
+  QuestArcDefinition,
+  QuestGraphCondition,
+  QuestGraphEffect,
+  QuestGraphNode,
+  QuestGraphSpeaker,
+  QuestSceneDefinition,
+} from "../types.js";
 
 export interface AuthoredQuestArcMeta {
   id: string;
@@ -254,3 +262,160 @@ export function loadWelcomeTourJsonContent(input: unknown): {
     ),
   };
 }
+
+// ── Raw graphs ──────────────────────────────────────────────────────
+// Scenes written by the map tool's graph editor rather than a template.
+// Only the shape is checked here; validateQuestArc checks the references.
+
+const SPEAKERS = new Set<QuestGraphSpeaker>(["npc", "player", "system"]);
+
+function readOptionalString(source: Record<string, unknown>, key: string, label: string): string | undefined {
+  const value = source[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") {
+    throw new Error(`[questGraphs] ${label}.${key} must be a string`);
+  }
+  return value;
+}
+
+function readNext(source: Record<string, unknown>, key: string, label: string): string | null | undefined {
+  const value = source[key];
+  if (value === undefined || value === null) return value;
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new Error(`[questGraphs] ${label}.${key} must be a node id or null`);
+  }
+  return value;
+}
+
+function readSpeaker(source: Record<string, unknown>, label: string): QuestGraphSpeaker {
+  const speaker = readString(source, "speaker", label) as QuestGraphSpeaker;
+  if (!SPEAKERS.has(speaker)) {
+    throw new Error(`[questGraphs] ${label}.speaker must be npc, player or system`);
+  }
+  return speaker;
+}
+
+function readTyped<T>(input: unknown, label: string): T {
+  const source = assertRecord(input, label);
+  readString(source, "type", label);
+  return source as T;
+}
+
+function readCondition(source: Record<string, unknown>, key: string, label: string): QuestGraphCondition | undefined {
+  return source[key] === undefined ? undefined : readTyped<QuestGraphCondition>(source[key], `${label}.${key}`);
+}
+
+function readEffects(source: Record<string, unknown>, key: string, label: string): QuestGraphEffect[] | undefined {
+  if (source[key] === undefined) return undefined;
+  return readObjectArray(source, key, label).map((entry, index) =>
+    readTyped<QuestGraphEffect>(entry, `${label}.${key}[${index}]`),
+  );
+}
+
+function parseQuestGraphNode(input: unknown, label: string): QuestGraphNode {
+  const source = assertRecord(input, label);
+  const id = readString(source, "id", label);
+  const type = readString(source, "type", label);
+
+  switch (type) {
+    case "line":
+      return { id, type, speaker: readSpeaker(source, label), text: readString(source, "text", label), next: readNext(source, "next", label) };
+    case "choice":
+      return {
+        id,
+        type,
+        speaker: readSpeaker(source, label),
+        text: readString(source, "text", label),
+        next: readNext(source, "next", label),
+        choices: readObjectArray(source, "choices", label).map((choice, index) => {
+          const at = `${label}.choices[${index}]`;
+          const style = readOptionalString(choice, "style", at);
+          if (style !== undefined && style !== "primary" && style !== "secondary" && style !== "danger") {
+            throw new Error(`[questGraphs] ${at}.style must be primary, secondary or danger`);
+          }
+          return {
+            id: readString(choice, "id", at),
+            label: readString(choice, "label", at),
+            next: readNext(choice, "next", at),
+            condition: readCondition(choice, "condition", at),
+            effects: readEffects(choice, "effects", at),
+            style,
+          };
+        }),
+      };
+    case "branch":
+      return {
+        id,
+        type,
+        branches: readObjectArray(source, "branches", label).map((branch, index) => {
+          const at = `${label}.branches[${index}]`;
+          return { condition: readCondition(branch, "condition", at)!, next: readString(branch, "next", at) };
+        }),
+        fallbackNext: readNext(source, "fallbackNext", label),
+      };
+    case "effect":
+      return { id, type, effects: readEffects(source, "effects", label) ?? [], next: readNext(source, "next", label) };
+    case "freeform":
+      return {
+        id,
+        type,
+        speaker: readSpeaker(source, label),
+        text: readString(source, "text", label),
+        prompt: readString(source, "prompt", label),
+        placeholder: readOptionalString(source, "placeholder", label),
+        fallbackText: readOptionalString(source, "fallbackText", label),
+        routes: readObjectArray(source, "routes", label).map((route, index) => {
+          const at = `${label}.routes[${index}]`;
+          return {
+            id: readString(route, "id", at),
+            label: readString(route, "label", at),
+            next: readNext(route, "next", at),
+            intents: readStringArray(route, "intents", at),
+            phrases: route.phrases === undefined ? undefined : readStringArray(route, "phrases", at),
+            condition: readCondition(route, "condition", at),
+            effects: readEffects(route, "effects", at),
+          };
+        }),
+      };
+    case "end":
+      return { id, type, text: readOptionalString(source, "text", label) };
+    default:
+      throw new Error(`[questGraphs] ${label}.type "${type}" is not a node type`);
+  }
+}
+
+export function parseQuestSceneDefinition(input: unknown, label: string): QuestSceneDefinition {
+  const source = assertRecord(input, label);
+  const rawNodes = readObject(source, "nodes", label);
+  const nodes: Record<string, QuestGraphNode> = {};
+  for (const [key, value] of Object.entries(rawNodes)) {
+    const node = parseQuestGraphNode(value, `${label}.nodes.${key}`);
+    if (node.id !== key) {
+      throw new Error(`[questGraphs] ${label}.nodes.${key}.id must match its key`);
+    }
+    nodes[key] = node;
+  }
+  return {
+    id: readString(source, "id", label),
+    npcName: readString(source, "npcName", label),
+    title: readString(source, "title", label),
+    startNodeId: readString(source, "startNodeId", label),
+    entryCondition: readCondition(source, "entryCondition", label),
+    nodes,
+  };
+}
+
+export function parseQuestArcDefinition(input: unknown, label: string): QuestArcDefinition {
+  const source = assertRecord(input, label);
+  const meta = parseAuthoredQuestArcMeta(source, label);
+  const rawScenes = readObject(source, "scenes", label);
+  const scenes: Record<string, QuestSceneDefinition> = {};
+  for (const [key, value] of Object.entries(rawScenes)) {
+    const scene = parseQuestSceneDefinition(value, `${label}.scenes.${key}`);
+    if (scene.id !== key) {
+      throw new Error(`[questGraphs] ${label}.scenes.${key}.id must match its key`);
+    }
+    scenes[key] = scene;
+  }
+  return { ...meta, scenes };
+}
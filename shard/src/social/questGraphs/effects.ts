@@ -1,15 +1,34 @@
 import type { Entity } from "../../world/zoneRuntime.js";
 import { logZoneEvent } from "../../world/zoneEvents.js";
+import { spawnDungeonGate } from "../../world/dungeonGateTick.js";
 import { saveCharacter } from "../../character/characterStore.js";
+import { enqueueGoldMint, enqueueItemBurn, enqueueItemMint } from "../../blockchain/blockchain.js";
+import { recordGoldSpendAsync } from "../../blockchain/goldLedger.js";
+import { copperToGold } from "../../blockchain/currency.js";
+import { getItemByTokenId } from "../../items/itemCatalog.js";
+import { getPreviousRankId, getRequiredPreviousRank, getTechniqueById } from "../../combat/techniques.js";
+import { awardProfessionXp } from "../../professions/professionXp.js";
+import { reputationManager, ReputationCategory } from "../../economy/reputationManager.js";
 import { logDiary } from "../diary.js";
-import { awardQuestRewards, isQuestAvailableForPlayer, isQuestComplete, QUEST_CATALOG, type Quest } from "../questSystem.js";
-import type { QuestGraphEffect } from "./types.js";
+import {
+  awardQuestRewards,
+  getPendingDeliveries,
+  isQuestAvailableForPlayer,
+  isQuestComplete,
+  QUEST_CATALOG,
+  type Quest,
+} from "../questSystem.js";
+import { isMultiObjectiveQuest } from "../questObjectives.js";
+import type { QuestGraphMaterialState } from "./material.js";
+import type { QuestGraphEffect, QuestGraphReputationCategory } from "./types.js";
 
 export interface QuestGraphEffectExecutionContext {
   player: Entity;
   arcId: string;
   sceneId: string;
   commit: boolean;
+  /** Balances the material effects check and update; see material.ts. */
+  material?: QuestGraphMaterialState;
 }
 
 export interface QuestGraphAppliedEffect {
@@ -29,6 +48,8 @@ export function cloneQuestGraphPlayerState(player: Entity): Entity {
     activeQuests: (player.activeQuests ?? []).map((quest) => ({ ...quest })),
     completedQuests: [...(player.completedQuests ?? [])],
     storyFlags: [...(player.storyFlags ?? [])],
+    learnedTechniques: [...(player.learnedTechniques ?? [])],
+    questGraphGrants: [...(player.questGraphGrants ?? [])],
   };
 }
 
@@ -99,7 +120,7 @@ async function tryCompleteQuest(
 
   let activeQuest = (player.activeQuests ?? []).find((entry) => entry.questId === questId);
   if (!activeQuest) {
-    if (quest.objective.type !== "talk") {
+    if (quest.objective.type !== "talk" || isMultiObjectiveQuest(quest)) {
       return { applied: false, reason: `Quest "${questId}" is not active` };
     }
 
@@ -125,9 +146,13 @@ async function tryCompleteQuest(
     activeQuest.progress = quest.objective.count;
   }
 
-  if (!isQuestComplete(quest, activeQuest.progress)) {
+  if (!isQuestComplete(quest, activeQuest)) {
     return { applied: false, reason: `Quest "${questId}" is not complete` };
   }
+  // Item deliveries are only taken through /quests/complete
+  if (getPendingDeliveries(quest, activeQuest, quest.npcId).length > 0) {
+    return { applied: false, reason: `Quest "${questId}" has items to hand in` };
+  }
 
   player.activeQuests = (player.activeQuests ?? []).filter((entry) => entry.questId !== questId);
   if (!(player.completedQuests ?? []).includes(questId)) {
@@ -154,15 +179,180 @@ function logQuestGraphCompletionEvent(player: Entity, quest: Quest): void {
   });
 }
 
+// ── Material effects ────────────────────────────────────────────────
+// Previews (commit: false) only update the cloned player and the material
+// snapshot. Commits enqueue the same chain intents the rest of the shard
+// uses for rewards and purchases.
+
+type MaterialEffect = Extract<QuestGraphEffect, {
+  type:
+    | "grant_item"
+    | "take_item"
+    | "grant_gold"
+    | "take_gold"
+    | "grant_xp"
+    | "teach_technique"
+    | "open_dungeon_gate"
+    | "adjust_reputation";
+}>;
+
+const REPUTATION_CATEGORIES: Record<QuestGraphReputationCategory, ReputationCategory> = {
+  combat: ReputationCategory.Combat,
+  economic: ReputationCategory.Economic,
+  social: ReputationCategory.Social,
+  crafting: ReputationCategory.Crafting,
+  agent: ReputationCategory.Agent,
+};
+
+const MATERIAL_EFFECT_TYPES: Record<MaterialEffect["type"], true> = {
+  grant_item: true,
+  take_item: true,
+  grant_gold: true,
+  take_gold: true,
+  grant_xp: true,
+  teach_technique: true,
+  open_dungeon_gate: true,
+  adjust_reputation: true,
+};
+
+function isMaterialEffect(effect: QuestGraphEffect): effect is MaterialEffect {
+  return effect.type in MATERIAL_EFFECT_TYPES;
+}
+
+// A choice, route or effect node that grants items, gold or XP pays out once
+// per character; replaying it (say, by restarting the scene) still runs its
+// story effects but skips the material ones.
+const GRANT_EFFECT_TYPES = new Set<QuestGraphEffect["type"]>(["grant_item", "grant_gold", "grant_xp"]);
+
+function getMaterialState(context: QuestGraphEffectExecutionContext): QuestGraphMaterialState {
+  if (!context.material) context.material = { copper: 0, items: new Map(), reputation: null };
+  return context.material;
+}
+
+async function tryApplyMaterialEffect(
+  effect: MaterialEffect,
+  context: QuestGraphEffectExecutionContext,
+): Promise<{ applied: boolean; dirty?: boolean; reason?: string }> {
+  const { player, commit } = context;
+  const wallet = player.walletAddress;
+  const material = getMaterialState(context);
+
+  switch (effect.type) {
+    case "grant_item":
+    case "take_item": {
+      const item = getItemByTokenId(BigInt(effect.tokenId));
+      if (!item) return { applied: false, reason: `Unknown item ${effect.tokenId}` };
+      if (!wallet) return { applied: false, reason: "Player has no wallet" };
+      const balance = material.items.get(effect.tokenId) ?? 0;
+      if (effect.type === "take_item") {
+        if (balance < effect.quantity) {
+          return { applied: false, reason: `Needs ${effect.quantity}x ${item.name}, has ${balance}` };
+        }
+        if (commit) await enqueueItemBurn(wallet, BigInt(effect.tokenId), BigInt(effect.quantity));
+        material.items.set(effect.tokenId, balance - effect.quantity);
+      } else {
+        if (commit) await enqueueItemMint(wallet, BigInt(effect.tokenId), BigInt(effect.quantity));
+        material.items.set(effect.tokenId, balance + effect.quantity);
+      }
+      return { applied: true };
+    }
+
+    case "grant_gold":
+    case "take_gold": {
+      if (!wallet) return { applied: false, reason: "Player has no wallet" };
+      if (effect.type === "take_gold") {
+        if (material.copper < effect.copper) {
+          return { applied: false, reason: `Needs ${effect.copper}c, has ${material.copper}c` };
+        }
+        if (commit) await recordGoldSpendAsync(wallet, copperToGold(effect.copper));
+        material.copper -= effect.copper;
+      } else {
+        if (commit) await enqueueGoldMint(wallet, copperToGold(effect.copper).toString());
+        material.copper += effect.copper;
+      }
+      return { applied: true };
+    }
+
+    case "grant_xp":
+      if (commit) {
+        awardProfessionXp(player, player.region ?? "unknown", effect.xp, "quest");
+      } else {
+        player.xp = (player.xp ?? 0) + effect.xp;
+      }
+      return { applied: true };
+
+    case "teach_technique": {
+      const technique = getTechniqueById(effect.techniqueId);
+      if (!technique) return { applied: false, reason: `Unknown technique "${effect.techniqueId}"` };
+      if (player.classId !== technique.className) {
+        return { applied: false, reason: `${technique.name} is not a ${player.classId ?? "classless"} technique` };
+      }
+      const learned = player.learnedTechniques ?? [];
+      if (learned.includes(technique.id)) return { applied: false, reason: `${technique.name} already learned` };
+      const requiredPrevious = getRequiredPreviousRank(technique.id);
+      if (requiredPrevious && !learned.includes(requiredPrevious)) {
+        return { applied: false, reason: `Must know ${requiredPrevious} before learning ${technique.name}` };
+      }
+      const replacedRank = getPreviousRankId(technique.id);
+      player.learnedTechniques = [...learned.filter((id) => id !== replacedRank), technique.id];
+      if (commit) {
+        logZoneEvent({
+          zoneId: player.region ?? "unknown",
+          type: "technique",
+          tick: 0,
+          message: `✦ ${player.name} learned ${technique.name}!`,
+          entityId: player.id,
+          entityName: player.name,
+          data: { techniqueName: technique.name, techniqueId: technique.id, techniqueType: technique.type },
+        });
+      }
+      return { applied: true, dirty: true };
+    }
+
+    case "open_dungeon_gate":
+      if (commit) {
+        spawnDungeonGate(player.region ?? "village-square", player.x + 30, player.y, effect.rank, effect.danger ?? false);
+      }
+      return { applied: true };
+
+    case "adjust_reputation": {
+      if (player.agentId == null) return { applied: false, reason: "Player has no on-chain identity" };
+      if (commit) {
+        reputationManager.submitFeedback(
+          player.agentId,
+          REPUTATION_CATEGORIES[effect.category],
+          effect.delta,
+          effect.reason ?? `Quest dialogue: ${context.arcId}`,
+        );
+      }
+      if (material.reputation) {
+        const reputation = material.reputation;
+        reputation[effect.category] = Math.max(0, Math.min(1000, reputation[effect.category] + effect.delta));
+        reputation.overall = Math.round(
+          (reputation.combat + reputation.economic + reputation.social + reputation.crafting + reputation.agent) / 5,
+        );
+      }
+      return { applied: true };
+    }
+  }
+}
+
+/** `grantKey` names the choice or node the effects belong to, for one-time grants. */
 export async function applyQuestGraphEffects(
   effects: QuestGraphEffect[] | undefined,
   context: QuestGraphEffectExecutionContext,
+  grantKey?: string,
 ): Promise<QuestGraphEffectExecutionResult> {
   if (!effects?.length) return { appliedEffects: [], dirty: false };
 
   ensureQuestArrays(context.player);
   let dirty = false;
   const appliedEffects: QuestGraphAppliedEffect[] = [];
+  const grant = grantKey && effects.some((effect) => GRANT_EFFECT_TYPES.has(effect.type))
+    ? `${context.arcId}:${context.sceneId}:${grantKey}`
+    : null;
+  const alreadyGranted = grant !== null && (context.player.questGraphGrants ?? []).includes(grant);
+  let granted = false;
 
   for (const effect of effects) {
     if (effect.type === "set_story_flag") {
@@ -220,6 +410,22 @@ export async function applyQuestGraphEffects(
       continue;
     }
 
+    if (isMaterialEffect(effect)) {
+      if (alreadyGranted) {
+        appliedEffects.push({ effect, applied: false, reason: "Already received" });
+        continue;
+      }
+      const result = await tryApplyMaterialEffect(effect, context);
+      appliedEffects.push({
+        effect,
+        applied: result.applied,
+        ...(result.reason ? { reason: result.reason } : {}),
+      });
+      dirty ||= result.dirty ?? false;
+      granted ||= result.applied && GRANT_EFFECT_TYPES.has(effect.type);
+      continue;
+    }
+
     if (effect.type === "emit_zone_event") {
       if (context.commit) {
         logZoneEvent({
@@ -236,6 +442,11 @@ export async function applyQuestGraphEffects(
     }
   }
 
+  if (grant !== null && granted) {
+    context.player.questGraphGrants = [...(context.player.questGraphGrants ?? []), grant];
+    dirty = true;
+  }
+
   return { appliedEffects, dirty };
 }
 
@@ -244,5 +455,7 @@ export async function persistQuestGraphPlayerState(player: Entity): Promise<void
   await saveCharacter(player.walletAddress, player.name, {
     completedQuests: player.completedQuests ?? [],
     storyFlags: player.storyFlags ?? [],
+    learnedTechniques: player.learnedTechniques ?? [],
+    questGraphGrants: player.questGraphGrants ?? [],
   });
 }
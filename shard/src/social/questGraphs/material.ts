@@ -0,0 +1,104 @@
+import type { Entity } from "../../world/zoneRuntime.js";
+import { getGoldBalance, getItemBalance } from "../../blockchain/blockchain.js";
+import { getAvailableGoldAsync } from "../../blockchain/goldLedger.js";
+import { goldToCopper } from "../../blockchain/currency.js";
+import { reputationManager, type ReputationScore } from "../../economy/reputationManager.js";
+import { getEquippedItemCounts, getRecyclableQuantity } from "../../items/inventoryState.js";
+import type { QuestArcDefinition, QuestGraphCondition, QuestGraphEffect } from "./types.js";
+
+// Gold, item and reputation reads are async (chain or Postgres), but graph
+// conditions are evaluated synchronously while rendering. The routes load
+// what an arc can ask about once per request into this snapshot; material
+// effects keep it up to date so later conditions in the same step see
+// their result, in previews as well as commits.
+
+export interface QuestGraphMaterialState {
+  /** Spendable gold, in copper. */
+  copper: number;
+  /** Unequipped balances for the token ids the arc refers to. */
+  items: Map<number, number>;
+  reputation: ReputationScore | null;
+}
+
+interface QuestGraphMaterialNeeds {
+  gold: boolean;
+  reputation: boolean;
+  tokenIds: Set<number>;
+}
+
+function collectConditionNeeds(condition: QuestGraphCondition | undefined, needs: QuestGraphMaterialNeeds): void {
+  if (!condition) return;
+  if (condition.type === "all" || condition.type === "any") {
+    for (const entry of condition.conditions) collectConditionNeeds(entry, needs);
+  } else if (condition.type === "not") {
+    collectConditionNeeds(condition.condition, needs);
+  } else if (condition.type === "has_item") {
+    needs.tokenIds.add(condition.tokenId);
+  } else if (condition.type === "gold_at_least") {
+    needs.gold = true;
+  } else if (condition.type === "reputation_at_least") {
+    needs.reputation = true;
+  }
+}
+
+function collectEffectNeeds(effects: QuestGraphEffect[] | undefined, needs: QuestGraphMaterialNeeds): void {
+  for (const effect of effects ?? []) {
+    if (effect.type === "take_item" || effect.type === "grant_item") needs.tokenIds.add(effect.tokenId);
+    if (effect.type === "take_gold" || effect.type === "grant_gold") needs.gold = true;
+    if (effect.type === "adjust_reputation") needs.reputation = true;
+  }
+}
+
+function collectMaterialNeeds(arc: QuestArcDefinition): QuestGraphMaterialNeeds {
+  const needs: QuestGraphMaterialNeeds = { gold: false, reputation: false, tokenIds: new Set() };
+  for (const scene of Object.values(arc.scenes)) {
+    collectConditionNeeds(scene.entryCondition, needs);
+    for (const node of Object.values(scene.nodes)) {
+      if (node.type === "branch") {
+        for (const branch of node.branches) collectConditionNeeds(branch.condition, needs);
+      } else if (node.type === "choice") {
+        for (const choice of node.choices) {
+          collectConditionNeeds(choice.condition, needs);
+          collectEffectNeeds(choice.effects, needs);
+        }
+      } else if (node.type === "freeform") {
+        for (const route of node.routes) {
+          collectConditionNeeds(route.condition, needs);
+          collectEffectNeeds(route.effects, needs);
+        }
+      } else if (node.type === "effect") {
+        collectEffectNeeds(node.effects, needs);
+      }
+    }
+  }
+  return needs;
+}
+
+/** Read the balances and scores an arc's conditions and effects depend on. */
+export async function loadQuestGraphMaterialState(
+  player: Entity,
+  arc: QuestArcDefinition,
+): Promise<QuestGraphMaterialState> {
+  const needs = collectMaterialNeeds(arc);
+  const state: QuestGraphMaterialState = { copper: 0, items: new Map(), reputation: null };
+  const wallet = player.walletAddress;
+
+  if (wallet && needs.gold) {
+    const onChainGold = Number(await getGoldBalance(wallet));
+    const available = await getAvailableGoldAsync(wallet, Number.isFinite(onChainGold) ? onChainGold : 0);
+    state.copper = goldToCopper(available);
+  }
+  if (wallet && needs.tokenIds.size > 0) {
+    const equippedCounts = await getEquippedItemCounts(wallet);
+    for (const tokenId of needs.tokenIds) {
+      const balance = Number(await getItemBalance(wallet, BigInt(tokenId)));
+      state.items.set(tokenId, getRecyclableQuantity(balance, equippedCounts.get(tokenId) ?? 0));
+    }
+  }
+  if (player.agentId != null && needs.reputation) {
+    const reputation = await reputationManager.getEventuallyConsistentReputation(player.agentId);
+    // A copy: previews adjust the snapshot, never the manager's live score
+    state.reputation = reputation ? { ...reputation } : null;
+  }
+  return state;
+}
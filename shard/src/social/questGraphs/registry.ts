@@ -1,7 +1,9 @@
 import { loadAuthoredQuestArcsFromJson } from "./data/authoredArcLoader.js";
-import { generatedQuestGiverArcs } from "./arcs/generatedQuestGiverArcs.js";
+import { buildGeneratedQuestGiverArcs, generatedQuestGiverArcs } from "./arcs/generatedQuestGiverArcs.js";
+import { onQuestCatalogReload, onQuestCompleted } from "../questSystem.js";
 import { validateQuestArcCatalog } from "./validation.js";
-import type { QuestArcDefinition, QuestGraphValidationIssue } from "./types.js";
+import { recordAchievement } from "../../erc8004/achievementClaims.js";
+import type { QuestArcDefinition, QuestGraphEffect, QuestGraphValidationIssue } from "./types.js";
 
 const AUTHORED_QUEST_ARCS = loadAuthoredQuestArcsFromJson();
 
@@ -12,6 +14,12 @@ export const QUEST_ARC_CATALOG: QuestArcDefinition[] = [
 
 export const QUEST_ARC_VALIDATION_ISSUES: QuestGraphValidationIssue[] = validateQuestArcCatalog(QUEST_ARC_CATALOG);
 
+// Quest content reloads (dev hot-reload) regenerate the quest-giver graphs in place.
+onQuestCatalogReload(() => {
+  QUEST_ARC_CATALOG.splice(0, QUEST_ARC_CATALOG.length, ...AUTHORED_QUEST_ARCS, ...buildGeneratedQuestGiverArcs());
+  QUEST_ARC_VALIDATION_ISSUES.splice(0, QUEST_ARC_VALIDATION_ISSUES.length, ...validateQuestArcCatalog(QUEST_ARC_CATALOG));
+});
+
 export function listQuestArcs(): QuestArcDefinition[] {
   return QUEST_ARC_CATALOG;
 }
@@ -39,3 +47,38 @@ export function listQuestArcSummaries(): Array<{
 export function getQuestArcById(arcId: string): QuestArcDefinition | undefined {
   return QUEST_ARC_CATALOG.find((arc) => arc.id === arcId);
 }
+
+/** Quest ids an arc completes through `complete_quest` effects, in any node, choice or route. */
+export function getQuestArcCompletionQuestIds(arc: QuestArcDefinition): string[] {
+  const questIds = new Set<string>();
+  const collect = (effects: QuestGraphEffect[] | undefined) => {
+    for (const effect of effects ?? []) {
+      if (effect.type === "complete_quest") questIds.add(effect.questId);
+    }
+  };
+  for (const scene of Object.values(arc.scenes)) {
+    for (const node of Object.values(scene.nodes)) {
+      if (node.type === "effect") collect(node.effects);
+      if (node.type === "choice") node.choices.forEach((choice) => collect(choice.effects));
+      if (node.type === "freeform") node.routes.forEach((route) => collect(route.effects));
+    }
+  }
+  return [...questIds];
+}
+
+/** An arc counts as complete once every quest it completes is done (arcs without quests never do). */
+export function isQuestArcComplete(arc: QuestArcDefinition, completedQuests: readonly string[]): boolean {
+  const questIds = getQuestArcCompletionQuestIds(arc);
+  return questIds.length > 0 && questIds.every((questId) => completedQuests.includes(questId));
+}
+
+// Finishing the last quest of an arc earns its ERC-8004 achievement claim.
+onQuestCompleted((player, quest) => {
+  const completedQuests = player.completedQuests ?? [];
+  for (const arc of QUEST_ARC_CATALOG) {
+    if (!getQuestArcCompletionQuestIds(arc).includes(quest.id)) continue;
+    if (isQuestArcComplete(arc, completedQuests)) {
+      recordAchievement(player, { kind: "quest-arc", arcId: arc.id, title: arc.title });
+    }
+  }
+});
@@ -1,5 +1,5 @@
 import type { Entity } from "../../world/zoneRuntime.js";
-import { evaluateQuestGraphCondition } from "./conditions.js";
+import { evaluateQuestGraphCondition, type QuestGraphEvaluationContext } from "./conditions.js";
 import { applyQuestGraphEffects, type QuestGraphAppliedEffect, type QuestGraphEffectExecutionContext } from "./effects.js";
 import { resolveFreeformQuestIntent } from "./freeform.js";
 import type {
@@ -29,6 +29,10 @@ interface QuestGraphRuntimeContext {
   effectContext: QuestGraphEffectExecutionContext;
 }
 
+function evaluationContext(effectContext: QuestGraphEffectExecutionContext, npcName: string): QuestGraphEvaluationContext {
+  return { player: effectContext.player, npcName, material: effectContext.material };
+}
+
 function implicitEndNode(): QuestGraphRenderableNode {
   return {
     id: "__implicit_end__",
@@ -37,9 +41,9 @@ function implicitEndNode(): QuestGraphRenderableNode {
   };
 }
 
-function renderChoiceNode(node: QuestGraphChoiceNode, player: Entity, npcName: string): QuestGraphRenderableNode {
+function renderChoiceNode(node: QuestGraphChoiceNode, context: QuestGraphEvaluationContext): QuestGraphRenderableNode {
   const choices = node.choices
-    .filter((choice) => evaluateQuestGraphCondition(choice.condition, { player, npcName }))
+    .filter((choice) => evaluateQuestGraphCondition(choice.condition, context))
     .map((choice) => ({
       id: choice.id,
       label: choice.label,
@@ -55,9 +59,9 @@ function renderChoiceNode(node: QuestGraphChoiceNode, player: Entity, npcName: s
   };
 }
 
-function renderFreeformNode(node: QuestGraphFreeformNode, player: Entity, npcName: string): QuestGraphRenderableNode {
+function renderFreeformNode(node: QuestGraphFreeformNode, context: QuestGraphEvaluationContext): QuestGraphRenderableNode {
   const routes = node.routes
-    .filter((route) => evaluateQuestGraphCondition(route.condition, { player, npcName }))
+    .filter((route) => evaluateQuestGraphCondition(route.condition, context))
     .map((route) => ({
       id: route.id,
       label: route.label,
@@ -75,15 +79,15 @@ function renderFreeformNode(node: QuestGraphFreeformNode, player: Entity, npcNam
   };
 }
 
-function renderNode(node: QuestGraphNode, player: Entity, npcName: string): QuestGraphRenderableNode {
+function renderNode(node: QuestGraphNode, context: QuestGraphEvaluationContext): QuestGraphRenderableNode {
   if (node.type === "line") {
     return { id: node.id, type: "line", speaker: node.speaker, text: node.text };
   }
   if (node.type === "choice") {
-    return renderChoiceNode(node, player, npcName);
+    return renderChoiceNode(node, context);
   }
   if (node.type === "freeform") {
-    return renderFreeformNode(node, player, npcName);
+    return renderFreeformNode(node, context);
   }
   if (node.type === "end") {
     return { id: node.id, type: "end", text: node.text };
@@ -121,14 +125,14 @@ async function resolveDisplayableNode(
 
     if (node.type === "branch") {
       const branch = node.branches.find((entry) =>
-        evaluateQuestGraphCondition(entry.condition, { player: runtime.player, npcName: runtime.scene.npcName }),
+        evaluateQuestGraphCondition(entry.condition, evaluationContext(runtime.effectContext, runtime.scene.npcName)),
       );
       nodeId = branch?.next ?? node.fallbackNext ?? null;
       continue;
     }
 
     if (node.type === "effect") {
-      const effectResult = await applyQuestGraphEffects(node.effects, runtime.effectContext);
+      const effectResult = await applyQuestGraphEffects(node.effects, runtime.effectContext, node.id);
       appliedEffects.push(...effectResult.appliedEffects);
       dirty ||= effectResult.dirty;
       nodeId = node.next ?? null;
@@ -136,7 +140,7 @@ async function resolveDisplayableNode(
     }
 
     return {
-      node: renderNode(node, runtime.player, runtime.scene.npcName),
+      node: renderNode(node, evaluationContext(runtime.effectContext, runtime.scene.npcName)),
       appliedEffects,
       dirty,
     };
@@ -149,6 +153,30 @@ async function resolveDisplayableNode(
   };
 }
 
+// Where each player's committed run of a scene stands, keyed by entity id.
+// Commits only advance from that node, so a client can't jump past entry or
+// branch conditions, or take a step it already took a second time.
+interface QuestGraphSceneCursor {
+  arcId: string;
+  sceneId: string;
+  nodeId: string;
+}
+
+const sceneCursors = new Map<string, QuestGraphSceneCursor>();
+
+function placeSceneCursor(effectContext: QuestGraphEffectExecutionContext, node: QuestGraphRenderableNode): void {
+  if (!effectContext.commit) return;
+  if (node.type === "end") {
+    sceneCursors.delete(effectContext.player.id);
+    return;
+  }
+  sceneCursors.set(effectContext.player.id, {
+    arcId: effectContext.arcId,
+    sceneId: effectContext.sceneId,
+    nodeId: node.id,
+  });
+}
+
 function getSceneOrThrow(arc: QuestArcDefinition, sceneId: string): QuestSceneDefinition {
   const scene = arc.scenes[sceneId];
   if (!scene) {
@@ -163,7 +191,7 @@ export async function startQuestGraphScene(
   effectContext: QuestGraphEffectExecutionContext,
 ): Promise<QuestGraphRuntimeStepResult> {
   const scene = getSceneOrThrow(arc, sceneId);
-  if (!evaluateQuestGraphCondition(scene.entryCondition, { player: effectContext.player, npcName: scene.npcName })) {
+  if (!evaluateQuestGraphCondition(scene.entryCondition, evaluationContext(effectContext, scene.npcName))) {
     return {
       node: {
         id: "__entry_blocked__",
@@ -175,11 +203,13 @@ export async function startQuestGraphScene(
     };
   }
 
-  return resolveDisplayableNode(scene.startNodeId, {
+  const result = await resolveDisplayableNode(scene.startNodeId, {
     player: effectContext.player,
     scene,
     effectContext,
   });
+  placeSceneCursor(effectContext, result.node);
+  return result;
 }
 
 export async function advanceQuestGraphScene(
@@ -190,6 +220,34 @@ export async function advanceQuestGraphScene(
   effectContext: QuestGraphEffectExecutionContext,
 ): Promise<QuestGraphRuntimeStepResult> {
   const scene = getSceneOrThrow(arc, sceneId);
+  if (effectContext.commit) {
+    const cursor = sceneCursors.get(effectContext.player.id);
+    if (cursor?.arcId !== arc.id || cursor.sceneId !== sceneId || cursor.nodeId !== nodeId) {
+      return {
+        node: {
+          id: "__out_of_step__",
+          type: "end",
+          text: "The scene has moved on from there. Start it again to continue.",
+        },
+        appliedEffects: [],
+        dirty: false,
+      };
+    }
+    // Taken before any effect runs, so a duplicate request in flight is turned away too
+    sceneCursors.delete(effectContext.player.id);
+  }
+
+  const result = await stepFromNode(scene, nodeId, input, effectContext);
+  placeSceneCursor(effectContext, result.node);
+  return result;
+}
+
+async function stepFromNode(
+  scene: QuestSceneDefinition,
+  nodeId: string,
+  input: { choiceId?: string; freeformInput?: string },
+  effectContext: QuestGraphEffectExecutionContext,
+): Promise<QuestGraphRuntimeStepResult> {
   const node = scene.nodes[nodeId];
   if (!node) {
     return {
@@ -211,20 +269,20 @@ export async function advanceQuestGraphScene(
     const choice = node.choices.find((entry) => entry.id === input.choiceId);
     if (!choice) {
       return {
-        node: renderNode(node, effectContext.player, scene.npcName),
+        node: renderNode(node, evaluationContext(effectContext, scene.npcName)),
         appliedEffects: [],
         dirty: false,
       };
     }
-    if (!evaluateQuestGraphCondition(choice.condition, { player: effectContext.player, npcName: scene.npcName })) {
+    if (!evaluateQuestGraphCondition(choice.condition, evaluationContext(effectContext, scene.npcName))) {
       return {
-        node: renderNode(node, effectContext.player, scene.npcName),
+        node: renderNode(node, evaluationContext(effectContext, scene.npcName)),
         appliedEffects: [],
         dirty: false,
       };
     }
 
-    const effectResult = await applyQuestGraphEffects(choice.effects, effectContext);
+    const effectResult = await applyQuestGraphEffects(choice.effects, effectContext, `${node.id}:${choice.id}`);
     const nextStep = await resolveDisplayableNode(choice.next ?? node.next ?? null, {
       player: effectContext.player,
       scene,
@@ -239,13 +297,13 @@ export async function advanceQuestGraphScene(
 
   if (node.type === "freeform") {
     const allowedRoutes = node.routes.filter((route) =>
-      evaluateQuestGraphCondition(route.condition, { player: effectContext.player, npcName: scene.npcName }),
+      evaluateQuestGraphCondition(route.condition, evaluationContext(effectContext, scene.npcName)),
     );
     const resolution = resolveFreeformQuestIntent(input.freeformInput ?? "", allowedRoutes);
 
     if (!resolution.route) {
       return {
-        node: renderNode(node, effectContext.player, scene.npcName),
+        node: renderNode(node, evaluationContext(effectContext, scene.npcName)),
         appliedEffects: [],
         dirty: false,
         resolution: {
@@ -256,7 +314,11 @@ export async function advanceQuestGraphScene(
       };
     }
 
-    const effectResult = await applyQuestGraphEffects(resolution.route.effects, effectContext);
+    const effectResult = await applyQuestGraphEffects(
+      resolution.route.effects,
+      effectContext,
+      `${node.id}:${resolution.route.id}`,
+    );
     const nextStep = await resolveDisplayableNode(resolution.route.next ?? null, {
       player: effectContext.player,
       scene,
@@ -276,14 +338,14 @@ export async function advanceQuestGraphScene(
 
   if (node.type === "end") {
     return {
-      node: renderNode(node, effectContext.player, scene.npcName),
+      node: renderNode(node, evaluationContext(effectContext, scene.npcName)),
       appliedEffects: [],
       dirty: false,
     };
   }
 
   return {
-    node: renderNode(node, effectContext.player, scene.npcName),
+    node: renderNode(node, evaluationContext(effectContext, scene.npcName)),
     appliedEffects: [],
     dirty: false,
   };
@@ -1,5 +1,11 @@
+import type { ProfessionType } from "../../professions/professions.js";
+import type { TimePhase } from "../../world/worldClock.js";
+import type { QuestGateRank } from "../questObjectives.js";
+
 export type QuestGraphSpeaker = "npc" | "player" | "system";
 
+export type QuestGraphReputationCategory = "combat" | "economic" | "social" | "crafting" | "agent";
+
 export type QuestGraphCondition =
   | { type: "all"; conditions: QuestGraphCondition[] }
   | { type: "any"; conditions: QuestGraphCondition[] }
@@ -12,7 +18,17 @@ export type QuestGraphCondition =
   | { type: "quest_available"; questId: string }
   | { type: "origin_is"; origin: string }
   | { type: "class_is"; classId: string }
-  | { type: "npc_is"; npcName: string };
+  | { type: "npc_is"; npcName: string }
+  /** npcName defaults to the scene's NPC. */
+  | { type: "npc_affinity_at_least"; affinity: number; npcName?: string }
+  | { type: "level_at_least"; level: number }
+  /** quantity defaults to 1. */
+  | { type: "has_item"; tokenId: number; quantity?: number }
+  | { type: "gold_at_least"; copper: number }
+  /** "overall" is the average of the five categories. */
+  | { type: "reputation_at_least"; category: QuestGraphReputationCategory | "overall"; score: number }
+  | { type: "profession_skill_at_least"; profession: ProfessionType; skill: number }
+  | { type: "time_phase_is"; phase: TimePhase };
 
 export type QuestGraphEffect =
   | { type: "set_story_flag"; flag: string }
@@ -28,7 +44,17 @@ export type QuestGraphEffect =
       type: "emit_zone_event";
       eventType: "chat" | "quest";
       message: string;
-    };
+    }
+  // Material effects go through the chain-intent queue when committed.
+  | { type: "grant_item"; tokenId: number; quantity: number }
+  | { type: "take_item"; tokenId: number; quantity: number }
+  | { type: "grant_gold"; copper: number }
+  | { type: "take_gold"; copper: number }
+  | { type: "grant_xp"; xp: number }
+  | { type: "teach_technique"; techniqueId: string }
+  /** Spawns a gate beside the player; the usual key and level requirements still apply. */
+  | { type: "open_dungeon_gate"; rank: QuestGateRank; danger?: boolean }
+  | { type: "adjust_reputation"; category: QuestGraphReputationCategory; delta: number; reason?: string };
 
 export interface QuestGraphChoice {
   id: string;
@@ -1,4 +1,8 @@
 import { QUEST_CATALOG } from "../questSystem.js";
+import { NPC_AFFINITY_MAX, NPC_AFFINITY_MIN } from "../npcAffinity.js";
+import { getItemByTokenId } from "../../items/itemCatalog.js";
+import { getTechniqueById } from "../../combat/techniques.js";
+import { PROFESSION_CATALOG } from "../../professions/professions.js";
 import type {
   QuestArcDefinition,
   QuestGraphCondition,
@@ -28,6 +32,37 @@ function validateConditionReferences(
     return;
   }
 
+  if (
+    condition.type === "npc_affinity_at_least"
+    && !(condition.affinity >= NPC_AFFINITY_MIN && condition.affinity <= NPC_AFFINITY_MAX)
+  ) {
+    issues.push({
+      arcId: arc.id,
+      sceneId,
+      nodeId,
+      message: `npc_affinity_at_least affinity must be between ${NPC_AFFINITY_MIN} and ${NPC_AFFINITY_MAX}`,
+    });
+  }
+
+  const fail = (message: string) => issues.push({ arcId: arc.id, sceneId, nodeId, message });
+
+  if (condition.type === "has_item") {
+    if (!getItemByTokenId(BigInt(condition.tokenId))) fail(`Unknown item tokenId ${condition.tokenId} in has_item`);
+    if (condition.quantity !== undefined && !(condition.quantity >= 1)) fail("has_item quantity must be at least 1");
+  }
+  if (condition.type === "reputation_at_least" && !(condition.score >= 0 && condition.score <= 1000)) {
+    fail("reputation_at_least score must be between 0 and 1000");
+  }
+  if (condition.type === "profession_skill_at_least" && !(condition.profession in PROFESSION_CATALOG)) {
+    fail(`Unknown profession "${condition.profession}"`);
+  }
+  if (
+    (condition.type === "level_at_least" && !(condition.level >= 1))
+    || (condition.type === "gold_at_least" && !(condition.copper >= 0))
+  ) {
+    fail(`${condition.type} needs a positive amount`);
+  }
+
   if (
     (
       condition.type === "quest_active"
@@ -53,7 +88,26 @@ function validateEffectReferences(
   effects: QuestGraphEffect[] | undefined,
   issues: QuestGraphValidationIssue[],
 ): void {
+  const fail = (message: string) => issues.push({ arcId: arc.id, sceneId, nodeId, message });
+
   for (const effect of effects ?? []) {
+    if (effect.type === "grant_item" || effect.type === "take_item") {
+      if (!getItemByTokenId(BigInt(effect.tokenId))) fail(`Unknown item tokenId ${effect.tokenId} in ${effect.type}`);
+      if (!(Number.isInteger(effect.quantity) && effect.quantity >= 1)) fail(`${effect.type} quantity must be a positive integer`);
+    }
+    if (
+      ((effect.type === "grant_gold" || effect.type === "take_gold") && !(effect.copper > 0))
+      || (effect.type === "grant_xp" && !(effect.xp > 0))
+    ) {
+      fail(`${effect.type} needs a positive amount`);
+    }
+    if (effect.type === "teach_technique" && !getTechniqueById(effect.techniqueId)) {
+      fail(`Unknown technique "${effect.techniqueId}"`);
+    }
+    if (effect.type === "adjust_reputation" && !Number.isFinite(effect.delta)) {
+      fail("adjust_reputation delta must be a number");
+    }
+
     if (
       (effect.type === "start_quest" || effect.type === "complete_quest")
       && !QUEST_CATALOG.some((quest) => quest.id === effect.questId)
@@ -66,6 +120,21 @@ function validateEffectReferences(
       });
     }
   }
+
+  // Players can replay scenes, so free rewards need a story flag to stop
+  // them being claimed again. Trades (something taken in return) are fine.
+  const list = effects ?? [];
+  const grants = list.filter((effect) =>
+    effect.type === "grant_item" || effect.type === "grant_gold" || effect.type === "grant_xp"
+    || effect.type === "open_dungeon_gate" || (effect.type === "adjust_reputation" && effect.delta > 0)
+  );
+  const guarded = list.some((effect) =>
+    effect.type === "set_story_flag" || effect.type === "complete_quest"
+    || effect.type === "take_item" || effect.type === "take_gold"
+  );
+  if (grants.length > 0 && !guarded) {
+    fail(`${grants.map((effect) => effect.type).join(", ")} can be repeated by replaying the scene; set a story flag alongside it`);
+  }
 }
 
 function validateNodeLinks(
@@ -0,0 +1,212 @@
+import type { FastifyInstance } from "fastify";
+import { randomUUID } from "crypto";
+import { getAllEntities, getEntity, getOrCreateZone, registerWorldTickListener, type Entity } from "../world/zoneRuntime.js";
+import { logZoneEvent } from "../world/zoneEvents.js";
+import { getZoneOffset } from "../world/worldLayout.js";
+import { QUEST_CATALOG, isQuestComplete, type ActiveQuest, type Quest } from "./questSystem.js";
+import {
+  describeQuestObjective,
+  getObjectiveProgress,
+  getQuestObjectives,
+  isAtQuestLocation,
+  setObjectiveProgress,
+  type QuestLocation,
+  type QuestObjective,
+} from "./questObjectives.js";
+
+// Positional quest objectives are checked after every world tick:
+//   reach   — done the first tick the player stands in the location
+//   survive — counts ticks spent alive in the location; dying resets it
+//   escort  — an escort NPC follows the player and must arrive at the
+//             location; the quest fails if the player dies, or gets too
+//             far from their charge (fast travel included)
+
+const ESCORT_FOLLOW_DISTANCE = 20;
+/** Slightly slower than walking, so the player has to pace their charge. */
+const ESCORT_MOVE_SPEED = 25;
+const ESCORT_LEASH_DISTANCE = 300;
+const ESCORT_HP = 100;
+
+interface EscortState {
+  entityId: string;
+  ownerId: string;
+  questId: string;
+  objectiveIndex: number;
+}
+
+/** Keyed by `${ownerId}:${questId}:${objectiveIndex}`. Escorts are not persisted; they respawn beside the player. */
+const escorts = new Map<string, EscortState>();
+
+function escortKey(ownerId: string, questId: string, objectiveIndex: number): string {
+  return `${ownerId}:${questId}:${objectiveIndex}`;
+}
+
+function isEntityAtLocation(entity: Entity, location: QuestLocation): boolean {
+  const offset = getZoneOffset(location.zoneId) ?? { x: 0, z: 0 };
+  return isAtQuestLocation({ x: entity.x - offset.x, y: entity.y - offset.z, region: entity.region }, location);
+}
+
+function despawnEscort(key: string): void {
+  const escort = escorts.get(key);
+  if (!escort) return;
+  getAllEntities().delete(escort.entityId);
+  escorts.delete(key);
+}
+
+function spawnEscort(player: Entity, quest: Quest, objective: QuestObjective, objectiveIndex: number): Entity {
+  const escort: Entity = {
+    id: randomUUID(),
+    type: "escort",
+    name: objective.escortNpcName ?? "Traveler",
+    x: player.x + ESCORT_FOLLOW_DISTANCE,
+    y: player.y,
+    hp: ESCORT_HP,
+    maxHp: ESCORT_HP,
+    createdAt: Date.now(),
+  };
+  getOrCreateZone(player.region ?? "village-square").entities.set(escort.id, escort);
+  escorts.set(escortKey(player.id, quest.id, objectiveIndex), {
+    entityId: escort.id,
+    ownerId: player.id,
+    questId: quest.id,
+    objectiveIndex,
+  });
+  return escort;
+}
+
+function followOwner(escort: Entity, owner: Entity): void {
+  const dx = owner.x - escort.x;
+  const dy = owner.y - escort.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  if (dist <= ESCORT_FOLLOW_DISTANCE) return;
+  const step = Math.min(ESCORT_MOVE_SPEED, dist - ESCORT_FOLLOW_DISTANCE);
+  escort.x += (dx / dist) * step;
+  escort.y += (dy / dist) * step;
+}
+
+function announceObjective(player: Entity, quest: Quest, activeQuest: ActiveQuest, objective: QuestObjective, objectiveIndex: number): void {
+  const zoneId = player.region ?? "unknown";
+  const description = describeQuestObjective(objective);
+  console.log(`[quest] ${player.name} completed objective "${description}" of ${quest.title}`);
+  logZoneEvent({
+    zoneId,
+    type: "quest-progress",
+    tick: 0,
+    message: `${player.name}: ${quest.title} — ${description} done`,
+    entityId: player.id,
+    entityName: player.name,
+    data: {
+      questId: quest.id,
+      questTitle: quest.title,
+      objectiveIndex,
+      progress: getObjectiveProgress(activeQuest, objectiveIndex),
+      required: objective.count,
+      complete: isQuestComplete(quest, activeQuest),
+    },
+  });
+}
+
+/** Drop a quest the player can no longer finish. They can accept it again. */
+function failQuest(player: Entity, quest: Quest, reason: string): void {
+  player.activeQuests = (player.activeQuests ?? []).filter((entry) => entry.questId !== quest.id);
+  for (const [key, escort] of escorts) {
+    if (escort.ownerId === player.id && escort.questId === quest.id) despawnEscort(key);
+  }
+  console.log(`[quest] ${player.name} failed "${quest.title}": ${reason}`);
+  logZoneEvent({
+    zoneId: player.region ?? "unknown",
+    type: "quest",
+    tick: 0,
+    message: `${player.name}: Failed "${quest.title}" — ${reason}`,
+    entityId: player.id,
+    entityName: player.name,
+  });
+}
+
+function tickQuestObjectives(): void {
+  const live = new Set<string>();
+  const failures: Array<{ player: Entity; quest: Quest; reason: string }> = [];
+  const players = Array.from(getAllEntities().values()).filter(
+    (entity) => entity.type === "player" && (entity.activeQuests?.length ?? 0) > 0
+  );
+
+  for (const player of players) {
+    for (const activeQuest of player.activeQuests ?? []) {
+      const quest = QUEST_CATALOG.find((q) => q.id === activeQuest.questId);
+      if (!quest) continue;
+
+      getQuestObjectives(quest).forEach((objective, index) => {
+        const location = objective.location;
+        const progress = getObjectiveProgress(activeQuest, index);
+        if (!location || progress >= objective.count) return;
+
+        if (objective.type === "reach") {
+          if (!isEntityAtLocation(player, location)) return;
+          setObjectiveProgress(activeQuest, index, objective.count);
+          announceObjective(player, quest, activeQuest, objective, index);
+        } else if (objective.type === "survive") {
+          if (player.hp <= 0 || !isEntityAtLocation(player, location)) return;
+          setObjectiveProgress(activeQuest, index, progress + 1);
+          if (progress + 1 >= objective.count) announceObjective(player, quest, activeQuest, objective, index);
+        } else if (objective.type === "escort") {
+          const key = escortKey(player.id, quest.id, index);
+          const state = escorts.get(key);
+          const escort = state ? getEntity(state.entityId) : undefined;
+          if (state && (!escort || escort.hp <= 0)) {
+            failures.push({ player, quest, reason: `${objective.escortNpcName ?? "your charge"} was lost` });
+            return;
+          }
+          if (!escort) {
+            spawnEscort(player, quest, objective, index);
+            live.add(key);
+            return;
+          }
+          if (Math.hypot(player.x - escort.x, player.y - escort.y) > ESCORT_LEASH_DISTANCE) {
+            failures.push({ player, quest, reason: `you left ${escort.name} behind` });
+            return;
+          }
+          followOwner(escort, player);
+          if (isEntityAtLocation(escort, location)) {
+            setObjectiveProgress(activeQuest, index, objective.count);
+            announceObjective(player, quest, activeQuest, objective, index);
+            return;
+          }
+          live.add(key);
+        }
+      });
+    }
+  }
+
+  for (const { player, quest, reason } of failures) failQuest(player, quest, reason);
+
+  // Escorts whose owner, quest or objective is gone (or done) leave the world
+  for (const key of Array.from(escorts.keys())) {
+    if (!live.has(key)) despawnEscort(key);
+  }
+}
+
+/**
+ * Called when a player dies: survive objectives start over and escort
+ * quests fail.
+ */
+export function handleQuestObjectivesOnDeath(player: Entity): void {
+  const failed: Quest[] = [];
+  for (const activeQuest of player.activeQuests ?? []) {
+    const quest = QUEST_CATALOG.find((q) => q.id === activeQuest.questId);
+    if (!quest) continue;
+    getQuestObjectives(quest).forEach((objective, index) => {
+      if (getObjectiveProgress(activeQuest, index) >= objective.count) return;
+      if (objective.type === "survive") setObjectiveProgress(activeQuest, index, 0);
+      if (objective.type === "escort" && !failed.includes(quest)) failed.push(quest);
+    });
+  }
+  for (const quest of failed) failQuest(player, quest, "you fell in battle");
+}
+
+export function registerQuestObjectiveTracker(server: FastifyInstance): void {
+  const unsubscribe = registerWorldTickListener(() => tickQuestObjectives());
+  server.addHook("onClose", async () => {
+    unsubscribe();
+    for (const key of Array.from(escorts.keys())) despawnEscort(key);
+  });
+}
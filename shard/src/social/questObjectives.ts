@@ -0,0 +1,266 @@
+// ── Quest objectives ────────────────────────────────────────────────
+//
+// A quest has a primary `objective` plus optional `extraObjectives`; all of
+// them must be met before turn-in. Progress for the primary objective stays
+// in ActiveQuest.progress (older clients read it) and extra objectives track
+// theirs in ActiveQuest.extraProgress, index for index.
+//
+// Event objectives (kill, gather/craft, talk, clear_dungeon, pvp_win,
+// use_technique) advance from game hooks via applyQuestObjectiveEvent.
+// Positional objectives (reach, survive, escort) are checked every world
+// tick by the quest objective tracker. Deliver objectives consume items:
+// at turn-in when the quest giver is the recipient, otherwise at
+// POST /quests/deliver with the target NPC.
+
+export type QuestObjectiveType =
+  | "kill"
+  | "talk"
+  | "gather"
+  | "craft"
+  | "escort"
+  | "reach"
+  | "deliver"
+  | "survive"
+  | "clear_dungeon"
+  | "pvp_win"
+  | "use_technique";
+
+export const QUEST_OBJECTIVE_TYPES: QuestObjectiveType[] = [
+  "kill", "talk", "gather", "craft", "escort", "reach", "deliver", "survive", "clear_dungeon", "pvp_win", "use_technique",
+];
+
+export type QuestGateRank = "E" | "D" | "C" | "B" | "A" | "S";
+const GATE_RANK_ORDER: QuestGateRank[] = ["E", "D", "C", "B", "A", "S"];
+
+/**
+ * A region, optionally narrowed to a circle within it. x/y are zone-local,
+ * like NPC spawn coordinates.
+ */
+export interface QuestLocation {
+  zoneId: string;
+  x?: number;
+  y?: number;
+  /** Defaults to DEFAULT_QUEST_LOCATION_RADIUS when x/y are set. */
+  radius?: number;
+  /** Shown to players, e.g. "the old watchtower". */
+  label?: string;
+}
+
+export interface QuestObjective {
+  type: QuestObjectiveType;
+  targetMobType?: string; // kill quests: e.g. "mob" or specific name
+  targetMobName?: string; // kill quests: specific mob name like "Hungry Wolf"
+  targetNpcName?: string; // talk quests: NPC name to visit; deliver: recipient (defaults to the quest giver)
+  targetItemName?: string; // gather/craft quests: e.g. "Coal Deposit", "Hearty Stew"
+  escortNpcName?: string; // escort: name of the NPC that follows the player
+  location?: QuestLocation; // escort destination, reach target, survive area
+  tokenId?: number; // deliver: item consumed on delivery
+  gateRank?: QuestGateRank; // clear_dungeon: minimum gate rank
+  techniqueId?: string; // use_technique
+  /** Overrides the generated description in quest logs. */
+  label?: string;
+  count: number; // survive: ticks spent alive in the area
+}
+
+/** Progress fields of an ActiveQuest this module reads and writes. */
+export interface QuestObjectiveProgress {
+  progress: number;
+  extraProgress?: number[];
+}
+
+export interface QuestWithObjectives {
+  npcId: string;
+  objective: QuestObjective;
+  extraObjectives?: QuestObjective[];
+}
+
+export type QuestObjectiveEvent =
+  | { type: "kill"; mobType: string; mobName: string }
+  | { type: "item"; itemName: string }
+  | { type: "talk"; npcName: string }
+  | { type: "clear_dungeon"; gateRank: QuestGateRank }
+  | { type: "pvp_win" }
+  | { type: "use_technique"; techniqueId: string };
+
+export interface QuestObjectiveUpdate {
+  objectiveIndex: number;
+  progress: number;
+  required: number;
+}
+
+export const DEFAULT_QUEST_LOCATION_RADIUS = 40;
+
+export function getQuestObjectives(quest: QuestWithObjectives): QuestObjective[] {
+  return [quest.objective, ...(quest.extraObjectives ?? [])];
+}
+
+export function isMultiObjectiveQuest(quest: QuestWithObjectives): boolean {
+  return (quest.extraObjectives?.length ?? 0) > 0;
+}
+
+export function getObjectiveProgress(active: QuestObjectiveProgress, index: number): number {
+  return index === 0 ? active.progress : active.extraProgress?.[index - 1] ?? 0;
+}
+
+export function setObjectiveProgress(active: QuestObjectiveProgress, index: number, value: number): void {
+  if (index === 0) {
+    active.progress = value;
+    return;
+  }
+  const extra = active.extraProgress ?? [];
+  while (extra.length < index) extra.push(0);
+  extra[index - 1] = value;
+  active.extraProgress = extra;
+}
+
+/** Deliveries to the quest giver happen at turn-in, so they never block it. */
+export function isTurnInDelivery(quest: QuestWithObjectives, objective: QuestObjective): boolean {
+  return objective.type === "deliver" && (!objective.targetNpcName || objective.targetNpcName === quest.npcId);
+}
+
+export function isObjectiveMet(
+  quest: QuestWithObjectives,
+  active: QuestObjectiveProgress,
+  index: number,
+): boolean {
+  const objective = getQuestObjectives(quest)[index];
+  if (!objective) return false;
+  if (isTurnInDelivery(quest, objective)) return true;
+  return getObjectiveProgress(active, index) >= objective.count;
+}
+
+export function areQuestObjectivesMet(quest: QuestWithObjectives, active: QuestObjectiveProgress): boolean {
+  return getQuestObjectives(quest).every((_, index) => isObjectiveMet(quest, active, index));
+}
+
+export function isGateRankAtLeast(rank: QuestGateRank, minimum: QuestGateRank): boolean {
+  return GATE_RANK_ORDER.indexOf(rank) >= GATE_RANK_ORDER.indexOf(minimum);
+}
+
+function itemNamesMatch(target: string, itemName: string): boolean {
+  const a = target.toLowerCase();
+  const b = itemName.toLowerCase();
+  return a.includes(b) || b.includes(a);
+}
+
+export function doesEventCountForObjective(objective: QuestObjective, event: QuestObjectiveEvent): boolean {
+  switch (event.type) {
+    case "kill":
+      if (objective.type !== "kill" || event.mobType !== objective.targetMobType) return false;
+      return !objective.targetMobName || event.mobName === objective.targetMobName;
+    case "item":
+      // Substring match so "Meadow Lily" matches "Meadow Lily Patch".
+      return (objective.type === "gather" || objective.type === "craft")
+        && !!objective.targetItemName
+        && itemNamesMatch(objective.targetItemName, event.itemName);
+    case "talk":
+      return objective.type === "talk" && objective.targetNpcName === event.npcName;
+    case "clear_dungeon":
+      return objective.type === "clear_dungeon"
+        && (!objective.gateRank || isGateRankAtLeast(event.gateRank, objective.gateRank));
+    case "pvp_win":
+      return objective.type === "pvp_win";
+    case "use_technique":
+      return objective.type === "use_technique" && objective.techniqueId === event.techniqueId;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Advance every unfinished objective of one active quest that the event
+ * counts toward. Talk objectives complete outright; the rest count up by one.
+ */
+export function applyQuestObjectiveEvent(
+  quest: QuestWithObjectives,
+  active: QuestObjectiveProgress,
+  event: QuestObjectiveEvent,
+): QuestObjectiveUpdate[] {
+  const updates: QuestObjectiveUpdate[] = [];
+  getQuestObjectives(quest).forEach((objective, index) => {
+    const current = getObjectiveProgress(active, index);
+    if (current >= objective.count || !doesEventCountForObjective(objective, event)) return;
+    const next = event.type === "talk" ? objective.count : current + 1;
+    setObjectiveProgress(active, index, next);
+    updates.push({ objectiveIndex: index, progress: next, required: objective.count });
+  });
+  return updates;
+}
+
+/** `position` must be zone-local to location.zoneId. */
+export function isAtQuestLocation(
+  position: { x: number; y: number; region?: string },
+  location: QuestLocation,
+): boolean {
+  if (position.region !== location.zoneId) return false;
+  if (location.x == null || location.y == null) return true;
+  const radius = location.radius ?? DEFAULT_QUEST_LOCATION_RADIUS;
+  const dx = position.x - location.x;
+  const dy = position.y - location.y;
+  return dx * dx + dy * dy <= radius * radius;
+}
+
+function describeLocation(location: QuestLocation | undefined): string {
+  if (!location) return "the marked spot";
+  return location.label ?? location.zoneId;
+}
+
+export function describeQuestObjective(objective: QuestObjective): string {
+  if (objective.label) return objective.label;
+  switch (objective.type) {
+    case "kill":
+      return `Defeat ${objective.count} ${objective.targetMobName ?? objective.targetMobType ?? "enemies"}`;
+    case "gather":
+      return `Gather ${objective.count} ${objective.targetItemName ?? "items"}`;
+    case "craft":
+      return `Craft ${objective.count} ${objective.targetItemName ?? "items"}`;
+    case "escort":
+      return `Escort ${objective.escortNpcName ?? "your charge"} to ${describeLocation(objective.location)}`;
+    case "reach":
+      return `Reach ${describeLocation(objective.location)}`;
+    case "deliver":
+      return `Deliver ${objective.count} item${objective.count === 1 ? "" : "s"}${objective.targetNpcName ? ` to ${objective.targetNpcName}` : ""}`;
+    case "survive":
+      return `Survive ${objective.count} ticks in ${describeLocation(objective.location)}`;
+    case "clear_dungeon":
+      return `Clear ${objective.count} Rank ${objective.gateRank ?? "E"}+ dungeon${objective.count === 1 ? "" : "s"}`;
+    case "pvp_win":
+      return `Win ${objective.count} PvP match${objective.count === 1 ? "" : "es"}`;
+    case "use_technique":
+      return `Use ${objective.techniqueId ?? "a technique"} ${objective.count} time${objective.count === 1 ? "" : "s"}`;
+    case "talk":
+    default:
+      return `Speak with ${objective.targetNpcName ?? "the target"}`;
+  }
+}
+
+/** Structural problems with an objective definition; empty when valid. */
+export function validateQuestObjective(objective: QuestObjective): string[] {
+  const issues: string[] = [];
+  if (!QUEST_OBJECTIVE_TYPES.includes(objective.type)) {
+    return [`unknown objective type "${objective.type}"`];
+  }
+  if (!Number.isInteger(objective.count) || objective.count < 1) issues.push("count must be a positive integer");
+
+  const needsLocation = objective.type === "escort" || objective.type === "reach" || objective.type === "survive";
+  if (needsLocation && !objective.location?.zoneId) issues.push(`${objective.type} objectives need a location.zoneId`);
+  if (objective.location && (objective.location.x == null) !== (objective.location.y == null)) {
+    issues.push("location needs both x and y, or neither");
+  }
+  if ((objective.type === "escort" || objective.type === "reach") && objective.count !== 1) {
+    issues.push(`${objective.type} objectives have a count of 1`);
+  }
+
+  if (objective.type === "kill" && !objective.targetMobType) issues.push("kill objectives need targetMobType");
+  if (objective.type === "talk" && !objective.targetNpcName) issues.push("talk objectives need targetNpcName");
+  if ((objective.type === "gather" || objective.type === "craft") && !objective.targetItemName) {
+    issues.push(`${objective.type} objectives need targetItemName`);
+  }
+  if (objective.type === "escort" && !objective.escortNpcName) issues.push("escort objectives need escortNpcName");
+  if (objective.type === "deliver" && !Number.isInteger(objective.tokenId)) issues.push("deliver objectives need tokenId");
+  if (objective.type === "use_technique" && !objective.techniqueId) issues.push("use_technique objectives need techniqueId");
+  if (objective.gateRank && !GATE_RANK_ORDER.includes(objective.gateRank)) {
+    issues.push(`unknown gate rank "${objective.gateRank}"`);
+  }
+  return issues;
+}
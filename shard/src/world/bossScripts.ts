@@ -0,0 +1,361 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// ── Boss scripts: data-driven encounters ────────────────────────────
+// Scripts live in world/content/bosses/<scriptId>.json next to the NPC
+// files and are attached to a boss through NpcDef.script. A script is a
+// list of phases keyed by HP %, each with timed abilities that wind up
+// as telegraphs before resolving, plus an optional enrage timer.
+//
+// This module only holds the data format and the encounter state
+// machine; zoneRuntime picks targets and applies the results each tick.
+
+export type BossAbilityTarget = "current" | "random" | "farthest" | "self";
+
+export interface BossAddSpawn {
+  name: string;
+  count: number;
+  /** Defaults to two levels below the boss. */
+  level?: number;
+  /** Add HP as % of the boss's max HP. */
+  hpPct: number;
+}
+
+export interface BossHazardSpec {
+  name: string;
+  radius: number;
+  /** Damage each tick to players inside, as % of their max HP. */
+  damagePctPerTick: number;
+  durationTicks: number;
+}
+
+export interface BossAbility {
+  id: string;
+  name: string;
+  cooldownTicks: number;
+  /** Telegraph length before the ability lands (0 = instant). */
+  windupTicks?: number;
+  /** First use after the phase starts; defaults to cooldownTicks. */
+  initialDelayTicks?: number;
+  target: BossAbilityTarget;
+  /** Impact radius around the locked point; 0 hits only the target. */
+  radius?: number;
+  /** Damage to every player in the impact area, as % of their max HP. */
+  damagePct?: number;
+  /** Players can cancel the windup with an interrupt. */
+  interruptible?: boolean;
+  adds?: BossAddSpawn;
+  /** Ground effect left at the impact point. */
+  hazard?: BossHazardSpec;
+}
+
+export interface BossPhase {
+  id: string;
+  name: string;
+  /** Phase starts once boss HP drops to this % (first phase: 100). */
+  hpBelowPct: number;
+  /** Zone announcement when the phase starts. */
+  message?: string;
+  onEnter?: { adds?: BossAddSpawn };
+  abilities: BossAbility[];
+}
+
+export interface BossScript {
+  id: string;
+  name?: string;
+  enrage?: {
+    afterTicks: number;
+    /** Scales scripted ability damage and the boss's STR. */
+    damageMultiplier: number;
+    message?: string;
+  };
+  phases: BossPhase[];
+}
+
+export interface BossCast {
+  abilityId: string;
+  abilityName: string;
+  targetId: string;
+  /** Impact point, locked when the windup starts — step out to dodge. */
+  x: number;
+  y: number;
+  radius: number;
+  startedAtTick: number;
+  resolveAtTick: number;
+  interruptible: boolean;
+}
+
+export interface BossHazard {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  radius: number;
+  damagePctPerTick: number;
+  untilTick: number;
+}
+
+export interface BossEncounterState {
+  scriptId: string;
+  phaseIndex: number;
+  startedAtTick: number;
+  enraged: boolean;
+  /** abilityId → tick the ability is next usable. */
+  readyAt: Record<string, number>;
+  cast?: BossCast;
+  hazards: BossHazard[];
+  addIds: string[];
+}
+
+export interface BossStep {
+  enteredPhase?: BossPhase;
+  enrageStarted: boolean;
+  /** Ability to begin now; the caller picks its target. */
+  startAbility?: BossAbility;
+  /** Windup that just finished and should land. */
+  resolvedCast?: BossCast;
+}
+
+const MAX_PHASES = 8;
+const MAX_ABILITIES_PER_PHASE = 6;
+const MAX_ADDS_PER_SPAWN = 10;
+const MAX_HAZARD_RADIUS = 200;
+const ABILITY_TARGETS: readonly BossAbilityTarget[] = ["current", "random", "farthest", "self"];
+
+// ── Validation ──────────────────────────────────────────────────────
+
+function isPositiveInt(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+function validateAdds(raw: unknown, at: string): string | null {
+  const a = raw as Record<string, unknown>;
+  if (!a || typeof a !== "object") return `${at} must be an object`;
+  if (typeof a.name !== "string" || !a.name) return `${at}.name must be a string`;
+  if (!isPositiveInt(a.count) || a.count > MAX_ADDS_PER_SPAWN) return `${at}.count must be 1-${MAX_ADDS_PER_SPAWN}`;
+  if (a.level !== undefined && !isPositiveInt(a.level)) return `${at}.level must be a positive integer`;
+  if (!isNonNegative(a.hpPct) || a.hpPct === 0 || a.hpPct > 100) return `${at}.hpPct must be in (0, 100]`;
+  return null;
+}
+
+function validateHazard(raw: unknown, at: string): string | null {
+  const h = raw as Record<string, unknown>;
+  if (!h || typeof h !== "object") return `${at} must be an object`;
+  if (typeof h.name !== "string" || !h.name) return `${at}.name must be a string`;
+  if (!isNonNegative(h.radius) || h.radius === 0 || h.radius > MAX_HAZARD_RADIUS) return `${at}.radius must be in (0, ${MAX_HAZARD_RADIUS}]`;
+  if (!isNonNegative(h.damagePctPerTick) || h.damagePctPerTick > 100) return `${at}.damagePctPerTick must be 0-100`;
+  if (!isPositiveInt(h.durationTicks)) return `${at}.durationTicks must be a positive integer`;
+  return null;
+}
+
+function validateAbility(raw: unknown, at: string): string | null {
+  const a = raw as Record<string, unknown>;
+  if (!a || typeof a !== "object") return `${at} must be an object`;
+  if (typeof a.id !== "string" || !a.id) return `${at}.id must be a string`;
+  if (typeof a.name !== "string" || !a.name) return `${at}.name must be a string`;
+  if (!isPositiveInt(a.cooldownTicks)) return `${at}.cooldownTicks must be a positive integer`;
+  if (a.windupTicks !== undefined && !(isNonNegative(a.windupTicks) && Number.isInteger(a.windupTicks))) {
+    return `${at}.windupTicks must be a non-negative integer`;
+  }
+  if (a.initialDelayTicks !== undefined && !(isNonNegative(a.initialDelayTicks) && Number.isInteger(a.initialDelayTicks))) {
+    return `${at}.initialDelayTicks must be a non-negative integer`;
+  }
+  if (!ABILITY_TARGETS.includes(a.target as BossAbilityTarget)) return `${at}.target must be one of ${ABILITY_TARGETS.join(", ")}`;
+  if (a.radius !== undefined && (!isNonNegative(a.radius) || a.radius > MAX_HAZARD_RADIUS)) return `${at}.radius must be 0-${MAX_HAZARD_RADIUS}`;
+  if (a.damagePct !== undefined && (!isNonNegative(a.damagePct) || a.damagePct > 100)) return `${at}.damagePct must be 0-100`;
+  if (a.interruptible !== undefined && typeof a.interruptible !== "boolean") return `${at}.interruptible must be boolean`;
+  if (a.adds !== undefined) {
+    const err = validateAdds(a.adds, `${at}.adds`);
+    if (err) return err;
+  }
+  if (a.hazard !== undefined) {
+    const err = validateHazard(a.hazard, `${at}.hazard`);
+    if (err) return err;
+  }
+  if (a.damagePct === undefined && a.adds === undefined && a.hazard === undefined) {
+    return `${at} needs damagePct, adds or hazard`;
+  }
+  return null;
+}
+
+export function validateBossScript(raw: unknown): { valid: boolean; error?: string } {
+  const s = raw as Record<string, unknown>;
+  if (!s || typeof s !== "object") return { valid: false, error: "script must be an object" };
+  if (typeof s.id !== "string" || !s.id) return { valid: false, error: "id must be a string" };
+
+  if (s.enrage !== undefined) {
+    const e = s.enrage as Record<string, unknown>;
+    if (!e || typeof e !== "object") return { valid: false, error: "enrage must be an object" };
+    if (!isPositiveInt(e.afterTicks)) return { valid: false, error: "enrage.afterTicks must be a positive integer" };
+    if (typeof e.damageMultiplier !== "number" || e.damageMultiplier < 1) {
+      return { valid: false, error: "enrage.damageMultiplier must be >= 1" };
+    }
+  }
+
+  if (!Array.isArray(s.phases) || s.phases.length === 0) return { valid: false, error: "phases must be a non-empty array" };
+  if (s.phases.length > MAX_PHASES) return { valid: false, error: `max ${MAX_PHASES} phases` };
+
+  let previousPct = Infinity;
+  const abilityIds = new Set<string>();
+  for (let i = 0; i < s.phases.length; i++) {
+    const at = `phases[${i}]`;
+    const p = s.phases[i] as Record<string, unknown>;
+    if (!p || typeof p !== "object") return { valid: false, error: `${at} must be an object` };
+    if (typeof p.id !== "string" || !p.id) return { valid: false, error: `${at}.id must be a string` };
+    if (typeof p.name !== "string" || !p.name) return { valid: false, error: `${at}.name must be a string` };
+    if (!isNonNegative(p.hpBelowPct) || p.hpBelowPct > 100) return { valid: false, error: `${at}.hpBelowPct must be 0-100` };
+    if (i === 0 && p.hpBelowPct !== 100) return { valid: false, error: "phases[0].hpBelowPct must be 100" };
+    if (p.hpBelowPct >= previousPct) return { valid: false, error: `${at}.hpBelowPct must be below the previous phase` };
+    previousPct = p.hpBelowPct;
+
+    const onEnter = p.onEnter as Record<string, unknown> | undefined;
+    if (onEnter !== undefined) {
+      if (!onEnter || typeof onEnter !== "object") return { valid: false, error: `${at}.onEnter must be an object` };
+      if (onEnter.adds !== undefined) {
+        const err = validateAdds(onEnter.adds, `${at}.onEnter.adds`);
+        if (err) return { valid: false, error: err };
+      }
+    }
+
+    if (!Array.isArray(p.abilities)) return { valid: false, error: `${at}.abilities must be an array` };
+    if (p.abilities.length > MAX_ABILITIES_PER_PHASE) {
+      return { valid: false, error: `${at}: max ${MAX_ABILITIES_PER_PHASE} abilities` };
+    }
+    for (let j = 0; j < p.abilities.length; j++) {
+      const err = validateAbility(p.abilities[j], `${at}.abilities[${j}]`);
+      if (err) return { valid: false, error: err };
+      const id = (p.abilities[j] as BossAbility).id;
+      if (abilityIds.has(id)) return { valid: false, error: `${at}.abilities[${j}].id "${id}" is used twice` };
+      abilityIds.add(id);
+    }
+  }
+
+  return { valid: true };
+}
+
+// ── Loading ─────────────────────────────────────────────────────────
+
+function resolveBossDir(): string | null {
+  const prodPath = path.join(process.cwd(), "world", "content", "bosses");
+  if (fs.existsSync(prodPath)) return prodPath;
+  const devPath = path.join(process.cwd(), "..", "world", "content", "bosses");
+  if (fs.existsSync(devPath)) return devPath;
+  return null;
+}
+
+function loadAllBossScripts(): Map<string, BossScript> {
+  const scripts = new Map<string, BossScript>();
+  const dir = resolveBossDir();
+  if (!dir) return scripts;
+  for (const entry of fs.readdirSync(dir)) {
+    if (!entry.endsWith(".json")) continue;
+    const file = path.join(dir, entry);
+    try {
+      const data = JSON.parse(fs.readFileSync(file, "utf-8"));
+      const check = validateBossScript(data);
+      if (!check.valid) {
+        console.warn(`[bossScripts] Skipping ${entry}: ${check.error}`);
+        continue;
+      }
+      scripts.set(data.id, data as BossScript);
+    } catch (err) {
+      console.warn(`[bossScripts] Failed to load ${file}:`, err);
+    }
+  }
+  return scripts;
+}
+
+const BOSS_SCRIPTS = loadAllBossScripts();
+console.log(`[bossScripts] Loaded ${BOSS_SCRIPTS.size} boss scripts from disk`);
+
+export function getBossScript(id: string): BossScript | undefined {
+  return BOSS_SCRIPTS.get(id);
+}
+
+// ── Encounter state machine ─────────────────────────────────────────
+
+function armPhase(state: BossEncounterState, phase: BossPhase, tick: number): void {
+  for (const ability of phase.abilities) {
+    state.readyAt[ability.id] = tick + (ability.initialDelayTicks ?? ability.cooldownTicks);
+  }
+}
+
+export function createBossEncounter(script: BossScript, tick: number): BossEncounterState {
+  const state: BossEncounterState = {
+    scriptId: script.id,
+    phaseIndex: 0,
+    startedAtTick: tick,
+    enraged: false,
+    readyAt: {},
+    hazards: [],
+    addIds: [],
+  };
+  armPhase(state, script.phases[0], tick);
+  return state;
+}
+
+/**
+ * Advance an engaged encounter by one tick: phase transitions (never
+ * backwards — healing the boss does not undo a phase), the enrage timer,
+ * windups that finish, and the next ability off cooldown. Expired hazards
+ * are dropped. Only one ability winds up at a time.
+ */
+export function stepBossEncounter(
+  state: BossEncounterState,
+  script: BossScript,
+  hpPct: number,
+  tick: number,
+): BossStep {
+  const step: BossStep = { enrageStarted: false };
+
+  let phaseIndex = state.phaseIndex;
+  while (phaseIndex + 1 < script.phases.length && hpPct <= script.phases[phaseIndex + 1].hpBelowPct) {
+    phaseIndex++;
+  }
+  if (phaseIndex !== state.phaseIndex) {
+    state.phaseIndex = phaseIndex;
+    step.enteredPhase = script.phases[phaseIndex];
+    armPhase(state, step.enteredPhase, tick);
+  }
+
+  if (script.enrage && !state.enraged && tick - state.startedAtTick >= script.enrage.afterTicks) {
+    state.enraged = true;
+    step.enrageStarted = true;
+  }
+
+  state.hazards = state.hazards.filter((h) => h.untilTick > tick);
+
+  if (state.cast) {
+    if (tick >= state.cast.resolveAtTick) {
+      step.resolvedCast = state.cast;
+      state.cast = undefined;
+    }
+    return step;
+  }
+
+  for (const ability of script.phases[state.phaseIndex].abilities) {
+    if ((state.readyAt[ability.id] ?? 0) > tick) continue;
+    state.readyAt[ability.id] = tick + ability.cooldownTicks;
+    step.startAbility = ability;
+    break;
+  }
+  return step;
+}
+
+/** Find an ability of this script by id (for resolving a cast). */
+export function getBossAbility(script: BossScript, abilityId: string): BossAbility | undefined {
+  for (const phase of script.phases) {
+    const ability = phase.abilities.find((a) => a.id === abilityId);
+    if (ability) return ability;
+  }
+  return undefined;
+}
+
+/** Scripted damage multiplier for the encounter's current state. */
+export function getBossDamageMultiplier(state: BossEncounterState, script: BossScript): number {
+  return state.enraged && script.enrage ? script.enrage.damageMultiplier : 1;
+}
@@ -15,7 +15,12 @@ import {
   type Entity,
 } from "./zoneRuntime.js";
 import { getPlayerPartyId, getPartyMembers } from "../social/partySystem.js";
+import { recordLeaderboardStat } from "../social/leaderboardService.js";
+import { GUILD_XP_AWARDS } from "../economy/guildRanks.js";
+import { awardGuildXp } from "../economy/guildSocial.js";
+import { advanceQuestObjectives } from "../social/questSystem.js";
 import { getItemBalance, enqueueItemBurn, enqueueItemMint } from "../blockchain/blockchain.js";
+import { recordAchievement } from "../erc8004/achievementClaims.js";
 import { getItemByTokenId } from "../items/itemCatalog.js";
 import { authenticateRequest } from "../auth/auth.js";
 import { getAgentCustodialWallet, getAgentEntityRef } from "../agents/agentConfigStore.js";
@@ -127,6 +132,9 @@ const MOB_NAMES: Record<GateRank, { regular: string[]; boss: string }> = {
   S: { regular: ["Dungeon Void Walker", "Dungeon Dread Knight"], boss: "Dungeon Guardian S" },
 };
 
+/** Boss script (world/content/bosses) every dungeon guardian runs. */
+const DUNGEON_GUARDIAN_SCRIPT = "dungeon-guardian";
+
 const DUNGEON_SIZE = 400;
 const GATE_PROXIMITY = 50; // Must be within 50 units of gate
 
@@ -214,7 +222,7 @@ function spawnDungeonMobs(
       const bossHp = Math.round(scaling.bossHp * dangerHpMult);
       const boss: Entity = {
         id: randomUUID(),
-        type: "mob",
+        type: "boss",
         name: names.boss,
         x: bossRoom.cx + randomInt(-30, 30),
         y: bossRoom.cy + randomInt(-20, 20),
@@ -224,6 +232,7 @@ function spawnDungeonMobs(
         level: scaling.levelMax,
         xpReward: Math.round(scaling.xpPerBoss * dangerXpMult),
         mobName: names.boss,
+        bossScript: DUNGEON_GUARDIAN_SCRIPT,
       };
 
       zone.entities.set(boss.id, boss);
@@ -256,6 +265,12 @@ export function cleanupDungeonInstance(instanceId: string, cleared: boolean): vo
         entity.y = instance.sourcePosition.y + randomInt(-20, 20);
         sourceZone.entities.set(entityId, entity);
         if (entity.walletAddress) updateSpawnedWalletZone(entity.walletAddress, instance.sourceZoneId);
+        if (cleared) {
+          recordLeaderboardStat(entity, "dungeon_clears");
+          awardGuildXp(entity.walletAddress, GUILD_XP_AWARDS.dungeonCleared);
+          advanceQuestObjectives(entity, { type: "clear_dungeon", gateRank: instance.gateRank });
+          recordAchievement(entity, { kind: "dungeon-clear", gateRank: instance.gateRank });
+        }
       }
     }
   }
@@ -667,7 +682,7 @@ export function registerDungeonGateRoutes(server: FastifyInstance): void {
 
       const dungeonZone = getAllZones().get(instance.dungeonZoneId);
       const remainingMobs = dungeonZone
-        ? [...dungeonZone.entities.values()].filter((e) => e.type === "mob" && e.hp > 0).length
+        ? [...dungeonZone.entities.values()].filter((e) => (e.type === "mob" || e.type === "boss") && e.hp > 0).length
         : 0;
 
       return {
@@ -692,7 +707,7 @@ export function registerDungeonGateRoutes(server: FastifyInstance): void {
     const instances = [...dungeonInstances.values()].map((inst) => {
       const dungeonZone = getAllZones().get(inst.dungeonZoneId);
       const remainingMobs = dungeonZone
-        ? [...dungeonZone.entities.values()].filter((e) => e.type === "mob" && e.hp > 0).length
+        ? [...dungeonZone.entities.values()].filter((e) => (e.type === "mob" || e.type === "boss") && e.hp > 0).length
         : 0;
 
       return {
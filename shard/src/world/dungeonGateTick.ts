@@ -84,10 +84,36 @@ function randomInt(min: number, max: number): number {
   return Math.floor(Math.random() * (max - min + 1)) + min;
 }
 
+/** Place an unopened gate; it expires like surge gates do. */
+export function spawnDungeonGate(zoneId: string, x: number, y: number, rank: GateRank, isDanger = false): Entity {
+  const now = Date.now();
+  const gateEntity: Entity = {
+    id: randomUUID(),
+    type: "dungeon-gate",
+    name: isDanger ? `Danger Gate [${rank}]` : `Dungeon Gate [${rank}]`,
+    x,
+    y,
+    hp: 9999,
+    maxHp: 9999,
+    createdAt: now,
+    gateRank: rank,
+    isDangerGate: isDanger,
+    gateExpiresAt: now + GATE_LIFETIME_MS,
+    gateOpened: false,
+  };
+
+  const zone = getOrCreateZone(zoneId);
+  zone.entities.set(gateEntity.id, gateEntity);
+
+  console.log(
+    `[dungeon] Spawned ${isDanger ? "DANGER " : ""}Rank ${rank} gate in ${zoneId} at (${gateEntity.x}, ${gateEntity.y})`
+  );
+  return gateEntity;
+}
+
 function spawnGateSurge(): void {
   const zoneIds = Object.keys(ZONE_BOUNDS);
   const gateCount = randomInt(GATES_PER_SURGE_MIN, GATES_PER_SURGE_MAX);
-  const now = Date.now();
 
   for (let i = 0; i < gateCount; i++) {
     // Pick a random zone for each gate
@@ -103,26 +129,12 @@ function spawnGateSurge(): void {
       rank = bumpRank(rank);
     }
 
-    const gateEntity: Entity = {
-      id: randomUUID(),
-      type: "dungeon-gate",
-      name: isDanger ? `Danger Gate [${rank}]` : `Dungeon Gate [${rank}]`,
-      x: randomInt(margin, bounds.width - margin),
-      y: randomInt(margin, bounds.height - margin),
-      hp: 9999,
-      maxHp: 9999,
-      createdAt: now,
-      gateRank: rank,
-      isDangerGate: isDanger,
-      gateExpiresAt: now + GATE_LIFETIME_MS,
-      gateOpened: false,
-    };
-
-    const zone = getOrCreateZone(zoneId);
-    zone.entities.set(gateEntity.id, gateEntity);
-
-    console.log(
-      `[dungeon] Spawned ${isDanger ? "DANGER " : ""}Rank ${rank} gate in ${zoneId} at (${gateEntity.x}, ${gateEntity.y})`
+    spawnDungeonGate(
+      zoneId,
+      randomInt(margin, bounds.width - margin),
+      randomInt(margin, bounds.height - margin),
+      rank,
+      isDanger,
     );
   }
 
@@ -187,7 +199,7 @@ function monitorDungeonInstances(): void {
     const dungeonZone = getAllZones().get(instance.dungeonZoneId);
     if (dungeonZone) {
       const remainingMobs = [...dungeonZone.entities.values()].filter(
-        (e) => e.type === "mob" && e.hp > 0
+        (e) => (e.type === "mob" || e.type === "boss") && e.hp > 0
       ).length;
       instance.remainingMobs = remainingMobs;
 
@@ -68,6 +68,26 @@ const TILE = {
 
 const TILE_SIZE = 10; // Server game-unit tile size
 
+/** Ground tiles entities cannot stand on (water, tree trunks, building walls). */
+const BLOCKING_GROUND = new Set<number>([
+  TILE.WATER_STILL, TILE.WATER_EDGE_N, TILE.WATER_EDGE_S, TILE.WATER_EDGE_E, TILE.WATER_EDGE_W, TILE.WATER_CORNER,
+  TILE.TREE_TRUNK, TILE.DARK_TREE_TRUNK,
+  TILE.WALL_WOOD_H, TILE.WALL_WOOD_V, TILE.WALL_STONE_H, TILE.WALL_STONE_V,
+]);
+
+/** Overlay props that block movement. Canopies, grass, lanterns and banners are walk-through. */
+const BLOCKING_OVERLAY = new Set<number>([
+  TILE.ROCK_LARGE,
+  TILE.ROOF_RED, TILE.ROOF_BLUE, TILE.ROOF_RED_TOP, TILE.ROOF_BLUE_TOP,
+  TILE.COUNTER, TILE.FENCE_H, TILE.FENCE_V,
+  TILE.STALL, TILE.STALL_GREEN, TILE.STALL_RED, TILE.FOUNTAIN, TILE.CART,
+]);
+
+/** True when the ground/overlay pair at a tile blocks movement. Used by the pathfinder. */
+export function isBlockingTile(ground: number, overlay: number): boolean {
+  return BLOCKING_GROUND.has(ground) || BLOCKING_OVERLAY.has(overlay);
+}
+
 // ── Zone JSON types ──────────────────────────────────────────────────
 
 interface Vec2 {
@@ -9,6 +9,8 @@ import { logZoneEvent } from "./zoneEvents.js";
 import { getRedis } from "../redis.js";
 import { getMerchantStateProjection, listMerchantStates, upsertMerchantState } from "../db/merchantStateStore.js";
 import { isPostgresConfigured } from "../db/postgres.js";
+import { applyAffinityDiscount, getNpcAffinityTier } from "../social/npcAffinity.js";
+import { getNpcRelationship } from "../social/npcMemoryService.js";
 
 // ── Data Structures ──────────────────────────────────────────────
 
@@ -106,6 +108,31 @@ export function getMerchantPrice(entityId: string, tokenId: number): number | un
   return entry?.currentPrice;
 }
 
+/**
+ * What a specific buyer pays per unit: the dynamic price less the discount
+ * their affinity with this merchant has earned.
+ */
+export async function getMerchantPriceForBuyer(
+  entityId: string,
+  tokenId: number,
+  buyerAddress: string,
+): Promise<{ unitPrice: number; listPrice: number; affinityDiscountPct: number } | undefined> {
+  const state = getMerchantState(entityId);
+  const listPrice = state?.inventory.get(tokenId)?.currentPrice;
+  if (!state || listPrice === undefined) return undefined;
+  const affinity = await getNpcRelationship(buyerAddress, state.npcName)
+    .then((relationship) => relationship.affinity)
+    .catch((err) => {
+      console.warn(`[merchant] Affinity lookup failed for ${buyerAddress} at ${state.npcName}:`, err);
+      return 0;
+    });
+  return {
+    unitPrice: applyAffinityDiscount(listPrice, affinity),
+    listPrice,
+    affinityDiscountPct: getNpcAffinityTier(affinity).shopDiscountPct,
+  };
+}
+
 export function getMerchantStock(entityId: string, tokenId: number): number | undefined {
   const state = getMerchantState(entityId);
   if (!state) return undefined;
@@ -23,6 +23,8 @@ export interface NpcDef {
   xpReward?: number;
   teachesProfession?: ProfessionType;
   teachesClass?: string;
+  /** Boss script id — world/content/bosses/<script>.json (bosses only). */
+  script?: string;
 }
 
 // ── Humanoid NPC appearance generation ─────────────────────────────────
@@ -245,6 +247,7 @@ function spawnSingleNpc(def: NpcDef, scatter = false): void {
     ...(def.xpReward != null && { xpReward: def.xpReward }),
     ...(def.teachesProfession != null && { teachesProfession: def.teachesProfession }),
     ...(def.teachesClass != null && { teachesClass: def.teachesClass }),
+    ...(def.script != null && { bossScript: def.script }),
     // Store spawn origin for leash/de-aggro (world-space)
     ...(isCombatant && { spawnX: worldX, spawnY: worldY }),
     // Give mobs/bosses real combat stats so they use the stat-based damage formula
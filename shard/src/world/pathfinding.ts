@@ -0,0 +1,527 @@
+/**
+ * pathfinding.ts — Tile-grid A* over the generated terrain layers.
+ *
+ * Each zone's GeneratedMap (ground/overlay/elevation) is turned into a
+ * walkability grid on first use. moveToward() in zoneRuntime asks
+ * steerToward() for the next waypoint instead of heading straight at the
+ * goal, and canStepBetween() stops a single tick's step from crossing water,
+ * walls or cliffs.
+ *
+ * Cost control:
+ *   - straight lines with clear line-of-sight skip A* entirely
+ *   - computed paths are cached per zone (LRU) and per entity
+ *   - every search is capped at PATHFINDING_MAX_NODES_PER_SEARCH expansions
+ *     and the whole tick shares PATHFINDING_NODE_BUDGET_PER_TICK; once the
+ *     budget is spent searches are deferred to the next tick
+ *
+ * Grids and caches are keyed by GeneratedMap identity, so a terrain edit
+ * (PUT /v2/terrain/zone/:zoneId replaces the map) invalidates both.
+ */
+
+import { getGeneratedMap, isBlockingTile, type GeneratedMap } from "./mapGenerator.js";
+import { getZoneOffset } from "./worldLayout.js";
+
+// ── Config ───────────────────────────────────────────────────────────
+
+const MAX_NODES_PER_SEARCH = Math.max(
+  100,
+  Number.parseInt(process.env.PATHFINDING_MAX_NODES_PER_SEARCH ?? "6000", 10) || 6000,
+);
+const NODE_BUDGET_PER_TICK = Math.max(
+  MAX_NODES_PER_SEARCH,
+  Number.parseInt(process.env.PATHFINDING_NODE_BUDGET_PER_TICK ?? "40000", 10) || 40000,
+);
+const PATH_CACHE_PER_ZONE = Math.max(
+  16,
+  Number.parseInt(process.env.PATHFINDING_CACHE_SIZE ?? "256", 10) || 256,
+);
+
+/** Largest elevation difference (0-30 scale) between adjacent tiles that can be walked. */
+const MAX_STEP_ELEVATION = 6;
+/** Extra cost per elevation unit climbed, so paths prefer flat ground. */
+const CLIMB_COST = 0.15;
+/** How far (in tiles) a blocked goal is snapped to the nearest walkable tile. */
+const GOAL_SNAP_RADIUS = 4;
+/** Re-plan when the goal drifts this many tiles from the planned goal (chasing a moving target). */
+const REPATH_GOAL_DRIFT_TILES = 2;
+/** Re-plan stale paths so entity pushes and terrain edits are picked up. */
+const PATH_MAX_AGE_TICKS = 20;
+
+const SQRT2 = Math.SQRT2;
+const NEIGHBORS: ReadonlyArray<readonly [number, number, number]> = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, SQRT2], [1, -1, SQRT2], [-1, 1, SQRT2], [-1, -1, SQRT2],
+];
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+export type PathResult =
+  /** No nav data, goal outside the zone, or clear line-of-sight — walk straight. */
+  | { status: "direct" }
+  /** Waypoints in world space. `partial` = goal unreachable, path ends at the closest reachable tile. */
+  | { status: "found"; waypoints: PathPoint[]; partial: boolean }
+  /** Per-tick node budget exhausted — try again next tick. */
+  | { status: "deferred" };
+
+export interface SteerResult {
+  x: number;
+  y: number;
+  /** Entity reached the end of a partial path — it cannot get any closer to the goal. */
+  settled: boolean;
+}
+
+interface NavGrid {
+  width: number;
+  height: number;
+  tileSize: number;
+  offsetX: number;
+  offsetZ: number;
+  walkable: Uint8Array;
+  elevation: ArrayLike<number>;
+  paths: Map<string, { waypoints: PathPoint[]; partial: boolean }>;
+}
+
+interface EntityPath {
+  grid: NavGrid;
+  goalX: number;
+  goalY: number;
+  waypoints: PathPoint[];
+  index: number;
+  partial: boolean;
+  computedAtTick: number;
+}
+
+// ── State ────────────────────────────────────────────────────────────
+
+const navGrids = new WeakMap<GeneratedMap, NavGrid>();
+const entityPaths = new WeakMap<object, EntityPath>();
+
+let nodesSpentThisTick = 0;
+const stats = {
+  searches: 0,
+  cacheHits: 0,
+  directHits: 0,
+  deferred: 0,
+  partial: 0,
+  nodesExpanded: 0,
+};
+
+/** Called once at the start of every world tick. */
+export function resetPathfindingBudget(): void {
+  nodesSpentThisTick = 0;
+}
+
+export function getPathfindingStats(): typeof stats & { nodeBudgetPerTick: number; nodesSpentThisTick: number } {
+  return { ...stats, nodeBudgetPerTick: NODE_BUDGET_PER_TICK, nodesSpentThisTick };
+}
+
+// ── Grid construction ────────────────────────────────────────────────
+
+function getNavGrid(zoneId: string | undefined): NavGrid | null {
+  if (!zoneId) return null;
+  const map = getGeneratedMap(zoneId);
+  if (!map) return null;
+  const cached = navGrids.get(map);
+  if (cached) return cached;
+
+  const size = map.width * map.height;
+  const walkable = new Uint8Array(size);
+  for (let i = 0; i < size; i++) {
+    walkable[i] = isBlockingTile(map.ground[i] ?? -1, map.overlay[i] ?? -1) ? 0 : 1;
+  }
+  const offset = getZoneOffset(zoneId) ?? { x: 0, z: 0 };
+  const grid: NavGrid = {
+    width: map.width,
+    height: map.height,
+    tileSize: map.tileSize,
+    offsetX: offset.x,
+    offsetZ: offset.z,
+    walkable,
+    elevation: map.elevation,
+    paths: new Map(),
+  };
+  navGrids.set(map, grid);
+  return grid;
+}
+
+function tileOf(grid: NavGrid, x: number, y: number): { tx: number; tz: number } {
+  return {
+    tx: Math.floor((x - grid.offsetX) / grid.tileSize),
+    tz: Math.floor((y - grid.offsetZ) / grid.tileSize),
+  };
+}
+
+function inGrid(grid: NavGrid, tx: number, tz: number): boolean {
+  return tx >= 0 && tz >= 0 && tx < grid.width && tz < grid.height;
+}
+
+function tileCenter(grid: NavGrid, idx: number): PathPoint {
+  const tx = idx % grid.width;
+  const tz = Math.floor(idx / grid.width);
+  return {
+    x: grid.offsetX + (tx + 0.5) * grid.tileSize,
+    y: grid.offsetZ + (tz + 0.5) * grid.tileSize,
+  };
+}
+
+function climb(grid: NavGrid, from: number, to: number): number {
+  return Math.abs((grid.elevation[to] ?? 0) - (grid.elevation[from] ?? 0));
+}
+
+/**
+ * Walk the segment in quarter-tile samples and reject it if it enters a
+ * blocked tile or climbs a cliff. Samples outside the grid are allowed so
+ * entities can still cross zone edges.
+ */
+function segmentClear(grid: NavGrid, ax: number, ay: number, bx: number, by: number): boolean {
+  const dist = Math.hypot(bx - ax, by - ay);
+  const samples = Math.max(1, Math.ceil(dist / (grid.tileSize * 0.25)));
+  let prevIdx = -1;
+  for (let s = 0; s <= samples; s++) {
+    const t = s / samples;
+    const { tx, tz } = tileOf(grid, ax + (bx - ax) * t, ay + (by - ay) * t);
+    if (!inGrid(grid, tx, tz)) {
+      prevIdx = -1;
+      continue;
+    }
+    const idx = tz * grid.width + tx;
+    if (idx === prevIdx) continue;
+    // The starting tile may be blocked (spawned in water, pushed into a wall) — let it walk out.
+    if (s > 0 && !grid.walkable[idx]) return false;
+    if (prevIdx >= 0 && climb(grid, prevIdx, idx) > MAX_STEP_ELEVATION) return false;
+    prevIdx = idx;
+  }
+  return true;
+}
+
+function nearestWalkable(grid: NavGrid, tx: number, tz: number): number {
+  let best = -1;
+  let bestDist = Infinity;
+  for (let dz = -GOAL_SNAP_RADIUS; dz <= GOAL_SNAP_RADIUS; dz++) {
+    for (let dx = -GOAL_SNAP_RADIUS; dx <= GOAL_SNAP_RADIUS; dx++) {
+      const nx = tx + dx;
+      const nz = tz + dz;
+      if (!inGrid(grid, nx, nz)) continue;
+      const idx = nz * grid.width + nx;
+      if (!grid.walkable[idx]) continue;
+      const d = dx * dx + dz * dz;
+      if (d < bestDist) {
+        bestDist = d;
+        best = idx;
+      }
+    }
+  }
+  return best;
+}
+
+// ── A* ───────────────────────────────────────────────────────────────
+
+/** Minimal binary min-heap keyed by f-score. */
+class OpenSet {
+  private nodes: number[] = [];
+  private scores: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, score: number): void {
+    this.nodes.push(node);
+    this.scores.push(score);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.scores[parent] <= this.scores[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastScore = this.scores.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.scores[0] = lastScore;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < this.nodes.length && this.scores[l] < this.scores[smallest]) smallest = l;
+        if (r < this.nodes.length && this.scores[r] < this.scores[smallest]) smallest = r;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.scores[a], this.scores[b]] = [this.scores[b], this.scores[a]];
+  }
+}
+
+function octile(ax: number, az: number, bx: number, bz: number): number {
+  const dx = Math.abs(ax - bx);
+  const dz = Math.abs(az - bz);
+  return Math.max(dx, dz) + (SQRT2 - 1) * Math.min(dx, dz);
+}
+
+/** Returns tile indices from start to goal (or to the closest node reached), or null when deferred. */
+function aStar(grid: NavGrid, start: number, goal: number): { tiles: number[]; reached: boolean } | null {
+  const remaining = NODE_BUDGET_PER_TICK - nodesSpentThisTick;
+  if (remaining <= 0) return null;
+  const limit = Math.min(MAX_NODES_PER_SEARCH, remaining);
+
+  const size = grid.width * grid.height;
+  const gScore = new Float64Array(size).fill(Infinity);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+  const open = new OpenSet();
+  const gx = goal % grid.width;
+  const gz = Math.floor(goal / grid.width);
+
+  gScore[start] = 0;
+  open.push(start, octile(start % grid.width, Math.floor(start / grid.width), gx, gz));
+  let best = start;
+  let bestH = Infinity;
+  let expanded = 0;
+  let reached = false;
+
+  while (open.size > 0 && expanded < limit) {
+    const current = open.pop();
+    if (closed[current]) continue;
+    closed[current] = 1;
+    expanded++;
+
+    const cx = current % grid.width;
+    const cz = Math.floor(current / grid.width);
+    const h = octile(cx, cz, gx, gz);
+    if (h < bestH) {
+      bestH = h;
+      best = current;
+    }
+    if (current === goal) {
+      reached = true;
+      break;
+    }
+
+    for (const [dx, dz, stepCost] of NEIGHBORS) {
+      const nx = cx + dx;
+      const nz = cz + dz;
+      if (!inGrid(grid, nx, nz)) continue;
+      const next = nz * grid.width + nx;
+      if (closed[next] || !grid.walkable[next]) continue;
+      // No corner cutting: both orthogonal neighbours of a diagonal step must be open.
+      if (dx !== 0 && dz !== 0 && (!grid.walkable[cz * grid.width + nx] || !grid.walkable[nz * grid.width + cx])) continue;
+      const rise = climb(grid, current, next);
+      if (rise > MAX_STEP_ELEVATION) continue;
+
+      const tentative = gScore[current] + stepCost * (1 + rise * CLIMB_COST);
+      if (tentative >= gScore[next]) continue;
+      gScore[next] = tentative;
+      cameFrom[next] = current;
+      open.push(next, tentative + octile(nx, nz, gx, gz));
+    }
+  }
+
+  nodesSpentThisTick += expanded;
+  stats.nodesExpanded += expanded;
+
+  const tiles: number[] = [];
+  for (let node = reached ? goal : best; node !== -1; node = cameFrom[node]) {
+    tiles.push(node);
+    if (node === start) break;
+  }
+  tiles.reverse();
+  return { tiles, reached };
+}
+
+/** String-pull the tile chain into the fewest waypoints with clear line-of-sight. */
+function smoothPath(grid: NavGrid, fromX: number, fromY: number, tiles: number[]): PathPoint[] {
+  const points = tiles.map((idx) => tileCenter(grid, idx));
+  const waypoints: PathPoint[] = [];
+  let anchor: PathPoint = { x: fromX, y: fromY };
+  let i = 0;
+  while (i < points.length) {
+    let furthest = i;
+    for (let j = points.length - 1; j > i; j--) {
+      if (segmentClear(grid, anchor.x, anchor.y, points[j].x, points[j].y)) {
+        furthest = j;
+        break;
+      }
+    }
+    waypoints.push(points[furthest]);
+    anchor = points[furthest];
+    i = furthest + 1;
+  }
+  return waypoints;
+}
+
+// ── Public API ───────────────────────────────────────────────────────
+
+/** Plan a route inside one zone. Coordinates are world-space (entity x/y). */
+export function findPath(zoneId: string | undefined, fromX: number, fromY: number, toX: number, toY: number): PathResult {
+  const grid = getNavGrid(zoneId);
+  if (!grid) return { status: "direct" };
+
+  const from = tileOf(grid, fromX, fromY);
+  const to = tileOf(grid, toX, toY);
+  // Cross-zone travel: region transitions take over at the edge.
+  if (!inGrid(grid, from.tx, from.tz) || !inGrid(grid, to.tx, to.tz)) return { status: "direct" };
+
+  let goal = to.tz * grid.width + to.tx;
+  const snapped = !grid.walkable[goal];
+  if (!snapped && segmentClear(grid, fromX, fromY, toX, toY)) {
+    stats.directHits++;
+    return { status: "direct" };
+  }
+  if (snapped) {
+    goal = nearestWalkable(grid, to.tx, to.tz);
+    if (goal < 0) return { status: "found", waypoints: [], partial: true };
+  }
+
+  const start = from.tz * grid.width + from.tx;
+  const key = `${start}:${goal}`;
+  const cached = grid.paths.get(key);
+  if (cached) {
+    // Refresh LRU position
+    grid.paths.delete(key);
+    grid.paths.set(key, cached);
+    stats.cacheHits++;
+    return { status: "found", waypoints: cached.waypoints, partial: cached.partial };
+  }
+
+  const result = aStar(grid, start, goal);
+  if (!result) {
+    stats.deferred++;
+    return { status: "deferred" };
+  }
+  stats.searches++;
+
+  const partial = !result.reached || snapped;
+  if (partial) stats.partial++;
+  const waypoints = smoothPath(grid, fromX, fromY, result.tiles);
+  grid.paths.set(key, { waypoints, partial });
+  if (grid.paths.size > PATH_CACHE_PER_ZONE) {
+    const oldest = grid.paths.keys().next().value;
+    if (oldest !== undefined) grid.paths.delete(oldest);
+  }
+  return { status: "found", waypoints, partial };
+}
+
+/** True when a world-space point is standable (or the zone has no nav data). */
+export function isWalkableAt(zoneId: string | undefined, x: number, y: number): boolean {
+  const grid = getNavGrid(zoneId);
+  if (!grid) return true;
+  const { tx, tz } = tileOf(grid, x, y);
+  if (!inGrid(grid, tx, tz)) return true;
+  return grid.walkable[tz * grid.width + tx] === 1;
+}
+
+/** Whether a single movement step may go from one point to another without crossing blocked terrain. */
+export function canStepBetween(zoneId: string | undefined, fromX: number, fromY: number, toX: number, toY: number): boolean {
+  const grid = getNavGrid(zoneId);
+  if (!grid) return true;
+  return segmentClear(grid, fromX, fromY, toX, toY);
+}
+
+/**
+ * Next point an entity should head for on its way to (tx, ty). Keeps the
+ * entity's planned path between ticks and only re-plans when the goal moves,
+ * the path goes stale, or the terrain changes.
+ */
+export function steerToward(
+  entity: { x: number; y: number; region?: string },
+  tx: number,
+  ty: number,
+  tick: number,
+): SteerResult {
+  const grid = getNavGrid(entity.region);
+  if (!grid) {
+    entityPaths.delete(entity);
+    return { x: tx, y: ty, settled: false };
+  }
+
+  let plan = entityPaths.get(entity);
+  const drift = grid.tileSize * REPATH_GOAL_DRIFT_TILES;
+  if (
+    plan
+    && (plan.grid !== grid
+      || Math.hypot(plan.goalX - tx, plan.goalY - ty) > drift
+      || tick - plan.computedAtTick > PATH_MAX_AGE_TICKS)
+  ) {
+    plan = undefined;
+  }
+
+  if (!plan) {
+    const result = findPath(entity.region, entity.x, entity.y, tx, ty);
+    if (result.status !== "found") {
+      entityPaths.delete(entity);
+      // Deferred searches fall back to a straight line; canStepBetween still stops wall clipping.
+      return { x: tx, y: ty, settled: false };
+    }
+    plan = {
+      grid,
+      goalX: tx,
+      goalY: ty,
+      waypoints: result.waypoints,
+      index: 0,
+      partial: result.partial,
+      computedAtTick: tick,
+    };
+    entityPaths.set(entity, plan);
+  }
+
+  const arriveRadius = grid.tileSize * 0.6;
+  while (plan.index < plan.waypoints.length) {
+    const wp = plan.waypoints[plan.index];
+    if (Math.hypot(wp.x - entity.x, wp.y - entity.y) > arriveRadius) break;
+    plan.index++;
+  }
+
+  if (plan.index < plan.waypoints.length) {
+    // On the last leg of a complete path, aim at the exact goal rather than the tile centre.
+    const isLast = plan.index === plan.waypoints.length - 1;
+    if (isLast && !plan.partial && segmentClear(grid, entity.x, entity.y, tx, ty)) {
+      return { x: tx, y: ty, settled: false };
+    }
+    const wp = plan.waypoints[plan.index];
+    return { x: wp.x, y: wp.y, settled: false };
+  }
+
+  if (plan.partial) return { x: entity.x, y: entity.y, settled: true };
+  return { x: tx, y: ty, settled: false };
+}
+
+/**
+ * Remaining walking distance along the entity's planned path, or null when it
+ * is moving in a straight line. Detours around walls temporarily increase the
+ * straight-line distance, so progress checks should prefer this.
+ */
+export function getPlannedPathDistance(entity: { x: number; y: number }): number | null {
+  const plan = entityPaths.get(entity);
+  if (!plan) return null;
+  let total = 0;
+  let prev: PathPoint = entity;
+  for (let i = plan.index; i < plan.waypoints.length; i++) {
+    total += Math.hypot(plan.waypoints[i].x - prev.x, plan.waypoints[i].y - prev.y);
+    prev = plan.waypoints[i];
+  }
+  if (!plan.partial) total += Math.hypot(plan.goalX - prev.x, plan.goalY - prev.y);
+  return total;
+}
+
+/** Drop an entity's planned path (new order, teleport, respawn). */
+export function clearEntityPath(entity: object): void {
+  entityPaths.delete(entity);
+}
@@ -0,0 +1,396 @@
+/**
+ * rng.ts — Deterministic, seedable RNG service for gameplay rolls.
+ *
+ * Every gameplay roll draws from a named stream (combat, loot, quality, ...)
+ * scoped to a zone and the current world tick. A stream's generator is
+ * mulberry32 seeded from sha256(worldSeed:zone:stream:tick), so a draw is a
+ * pure function of (seed, zone, stream, tick, draw index). Streams don't
+ * interfere with each other: an extra loot roll never shifts combat rolls.
+ *
+ * The recorder captures every draw for selected zones together with entity
+ * snapshots taken when recording started and stopped. replayRngRecording()
+ * re-derives each draw from the seed and, given a ZoneReplayDriver, re-runs
+ * the recorded ticks from the start snapshot and diffs the result against
+ * the stop snapshot. The admin route only does the first part; there is no
+ * driver for the live world. withRecordedRng() feeds a recording back into
+ * the roll functions so a reported hit or drop can be re-run offline with
+ * identical outcomes.
+ *
+ * Env:
+ *   WORLD_RNG_SEED           fixed world seed (default: random per boot, logged)
+ *   RNG_RECORDING_MAX_DRAWS  per-zone recording cap (default 50000)
+ */
+
+import { createHash, randomBytes } from "crypto";
+
+// ── Seeded PRNG (mulberry32) ───────────────────────────────────────────
+
+export function seedToUint32(seed: string): number {
+  const hash = createHash("sha256").update(seed).digest();
+  return hash.readUInt32BE(0);
+}
+
+export function mulberry32(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ── Streams ────────────────────────────────────────────────────────────
+
+export type RngStream =
+  | "combat"      // dodge / crit / block in resolveHit
+  | "loot"        // mob drops, skinning drops, copper rewards
+  | "quality"     // crafted item quality, stat variance, affixes, durability
+  | "crafting"    // profession failure rolls
+  | "roaming"     // idle mob wander targets
+  | "resources";  // resource node respawn scatter
+
+/** Zone key used when a roll happens outside any zone (e.g. a craft request with no region). */
+export const GLOBAL_RNG_ZONE = "global";
+
+const MAX_RECORDED_DRAWS = Math.max(
+  1_000,
+  Number.parseInt(process.env.RNG_RECORDING_MAX_DRAWS ?? "50000", 10) || 50_000,
+);
+
+interface StreamState {
+  next: () => number;
+  seq: number;
+}
+
+let worldSeed = process.env.WORLD_RNG_SEED?.trim() || randomBytes(8).toString("hex");
+let currentTick = 0;
+const streams = new Map<string, StreamState>();
+
+if (!process.env.WORLD_RNG_SEED?.trim()) {
+  console.log(`[rng] WORLD_RNG_SEED not set — using random seed ${worldSeed}`);
+}
+
+export function getRngSeed(): string {
+  return worldSeed;
+}
+
+/** Re-seed the world RNG (tests, replays). Drops all stream state. */
+export function setRngSeed(seed: string): void {
+  worldSeed = seed;
+  streams.clear();
+}
+
+/** Advance the tick all streams are scoped to. Called at the start of every world tick. */
+export function setRngTick(tick: number): void {
+  if (tick === currentTick) return;
+  currentTick = tick;
+  streams.clear();
+}
+
+export function getRngTick(): number {
+  return currentTick;
+}
+
+function streamKey(zoneId: string, stream: RngStream): string {
+  return `${zoneId}|${stream}`;
+}
+
+export function deriveStreamSeed(seed: string, zoneId: string, stream: RngStream, tick: number): number {
+  return seedToUint32(`${seed}:${zoneId}:${stream}:${tick}`);
+}
+
+// ── Recorder ───────────────────────────────────────────────────────────
+
+export interface RngDraw {
+  tick: number;
+  stream: RngStream;
+  seq: number;
+  value: number;
+  label?: string;
+}
+
+export interface RngRecording {
+  version: 1;
+  seed: string;
+  zoneId: string;
+  startedAtTick: number;
+  stoppedAtTick?: number;
+  /** Serialized zone entities at the moment recording started. */
+  snapshot: Record<string, unknown>[];
+  /** Serialized zone entities when recording stopped; what a tick replay must reproduce. */
+  finalSnapshot?: Record<string, unknown>[];
+  draws: RngDraw[];
+  truncated: boolean;
+}
+
+const recordings = new Map<string, RngRecording>();
+
+export function startRngRecording(zoneId: string, snapshot: Record<string, unknown>[]): RngRecording {
+  const recording: RngRecording = {
+    version: 1,
+    seed: worldSeed,
+    zoneId,
+    startedAtTick: currentTick,
+    snapshot,
+    draws: [],
+    truncated: false,
+  };
+  recordings.set(zoneId, recording);
+  return recording;
+}
+
+export function stopRngRecording(zoneId: string, finalSnapshot?: Record<string, unknown>[]): RngRecording | undefined {
+  const recording = recordings.get(zoneId);
+  if (!recording) return undefined;
+  recording.stoppedAtTick = currentTick;
+  if (finalSnapshot) recording.finalSnapshot = finalSnapshot;
+  recordings.delete(zoneId);
+  return recording;
+}
+
+export function getRngRecording(zoneId: string): RngRecording | undefined {
+  return recordings.get(zoneId);
+}
+
+export function listRngRecordings(): Array<{ zoneId: string; startedAtTick: number; draws: number; truncated: boolean }> {
+  return [...recordings.values()].map((recording) => ({
+    zoneId: recording.zoneId,
+    startedAtTick: recording.startedAtTick,
+    draws: recording.draws.length,
+    truncated: recording.truncated,
+  }));
+}
+
+// ── Replay ─────────────────────────────────────────────────────────────
+
+/** Recorded draws queued per stream while withRecordedRng() is active. */
+let replayQueues: Map<string, RngDraw[]> | null = null;
+
+function queueDraws(zoneId: string, draws: RngDraw[]): Map<string, RngDraw[]> {
+  const queues = new Map<string, RngDraw[]>();
+  for (const draw of draws) {
+    const key = streamKey(zoneId, draw.stream);
+    const queue = queues.get(key) ?? [];
+    queue.push(draw);
+    queues.set(key, queue);
+  }
+  return queues;
+}
+
+function runWithQueues<T>(queues: Map<string, RngDraw[]>, fn: () => T): T {
+  const previous = replayQueues;
+  replayQueues = queues;
+  try {
+    return fn();
+  } finally {
+    replayQueues = previous;
+  }
+}
+
+/**
+ * Run `fn` with every roll in the recording's zone served from the recorded
+ * draws instead of the live generators. Lets a reported fight or drop be
+ * re-run against the snapshot with identical outcomes.
+ *
+ * Rolls never fall back to the live generators: one the recording can't
+ * serve (another zone, or more draws than were recorded) throws, because
+ * its outcome could not match the original run.
+ */
+export function withRecordedRng<T>(recording: RngRecording, fn: () => T): T {
+  return runWithQueues(queueDraws(recording.zoneId, recording.draws), fn);
+}
+
+/**
+ * Re-runs a recorded zone outside the live world. The driver owns a
+ * detached copy of the zone, so replayed deaths, drops and quest progress
+ * must not reach the chain or persistence.
+ */
+export interface ZoneReplayDriver {
+  /** Load the recording's start snapshot. */
+  restore(snapshot: Record<string, unknown>[]): void;
+  /** Run one zone tick; its rolls are served from the draws recorded at that tick. */
+  tick(tick: number): void;
+  /** Serialize the zone's entities for comparison with the stop snapshot. */
+  capture(): Record<string, unknown>[];
+}
+
+export interface RngStateMismatch {
+  entityId: string;
+  /** Top-level entity field, or "(entity)" when the entity is missing on one side. */
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface RngTickReplayResult {
+  ticks: number;
+  /** Recorded draws the replayed ticks never asked for. */
+  unusedDraws: number;
+  /** Set when a tick threw, e.g. it asked for a draw that was never recorded. */
+  error?: string;
+  mismatches: RngStateMismatch[];
+}
+
+export interface RngReplayResult {
+  zoneId: string;
+  draws: number;
+  ticks: number;
+  mismatches: Array<RngDraw & { expected: number }>;
+  /** Present when the recorded ticks were re-run through a ZoneReplayDriver. */
+  state?: RngTickReplayResult;
+}
+
+function entityKey(entity: Record<string, unknown>, index: number): string {
+  return typeof entity.id === "string" ? entity.id : `#${index}`;
+}
+
+/** Field-by-field diff of two serialized entity lists, matched by entity id. */
+export function diffZoneSnapshots(
+  expected: Record<string, unknown>[],
+  actual: Record<string, unknown>[],
+): RngStateMismatch[] {
+  const mismatches: RngStateMismatch[] = [];
+  const actualById = new Map(actual.map((entity, index) => [entityKey(entity, index), entity]));
+  expected.forEach((want, index) => {
+    const entityId = entityKey(want, index);
+    const got = actualById.get(entityId);
+    actualById.delete(entityId);
+    if (!got) {
+      mismatches.push({ entityId, field: "(entity)", expected: want, actual: undefined });
+      return;
+    }
+    for (const field of new Set([...Object.keys(want), ...Object.keys(got)])) {
+      if (JSON.stringify(want[field]) !== JSON.stringify(got[field])) {
+        mismatches.push({ entityId, field, expected: want[field], actual: got[field] });
+      }
+    }
+  });
+  for (const [entityId, got] of actualById) {
+    mismatches.push({ entityId, field: "(entity)", expected: undefined, actual: got });
+  }
+  return mismatches;
+}
+
+/**
+ * Re-run ticks startedAtTick+1 .. stoppedAtTick from the start snapshot,
+ * each with only the draws recorded at that tick, and diff the zone against
+ * the stop snapshot. Draws at startedAtTick came from requests handled
+ * before the first recorded tick and are not replayed.
+ */
+export function replayRecordedTicks(recording: RngRecording, driver: ZoneReplayDriver): RngTickReplayResult {
+  const result: RngTickReplayResult = { ticks: 0, unusedDraws: 0, mismatches: [] };
+  if (recording.stoppedAtTick == null || !recording.finalSnapshot) {
+    result.error = "Recording has no stop snapshot to compare against";
+    return result;
+  }
+
+  const drawsByTick = new Map<number, RngDraw[]>();
+  for (const draw of recording.draws) {
+    if (draw.tick <= recording.startedAtTick) continue;
+    const draws = drawsByTick.get(draw.tick) ?? [];
+    draws.push(draw);
+    drawsByTick.set(draw.tick, draws);
+  }
+
+  driver.restore(structuredClone(recording.snapshot));
+  for (let tick = recording.startedAtTick + 1; tick <= recording.stoppedAtTick; tick++) {
+    const queues = queueDraws(recording.zoneId, drawsByTick.get(tick) ?? []);
+    try {
+      runWithQueues(queues, () => driver.tick(tick));
+    } catch (err) {
+      result.error = `Tick ${tick}: ${err instanceof Error ? err.message : String(err)}`;
+      return result;
+    }
+    result.ticks++;
+    for (const queue of queues.values()) result.unusedDraws += queue.length;
+  }
+
+  result.mismatches = diffZoneSnapshots(recording.finalSnapshot, driver.capture());
+  return result;
+}
+
+/**
+ * Re-derive every recorded draw from the recording's seed and report
+ * divergences. With a driver the recorded ticks are also re-run and the
+ * resulting zone state compared (see replayRecordedTicks).
+ */
+export function replayRngRecording(recording: RngRecording, driver?: ZoneReplayDriver): RngReplayResult {
+  const generators = new Map<string, StreamState & { tick: number }>();
+  const mismatches: RngReplayResult["mismatches"] = [];
+  const ticks = new Set<number>();
+
+  for (const draw of recording.draws) {
+    ticks.add(draw.tick);
+    const key = `${draw.tick}|${draw.stream}`;
+    let state = generators.get(key);
+    if (!state) {
+      state = {
+        next: mulberry32(deriveStreamSeed(recording.seed, recording.zoneId, draw.stream, draw.tick)),
+        seq: 0,
+        tick: draw.tick,
+      };
+      generators.set(key, state);
+    }
+    // Fast-forward over draws that happened before recording started.
+    while (state.seq < draw.seq) {
+      state.next();
+      state.seq++;
+    }
+    const expected = state.next();
+    state.seq++;
+    if (expected !== draw.value) mismatches.push({ ...draw, expected });
+  }
+
+  return {
+    zoneId: recording.zoneId,
+    draws: recording.draws.length,
+    ticks: ticks.size,
+    mismatches,
+    ...(driver && { state: replayRecordedTicks(recording, driver) }),
+  };
+}
+
+// ── Drawing ────────────────────────────────────────────────────────────
+
+/** Float in [0, 1) from the named stream for a zone at the current tick. */
+export function rngFloat(stream: RngStream, zoneId?: string, label?: string): number {
+  const zone = zoneId || GLOBAL_RNG_ZONE;
+  const key = streamKey(zone, stream);
+
+  if (replayQueues) {
+    const queued = replayQueues.get(key)?.shift();
+    if (!queued) {
+      throw new Error(`[rng] Replay has no recorded ${stream} draw left for ${zone}; the run diverged from the recording`);
+    }
+    return queued.value;
+  }
+
+  let state = streams.get(key);
+  if (!state) {
+    state = { next: mulberry32(deriveStreamSeed(worldSeed, zone, stream, currentTick)), seq: 0 };
+    streams.set(key, state);
+  }
+  const value = state.next();
+  const seq = state.seq++;
+
+  const recording = recordings.get(zone);
+  if (recording) {
+    if (recording.draws.length < MAX_RECORDED_DRAWS) {
+      recording.draws.push({ tick: currentTick, stream, seq, value, ...(label && { label }) });
+    } else {
+      recording.truncated = true;
+    }
+  }
+  return value;
+}
+
+/** Integer in [min, max] inclusive. */
+export function rngInt(stream: RngStream, min: number, max: number, zoneId?: string, label?: string): number {
+  return Math.floor(rngFloat(stream, zoneId, label) * (max - min + 1)) + min;
+}
+
+/** True with probability `chance`. */
+export function rngChance(stream: RngStream, chance: number, zoneId?: string, label?: string): boolean {
+  return rngFloat(stream, zoneId, label) < chance;
+}
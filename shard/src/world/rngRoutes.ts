@@ -0,0 +1,115 @@
+import type { FastifyInstance } from "fastify";
+import {
+  getRngRecording,
+  getRngSeed,
+  getRngTick,
+  listRngRecordings,
+  replayRngRecording,
+  startRngRecording,
+  stopRngRecording,
+  type RngRecording,
+} from "./rng.js";
+import { getAllZones, toSerializableEntity, type ZoneState } from "./zoneRuntime.js";
+
+const ADMIN_SECRET = process.env.ADMIN_SECRET?.trim() || null;
+
+function verifyAdmin(
+  request: { headers: Record<string, string | string[] | undefined> },
+  reply: { code: (n: number) => { send: (b: unknown) => unknown } }
+): boolean {
+  if (!ADMIN_SECRET) {
+    reply.code(503).send({ error: "Admin route disabled: ADMIN_SECRET is not configured" });
+    return false;
+  }
+  const secret = request.headers["x-admin-secret"];
+  if (secret !== ADMIN_SECRET) {
+    reply.code(401).send({ error: "Unauthorized" });
+    return false;
+  }
+  return true;
+}
+
+/** Serialized entities, round-tripped through JSON so they are detached from live state. */
+function snapshotZone(zone: ZoneState): Record<string, unknown>[] {
+  return JSON.parse(JSON.stringify(
+    [...zone.entities.values()].map(toSerializableEntity),
+    (_key, value) => (typeof value === "bigint" ? value.toString() : value),
+  )) as Record<string, unknown>[];
+}
+
+/**
+ * Admin routes for the deterministic RNG service. The world seed lets anyone
+ * predict upcoming rolls, so everything here sits behind ADMIN_SECRET.
+ */
+export function registerRngRoutes(server: FastifyInstance): void {
+  // ── GET /admin/rng ─────────────────────────────────────────────────
+  server.get("/admin/rng", async (request, reply) => {
+    if (!verifyAdmin(request, reply)) return;
+    return { seed: getRngSeed(), tick: getRngTick(), recordings: listRngRecordings() };
+  });
+
+  // ── POST /admin/rng/recordings/:zoneId — start recording a zone ───
+  server.post<{ Params: { zoneId: string } }>(
+    "/admin/rng/recordings/:zoneId",
+    async (request, reply) => {
+      if (!verifyAdmin(request, reply)) return;
+      const { zoneId } = request.params;
+      const zone = getAllZones().get(zoneId);
+      if (!zone) {
+        return reply.code(404).send({ error: "Zone not found" });
+      }
+      const snapshot = snapshotZone(zone);
+      const recording = startRngRecording(zoneId, snapshot);
+      server.log.info(`[rng] Recording started for ${zoneId} at tick ${recording.startedAtTick}`);
+      return { ok: true, zoneId, startedAtTick: recording.startedAtTick, entities: snapshot.length };
+    }
+  );
+
+  // ── GET /admin/rng/recordings/:zoneId — recording so far ──────────
+  server.get<{ Params: { zoneId: string } }>(
+    "/admin/rng/recordings/:zoneId",
+    async (request, reply) => {
+      if (!verifyAdmin(request, reply)) return;
+      const recording = getRngRecording(request.params.zoneId);
+      if (!recording) {
+        return reply.code(404).send({ error: "No active recording for zone" });
+      }
+      return recording;
+    }
+  );
+
+  // ── DELETE /admin/rng/recordings/:zoneId — stop and download ──────
+  server.delete<{ Params: { zoneId: string } }>(
+    "/admin/rng/recordings/:zoneId",
+    async (request, reply) => {
+      if (!verifyAdmin(request, reply)) return;
+      const zone = getAllZones().get(request.params.zoneId);
+      const recording = stopRngRecording(request.params.zoneId, zone ? snapshotZone(zone) : undefined);
+      if (!recording) {
+        return reply.code(404).send({ error: "No active recording for zone" });
+      }
+      server.log.info(
+        `[rng] Recording stopped for ${recording.zoneId}: ${recording.draws.length} draws over ticks ${recording.startedAtTick}-${recording.stoppedAtTick}`
+      );
+      return recording;
+    }
+  );
+
+  // ── POST /admin/rng/verify-draws — check a recording's draws ───────
+  // A seed/draw checker, not a replay: it re-derives every recorded draw
+  // from the recording's seed, which catches an edited recording or a change
+  // to stream seeding, but it never re-runs a tick, so it can't catch
+  // gameplay that stopped being deterministic. That needs replayRecordedTicks
+  // with a detached ZoneReplayDriver, run offline — live zone ticks mint and
+  // persist. Recordings run to a few MB at the default draw cap.
+  server.post<{ Body: RngRecording }>("/admin/rng/verify-draws", { bodyLimit: 16 * 1024 * 1024 }, async (request, reply) => {
+    if (!verifyAdmin(request, reply)) return;
+    const recording = request.body;
+    if (!recording || recording.version !== 1 || typeof recording.seed !== "string"
+      || typeof recording.zoneId !== "string" || !Array.isArray(recording.draws)) {
+      return reply.code(400).send({ error: "Body must be a recording returned by /admin/rng/recordings" });
+    }
+    const result = replayRngRecording(recording);
+    return { ...result, drawsMatch: result.mismatches.length === 0 };
+  });
+}
@@ -0,0 +1,212 @@
+/** Anything with a world-space position and an optional region tag. */
+export interface SpatialItem {
+  x: number;
+  y: number;
+  region?: string;
+}
+
+/** Cell size in world units. Close to the mob aggro range, so most queries touch 4–9 cells. */
+export const SPATIAL_CELL_SIZE = 64;
+
+// Cell keys pack both cell coordinates into one safe integer so lookups
+// don't allocate strings. ±2^20 cells is far beyond any world layout.
+const CELL_OFFSET = 1 << 20;
+const CELL_SPAN = 1 << 21;
+/** Items with a non-finite position live here and never match a radius query. */
+const NOWHERE = -1;
+
+interface Entry<T> {
+  id: string;
+  item: T;
+  cell: number;
+  region: string | undefined;
+}
+
+/**
+ * Incrementally maintained grid + region index over world entities.
+ *
+ * Unlike the legacy per-tick `SpatialIndex` this one is never rebuilt:
+ * items are added and removed as the entity map changes, and `reindex()`
+ * moves an item between cells/regions only when its position or region
+ * actually changed. `refresh()` re-checks everything (or one region) for
+ * code that mutates positions without telling the index.
+ */
+export class EntitySpatialIndex<T extends SpatialItem> {
+  private readonly entries = new Map<string, Entry<T>>();
+  private readonly cells = new Map<number, Set<Entry<T>>>();
+  private readonly regions = new Map<string, Map<string, T>>();
+
+  constructor(private readonly cellSize = SPATIAL_CELL_SIZE) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get cellCount(): number {
+    return this.cells.size;
+  }
+
+  /** Insert or replace the item stored under `id`. */
+  set(id: string, item: T): void {
+    const existing = this.entries.get(id);
+    if (existing) {
+      if (existing.item === item) {
+        this.reindex(id);
+        return;
+      }
+      this.delete(id);
+    }
+    const entry: Entry<T> = { id, item, cell: this.cellOf(item.x, item.y), region: item.region };
+    this.entries.set(id, entry);
+    this.addToCell(entry);
+    this.addToRegion(entry);
+  }
+
+  delete(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    this.removeFromCell(entry);
+    this.removeFromRegion(entry);
+    this.entries.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.cells.clear();
+    this.regions.clear();
+  }
+
+  /** Re-file one item after its position or region changed. Returns true if it moved cell or region. */
+  reindex(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+    const { item } = entry;
+    let moved = false;
+
+    const cell = this.cellOf(item.x, item.y);
+    if (cell !== entry.cell) {
+      this.removeFromCell(entry);
+      entry.cell = cell;
+      this.addToCell(entry);
+      moved = true;
+    }
+    if (item.region !== entry.region) {
+      this.removeFromRegion(entry);
+      entry.region = item.region;
+      this.addToRegion(entry);
+      moved = true;
+    }
+    return moved;
+  }
+
+  /** Re-check every item, or only the items currently filed under `region`. Returns how many moved. */
+  refresh(region?: string): number {
+    let moved = 0;
+    const ids = region === undefined ? this.entries.keys() : this.regions.get(region)?.keys();
+    if (!ids) return 0;
+    // Snapshot: re-filing an item mutates the region map being iterated.
+    for (const id of Array.from(ids)) {
+      if (this.reindex(id)) moved++;
+    }
+    return moved;
+  }
+
+  /** [id, item] pairs filed under a region, in the order they joined it. */
+  regionEntries(region: string): IterableIterator<[string, T]> {
+    return (this.regions.get(region) ?? EMPTY_REGION).entries() as IterableIterator<[string, T]>;
+  }
+
+  regionSize(region: string): number {
+    return this.regions.get(region)?.size ?? 0;
+  }
+
+  regionIds(): IterableIterator<string> {
+    return this.regions.keys();
+  }
+
+  /**
+   * Items within `radius` of (x, y), optionally only those in `region`.
+   * Distances use each item's current position, so an item that moved
+   * within its cell since it was last indexed is still measured correctly.
+   */
+  queryRadius(x: number, y: number, radius: number, region?: string): T[] {
+    const result: T[] = [];
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !(radius >= 0)) return result;
+    const r2 = radius * radius;
+
+    if (!Number.isFinite(radius)) {
+      for (const entry of this.entries.values()) {
+        if (region !== undefined && entry.item.region !== region) continue;
+        if (Number.isFinite(entry.item.x) && Number.isFinite(entry.item.y)) result.push(entry.item);
+      }
+      return result;
+    }
+
+    const minCx = this.coord(x - radius);
+    const maxCx = this.coord(x + radius);
+    const minCy = this.coord(y - radius);
+    const maxCy = this.coord(y + radius);
+    for (let cx = minCx; cx <= maxCx; cx++) {
+      for (let cy = minCy; cy <= maxCy; cy++) {
+        const cell = this.cells.get(cx * CELL_SPAN + cy);
+        if (!cell) continue;
+        for (const entry of cell) {
+          const item = entry.item;
+          if (region !== undefined && item.region !== region) continue;
+          const dx = item.x - x;
+          const dy = item.y - y;
+          if (dx * dx + dy * dy <= r2) result.push(item);
+        }
+      }
+    }
+    return result;
+  }
+
+  private coord(value: number): number {
+    const c = Math.floor(value / this.cellSize) + CELL_OFFSET;
+    return c < 0 ? 0 : c >= CELL_SPAN ? CELL_SPAN - 1 : c;
+  }
+
+  private cellOf(x: number, y: number): number {
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return NOWHERE;
+    return this.coord(x) * CELL_SPAN + this.coord(y);
+  }
+
+  private addToCell(entry: Entry<T>): void {
+    if (entry.cell === NOWHERE) return;
+    let cell = this.cells.get(entry.cell);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(entry.cell, cell);
+    }
+    cell.add(entry);
+  }
+
+  private removeFromCell(entry: Entry<T>): void {
+    const cell = this.cells.get(entry.cell);
+    if (!cell) return;
+    cell.delete(entry);
+    if (cell.size === 0) this.cells.delete(entry.cell);
+  }
+
+  private addToRegion(entry: Entry<T>): void {
+    if (entry.region === undefined) return;
+    let members = this.regions.get(entry.region);
+    if (!members) {
+      members = new Map();
+      this.regions.set(entry.region, members);
+    }
+    members.set(entry.id, entry.item);
+  }
+
+  private removeFromRegion(entry: Entry<T>): void {
+    if (entry.region === undefined) return;
+    const members = this.regions.get(entry.region);
+    if (!members) return;
+    members.delete(entry.id);
+    if (members.size === 0) this.regions.delete(entry.region);
+  }
+}
+
+const EMPTY_REGION: ReadonlyMap<string, never> = new Map<string, never>();
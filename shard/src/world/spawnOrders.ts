@@ -23,6 +23,8 @@ import { reputationManager } from "../economy/reputationManager.js";
 import { logDiary, narrativeSpawn } from "../social/diary.js";
 import { getWorldLayout, getZoneOffset } from "./worldLayout.js";
 import { rehydratePartyMembership } from "../social/partySystem.js";
+import { parseCraftingQueue } from "../professions/craftingJobs.js";
+import { findRemoteSpawnedWallet } from "./zoneShardService.js";
 
 interface SpawnOrderBody {
   zoneId: string;
@@ -126,7 +128,7 @@ export function registerSpawnOrders(server: FastifyInstance) {
       }
 
       // Enforce one player per wallet across the entire shard
-      const existing = isWalletSpawned(walletAddress);
+      const existing = isWalletSpawned(walletAddress) ?? await findRemoteSpawnedWallet(walletAddress);
       if (existing) {
         reply.code(409);
         return {
@@ -233,6 +235,8 @@ export function registerSpawnOrders(server: FastifyInstance) {
       completedQuests: saved?.completedQuests ?? [],
       storyFlags: saved?.storyFlags ?? [],
       learnedTechniques: saved?.learnedTechniques ?? [],
+      questGraphGrants: saved?.questGraphGrants ?? [],
+      ...(saved?.craftingQueue?.length && { craftingQueue: parseCraftingQueue(saved.craftingQueue) }),
       ...(saved?.equipment != null && { equipment: saved.equipment as any }),
     };
 
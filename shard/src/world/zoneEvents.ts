@@ -49,6 +49,18 @@ const MAX_EVENTS_PER_ZONE = 500;
 const zoneEventLogs = new Map<string, ZoneEvent[]>();
 let eventIdCounter = 0;
 
+type ZoneEventListener = (event: ZoneEvent) => void;
+const zoneEventListeners = new Set<ZoneEventListener>();
+
+/**
+ * Subscribe to every logged zone event (used by the realtime zone stream).
+ * Returns an unsubscribe function.
+ */
+export function registerZoneEventListener(listener: ZoneEventListener): () => void {
+  zoneEventListeners.add(listener);
+  return () => zoneEventListeners.delete(listener);
+}
+
 /**
  * Log an event to a specific zone's event log.
  */
@@ -71,6 +83,14 @@ export function logZoneEvent(params: Omit<ZoneEvent, "id" | "timestamp">): void
   if (log.length > MAX_EVENTS_PER_ZONE) {
     log.shift();
   }
+
+  for (const listener of zoneEventListeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.warn(`[zoneEvents] listener failed for ${event.id}:`, err);
+    }
+  }
 }
 
 /**
@@ -2,12 +2,20 @@ import type { FastifyInstance } from "fastify";
 import { arenaManager } from "../combat/arenaManager.js";
 import type { CharacterStats } from "../character/classes.js";
 import { getClassById } from "../character/classes.js";
-import { getItemByTokenId, type ArmorSlot, type EquipmentSlot } from "../items/itemCatalog.js";
+import {
+  collectItemSetEffects,
+  getActiveItemSets,
+  getItemByTokenId,
+  type ActiveItemSet,
+  type ArmorSlot,
+  type EquipmentSlot,
+} from "../items/itemCatalog.js";
 import { updateCharacterMetadata, burnItem } from "../blockchain/blockchain.js";
 import { queueItemMint, queueGoldTransfer } from "../blockchain/chainBatcher.js";
 import { xpForLevel, MAX_LEVEL, computeStatsAtLevel } from "../character/leveling.js";
 import type { OreType } from "../resources/oreCatalog.js";
-import { QUEST_CATALOG, doesKillCountForQuest, advanceGatherQuests } from "../social/questSystem.js";
+import { advanceGatherQuests, advanceQuestObjectives, isQuestComplete } from "../social/questSystem.js";
+import { handleQuestObjectivesOnDeath } from "../social/questObjectiveTracker.js";
 import { type ProfessionType, getLearnedProfessions, restoreProfessions } from "../professions/professions.js";
 import type { FlowerType } from "../resources/flowerCatalog.js";
 import { CROP_CATALOG, GROWTH_MULTIPLIERS, type CropType } from "../farming/cropCatalog.js";
@@ -16,10 +24,19 @@ import { getLootTable, rollDrops } from "../items/lootTables.js";
 import { saveCharacter } from "../character/characterStore.js";
 import { getTechniquesByClass, getTechniqueById, type TechniqueDefinition } from "../combat/techniques.js";
 import { getEdictCache } from "../combat/edictCache.js";
-import { evaluateEdicts } from "../combat/edictEvaluator.js";
-import { randomInt, randomUUID } from "crypto";
+import {
+  evaluateEdicts,
+  CONSUMABLE_COOLDOWN_KEY,
+  CONSUMABLE_COOLDOWN_TICKS,
+  INTERRUPT_COOLDOWN_KEY,
+  INTERRUPT_COOLDOWN_TICKS,
+} from "../combat/edictEvaluator.js";
+import { consumePotion } from "../professions/consumePotion.js";
+import { randomUUID } from "crypto";
 import { getPlayerPartyId, getPartyMembers, areInSameParty, getPartyLeaderId } from "../social/partySystem.js";
 import { getCachedGuildName } from "../economy/guildChain.js";
+import { GUILD_XP_AWARDS } from "../economy/guildRanks.js";
+import { awardGuildXp } from "../economy/guildSocial.js";
 import {
   clampToZoneBounds,
   ZONE_LEVEL_REQUIREMENTS,
@@ -28,17 +45,54 @@ import {
   getZoneOffset,
 } from "./worldLayout.js";
 import { getActiveXpMultiplier } from "../professions/potionEffects.js";
+import type { CraftingJob } from "../professions/craftingJobs.js";
 import { getAttackMultiplier, getDefenseMultiplier } from "../combat/elementSystem.js";
 import { logDiary, narrativeDeath, narrativeKill, narrativeLevelUp, narrativeZoneTransition } from "../social/diary.js";
+import { recordLeaderboardStat } from "../social/leaderboardService.js";
 import { getGameTime, checkPhaseTransition, formatGameTime } from "./worldClock.js";
 import { recordGoldSpendAsync } from "../blockchain/goldLedger.js";
 import { copperToGold, formatCopperString } from "../blockchain/currency.js";
 import { flushPlayer } from "../blockchain/chainBatcher.js";
-import { deleteItemInstance, upsertItemInstanceFromEquipment } from "../items/itemRng.js";
+import { recordLevelAchievements } from "../erc8004/achievementClaims.js";
+import {
+  deleteItemInstance,
+  upsertItemInstanceFromEquipment,
+  type RolledAffix,
+  type SocketedGem,
+} from "../items/itemRng.js";
 import { getRedis } from "../redis.js";
-import { deleteLiveSession, listLiveSessions, upsertLiveSession } from "../db/liveSessionStore.js";
+import { deleteLiveSession, listLiveSessions, upsertLiveSession, type LiveSessionRecord } from "../db/liveSessionStore.js";
 import { reputationManager } from "../economy/reputationManager.js";
 import { buildVerifiedIdentityPatch } from "../character/characterIdentityPersistence.js";
+import { rngChance, rngFloat, rngInt, setRngTick } from "./rng.js";
+import { canStepBetween, clearEntityPath, isWalkableAt, resetPathfindingBudget, steerToward } from "./pathfinding.js";
+import {
+  addSupportThreat,
+  addThreat,
+  applyTaunt,
+  clearThreat,
+  dropThreatSource,
+  getThreatSnapshot,
+  HEAL_THREAT_RATIO,
+  pickThreatTarget,
+  PROXIMITY_THREAT,
+  SHIELD_THREAT_RATIO,
+} from "../combat/threat.js";
+import {
+  createBossEncounter,
+  getBossAbility,
+  getBossDamageMultiplier,
+  getBossScript,
+  stepBossEncounter,
+  type BossAbility,
+  type BossAddSpawn,
+  type BossCast,
+  type BossEncounterState,
+} from "./bossScripts.js";
+import { computeMobStats } from "./npcSpawner.js";
+import { EntitySpatialIndex } from "./spatialIndex.js";
+import { ownsZone } from "./zoneSharding.js";
+import { histogram } from "../observability/metrics.js";
 
 export interface ZoneState {
   zoneId: string;
@@ -65,6 +119,9 @@ export interface VisibleIntent {
   state: VisibleIntentState;
   techniqueId?: string;
   techniqueName?: string;
+  /** Ground telegraph for scripted boss abilities (impact point + radius). */
+  area?: { x: number; y: number; radius: number };
+  resolveAtTick?: number;
 }
 
 export type Order =
@@ -107,6 +164,8 @@ export interface EquippedItemState {
     statBonuses: Partial<CharacterStats>;
     specialEffect?: string;
   };
+  affixes?: RolledAffix[];
+  sockets?: Array<SocketedGem | null>;
 }
 
 export interface ActiveEffect {
@@ -191,13 +250,17 @@ export interface Entity {
   /** Class trainer fields. */
   teachesClass?: string;
   /** Active quests (players only). */
-  activeQuests?: Array<{ questId: string; progress: number; startedAt: number }>;
+  activeQuests?: Array<{ questId: string; progress: number; startedAt: number; extraProgress?: number[] }>;
   /** Completed quest IDs (players only) - used for quest chain prerequisites. */
   completedQuests?: string[];
   /** Persistent story/dialogue flags (players only). */
   storyFlags?: string[];
   /** Learned techniques (players only). */
   learnedTechniques?: string[]; // Array of technique IDs
+  /** Quest-arc choices and effect nodes whose grants were paid out (players only). */
+  questGraphGrants?: string[];
+  /** Queued batch crafts (players only); the first unpaused job progresses each tick. */
+  craftingQueue?: CraftingJob[];
   /** Cumulative kill count (players only). */
   kills?: number;
   /** Active effects (buffs, debuffs, DoTs, shields, HoTs). */
@@ -217,6 +280,16 @@ export interface Entity {
   taggedBy?: string;
   /** Mob tagging: tick when tagger last hit this mob. */
   taggedAtTick?: number;
+  /** Mob/boss threat table: player id → accumulated threat (see combat/threat.ts). */
+  threat?: Map<string, number>;
+  /** Mob/boss fixed on a taunter until the given tick. */
+  tauntedBy?: { entityId: string; untilTick: number };
+  /** Boss script id (world/content/bosses/<id>.json). */
+  bossScript?: string;
+  /** Live scripted encounter state while the boss is engaged. */
+  encounter?: BossEncounterState;
+  /** Scripted add: the boss whose encounter spawned it. */
+  summonedBy?: string;
   /** Out-of-combat regen: tick when this entity last dealt/received damage (players only). */
   lastCombatTick?: number;
   /** Run energy pool (players only). */
@@ -250,7 +323,7 @@ export interface Entity {
   pvpSavedPosition?: { x: number; y: number; region: string };
 }
 
-function toSerializableEntity(entity: Entity): Record<string, unknown> {
+export function toSerializableEntity(entity: Entity): Record<string, unknown> {
   const partyId = entity.type === "player" ? getPlayerPartyId(entity.id) : undefined;
   const guildName = entity.type === "player" && entity.walletAddress
     ? getCachedGuildName(entity.walletAddress)
@@ -268,6 +341,22 @@ function toSerializableEntity(entity: Entity): Record<string, unknown> {
     ...(entity.cooldowns && {
       cooldowns: Object.fromEntries(entity.cooldowns),
     }),
+    ...(entity.threat && { threat: getThreatSnapshot(entity) }),
+    ...(entity.tauntedBy && { tauntedBy: entity.tauntedBy.entityId }),
+    ...(entity.encounter && { encounter: serializeEncounter(entity.encounter) }),
+  };
+}
+
+function serializeEncounter(state: BossEncounterState): Record<string, unknown> {
+  const phase = getBossScript(state.scriptId)?.phases[state.phaseIndex];
+  return {
+    scriptId: state.scriptId,
+    phase: phase?.id,
+    phaseName: phase?.name,
+    enraged: state.enraged,
+    startedAtTick: state.startedAtTick,
+    hazards: state.hazards.map(({ id, name, x, y, radius, untilTick }) => ({ id, name, x, y, radius, untilTick })),
+    adds: state.addIds,
   };
 }
 
@@ -280,7 +369,33 @@ interface WorldState {
   tick: number;
 }
 
-const world: WorldState = { entities: new Map(), tick: 0 };
+/**
+ * Grid + region index over world.entities. Membership follows the map
+ * below; position and region changes are picked up by reindexEntity(),
+ * by moveToward(), and by a full refresh at both ends of every tick.
+ */
+const spatialIndex = new EntitySpatialIndex<Entity>();
+
+/** world.entities keeps the spatial index in step with every set/delete. */
+class IndexedEntityMap extends Map<string, Entity> {
+  set(id: string, entity: Entity): this {
+    super.set(id, entity);
+    spatialIndex.set(id, entity);
+    return this;
+  }
+
+  delete(id: string): boolean {
+    spatialIndex.delete(id);
+    return super.delete(id);
+  }
+
+  clear(): void {
+    spatialIndex.clear();
+    super.clear();
+  }
+}
+
+const world: WorldState = { entities: new IndexedEntityMap(), tick: 0 };
 
 // Track known region IDs for getAllZones compat
 const knownRegions = new Set<string>();
@@ -319,40 +434,34 @@ class RegionEntityMap implements Map<string, Entity> {
 
   get size(): number {
     let count = 0;
-    for (const e of world.entities.values()) {
-      if (e.region === this.regionId) count++;
-    }
+    for (const _ of this.values()) count++;
     return count;
   }
 
   clear(): void {
-    for (const [id, e] of world.entities) {
-      if (e.region === this.regionId) world.entities.delete(id);
-    }
+    for (const id of Array.from(this.keys())) world.entities.delete(id);
   }
 
   forEach(callbackfn: (value: Entity, key: string, map: Map<string, Entity>) => void, thisArg?: any): void {
-    for (const [id, e] of world.entities) {
-      if (e.region === this.regionId) callbackfn.call(thisArg, e, id, this);
+    for (const [id, e] of this.entries()) {
+      callbackfn.call(thisArg, e, id, this);
     }
   }
 
+  // Iteration walks the region index; the region check drops entities
+  // that left the region since they were last indexed.
   *entries(): IterableIterator<[string, Entity]> {
-    for (const [id, e] of world.entities) {
+    for (const [id, e] of spatialIndex.regionEntries(this.regionId)) {
       if (e.region === this.regionId) yield [id, e];
     }
   }
 
   *keys(): IterableIterator<string> {
-    for (const [id, e] of world.entities) {
-      if (e.region === this.regionId) yield id;
-    }
+    for (const [id] of this.entries()) yield id;
   }
 
   *values(): IterableIterator<Entity> {
-    for (const e of world.entities.values()) {
-      if (e.region === this.regionId) yield e;
-    }
+    for (const [, e] of this.entries()) yield e;
   }
 
   [Symbol.iterator](): IterableIterator<[string, Entity]> {
@@ -389,13 +498,31 @@ export function getOrCreateZone(zoneId: string): ZoneState {
   };
 }
 
+/**
+ * Entities of `zone` within `radius` of (x, y). Zones from getOrCreateZone()
+ * are answered by the spatial index; any other ZoneState is scanned directly.
+ */
+function queryZoneRadius(zone: ZoneState, x: number, y: number, radius: number): Entity[] {
+  if (zone.entities instanceof RegionEntityMap) {
+    return spatialIndex.queryRadius(x, y, radius, zone.zoneId);
+  }
+  const result: Entity[] = [];
+  const r2 = radius * radius;
+  for (const entity of zone.entities.values()) {
+    const dx = entity.x - x;
+    const dy = entity.y - y;
+    if (dx * dx + dy * dy <= r2) result.push(entity);
+  }
+  return result;
+}
+
 /**
  * Compat shim: returns a Map of virtual ZoneStates for all known regions.
  */
 export function getAllZones(): Map<string, ZoneState> {
   // Include all regions that have entities + any explicitly created
-  for (const e of world.entities.values()) {
-    if (e.region) knownRegions.add(e.region);
+  for (const regionId of spatialIndex.regionIds()) {
+    knownRegions.add(regionId);
   }
   const result = new Map<string, ZoneState>();
   for (const regionId of knownRegions) {
@@ -406,9 +533,7 @@ export function getAllZones(): Map<string, ZoneState> {
 
 export function deleteZone(zoneId: string): boolean {
   // Remove all entities in region + forget the region
-  for (const [id, e] of world.entities) {
-    if (e.region === zoneId) world.entities.delete(id);
-  }
+  getRegionMap(zoneId).clear();
   regionMapCache.delete(zoneId);
   return knownRegions.delete(zoneId);
 }
@@ -437,23 +562,35 @@ export function getAllEntities(): Map<string, Entity> {
 
 /** Get all entities in a specific region. */
 export function getEntitiesInRegion(region: string): Entity[] {
-  const result: Entity[] = [];
-  for (const e of world.entities.values()) {
-    if (e.region === region) result.push(e);
-  }
-  return result;
+  return Array.from(getRegionMap(region).values());
 }
 
-/** Get entities near a world-space position within a radius. */
-export function getEntitiesNear(x: number, z: number, radius: number): Entity[] {
-  const r2 = radius * radius;
-  const result: Entity[] = [];
-  for (const e of world.entities.values()) {
-    const dx = e.x - x;
-    const dy = e.y - z;
-    if (dx * dx + dy * dy <= r2) result.push(e);
+/** Get entities near a world-space position within a radius, optionally only in one region. */
+export function getEntitiesNear(x: number, z: number, radius: number, region?: string): Entity[] {
+  return spatialIndex.queryRadius(x, z, radius, region);
+}
+
+/**
+ * Entities for the node/corpse listing routes: within `radius` of (x, y)
+ * when all three are given, else the region, else the whole world.
+ */
+export function getEntitiesForLookup(query: { region?: string; x?: string; y?: string; radius?: string }): Entity[] {
+  const x = Number(query.x);
+  const y = Number(query.y);
+  const radius = Number(query.radius);
+  if (query.x != null && query.y != null && query.radius != null && Number.isFinite(x) && Number.isFinite(y) && radius >= 0) {
+    return getEntitiesNear(x, y, radius, query.region);
   }
-  return result;
+  return query.region ? getEntitiesInRegion(query.region) : Array.from(world.entities.values());
+}
+
+/**
+ * Tell the spatial index an entity moved or changed region outside the
+ * world tick (teleports, knockback, arena/dungeon transfers). Without it
+ * the entity is re-filed at the start of the next tick.
+ */
+export function reindexEntity(entity: Entity): void {
+  spatialIndex.reindex(entity.id);
 }
 
 /** Get the unified world tick. */
@@ -461,6 +598,28 @@ export function getWorldTick(): number {
   return world.tick;
 }
 
+// ── World Tick Listeners ──────────────────────────────────────────────
+// Observers (zone streams, metrics) run after every completed worldTick().
+
+type WorldTickListener = (tick: number) => void;
+const worldTickListeners = new Set<WorldTickListener>();
+
+/** Register a callback invoked after each world tick. Returns an unsubscribe function. */
+export function registerWorldTickListener(listener: WorldTickListener): () => void {
+  worldTickListeners.add(listener);
+  return () => worldTickListeners.delete(listener);
+}
+
+function notifyWorldTickListeners(tick: number): void {
+  for (const listener of worldTickListeners) {
+    try {
+      listener(tick);
+    } catch (err) {
+      console.warn(`[zoneRuntime] world tick listener failed at tick ${tick}:`, err);
+    }
+  }
+}
+
 // ── Wallet Spawn Registry ─────────────────────────────────────────────────
 // Enforces: one player entity per wallet address across the entire shard.
 // Checked at spawn time, updated on zone transitions and entity removal.
@@ -468,6 +627,26 @@ export function getWorldTick(): number {
 interface SpawnedEntry { entityId: string; zoneId: string }
 const spawnedWallets = new Map<string, SpawnedEntry>();
 
+/** Called with the new entry on register/zone change, or null on unregister. */
+type SpawnedWalletListener = (wallet: string, entry: SpawnedEntry | null, previous: SpawnedEntry | null) => void;
+const spawnedWalletListeners = new Set<SpawnedWalletListener>();
+
+/** Observe the spawn registry (zone sharding mirrors it to Redis). Returns an unsubscribe function. */
+export function registerSpawnedWalletListener(listener: SpawnedWalletListener): () => void {
+  spawnedWalletListeners.add(listener);
+  return () => spawnedWalletListeners.delete(listener);
+}
+
+function notifySpawnedWalletListeners(wallet: string, entry: SpawnedEntry | null, previous: SpawnedEntry | null): void {
+  for (const listener of spawnedWalletListeners) {
+    try {
+      listener(wallet, entry, previous);
+    } catch (err) {
+      console.warn(`[zoneRuntime] spawned wallet listener failed for ${wallet}:`, err);
+    }
+  }
+}
+
 /** Check if a wallet already has a live player entity anywhere on the shard. */
 export function isWalletSpawned(wallet: string): SpawnedEntry | null {
   return spawnedWallets.get(wallet.toLowerCase()) ?? null;
@@ -475,18 +654,28 @@ export function isWalletSpawned(wallet: string): SpawnedEntry | null {
 
 /** Register a wallet as having a live player entity. */
 export function registerSpawnedWallet(wallet: string, entityId: string, zoneId: string): void {
-  spawnedWallets.set(wallet.toLowerCase(), { entityId, zoneId });
+  const key = wallet.toLowerCase();
+  const previous = spawnedWallets.get(key) ?? null;
+  const entry = { entityId, zoneId };
+  spawnedWallets.set(key, entry);
+  notifySpawnedWalletListeners(key, entry, previous);
 }
 
 /** Update the zone for a wallet's spawned entity (called on zone transition). */
 export function updateSpawnedWalletZone(wallet: string, newZoneId: string): void {
   const entry = spawnedWallets.get(wallet.toLowerCase());
-  if (entry) entry.zoneId = newZoneId;
+  if (!entry || entry.zoneId === newZoneId) return;
+  const previous = { ...entry };
+  entry.zoneId = newZoneId;
+  notifySpawnedWalletListeners(wallet.toLowerCase(), entry, previous);
 }
 
 /** Unregister a wallet when its entity is removed (logout, death-despawn, etc). */
 export function unregisterSpawnedWallet(wallet: string): void {
-  spawnedWallets.delete(wallet.toLowerCase());
+  const key = wallet.toLowerCase();
+  const previous = spawnedWallets.get(key) ?? null;
+  spawnedWallets.delete(key);
+  if (previous) notifySpawnedWalletListeners(key, null, previous);
   // Flush any pending batched chain writes for this player
   flushPlayer(wallet).catch((err) =>
     console.error(`[chainBatcher] flush on disconnect failed for ${wallet}:`, err)
@@ -502,6 +691,19 @@ export function getSpawnedWallets(): Map<string, SpawnedEntry> {
 let tickInterval: ReturnType<typeof setInterval> | null = null;
 let autoSaveInterval: ReturnType<typeof setInterval> | null = null;
 const TICK_MS = 1000; // 1 tick per second
+const TICK_DURATION_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+const worldTickDuration = histogram(
+  "wog_world_tick_duration_seconds",
+  "Wall time of a full world tick on this worker",
+  [],
+  TICK_DURATION_BUCKETS
+);
+const zoneTickDuration = histogram(
+  "wog_zone_tick_duration_seconds",
+  "Wall time spent ticking one owned zone",
+  ["zone"],
+  TICK_DURATION_BUCKETS
+);
 const PLAYER_PERSIST_INTERVAL_MS = Math.max(1000, Number(process.env.PLAYER_PERSIST_INTERVAL_MS) || 5000);
 const ZONE_RESPONSE_CACHE_MS = Math.max(50, Number.parseInt(process.env.ZONE_RESPONSE_CACHE_MS ?? "500", 10) || 500);
 const WALK_MOVE_SPEED = 30; // units per tick
@@ -526,7 +728,7 @@ const LIVE_PLAYER_IDS_KEY = "world:live-players";
 const LIVE_PLAYER_KEY_PREFIX = "world:live-player:";
 const zoneResponseCache = new Map<string, { expiresAt: number; payload: unknown }>();
 
-interface PersistedLivePlayer {
+export interface PersistedLivePlayer {
   entity: Record<string, unknown>;
   professions: string[];
   savedAt: number;
@@ -602,8 +804,24 @@ async function removeLivePlayerEntity(walletAddress: string): Promise<void> {
   await tx.exec();
 }
 
-export async function restoreLivePlayersFromPostgres(): Promise<number> {
+/**
+ * Bring back the live sessions a previous run left behind. With sharding on
+ * every worker reads the same sessions, so each restores only the players
+ * standing in zones it owns, and none restores a wallet `isLiveElsewhere`
+ * says another worker is still running — restarting one worker must not
+ * clone players its peers hold.
+ */
+export async function restoreLivePlayersFromPostgres(
+  isLiveElsewhere: (walletAddress: string) => Promise<boolean> = async () => false,
+): Promise<number> {
   const persistedSessions = await listLiveSessions().catch(() => []);
+  return restoreLivePlayerSessions(persistedSessions, isLiveElsewhere);
+}
+
+export async function restoreLivePlayerSessions(
+  persistedSessions: Array<Pick<LiveSessionRecord, "sessionState">>,
+  isLiveElsewhere: (walletAddress: string) => Promise<boolean>,
+): Promise<number> {
   let restored = 0;
   for (const session of persistedSessions) {
     const parsed = session.sessionState as unknown as PersistedLivePlayer;
@@ -615,6 +833,15 @@ export async function restoreLivePlayersFromPostgres(): Promise<number> {
       if (entity.type !== "player" || !entity.walletAddress) continue;
       if (isWalletSpawned(entity.walletAddress) || world.entities.has(entity.id)) continue;
 
+      if (entity.region === "coliseum-arena") {
+        const saved = entity.pvpSavedPosition;
+        entity.region = saved?.region ?? "village-square";
+        if (saved) { entity.x = saved.x; entity.y = saved.y; }
+        spatialIndex.reindex(entity.id);
+      }
+      const zoneId = entity.region ?? "village-square";
+      if (!ownsZone(zoneId) || (await isLiveElsewhere(entity.walletAddress))) continue;
+
       if (entity.stats) {
         recalculateEntityVitals(entity);
       } else if (entity.raceId && entity.classId) {
@@ -636,15 +863,9 @@ export async function restoreLivePlayersFromPostgres(): Promise<number> {
         }
       }
 
-      if (entity.region === "coliseum-arena") {
-        const saved = entity.pvpSavedPosition;
-        entity.region = saved?.region ?? "village-square";
-        if (saved) { entity.x = saved.x; entity.y = saved.y; }
-      }
       entity.pvpBattleId = undefined;
       entity.pvpTeam = undefined;
       entity.pvpSavedPosition = undefined;
-      const zoneId = entity.region ?? "village-square";
       getOrCreateZone(zoneId).entities.set(entity.id, entity);
       registerSpawnedWallet(entity.walletAddress, entity.id, zoneId);
       if (parsed.professions.length > 0) {
@@ -678,6 +899,56 @@ export function removeLivePlayerEntityEventually(walletAddress: string, context:
   });
 }
 
+// ── Zone shard handoff ────────────────────────────────────────────────
+// A player that walks into a zone owned by another shard worker is moved
+// there whole: the same snapshot the live-session store uses, adopted by
+// the owner, then released here. See zoneShardService.ts.
+
+/** Snapshot a live player for handoff to another worker. */
+export function exportLivePlayer(entityId: string): PersistedLivePlayer | null {
+  const entity = world.entities.get(entityId);
+  if (!entity || entity.type !== "player" || !entity.walletAddress) return null;
+  return {
+    entity: serializeLivePlayerEntity(entity),
+    professions: getLearnedProfessions(entity.walletAddress),
+    savedAt: Date.now(),
+  };
+}
+
+/** Take ownership of a player handed off by another worker. Replaces any stale copy. */
+export function adoptLivePlayer(snapshot: PersistedLivePlayer): Entity | null {
+  const entity = hydrateLivePlayerEntity(snapshot.entity);
+  if (entity.type !== "player" || !entity.walletAddress || !entity.id) return null;
+  const zoneId = entity.region ?? "village-square";
+  entity.region = zoneId;
+  getOrCreateZone(zoneId).entities.set(entity.id, entity);
+  registerSpawnedWallet(entity.walletAddress, entity.id, zoneId);
+  if (snapshot.professions.length > 0) {
+    restoreProfessions(entity.walletAddress, snapshot.professions);
+  }
+  if (entity.agentId != null) {
+    reputationManager.ensureInitialized(entity.agentId);
+  }
+  return entity;
+}
+
+/**
+ * Drop a player that now lives on another worker. Unlike logout this keeps
+ * the live session and the cluster spawn registry, which the new owner has
+ * already taken over.
+ */
+export function releaseLivePlayer(entityId: string): void {
+  const entity = world.entities.get(entityId);
+  if (!entity) return;
+  world.entities.delete(entityId);
+  if (entity.walletAddress) {
+    spawnedWallets.delete(entity.walletAddress.toLowerCase());
+    flushPlayer(entity.walletAddress).catch((err) =>
+      console.error(`[chainBatcher] flush on handoff failed for ${entity.walletAddress}:`, err)
+    );
+  }
+}
+
 function ensurePlayerRunState(entity: Entity): void {
   if (entity.type !== "player") return;
   entity.maxRunEnergy = Math.max(1, entity.maxRunEnergy ?? DEFAULT_RUN_ENERGY);
@@ -742,6 +1013,16 @@ function getVisibleIntentSeverity(
   return "normal";
 }
 
+/** Severity a windup of `technique` by `source` would be telegraphed with. */
+export function getCastingSeverity(source: Entity, technique: TechniqueDefinition): VisibleIntentSeverity {
+  const castingOrder: Order = { action: "technique", targetId: source.id, techniqueId: technique.id };
+  return getVisibleIntentSeverity(
+    source,
+    getVisibleIntentCategory(castingOrder, technique),
+    getVisibleIntentDelivery(castingOrder, source, technique),
+  );
+}
+
 function getTechniqueWindupTicks(technique: TechniqueDefinition): number {
   if (technique.animStyle === "projectile" || technique.animStyle === "area" || technique.animStyle === "channel") {
     return 1;
@@ -749,10 +1030,32 @@ function getTechniqueWindupTicks(technique: TechniqueDefinition): number {
   return 0;
 }
 
-function buildVisibleIntents(zone: ZoneState): VisibleIntent[] {
+export function buildVisibleIntents(zone: ZoneState): VisibleIntent[] {
   const intents: VisibleIntent[] = [];
 
   for (const entity of zone.entities.values()) {
+    const bossCast = entity.encounter?.cast;
+    if (bossCast) {
+      const target = getEntity(bossCast.targetId);
+      intents.push({
+        id: `intent:${zone.zoneId}:${entity.id}:boss:${bossCast.abilityId}`,
+        sourceId: entity.id,
+        sourceName: entity.name,
+        sourceType: entity.type,
+        targetId: bossCast.targetId,
+        targetName: target?.name ?? entity.name,
+        targetType: target?.type ?? entity.type,
+        category: "attack",
+        delivery: bossCast.radius > 0 ? "area" : "instant",
+        severity: "dangerous",
+        state: "casting",
+        techniqueId: `boss:${entity.encounter!.scriptId}:${bossCast.abilityId}`,
+        techniqueName: bossCast.abilityName,
+        area: { x: bossCast.x, y: bossCast.y, radius: bossCast.radius },
+        resolveAtTick: bossCast.resolveAtTick,
+      });
+    }
+
     if (entity.castingIntent) {
       const technique = getTechniqueById(entity.castingIntent.techniqueId);
       const target = getEntity(entity.castingIntent.targetId);
@@ -903,6 +1206,30 @@ function addStats(base: CharacterStats, bonus: Partial<CharacterStats>): Charact
   };
 }
 
+function addStatBonuses(total: CharacterStats, bonus: Partial<CharacterStats>): void {
+  for (const [key, value] of Object.entries(bonus)) {
+    if (!value || !(key in total)) continue;
+    total[key as keyof CharacterStats] += value;
+  }
+}
+
+/** Item sets the entity is wearing pieces of; broken gear doesn't count. */
+export function getEntityItemSets(entity: Entity): ActiveItemSet[] {
+  if (!entity.equipment) return [];
+  const worn: number[] = [];
+  for (const equipped of Object.values(entity.equipment)) {
+    if (!equipped || equipped.broken || equipped.durability <= 0) continue;
+    worn.push(equipped.tokenId);
+  }
+  return getActiveItemSets(worn);
+}
+
+/** Technique damage/healing percent bonuses from active set tiers. */
+export function getSetTechniqueModifiers(entity: Entity): { damagePct: number; healingPct: number } {
+  if (entity.type !== "player") return { damagePct: 0, healingPct: 0 };
+  return collectItemSetEffects(getEntityItemSets(entity)).techniqueModifiers;
+}
+
 function getEquipmentBonuses(entity: Entity): CharacterStats {
   const total = emptyStats();
   if (!entity.equipment) return total;
@@ -936,6 +1263,12 @@ function getEquipmentBonuses(entity: Entity): CharacterStats {
       total.luck += affix.luck ?? 0;
     }
 
+    // Multi-affix rolls and socketed gems
+    for (const affix of equipped.affixes ?? []) addStatBonuses(total, affix.statBonuses);
+    for (const gem of equipped.sockets ?? []) {
+      if (gem) addStatBonuses(total, gem.statBonuses);
+    }
+
     if (equipped.enchantments) {
       for (const enchantment of equipped.enchantments) {
         const bonus = enchantment.statBonus;
@@ -948,6 +1281,8 @@ function getEquipmentBonuses(entity: Entity): CharacterStats {
     }
   }
 
+  addStatBonuses(total, collectItemSetEffects(getEntityItemSets(entity)).statBonuses);
+
   return total;
 }
 
@@ -1036,6 +1371,8 @@ function handleLevelUp(entity: Entity, zone: ZoneState): void {
     updateCharacterMetadata(entity as Required<Pick<Entity, 'characterTokenId' | 'name' | 'raceId' | 'classId' | 'level' | 'xp' | 'stats'>>)
       .catch((err) => console.error(`NFT update failed for ${entity.id}:`, err));
   }
+
+  recordLevelAchievements(entity);
 }
 
 // ── Anti-farm: diminishing XP for repeat kills in same zone ────────────
@@ -1088,12 +1425,12 @@ function rollMobCopperReward(mob: Entity): number {
   if (mob.type === "boss") {
     const minCopper = Math.max(12, Math.floor(level * 3));
     const maxCopper = Math.max(minCopper, Math.floor(level * 4.5));
-    return randomInt(minCopper, maxCopper + 1);
+    return rngInt("loot", minCopper, maxCopper, mob.region, "copper");
   }
 
   const minCopper = Math.max(1, Math.floor(level * 1.2));
   const maxCopper = Math.max(minCopper, Math.floor(level * 2));
-  return randomInt(minCopper, maxCopper + 1);
+  return rngInt("loot", minCopper, maxCopper, mob.region, "copper");
 }
 
 function shouldSuppressMobGold(killer: Entity, mob: Entity): boolean {
@@ -1277,9 +1614,11 @@ interface HitResult {
   blocked: boolean;
 }
 
-function resolveHit(attacker: Entity, defender: Entity, rawDamage: number): HitResult {
+function resolveHit(attacker: Entity, defender: Entity, rawDamage: number, threatMultiplier = 1): HitResult {
   // 1. Dodge (defender is player)
-  if (defender.type === "player" && Math.random() < getDodgeChance(defender)) {
+  // Rolls draw from the defender's zone so a fight replays from one stream.
+  const zoneId = defender.region;
+  if (defender.type === "player" && rngChance("combat", getDodgeChance(defender), zoneId, `dodge:${defender.id}`)) {
     return { finalDamage: 0, hpLost: 0, dodged: true, critical: false, blocked: false };
   }
 
@@ -1287,14 +1626,14 @@ function resolveHit(attacker: Entity, defender: Entity, rawDamage: number): HitR
 
   // 2. Critical hit (attacker is player)
   let critical = false;
-  if (attacker.type === "player" && Math.random() < getCritChance(attacker)) {
+  if (attacker.type === "player" && rngChance("combat", getCritChance(attacker), zoneId, `crit:${attacker.id}`)) {
     damage = Math.round(damage * CRIT_MULTIPLIER);
     critical = true;
   }
 
   // 3. Block (defender is player)
   let blocked = false;
-  if (defender.type === "player" && Math.random() < getBlockChance(defender)) {
+  if (defender.type === "player" && rngChance("combat", getBlockChance(defender), zoneId, `block:${defender.id}`)) {
     damage = Math.round(damage * BLOCK_REDUCTION);
     blocked = true;
   }
@@ -1305,9 +1644,46 @@ function resolveHit(attacker: Entity, defender: Entity, rawDamage: number): HitR
   // 5. Apply through shields → HP
   const hpLost = applyDamageWithShield(defender, damage);
 
+  // 6. Threat — mobs remember who hurt them
+  if (attacker.type === "player") addThreat(defender, attacker.id, damage * threatMultiplier);
+
+  // 7. Item set procs
+  if (attacker.type === "player") applySetProcs(attacker, attacker, defender, "on_hit", damage);
+  if (defender.type === "player") applySetProcs(defender, attacker, defender, "on_struck", damage);
+
   return { finalDamage: damage, hpLost, dodged: false, critical, blocked };
 }
 
+/**
+ * Roll the wearer's set procs for one landed hit. Proc damage bypasses
+ * dodge/crit/block; reflected damage never kills the attacker outright so
+ * death still flows through the normal combat paths.
+ */
+function applySetProcs(
+  wearer: Entity,
+  attacker: Entity,
+  defender: Entity,
+  trigger: "on_hit" | "on_struck",
+  damage: number,
+): void {
+  if (!wearer.equipment) return;
+  const { procs } = collectItemSetEffects(getEntityItemSets(wearer));
+  for (const proc of procs) {
+    if (proc.trigger !== trigger) continue;
+    if (!rngChance("combat", proc.chance, wearer.region, `setproc:${wearer.id}`)) continue;
+    const amount = Math.max(1, Math.floor(damage * (proc.pct / 100)));
+    if (proc.effect === "heal") {
+      wearer.hp = Math.min(wearer.maxHp, wearer.hp + amount);
+    } else if (proc.effect === "bonus_damage" && defender.hp > 0) {
+      applyDamageWithShield(defender, amount);
+      addThreat(defender, attacker.id, amount);
+    } else if (proc.effect === "reflect" && attacker.hp > 1) {
+      applyDamageWithShield(attacker, Math.min(amount, attacker.hp - 1));
+      addThreat(attacker, wearer.id, amount);
+    }
+  }
+}
+
 function computeDamage(attacker: Entity, defender: Entity, zoneId?: string): number {
   const raw = getAttackPower(attacker) - getDefensePower(defender) * 0.50;
   let damage = Math.max(MIN_DAMAGE, Math.round(raw));
@@ -1354,7 +1730,7 @@ function applyDurabilityLoss(entity: Entity, slots: EquipmentSlot[]): void {
     }
     if (
       owner &&
-      (equipped.instanceId || equipped.enchantments?.length || equipped.quality || equipped.rolledStats || equipped.bonusAffix)
+      (equipped.instanceId || equipped.enchantments?.length || equipped.quality || equipped.rolledStats || equipped.bonusAffix || equipped.affixes)
     ) {
       const persisted = upsertItemInstanceFromEquipment({
         instanceId: equipped.instanceId,
@@ -1364,6 +1740,8 @@ function applyDurabilityLoss(entity: Entity, slots: EquipmentSlot[]): void {
         quality: equipped.quality,
         rolledStats: equipped.rolledStats,
         bonusAffix: equipped.bonusAffix,
+        affixes: equipped.affixes,
+        sockets: equipped.sockets,
         durability: equipped.durability,
         maxDurability: equipped.maxDurability,
         enchantments: equipped.enchantments,
@@ -1427,6 +1805,298 @@ export function clearMobTagsForPlayer(zone: ZoneState, playerId: string): void {
       entity.taggedAtTick = undefined;
     }
   }
+  dropThreatSource(playerId, zone.entities.values());
+}
+
+// ── Scripted boss encounters ───────────────────────────────────────────
+// Bosses with a bossScript run their encounter (world/bossScripts.ts)
+// while engaged: phases by HP %, telegraphed abilities, adds, hazards
+// and an enrage timer. Leashing or wiping resets the encounter.
+
+/** Players further than this from the boss are ignored by its abilities. */
+const BOSS_SCRIPT_RANGE = 250;
+const BOSS_ADD_SCATTER = 40;
+const BOSS_ENRAGE_EFFECT_TICKS = 100_000;
+
+function getBossScriptTargets(boss: Entity, zone: ZoneState): Entity[] {
+  const targets: Entity[] = [];
+  for (const e of zone.entities.values()) {
+    if (e.type !== "player" || e.hp <= 0) continue;
+    if (Math.hypot(e.x - boss.x, e.y - boss.y) <= BOSS_SCRIPT_RANGE) targets.push(e);
+  }
+  return targets;
+}
+
+function pickBossAbilityTarget(boss: Entity, ability: BossAbility, zone: ZoneState): Entity | null {
+  if (ability.target === "self") return boss;
+  const candidates = getBossScriptTargets(boss, zone);
+  if (candidates.length === 0) return null;
+
+  const order = boss.order;
+  const current = order?.action === "attack" ? candidates.find((c) => c.id === order.targetId) : undefined;
+  switch (ability.target) {
+    case "current":
+      return current ?? candidates[0];
+    case "farthest":
+      return candidates.reduce((far, c) =>
+        Math.hypot(c.x - boss.x, c.y - boss.y) > Math.hypot(far.x - boss.x, far.y - boss.y) ? c : far);
+    case "random":
+      return candidates[rngInt("combat", 0, candidates.length - 1, zone.zoneId, `boss:${boss.id}:${ability.id}`)];
+  }
+}
+
+function applyBossDamage(boss: Entity, player: Entity, pct: number, source: string, zone: ZoneState): void {
+  const state = boss.encounter!;
+  const script = getBossScript(state.scriptId);
+  const mult = script ? getBossDamageMultiplier(state, script) : 1;
+  const damage = Math.max(1, Math.round(player.maxHp * (pct / 100) * mult));
+  applyDamageWithShield(player, damage);
+  player.lastCombatTick = zone.tick;
+  if (player.hp > 0) return;
+
+  logZoneEvent({
+    zoneId: zone.zoneId,
+    type: "death",
+    tick: zone.tick,
+    message: `${player.name} has been slain by ${boss.name}'s ${source}!`,
+    entityId: player.id,
+    entityName: player.name,
+    targetId: boss.id,
+    targetName: boss.name,
+  });
+  handlePlayerDeath(player, zone.zoneId);
+}
+
+function spawnBossAdds(boss: Entity, spawn: BossAddSpawn, zone: ZoneState): void {
+  const level = spawn.level ?? Math.max(1, (boss.level ?? 1) - 2);
+  const hp = Math.max(1, Math.round(boss.maxHp * (spawn.hpPct / 100)));
+  const targets = getBossScriptTargets(boss, zone);
+  for (let i = 0; i < spawn.count; i++) {
+    const angle = (Math.PI * 2 * i) / spawn.count;
+    const x = boss.x + Math.cos(angle) * BOSS_ADD_SCATTER;
+    const y = boss.y + Math.sin(angle) * BOSS_ADD_SCATTER;
+    const stats = { ...computeMobStats(level, hp, false), hp };
+    const add: Entity = {
+      id: randomUUID(),
+      type: "mob",
+      name: spawn.name,
+      x,
+      y,
+      hp,
+      maxHp: hp,
+      region: zone.zoneId,
+      createdAt: Date.now(),
+      level,
+      xpReward: 0,
+      spawnX: x,
+      spawnY: y,
+      stats,
+      effectiveStats: { ...stats },
+      summonedBy: boss.id,
+    };
+    const target = targets.length > 0 ? targets[i % targets.length] : undefined;
+    if (target) {
+      addThreat(add, target.id, PROXIMITY_THREAT);
+      add.order = { action: "attack", targetId: target.id };
+    }
+    zone.entities.set(add.id, add);
+    boss.encounter!.addIds.push(add.id);
+  }
+  logZoneEvent({
+    zoneId: zone.zoneId,
+    type: "spawn",
+    tick: zone.tick,
+    message: `${boss.name} summons ${spawn.count} ${spawn.name}!`,
+    entityId: boss.id,
+    entityName: boss.name,
+    data: { adds: spawn.count, addName: spawn.name },
+  });
+}
+
+function beginBossAbility(boss: Entity, ability: BossAbility, zone: ZoneState): void {
+  const target = pickBossAbilityTarget(boss, ability, zone);
+  if (!target) return;
+  const cast: BossCast = {
+    abilityId: ability.id,
+    abilityName: ability.name,
+    targetId: target.id,
+    x: target.x,
+    y: target.y,
+    radius: ability.radius ?? 0,
+    startedAtTick: zone.tick,
+    resolveAtTick: zone.tick + (ability.windupTicks ?? 0),
+    interruptible: ability.interruptible ?? false,
+  };
+  if (cast.resolveAtTick <= zone.tick) {
+    resolveBossCast(boss, cast, zone);
+    return;
+  }
+  boss.encounter!.cast = cast;
+  logZoneEvent({
+    zoneId: zone.zoneId,
+    type: "technique-start",
+    tick: zone.tick,
+    message: `${boss.name} begins ${ability.name}!`,
+    entityId: boss.id,
+    entityName: boss.name,
+    targetId: target.id,
+    targetName: target.name,
+    data: { bossAbility: ability.id, x: cast.x, y: cast.y, radius: cast.radius, resolveAtTick: cast.resolveAtTick },
+  });
+}
+
+function resolveBossCast(boss: Entity, cast: BossCast, zone: ZoneState): void {
+  const state = boss.encounter!;
+  const script = getBossScript(state.scriptId);
+  const ability = script && getBossAbility(script, cast.abilityId);
+  if (!ability) return;
+
+  const hit: string[] = [];
+  if (ability.damagePct) {
+    const victims = cast.radius > 0
+      ? getBossScriptTargets(boss, zone).filter((p) => Math.hypot(p.x - cast.x, p.y - cast.y) <= cast.radius)
+      : [zone.entities.get(cast.targetId)].filter((p): p is Entity => p?.type === "player" && p.hp > 0);
+    for (const victim of victims) {
+      hit.push(victim.name);
+      applyBossDamage(boss, victim, ability.damagePct, ability.name, zone);
+    }
+  }
+  if (ability.hazard) {
+    state.hazards.push({
+      id: randomUUID(),
+      name: ability.hazard.name,
+      x: cast.x,
+      y: cast.y,
+      radius: ability.hazard.radius,
+      damagePctPerTick: ability.hazard.damagePctPerTick,
+      untilTick: zone.tick + ability.hazard.durationTicks,
+    });
+  }
+  if (ability.adds) spawnBossAdds(boss, ability.adds, zone);
+
+  logZoneEvent({
+    zoneId: zone.zoneId,
+    type: "technique",
+    tick: zone.tick,
+    message: hit.length > 0
+      ? `${boss.name}'s ${ability.name} hits ${hit.join(", ")}!`
+      : `${boss.name} unleashes ${ability.name}!`,
+    entityId: boss.id,
+    entityName: boss.name,
+    data: { bossAbility: ability.id, hit: hit.length },
+  });
+}
+
+/** Cancel an interruptible windup. Returns the ability name if one was stopped. */
+function interruptBossCast(boss: Entity): string | undefined {
+  const cast = boss.encounter?.cast;
+  if (!cast?.interruptible) return undefined;
+  boss.encounter!.cast = undefined;
+  return cast.abilityName;
+}
+
+/** Tear down an encounter: despawn living adds, drop hazards and enrage. */
+function endBossEncounter(boss: Entity, zone: ZoneState, reason: "reset" | "defeated"): void {
+  const state = boss.encounter;
+  if (!state) return;
+  for (const addId of state.addIds) {
+    const add = zone.entities.get(addId);
+    if (add && add.hp > 0) zone.entities.delete(addId);
+  }
+  if (boss.activeEffects?.some((e) => e.techniqueId === "boss:enrage")) {
+    boss.activeEffects = boss.activeEffects.filter((e) => e.techniqueId !== "boss:enrage");
+    recalculateEntityVitals(boss);
+  }
+  boss.encounter = undefined;
+  if (reason === "reset") {
+    logZoneEvent({
+      zoneId: zone.zoneId,
+      type: "system",
+      tick: zone.tick,
+      message: `${boss.name} resets.`,
+      entityId: boss.id,
+      entityName: boss.name,
+    });
+  }
+}
+
+function tickBossEncounters(zone: ZoneState): void {
+  const bosses = [...zone.entities.values()].filter((e) => e.bossScript && e.hp > 0);
+  for (const boss of bosses) {
+    const script = getBossScript(boss.bossScript!);
+    if (!script) continue;
+
+    const engaged = !boss.leashing && boss.order?.action === "attack";
+    if (!boss.encounter) {
+      if (!engaged) continue;
+      boss.encounter = createBossEncounter(script, zone.tick);
+      const opening = script.phases[0];
+      logZoneEvent({
+        zoneId: zone.zoneId,
+        type: "combat",
+        tick: zone.tick,
+        message: opening.message ?? `${boss.name} enters combat!`,
+        entityId: boss.id,
+        entityName: boss.name,
+        data: { encounter: script.id, phase: opening.id },
+      });
+      if (opening.onEnter?.adds) spawnBossAdds(boss, opening.onEnter.adds, zone);
+    } else if (!engaged && !boss.threat) {
+      // Everyone died or left
+      endBossEncounter(boss, zone, "reset");
+      continue;
+    }
+
+    const state = boss.encounter;
+    const step = stepBossEncounter(state, script, (boss.hp / boss.maxHp) * 100, zone.tick);
+
+    if (step.enteredPhase) {
+      logZoneEvent({
+        zoneId: zone.zoneId,
+        type: "system",
+        tick: zone.tick,
+        message: step.enteredPhase.message ?? `${boss.name} enters ${step.enteredPhase.name}!`,
+        entityId: boss.id,
+        entityName: boss.name,
+        data: { encounter: script.id, phase: step.enteredPhase.id },
+      });
+      if (step.enteredPhase.onEnter?.adds) spawnBossAdds(boss, step.enteredPhase.onEnter.adds, zone);
+    }
+
+    if (step.enrageStarted && script.enrage) {
+      addActiveEffectInternal(boss, {
+        id: randomUUID(),
+        techniqueId: "boss:enrage",
+        name: "Enrage",
+        type: "buff",
+        casterId: boss.id,
+        appliedAtTick: zone.tick,
+        durationTicks: BOSS_ENRAGE_EFFECT_TICKS,
+        remainingTicks: BOSS_ENRAGE_EFFECT_TICKS,
+        statModifiers: { str: Math.round((script.enrage.damageMultiplier - 1) * 100) },
+      });
+      recalculateEntityVitals(boss);
+      logZoneEvent({
+        zoneId: zone.zoneId,
+        type: "system",
+        tick: zone.tick,
+        message: script.enrage.message ?? `${boss.name} becomes enraged!`,
+        entityId: boss.id,
+        entityName: boss.name,
+        data: { encounter: script.id, enraged: true },
+      });
+    }
+
+    if (step.resolvedCast) resolveBossCast(boss, step.resolvedCast, zone);
+    if (step.startAbility) beginBossAbility(boss, step.startAbility, zone);
+
+    for (const hazard of state.hazards) {
+      for (const player of getBossScriptTargets(boss, zone)) {
+        if (Math.hypot(player.x - hazard.x, player.y - hazard.y) > hazard.radius) continue;
+        applyBossDamage(boss, player, hazard.damagePctPerTick, hazard.name, zone);
+      }
+    }
+  }
 }
 
 /**
@@ -1437,6 +2107,9 @@ function handlePlayerDeath(player: Entity, zoneId: string): void {
   // Tags will expire naturally via TAG_TIMEOUT_TICKS (60s) if the player doesn't return.
   const zone = getOrCreateZone(zoneId);
   player.lastCombatTick = undefined;
+  // Threat does not survive death, unlike tags
+  dropThreatSource(player.id, zone.entities.values());
+  handleQuestObjectivesOnDeath(player);
 
   // Apply death penalty: lose 10% of XP *within* the current level (progress toward next)
   // This prevents the death spiral where total-XP penalties outweigh kill rewards.
@@ -1501,6 +2174,7 @@ function handlePlayerDeath(player: Entity, zoneId: string): void {
   const graveyardOffset = getZoneOffset(zoneId) ?? { x: 0, z: 0 };
   player.x = localSpawn.x + graveyardOffset.x;
   player.y = localSpawn.y + graveyardOffset.z;
+  spatialIndex.reindex(player.id);
 
   // Restore HP to full
   player.hp = player.maxHp;
@@ -1537,13 +2211,22 @@ function handlePlayerDeath(player: Entity, zoneId: string): void {
 }
 
 /**
- * Handle mob death: auto-loot drops, create corpse for skinning
+ * Handle mob death: auto-loot drops, create corpse for skinning.
+ * Boss adds are part of the fight rather than farmable mobs, so they leave
+ * no loot, gold, corpse, leaderboard kill or guild XP.
  */
-async function handleMobDeath(
+export async function handleMobDeath(
   mob: Entity,
   killer: Entity | undefined,
   zone: ZoneState
 ): Promise<void> {
+  if (mob.encounter) endBossEncounter(mob, zone, "defeated");
+  if (mob.summonedBy) {
+    zone.entities.delete(mob.id);
+    return;
+  }
+  recordLeaderboardStat(killer, "kills");
+  awardGuildXp(killer?.walletAddress, GUILD_XP_AWARDS.mobKill);
   const lootTable = getLootTable(mob.name);
   const copperReward = rollMobCopperReward(mob);
 
@@ -1557,7 +2240,7 @@ async function handleMobDeath(
   }
   if (killer?.walletAddress && lootTable) {
     // Roll auto-drops — queued in memory, flushed to chain every 30s
-    const autoDrops = rollDrops(lootTable.autoDrops);
+    const autoDrops = rollDrops(lootTable.autoDrops, zone.zoneId);
     for (const drop of autoDrops) {
       await queueItemMint(killer.walletAddress, drop.tokenId, BigInt(drop.quantity));
     }
@@ -1591,6 +2274,7 @@ async function handleMobDeath(
     const goldReward = copperToGold(copperReward);
     // Queue gold for async chain publication — flushed by the durable batcher
     await queueGoldTransfer(killer.walletAddress, goldReward);
+    recordLeaderboardStat(killer, "gold_earned", copperReward);
     const rewardLabel = formatCopperString(copperReward);
     console.log(
       `[loot] ${killer.name} received ${rewardLabel} from ${mob.name} (batched)`
@@ -1752,15 +2436,11 @@ function countNearbyTechniqueTargets(
   radius: number,
 ): number {
   let count = 0;
-  for (const other of zone.entities.values()) {
+  for (const other of queryZoneRadius(zone, primaryTarget.x, primaryTarget.y, radius)) {
     if (other.id === sourceEntityId) continue;
     if (other.type !== "mob" && other.type !== "boss") continue;
     if (other.hp <= 0 || other.leashing) continue;
-    const dx = other.x - primaryTarget.x;
-    const dy = other.y - primaryTarget.y;
-    if (Math.sqrt(dx * dx + dy * dy) <= radius) {
-      count += 1;
-    }
+    count += 1;
   }
   return count;
 }
@@ -1926,6 +2606,45 @@ function getDistanceBetween(a: Entity, b: Entity): number {
   return Math.sqrt(dx * dx + dy * dy);
 }
 
+/** Edict "interrupt": cancel the target's windup before it resolves. */
+function applyEdictInterrupt(entity: Entity, targetId: string, zone: ZoneState): void {
+  const target = zone.entities.get(targetId);
+  if (!target) return;
+  const bossAbilityName = interruptBossCast(target);
+  if (!target.castingIntent && !bossAbilityName) return;
+  const technique = target.castingIntent && getTechniqueById(target.castingIntent.techniqueId);
+  target.castingIntent = undefined;
+  if (!entity.cooldowns) entity.cooldowns = new Map();
+  entity.cooldowns.set(INTERRUPT_COOLDOWN_KEY, zone.tick + INTERRUPT_COOLDOWN_TICKS);
+  logZoneEvent({
+    zoneId: zone.zoneId,
+    type: "combat",
+    tick: zone.tick,
+    message: `${entity.name} interrupts ${target.name}'s ${technique?.name ?? bossAbilityName ?? "cast"}!`,
+    entityId: entity.id,
+    entityName: entity.name,
+    targetId: target.id,
+    targetName: target.name,
+    data: { interrupted: true, ...(technique && { techniqueId: technique.id, techniqueName: technique.name }) },
+  });
+}
+
+/**
+ * Edict "use_consumable": burn and apply the potion in the background. The
+ * cooldown is set up front so the tick loop doesn't queue a second drink
+ * while the ownership check is in flight.
+ */
+function applyEdictConsumable(entity: Entity, tokenId: number, zone: ZoneState): void {
+  if (!entity.walletAddress) return;
+  if (!entity.cooldowns) entity.cooldowns = new Map();
+  entity.cooldowns.set(CONSUMABLE_COOLDOWN_KEY, zone.tick + CONSUMABLE_COOLDOWN_TICKS);
+  void consumePotion(entity.walletAddress, entity, zone.zoneId, zone.tick, tokenId)
+    .then((result) => {
+      if (!result.ok) console.warn(`[edicts] ${entity.name} could not use consumable ${tokenId}: ${result.error}`);
+    })
+    .catch((err) => console.warn(`[edicts] consumable ${tokenId} failed for ${entity.name}:`, err));
+}
+
 function getPartyCombatAnchor(
   entity: Entity,
   zone: ZoneState,
@@ -2008,7 +2727,7 @@ function getPartyFocusTarget(
   let taggedTarget: Entity | null = null;
   let taggedDistance = Number.POSITIVE_INFINITY;
 
-  for (const candidate of zone.entities.values()) {
+  for (const candidate of queryZoneRadius(zone, entity.x, entity.y, autoCombatRange)) {
     if (!isAliveAutoCombatTarget(candidate)) continue;
     if (!candidate.taggedBy || !sameZonePartyMembers.has(candidate.taggedBy)) continue;
 
@@ -2067,7 +2786,7 @@ export function pickAutoCombatTarget(
   const shouldRespectPartyAnchor = partyMemberIds.length > 1;
   let nearestMob: Entity | null = null;
   let nearestDist = autoCombatRange;
-  for (const other of zone.entities.values()) {
+  for (const other of queryZoneRadius(zone, entity.x, entity.y, autoCombatRange)) {
     if (!isAliveAutoCombatTarget(other)) continue;
     if (shouldRespectPartyAnchor && !isTargetWithinPartyAnchorRange(entity, other, zone, partyLeaderIdOverride)) continue;
     if (isTrivialAutoCombatTarget(entity, other)) continue;
@@ -2100,6 +2819,8 @@ function applyTechniqueInCombat(
 ): TechniqueHitResult {
   const { effects, type } = technique;
   const result: TechniqueHitResult = {};
+  const threatMultiplier = effects.threatMultiplier ?? 1;
+  const setModifiers = getSetTechniqueModifiers(caster);
 
   // Attack techniques
   if (type === "attack" && effects.damageMultiplier) {
@@ -2113,26 +2834,23 @@ function applyTechniqueInCombat(
 
     // Holy damage bonus for paladin/cleric
     damage += getHolyDamageBonus(caster);
+    if (setModifiers.damagePct) damage = Math.floor(damage * (1 + setModifiers.damagePct / 100));
 
     if (effects.maxTargets && effects.maxTargets > 1) {
       // AoE — hit multiple targets (each rolls dodge/crit/block independently)
       const nearby: Entity[] = [];
-      for (const e of zone.entities.values()) {
+      for (const e of queryZoneRadius(zone, target.x, target.y, effects.areaRadius ?? 50)) {
         if (e.type !== "mob" && e.type !== "boss") continue;
         if (e.hp <= 0 || e.id === caster.id) continue;
-        const dx = e.x - target.x;
-        const dy = e.y - target.y;
-        if (Math.sqrt(dx * dx + dy * dy) <= (effects.areaRadius ?? 50)) {
-          nearby.push(e);
-          if (nearby.length >= effects.maxTargets) break;
-        }
+        nearby.push(e);
+        if (nearby.length >= effects.maxTargets) break;
       }
       for (const t of nearby) {
-        resolveHit(caster, t, damage);
+        resolveHit(caster, t, damage, threatMultiplier);
       }
       result.damage = damage;
     } else {
-      const hit = resolveHit(caster, target, damage);
+      const hit = resolveHit(caster, target, damage, threatMultiplier);
       result.damage = hit.finalDamage;
       result.dodged = hit.dodged;
       result.critical = hit.critical;
@@ -2147,9 +2865,9 @@ function applyTechniqueInCombat(
     }
   }
 
-  // Healing techniques (amplified by faith)
+  // Healing techniques (amplified by faith and set bonuses)
   if (type === "healing" && effects.healAmount) {
-    const faithMult = getFaithHealMultiplier(caster);
+    const faithMult = getFaithHealMultiplier(caster) * (1 + setModifiers.healingPct / 100);
     if (effects.duration && effects.duration > 0) {
       const totalHeal = Math.floor(target.maxHp * (effects.healAmount / 100) * faithMult);
       const healPerTick = Math.max(1, Math.floor(totalHeal / effects.duration));
@@ -2168,6 +2886,7 @@ function applyTechniqueInCombat(
       const healAmount = Math.floor(target.maxHp * (effects.healAmount / 100) * faithMult);
       const actualHeal = Math.min(healAmount, target.maxHp - target.hp);
       target.hp = Math.min(target.maxHp, target.hp + actualHeal);
+      addSupportThreat(caster.id, target.id, actualHeal * HEAL_THREAT_RATIO * threatMultiplier, zone.entities.values());
     }
   }
 
@@ -2187,6 +2906,10 @@ function applyTechniqueInCombat(
       shieldMaxHp: effects.shield ? Math.floor(target.maxHp * (effects.shield / 100)) : undefined,
     });
     if (effects.statBonus) recalculateEntityVitals(target);
+    if (effects.shield) {
+      const shieldHp = Math.floor(target.maxHp * (effects.shield / 100));
+      addSupportThreat(caster.id, target.id, shieldHp * SHIELD_THREAT_RATIO * threatMultiplier, zone.entities.values());
+    }
   }
 
   // Debuffs
@@ -2206,6 +2929,8 @@ function applyTechniqueInCombat(
     if (effects.statReduction) recalculateEntityVitals(target);
   }
 
+  if (effects.taunt) applyTaunt(target, caster.id, zone.tick);
+
   return result;
 }
 
@@ -2245,24 +2970,41 @@ function addActiveEffectInternal(entity: Entity, effect: ActiveEffect): void {
 const ENTITY_COLLISION_RADIUS = 14; // units — entities can't overlap within this radius
 
 /** Entity types that can be displaced by collisions. NPCs/stations are immovable. */
-const MOVABLE_TYPES = new Set(["player", "mob", "boss"]);
+const MOVABLE_TYPES = new Set(["player", "mob", "boss", "escort"]);
 
+/**
+ * Step an entity toward (tx, ty). `collide` pushes it out of living
+ * entities it would overlap — only those in its own zone, or any in the world.
+ */
 function moveToward(
   entity: Entity, tx: number, ty: number,
-  zoneEntities?: Map<string, Entity>,
+  collide?: "zone" | "world",
 ): boolean {
   const running = canEntityRun(entity);
-  const dx = tx - entity.x;
-  const dy = ty - entity.y;
+  if (Math.hypot(tx - entity.x, ty - entity.y) <= 5) {
+    clearEntityPath(entity);
+    return true; // arrived
+  }
+
+  // Follow the terrain path; a settled path means the goal is unreachable
+  // and we're already as close as the terrain allows.
+  const steer = steerToward(entity, tx, ty, world.tick);
+  if (steer.settled) {
+    clearEntityPath(entity);
+    return true;
+  }
+  const dx = steer.x - entity.x;
+  const dy = steer.y - entity.y;
   const dist = Math.sqrt(dx * dx + dy * dy);
-  if (dist <= 5) return true; // arrived
+  if (dist <= 0.01) return false;
   const step = Math.min(running ? RUN_MOVE_SPEED : WALK_MOVE_SPEED, dist);
   let nx = entity.x + (dx / dist) * step;
   let ny = entity.y + (dy / dist) * step;
 
   // Entity-to-entity collision: push out of overlapping living entities
-  if (zoneEntities) {
-    for (const other of zoneEntities.values()) {
+  if (collide) {
+    const region = collide === "zone" ? entity.region : undefined;
+    for (const other of spatialIndex.queryRadius(nx, ny, ENTITY_COLLISION_RADIUS, region)) {
       if (other.id === entity.id) continue;
       if ((other.hp ?? 0) <= 0) continue; // ignore corpses/dead
       if (other.type === "flower-node" || other.type === "ore-node" ||
@@ -2279,8 +3021,22 @@ function moveToward(
     }
   }
 
+  // Terrain collision: never step into water, walls or up cliffs. Try
+  // sliding along each axis before giving up on this tick's step.
+  if (!canStepBetween(entity.region, entity.x, entity.y, nx, ny)) {
+    if (canStepBetween(entity.region, entity.x, entity.y, nx, entity.y)) {
+      ny = entity.y;
+    } else if (canStepBetween(entity.region, entity.x, entity.y, entity.x, ny)) {
+      nx = entity.x;
+    } else {
+      clearEntityPath(entity);
+      return false;
+    }
+  }
+
   entity.x = nx;
   entity.y = ny;
+  spatialIndex.reindex(entity.id);
   if (entity.type === "player") {
     ensurePlayerRunState(entity);
     entity.isRunning = running;
@@ -2292,7 +3048,12 @@ function moveToward(
 }
 
 async function worldTick() {
+  const stopWorldTickTimer = worldTickDuration.startTimer();
   world.tick++;
+  setRngTick(world.tick);
+  resetPathfindingBudget();
+  // Catch up on positions changed outside the tick (HTTP moves, teleports)
+  spatialIndex.refresh();
 
   // Broadcast day/night phase transitions to all zones
   const newPhase = checkPhaseTransition(world.tick);
@@ -2305,6 +3066,7 @@ async function worldTick() {
       night: "Darkness falls. The night creatures stir.",
     };
     for (const zone of getAllZones().values()) {
+      if (!ownsZone(zone.zoneId)) continue;
       logZoneEvent({
         zoneId: zone.zoneId,
         tick: world.tick,
@@ -2316,6 +3078,9 @@ async function worldTick() {
   }
 
   for (const zone of getAllZones().values()) {
+    // With zone sharding on, other workers tick the zones they own
+    if (!ownsZone(zone.zoneId)) continue;
+    const stopZoneTickTimer = zoneTickDuration.startTimer({ zone: zone.zoneId });
 
     // Regenerate player resources and clear per-tick locomotion state.
     for (const entity of zone.entities.values()) {
@@ -2377,6 +3142,10 @@ async function worldTick() {
 
           // Mob tagging + combat tracking from DoT caster
           trySetMobTag(entity, effect.casterId, "player", zone.tick);
+          if (zone.entities.get(effect.casterId)?.type === "player") {
+            const dotThreat = getTechniqueById(effect.techniqueId)?.effects.threatMultiplier ?? 1;
+            addThreat(entity, effect.casterId, effect.dotDamage * dotThreat);
+          }
           entity.lastCombatTick = zone.tick;
 
           if (entity.hp <= 0) {
@@ -2411,14 +3180,7 @@ async function worldTick() {
                   targetName: entity.name,
                   data: { xpReward: entity.xpReward ?? 0 },
                 });
-                if (dotKiller.activeQuests) {
-                  for (const activeQuest of dotKiller.activeQuests) {
-                    const questDef = QUEST_CATALOG.find((q) => q.id === activeQuest.questId);
-                    if (questDef && doesKillCountForQuest(questDef, entity.type, entity.name)) {
-                      activeQuest.progress++;
-                    }
-                  }
-                }
+                advanceQuestObjectives(dotKiller, { type: "kill", mobType: entity.type, mobName: entity.name });
               }
               await handleMobDeath(entity, dotKiller, zone);
               // Grant XP for DoT kill
@@ -2432,7 +3194,9 @@ async function worldTick() {
 
         // HoT healing
         if (effect.type === "hot" && effect.hotHealPerTick != null && effect.hotHealPerTick > 0) {
-          entity.hp = Math.min(entity.maxHp, entity.hp + effect.hotHealPerTick);
+          const healed = Math.min(effect.hotHealPerTick, entity.maxHp - entity.hp);
+          entity.hp += healed;
+          addSupportThreat(effect.casterId, entity.id, healed * HEAL_THREAT_RATIO, zone.entities.values());
         }
 
         // Remove depleted shields
@@ -2487,7 +3251,7 @@ async function worldTick() {
       if (entity.castingIntent) continue;
 
       if (entity.order.action === "move") {
-        const arrived = moveToward(entity, entity.order.x, entity.order.y, zone.entities);
+        const arrived = moveToward(entity, entity.order.x, entity.order.y, "zone");
         if (arrived) entity.order = undefined;
       } else if (entity.order.action === "attack") {
         const target = getEntity(entity.order.targetId);
@@ -2510,7 +3274,7 @@ async function worldTick() {
         const dy = target.y - entity.y;
         const dist = Math.sqrt(dx * dx + dy * dy);
         if (dist > getEntityAttackRange(entity)) {
-          moveToward(entity, target.x, target.y, world.entities);
+          moveToward(entity, target.x, target.y, "world");
         } else {
           if (entity.type === "player" && isAliveAutoCombatTarget(target)) {
             rememberPartyAutoCombatTarget(entity.id, zone.zoneId, target.id, zone.tick);
@@ -2637,14 +3401,7 @@ async function worldTick() {
                           xpReward: entity.xpReward ?? 0,
                         });
                       }
-                      if (retaliator.activeQuests) {
-                        for (const activeQuest of retaliator.activeQuests) {
-                          const questDef = QUEST_CATALOG.find((q) => q.id === activeQuest.questId);
-                          if (questDef && doesKillCountForQuest(questDef, entity.type, entity.name)) {
-                            activeQuest.progress++;
-                          }
-                        }
-                      }
+                      advanceQuestObjectives(retaliator, { type: "kill", mobType: entity.type, mobName: entity.name });
                     }
 
                     await handleMobDeath(entity, retaliator ?? target, zone);
@@ -2702,30 +3459,25 @@ async function worldTick() {
 
               // Track quest progress for kills (reward recipient only)
               if (xpRecipient.type === "player" && xpRecipient.activeQuests) {
-                for (const activeQuest of xpRecipient.activeQuests) {
-                  const questDef = QUEST_CATALOG.find((q) => q.id === activeQuest.questId);
-                  if (questDef && doesKillCountForQuest(questDef, target.type, target.name)) {
-                    activeQuest.progress++;
-                    console.log(
-                      `[quest] ${xpRecipient.name} progress: ${questDef.title} (${activeQuest.progress}/${questDef.objective.count})`
-                    );
-                    // Emit quest progress event so agents can track without polling
-                    logZoneEvent({
-                      zoneId: zone.zoneId,
-                      type: "quest-progress",
-                      tick: zone.tick,
-                      message: `${xpRecipient.name}: ${questDef.title} (${activeQuest.progress}/${questDef.objective.count})`,
-                      entityId: xpRecipient.id,
-                      entityName: xpRecipient.name,
-                      data: {
-                        questId: activeQuest.questId,
-                        questTitle: questDef.title,
-                        progress: activeQuest.progress,
-                        required: questDef.objective.count,
-                        complete: activeQuest.progress >= questDef.objective.count,
-                      },
-                    });
-                  }
+                const advanced = advanceQuestObjectives(xpRecipient, { type: "kill", mobType: target.type, mobName: target.name });
+                for (const { quest: questDef, activeQuest, update } of advanced) {
+                  // Emit quest progress event so agents can track without polling
+                  logZoneEvent({
+                    zoneId: zone.zoneId,
+                    type: "quest-progress",
+                    tick: zone.tick,
+                    message: `${xpRecipient.name}: ${questDef.title} (${update.progress}/${update.required})`,
+                    entityId: xpRecipient.id,
+                    entityName: xpRecipient.name,
+                    data: {
+                      questId: activeQuest.questId,
+                      questTitle: questDef.title,
+                      objectiveIndex: update.objectiveIndex,
+                      progress: update.progress,
+                      required: update.required,
+                      complete: isQuestComplete(questDef, activeQuest),
+                    },
+                  });
                 }
               }
             }
@@ -2764,7 +3516,7 @@ async function worldTick() {
           ? Math.max(baseRange, 100)
           : baseRange;
         if (dist > techRange) {
-          moveToward(entity, target.x, target.y, world.entities);
+          moveToward(entity, target.x, target.y, "world");
         } else {
           if (entity.type === "player" && isAliveAutoCombatTarget(target)) {
             rememberPartyAutoCombatTarget(entity.id, zone.zoneId, target.id, zone.tick);
@@ -2817,6 +3569,9 @@ async function worldTick() {
             entity.cooldowns.set(technique.id, zone.tick + technique.cooldown);
             entity.lastTechniqueId = technique.id;
             entity.lastTechniqueTick = zone.tick;
+            if (entity.type === "player") {
+              advanceQuestObjectives(entity, { type: "use_technique", techniqueId: technique.id });
+            }
           }
 
           const isPartyTechnique = technique.targetType === "party";
@@ -3044,13 +3799,8 @@ async function worldTick() {
               handlePlayerDeath(target, zone.zoneId);
             } else {
               await handleMobDeath(target, techXpRecipient, zone);
-              if (techXpRecipient.type === "player" && techXpRecipient.activeQuests) {
-                for (const activeQuest of techXpRecipient.activeQuests) {
-                  const questDef = QUEST_CATALOG.find((q) => q.id === activeQuest.questId);
-                  if (questDef && doesKillCountForQuest(questDef, target.type, target.name)) {
-                    activeQuest.progress++;
-                  }
-                }
+              if (techXpRecipient.type === "player") {
+                advanceQuestObjectives(techXpRecipient, { type: "kill", mobType: target.type, mobName: target.name });
               }
             }
 
@@ -3085,12 +3835,17 @@ async function worldTick() {
           e.type === "nectar-node" || e.type === "crop-node" || e.type === "corpse") continue;
       livingEntities.push(e);
     }
+    // Each overlapping pair is resolved once, from its earlier member.
+    const livingOrder = new Map<Entity, number>();
+    livingEntities.forEach((e, i) => livingOrder.set(e, i));
     // Run 3 passes for better convergence when many entities cluster
     for (let pass = 0; pass < 3; pass++) {
+      spatialIndex.refresh(zone.zoneId);
       for (let i = 0; i < livingEntities.length; i++) {
         const a = livingEntities[i];
-        for (let j = i + 1; j < livingEntities.length; j++) {
-          const b = livingEntities[j];
+        for (const b of queryZoneRadius(zone, a.x, a.y, ENTITY_COLLISION_RADIUS)) {
+          const j = livingOrder.get(b);
+          if (j === undefined || j <= i) continue;
           const dx = a.x - b.x;
           const dy = a.y - b.y;
           const dist = Math.sqrt(dx * dx + dy * dy);
@@ -3162,6 +3917,12 @@ async function worldTick() {
           entity.x = entity.spawnX;
           entity.y = entity.spawnY;
           entity.order = undefined;
+        } else if (!entity.order) {
+          // moveToward settled: the spawn point is walled off and this is as
+          // close as the terrain allows. Reset here rather than snapping
+          // through the terrain.
+          entity.leashing = false;
+          entity.hp = entity.maxHp;
         } else {
           // Keep walking home
           entity.order = { action: "move", x: entity.spawnX, y: entity.spawnY };
@@ -3175,6 +3936,8 @@ async function worldTick() {
         entity.order = { action: "move", x: entity.spawnX, y: entity.spawnY };
         entity.taggedBy = undefined;
         entity.taggedAtTick = undefined;
+        clearThreat(entity);
+        if (entity.encounter) endBossEncounter(entity, zone, "reset");
         continue;
       }
     }
@@ -3190,32 +3953,47 @@ async function worldTick() {
       if (entity.hp <= 0) continue;
       if (entity.leashing) continue;
       if (entity.spawnX == null || entity.spawnY == null) continue;
-      if (Math.random() > ROAM_CHANCE_PER_TICK) continue;
+      if (rngFloat("roaming", zone.zoneId) > ROAM_CHANCE_PER_TICK) continue;
 
       const roamRadius = entity.type === "boss" ? BOSS_ROAM_RADIUS : MOB_ROAM_RADIUS;
-      const angle = Math.random() * Math.PI * 2;
-      const dist = Math.random() * roamRadius;
-      const targetX = entity.spawnX + Math.cos(angle) * dist;
-      const targetY = entity.spawnY + Math.sin(angle) * dist;
-      entity.order = { action: "move", x: targetX, y: targetY };
+      // Pick a standable spot — a few tries, then skip this tick
+      for (let attempt = 0; attempt < 4; attempt++) {
+        const angle = rngFloat("roaming", zone.zoneId) * Math.PI * 2;
+        const dist = rngFloat("roaming", zone.zoneId) * roamRadius;
+        const targetX = entity.spawnX + Math.cos(angle) * dist;
+        const targetY = entity.spawnY + Math.sin(angle) * dist;
+        if (!isWalkableAt(entity.region, targetX, targetY)) continue;
+        entity.order = { action: "move", x: targetX, y: targetY };
+        break;
+      }
     }
 
     // ── Mob aggro AI: mobs attack nearby players ─────────────────────
     // Mobs proactively seek and attack players within aggro range.
-    // Bosses have larger aggro range. Mobs prefer their tagged target.
+    // Bosses have larger aggro range. Once a mob has a threat table it
+    // follows the table (re-checked while attacking, so it can switch to
+    // whoever overtakes its target); otherwise it prefers its tagger.
     const MOB_AGGRO_RANGE = 60;
     const BOSS_AGGRO_RANGE = 100;
     for (const entity of zone.entities.values()) {
       if (entity.type !== "mob" && entity.type !== "boss") continue;
-      if (entity.order) continue;
+      if (entity.order && entity.order.action !== "attack") continue;
       if (entity.castingIntent) continue;
       if (entity.hp <= 0) continue;
       if (entity.leashing) continue; // Don't re-aggro while walking home
 
       const aggroRange = entity.type === "boss" ? BOSS_AGGRO_RANGE : MOB_AGGRO_RANGE;
 
+      let target = pickThreatTarget(entity, zone.entities, aggroRange * 1.5, zone.tick);
+      if (target) {
+        if (entity.order?.targetId !== target.id) {
+          entity.order = { action: "attack", targetId: target.id };
+        }
+        continue;
+      }
+      if (entity.order) continue;
+
       // Prefer the player who tagged us (most recent attacker)
-      let target: Entity | null = null;
       if (entity.taggedBy) {
         const tagged = zone.entities.get(entity.taggedBy);
         if (tagged && tagged.type === "player" && tagged.hp > 0) {
@@ -3230,7 +4008,7 @@ async function worldTick() {
       // Otherwise find nearest player in aggro range
       if (!target) {
         let nearestDist = aggroRange;
-        for (const other of zone.entities.values()) {
+        for (const other of queryZoneRadius(zone, entity.x, entity.y, aggroRange)) {
           if (other.type !== "player") continue;
           if (other.hp <= 0) continue;
           const dx = other.x - entity.x;
@@ -3244,9 +4022,12 @@ async function worldTick() {
       }
 
       if (!target) continue;
+      addThreat(entity, target.id, PROXIMITY_THREAT);
       entity.order = { action: "attack", targetId: target.id };
     }
 
+    tickBossEncounters(zone);
+
     // ── Party/rental follow-leader AI ────────────────────────────────
     // Idle party followers stay near the leader. Rentals can also opt in
     // explicitly via followLeaderId. Runs BEFORE auto-combat so: far from
@@ -3299,10 +4080,15 @@ async function worldTick() {
     // Only engages mobs within AUTO_COMBAT_RANGE so agents can walk to
     // portals, merchants, etc. without being hijacked.
     const BASE_AUTO_COMBAT_RANGE = 80;
+    let zoneIntents: VisibleIntent[] | undefined;
     for (const entity of zone.entities.values()) {
       if (entity.type !== "player") continue;
-      if (entity.order) continue;
       if (entity.castingIntent) continue;
+      // Players with edicts keep evaluating while auto-attacking so they can
+      // react mid-fight (interrupts, heals, potions); other orders run to completion.
+      const edicts = entity.walletAddress ? getEdictCache(entity.walletAddress) : undefined;
+      const engaged = entity.order?.action === "attack" && !!edicts && edicts.length > 0;
+      if (entity.order && !engaged) continue;
       if (entity.hp <= 0) continue;
       // Skip players that are traveling to another zone
       if (entity.travelTargetZone) continue;
@@ -3312,15 +4098,26 @@ async function worldTick() {
       // Ranged classes scan further — auto-engage at their attack range + buffer
       const classRange = getEntityAttackRange(entity);
       const autoCombatRange = Math.max(BASE_AUTO_COMBAT_RANGE, classRange + 20);
-      const nearestMob = pickAutoCombatTarget(entity, zone, autoCombatRange);
+      const engagedTarget = engaged && entity.order?.action === "attack" ? getEntity(entity.order.targetId) : undefined;
+      const nearestMob = engagedTarget && engagedTarget.hp > 0
+        ? engagedTarget
+        : pickAutoCombatTarget(entity, zone, autoCombatRange);
 
       // ── Edict evaluation (gambit system) ──────────────────────────
       // If the player has edicts configured, evaluate them first.
       // First match wins; if no match, fall through to default AI.
-      const edicts = entity.walletAddress ? getEdictCache(entity.walletAddress) : undefined;
       if (edicts && edicts.length > 0) {
-        const edictResult = evaluateEdicts(entity, zone, edicts, nearestMob ?? null);
+        zoneIntents ??= buildVisibleIntents(zone);
+        const edictResult = evaluateEdicts(entity, { entities: zone.entities, tick: zone.tick, intents: zoneIntents }, edicts, nearestMob ?? null);
         if (edictResult) {
+          if (edictResult.interruptTargetId) {
+            applyEdictInterrupt(entity, edictResult.interruptTargetId, zone);
+            continue;
+          }
+          if (edictResult.consumableTokenId != null) {
+            applyEdictConsumable(entity, edictResult.consumableTokenId, zone);
+            continue;
+          }
           if (edictResult.order) {
             entity.order = edictResult.order as unknown as typeof entity.order;
             continue;
@@ -3337,6 +4134,8 @@ async function worldTick() {
         }
         // No edict matched — fall through to default AI below
       }
+      // Mid-fight re-evaluation found nothing to change; keep swinging.
+      if (engaged) continue;
 
       if (!nearestMob) continue;
 
@@ -3365,8 +4164,8 @@ async function worldTick() {
 
       // Scatter to a random position near original spawn
       if (entity.spawnX != null && entity.spawnY != null) {
-        const angle = Math.random() * Math.PI * 2;
-        const dist = Math.random() * NODE_SCATTER_RADIUS;
+        const angle = rngFloat("resources", zone.zoneId) * Math.PI * 2;
+        const dist = rngFloat("resources", zone.zoneId) * NODE_SCATTER_RADIUS;
         entity.x = entity.spawnX + Math.cos(angle) * dist;
         entity.y = entity.spawnY + Math.sin(angle) * dist;
       }
@@ -3401,6 +4200,7 @@ async function worldTick() {
     for (const corpseId of corpsesToRemove) {
       zone.entities.delete(corpseId);
     }
+    stopZoneTickTimer();
   }
 
   // ── Automatic region recalculation (replaces zone transitions) ──────
@@ -3408,6 +4208,7 @@ async function worldTick() {
   // membership in sync with world-space position for both players and mobs.
   for (const entity of world.entities.values()) {
     if (!MOVABLE_TYPES.has(entity.type)) continue;
+    if (entity.region && !ownsZone(entity.region)) continue;
 
     const newRegion = getRegionAtPosition(entity.x, entity.y);
 
@@ -3419,6 +4220,13 @@ async function worldTick() {
     }
     if (!newRegion || newRegion === entity.region) continue;
 
+    // Zone shard border: players cross and are handed to the owning worker
+    // after this tick; mobs and escorts stay on their own worker's side.
+    if (entity.type !== "player" && entity.region && !ownsZone(newRegion)) {
+      clampToZoneBounds(entity, entity.region);
+      continue;
+    }
+
     const oldRegion = entity.region ?? "unknown";
     entity.region = newRegion;
 
@@ -3463,6 +4271,11 @@ async function worldTick() {
 
   // Tick arena matches (win conditions, hazards, timers)
   arenaManager.tickArenaMatches();
+
+  // Listeners and between-tick queries see this tick's final positions
+  spatialIndex.refresh();
+  notifyWorldTickListeners(world.tick);
+  stopWorldTickTimer();
 }
 
 /**
@@ -3498,6 +4311,7 @@ export async function saveAllOnlinePlayers(): Promise<void> {
         completedQuests: entity.completedQuests ?? [],
         storyFlags: entity.storyFlags ?? [],
         learnedTechniques: entity.learnedTechniques ?? [],
+        craftingQueue: entity.craftingQueue ?? [],
         professions: getLearnedProfessions(entity.walletAddress),
         runEnergy: entity.runEnergy,
         maxRunEnergy: entity.maxRunEnergy,
@@ -3565,6 +4379,15 @@ export function registerZoneRuntime(server: FastifyInstance) {
         zoneId: entity.region ?? "unknown",
         x: entity.x,
         y: entity.y,
+        itemSets: getEntityItemSets(entity)
+          .filter((set) => set.bonuses.some((bonus) => bonus.active))
+          .map((set) => ({
+            setId: set.setId,
+            name: set.name,
+            equippedPieces: set.equippedPieces,
+            totalPieces: set.totalPieces,
+            activeBonuses: set.bonuses.filter((bonus) => bonus.active).map((bonus) => bonus.description),
+          })),
       }))
       .sort((a, b) => {
         const levelDiff = (b.level ?? 0) - (a.level ?? 0);
@@ -0,0 +1,362 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { Readable } from "node:stream";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { getRedis } from "../redis.js";
+import { getWorldLayout } from "./worldLayout.js";
+import {
+  adoptLivePlayer,
+  exportLivePlayer,
+  getAllZones,
+  getEntity,
+  registerSpawnedWalletListener,
+  registerWorldTickListener,
+  releaseLivePlayer,
+  type Entity,
+  type PersistedLivePlayer,
+} from "./zoneRuntime.js";
+import {
+  assignZoneOwners,
+  configureZoneSharding,
+  extractRoutingKeys,
+  getLiveWorkerIds,
+  getLocalWorkerId,
+  getShardWorker,
+  getZoneOwner,
+  getZoneShardConfig,
+  ownsZone,
+  parseZoneShardConfig,
+  setLiveWorkers,
+  type ZoneShardWorker,
+} from "./zoneSharding.js";
+
+/**
+ * Zone sharding runtime: worker heartbeats and the live worker set in
+ * Redis, the cluster-wide spawn registry, player handoff between workers,
+ * and the request router that forwards zone-scoped routes to the owner.
+ * Does nothing unless ZONE_SHARD_WORKERS is set (see zoneSharding.ts).
+ */
+
+const HEARTBEAT_MS = 5_000;
+const WORKER_TTL_MS = 15_000;
+const HANDOFF_TIMEOUT_MS = 5_000;
+const HANDOFF_RETRY_MS = 5_000;
+
+const WORKER_KEY_PREFIX = "zone-shard:worker:";
+const OWNERS_KEY = "zone-shard:owners";
+/** wallet → SpawnedRecord, the cluster-wide "one live character per wallet" registry */
+const WALLETS_KEY = "zone-shard:wallets";
+/** entityId → SpawnedRecord, used by the router to find the worker holding a player */
+const ENTITIES_KEY = "zone-shard:entities";
+
+/** Set on forwarded requests and handoffs so a worker never forwards twice. */
+const HOP_HEADER = "x-zone-shard-hop";
+const SECRET_HEADER = "x-zone-shard-secret";
+/** Tells clients (and logs) which worker actually answered. */
+const WORKER_HEADER = "x-zone-shard-worker";
+const UNFORWARDED_HEADERS = new Set(["host", "connection", "keep-alive", "transfer-encoding", "content-length", "upgrade"]);
+
+interface SpawnedRecord {
+  workerId: string;
+  entityId: string;
+  zoneId: string;
+}
+
+const handoffsInFlight = new Set<string>();
+const handoffRetryAt = new Map<string, number>();
+
+function parseSpawnedRecord(raw: unknown): SpawnedRecord | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<SpawnedRecord>;
+    if (typeof parsed.workerId !== "string" || typeof parsed.entityId !== "string" || typeof parsed.zoneId !== "string") {
+      return null;
+    }
+    return { workerId: parsed.workerId, entityId: parsed.entityId, zoneId: parsed.zoneId };
+  } catch {
+    return null;
+  }
+}
+
+/** Known zones: the configured layout plus any dynamic regions (arenas, gates). */
+function knownZoneIds(): string[] {
+  return Array.from(new Set([...Object.keys(getWorldLayout().zones), ...getAllZones().keys()]));
+}
+
+// ── Live workers ──────────────────────────────────────────────────────
+
+async function heartbeat(): Promise<void> {
+  const config = getZoneShardConfig();
+  const redis = getRedis();
+  if (!config || !redis) return;
+
+  await redis.set(`${WORKER_KEY_PREFIX}${config.workerId}`, String(Date.now()), "PX", WORKER_TTL_MS);
+  const ids = config.workers.map((w) => w.id);
+  const beats: Array<string | null> = await redis.mget(ids.map((id) => `${WORKER_KEY_PREFIX}${id}`));
+  const live = ids.filter((_, i) => beats[i] != null);
+  if (!setLiveWorkers(live)) return;
+
+  const liveIds = getLiveWorkerIds();
+  console.log(`[zone-shard] Live workers: ${liveIds.join(", ")}`);
+  // The lowest live worker publishes the owner map for dashboards and tooling
+  if (liveIds[0] === config.workerId) {
+    const owners = assignZoneOwners(knownZoneIds(), liveIds, config.pins);
+    const tx = redis.multi();
+    tx.del(OWNERS_KEY);
+    if (owners.size > 0) tx.hset(OWNERS_KEY, Object.fromEntries(owners));
+    await tx.exec();
+  }
+}
+
+function isLiveWorker(workerId: string): boolean {
+  return getLiveWorkerIds().includes(workerId);
+}
+
+// ── Cluster spawn registry ────────────────────────────────────────────
+
+function mirrorSpawnedWallet(
+  wallet: string,
+  entry: { entityId: string; zoneId: string } | null,
+  previous: { entityId: string; zoneId: string } | null,
+): void {
+  const workerId = getLocalWorkerId();
+  const redis = getRedis();
+  if (!workerId || !redis) return;
+
+  const tx = redis.multi();
+  if (previous && previous.entityId !== entry?.entityId) tx.hdel(ENTITIES_KEY, previous.entityId);
+  if (entry) {
+    const record: SpawnedRecord = { workerId, entityId: entry.entityId, zoneId: entry.zoneId };
+    tx.hset(WALLETS_KEY, wallet, JSON.stringify(record));
+    tx.hset(ENTITIES_KEY, entry.entityId, JSON.stringify(record));
+  } else {
+    tx.hdel(WALLETS_KEY, wallet);
+  }
+  void tx.exec().catch((err: Error) => {
+    console.warn(`[zone-shard] Failed to mirror spawn registry for ${wallet}: ${err.message}`);
+  });
+}
+
+/**
+ * The live character a wallet has on another worker, if any. The local
+ * spawn registry covers this worker; records left by a dead worker are
+ * ignored so a crash never locks a wallet out.
+ */
+export async function findRemoteSpawnedWallet(wallet: string): Promise<SpawnedRecord | null> {
+  const workerId = getLocalWorkerId();
+  const redis = getRedis();
+  if (!workerId || !redis) return null;
+  const record = parseSpawnedRecord(await redis.hget(WALLETS_KEY, wallet.toLowerCase()));
+  if (!record || record.workerId === workerId || !isLiveWorker(record.workerId)) return null;
+  return record;
+}
+
+// ── Player handoff ────────────────────────────────────────────────────
+
+async function handOff(entity: Entity, zoneId: string): Promise<void> {
+  const config = getZoneShardConfig();
+  const ownerId = getZoneOwner(zoneId);
+  const owner = ownerId ? getShardWorker(ownerId) : undefined;
+  if (!config || !owner || owner.id === config.workerId) return;
+
+  const snapshot = exportLivePlayer(entity.id);
+  if (!snapshot) return;
+
+  const res = await fetch(`${owner.url}/zone-shard/handoff`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      [SECRET_HEADER]: config.secret,
+      [HOP_HEADER]: config.workerId,
+    },
+    body: JSON.stringify({ fromWorker: config.workerId, snapshot }),
+    signal: AbortSignal.timeout(HANDOFF_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null) as { error?: string } | null;
+    throw new Error(`${owner.id} refused (${res.status}): ${body?.error ?? "no reason given"}`);
+  }
+
+  releaseLivePlayer(entity.id);
+  console.log(`[zone-shard] Handed ${entity.name} to ${owner.id} in ${zoneId}`);
+}
+
+/**
+ * Players standing in zones this worker doesn't own — they walked across a
+ * shard border, spawned into a saved zone owned elsewhere, or their zone
+ * moved to another worker. Their zone isn't ticked here, so they wait,
+ * frozen, until the owner has taken them.
+ */
+function handOffStrayPlayers(): void {
+  const now = Date.now();
+  for (const zone of getAllZones().values()) {
+    if (ownsZone(zone.zoneId)) continue;
+    for (const entity of zone.entities.values()) {
+      if (entity.type !== "player" || handoffsInFlight.has(entity.id)) continue;
+      if ((handoffRetryAt.get(entity.id) ?? 0) > now) continue;
+
+      handoffsInFlight.add(entity.id);
+      handOff(entity, zone.zoneId)
+        .then(() => handoffRetryAt.delete(entity.id))
+        .catch((err: Error) => {
+          handoffRetryAt.set(entity.id, Date.now() + HANDOFF_RETRY_MS);
+          console.warn(`[zone-shard] Handoff of ${entity.name} to ${zone.zoneId} failed, retrying: ${err.message}`);
+        })
+        .finally(() => handoffsInFlight.delete(entity.id));
+    }
+  }
+}
+
+// ── Router ────────────────────────────────────────────────────────────
+
+/** Worker that should serve this request, or null to serve it here. */
+async function resolveTargetWorker(request: FastifyRequest): Promise<ZoneShardWorker | null> {
+  const localId = getLocalWorkerId();
+  if (!localId || request.headers[HOP_HEADER]) return null;
+
+  const keys = extractRoutingKeys(request.params, request.query, request.body);
+  if (keys.entityId) {
+    // A player held here is served here, even mid-handoff
+    if (getEntity(keys.entityId)) return null;
+    const redis = getRedis();
+    const record = redis ? parseSpawnedRecord(await redis.hget(ENTITIES_KEY, keys.entityId)) : null;
+    if (record && record.workerId !== localId && isLiveWorker(record.workerId)) {
+      return getShardWorker(record.workerId) ?? null;
+    }
+    if (record) return null;
+  }
+  if (keys.zoneId) {
+    const ownerId = getZoneOwner(keys.zoneId);
+    if (ownerId && ownerId !== localId) return getShardWorker(ownerId) ?? null;
+  }
+  return null;
+}
+
+async function forwardRequest(request: FastifyRequest, reply: FastifyReply, worker: ZoneShardWorker): Promise<FastifyReply> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    if (value === undefined || UNFORWARDED_HEADERS.has(name)) continue;
+    headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  headers[HOP_HEADER] = getLocalWorkerId() ?? "";
+
+  let body: string | undefined;
+  if (request.body !== undefined && request.method !== "GET" && request.method !== "HEAD") {
+    if (typeof request.body === "string") {
+      body = request.body;
+    } else {
+      body = JSON.stringify(request.body);
+      headers["content-type"] = "application/json";
+    }
+  }
+
+  // Stop the upstream request (e.g. a zone stream) when our client goes away
+  const controller = new AbortController();
+  reply.raw.on("close", () => controller.abort());
+
+  let res: Response;
+  try {
+    res = await fetch(`${worker.url}${request.url}`, {
+      method: request.method,
+      headers,
+      body,
+      signal: controller.signal,
+    });
+  } catch (err: any) {
+    request.log.warn(`[zone-shard] Forward to ${worker.id} failed: ${String(err?.message ?? err).slice(0, 160)}`);
+    reply.code(502);
+    return reply.send({ error: `Zone worker ${worker.id} is unreachable` });
+  }
+
+  reply.code(res.status);
+  res.headers.forEach((value, name) => {
+    // fetch already decoded the body
+    if (UNFORWARDED_HEADERS.has(name) || name === "content-encoding") return;
+    reply.header(name, value);
+  });
+  reply.header(WORKER_HEADER, worker.id);
+  if (!res.body) return reply.send();
+  return reply.send(Readable.fromWeb(res.body as unknown as NodeReadableStream));
+}
+
+// ── Registration ──────────────────────────────────────────────────────
+
+/**
+ * Read the sharding config and, when enabled, start heartbeats, handoffs
+ * and the router. Call before other routes are registered so every route
+ * goes through the router.
+ */
+export function registerZoneSharding(server: FastifyInstance): void {
+  const config = parseZoneShardConfig(process.env);
+  configureZoneSharding(config);
+  if (!config) return;
+
+  if (!getRedis()) {
+    console.warn("[zone-shard] Redis unavailable — treating every listed worker as live and the spawn registry as per-worker");
+  }
+  console.log(
+    `[zone-shard] Worker ${config.workerId} of ${config.workers.map((w) => w.id).join(", ")}` +
+      (Object.keys(config.pins).length > 0 ? ` (pins: ${JSON.stringify(config.pins)})` : "")
+  );
+
+  const heartbeatOnce = () => {
+    heartbeat().catch((err: Error) => console.warn(`[zone-shard] Heartbeat failed: ${err.message}`));
+  };
+  heartbeatOnce();
+  const heartbeatInterval = setInterval(heartbeatOnce, HEARTBEAT_MS);
+  const unsubscribeWallets = registerSpawnedWalletListener(mirrorSpawnedWallet);
+  const unsubscribeTick = registerWorldTickListener(() => handOffStrayPlayers());
+
+  server.addHook("onClose", async () => {
+    clearInterval(heartbeatInterval);
+    unsubscribeWallets();
+    unsubscribeTick();
+    // Let peers take our zones right away instead of waiting out the TTL
+    await getRedis()?.del(`${WORKER_KEY_PREFIX}${config.workerId}`).catch(() => {});
+  });
+
+  server.addHook("preHandler", async (request, reply) => {
+    if (request.url.startsWith("/zone-shard/")) return;
+    const worker = await resolveTargetWorker(request);
+    if (!worker) return;
+    return forwardRequest(request, reply, worker);
+  });
+
+  // POST /zone-shard/handoff — adopt a player from another worker (worker-to-worker only)
+  server.post<{ Body: { fromWorker?: string; snapshot?: PersistedLivePlayer } }>("/zone-shard/handoff", async (request, reply) => {
+    if (request.headers[SECRET_HEADER] !== config.secret) {
+      reply.code(403);
+      return { error: "Invalid zone shard secret" };
+    }
+    const snapshot = request.body?.snapshot;
+    if (!snapshot?.entity || typeof snapshot.entity !== "object" || !Array.isArray(snapshot.professions)) {
+      reply.code(400);
+      return { error: "snapshot with entity and professions is required" };
+    }
+    const zoneId = typeof snapshot.entity.region === "string" ? snapshot.entity.region : "village-square";
+    if (!ownsZone(zoneId)) {
+      // Our views of the live set differ for a moment; the sender retries
+      reply.code(409);
+      return { error: `Zone ${zoneId} is not owned by ${config.workerId}`, owner: getZoneOwner(zoneId) };
+    }
+
+    const entity = adoptLivePlayer(snapshot);
+    if (!entity) {
+      reply.code(400);
+      return { error: "snapshot is not a live player" };
+    }
+    console.log(`[zone-shard] Adopted ${entity.name} from ${request.body.fromWorker ?? "unknown"} in ${zoneId}`);
+    return { ok: true, entityId: entity.id, workerId: config.workerId };
+  });
+
+  // GET /zone-shard/owners — this worker's view of the cluster
+  server.get("/zone-shard/owners", async () => {
+    const liveWorkers = getLiveWorkerIds();
+    return {
+      workerId: config.workerId,
+      workers: config.workers,
+      liveWorkers,
+      owners: Object.fromEntries(assignZoneOwners(knownZoneIds().sort(), liveWorkers, config.pins)),
+      handoffsInFlight: handoffsInFlight.size,
+    };
+  });
+}
@@ -0,0 +1,234 @@
+/**
+ * Zone sharding — which shard worker process owns which zone.
+ *
+ * With ZONE_SHARD_WORKERS unset there is one process and it owns every
+ * zone, so nothing here changes behaviour. When set, each worker ticks only
+ * the zones it owns; players that walk into another worker's zone are
+ * handed off (see zoneShardService.ts) and zone-scoped requests are
+ * forwarded to the owner.
+ *
+ * Ownership is rendezvous hashing over the live workers: every worker
+ * computes the same owner for a zone from the same live set, and a worker
+ * joining or leaving only moves the zones it wins or held. ZONE_SHARD_PINS
+ * overrides the hash for busy zones (e.g. the event zone on its own core).
+ */
+
+export interface ZoneShardWorker {
+  id: string;
+  /** Base URL other workers use to reach this one, e.g. http://10.0.0.4:3001 */
+  url: string;
+}
+
+export interface ZoneShardConfig {
+  workerId: string;
+  workers: ZoneShardWorker[];
+  /** zoneId → workerId; honoured while the pinned worker is live. */
+  pins: Record<string, string>;
+  /** Shared secret for worker-to-worker calls (handoffs). */
+  secret: string;
+}
+
+const WORKER_ID_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+/**
+ * Read the sharding config from the environment. Returns null when sharding
+ * is off. Throws on a malformed config so a worker never boots with a
+ * different view of the cluster than its peers.
+ *
+ *   ZONE_SHARD_WORKERS=w0=http://127.0.0.1:3001,w1=http://127.0.0.1:3002
+ *   ZONE_SHARD_WORKER_ID=w0
+ *   ZONE_SHARD_PINS=village-square=w0,wild-meadow=w1
+ *   ZONE_SHARD_SECRET=<same random string on every worker>
+ */
+export function parseZoneShardConfig(env: Record<string, string | undefined>): ZoneShardConfig | null {
+  const rawWorkers = env.ZONE_SHARD_WORKERS?.trim();
+  if (!rawWorkers) return null;
+
+  const workers: ZoneShardWorker[] = [];
+  for (const part of rawWorkers.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const eq = part.indexOf("=");
+    const id = eq > 0 ? part.slice(0, eq).trim() : "";
+    const url = eq > 0 ? part.slice(eq + 1).trim().replace(/\/+$/, "") : "";
+    if (!WORKER_ID_RE.test(id)) {
+      throw new Error(`[zone-shard] Invalid worker entry "${part}" (expected id=http://host:port)`);
+    }
+    if (!/^https?:\/\/[^/]+/.test(url)) {
+      throw new Error(`[zone-shard] Worker ${id} has an invalid URL "${url}"`);
+    }
+    if (workers.some((w) => w.id === id)) {
+      throw new Error(`[zone-shard] Worker ${id} is listed twice`);
+    }
+    workers.push({ id, url });
+  }
+  if (workers.length === 0) {
+    throw new Error("[zone-shard] ZONE_SHARD_WORKERS lists no workers");
+  }
+
+  const workerId = env.ZONE_SHARD_WORKER_ID?.trim() ?? "";
+  if (!workers.some((w) => w.id === workerId)) {
+    throw new Error(`[zone-shard] ZONE_SHARD_WORKER_ID "${workerId}" is not in ZONE_SHARD_WORKERS`);
+  }
+
+  const pins: Record<string, string> = {};
+  for (const part of (env.ZONE_SHARD_PINS ?? "").split(",").map((s) => s.trim()).filter(Boolean)) {
+    const [zoneId, pinned] = part.split("=").map((s) => s?.trim());
+    if (!zoneId || !pinned || !workers.some((w) => w.id === pinned)) {
+      throw new Error(`[zone-shard] Invalid pin "${part}" (expected zoneId=workerId of a listed worker)`);
+    }
+    pins[zoneId] = pinned;
+  }
+
+  const secret = env.ZONE_SHARD_SECRET?.trim() ?? "";
+  if (!secret) {
+    throw new Error("[zone-shard] ZONE_SHARD_SECRET is required when ZONE_SHARD_WORKERS is set");
+  }
+
+  return { workerId, workers, pins, secret };
+}
+
+/** FNV-1a, 32-bit. Stable across processes and Node versions. */
+function hash32(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Highest-random-weight owner of a zone among `workerIds`. Ties break on worker id. */
+export function rendezvousOwner(zoneId: string, workerIds: readonly string[]): string | null {
+  let best: string | null = null;
+  let bestScore = -1;
+  for (const id of workerIds) {
+    const score = hash32(`${id}:${zoneId}`);
+    if (score > bestScore || (score === bestScore && best !== null && id < best)) {
+      best = id;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Owner for each zone: its pin if that worker is live, else the rendezvous winner. */
+export function assignZoneOwners(
+  zoneIds: Iterable<string>,
+  liveWorkerIds: readonly string[],
+  pins: Record<string, string> = {},
+): Map<string, string> {
+  const owners = new Map<string, string>();
+  for (const zoneId of zoneIds) {
+    const pinned = pins[zoneId];
+    const owner = pinned && liveWorkerIds.includes(pinned) ? pinned : rendezvousOwner(zoneId, liveWorkerIds);
+    if (owner) owners.set(zoneId, owner);
+  }
+  return owners;
+}
+
+// ── Local view of the cluster ─────────────────────────────────────────
+// Set once at boot from the environment, then the live worker set is
+// refreshed from Redis heartbeats by zoneShardService.
+
+let config: ZoneShardConfig | null = null;
+let liveWorkerIds: string[] = [];
+const ownerCache = new Map<string, string>();
+
+export function configureZoneSharding(next: ZoneShardConfig | null): void {
+  config = next;
+  liveWorkerIds = next ? next.workers.map((w) => w.id).sort() : [];
+  ownerCache.clear();
+}
+
+export function getZoneShardConfig(): ZoneShardConfig | null {
+  return config;
+}
+
+export function isZoneShardingEnabled(): boolean {
+  return config !== null;
+}
+
+export function getLocalWorkerId(): string | null {
+  return config?.workerId ?? null;
+}
+
+export function getShardWorker(workerId: string): ZoneShardWorker | undefined {
+  return config?.workers.find((w) => w.id === workerId);
+}
+
+export function getLiveWorkerIds(): readonly string[] {
+  return liveWorkerIds;
+}
+
+/**
+ * Replace the live worker set. This worker always counts itself as live.
+ * Returns true when the set changed (owners may have moved).
+ */
+export function setLiveWorkers(ids: Iterable<string>): boolean {
+  if (!config) return false;
+  const known = new Set(config.workers.map((w) => w.id));
+  const next = Array.from(new Set([...ids, config.workerId])).filter((id) => known.has(id)).sort();
+  if (next.length === liveWorkerIds.length && next.every((id, i) => id === liveWorkerIds[i])) return false;
+  liveWorkerIds = next;
+  ownerCache.clear();
+  return true;
+}
+
+/** Worker that owns `zoneId`, or null when sharding is off. */
+export function getZoneOwner(zoneId: string): string | null {
+  if (!config) return null;
+  let owner = ownerCache.get(zoneId);
+  if (!owner) {
+    owner = assignZoneOwners([zoneId], liveWorkerIds, config.pins).get(zoneId) ?? config.workerId;
+    ownerCache.set(zoneId, owner);
+  }
+  return owner;
+}
+
+/** True if this process should tick `zoneId`. Always true with sharding off. */
+export function ownsZone(zoneId: string): boolean {
+  return !config || getZoneOwner(zoneId) === config.workerId;
+}
+
+// ── Request routing ───────────────────────────────────────────────────
+
+/** Fields that name the entity a request acts on, most specific first. */
+const ENTITY_KEYS = ["entityId", "playerEntityId", "casterEntityId"] as const;
+/** Fields that name the zone a request reads or acts in. */
+const ZONE_KEYS = ["zoneId", "region"] as const;
+
+export interface RoutingKeys {
+  entityId?: string;
+  zoneId?: string;
+}
+
+/**
+ * Pull the entity and zone a request is scoped to out of its route params,
+ * query string and JSON body (checked in that order). Requests with neither
+ * are global and stay on the worker that received them.
+ */
+export function extractRoutingKeys(...sources: unknown[]): RoutingKeys {
+  const keys: RoutingKeys = {};
+  for (const source of sources) {
+    if (!source || typeof source !== "object" || Array.isArray(source)) continue;
+    const record = source as Record<string, unknown>;
+    if (!keys.entityId) {
+      for (const key of ENTITY_KEYS) {
+        const value = record[key];
+        if (typeof value === "string" && value) {
+          keys.entityId = value;
+          break;
+        }
+      }
+    }
+    if (!keys.zoneId) {
+      for (const key of ZONE_KEYS) {
+        const value = record[key];
+        if (typeof value === "string" && value) {
+          keys.zoneId = value;
+          break;
+        }
+      }
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,279 @@
+/**
+ * Realtime Zone Stream
+ * Push-based alternative to polling GET /zones/:zoneId. Each world tick is
+ * diffed per watched zone into a frame of entity deltas, visible-intent
+ * changes and zone events, delivered over Server-Sent Events.
+ *
+ * Frames carry the zone stream's epoch and a sequence number within it. A
+ * reconnecting client passes the last `<epoch>:<seq>` cursor it saw (`?since=`
+ * or the standard `Last-Event-ID` header, which SSE ids already carry) and
+ * gets only the frames it missed. If those were evicted, or the stream was
+ * recreated or the server restarted since (a new epoch), it receives a fresh
+ * snapshot instead.
+ */
+
+import type { FastifyInstance, FastifyReply } from "fastify";
+import type { ServerResponse } from "node:http";
+import {
+  buildVisibleIntents,
+  getOrCreateZone,
+  getWorldTick,
+  registerWorldTickListener,
+  toSerializableEntity,
+  type VisibleIntent,
+} from "./zoneRuntime.js";
+import { registerZoneEventListener, type ZoneEvent } from "./zoneEvents.js";
+import { getWorldLayout } from "./worldLayout.js";
+import { getGameTime } from "./worldClock.js";
+import {
+  appendZoneStreamFrame,
+  createZoneStreamLog,
+  diffEntities,
+  diffIntents,
+  digestEntity,
+  formatZoneStreamCursor,
+  getFramesSince,
+  parseZoneStreamCursor,
+  type ZoneStreamCursor,
+  type ZoneStreamFrame,
+  type ZoneStreamLog,
+} from "./zoneStreamFrames.js";
+
+const STREAM_BUFFER_FRAMES = Math.max(
+  10,
+  Number.parseInt(process.env.ZONE_STREAM_BUFFER_FRAMES ?? "120", 10) || 120
+); // ~2 minutes of ticks
+const STREAM_IDLE_RETENTION_MS = Math.max(
+  5_000,
+  Number.parseInt(process.env.ZONE_STREAM_IDLE_RETENTION_MS ?? "120000", 10) || 120_000
+); // keep diffing a zone this long after its last subscriber leaves so reconnects can resume
+const STREAM_HEARTBEAT_MS = 15_000;
+const MAX_SUBSCRIBERS_PER_ZONE = Math.max(
+  1,
+  Number.parseInt(process.env.ZONE_STREAM_MAX_SUBSCRIBERS ?? "200", 10) || 200
+);
+
+export type { EntityDelta, ZoneStreamFrame } from "./zoneStreamFrames.js";
+
+export interface ZoneStreamSnapshot {
+  epoch: string;
+  seq: number;
+  zoneId: string;
+  tick: number;
+  gameTime: ReturnType<typeof getGameTime>;
+  entities: Record<string, Record<string, unknown>>;
+  visibleIntents: VisibleIntent[];
+}
+
+interface ZoneStreamState extends ZoneStreamLog {
+  pendingEvents: ZoneEvent[];
+  subscribers: Set<ServerResponse>;
+  /** Timestamp when the last subscriber left; null while anyone is connected. */
+  idleSince: number | null;
+}
+
+const streams = new Map<string, ZoneStreamState>();
+
+function getOrCreateStream(zoneId: string): ZoneStreamState {
+  let state = streams.get(zoneId);
+  if (!state) {
+    state = {
+      ...createZoneStreamLog(zoneId),
+      pendingEvents: [],
+      subscribers: new Set(),
+      idleSince: null,
+    };
+    // Prime digests so the first frame only carries real changes.
+    const zone = getOrCreateZone(zoneId);
+    for (const entity of zone.entities.values()) {
+      state.digests.set(entity.id, digestEntity(entity));
+    }
+    for (const intent of buildVisibleIntents(zone)) {
+      state.intents.set(intent.id, JSON.stringify(intent));
+    }
+    streams.set(zoneId, state);
+  }
+  return state;
+}
+
+function writeSse(res: ServerResponse, event: string, id: string | null, data: unknown): void {
+  if (res.writableEnded) return;
+  const idLine = id != null ? `id: ${id}\n` : "";
+  res.write(`event: ${event}\n${idLine}data: ${JSON.stringify(data)}\n\n`);
+}
+
+function publishTick(tick: number): void {
+  const now = Date.now();
+  for (const state of streams.values()) {
+    if (state.subscribers.size === 0 && state.idleSince != null && now - state.idleSince > STREAM_IDLE_RETENTION_MS) {
+      streams.delete(state.zoneId);
+      continue;
+    }
+
+    const zone = getOrCreateZone(state.zoneId);
+    const entities = diffEntities(state, zone.entities.values(), toSerializableEntity);
+    const intents = diffIntents(state, buildVisibleIntents(zone));
+    const events = state.pendingEvents;
+    state.pendingEvents = [];
+
+    if (entities.length === 0 && intents.upserted.length === 0 && intents.removed.length === 0 && events.length === 0) {
+      continue;
+    }
+
+    const frame = appendZoneStreamFrame(state, { tick, entities, intents, events }, STREAM_BUFFER_FRAMES);
+    for (const res of state.subscribers) {
+      writeSse(res, "delta", formatZoneStreamCursor(frame), frame);
+    }
+  }
+}
+
+/** Build the full-state frame a client gets on first connect or when its resume point was evicted. */
+function buildSnapshot(state: ZoneStreamState): ZoneStreamSnapshot {
+  const zone = getOrCreateZone(state.zoneId);
+  const tick = getWorldTick();
+  return {
+    epoch: state.epoch,
+    seq: state.seq,
+    zoneId: state.zoneId,
+    tick,
+    gameTime: getGameTime(tick),
+    entities: Object.fromEntries(
+      Array.from(zone.entities.values()).map((entity) => [entity.id, toSerializableEntity(entity)])
+    ),
+    visibleIntents: buildVisibleIntents(zone),
+  };
+}
+
+/**
+ * Frames after `since`, or null when the client must resync from a snapshot
+ * (no stream for the zone, cursor from another epoch, or already evicted).
+ */
+export function getZoneStreamFramesSince(zoneId: string, since: ZoneStreamCursor): ZoneStreamFrame[] | null {
+  const state = streams.get(zoneId);
+  return state ? getFramesSince(state, since) : null;
+}
+
+export function getZoneStreamStats(): Array<{ zoneId: string; epoch: string; seq: number; subscribers: number; bufferedFrames: number }> {
+  return Array.from(streams.values()).map((state) => ({
+    zoneId: state.zoneId,
+    epoch: state.epoch,
+    seq: state.seq,
+    subscribers: state.subscribers.size,
+    bufferedFrames: state.frames.length,
+  }));
+}
+
+function parseResumeCursor(query: string | undefined, header: string | string[] | undefined): ZoneStreamCursor | null {
+  return parseZoneStreamCursor(query ?? (Array.isArray(header) ? header[0] : header));
+}
+
+function openStream(reply: FastifyReply, state: ZoneStreamState, resume: ZoneStreamCursor | null): ServerResponse {
+  const res = reply.raw;
+  // Keep headers set by earlier hooks (CORS) — hijacking bypasses Fastify's send path.
+  const inherited: Record<string, string | number | string[]> = {};
+  for (const [key, value] of Object.entries(reply.getHeaders())) {
+    if (value != null) inherited[key] = value;
+  }
+  reply.hijack();
+  res.writeHead(200, {
+    ...inherited,
+    "content-type": "text/event-stream",
+    "cache-control": "no-cache, no-transform",
+    connection: "keep-alive",
+    "x-accel-buffering": "no",
+  });
+  res.write(`retry: 2000\n\n`);
+
+  const missed = resume ? getFramesSince(state, resume) : null;
+  if (missed) {
+    for (const frame of missed) writeSse(res, "delta", formatZoneStreamCursor(frame), frame);
+  } else {
+    writeSse(res, "snapshot", formatZoneStreamCursor(state), buildSnapshot(state));
+  }
+  return res;
+}
+
+export function registerZoneStreamRoutes(server: FastifyInstance) {
+  const configuredZoneIds = new Set(Object.keys(getWorldLayout().zones));
+
+  registerZoneEventListener((event) => {
+    const state = streams.get(event.zoneId);
+    if (state) state.pendingEvents.push(event);
+  });
+  registerWorldTickListener(publishTick);
+
+  const heartbeat = setInterval(() => {
+    for (const state of streams.values()) {
+      for (const res of state.subscribers) {
+        if (!res.writableEnded) res.write(`: heartbeat ${Date.now()}\n\n`);
+      }
+    }
+  }, STREAM_HEARTBEAT_MS);
+  heartbeat.unref();
+
+  server.addHook("onClose", async () => {
+    clearInterval(heartbeat);
+    for (const state of streams.values()) {
+      for (const res of state.subscribers) res.end();
+      state.subscribers.clear();
+    }
+  });
+
+  /**
+   * GET /stream/zones/:zoneId — SSE stream of per-tick zone deltas.
+   * Query: since=<epoch>:<seq> to resume (falls back to the Last-Event-ID header).
+   * Events: `snapshot` (full state), `delta` (one ZoneStreamFrame per tick with changes).
+   */
+  server.get<{ Params: { zoneId: string }; Querystring: { since?: string } }>(
+    "/stream/zones/:zoneId",
+    async (request, reply) => {
+      const { zoneId } = request.params;
+      if (!configuredZoneIds.has(zoneId)) {
+        reply.code(404);
+        return { error: "Zone not found" };
+      }
+
+      const state = getOrCreateStream(zoneId);
+      if (state.subscribers.size >= MAX_SUBSCRIBERS_PER_ZONE) {
+        reply.code(503);
+        return { error: "Zone stream is at capacity; fall back to polling" };
+      }
+
+      const resume = parseResumeCursor(request.query.since, request.headers["last-event-id"]);
+      const res = openStream(reply, state, resume);
+      state.subscribers.add(res);
+      state.idleSince = null;
+
+      request.raw.on("close", () => {
+        state.subscribers.delete(res);
+        if (state.subscribers.size === 0) state.idleSince = Date.now();
+      });
+    }
+  );
+
+  /**
+   * GET /stream/zones/:zoneId/since/:cursor — plain JSON catch-up for clients
+   * that cannot hold an SSE connection open (bots polling at low frequency).
+   * The cursor is `<epoch>:<seq>` from the last snapshot or frame.
+   */
+  server.get<{ Params: { zoneId: string; cursor: string } }>(
+    "/stream/zones/:zoneId/since/:cursor",
+    async (request, reply) => {
+      const { zoneId } = request.params;
+      if (!configuredZoneIds.has(zoneId)) {
+        reply.code(404);
+        return { error: "Zone not found" };
+      }
+      const state = getOrCreateStream(zoneId);
+      if (state.subscribers.size === 0) state.idleSince = Date.now();
+      const since = parseResumeCursor(request.params.cursor, undefined);
+      const frames = since ? getFramesSince(state, since) : null;
+      if (!frames) {
+        return { resync: true, snapshot: buildSnapshot(state) };
+      }
+      return { resync: false, epoch: state.epoch, seq: state.seq, frames };
+    }
+  );
+
+  server.get("/stream/stats", async () => ({ tick: getWorldTick(), zones: getZoneStreamStats() }));
+}
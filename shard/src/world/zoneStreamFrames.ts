@@ -0,0 +1,213 @@
+/**
+ * Zone stream frame log — the diffing and resume bookkeeping behind
+ * zoneStream.ts, kept free of the live world so it can run in tests.
+ *
+ * Every log gets a random epoch when it is created. Sequence numbers only
+ * mean something within one epoch: a log recreated after going idle, or
+ * after a server restart, starts again at seq 0. Resume cursors therefore
+ * carry both, as `<epoch>:<seq>`, and a cursor from another epoch always
+ * resyncs from a snapshot.
+ */
+
+import { randomBytes } from "node:crypto";
+import type { Entity, VisibleIntent } from "./zoneRuntime.js";
+import type { ZoneEvent } from "./zoneEvents.js";
+
+/** Node types whose hp/position are not meaningful — never emit move/hp deltas for them. */
+const STATIC_NODE_TYPES = new Set(["ore-node", "flower-node", "nectar-node", "crop-node"]);
+
+export type EntityDelta =
+  | { kind: "spawn"; id: string; entity: Record<string, unknown> }
+  | { kind: "move"; id: string; x: number; y: number; isRunning?: boolean }
+  | { kind: "hp"; id: string; hp: number; maxHp: number; essence?: number; maxEssence?: number }
+  | { kind: "effects"; id: string; activeEffects: unknown[] }
+  | { kind: "despawn"; id: string };
+
+export interface ZoneStreamFrame {
+  epoch: string;
+  seq: number;
+  zoneId: string;
+  tick: number;
+  entities: EntityDelta[];
+  intents: { upserted: VisibleIntent[]; removed: string[] };
+  events: ZoneEvent[];
+}
+
+export interface EntityDigest {
+  x: number;
+  y: number;
+  hp: number;
+  maxHp: number;
+  essence?: number;
+  maxEssence?: number;
+  effectsKey: string;
+}
+
+export interface ZoneStreamLog {
+  zoneId: string;
+  epoch: string;
+  seq: number;
+  frames: ZoneStreamFrame[];
+  digests: Map<string, EntityDigest>;
+  intents: Map<string, string>;
+}
+
+export interface ZoneStreamCursor {
+  epoch: string;
+  seq: number;
+}
+
+export function createZoneStreamLog(zoneId: string): ZoneStreamLog {
+  return {
+    zoneId,
+    epoch: randomBytes(6).toString("hex"),
+    seq: 0,
+    frames: [],
+    digests: new Map(),
+    intents: new Map(),
+  };
+}
+
+function effectsKey(entity: Entity): string {
+  if (!entity.activeEffects || entity.activeEffects.length === 0) return "";
+  return entity.activeEffects
+    .map((e) => `${e.id}:${e.remainingTicks}:${e.shieldHp ?? ""}`)
+    .join("|");
+}
+
+export function digestEntity(entity: Entity): EntityDigest {
+  return {
+    x: entity.x,
+    y: entity.y,
+    hp: entity.hp,
+    maxHp: entity.maxHp,
+    essence: entity.essence,
+    maxEssence: entity.maxEssence,
+    effectsKey: effectsKey(entity),
+  };
+}
+
+/**
+ * Deltas since the last call, updating the log's digests. Spawned entities
+ * are sent whole, serialized with `serialize`.
+ */
+export function diffEntities(
+  log: ZoneStreamLog,
+  entities: Iterable<Entity>,
+  serialize: (entity: Entity) => Record<string, unknown>,
+): EntityDelta[] {
+  const deltas: EntityDelta[] = [];
+  const seen = new Set<string>();
+
+  for (const entity of entities) {
+    seen.add(entity.id);
+    const prev = log.digests.get(entity.id);
+    const next = digestEntity(entity);
+    log.digests.set(entity.id, next);
+
+    if (!prev) {
+      deltas.push({ kind: "spawn", id: entity.id, entity: serialize(entity) });
+      continue;
+    }
+    if (STATIC_NODE_TYPES.has(entity.type)) continue;
+
+    if (prev.x !== next.x || prev.y !== next.y) {
+      deltas.push({
+        kind: "move",
+        id: entity.id,
+        x: next.x,
+        y: next.y,
+        ...(entity.isRunning != null && { isRunning: entity.isRunning }),
+      });
+    }
+    if (
+      prev.hp !== next.hp ||
+      prev.maxHp !== next.maxHp ||
+      prev.essence !== next.essence ||
+      prev.maxEssence !== next.maxEssence
+    ) {
+      deltas.push({
+        kind: "hp",
+        id: entity.id,
+        hp: next.hp,
+        maxHp: next.maxHp,
+        ...(next.essence != null && { essence: next.essence }),
+        ...(next.maxEssence != null && { maxEssence: next.maxEssence }),
+      });
+    }
+    if (prev.effectsKey !== next.effectsKey) {
+      deltas.push({ kind: "effects", id: entity.id, activeEffects: entity.activeEffects ?? [] });
+    }
+  }
+
+  for (const id of log.digests.keys()) {
+    if (!seen.has(id)) {
+      log.digests.delete(id);
+      deltas.push({ kind: "despawn", id });
+    }
+  }
+
+  return deltas;
+}
+
+export function diffIntents(log: ZoneStreamLog, intents: VisibleIntent[]): ZoneStreamFrame["intents"] {
+  const upserted: VisibleIntent[] = [];
+  const removed: string[] = [];
+  const seen = new Set<string>();
+
+  for (const intent of intents) {
+    seen.add(intent.id);
+    const serialized = JSON.stringify(intent);
+    if (log.intents.get(intent.id) !== serialized) {
+      log.intents.set(intent.id, serialized);
+      upserted.push(intent);
+    }
+  }
+  for (const id of log.intents.keys()) {
+    if (!seen.has(id)) {
+      log.intents.delete(id);
+      removed.push(id);
+    }
+  }
+
+  return { upserted, removed };
+}
+
+/** Number the frame in the log's epoch and buffer it, evicting beyond `bufferFrames`. */
+export function appendZoneStreamFrame(
+  log: ZoneStreamLog,
+  frame: Omit<ZoneStreamFrame, "epoch" | "seq" | "zoneId">,
+  bufferFrames: number,
+): ZoneStreamFrame {
+  const numbered: ZoneStreamFrame = { epoch: log.epoch, seq: ++log.seq, zoneId: log.zoneId, ...frame };
+  log.frames.push(numbered);
+  if (log.frames.length > bufferFrames) {
+    log.frames.splice(0, log.frames.length - bufferFrames);
+  }
+  return numbered;
+}
+
+/**
+ * Frames after `since`, or null when the client must resync from a snapshot
+ * (cursor from another epoch, ahead of the log, or already evicted).
+ */
+export function getFramesSince(log: ZoneStreamLog, since: ZoneStreamCursor): ZoneStreamFrame[] | null {
+  if (since.epoch !== log.epoch || since.seq > log.seq) return null;
+  if (since.seq === log.seq) return [];
+  const oldest = log.frames[0];
+  if (!oldest || oldest.seq > since.seq + 1) return null;
+  return log.frames.filter((frame) => frame.seq > since.seq);
+}
+
+export function formatZoneStreamCursor(log: Pick<ZoneStreamLog, "epoch" | "seq">): string {
+  return `${log.epoch}:${log.seq}`;
+}
+
+/** Parse an `<epoch>:<seq>` cursor; a bare seq has no epoch to check and is rejected. */
+export function parseZoneStreamCursor(raw: string | undefined): ZoneStreamCursor | null {
+  if (raw == null) return null;
+  const match = /^([0-9a-f]+):(\d+)$/i.exec(raw.trim());
+  if (!match) return null;
+  const seq = Number.parseInt(match[2], 10);
+  return Number.isSafeInteger(seq) ? { epoch: match[1].toLowerCase(), seq } : null;
+}
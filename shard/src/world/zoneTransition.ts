@@ -2,7 +2,9 @@ import type { FastifyInstance } from "fastify";
 
 /**
  * Zone transition routes — DEPRECATED.
- * Entities now move freely in the unified world. Region labels update automatically.
+ * Entities now move freely in the unified world. Region labels update automatically,
+ * and with zone sharding on a player crossing into another worker's zone is handed
+ * off by zoneShardService, so there is no portal step to shard either.
  * These stubs return 410 Gone so agents stop calling them.
  */
 export function registerZoneTransitionRoutes(server: FastifyInstance) {
@@ -0,0 +1,109 @@
+/**
+ * Achievement claims — sign → hash → recover → verify, one claim per tag, awaiting-owner index
+ * Run with: npx tsx tests/achievementClaims.test.ts
+ */
+
+import { ethers } from "ethers";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+// The store falls back to memory only when allowed; redis.ts reads this at import
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+process.env.REDIS_ALLOW_MEMORY_FALLBACK = "true";
+
+const store = await import("../src/erc8004/achievementClaimStore.js");
+
+const serverWallet = ethers.Wallet.createRandom();
+const otherWallet = ethers.Wallet.createRandom();
+const context = {
+  chainId: 1187947933,
+  identityRegistry: "0x0000000000000000000000000000000000008004",
+  validationRegistry: null,
+  validator: serverWallet.address,
+};
+const character = { name: "Aria", walletAddress: "0xabc", raceId: "human", classId: "mage", level: 20 };
+
+section("Sign → hash → recover → verify");
+{
+  const record = store.buildAchievementClaim("42", { kind: "level", level: 20 }, character, context, serverWallet, 1_700_000_000_000);
+  const document = JSON.parse(record.document);
+
+  assert(record.claim === "wog:level:20", "claim carries the registry tag");
+  assert(document.type === "wog-achievement-claim" && document.agentId === "42", "document names the claim and agent");
+  assert(document.validator === serverWallet.address && document.chainId === context.chainId, "document commits to the validator and chain");
+  assert(record.requestHash === ethers.keccak256(ethers.toUtf8Bytes(record.document)), "requestHash is keccak256 of the document");
+  assert(
+    ethers.verifyMessage(ethers.getBytes(record.requestHash), record.signature) === serverWallet.address,
+    "signature is EIP-191 over the request hash bytes"
+  );
+
+  const check = store.checkAchievementClaimSignature(record, serverWallet.address);
+  assert(check.hashMatches && check.signatureValid && check.signer === serverWallet.address, "a genuine claim verifies", check);
+  assert(
+    store.checkAchievementClaimSignature(record, serverWallet.address.toLowerCase()).signatureValid,
+    "validator addresses compare case-insensitively"
+  );
+  assert(!store.checkAchievementClaimSignature(record, otherWallet.address).signatureValid, "another validator is rejected");
+  assert(!store.checkAchievementClaimSignature(record, null).signatureValid, "no configured validator never verifies");
+
+  const edited = { ...record, document: record.document.replace('"level":20', '"level":60') };
+  assert(!store.checkAchievementClaimSignature(edited, serverWallet.address).hashMatches, "an edited document no longer matches its hash");
+
+  const forged = { ...record, signature: otherWallet.signMessageSync(ethers.getBytes(record.requestHash)) };
+  const forgedCheck = store.checkAchievementClaimSignature(forged, serverWallet.address);
+  assert(forgedCheck.signer === otherWallet.address && !forgedCheck.signatureValid, "a signature by another key recovers to that key");
+
+  const garbled = store.checkAchievementClaimSignature({ ...record, signature: "0x1234" }, serverWallet.address);
+  assert(garbled.signer === null && !garbled.signatureValid, "an unparseable signature recovers no signer");
+}
+
+section("One claim per tag");
+{
+  const first = await store.createAchievementClaim("7", { kind: "dungeon-clear", gateRank: "B" }, character, context, serverWallet);
+  assert(first !== null && first.status === "signed", "the first claim for a tag is signed and stored");
+  assert((await store.getAchievementClaim(first!.requestHash.toUpperCase().replace("0X", "0x")))?.claim === "wog:dungeon-clear:B", "claims are found by request hash in any case");
+
+  const again = await store.createAchievementClaim("7", { kind: "dungeon-clear", gateRank: "B" }, character, context, serverWallet);
+  assert(again === null, "a second claim with the same tag is refused");
+
+  const otherTag = await store.createAchievementClaim("7", { kind: "dungeon-clear", gateRank: "A" }, character, context, serverWallet);
+  const otherAgent = await store.createAchievementClaim("8", { kind: "dungeon-clear", gateRank: "B" }, character, context, serverWallet);
+  assert(otherTag !== null && otherAgent !== null, "other tags and other agents still get claims");
+
+  const listed = await store.listAchievementClaims("7");
+  assert(listed.length === 2 && listed.every((record) => record.agentId === "7"), "agent listing holds one record per tag", listed.map((r) => r.claim));
+}
+
+section("Awaiting-owner index");
+{
+  const record = await store.createAchievementClaim("9", { kind: "identity-tag", tag: "wog:a2a-enabled" }, null, context, serverWallet);
+  await store.patchAchievementClaim(record!.requestHash, { status: "awaiting_owner" });
+  const waiting = await store.listAwaitingOwnerClaims();
+  assert(waiting.length === 1 && waiting[0].requestHash === record!.requestHash, "awaiting_owner claims are indexed for the worker");
+
+  await store.patchAchievementClaim(record!.requestHash, { status: "queued" });
+  assert((await store.listAwaitingOwnerClaims()).length === 0, "re-queued claims leave the index");
+  assert((await store.getAchievementClaim(record!.requestHash))?.status === "queued", "status patches update the record");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,132 @@
+/**
+ * Agent Supervisor — offline decision tests
+ * Run with: npx tsx tests/agentSupervisorScripted.test.ts
+ *
+ * Drives runSupervisor() with the deterministic scripted LLM provider so
+ * supervisor decisions can be checked without Gemini or any network access.
+ */
+
+import { runSupervisor, type SupervisorContext } from "../src/agents/agentSupervisor.js";
+import { createScriptedLlmProvider } from "../src/agents/llmScriptedProvider.js";
+import { getLlmProvider, registerLlmProvider, resolveLlmProvider } from "../src/agents/llmProvider.js";
+import type { TriggerEvent } from "../src/types/botScriptTypes.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function buildContext(llm: SupervisorContext["llm"], overrides: Partial<SupervisorContext> = {}): SupervisorContext {
+  return {
+    entity: {
+      name: "Testy",
+      level: 4,
+      hp: 80,
+      maxHp: 100,
+      x: 0,
+      y: 0,
+      raceId: "human",
+      classId: "warrior",
+      equipment: { weapon: { tokenId: 1, name: "Rusty Sword" } },
+    },
+    entities: {
+      "mob-1": { type: "mob", name: "Giant Rat", level: 3, hp: 30, maxHp: 30, x: 40, y: 0 },
+      "mob-2": { type: "mob", name: "Wolf", level: 5, hp: 60, maxHp: 60, x: 200, y: 0 },
+    },
+    entityId: "self",
+    currentRegion: "village-square",
+    custodialWallet: "0x0000000000000000000000000000000000000001",
+    currentScript: null,
+    recentActivities: [],
+    recentZoneEvents: [],
+    recentFailures: [],
+    userDirective: "Play well",
+    apiCall: async () => ({}),
+    walletGoldCopper: 250,
+    llm,
+    ...overrides,
+  };
+}
+
+const levelUp: TriggerEvent = { type: "level_up", detail: "Reached level 4" } as TriggerEvent;
+
+section("Direct set_script");
+{
+  const llm = createScriptedLlmProvider({
+    steps: [{ toolCalls: [{ name: "set_script", args: { type: "quest", reason: "New level — grab quests" } }] }],
+  });
+  const script = await runSupervisor(levelUp, buildContext(llm));
+  assert(script.type === "quest", "returns the scripted set_script decision", script);
+  assert(llm.calls.length === 1, "makes exactly one LLM call", llm.calls.length);
+  assert(
+    (llm.calls[0]?.tools ?? []).some((tool) => tool.name === "set_script"),
+    "offers set_script to the model"
+  );
+}
+
+section("Read tool then decide");
+{
+  const llm = createScriptedLlmProvider({
+    steps: [
+      { toolCalls: [{ name: "read_zone" }] },
+      (request) => {
+        const last = request.messages[request.messages.length - 1];
+        const zone = last?.role === "tool" ? (last.results[0]?.response as any) : null;
+        const nearest = zone?.mobs?.[0]?.name ?? "none";
+        return {
+          toolCalls: [{ name: "set_script", args: { type: "combat", maxLevelOffset: 1, reason: `Hunt ${nearest}` } }],
+        };
+      },
+    ],
+  });
+  const script = await runSupervisor(levelUp, buildContext(llm));
+  assert(llm.calls.length === 2, "feeds the read_zone result back for a second turn", llm.calls.length);
+  assert(script.type === "combat", "chooses combat after reading the zone", script);
+  assert(script.reason === "Hunt Giant Rat", "sees the nearest mob from the legacy read tool", script.reason);
+}
+
+section("Fallbacks");
+{
+  const silent = createScriptedLlmProvider({ steps: [{ text: "hmm" }] });
+  const script = await runSupervisor(levelUp, buildContext(silent));
+  assert(script.type === "combat", "falls back to defaultScript when no set_script is called", script);
+
+  const broken = createScriptedLlmProvider({ steps: [{ error: "provider down" }] });
+  const unarmed = await runSupervisor(levelUp, buildContext(broken, {
+    entity: { name: "Broke", level: 1, hp: 10, maxHp: 10, equipment: {} },
+    walletGoldCopper: 0,
+  }));
+  assert(unarmed.type === "combat" && unarmed.maxLevelOffset === 0, "provider errors fall back to unarmed combat", unarmed);
+}
+
+section("Provider resolution");
+{
+  const custom = createScriptedLlmProvider({ id: "test-local" });
+  registerLlmProvider(custom);
+  assert(resolveLlmProvider({ providerId: "test-local" }) === custom, "agent config override picks a registered provider");
+
+  process.env.AGENT_LLM_PROVIDER_SELF_HOSTED = "test-local";
+  assert(resolveLlmProvider({ tier: "self-hosted" }) === custom, "per-tier env selects the provider");
+  delete process.env.AGENT_LLM_PROVIDER_SELF_HOSTED;
+
+  assert(resolveLlmProvider({ providerId: "does-not-exist" }).id === "gemini", "unknown IDs fall back to gemini");
+  assert(getLlmProvider("scripted") === undefined, "the scripted provider is not selectable without AGENT_LLM_SCRIPTED_PROVIDER");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
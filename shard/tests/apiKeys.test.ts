@@ -0,0 +1,100 @@
+/**
+ * API keys — route scopes, key material, input validation, rate limits
+ * Run with: npx tsx tests/apiKeys.test.ts
+ */
+
+import {
+  apiKeyHashMatches,
+  consumeApiKeyRate,
+  generateApiKey,
+  getRequiredScope,
+  isApiKeyToken,
+  parseApiKeyId,
+  scopesAllow,
+  validateApiKeyInput,
+} from "../src/auth/apiKeys.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+section("Route scopes");
+{
+  assert(getRequiredScope("GET", "/inventory/:walletAddress") === "read", "reads need read");
+  assert(getRequiredScope("POST", "/shop/sell") === "trade", "selling needs trade");
+  assert(getRequiredScope("POST", "/guild/:guildId/vault/withdraw") === "trade", "vault moves need trade");
+  assert(getRequiredScope("POST", "/guild/create") === "trade", "guild creation spends gold, so needs trade");
+  assert(getRequiredScope("POST", "/guild/:guildId/propose") === "trade", "treasury proposals need trade");
+  assert(getRequiredScope("POST", "/guild/:guildId/vote") === "trade", "votes that execute withdrawals need trade");
+  assert(getRequiredScope("PUT", "/guild/:guildId/ranks") === "trade", "rank edits can grant vault rights, so need trade");
+  assert(getRequiredScope("POST", "/guild/:guildId/members/rank") === "trade", "rank assignments can grant vault rights, so need trade");
+  assert(getRequiredScope("PUT", "/guild/:guildId/motd") === "combat", "other guild settings stay gameplay");
+  assert(getRequiredScope("POST", "/guild/:guildId/join") === "combat", "other guild actions are gameplay");
+  assert(getRequiredScope("POST", "/api/prediction/bet") === "trade", "bets need trade");
+  assert(getRequiredScope("POST", "/command") === "combat", "commands need combat");
+  assert(getRequiredScope("PATCH", "/agent/config") === "agent_config", "agent config needs agent_config");
+  assert(getRequiredScope("POST", "/auth/refresh") === "admin", "keys can't mint wallet tokens without admin");
+  assert(getRequiredScope("GET", "/auth/keys") === "admin", "listing keys needs admin");
+  assert(getRequiredScope("POST", "/brand-new-route") === "admin", "unclassified writes fail closed");
+  assert(getRequiredScope("POST", "/shopping") === "admin", "prefixes match whole segments");
+
+  assert(scopesAllow(["read"], "read") && !scopesAllow(["read"], "combat"), "read keys only read");
+  assert(scopesAllow(["combat"], "read"), "every scope can read");
+  assert(!scopesAllow(["combat", "agent_config"], "trade"), "trade must be granted explicitly");
+  assert(scopesAllow(["admin"], "trade"), "admin grants everything");
+}
+
+section("Key material");
+{
+  const { keyId, key, keyHash } = generateApiKey();
+  assert(isApiKeyToken(key) && !isApiKeyToken("eyJhbGciOi.x.y"), "keys are told apart from JWTs");
+  assert(parseApiKeyId(key) === keyId, "the key id is embedded in the key", { key, keyId });
+  assert(parseApiKeyId("wog_nothex_short") === null, "malformed keys don't parse");
+  assert(apiKeyHashMatches(key, keyHash), "the stored hash matches the key");
+  assert(!apiKeyHashMatches(`${key.slice(0, -1)}x`, keyHash), "a tampered key does not match");
+  assert(!keyHash.includes(key.slice(17)), "the hash does not contain the secret");
+}
+
+section("Input validation");
+{
+  const now = Date.parse("2026-01-01T00:00:00Z");
+  const ok = validateApiKeyInput({ name: " dashboard ", scopes: ["read", "read"], rateLimitPerMinute: 60, expiresInDays: 30 }, now);
+  assert(ok.valid && ok.name === "dashboard" && ok.scopes.length === 1, "names are trimmed and scopes deduped", ok);
+  assert(ok.valid && ok.expiresAt === now + 30 * 24 * 60 * 60 * 1000, "expiresInDays sets the expiry");
+  assert(!validateApiKeyInput({ name: "x", scopes: [] }, now).valid, "scopes are required");
+  assert(!validateApiKeyInput({ name: "x", scopes: ["sell-everything"] }, now).valid, "unknown scopes are rejected");
+  assert(!validateApiKeyInput({ name: "x", scopes: ["read"], rateLimitPerMinute: 0 }, now).valid, "rate limits are positive");
+  assert(!validateApiKeyInput({ name: "x", scopes: ["read"], expiresAt: "2025-01-01T00:00:00Z" }, now).valid,
+    "expiry must be in the future");
+  const forever = validateApiKeyInput({ name: "x", scopes: ["read"] }, now);
+  assert(forever.valid && forever.expiresAt === null && forever.rateLimitPerMinute === null, "limits and expiry are optional");
+}
+
+section("Rate limits");
+{
+  const t = 1_000_000;
+  assert(consumeApiKeyRate("k1", 2, t).allowed && consumeApiKeyRate("k1", 2, t + 1).allowed, "requests under the limit pass");
+  const blocked = consumeApiKeyRate("k1", 2, t + 10_000);
+  assert(!blocked.allowed && blocked.retryAfterSec === 50, "the next request waits for the window", blocked);
+  assert(consumeApiKeyRate("k1", 2, t + 60_000).allowed, "a new window resets the count");
+  assert(consumeApiKeyRate("k2", null, t).allowed, "keys without a limit are never throttled");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,82 @@
+/**
+ * Boss add rewards — adds a boss summons die without loot, gold or a corpse
+ * Run with: npx tsx tests/bossAddRewards.test.ts
+ */
+
+process.env.JWT_SECRET ??= "boss-add-rewards-test";
+process.env.ENCRYPTION_KEY ??= "boss-add-rewards-test";
+process.env.SHARD_CHAIN_ENV = "local";
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+delete process.env.DATABASE_URL;
+process.env.REDIS_ALLOW_MEMORY_FALLBACK = "true";
+
+await import("../src/config/devLocalContracts.js");
+
+const { getOrCreateZone, handleMobDeath } = await import("../src/world/zoneRuntime.js");
+const { getChainBatcherStats } = await import("../src/blockchain/chainBatcher.js");
+type Entity = import("../src/world/zoneRuntime.js").Entity;
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const zone = getOrCreateZone("wild-meadow");
+
+function makeWolf(id: string, patch: Partial<Entity> = {}): Entity {
+  const wolf: Entity = { id, type: "mob", name: "Hungry Wolf", x: 200, y: 200, hp: 0, maxHp: 40, level: 3, region: zone.zoneId, createdAt: Date.now(), ...patch };
+  zone.entities.set(wolf.id, wolf);
+  return wolf;
+}
+
+function makePlayer(id: string, walletAddress: string): Entity {
+  return { id, type: "player", name: id, x: 190, y: 200, hp: 100, maxHp: 100, level: 3, walletAddress, region: zone.zoneId, createdAt: Date.now() };
+}
+
+function corpses(): Entity[] {
+  return Array.from(zone.entities.values()).filter((entity) => entity.type === "corpse");
+}
+
+section("Summoned add");
+{
+  const before = getChainBatcherStats();
+  const add = makeWolf("add", { summonedBy: "boss-1" });
+  await handleMobDeath(add, makePlayer("raider", "0x00000000000000000000000000000000000000a1"), zone);
+  const after = getChainBatcherStats();
+
+  assert(!zone.entities.has(add.id), "the add is removed");
+  assert(after.pendingGoldWallets === before.pendingGoldWallets, "no gold is queued for the killer");
+  assert(after.pendingItemCount === before.pendingItemCount, "no item drops are queued");
+  assert(corpses().length === 0, "no corpse is left to skin");
+}
+
+section("Ordinary mob");
+{
+  const before = getChainBatcherStats();
+  const wolf = makeWolf("wolf");
+  await handleMobDeath(wolf, makePlayer("hunter", "0x00000000000000000000000000000000000000b2"), zone);
+  const after = getChainBatcherStats();
+
+  assert(!zone.entities.has(wolf.id), "the mob is removed");
+  assert(after.pendingGoldWallets === before.pendingGoldWallets + 1, "the killer is paid gold");
+  assert(corpses().length === 1, "a skinnable corpse is left");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,96 @@
+/**
+ * Boss scripts — content validation, phases, windups, enrage
+ * Run with: npx tsx tests/bossScripts.test.ts
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import {
+  createBossEncounter,
+  getBossScript,
+  stepBossEncounter,
+  validateBossScript,
+  type BossScript,
+} from "../src/world/bossScripts.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const SCRIPT: BossScript = {
+  id: "test-boss",
+  enrage: { afterTicks: 50, damageMultiplier: 2 },
+  phases: [
+    { id: "one", name: "One", hpBelowPct: 100, abilities: [
+      { id: "slam", name: "Slam", cooldownTicks: 5, windupTicks: 2, initialDelayTicks: 1, target: "self", radius: 30, damagePct: 20 },
+    ] },
+    { id: "two", name: "Two", hpBelowPct: 50, onEnter: { adds: { name: "Imp", count: 2, hpPct: 5 } }, abilities: [
+      { id: "bolt", name: "Bolt", cooldownTicks: 3, target: "random", damagePct: 10 },
+    ] },
+  ],
+};
+
+section("Validation");
+{
+  assert(validateBossScript(SCRIPT).valid, "a well-formed script validates");
+  assert(!validateBossScript({ ...SCRIPT, phases: [] }).valid, "scripts need phases");
+  assert(!validateBossScript({ ...SCRIPT, phases: [SCRIPT.phases[1]] }).valid, "first phase must start at 100%");
+  assert(!validateBossScript({ ...SCRIPT, phases: [SCRIPT.phases[0], { ...SCRIPT.phases[1], hpBelowPct: 100 }] }).valid,
+    "phase thresholds must descend");
+  const noEffect = { ...SCRIPT.phases[0], abilities: [{ id: "x", name: "X", cooldownTicks: 5, target: "self" }] };
+  assert(!validateBossScript({ ...SCRIPT, phases: [noEffect] }).valid, "abilities must do something");
+
+  const dir = path.join(process.cwd(), "..", "world", "content", "bosses");
+  for (const entry of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    const script = JSON.parse(fs.readFileSync(path.join(dir, entry), "utf-8"));
+    const check = validateBossScript(script);
+    assert(check.valid && `${script.id}.json` === entry, `content ${entry} is valid`, check.error);
+    assert(getBossScript(script.id) !== undefined, `content ${entry} is loaded`);
+  }
+}
+
+section("Encounter");
+{
+  const state = createBossEncounter(SCRIPT, 100);
+  assert(stepBossEncounter(state, SCRIPT, 100, 100).startAbility === undefined, "abilities wait for their initial delay");
+
+  const start = stepBossEncounter(state, SCRIPT, 100, 101);
+  assert(start.startAbility?.id === "slam", "ability starts once ready", start);
+  state.cast = { abilityId: "slam", abilityName: "Slam", targetId: "b", x: 0, y: 0, radius: 30,
+    startedAtTick: 101, resolveAtTick: 103, interruptible: false };
+
+  assert(stepBossEncounter(state, SCRIPT, 100, 102).resolvedCast === undefined, "windup holds until its resolve tick");
+  assert(stepBossEncounter(state, SCRIPT, 100, 103).resolvedCast?.abilityId === "slam", "windup resolves on time");
+
+  const phase = stepBossEncounter(state, SCRIPT, 40, 104);
+  assert(phase.enteredPhase?.id === "two" && state.phaseIndex === 1, "dropping below the threshold enters the next phase");
+  assert(stepBossEncounter(state, SCRIPT, 90, 105).enteredPhase === undefined && state.phaseIndex === 1,
+    "healing the boss does not undo a phase");
+
+  state.hazards.push({ id: "h", name: "Fire", x: 0, y: 0, radius: 10, damagePctPerTick: 5, untilTick: 108 });
+  stepBossEncounter(state, SCRIPT, 40, 108);
+  assert(state.hazards.length === 0, "hazards expire");
+
+  assert(!state.enraged, "not enraged before the timer");
+  assert(stepBossEncounter(state, SCRIPT, 40, 150).enrageStarted && state.enraged, "enrage fires once the timer runs out");
+  assert(!stepBossEncounter(state, SCRIPT, 40, 151).enrageStarted, "enrage fires only once");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,161 @@
+/**
+ * Crafting jobs — batch quantities, escrow refunds, active job selection, station range
+ * Run with: npx tsx tests/craftingJobs.test.ts
+ */
+
+import {
+  MAX_BATCH_QUANTITY,
+  batchMaterials,
+  getActiveJob,
+  getUnspentEscrow,
+  isAtStation,
+  isJobDone,
+  parseCraftingQueue,
+  toPublicJob,
+  validateBatchQuantity,
+  type CraftingJob,
+} from "../src/professions/craftingJobs.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const STATION = { id: "forge-1", name: "Forge", zoneId: "village-square", x: 100, y: 100 };
+
+function job(overrides: Partial<CraftingJob> = {}): CraftingJob {
+  return {
+    jobId: "job-1",
+    profession: "blacksmithing",
+    recipeId: "iron-sword",
+    quantity: 5,
+    succeeded: 0,
+    failed: 0,
+    progressTicks: 0,
+    craftingTime: 10,
+    paused: false,
+    station: STATION,
+    goldPerCraft: 0.5,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+const MATERIALS = [
+  { tokenId: 22n, quantity: 2 },
+  { tokenId: 23n, quantity: 1 },
+  { tokenId: 22n, quantity: 1 },
+];
+
+// ── Quantity ────────────────────────────────────────────────────────
+
+section("validateBatchQuantity");
+
+{
+  const missing = validateBatchQuantity(undefined);
+  assert(missing.valid && missing.quantity === 1, "defaults to a single craft");
+  const five = validateBatchQuantity(5);
+  assert(five.valid && five.quantity === 5, "accepts a batch");
+  assert(!validateBatchQuantity(0).valid, "rejects zero");
+  assert(!validateBatchQuantity(2.5).valid, "rejects fractions");
+  assert(!validateBatchQuantity(MAX_BATCH_QUANTITY + 1).valid, "rejects batches over the cap");
+}
+
+// ── Escrow ──────────────────────────────────────────────────────────
+
+section("batchMaterials / getUnspentEscrow");
+
+{
+  const batch = batchMaterials(MATERIALS, 4);
+  const iron = batch.find((m) => m.tokenId === 22n);
+  const coal = batch.find((m) => m.tokenId === 23n);
+  assert(batch.length === 2, "merges repeated tokens");
+  assert(iron?.quantity === 12 && coal?.quantity === 4, "multiplies per-craft materials by the batch size", batch);
+  assert(batchMaterials(MATERIALS, 0).length === 0, "nothing for zero crafts");
+}
+
+{
+  const untouched = getUnspentEscrow(job(), MATERIALS);
+  assert(untouched.gold === 2.5, "holds gold for every craft while untouched");
+  const partway = getUnspentEscrow(job({ succeeded: 2, failed: 1 }), MATERIALS);
+  assert(partway.gold === 1.5, "failed crafts keep their gold in escrow");
+  assert(partway.items.find((m) => m.tokenId === 22n)?.quantity === 9, "failed crafts keep their materials in escrow");
+  const done = getUnspentEscrow(job({ succeeded: 5 }), MATERIALS);
+  assert(done.gold === 0 && done.items.length === 0, "nothing left once every craft succeeded");
+  const free = getUnspentEscrow(job({ goldPerCraft: 0 }), MATERIALS);
+  assert(free.gold === 0, "no gold for professions that don't charge copper");
+}
+
+{
+  // Recorded escrow wins over the recipe: a recipe change (or a short burn)
+  // must never refund more than the job took.
+  const escrowed = job({ escrowedMaterials: [{ tokenId: "22", quantity: 5 }] });
+  const untouched = getUnspentEscrow(escrowed, MATERIALS);
+  assert(untouched.items.length === 1 && untouched.items[0].quantity === 5, "refunds exactly what was escrowed", untouched.items);
+  const partway = getUnspentEscrow({ ...escrowed, succeeded: 2 }, MATERIALS);
+  assert(partway.items[0]?.quantity === 3, "refunds the escrow share of crafts not yet made", partway.items);
+  const none = getUnspentEscrow(job({ escrowedMaterials: [] }), MATERIALS);
+  assert(none.items.length === 0, "nothing escrowed, nothing refunded");
+}
+
+// ── Progress ────────────────────────────────────────────────────────
+
+section("getActiveJob / isJobDone");
+
+{
+  assert(getActiveJob(undefined) === undefined, "no queue, no job");
+  const queue = [job({ jobId: "a", paused: true }), job({ jobId: "b" }), job({ jobId: "c" })];
+  assert(getActiveJob(queue)?.jobId === "b", "skips paused jobs, oldest first");
+  assert(getActiveJob([job({ paused: true })]) === undefined, "everything paused");
+  assert(isJobDone(job({ succeeded: 3, failed: 2 })), "done once successes and failures cover the batch");
+  assert(!isJobDone(job({ succeeded: 3, failed: 1 })), "not done with crafts remaining");
+}
+
+section("isAtStation");
+
+assert(isAtStation({ x: 150, y: 100, region: "village-square" }, STATION, 100), "inside range");
+assert(!isAtStation({ x: 250, y: 100, region: "village-square" }, STATION, 100), "out of range");
+assert(!isAtStation({ x: 100, y: 100, region: "wild-meadow" }, STATION, 100), "same spot in another zone");
+
+section("toPublicJob");
+
+{
+  const view = toPublicJob(job({ succeeded: 1, failed: 1, progressTicks: 4 }), true);
+  assert(view.remaining === 3, "counts remaining crafts");
+  assert(view.currentCraftProgress === 0.4, "reports progress on the current craft");
+  assert(view.secondsRemaining === 26, "reports time left for the batch");
+  assert(!("goldPerCraft" in view) && !("x" in view.station), "hides escrow and station coordinates");
+}
+
+section("parseCraftingQueue");
+
+{
+  const parsed = parseCraftingQueue([job(), { jobId: "x", profession: "enchanting" }, null, "junk"]);
+  assert(parsed.length === 1 && parsed[0].jobId === "job-1", "keeps only queueable jobs");
+  assert(parsed[0].station.x === 100 && parsed[0].goldPerCraft === 0.5, "round-trips a saved job");
+  assert(parseCraftingQueue({}).length === 0, "non-arrays restore as empty");
+  const restored = parseCraftingQueue([job({ escrowedMaterials: [{ tokenId: "22", quantity: 15 }, { tokenId: "x", quantity: 1 }] })]);
+  assert(
+    restored[0].escrowedMaterials?.length === 1 && restored[0].escrowedMaterials[0].quantity === 15,
+    "recorded escrow survives a restore; malformed entries are dropped"
+  );
+  assert(parseCraftingQueue([job()])[0].escrowedMaterials === undefined, "legacy jobs keep falling back to the recipe");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
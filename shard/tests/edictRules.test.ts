@@ -0,0 +1,147 @@
+/**
+ * Edict rule language — grouping, new subjects/fields/actions, validation
+ * Run with: npx tsx tests/edictRules.test.ts
+ *
+ * Builds a hand-made ZoneView so the evaluator runs without a zone tick.
+ */
+
+import { validateEdicts, type Edict, type EdictAction, type EdictConditionNode } from "../src/combat/edicts.js";
+import { evaluateEdicts, INTERRUPT_COOLDOWN_KEY } from "../src/combat/edictEvaluator.js";
+import { addEntityToParty } from "../src/social/partySystem.js";
+import type { Entity, VisibleIntent } from "../src/world/zoneRuntime.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function makeEntity(id: string, patch: Partial<Entity> = {}): Entity {
+  return { id, type: "player", name: id, x: 0, y: 0, hp: 100, maxHp: 100, ...patch } as Entity;
+}
+
+function edict(conditions: EdictConditionNode[], action: EdictAction = { type: "attack" }): Edict {
+  return { id: "e", name: "e", enabled: true, conditions, action };
+}
+
+function zoneOf(entities: Entity[], tick = 10, intents?: VisibleIntent[]) {
+  return { entities: new Map(entities.map((e) => [e.id, e])), tick, intents };
+}
+
+section("Validation");
+{
+  const grouped = edict([
+    { subject: "self", field: "hp_pct", operator: "lt", value: 50 },
+    { op: "or", conditions: [
+      { subject: "target", field: "type", operator: "is", value: "boss" },
+      { op: "not", conditions: [{ subject: "self", field: "time_of_day", operator: "is", value: "night" }] },
+    ] },
+  ]);
+  assert(validateEdicts([grouped]).valid, "nested and/or/not groups validate");
+
+  const tooMany = edict(Array.from({ length: 7 }, () => ({ subject: "self" as const, field: "always" as const, operator: "eq" as const, value: true })));
+  assert(!validateEdicts([tooMany]).valid, "leaf cap counts across groups");
+
+  let deep: EdictConditionNode = { subject: "self", field: "always", operator: "eq", value: true };
+  for (let i = 0; i < 4; i++) deep = { op: "and", conditions: [deep] };
+  assert(!validateEdicts([edict([deep])]).valid, "groups deeper than the limit are rejected");
+
+  assert(!validateEdicts([edict([{ op: "xor", conditions: [] } as unknown as EdictConditionNode])]).valid, "unknown group operator rejected");
+  assert(!validateEdicts([edict([{ subject: "self", field: "always", operator: "eq", value: true }], { type: "use_consumable" })]).valid,
+    "use_consumable requires a tokenId");
+}
+
+section("Grouping");
+{
+  const self = makeEntity("g-self", { hp: 30 });
+  const mob = makeEntity("g-mob", { type: "mob", x: 10 });
+  const zone = zoneOf([self, mob]);
+
+  const orMatch = evaluateEdicts(self, zone, [edict([{ op: "or", conditions: [
+    { subject: "self", field: "hp_pct", operator: "gt", value: 90 },
+    { subject: "target", field: "type", operator: "is", value: "mob" },
+  ] }])], mob);
+  assert(orMatch?.order?.targetId === mob.id, "OR passes when any child passes");
+
+  const notMatch = evaluateEdicts(self, zone, [edict([{ op: "not", conditions: [
+    { subject: "self", field: "hp_pct", operator: "lt", value: 50 },
+  ] }])], mob);
+  assert(notMatch === null, "NOT fails when its child passes");
+}
+
+section("Fields");
+{
+  const self = makeEntity("f-self", { level: 10, learnedTechniques: ["t-a"], cooldowns: new Map([["t-a", 20]]) });
+  const boss = makeEntity("f-boss", { type: "boss", level: 14, x: 60,
+    castingIntent: { targetId: "f-self", techniqueId: "t-boss", startedAtTick: 9, resolveAtTick: 11 } });
+  const zone = zoneOf([self, boss], 10);
+  const first = (conditions: EdictConditionNode[]) => evaluateEdicts(self, zone, [edict(conditions)], boss) !== null;
+
+  assert(!first([{ subject: "self", field: "cooldown_ready", operator: "is", value: "t-a" }]), "cooldown_ready false while on cooldown");
+  assert(evaluateEdicts(self, { ...zone, tick: 20 }, [edict([{ subject: "self", field: "cooldown_ready", operator: "is", value: "t-a" }])], boss) !== null,
+    "cooldown_ready true once expired");
+  assert(first([{ subject: "self", field: "cooldown_ready", operator: "is_not", value: "t-a" }]), "cooldown_ready is_not passes while on cooldown");
+  assert(!first([{ subject: "self", field: "cooldown_ready", operator: "gt", value: "t-a" }]), "ordering operators never pass on a boolean field");
+  assert(!first([{ subject: "self", field: "cooldown_ready", operator: "is", value: true }]), "a boolean value is compared, not ignored");
+  assert(first([{ subject: "self", field: "cooldown_ready", operator: "eq", value: false }]), "eq false matches a technique that isn't ready");
+  assert(!first([{ subject: "self", field: "cooldown_ready", operator: "is", value: "t-unlearned" }]), "unlearned techniques are never ready");
+  assert(first([{ subject: "target", field: "type", operator: "is_not", value: "mob" }]), "is_not on strings");
+  assert(first([{ subject: "target", field: "casting", operator: "is", value: "dangerous" }]), "boss windup reads as dangerous");
+  assert(first([{ subject: "target", field: "distance", operator: "gte", value: 60 }]), "distance to subject");
+  assert(first([{ subject: "target", field: "level_gap", operator: "eq", value: 4 }]), "level gap is subject minus self");
+  assert(first([{ subject: "attacker", field: "type", operator: "is", value: "boss" }]), "attacker resolves the caster targeting self");
+
+  self.activeEffects = [{ id: "x", techniqueId: "t", name: "Rot", type: "dot", casterId: "other", appliedAtTick: 0, durationTicks: 10, remainingTicks: 5 }];
+  assert(!first([{ subject: "self", field: "active_effect", operator: "has", value: "buff" }]), "active_effect honours the effect type");
+  assert(first([{ subject: "self", field: "buff_stacks", operator: "eq", value: 0 }]), "dots are not counted as buff stacks");
+}
+
+section("Party subjects and actions");
+{
+  const leader = makeEntity("p-leader", { x: 200 });
+  const tank = makeEntity("p-tank", { classId: "warrior", maxHp: 300, hp: 90, x: 195 });
+  const self = makeEntity("p-self", { classId: "cleric" });
+  const mob = makeEntity("p-mob", { type: "mob", x: 190, order: { action: "attack", targetId: "p-tank" } });
+  addEntityToParty(leader.id, tank.id, "test");
+  addEntityToParty(leader.id, self.id, "test");
+  const zone = zoneOf([leader, tank, self, mob]);
+
+  const tankLow = evaluateEdicts(self, zone, [edict([{ subject: "tank", field: "hp_pct", operator: "lt", value: 40 }])], mob);
+  assert(tankLow !== null, "tank resolves to the party warrior");
+
+  const swap = evaluateEdicts(self, zone, [edict([{ subject: "any_ally", field: "hp_pct", operator: "lt", value: 50 }], { type: "swap_to_ally_attacker" })], null);
+  assert(swap?.targetOverride?.id === mob.id, "swap_to_ally_attacker targets whatever hits the hurt ally");
+
+  const regroup = evaluateEdicts(self, zone, [edict([{ subject: "party_leader", field: "distance", operator: "gt", value: 100 }], { type: "move_to_party_anchor" })], null);
+  assert(regroup?.order?.action === "move" && regroup.order.x === 200, "move_to_party_anchor walks to the leader", regroup?.order);
+}
+
+section("Interrupt");
+{
+  const self = makeEntity("i-self");
+  const caster = makeEntity("i-caster", { type: "mob", x: 50,
+    castingIntent: { targetId: "someone", techniqueId: "t", startedAtTick: 9, resolveAtTick: 11 } });
+  const zone = zoneOf([self, caster]);
+  const rules = [edict([{ subject: "self", field: "always", operator: "eq", value: true }], { type: "interrupt" })];
+
+  assert(evaluateEdicts(self, zone, rules, null)?.interruptTargetId === caster.id, "interrupt finds a nearby caster");
+  self.cooldowns = new Map([[INTERRUPT_COOLDOWN_KEY, 30]]);
+  assert(evaluateEdicts(self, zone, rules, null) === null, "interrupt waits for its cooldown");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,83 @@
+/**
+ * Edict simulator — per-tick trace, skip reasons, scripted events
+ * Run with: npx tsx tests/edictSimulator.test.ts
+ */
+
+import type { Edict } from "../src/combat/edicts.js";
+import { simulateEdicts } from "../src/combat/edictSimulator.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const EDICTS: Edict[] = [
+  { id: "interrupt", name: "Interrupt boss", enabled: true,
+    conditions: [{ subject: "target", field: "casting", operator: "is", value: "dangerous" }],
+    action: { type: "interrupt" } },
+  { id: "cleave", name: "Cleave", enabled: true,
+    conditions: [{ subject: "self", field: "essence_pct", operator: "gte", value: 50 }],
+    action: { type: "use_technique", techniqueId: "warrior_cleave" } },
+  { id: "flee", name: "Flee when low", enabled: true,
+    conditions: [{ subject: "self", field: "hp_pct", operator: "lt", value: 10 }],
+    action: { type: "flee" } },
+  { id: "attack", name: "Attack", enabled: true,
+    conditions: [{ subject: "self", field: "always", operator: "eq", value: true }],
+    action: { type: "attack" } },
+];
+
+const SITUATION = {
+  self: { classId: "warrior", hp: 200, maxHp: 200, essence: 100, maxEssence: 100, learnedTechniques: ["warrior_cleave"] },
+  target: { type: "boss" as const, hp: 2000, maxHp: 2000, x: 30 },
+};
+
+section("Trace");
+{
+  const report = simulateEdicts(EDICTS, SITUATION, 3);
+  assert(report.ticks.length === 3, "one entry per simulated tick");
+
+  const [first, second] = report.ticks;
+  assert(first.fired?.edictId === "cleave", "first tick fires the first passing edict", first.fired);
+  assert(first.trace[0].outcome === "condition_failed" && first.trace[0].conditionPath === "conditions[0]",
+    "earlier edicts report the failing condition", first.trace[0]);
+  assert(first.trace[0].reason?.includes("target casting is none") === true, "reason shows the actual value", first.trace[0].reason);
+
+  assert(second.fired?.edictId === "attack", "cleave on cooldown falls through", second.fired);
+  const cleaveStep = second.trace.find((s) => s.edictId === "cleave");
+  assert(cleaveStep?.outcome === "action_unavailable" && /cooldown|essence/.test(cleaveStep.reason ?? ""),
+    "unavailable actions say why", cleaveStep);
+  assert(report.neverFired.some((e) => e.edictId === "flee"), "edicts that never fired are listed");
+}
+
+section("Scripted events");
+{
+  const report = simulateEdicts(EDICTS, SITUATION, 4, [
+    { atTick: 2, entityId: "target", casting: { techniqueId: "warrior_cleave", ticks: 2 } },
+  ]);
+  assert(report.ticks[2].fired?.edictId === "interrupt", "a scripted boss windup triggers the interrupt", report.ticks[2].fired);
+  assert(report.ticks[3].fired?.edictId !== "interrupt", "the interrupted cast is gone next tick", report.ticks[3].fired);
+}
+
+section("Fallback");
+{
+  const report = simulateEdicts([], SITUATION, 1);
+  assert(report.ticks[0].fired === null && report.ticks[0].trace.length === 0, "no edicts means the default AI takes over");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,121 @@
+/**
+ * Guild loan settlement — a return and the default tick racing on one loan settle its collateral once
+ * Run with: npx tsx tests/guildLoanSettlement.test.ts
+ */
+
+process.env.CHAIN_MODE = "memory";
+process.env.JWT_SECRET ??= "guild-loan-settlement-test";
+process.env.ENCRYPTION_KEY ??= "guild-loan-settlement-test";
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+delete process.env.DATABASE_URL;
+process.env.REDIS_ALLOW_MEMORY_FALLBACK = "true";
+
+await import("../src/config/devLocalContracts.js");
+
+const { getReservedGoldAsync, reserveGoldAsync } = await import("../src/blockchain/goldLedger.js");
+const { createGuildOnChain, getGuildFromChain } = await import("../src/economy/guildChain.js");
+const { createLoanRecord, defaultLoan, getLoanRecord, settleReturnedLoan, transitionLoanStatus } = await import(
+  "../src/economy/guildLoanService.js"
+);
+const { LOAN_DEFAULT_GRACE_MS, getLoanTickAction } = await import("../src/economy/guildLoans.js");
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COLLATERAL_GOLD = 25;
+const errors: string[] = [];
+const logger = {
+  warn: () => {},
+  error: (err: unknown, msg?: string) => void errors.push(`${msg ?? ""} ${String(err)}`),
+};
+
+const borrower = "0x00000000000000000000000000000000000b0a11";
+const lender = "0x000000000000000000000000000000000000ae4d";
+const { guildId } = await createGuildOnChain("Loan Sharks", "settlement test", borrower, 100, 50);
+
+async function overdueLoan(chainLoanId: number) {
+  const now = Date.now();
+  await reserveGoldAsync(borrower, COLLATERAL_GOLD);
+  return createLoanRecord({
+    guildId,
+    chainLoanId,
+    tokenId: 42,
+    quantity: 1,
+    borrower,
+    lender,
+    durationDays: 7,
+    collateral: { gold: COLLATERAL_GOLD, items: [] },
+    status: "active",
+    createdAt: now - 30 * DAY_MS,
+    lentAt: now - 30 * DAY_MS,
+    dueAt: now - LOAN_DEFAULT_GRACE_MS - DAY_MS,
+    reminderSentAt: null,
+    overdueNotifiedAt: null,
+    closedAt: null,
+  });
+}
+
+section("Return and default race");
+{
+  const treasuryBefore = (await getGuildFromChain(guildId)).treasury;
+  const loan = await overdueLoan(101);
+  assert(getLoanTickAction(loan, Date.now()) === "default", "the tick would default the loan");
+
+  const [settled, defaulted] = await Promise.all([settleReturnedLoan(101, logger), defaultLoan(loan, logger)]);
+  const final = await getLoanRecord(loan.id);
+  const treasuryAfter = (await getGuildFromChain(guildId)).treasury;
+
+  assert((settled !== null) !== defaulted, "exactly one of the return and the default settles the loan", { settled: settled !== null, defaulted });
+  assert(final?.status === (defaulted ? "defaulted" : "returned"), "the loan ends in the winner's status", final?.status);
+  assert((await getReservedGoldAsync(borrower)) === 0, "the collateral reservation is released once");
+  assert(
+    Number(treasuryAfter) - Number(treasuryBefore) === (defaulted ? COLLATERAL_GOLD : 0),
+    "the guild treasury gets the collateral only if the default won",
+    { treasuryBefore, treasuryAfter }
+  );
+  assert(errors.length === 0, "neither path logs an error", errors);
+}
+
+section("Return after a default");
+{
+  const loan = await overdueLoan(102);
+  assert(await defaultLoan(loan, logger), "the default settles first");
+  const treasury = (await getGuildFromChain(guildId)).treasury;
+  assert((await settleReturnedLoan(102, logger)) === null, "a late return finds nothing to settle");
+  assert((await getLoanRecord(loan.id))?.status === "defaulted", "the loan stays defaulted");
+  assert((await getGuildFromChain(guildId)).treasury === treasury, "the forfeited collateral is not forfeited again");
+  assert((await getReservedGoldAsync(borrower)) === 0, "no collateral is handed back to the borrower");
+}
+
+section("Partial forfeit");
+{
+  const loan = await overdueLoan(103);
+  // A forfeit that failed partway leaves the loan claimed as "defaulting"
+  await transitionLoanStatus(loan.id, "active", "defaulting");
+  assert(getLoanTickAction(loan, Date.now()) === null, "the tick skips a defaulting loan");
+  assert(!(await defaultLoan(loan, logger)), "a defaulting loan is not forfeited twice");
+  assert((await settleReturnedLoan(103, logger)) === null, "a defaulting loan can't be returned for its collateral");
+  assert((await getReservedGoldAsync(borrower)) === COLLATERAL_GOLD, "the escrowed collateral stays put for an operator");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
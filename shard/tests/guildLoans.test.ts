@@ -0,0 +1,119 @@
+/**
+ * Guild loans — collateral validation, loan tick actions, public loan view
+ * Run with: npx tsx tests/guildLoans.test.ts
+ */
+
+import {
+  LOAN_DEFAULT_GRACE_MS,
+  LOAN_OFFER_TTL_MS,
+  LOAN_REMINDER_LEAD_MS,
+  getLoanTickAction,
+  hasCollateral,
+  isLoanOverdue,
+  toPublicLoan,
+  validateLoanCollateral,
+  type GuildLoanRecord,
+} from "../src/economy/guildLoans.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const T0 = 1_700_000_000_000;
+
+function makeLoan(overrides: Partial<GuildLoanRecord> = {}): GuildLoanRecord {
+  return {
+    id: 1,
+    guildId: 7,
+    chainLoanId: 3,
+    tokenId: 42,
+    quantity: 1,
+    borrower: "0xborrower",
+    lender: "0xlender",
+    durationDays: 7,
+    collateral: { gold: 0, items: [] },
+    status: "active",
+    createdAt: T0,
+    lentAt: T0,
+    dueAt: T0 + 7 * DAY_MS,
+    reminderSentAt: null,
+    overdueNotifiedAt: null,
+    closedAt: null,
+    ...overrides,
+  };
+}
+
+section("Collateral validation");
+{
+  const none = validateLoanCollateral(undefined);
+  assert(none.valid && !hasCollateral(none.collateral), "missing collateral means none");
+
+  const merged = validateLoanCollateral({ gold: 50, items: [{ tokenId: 5, quantity: 1 }, { tokenId: 5, quantity: 2 }] });
+  assert(merged.valid && merged.collateral.items.length === 1 && merged.collateral.items[0].quantity === 3,
+    "duplicate stacks are merged", merged);
+  assert(merged.valid && hasCollateral(merged.collateral), "gold and items count as collateral");
+
+  assert(!validateLoanCollateral({ gold: -1 }).valid, "negative gold is rejected");
+  assert(!validateLoanCollateral({ items: [{ tokenId: 5, quantity: 0 }] }).valid, "empty stacks are rejected");
+  assert(!validateLoanCollateral({ items: [{ tokenId: "sword", quantity: 1 }] }).valid, "token ids must be numbers");
+  assert(!validateLoanCollateral({ items: "sword" }).valid, "items must be a list");
+  const tooMany = Array.from({ length: 6 }, (_, i) => ({ tokenId: i, quantity: 1 }));
+  assert(!validateLoanCollateral({ items: tooMany }).valid, "stack count is capped");
+}
+
+section("Loan tick actions");
+{
+  const offer = makeLoan({ status: "offered", chainLoanId: null, lentAt: null, dueAt: null });
+  assert(getLoanTickAction(offer, T0 + LOAN_OFFER_TTL_MS - 1) === null, "fresh offers are left alone");
+  assert(getLoanTickAction(offer, T0 + LOAN_OFFER_TTL_MS) === "expire_offer", "stale offers expire");
+  assert(getLoanTickAction({ ...offer, status: "accepting" }, T0 + LOAN_OFFER_TTL_MS) === null,
+    "offers being accepted are never expired under the accept");
+
+  const loan = makeLoan();
+  const dueAt = loan.dueAt!;
+  assert(getLoanTickAction(loan, T0 + DAY_MS) === null, "nothing to do early in the loan");
+  assert(getLoanTickAction(loan, dueAt - LOAN_REMINDER_LEAD_MS) === "remind", "reminder before the due date");
+  assert(getLoanTickAction({ ...loan, reminderSentAt: T0 }, dueAt - 1000) === null, "reminders are sent once");
+  assert(getLoanTickAction(loan, dueAt + 1) === "notify_overdue", "overdue notice after the due date");
+  assert(getLoanTickAction({ ...loan, overdueNotifiedAt: dueAt + 1 }, dueAt + DAY_MS) === null, "overdue notices are sent once");
+  assert(getLoanTickAction(loan, dueAt + LOAN_DEFAULT_GRACE_MS) === "default", "default after the grace period");
+  assert(getLoanTickAction({ ...loan, status: "returned" }, dueAt + LOAN_DEFAULT_GRACE_MS) === null,
+    "closed loans are ignored");
+}
+
+section("Public loan view");
+{
+  const loan = makeLoan({ collateral: { gold: 100, items: [] } });
+  const dueAt = loan.dueAt!;
+  assert(!isLoanOverdue(loan, dueAt), "not overdue on the due date");
+  assert(isLoanOverdue(loan, dueAt + 1), "overdue after the due date");
+
+  const view = toPublicLoan(loan, dueAt + 2 * DAY_MS + 1000);
+  assert(view.isOverdue && view.daysOverdue === 2, "days overdue are whole days", view);
+  assert(view.defaultsAt === dueAt + LOAN_DEFAULT_GRACE_MS, "reports when the loan defaults");
+  assert(view.loanId === 3 && view.offerExpiresAt === null, "active loans expose the chain loan id");
+
+  const offerView = toPublicLoan(makeLoan({ status: "offered", chainLoanId: null, dueAt: null }), T0);
+  assert(offerView.offerExpiresAt === T0 + LOAN_OFFER_TTL_MS && offerView.defaultsAt === null,
+    "offers report when they expire");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
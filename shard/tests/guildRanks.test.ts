@@ -0,0 +1,134 @@
+/**
+ * Guild ranks — permission bits, rank resolution, rank validation, XP perks
+ * Run with: npx tsx tests/guildRanks.test.ts
+ */
+
+import {
+  ALL_GUILD_PERMISSIONS,
+  GUILD_MASTER_RANK_ID,
+  createDefaultGuildRanks,
+  getGuildLevel,
+  getGuildLevelXp,
+  getGuildPerks,
+  getGuildProgress,
+  listRankPermissions,
+  outranks,
+  rankHasPermission,
+  resolveMemberRank,
+  validateGuildRanks,
+} from "../src/economy/guildRanks.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const MEMBER = 0;
+const OFFICER = 1;
+const FOUNDER = 2;
+
+section("Default ranks");
+{
+  const ranks = createDefaultGuildRanks();
+  const [master, officer, member, recruit] = ranks;
+  assert(master.rankId === GUILD_MASTER_RANK_ID && master.permissions === ALL_GUILD_PERMISSIONS, "guild master holds everything");
+  assert(rankHasPermission(officer, "withdraw_vault") && rankHasPermission(officer, "lend_vault"), "officers run the vault");
+  assert(!rankHasPermission(officer, "manage_ranks"), "officers can't redefine ranks");
+  assert(!rankHasPermission(member, "invite") && rankHasPermission(member, "chat"), "members chat but don't invite");
+  assert(listRankPermissions(recruit.permissions).join() === "chat", "recruits can only chat", listRankPermissions(recruit.permissions));
+}
+
+section("Rank resolution");
+{
+  const ranks = createDefaultGuildRanks();
+  assert(resolveMemberRank(ranks, undefined, FOUNDER).rankId === GUILD_MASTER_RANK_ID, "the founder is guild master");
+  assert(resolveMemberRank(ranks, "recruit", FOUNDER).rankId === GUILD_MASTER_RANK_ID, "the founder can't be demoted");
+  assert(resolveMemberRank(ranks, undefined, OFFICER).rankId === "officer", "on-chain officers default to officer");
+  assert(resolveMemberRank(ranks, undefined, MEMBER).rankId === "member", "on-chain members default to member");
+  assert(resolveMemberRank(ranks, "recruit", OFFICER).rankId === "recruit", "assignments override the on-chain default");
+  assert(resolveMemberRank(ranks, GUILD_MASTER_RANK_ID, MEMBER).rankId === "member", "guild master can't be assigned");
+  assert(resolveMemberRank(ranks, "deleted-rank", MEMBER).rankId === "member", "stale assignments fall back");
+
+  const custom = ranks.filter((r) => r.rankId !== "member");
+  assert(resolveMemberRank(custom, undefined, MEMBER).rankId === "recruit", "missing defaults fall back to the lowest rank");
+
+  const [master, officer, member] = ranks;
+  assert(outranks(master, officer) && outranks(officer, member), "lower order outranks higher");
+  assert(!outranks(officer, officer), "a rank doesn't outrank itself");
+}
+
+section("Rank validation");
+{
+  const everything = ["invite", "withdraw_vault", "lend_vault", "edit_motd", "manage_ranks", "view_log", "chat"];
+  assert(!validateGuildRanks([
+    { rankId: GUILD_MASTER_RANK_ID, name: "Warlord", permissions: ["chat"] },
+    { rankId: "grunt", name: "Grunt", permissions: [] },
+  ], 5).valid, "guild master must keep every permission");
+
+  const valid = validateGuildRanks([
+    { rankId: GUILD_MASTER_RANK_ID, name: " Warlord ", permissions: everything },
+    { rankId: "quartermaster", name: "Quartermaster", permissions: ["withdraw_vault", "lend_vault", "view_log"] },
+    { rankId: "grunt", name: "Grunt", permissions: [] },
+  ], 5);
+  assert(valid.valid && valid.ranks[0].name === "Warlord", "names are trimmed", valid);
+  assert(valid.valid && valid.ranks.map((r) => r.order).join() === "0,1,2", "order follows list position");
+  assert(valid.valid && rankHasPermission(valid.ranks[1], "lend_vault") && !rankHasPermission(valid.ranks[1], "invite"),
+    "permission names become bits");
+
+  assert(!validateGuildRanks([{ rankId: "boss", name: "Boss", permissions: everything }], 5).valid,
+    "the first rank must be guild master");
+  assert(!validateGuildRanks([{ rankId: GUILD_MASTER_RANK_ID, name: "GM", permissions: everything }], 5).valid,
+    "a lone guild master is rejected");
+  assert(!validateGuildRanks([
+    { rankId: GUILD_MASTER_RANK_ID, name: "GM", permissions: everything },
+    { rankId: "a", name: "A", permissions: ["steal"] },
+  ], 5).valid, "unknown permissions are rejected");
+  assert(!validateGuildRanks([
+    { rankId: GUILD_MASTER_RANK_ID, name: "GM", permissions: everything },
+    { rankId: "a", name: "A", permissions: [] },
+    { rankId: "a", name: "A again", permissions: [] },
+  ], 5).valid, "duplicate rank ids are rejected");
+  assert(!validateGuildRanks([
+    { rankId: GUILD_MASTER_RANK_ID, name: "GM", permissions: everything },
+    { rankId: "Has Spaces", name: "A", permissions: [] },
+  ], 5).valid, "rank ids are slugs");
+  const tooMany = Array.from({ length: 6 }, (_, i) => ({ rankId: `r${i}`, name: `R${i}`, permissions: [] }));
+  assert(!validateGuildRanks(tooMany, 5).valid, "the rank cap is enforced");
+}
+
+section("Guild XP and perks");
+{
+  assert(getGuildLevelXp(1) === 0 && getGuildLevelXp(2) === 1000 && getGuildLevelXp(3) === 4000, "level thresholds grow quadratically");
+  assert(getGuildLevel(0) === 1 && getGuildLevel(999) === 1 && getGuildLevel(1000) === 2, "levels start at 1");
+  assert(getGuildLevel(10_000_000) === 10, "levels cap at 10");
+
+  const base = getGuildPerks(1);
+  assert(base.questXpBonusPct === 0 && base.maxRanks === 5 && base.vaultLoanMaxDays === 30, "level 1 has base perks", base);
+  const mid = getGuildPerks(5);
+  assert(mid.questXpBonusPct === 10 && mid.maxRanks === 8 && mid.vaultLoanMaxDays === 45, "perks stack by level", mid);
+  const max = getGuildPerks(10);
+  assert(max.questXpBonusPct === 15 && max.maxRanks === 10 && max.vaultLoanMaxDays === 60, "max level unlocks everything", max);
+
+  const progress = getGuildProgress(1500);
+  assert(progress.level === 2 && progress.xpToNextLevel === 2500, "progress reports XP to the next level", progress);
+  assert(getGuildProgress(10_000_000).nextLevelXp === null, "no next level at the cap");
+  assert(progress.unlocks.filter((u) => u.unlocked).length === 1, "unlock list marks reached perks");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
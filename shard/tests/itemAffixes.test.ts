@@ -0,0 +1,174 @@
+/**
+ * Item affixes — quality-scaled affix rolls, sockets, gems, reforging
+ * Run with: npx tsx tests/itemAffixes.test.ts
+ */
+
+import { getItemByTokenId } from "../src/items/itemCatalog.js";
+import {
+  getAffixSlotGroup,
+  getItemLevel,
+  rerollAffix,
+  rollAffixes,
+  rollSocketCount,
+  type CraftedItemInstance,
+  type QualityTier,
+} from "../src/items/itemRng.js";
+import { getCutGem, getReforgeCost, listCutGems, socketGem, unsocketGem } from "../src/items/gems.js";
+import { withWalletItemLock } from "../src/items/walletItemLock.js";
+import { setRngSeed } from "../src/world/rng.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+setRngSeed("item-affixes-test");
+
+const sword = getItemByTokenId(2n)!;
+const ring = getItemByTokenId(122n)!;
+const chest = getItemByTokenId(9n)!;
+
+section("Affix counts");
+{
+  const ranges: Record<QualityTier, [number, number]> = {
+    common: [0, 1], uncommon: [1, 1], rare: [1, 2], epic: [2, 3],
+  };
+  for (const tier of Object.keys(ranges) as QualityTier[]) {
+    const [min, max] = ranges[tier];
+    let inRange = true;
+    let unique = true;
+    for (let i = 0; i < 50; i++) {
+      const affixes = rollAffixes(sword, tier);
+      if (affixes.length < min || affixes.length > max) inRange = false;
+      if (new Set(affixes.map((a) => a.id)).size !== affixes.length) unique = false;
+    }
+    assert(inRange, `${tier} items roll ${min}-${max} affixes`);
+    assert(unique, `${tier} items never repeat an affix`);
+  }
+
+  let balanced = true;
+  for (let i = 0; i < 50; i++) {
+    const affixes = rollAffixes(chest, "epic");
+    const prefixes = affixes.filter((a) => a.kind === "prefix").length;
+    if (Math.abs(prefixes - (affixes.length - prefixes)) > 1) balanced = false;
+  }
+  assert(balanced, "prefixes and suffixes stay balanced");
+}
+
+section("Slot and level pools");
+{
+  assert(getAffixSlotGroup(sword) === "weapon" && getAffixSlotGroup(ring) === "jewelry"
+    && getAffixSlotGroup(chest) === "armor", "items map to slot groups");
+
+  let armorOnly = true;
+  for (let i = 0; i < 50; i++) {
+    if (rollAffixes(ring, "epic").some((a) => a.id === "turtle" || a.id === "sturdy")) armorOnly = false;
+  }
+  assert(armorOnly, "armor-only affixes never roll on jewelry");
+
+  const cheap = { ...chest, copperPrice: 1 };
+  assert(getItemLevel(cheap) === 1, "item level bottoms out at 1");
+  let lowLevel = true;
+  for (let i = 0; i < 50; i++) {
+    if (rollAffixes(cheap, "epic").some((a) => a.id === "phoenix" || a.id === "titanic")) lowLevel = false;
+  }
+  assert(lowLevel, "high-level affixes need a high item level");
+
+  const pricey = { ...chest, copperPrice: 1600 };
+  const lowBear = rollUntil(cheap, "bear");
+  const highBear = rollUntil(pricey, "bear");
+  assert(!!lowBear && !!highBear && (highBear.statBonuses.hp ?? 0) > (lowBear.statBonuses.hp ?? 0),
+    "affix stats scale with item level", { lowBear, highBear });
+}
+
+function rollUntil(item: typeof chest, affixId: string) {
+  for (let i = 0; i < 500; i++) {
+    const found = rollAffixes(item, "epic").find((a) => a.id === affixId);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+section("Sockets and gems");
+{
+  assert(rollSocketCount("common") === 0 && rollSocketCount("uncommon") === 0, "only rare+ items roll sockets");
+  const rare = rollSocketCount("rare");
+  const epic = rollSocketCount("epic");
+  assert(rare >= 1 && rare <= 2 && epic >= 2 && epic <= 3, "rare and epic socket ranges", { rare, epic });
+
+  assert(listCutGems().length === 6, "six cut gems are socketable");
+  assert(getCutGem(116) === undefined, "rough gems are not socketable");
+
+  const ruby = getCutGem(250)!;
+  const instance = { sockets: [null, null] } as unknown as CraftedItemInstance;
+  assert(socketGem(instance, 0, ruby).ok, "a gem fits an empty socket");
+  assert(!socketGem(instance, 0, ruby).ok, "an occupied socket rejects a second gem");
+  assert(!socketGem(instance, 5, ruby).ok, "out-of-range sockets are rejected");
+  const removed = unsocketGem(instance, 0);
+  assert(removed.ok && removed.gem.tokenId === 250 && instance.sockets![0] === null, "unsocketing returns the gem");
+  assert(!unsocketGem(instance, 0).ok, "empty sockets have nothing to remove");
+
+  socketGem(instance, 1, ruby, "op-burn-1");
+  assert(instance.sockets![1]?.burnOperationId === "op-burn-1", "a paid-for gem records its burn");
+  assert(instance.sockets![0] === null && ruby.burnOperationId === undefined, "the catalog gem is not mutated");
+}
+
+section("Wallet item lock");
+{
+  const order: string[] = [];
+  const slow = withWalletItemLock("0xAbC", async () => {
+    order.push("a:start");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    order.push("a:end");
+  });
+  const fast = withWalletItemLock("0xabc", async () => {
+    order.push("b");
+  });
+  const other = withWalletItemLock("0xdef", async () => {
+    order.push("other");
+  });
+  await Promise.all([slow, fast, other]);
+  assert(order.indexOf("b") > order.indexOf("a:end"), "same wallet (any case) runs one check-and-burn at a time", order);
+  assert(order.indexOf("other") < order.indexOf("a:end"), "other wallets are not blocked", order);
+
+  const failing = withWalletItemLock("0xabc", async () => {
+    throw new Error("burn failed");
+  });
+  await failing.catch(() => {});
+  const after = await withWalletItemLock("0xabc", async () => "released");
+  assert(after === "released", "a failed holder releases the lock");
+}
+
+section("Reforging");
+{
+  const affixes = rollAffixes(sword, "epic");
+  const before = affixes.map((a) => a.id);
+  const rolled = rerollAffix(sword, affixes, 0);
+  assert(!!rolled && rolled.kind === affixes[0].kind, "reforging keeps the affix kind");
+  assert(!before.includes(rolled!.id), "reforging always lands on a new affix", { before, rolled });
+  assert(affixes.length === before.length && affixes.slice(1).every((a, i) => a.id === before[i + 1]),
+    "other affixes are untouched");
+
+  const first = getReforgeCost("rare", 0);
+  const third = getReforgeCost("rare", 2);
+  assert(first.reagentTokenId === 130 && third.copperCost === first.copperCost * 4, "reforge cost escalates", { first, third });
+  assert(getReforgeCost("rare", 50).copperCost === getReforgeCost("rare", 5).copperCost, "reforge cost is capped");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,80 @@
+/**
+ * Item sets — definitions, piece counting, tier activation
+ * Run with: npx tsx tests/itemSets.test.ts
+ */
+
+import {
+  collectItemSetEffects,
+  getActiveItemSets,
+  getItemByTokenId,
+  getItemSetForToken,
+  ITEM_SETS,
+} from "../src/items/itemCatalog.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+section("Definitions");
+{
+  const owners = new Map<number, string>();
+  let unique = true;
+  for (const set of ITEM_SETS) {
+    for (const tokenId of set.tokenIds) {
+      if (owners.has(tokenId)) unique = false;
+      owners.set(tokenId, set.id);
+    }
+  }
+  assert(unique, "every item belongs to at most one set");
+
+  for (const set of ITEM_SETS) {
+    const pieces = set.tokenIds.map((id) => getItemByTokenId(BigInt(id)));
+    const slots = new Set(pieces.map((item) => item?.equipSlot));
+    assert(pieces.every((item) => item?.equipSlot) && slots.size === pieces.length,
+      `${set.id}: pieces are equippable, one per slot`);
+    const reachable = set.bonuses.every((bonus) => bonus.pieces <= set.tokenIds.length);
+    const ordered = set.bonuses.every((bonus, i) => i === 0 || bonus.pieces > set.bonuses[i - 1].pieces);
+    assert(reachable && ordered, `${set.id}: bonus tiers are reachable and ascending`);
+  }
+  assert(getItemSetForToken(91)?.id === "tanned-leather", "set lookup by tokenId");
+  assert(getItemSetForToken(2) === undefined, "unrelated items have no set");
+}
+
+section("Activation");
+{
+  assert(getActiveItemSets([2, 3]).length === 0, "no set pieces means no sets");
+
+  const [leather] = getActiveItemSets([91, 92, 93, 94, 2]);
+  assert(leather?.equippedPieces === 4 && leather.totalPieces === 7, "pieces are counted", leather);
+  assert(leather.bonuses.map((b) => b.active).join() === "true,true,false", "2 and 4 piece tiers are active");
+
+  const duplicate = getActiveItemSets([91, 91]);
+  assert(duplicate[0].equippedPieces === 1, "the same piece twice counts once");
+
+  const effects = collectItemSetEffects(getActiveItemSets([91, 92, 93, 94, 95, 96, 122, 125]));
+  assert(effects.statBonuses.agi === 3 && effects.statBonuses.hp === 12, "stat tiers are summed", effects.statBonuses);
+  assert(effects.procs.length === 2 && effects.procs.every((p) => p.trigger === "on_hit"),
+    "6-piece leather and the Emberheart pair both add procs", effects.procs);
+
+  const modifiers = collectItemSetEffects(getActiveItemSets([98, 99, 100, 101, 123, 127])).techniqueModifiers;
+  assert(modifiers.damagePct === 8 && modifiers.healingPct === 12, "technique modifiers are summed", modifiers);
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
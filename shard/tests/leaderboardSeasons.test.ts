@@ -0,0 +1,117 @@
+/**
+ * Leaderboard seasons — categories, season validation, status, rewards
+ * Run with: npx tsx tests/leaderboardSeasons.test.ts
+ */
+
+import {
+  ALL_TIME_SEASON_ID,
+  computePowerScore,
+  getSeasonRewardsForRank,
+  isGaugeCategory,
+  isLeaderboardCategory,
+  resolveSeasonStatus,
+  validateSeasonInput,
+  type LeaderboardSeason,
+} from "../src/social/leaderboardSeasons.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.now();
+const iso = (ms: number) => new Date(ms).toISOString();
+
+section("Categories");
+{
+  assert(isLeaderboardCategory("pvp_elo") && isLeaderboardCategory("dungeon_clears"), "new categories are recognised");
+  assert(!isLeaderboardCategory("xp") && !isLeaderboardCategory(undefined), "unknown categories are rejected");
+  assert(isGaugeCategory("level") && isGaugeCategory("pvp_elo"), "level and ELO are gauges");
+  assert(!isGaugeCategory("kills") && !isGaugeCategory("gold_earned"), "kills and gold accumulate");
+
+  const bare = computePowerScore({ level: 3, kills: 2, effectiveStats: undefined });
+  assert(bare === 320, "power score without stats is level and kills", bare);
+}
+
+section("Season validation");
+{
+  const input = {
+    seasonId: "season-1",
+    name: "Season of Embers",
+    startsAt: iso(now - DAY),
+    endsAt: iso(now + 30 * DAY),
+    rewards: [
+      { category: "kills", fromRank: 1, toRank: 1, copper: 50000, title: "Slayer" },
+      { category: "kills", fromRank: 2, toRank: 10, itemTokenId: 131 },
+    ],
+  };
+  const ok = validateSeasonInput(input, []);
+  assert(ok.valid, "a well-formed season validates", ok);
+  if (ok.valid) {
+    assert(ok.season.status === "active", "a season already underway starts active");
+    assert(ok.season.rewards[1].itemQuantity === 1, "item rewards default to one");
+  }
+
+  const scheduled = validateSeasonInput({ ...input, startsAt: iso(now + DAY) }, []);
+  assert(scheduled.valid && scheduled.season.status === "scheduled", "a future season is scheduled");
+
+  assert(!validateSeasonInput({ ...input, seasonId: ALL_TIME_SEASON_ID }, []).valid, "the all-time id is reserved");
+  assert(!validateSeasonInput({ ...input, seasonId: "Bad Id" }, []).valid, "season ids are slugs");
+  assert(!validateSeasonInput({ ...input, endsAt: input.startsAt }, []).valid, "seasons must end after they start");
+  assert(!validateSeasonInput({ ...input, startsAt: iso(now - 3 * DAY), endsAt: iso(now - DAY) }, []).valid,
+    "seasons can't end in the past");
+  assert(!validateSeasonInput({ ...input, rewards: [{ category: "kills", fromRank: 3, toRank: 1, copper: 1 }] }, []).valid,
+    "reward rank ranges must be ordered");
+  assert(!validateSeasonInput({ ...input, rewards: [{ category: "kills", fromRank: 1, toRank: 1 }] }, []).valid,
+    "rewards must grant something");
+  assert(!validateSeasonInput({ ...input, rewards: [{ category: "xp", fromRank: 1, toRank: 1, copper: 1 }] }, []).valid,
+    "rewards need a known category");
+
+  const existing: LeaderboardSeason = {
+    seasonId: "season-0", name: "Zero", startsAt: now, endsAt: now + 10 * DAY, status: "active", rewards: [],
+  };
+  assert(!validateSeasonInput(input, [existing]).valid, "live seasons can't overlap");
+  assert(validateSeasonInput(input, [{ ...existing, status: "archived" }]).valid, "archived seasons don't block");
+  assert(!validateSeasonInput({ ...input, seasonId: "season-0" }, [{ ...existing, status: "archived" }]).valid,
+    "season ids are unique");
+}
+
+section("Status and rewards");
+{
+  const season: LeaderboardSeason = {
+    seasonId: "s", name: "S", startsAt: 1000, endsAt: 2000, status: "scheduled",
+    rewards: [
+      { category: "kills", fromRank: 1, toRank: 1, copper: 100 },
+      { category: "kills", fromRank: 1, toRank: 3, title: "Top Three" },
+      { category: "level", fromRank: 1, toRank: 1, copper: 5 },
+    ],
+  };
+  assert(resolveSeasonStatus(season, 999) === "scheduled", "scheduled before start");
+  assert(resolveSeasonStatus(season, 1000) === "active", "active from start");
+  assert(resolveSeasonStatus(season, 2000) === "archived", "due for archive at end");
+  assert(resolveSeasonStatus({ ...season, status: "archived" }, 1500) === "archived", "archived seasons stay archived");
+
+  assert(getSeasonRewardsForRank(season.rewards, "kills", 1).length === 2, "overlapping tiers both pay");
+  assert(getSeasonRewardsForRank(season.rewards, "kills", 3).length === 1, "rank 3 gets the title only");
+  assert(getSeasonRewardsForRank(season.rewards, "kills", 4).length === 0, "ranks outside every tier get nothing");
+  assert(getSeasonRewardsForRank(season.rewards, "gold_earned", 1).length === 0, "rewards are per category");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
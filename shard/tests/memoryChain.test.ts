@@ -0,0 +1,305 @@
+/**
+ * Memory chain — CHAIN_MODE=memory contracts, thirdweb/ethers compatibility, failure injection, determinism
+ * Run with: npx tsx tests/memoryChain.test.ts
+ */
+
+process.env.CHAIN_MODE = "memory";
+process.env.CHAIN_MEMORY_TIMEOUT_MS = "400";
+
+await import("../src/config/devLocalContracts.js");
+
+import { ethers } from "ethers";
+import { getContract, prepareTransaction, sendTransaction, waitForReceipt } from "thirdweb";
+import { privateKeyToAccount } from "thirdweb/wallets";
+import { getBalance, mintTo as mintERC20 } from "thirdweb/extensions/erc20";
+import { balanceOf as balanceOfERC1155, burn, mintAdditionalSupplyTo, mintTo as mintERC1155, nextTokenIdToMint } from "thirdweb/extensions/erc1155";
+import { getOwnedNFTs } from "thirdweb/extensions/erc721";
+
+const { thirdwebClient, skaleBase } = await import("../src/blockchain/chain.js");
+const { getChainReceiptStatus } = await import("../src/blockchain/chainReceipt.js");
+const { createManagedFeeProvider } = await import("../src/blockchain/feePolicy.js");
+const { createMemoryChain, getMemoryChain, parseMemoryChainFailures } = await import("../src/blockchain/memoryChain.js");
+const { OFFICIAL_IDENTITY_REGISTRY_ABI, OFFICIAL_REPUTATION_REGISTRY_ABI, OFFICIAL_VALIDATION_REGISTRY_ABI } = await import("../src/erc8004/official.js");
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details, (_k, v) => (typeof v === "bigint" ? v.toString() : v))}`);
+    }
+    failed++;
+  }
+}
+
+async function rejects(fn: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await fn();
+    return null;
+  } catch (err: any) {
+    return String(err?.shortMessage ?? err?.message ?? err);
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const chain = getMemoryChain()!;
+const provider = new ethers.JsonRpcProvider(process.env.SKALE_BASE_RPC_URL, undefined, { staticNetwork: true, cacheTimeout: -1 });
+const server = new ethers.Wallet(process.env.SERVER_PRIVATE_KEY!, provider);
+const serverAccount = privateKeyToAccount({ client: thirdwebClient, privateKey: process.env.SERVER_PRIVATE_KEY! });
+const player = ethers.Wallet.createRandom(provider);
+
+const gold = getContract({ client: thirdwebClient, chain: skaleBase, address: process.env.GOLD_CONTRACT_ADDRESS! });
+const items = getContract({ client: thirdwebClient, chain: skaleBase, address: process.env.ITEMS_CONTRACT_ADDRESS! });
+const characterReads = getContract({ client: thirdwebClient, chain: skaleBase, address: process.env.CHARACTER_CONTRACT_ADDRESS! });
+
+async function send(tx: Parameters<typeof sendTransaction>[0]["transaction"]) {
+  const { transactionHash } = await sendTransaction({ transaction: tx, account: serverAccount });
+  return waitForReceipt({ client: thirdwebClient, chain: skaleBase, transactionHash });
+}
+
+// ── Boot ────────────────────────────────────────────────────────────
+
+section("CHAIN_MODE=memory boot");
+
+{
+  assert(chain !== null && process.env.SKALE_BASE_RPC_URL!.startsWith("http://127.0.0.1:"), "devLocalContracts started the chain and pointed the RPC at it");
+  assert(Number((await provider.getNetwork()).chainId) === 31337, "serves the local chain id");
+  assert(process.env.GOLD_CONTRACT_ADDRESS === "0x5FbDB2315678afecb367f032d93F642f64180aa3", "uses the Hardhat deploy addresses");
+  assert(!process.env.TRADE_CONTRACT_ADDRESS && !process.env.GUILD_VAULT_CONTRACT_ADDRESS, "leaves unemulated contracts unset");
+  assert(process.env.VALIDATION_REGISTRY_ADDRESS === "0x5FC8d32690cc91D4c39d9d3abcBD16989F875707", "emulates the ERC-8004 validation registry");
+  assert(chain.owner === serverAccount.address, "the server wallet deploys and owns the contracts");
+  const feeData = await createManagedFeeProvider(process.env.SKALE_BASE_RPC_URL!).getFeeData();
+  assert(feeData.maxFeePerGas != null && feeData.maxPriorityFeePerGas != null, "the shard's fee provider sees an EIP-1559 chain", feeData);
+}
+
+// ── Tokens through thirdweb ─────────────────────────────────────────
+
+section("ERC-20 gold and ERC-1155 items (thirdweb)");
+
+{
+  const receipt = await send(mintERC20({ contract: gold, to: player.address, amount: "250" }));
+  assert(receipt.status === "success", "gold mintTo mines");
+  const balance = await getBalance({ contract: gold, address: player.address });
+  assert(balance.value === ethers.parseEther("250") && balance.symbol === "GOLD", "balance and metadata read back", balance);
+
+  const uri = `data:application/json;base64,${Buffer.from(JSON.stringify({ name: "Rusty Sword" })).toString("base64")}`;
+  await send(mintERC1155({ contract: items, to: serverAccount.address, supply: 1n, nft: uri }));
+  assert((await nextTokenIdToMint({ contract: items })) === 1n, "a new item token takes the next id");
+  await send(mintAdditionalSupplyTo({ contract: items, to: player.address, tokenId: 0n, supply: 5n }));
+  assert((await balanceOfERC1155({ contract: items, owner: player.address, tokenId: 0n })) === 5n, "additional supply lands with the player");
+  const reverted = await rejects(() => send(mintAdditionalSupplyTo({ contract: items, to: player.address, tokenId: 7n, supply: 1n })));
+  assert(reverted?.includes("Token does not exist") ?? false, "minting supply of an unknown token reverts like the mock", reverted);
+  await send(burn({ contract: items, account: serverAccount.address, id: 0n, value: 1n }));
+  assert((await balanceOfERC1155({ contract: items, owner: serverAccount.address, tokenId: 0n })) === 0n, "burn removes the holder's items");
+}
+
+// ── Characters and ERC-8004 through ethers ──────────────────────────
+
+section("ERC-721 characters and ERC-8004 registries (ethers)");
+
+{
+  const characters = new ethers.Contract(process.env.CHARACTER_CONTRACT_ADDRESS!, [
+    "function mintTo(address to, string uri) returns (uint256)",
+    "function setTokenURI(uint256 tokenId, string uri)",
+    "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  ], server);
+  const metadata = { name: "Aria", attributes: [{ trait_type: "class", value: "warrior" }] };
+  const tx = await characters.mintTo(player.address, `data:application/json;base64,${Buffer.from(JSON.stringify(metadata)).toString("base64")}`);
+  const receipt = await tx.wait();
+  const transfer = receipt.logs.map((log: ethers.Log) => characters.interface.parseLog(log)).find((log: ethers.LogDescription | null) => log?.name === "Transfer");
+  assert(transfer?.args.tokenId === 0n && transfer.args.to === player.address, "mint emits the ERC-721 Transfer used for token id recovery");
+  const owned = await getOwnedNFTs({ contract: characterReads, owner: player.address, useIndexer: false });
+  assert(owned.length === 1 && owned[0].metadata.name === "Aria", "thirdweb enumerates the player's characters and reads inline metadata", owned.map((n) => n.metadata));
+
+  const transferLogs = await provider.getLogs({
+    address: process.env.CHARACTER_CONTRACT_ADDRESS,
+    fromBlock: 0,
+    topics: [ethers.id("Transfer(address,address,uint256)"), null, ethers.zeroPadValue(player.address, 32)],
+  });
+  assert(transferLogs.length === 1, "getLogs filters by address and indexed topics");
+
+  const identity = new ethers.Contract(process.env.IDENTITY_REGISTRY_ADDRESS!, OFFICIAL_IDENTITY_REGISTRY_ABI, server);
+  const reputation = new ethers.Contract(process.env.REPUTATION_REGISTRY_ADDRESS!, OFFICIAL_REPUTATION_REGISTRY_ABI, server);
+  await (await identity["register(string)"]("ipfs://agent-0")).wait();
+  assert((await identity.getAgentWallet(0n)) === serverAccount.address, "register binds the caller as agent wallet");
+  const selfFeedback = await rejects(() => reputation.giveFeedback(0n, 80n, 0, "combat", "", "", "", ethers.ZeroHash));
+  assert(selfFeedback?.includes("Self-feedback not allowed") ?? false, "reputation asks the identity registry who owns the agent", selfFeedback);
+  await (await identity.transferFrom(serverAccount.address, player.address, 0n)).wait();
+  assert((await identity.getAgentWallet(0n)) === ethers.ZeroAddress, "transfers clear the agent wallet");
+  await (await reputation.giveFeedback(0n, 80n, 0, "combat", "", "", "", ethers.ZeroHash)).wait();
+  await (await reputation.giveFeedback(0n, 60n, 0, "combat", "", "", "", ethers.ZeroHash)).wait();
+  const [count, value] = await reputation.getSummary(0n, [serverAccount.address], "combat", "");
+  assert(count === 2n && value === 70n, "getSummary averages feedback", { count, value });
+
+  const validation = new ethers.Contract(process.env.VALIDATION_REGISTRY_ADDRESS!, OFFICIAL_VALIDATION_REGISTRY_ABI, server);
+  const requestHash = ethers.id("wog:level:10");
+  const notOwner = await rejects(() => validation.validationRequest(serverAccount.address, 0n, "https://shard/claim", requestHash));
+  assert(notOwner?.includes("Not authorized") ?? false, "only the agent's owner files validation requests", notOwner);
+  chain.setBalance(player.address, ethers.parseEther("1"));
+  await (await validation.connect(player).getFunction("validationRequest")(serverAccount.address, 0n, "https://shard/claim", requestHash)).wait();
+  const duplicate = await rejects(() => validation.connect(player).getFunction("validationRequest")(serverAccount.address, 0n, "https://shard/claim", requestHash));
+  assert(duplicate?.includes("exists") ?? false, "a request hash is filed once", duplicate);
+  const wrongValidator = await rejects(() => validation.connect(player).getFunction("validationResponse")(requestHash, 100, "", ethers.ZeroHash, "wog:level:10"));
+  assert(wrongValidator?.includes("not validator") ?? false, "only the named validator responds", wrongValidator);
+  await (await validation.validationResponse(requestHash, 100, "https://shard/claim", ethers.id("signature"), "wog:level:10")).wait();
+  const [validatorAddress, agentId, response, , tag] = await validation.getValidationStatus(requestHash);
+  assert(validatorAddress === serverAccount.address && agentId === 0n && response === 100n && tag === "wog:level:10", "getValidationStatus reads the response back");
+  assert((await validation.getAgentValidations(0n)).length === 1, "the request is indexed under the agent");
+  const [validations, average] = await validation.getSummary(0n, [], "wog:level:10");
+  assert(validations === 1n && average === 100n, "getSummary filters by tag", { validations, average });
+  const unknown = await rejects(() => validation.getValidationStatus(ethers.ZeroHash));
+  assert(unknown?.includes("unknown") ?? false, "unknown request hashes revert", unknown);
+}
+
+// ── Game contracts ──────────────────────────────────────────────────
+
+section("auction house, guilds, names");
+
+{
+  const auctions = new ethers.Contract(process.env.AUCTION_HOUSE_CONTRACT_ADDRESS!, [
+    "function createAuction(string zoneId, address seller, uint256 tokenId, uint256 quantity, uint256 startPrice, uint256 durationSeconds, uint256 buyoutPrice) returns (uint256)",
+    "function placeBid(uint256 auctionId, address bidder, uint256 bidAmount) returns (address, uint256)",
+    "function getAuction(uint256 auctionId) view returns (string zoneId, address seller, uint256 tokenId, uint256 quantity, uint256 startPrice, uint256 buyoutPrice, uint256 endTime, address highBidder, uint256 highBid, uint8 status, uint8 extensionCount)",
+  ], server);
+  await (await auctions.createAuction("village-square", player.address, 0n, 1n, 10n, 60n, 0n)).wait();
+  const bidder = ethers.Wallet.createRandom().address;
+  await (await auctions.placeBid(0n, bidder, 10n)).wait();
+  const auction = await auctions.getAuction(0n);
+  assert(auction.highBidder === bidder && auction.extensionCount === 1n, "bids inside the snipe window extend the auction", auction.toObject());
+  const lowBid = await rejects(() => auctions.placeBid(0n, ethers.Wallet.createRandom().address, 11n));
+  assert(lowBid?.includes("Bid too low") ?? false, "outbids need the 10 gold increment", lowBid);
+
+  const guilds = new ethers.Contract(process.env.GUILD_CONTRACT_ADDRESS!, [
+    "function createGuild(string name, string description, address founder, uint256 initialDeposit, uint256 creationFee) returns (uint256)",
+    "function joinGuild(uint256 guildId, address member)",
+    "function getGuild(uint256 guildId) view returns (string name, string description, address founder, uint256 treasury, uint256 level, uint256 reputation, uint8 status, uint256 createdAt, uint256 memberCount)",
+    "function getGuildMembers(uint256 guildId) view returns (address[])",
+  ], server);
+  await (await guilds.createGuild("Iron Wolves", "", player.address, ethers.parseEther("100"), ethers.parseEther("50"))).wait();
+  await (await guilds.joinGuild(0n, bidder)).wait();
+  const guild = await guilds.getGuild(0n);
+  assert(guild.name === "Iron Wolves" && guild.memberCount === 2n, "guild creation and joins", guild.toObject());
+  assert((await guilds.getGuildMembers(0n)).length === 2, "member list");
+
+  const names = new ethers.Contract(process.env.NAME_SERVICE_CONTRACT_ADDRESS!, [
+    "function registerName(address wallet, string name)",
+    "function resolve(string name) view returns (address)",
+    "function reverseLookup(address wallet) view returns (string)",
+  ], server);
+  await (await names.registerName(player.address, "Aria_01")).wait();
+  assert((await names.resolve("aria_01")) === player.address, "names resolve case-insensitively");
+  assert((await names.reverseLookup(player.address)) === "Aria_01", "reverse lookup keeps the display casing");
+  assert((await rejects(() => names.registerName(bidder, "ARIA_01"))) !== null, "taken names revert");
+}
+
+// ── Failure injection ───────────────────────────────────────────────
+
+section("failure injection");
+
+{
+  chain.injectFailure({ kind: "sfuel", match: "mintTo", times: 1 });
+  const sfuel = await rejects(() => send(mintERC20({ contract: gold, to: player.address, amount: "1" })));
+  assert(sfuel?.includes("insufficient funds for gas") ?? false, "sfuel rejects the submission with the node's message", sfuel);
+
+  const before = await getBalance({ contract: gold, address: player.address });
+  chain.injectFailure({ kind: "revert", match: process.env.GOLD_CONTRACT_ADDRESS!, times: 1 });
+  const { transactionHash } = await sendTransaction({ transaction: mintERC20({ contract: gold, to: player.address, amount: "1" }), account: serverAccount });
+  const reverted = await waitForReceipt({ client: thirdwebClient, chain: skaleBase, transactionHash });
+  const after = await getBalance({ contract: gold, address: player.address });
+  assert(reverted.status === "reverted" && after.value === before.value, "revert mines with status 0 and no state change");
+  assert((await getChainReceiptStatus(transactionHash)).success === false, "reconciliation sees the failed receipt");
+
+  chain.injectFailure({ kind: "timeout", match: "mintTo", times: 1 });
+  const stuck = await sendTransaction({ transaction: mintERC20({ contract: gold, to: player.address, amount: "1" }), account: serverAccount });
+  const behind = await sendTransaction({ transaction: mintERC20({ contract: gold, to: player.address, amount: "2" }), account: serverAccount });
+  assert(!(await getChainReceiptStatus(stuck.transactionHash)).found, "timeout: no receipt while held");
+  assert(!(await getChainReceiptStatus(behind.transactionHash)).found, "later nonces queue behind the held transaction");
+  await sleep(600);
+  const recovered = await getChainReceiptStatus(stuck.transactionHash);
+  const drained = await getChainReceiptStatus(behind.transactionHash);
+  assert(recovered.found && recovered.success === true && drained.success === true, "both mine once the hold expires", { recovered, drained });
+  assert((await getBalance({ contract: gold, address: player.address })).value === after.value + ethers.parseEther("3"), "held writes still apply");
+
+  const broke = privateKeyToAccount({ client: thirdwebClient, privateKey: ethers.Wallet.createRandom().privateKey });
+  const unfunded = await rejects(() =>
+    sendTransaction({ transaction: prepareTransaction({ client: thirdwebClient, chain: skaleBase, to: player.address, value: 0n }), account: broke }),
+  );
+  assert(unfunded?.includes("insufficient funds") ?? false, "wallets start without sFUEL", unfunded);
+  chain.setBalance(broke.address, ethers.parseEther("1"));
+  const topped = await sendTransaction({ transaction: prepareTransaction({ client: thirdwebClient, chain: skaleBase, to: player.address, value: 0n }), account: broke });
+  assert((await getChainReceiptStatus(topped.transactionHash)).success === true, "and can transact once topped up");
+}
+
+section("parseMemoryChainFailures");
+
+{
+  const rules = parseMemoryChainFailures("revert:mintTo*1, sfuel:0xABC ,timeout");
+  assert(rules.length === 3 && rules[0].times === 1 && rules[1].match === "0xabc" && rules[2].match === undefined, "parses kind, match and count", rules);
+  assert(parseMemoryChainFailures(undefined).length === 0, "empty by default");
+  let threw = false;
+  try {
+    parseMemoryChainFailures("explode:mintTo");
+  } catch {
+    threw = true;
+  }
+  assert(threw, "rejects unknown kinds");
+}
+
+// ── Determinism ─────────────────────────────────────────────────────
+
+section("deterministic hashes");
+
+{
+  const options = {
+    chainId: 31337,
+    ownerPrivateKey: process.env.SERVER_PRIVATE_KEY!,
+    addresses: {
+      GOLD_CONTRACT_ADDRESS: process.env.GOLD_CONTRACT_ADDRESS!,
+      ITEMS_CONTRACT_ADDRESS: process.env.ITEMS_CONTRACT_ADDRESS!,
+      CHARACTER_CONTRACT_ADDRESS: process.env.CHARACTER_CONTRACT_ADDRESS!,
+      IDENTITY_REGISTRY_ADDRESS: process.env.IDENTITY_REGISTRY_ADDRESS!,
+      REPUTATION_REGISTRY_ADDRESS: process.env.REPUTATION_REGISTRY_ADDRESS!,
+      AUCTION_HOUSE_CONTRACT_ADDRESS: process.env.AUCTION_HOUSE_CONTRACT_ADDRESS!,
+      GUILD_CONTRACT_ADDRESS: process.env.GUILD_CONTRACT_ADDRESS!,
+      NAME_SERVICE_CONTRACT_ADDRESS: process.env.NAME_SERVICE_CONTRACT_ADDRESS!,
+    },
+  };
+  const goldIface = new ethers.Interface(["function mintTo(address to, uint256 amount)"]);
+  const wallet = new ethers.Wallet(process.env.SERVER_PRIVATE_KEY!);
+  const run = async () => {
+    const fresh = createMemoryChain(options);
+    const hashes: string[] = [];
+    for (let nonce = 0; nonce < 3; nonce++) {
+      const raw = await wallet.signTransaction({
+        chainId: 31337,
+        nonce,
+        to: options.addresses.GOLD_CONTRACT_ADDRESS,
+        data: goldIface.encodeFunctionData("mintTo", ["0x70997970C51812dc3A010C7d01b50e0d17dc79C8", 10n ** 18n]),
+        gasLimit: 200_000n,
+        maxFeePerGas: 200_000n,
+        maxPriorityFeePerGas: 0n,
+        type: 2,
+      });
+      hashes.push(fresh.request("eth_sendRawTransaction", [raw]) as string);
+    }
+    const block = fresh.request("eth_getBlockByNumber", ["latest", false]) as { hash: string };
+    return [...hashes, block.hash];
+  };
+  const first = await run();
+  const second = await run();
+  assert(first.every((hash, i) => hash === second[i]), "the same writes on a fresh chain give the same tx and block hashes", { first, second });
+}
+
+chain.close();
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
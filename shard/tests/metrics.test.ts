@@ -0,0 +1,204 @@
+/**
+ * Metrics & tracing — Prometheus rendering, OTLP export, chain intent spans
+ * Run with: npx tsx tests/metrics.test.ts
+ */
+
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+// Local OTLP collector — tracing reads its endpoint at import, so start this first
+const exports: { headers: IncomingMessage["headers"]; body: any }[] = [];
+const collector = createServer(async (req, res) => {
+  exports.push({ headers: req.headers, body: JSON.parse(await readBody(req)) });
+  res.writeHead(200, { "content-type": "application/json" });
+  res.end("{}");
+});
+await new Promise<void>((resolve) => collector.listen(0, "127.0.0.1", resolve));
+process.env.OTEL_EXPORTER_OTLP_ENDPOINT = `http://127.0.0.1:${(collector.address() as AddressInfo).port}/`;
+process.env.OTEL_EXPORTER_OTLP_HEADERS = "x-collector-key=secret%20value";
+process.env.OTEL_SERVICE_NAME = "wog-shard-test";
+
+const metrics = await import("../src/observability/metrics.js");
+const tracing = await import("../src/observability/tracing.js");
+const intents = await import("../src/blockchain/chainIntentStore.js");
+
+function exportedSpans(): any[] {
+  return exports.flatMap((entry) => entry.body.resourceSpans[0].scopeSpans[0].spans);
+}
+
+section("Prometheus rendering");
+{
+  const requests = metrics.counter("test_requests_total", "Requests seen", ["route"]);
+  requests.inc({ route: "/zones/:zoneId" });
+  requests.inc({ route: "/zones/:zoneId" }, 2);
+  requests.inc({ route: 'quote"back\\slash' });
+
+  const depth = metrics.gauge("test_queue_depth", "Queue depth", ["status"]);
+  depth.set({ status: "pending" }, 4);
+  depth.dec({ status: "pending" });
+
+  const latency = metrics.histogram("test_latency_seconds", "Latency", ["op"], [0.1, 1]);
+  latency.observe({ op: "read" }, 0.05);
+  latency.observe({ op: "read" }, 0.5);
+  latency.observe({ op: "read" }, 3);
+
+  const text = await metrics.renderMetrics();
+  assert(text.includes("# TYPE test_requests_total counter"), "counter TYPE line");
+  assert(text.includes('test_requests_total{route="/zones/:zoneId"} 3'), "counter accumulates per label set");
+  assert(text.includes('test_requests_total{route="quote\\"back\\\\slash"} 1'), "label values are escaped");
+  assert(text.includes('test_queue_depth{status="pending"} 3'), "gauge set/dec");
+  assert(text.includes('test_latency_seconds_bucket{op="read",le="0.1"} 1'), "histogram lower bucket");
+  assert(text.includes('test_latency_seconds_bucket{op="read",le="1"} 2'), "histogram buckets are cumulative");
+  assert(text.includes('test_latency_seconds_bucket{op="read",le="+Inf"} 3'), "histogram +Inf bucket");
+  assert(text.includes('test_latency_seconds_count{op="read"} 3'), "histogram count");
+  assert(text.includes('test_latency_seconds_sum{op="read"} 3.55'), "histogram sum");
+  assert(/wog_process_memory_bytes\{kind="rss"\} \d+/.test(text), "process collector runs before render");
+
+  assert(metrics.counter("test_requests_total", "Requests seen", ["route"]) !== undefined, "redefining returns the existing metric");
+  let threw = false;
+  try {
+    metrics.gauge("test_requests_total", "Requests seen");
+  } catch {
+    threw = true;
+  }
+  assert(threw, "redefining with another type throws");
+
+  metrics.resetMetrics();
+  const afterReset = await metrics.renderMetrics();
+  assert(!afterReset.includes("test_requests_total{"), "resetMetrics drops recorded series");
+}
+
+section("Timers and collectors");
+{
+  const timed = metrics.histogram("test_timer_seconds", "Timer", ["kind", "outcome"]);
+  const stop = timed.startTimer({ kind: "flush" });
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  const seconds = stop({ outcome: "ok" });
+  assert(seconds >= 0.015, "startTimer measures elapsed seconds", seconds);
+
+  const collected = metrics.gauge("test_collected", "Set by a collector");
+  const unsubscribe = metrics.registerMetricsCollector(() => collected.set({}, 7));
+  assert((await metrics.renderMetrics()).includes('test_timer_seconds_count{kind="flush",outcome="ok"} 1'), "timer merges extra labels");
+  assert((await metrics.renderMetrics()).includes("test_collected 7"), "collector output is rendered");
+  unsubscribe();
+  metrics.registerMetricsCollector(() => {
+    throw new Error("collector down");
+  });
+  assert((await metrics.renderMetrics()).includes("# TYPE test_collected gauge"), "a failing collector does not break the scrape");
+}
+
+section("Traceparent");
+{
+  const parsed = tracing.parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+  assert(parsed?.traceId === "4bf92f3577b34da6a3ce929d0e0e4736", "parses trace id");
+  assert(parsed?.spanId === "00f067aa0ba902b7", "parses parent span id");
+  assert(tracing.parseTraceparent("00-00000000000000000000000000000000-00f067aa0ba902b7-01") === null, "rejects an all-zero trace id");
+  assert(tracing.parseTraceparent("garbage") === null, "rejects malformed headers");
+  assert(tracing.formatTraceparent(parsed!) === "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01", "round-trips");
+}
+
+section("OTLP export: route → chain intent → receipt");
+{
+  assert(tracing.isTracingEnabled(), "tracing enabled by OTEL_EXPORTER_OTLP_ENDPOINT");
+  const upstream = tracing.parseTraceparent("00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01");
+  const route = tracing.startSpan("POST /character/create", { kind: "server", parent: upstream });
+
+  const intent = await tracing.withSpan(route, () => intents.createChainIntent({
+    type: "test-mint",
+    aggregateType: "wallet",
+    aggregateKey: "0xabc",
+    payload: { amount: 1 },
+  }));
+  route.end();
+
+  await intents.markChainIntentSubmitted(intent.intentId, "0xfeed");
+  await intents.markChainIntentConfirmed(intent.intentId, "0xfeed");
+
+  const failing = await tracing.withSpan(
+    tracing.startSpan("POST /shop/buy", { kind: "server" }),
+    () => intents.createChainIntent({ type: "test-mint", aggregateType: "wallet", aggregateKey: "0xdef", payload: {} })
+  );
+  await intents.markChainIntentPermanentFailure(failing.intentId, new Error("execution reverted: sold out"));
+
+  await tracing.flushSpans();
+  const spans = exportedSpans();
+  const routeSpan = spans.find((span) => span.name === "POST /character/create");
+  const intentSpan = spans.find((span) => span.name === "chain.intent"
+    && span.attributes.some((attr: any) => attr.key === "chain.intent.id" && attr.value.stringValue === intent.intentId));
+  const receiptSpan = spans.find((span) => span.name === "chain.receipt" && span.parentSpanId === intentSpan?.spanId);
+
+  assert(exports[0]?.headers["x-collector-key"] === "secret value", "OTEL_EXPORTER_OTLP_HEADERS are sent");
+  assert(
+    exports[0]?.body.resourceSpans[0].resource.attributes.some((attr: any) => attr.key === "service.name" && attr.value.stringValue === "wog-shard-test"),
+    "service.name comes from OTEL_SERVICE_NAME"
+  );
+  assert(routeSpan?.traceId === upstream!.traceId, "route span continues the incoming trace");
+  assert(routeSpan?.parentSpanId === upstream!.spanId, "route span is parented to the caller");
+  assert(routeSpan?.kind === 2, "route span is a server span");
+  assert(intentSpan?.parentSpanId === routeSpan?.spanId, "intent span is a child of the route span");
+  assert(intentSpan?.status.code === 1, "confirmed intent span is OK");
+  assert(
+    intentSpan?.events.map((event: any) => event.name).join(",") === "status.pending,status.submitted,status.confirmed",
+    "intent span records status transitions",
+    intentSpan?.events.map((event: any) => event.name)
+  );
+  assert(
+    receiptSpan?.attributes.some((attr: any) => attr.key === "chain.tx_hash" && attr.value.stringValue === "0xfeed"),
+    "receipt span carries the tx hash"
+  );
+  assert(receiptSpan?.traceId === upstream!.traceId, "receipt span shares the route's trace");
+
+  const failedSpan = spans.find((span) => span.name === "chain.intent"
+    && span.attributes.some((attr: any) => attr.key === "chain.intent.id" && attr.value.stringValue === failing.intentId));
+  assert(failedSpan?.status.code === 2, "permanently failed intent span is an error");
+  assert(String(failedSpan?.status.message).includes("sold out"), "error status carries the intent's last error");
+
+  const exportCount = exports.length;
+  await tracing.flushSpans();
+  assert(exports.length === exportCount, "flush with nothing queued sends nothing");
+}
+
+section("Chain intent queue depth");
+{
+  await intents.createChainIntent({ type: "test-mint", aggregateType: "wallet", aggregateKey: "0x123", payload: {} });
+  const rows = await intents.countChainIntentsByStatus();
+  const count = (status: string) => rows.find((row) => row.type === "test-mint" && row.status === status)?.count ?? 0;
+  assert(count("confirmed") === 1, "counts confirmed intents");
+  assert(count("failed_permanent") === 1, "counts failed intents separately");
+  assert(count("pending") === 1, "counts pending intents");
+}
+
+await tracing.stopTraceExporter();
+collector.close();
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
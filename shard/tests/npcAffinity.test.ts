@@ -0,0 +1,123 @@
+/**
+ * NPC affinity — tiers, discounts, gift caps, conversation sessions, memories
+ * Run with: npx tsx tests/npcAffinity.test.ts
+ */
+
+import {
+  MAX_NPC_MEMORIES,
+  NPC_CONVERSATION_SESSION_MS,
+  NPC_GIFT_DAILY_AFFINITY_CAP,
+  applyAffinityDiscount,
+  applyConversation,
+  applyGift,
+  applyQuestCompleted,
+  clampAffinity,
+  createNpcRelationship,
+  getGiftAffinityValue,
+  getMemorableMoment,
+  getNpcAffinityTier,
+  isAffinityTierAtLeast,
+  toPublicRelationship,
+} from "../src/social/npcAffinity.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const WALLET = "0xAbC0000000000000000000000000000000000001";
+const T0 = 1_700_000_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+section("Tiers and discounts");
+{
+  assert(getNpcAffinityTier(-100).id === "hostile" && getNpcAffinityTier(-31).id === "hostile", "deep negatives are hostile");
+  assert(getNpcAffinityTier(-30).id === "wary" && getNpcAffinityTier(0).id === "neutral", "tier thresholds are inclusive");
+  assert(getNpcAffinityTier(20).id === "friendly" && getNpcAffinityTier(100).id === "devoted", "positive tiers");
+  assert(isAffinityTierAtLeast(55, "trusted") && !isAffinityTierAtLeast(49, "trusted"), "tier comparison");
+  assert(clampAffinity(250) === 100 && clampAffinity(-250) === -100, "affinity is clamped");
+
+  assert(applyAffinityDiscount(1000, 0) === 1000, "no discount when neutral");
+  assert(applyAffinityDiscount(1000, 20) === 970, "friendly takes 3% off");
+  assert(applyAffinityDiscount(1000, 90) === 880, "devoted takes 12% off");
+  assert(applyAffinityDiscount(1, 90) === 1, "prices never drop below 1");
+}
+
+section("Gifts");
+{
+  assert(getGiftAffinityValue(0) === 1 && getGiftAffinityValue(20) === 1, "cheap gifts still count");
+  assert(getGiftAffinityValue(200 * 20) === 10, "gift value is capped");
+
+  const relationship = createNpcRelationship(WALLET, "Guard Captain Marcus", T0);
+  assert(relationship.walletAddress === WALLET.toLowerCase(), "wallets are stored lowercase");
+  let total = 0;
+  for (let i = 0; i < 5; i++) total += applyGift(relationship, "Iron Sword", 1, 10_000, T0 + i);
+  assert(total === NPC_GIFT_DAILY_AFFINITY_CAP, "gift affinity is capped per day", total);
+  assert(relationship.giftsGiven === 5, "every gift is counted");
+  assert(applyGift(relationship, "Iron Sword", 1, 10_000, T0 + DAY_MS) === 10, "the cap resets after a day");
+  assert(relationship.memories.at(-1)?.summary === "They gave me Iron Sword.", "gifts are remembered");
+
+  const trinkets = createNpcRelationship(WALLET, "Merchant Tobias", T0);
+  let trinketTotal = 0;
+  for (let i = 0; i < NPC_GIFT_DAILY_AFFINITY_CAP + 5; i++) {
+    trinketTotal += applyGift(trinkets, "Copper Ring", 1, 1, T0 + i);
+  }
+  assert(trinkets.memories.length === MAX_NPC_MEMORIES, "older gift memories are dropped");
+  assert(trinketTotal === NPC_GIFT_DAILY_AFFINITY_CAP, "dropped memories don't reopen the daily cap", trinketTotal);
+}
+
+section("Conversations");
+{
+  const relationship = createNpcRelationship(WALLET, "Scout Kaela", T0);
+  assert(applyConversation(relationship, "hello there", "greeting", T0) === 1, "first conversation raises affinity");
+  assert(applyConversation(relationship, "where next?", "quest_progress", T0 + 60_000) === 0, "same session adds nothing");
+  assert(relationship.memories.length === 1 && relationship.memories[0].summary.includes("where next?"),
+    "the session keeps its latest summary", relationship.memories);
+  assert(applyConversation(relationship, "back again", "greeting", T0 + NPC_CONVERSATION_SESSION_MS + 60_000) === 1,
+    "a new session raises affinity again");
+  assert(relationship.conversationCount === 3, "every message is counted");
+
+  const chatty = createNpcRelationship(WALLET, "Scout Kaela", T0);
+  applyConversation(chatty, "x".repeat(500), "lore", T0);
+  assert(chatty.memories[0].summary.length < 140, "summaries are clipped");
+}
+
+section("Quests and memories");
+{
+  const relationship = createNpcRelationship(WALLET, "Guard Captain Marcus", T0);
+  applyConversation(relationship, "hi", "greeting", T0);
+  assert(getMemorableMoment(relationship) === undefined, "conversations aren't brought up");
+  assert(applyQuestCompleted(relationship, "Rat Problem", T0 + 1000) === 10, "quests raise affinity");
+  assert(getMemorableMoment(relationship)?.kind === "quest", "a fresh quest is worth mentioning");
+  applyConversation(relationship, "thanks", "greeting", T0 + 2000);
+  assert(getMemorableMoment(relationship) === undefined, "moments are mentioned once");
+
+  for (let i = 0; i < MAX_NPC_MEMORIES + 5; i++) {
+    applyQuestCompleted(relationship, `Quest ${i}`, T0 + 10_000 + i);
+  }
+  assert(relationship.memories.length === MAX_NPC_MEMORIES, "memories are capped");
+  assert(relationship.memories.at(-1)?.summary.includes(`Quest ${MAX_NPC_MEMORIES + 4}`), "the newest memories are kept");
+  assert(relationship.affinity === 100, "affinity tops out at 100");
+
+  const view = toPublicRelationship(relationship);
+  assert(view.tier === "devoted" && view.shopDiscountPct === 12 && view.nextTier === null, "public view reports the tier", view);
+  assert(!("affinityDelta" in view.memories[0]), "public memories hide deltas");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
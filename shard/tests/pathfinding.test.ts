@@ -0,0 +1,177 @@
+/**
+ * Terrain pathfinding tests
+ * Run with: npx tsx tests/pathfinding.test.ts
+ *
+ * Builds small synthetic GeneratedMaps (ground 0 = grass, 16 = water,
+ * 26 = stone wall) for a zone that isn't in the world layout, so
+ * world-space coordinates equal zone-local coordinates.
+ */
+
+import { setGeneratedMap } from "../src/world/mapGenerator.js";
+import {
+  canStepBetween,
+  findPath,
+  getPathfindingStats,
+  isWalkableAt,
+  resetPathfindingBudget,
+  steerToward,
+} from "../src/world/pathfinding.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const GRASS = 0;
+const WATER = 16;
+const WALL = 26;
+
+/** Parse rows of "." (grass), "~" (water), "#" (wall), digits = elevation ×5 on grass. */
+function buildMap(zoneId: string, rows: string[]): void {
+  const height = rows.length;
+  const width = rows[0].length;
+  const ground: number[] = [];
+  const overlay: number[] = [];
+  const elevation: number[] = [];
+  for (const row of rows) {
+    for (const ch of row) {
+      ground.push(ch === "~" ? WATER : ch === "#" ? WALL : GRASS);
+      overlay.push(-1);
+      elevation.push(/\d/.test(ch) ? Number(ch) * 5 : 0);
+    }
+  }
+  setGeneratedMap({ zoneId, width, height, tileSize: 10, ground, overlay, elevation, biome: "grassland" });
+}
+
+function pathCrossesBlocked(zoneId: string, fromX: number, fromY: number, waypoints: { x: number; y: number }[]): boolean {
+  let prev = { x: fromX, y: fromY };
+  for (const wp of waypoints) {
+    if (!canStepBetween(zoneId, prev.x, prev.y, wp.x, wp.y)) return true;
+    prev = wp;
+  }
+  return false;
+}
+
+section("Line of sight");
+{
+  buildMap("pf-open", [
+    "..........",
+    "..........",
+    "..........",
+  ]);
+  const result = findPath("pf-open", 5, 5, 95, 25);
+  assert(result.status === "direct", "open ground walks straight", result);
+  assert(findPath("pf-no-map", 0, 0, 100, 100).status === "direct", "zones without terrain fall back to straight lines");
+}
+
+section("Walls");
+{
+  buildMap("pf-wall", [
+    "..........",
+    "....#.....",
+    "....#.....",
+    "....#.....",
+    "....#.....",
+    "..........",
+  ]);
+  const result = findPath("pf-wall", 15, 25, 75, 25);
+  assert(result.status === "found" && !result.partial, "routes around a wall", result);
+  if (result.status === "found") {
+    assert(!pathCrossesBlocked("pf-wall", 15, 25, result.waypoints), "waypoints never cross the wall", result.waypoints);
+    assert(result.waypoints.length <= 4, "path is smoothed to a few waypoints", result.waypoints.length);
+  }
+  assert(!canStepBetween("pf-wall", 35, 25, 55, 25), "a single step through the wall is rejected");
+  assert(!isWalkableAt("pf-wall", 45, 25), "wall tile is not walkable");
+}
+
+section("Water and unreachable goals");
+{
+  buildMap("pf-island", [
+    "..........",
+    "..~~~~~...",
+    "..~...~...",
+    "..~...~...",
+    "..~~~~~...",
+    "..........",
+  ]);
+  const result = findPath("pf-island", 5, 5, 45, 25);
+  assert(result.status === "found" && result.partial, "goal on an island is reported as partial", result);
+
+  const steerer = { x: 5, y: 5, region: "pf-island" };
+  let settled = false;
+  for (let tick = 0; tick < 40 && !settled; tick++) {
+    const steer = steerToward(steerer, 45, 25, tick);
+    settled = steer.settled;
+    if (!settled) {
+      const dx = steer.x - steerer.x;
+      const dy = steer.y - steerer.y;
+      const dist = Math.hypot(dx, dy);
+      const step = Math.min(10, dist);
+      if (dist > 0) {
+        steerer.x += (dx / dist) * step;
+        steerer.y += (dy / dist) * step;
+      }
+    }
+  }
+  assert(settled, "steering settles at the closest reachable point");
+  assert(isWalkableAt("pf-island", steerer.x, steerer.y), "settled position is on land", steerer);
+}
+
+section("Elevation");
+{
+  buildMap("pf-cliff", [
+    "...9......",
+    "...9......",
+    "...9......",
+    "..........",
+  ]);
+  assert(!canStepBetween("pf-cliff", 25, 5, 35, 5), "cannot climb a cliff edge in one step");
+  const result = findPath("pf-cliff", 15, 5, 65, 5);
+  assert(result.status === "found" && !result.partial, "routes around a cliff", result);
+}
+
+section("Cache and budget");
+{
+  buildMap("pf-cache", [
+    "..........",
+    "....#.....",
+    "....#.....",
+    "....#.....",
+    "..........",
+  ]);
+  resetPathfindingBudget();
+  const before = getPathfindingStats();
+  findPath("pf-cache", 15, 25, 75, 25);
+  findPath("pf-cache", 15, 25, 75, 25);
+  const after = getPathfindingStats();
+  assert(after.searches - before.searches === 1, "second identical query does not search again", after);
+  assert(after.cacheHits - before.cacheHits === 1, "second identical query hits the cache", after);
+
+  buildMap("pf-cache", [
+    "..........",
+    "....#.....",
+    "....#.....",
+    "....#.....",
+    "..........",
+  ]);
+  findPath("pf-cache", 15, 25, 75, 25);
+  assert(getPathfindingStats().searches - after.searches === 1, "replacing the terrain invalidates cached paths");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,115 @@
+/**
+ * Quest content — file parsing and whole-catalog validation
+ * Run with: npx tsx tests/questContent.test.ts
+ */
+
+import {
+  loadQuestContent,
+  loadQuestReferenceData,
+  parseQuestContentFile,
+  validateQuestCatalog,
+  type QuestReferenceData,
+} from "../src/social/questContent.js";
+import type { Quest } from "../src/social/questSystem.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const REFS: QuestReferenceData = {
+  npcNames: new Set(["Ranger Thornwood", "Druid Caelum"]),
+  mobNames: new Set(["Forest Bear", "Venom Spider"]),
+  zoneIds: new Set(["wild-meadow"]),
+};
+
+function quest(id: string, overrides: Partial<Quest> = {}): Quest {
+  return {
+    id,
+    title: id,
+    description: `Quest ${id}`,
+    npcId: "Ranger Thornwood",
+    objective: { type: "kill", targetMobType: "mob", targetMobName: "Forest Bear", count: 2 },
+    rewards: { copper: 50, xp: 100 },
+    ...overrides,
+  };
+}
+
+function messages(quests: Quest[]): string[] {
+  return validateQuestCatalog(quests, REFS).filter((issue) => issue.severity === "error").map((issue) => issue.message);
+}
+
+section("Parsing");
+{
+  const parsed = parseQuestContentFile({ version: 1, quests: [quest("a"), { id: "b", title: "B" }] }, "test.json");
+  assert(parsed.quests.length === 1 && parsed.quests[0].id === "a", "malformed quests are dropped");
+  assert(parsed.issues.length > 0 && parsed.issues.every((issue) => issue.questId === "b" && issue.file === "test.json"),
+    "and reported against their file and id", parsed.issues);
+
+  const badObjective = parseQuestContentFile({ version: 1, quests: [quest("c", { objective: { type: "escort", count: 1 } })] }, "x.json");
+  assert(badObjective.quests.length === 0 && badObjective.issues.length === 2, "objectives go through the objective validator", badObjective.issues);
+
+  assert(parseQuestContentFile({ version: 2, quests: [] }, "v2.json").issues[0]?.message.includes("version"), "unknown versions are rejected");
+}
+
+section("Catalog checks");
+{
+  assert(messages([quest("a"), quest("b", { prerequisiteQuestId: "a" })]).length === 0, "a clean chain has no errors");
+  assert(messages([quest("a"), quest("a")]).includes("duplicate quest id"), "duplicate ids");
+
+  const cycle = messages([quest("a", { prerequisiteQuestId: "c" }), quest("b", { prerequisiteQuestId: "a" }), quest("c", { prerequisiteQuestId: "b" })]);
+  assert(cycle.filter((message) => message.startsWith("prerequisite cycle")).length === 1, "a cycle is reported once", cycle);
+  assert(cycle.filter((message) => message.startsWith("rewards are unreachable")).length === 3, "every quest in it is unreachable", cycle);
+
+  const unknown = messages([
+    quest("giver", { npcId: "Nobody" }),
+    quest("mob", { objective: { type: "kill", targetMobType: "mob", targetMobName: "Dragon", count: 1 } }),
+    quest("talk", { objective: { type: "talk", targetNpcName: "Somebody", count: 1 } }),
+    quest("zone", { objective: { type: "reach", location: { zoneId: "the-moon" }, count: 1 } }),
+  ]);
+  assert(unknown.includes('unknown quest giver "Nobody"'), "unknown quest givers", unknown);
+  assert(unknown.some((message) => message.includes('unknown mob "Dragon"')), "unknown mobs");
+  assert(unknown.some((message) => message.includes('unknown NPC "Somebody"')), "unknown talk targets");
+  assert(unknown.some((message) => message.includes('unknown zone "the-moon"')), "unknown zones");
+
+  const items = messages([
+    quest("reward", { rewards: { copper: 0, xp: 10, items: [{ tokenId: 999999, quantity: 1 }] } }),
+    quest("deliver", { objective: { type: "deliver", tokenId: 999999, count: 1 } }),
+  ]);
+  assert(items.some((message) => message.includes("reward item tokenId 999999")), "unknown reward items", items);
+  assert(items.some((message) => message.includes("unknown item tokenId 999999")), "unknown delivery items");
+
+  const downstream = messages([quest("a", { npcId: "Nobody" }), quest("b", { prerequisiteQuestId: "a" }), quest("c", { prerequisiteQuestId: "b" })]);
+  assert(downstream.some((message) => message.startsWith('rewards are unreachable: prerequisite "a"')), "broken quests make later ones unreachable", downstream);
+  assert(messages([quest("b", { prerequisiteQuestId: "missing" })]).includes('unknown prerequisite "missing"'), "missing prerequisites");
+
+  const flags = validateQuestCatalog([quest("a", { requiredStoryFlags: ["never:set"] })], REFS);
+  assert(flags.length === 1 && flags[0].severity === "warning", "unset story flags only warn", flags);
+}
+
+section("Shipped content");
+{
+  const content = loadQuestContent();
+  const issues = [...content.issues, ...validateQuestCatalog(content.quests, loadQuestReferenceData())];
+  const errors = issues.filter((issue) => issue.severity === "error");
+  assert(content.quests.length > 0, "quest files load", content.files);
+  assert(errors.length === 0, "world/content/quests validates", errors);
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,156 @@
+/**
+ * Quest graph content — parsing raw arc/scene graphs written by the map tool's editor
+ * Run with: npx tsx tests/questGraphContent.test.ts
+ */
+
+import { parseQuestArcDefinition, parseQuestSceneDefinition } from "../src/social/questGraphs/data/contentLoader.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function throwsMatching(fn: () => unknown, pattern: RegExp): boolean {
+  try {
+    fn();
+    return false;
+  } catch (err) {
+    return pattern.test((err as Error).message);
+  }
+}
+
+function scene(nodes: Record<string, unknown>, overrides: Record<string, unknown> = {}) {
+  return { id: "intro", npcName: "Guard Captain Marcus", title: "Intro", startNodeId: "start", nodes, ...overrides };
+}
+
+const FULL_SCENE = scene({
+  start: { id: "start", type: "line", speaker: "npc", text: "Halt.", next: "ask" },
+  ask: {
+    id: "ask",
+    type: "choice",
+    speaker: "npc",
+    text: "Business?",
+    choices: [
+      { id: "help", label: "I can help", next: "check", style: "primary", effects: [{ type: "set_story_flag", flag: "offered_help" }] },
+      { id: "leave", label: "Leaving", next: null, condition: { type: "level_at_least", level: 2 } },
+    ],
+  },
+  check: {
+    id: "check",
+    type: "branch",
+    branches: [{ condition: { type: "has_story_flag", flag: "offered_help" }, next: "reward" }],
+    fallbackNext: "talk",
+  },
+  reward: { id: "reward", type: "effect", effects: [{ type: "grant_gold", copper: 50 }], next: "talk" },
+  talk: {
+    id: "talk",
+    type: "freeform",
+    speaker: "npc",
+    text: "Anything else?",
+    prompt: "Ask him something",
+    routes: [{ id: "bye", label: "Goodbye", intents: ["farewell"], phrases: ["bye"], next: "done" }],
+  },
+  done: { id: "done", type: "end", text: "He nods." },
+});
+
+// ── Scenes ──────────────────────────────────────────────────────────
+
+section("parseQuestSceneDefinition");
+
+{
+  const parsed = parseQuestSceneDefinition(FULL_SCENE, "scene");
+  assert(Object.keys(parsed.nodes).length === 6, "parses every node type");
+  const ask = parsed.nodes.ask;
+  assert(ask.type === "choice" && ask.choices[0].effects?.[0].type === "set_story_flag", "keeps choice effects");
+  assert(ask.type === "choice" && ask.choices[1].next === null, "keeps explicit null next");
+  const talk = parsed.nodes.talk;
+  assert(talk.type === "freeform" && talk.routes[0].phrases?.[0] === "bye", "keeps freeform phrases");
+  assert(parsed.entryCondition === undefined, "entry condition stays optional");
+}
+
+assert(
+  throwsMatching(
+    () => parseQuestSceneDefinition(scene({ start: { id: "other", type: "end" } }), "scene"),
+    /nodes\.start\.id must match its key/,
+  ),
+  "rejects a node whose id differs from its key",
+);
+assert(
+  throwsMatching(
+    () => parseQuestSceneDefinition(scene({ start: { id: "start", type: "teleport" } }), "scene"),
+    /"teleport" is not a node type/,
+  ),
+  "rejects unknown node types",
+);
+assert(
+  throwsMatching(
+    () => parseQuestSceneDefinition(scene({ start: { id: "start", type: "line", speaker: "narrator", text: "Hi" } }), "scene"),
+    /speaker must be npc, player or system/,
+  ),
+  "rejects unknown speakers",
+);
+assert(
+  throwsMatching(
+    () => parseQuestSceneDefinition(scene({ start: { id: "start", type: "line", speaker: "npc", text: "Hi", next: "" } }), "scene"),
+    /next must be a node id or null/,
+  ),
+  "rejects empty next links",
+);
+assert(
+  throwsMatching(
+    () =>
+      parseQuestSceneDefinition(
+        scene({ start: { id: "start", type: "effect", effects: [{ flag: "x" }] } }),
+        "scene",
+      ),
+    /effects\[0\]\.type/,
+  ),
+  "rejects effects without a type",
+);
+
+// ── Arcs ────────────────────────────────────────────────────────────
+
+section("parseQuestArcDefinition");
+
+const ARC = {
+  id: "editor-arc",
+  title: "Editor Arc",
+  summary: "Made in the graph editor.",
+  zoneIds: ["village-square"],
+  tags: ["authored"],
+  startingSceneId: "intro",
+  scenes: { intro: FULL_SCENE },
+};
+
+{
+  const parsed = parseQuestArcDefinition(ARC, "arc");
+  assert(parsed.id === "editor-arc" && parsed.startingSceneId === "intro", "reads arc meta");
+  assert(parsed.scenes.intro?.nodes.done?.type === "end", "reads scenes by id");
+}
+
+assert(
+  throwsMatching(() => parseQuestArcDefinition({ ...ARC, scenes: { other: FULL_SCENE } }, "arc"), /scenes\.other\.id must match/),
+  "rejects a scene whose id differs from its key",
+);
+assert(
+  throwsMatching(() => parseQuestArcDefinition({ ...ARC, title: "" }, "arc"), /arc\.title must be a non-empty string/),
+  "rejects missing meta",
+);
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
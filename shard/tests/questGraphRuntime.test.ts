@@ -0,0 +1,168 @@
+/**
+ * Quest graph runtime — committed scenes advance only from where the player stands, and grants pay out once
+ * Run with: npx tsx tests/questGraphRuntime.test.ts
+ */
+
+process.env.JWT_SECRET ??= "quest-graph-runtime-test";
+process.env.ENCRYPTION_KEY ??= "quest-graph-runtime-test";
+process.env.SHARD_CHAIN_ENV = "local";
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+delete process.env.DATABASE_URL;
+process.env.REDIS_ALLOW_MEMORY_FALLBACK = "true";
+
+await import("../src/config/devLocalContracts.js");
+
+const { advanceQuestGraphScene, startQuestGraphScene } = await import("../src/social/questGraphs/runtime.js");
+const { cloneQuestGraphPlayerState } = await import("../src/social/questGraphs/effects.js");
+type QuestArcDefinition = import("../src/social/questGraphs/types.js").QuestArcDefinition;
+type Entity = import("../src/world/zoneRuntime.js").Entity;
+type StepResult = Awaited<ReturnType<typeof advanceQuestGraphScene>>;
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const ARC: QuestArcDefinition = {
+  id: "bounty",
+  title: "Bounty",
+  summary: "A captain pays out a bounty.",
+  zoneIds: ["village-square"],
+  tags: [],
+  startingSceneId: "payout",
+  scenes: {
+    payout: {
+      id: "payout",
+      npcName: "Guard Captain Marcus",
+      title: "Payout",
+      startNodeId: "offer",
+      nodes: {
+        offer: {
+          id: "offer",
+          type: "choice",
+          speaker: "npc",
+          text: "Here's your bounty.",
+          choices: [
+            { id: "take", label: "Take it", next: "thanks", effects: [{ type: "grant_gold", copper: 50 }] },
+            { id: "vault", label: "Open the vault", next: "vault", condition: { type: "has_story_flag", flag: "captain_trusts_you" } },
+          ],
+        },
+        vault: {
+          id: "vault",
+          type: "choice",
+          speaker: "npc",
+          text: "Take what you need.",
+          choices: [{ id: "loot", label: "Help yourself", next: "thanks", effects: [{ type: "grant_gold", copper: 5000 }] }],
+        },
+        thanks: { id: "thanks", type: "line", speaker: "npc", text: "Spend it well.", next: "done" },
+        done: { id: "done", type: "end", text: "The captain returns to his post." },
+      },
+    },
+  },
+};
+
+const player: Entity = {
+  id: "player-1",
+  type: "player",
+  name: "Tester",
+  x: 0,
+  y: 0,
+  hp: 100,
+  maxHp: 100,
+  createdAt: Date.now(),
+  level: 5,
+  xp: 0,
+  walletAddress: "0x00000000000000000000000000000000000c0ffe",
+  storyFlags: [],
+  completedQuests: [],
+  activeQuests: [],
+  learnedTechniques: [],
+};
+
+function commitContext(target: Entity = player) {
+  return { player: target, arcId: ARC.id, sceneId: "payout", commit: true, material: { copper: 0, items: new Map(), reputation: null } };
+}
+
+function goldGranted(results: StepResult[]): number {
+  return results
+    .flatMap((result) => result.appliedEffects)
+    .filter((entry) => entry.effect.type === "grant_gold" && entry.applied).length;
+}
+
+section("Committed scene steps");
+{
+  const start = await startQuestGraphScene(ARC, "payout", commitContext());
+  assert(start.node.id === "offer", "starting the scene shows the first choice", start.node);
+
+  const [first, second] = await Promise.all([
+    advanceQuestGraphScene(ARC, "payout", "offer", { choiceId: "take" }, commitContext()),
+    advanceQuestGraphScene(ARC, "payout", "offer", { choiceId: "take" }, commitContext()),
+  ]);
+  assert(goldGranted([first, second]) === 1, "two requests for the same choice grant once");
+  assert(
+    [first.node.id, second.node.id].sort().join(",") === "__out_of_step__,thanks",
+    "the duplicate request is turned away",
+    [first.node.id, second.node.id]
+  );
+
+  const replay = await advanceQuestGraphScene(ARC, "payout", "offer", { choiceId: "take" }, commitContext());
+  assert(replay.node.id === "__out_of_step__" && goldGranted([replay]) === 0, "replaying the choice later grants nothing");
+
+  const onward = await advanceQuestGraphScene(ARC, "payout", "thanks", {}, commitContext());
+  assert(onward.node.id === "done", "the scene still advances from where the player stands", onward.node);
+  const afterEnd = await advanceQuestGraphScene(ARC, "payout", "thanks", {}, commitContext());
+  assert(afterEnd.node.id === "__out_of_step__", "a finished scene can't be advanced");
+}
+
+section("Restarting the scene");
+{
+  await startQuestGraphScene(ARC, "payout", commitContext());
+  const again = await advanceQuestGraphScene(ARC, "payout", "offer", { choiceId: "take" }, commitContext());
+  assert(again.node.id === "thanks", "a restarted scene plays through");
+  assert(goldGranted([again]) === 0, "its grant isn't paid a second time");
+  assert(
+    again.appliedEffects.some((entry) => entry.reason === "Already received"),
+    "the skipped grant says why",
+    again.appliedEffects
+  );
+  assert(
+    (player.questGraphGrants ?? []).filter((key) => key === "bounty:payout:offer:take").length === 1,
+    "the grant is recorded once on the player",
+    player.questGraphGrants
+  );
+}
+
+section("Skipping ahead");
+{
+  await startQuestGraphScene(ARC, "payout", commitContext());
+  const skipped = await advanceQuestGraphScene(ARC, "payout", "vault", { choiceId: "loot" }, commitContext());
+  assert(skipped.node.id === "__out_of_step__" && goldGranted([skipped]) === 0, "a node behind an unmet condition can't be advanced from");
+  const resumed = await advanceQuestGraphScene(ARC, "payout", "offer", { choiceId: "vault" }, commitContext());
+  assert(resumed.node.id === "offer", "a hidden choice leaves the player where they were", resumed.node);
+
+  const preview = cloneQuestGraphPlayerState({ ...player, questGraphGrants: [] });
+  const previewed = await advanceQuestGraphScene(ARC, "payout", "vault", { choiceId: "loot" }, {
+    ...commitContext(preview),
+    commit: false,
+  });
+  assert(goldGranted([previewed]) === 1, "previews still simulate any node");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
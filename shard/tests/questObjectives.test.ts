@@ -0,0 +1,136 @@
+/**
+ * Quest objectives — multi-objective progress, event matching, locations, validation
+ * Run with: npx tsx tests/questObjectives.test.ts
+ */
+
+import {
+  applyQuestObjectiveEvent,
+  areQuestObjectivesMet,
+  describeQuestObjective,
+  doesEventCountForObjective,
+  getObjectiveProgress,
+  isAtQuestLocation,
+  isGateRankAtLeast,
+  isObjectiveMet,
+  setObjectiveProgress,
+  validateQuestObjective,
+  type QuestObjectiveProgress,
+  type QuestWithObjectives,
+} from "../src/social/questObjectives.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const HUNT: QuestWithObjectives = {
+  npcId: "Ranger Thornwood",
+  objective: { type: "kill", targetMobType: "mob", targetMobName: "Forest Bear", count: 2 },
+  extraObjectives: [
+    { type: "kill", targetMobType: "mob", targetMobName: "Venom Spider", count: 3 },
+    { type: "talk", targetNpcName: "Druid Caelum", count: 1 },
+  ],
+};
+
+section("Progress");
+{
+  const active: QuestObjectiveProgress = { progress: 0 };
+  setObjectiveProgress(active, 2, 1);
+  assert(active.extraProgress?.length === 2 && active.extraProgress[0] === 0, "extra progress is padded", active);
+  assert(getObjectiveProgress(active, 2) === 1 && getObjectiveProgress(active, 0) === 0, "progress is read per objective");
+  setObjectiveProgress(active, 0, 2);
+  assert(active.progress === 2, "the primary objective keeps using progress");
+  assert(getObjectiveProgress({ progress: 1 }, 1) === 0, "missing extra progress reads as zero");
+}
+
+section("Events");
+{
+  const active: QuestObjectiveProgress = { progress: 0 };
+  const bear = { type: "kill", mobType: "mob", mobName: "Forest Bear" } as const;
+  assert(applyQuestObjectiveEvent(HUNT, active, bear).length === 1, "a bear kill advances one objective");
+  applyQuestObjectiveEvent(HUNT, active, bear);
+  assert(applyQuestObjectiveEvent(HUNT, active, bear).length === 0 && active.progress === 2, "finished objectives stop counting");
+  assert(!areQuestObjectivesMet(HUNT, active), "one objective done isn't the quest done");
+
+  for (let i = 0; i < 3; i++) {
+    applyQuestObjectiveEvent(HUNT, active, { type: "kill", mobType: "mob", mobName: "Venom Spider" });
+  }
+  const talk = applyQuestObjectiveEvent(HUNT, active, { type: "talk", npcName: "Druid Caelum" });
+  assert(talk.length === 1 && talk[0].objectiveIndex === 2 && talk[0].progress === 1, "talking completes a talk objective", talk);
+  assert(areQuestObjectivesMet(HUNT, active), "all objectives done completes the quest", active);
+
+  const gather = { type: "gather" as const, targetItemName: "Meadow Lily", count: 3 };
+  assert(doesEventCountForObjective(gather, { type: "item", itemName: "Meadow Lily Patch" }), "item names match by substring");
+  assert(!doesEventCountForObjective(gather, { type: "kill", mobType: "mob", mobName: "Meadow Lily" }), "kills don't count as gathering");
+
+  const dungeon = { type: "clear_dungeon" as const, gateRank: "C" as const, count: 1 };
+  assert(doesEventCountForObjective(dungeon, { type: "clear_dungeon", gateRank: "A" }), "higher gate ranks count");
+  assert(!doesEventCountForObjective(dungeon, { type: "clear_dungeon", gateRank: "D" }), "lower gate ranks don't");
+  assert(isGateRankAtLeast("S", "E") && !isGateRankAtLeast("E", "S"), "gate ranks are ordered E to S");
+
+  const technique = { type: "use_technique" as const, techniqueId: "warrior_cleave", count: 5 };
+  assert(doesEventCountForObjective(technique, { type: "use_technique", techniqueId: "warrior_cleave" }), "the named technique counts");
+  assert(!doesEventCountForObjective(technique, { type: "use_technique", techniqueId: "warrior_charge" }), "other techniques don't");
+  assert(doesEventCountForObjective({ type: "pvp_win", count: 1 }, { type: "pvp_win" }), "PvP wins count");
+}
+
+section("Deliveries");
+{
+  const toGiver: QuestWithObjectives = {
+    npcId: "Ranger Thornwood",
+    objective: { type: "deliver", tokenId: 0, count: 2 },
+  };
+  assert(isObjectiveMet(toGiver, { progress: 0 }, 0), "deliveries to the quest giver don't block turn-in");
+
+  const toOther: QuestWithObjectives = {
+    npcId: "Ranger Thornwood",
+    objective: { type: "reach", location: { zoneId: "wild-meadow" }, count: 1 },
+    extraObjectives: [{ type: "deliver", tokenId: 0, targetNpcName: "Druid Caelum", count: 2 }],
+  };
+  assert(!isObjectiveMet(toOther, { progress: 1 }, 1), "deliveries to other NPCs must be made first");
+  assert(isObjectiveMet(toOther, { progress: 1, extraProgress: [2] }, 1), "a made delivery is met");
+}
+
+section("Locations");
+{
+  const grove = { zoneId: "wild-meadow", x: 160, y: 140, radius: 40 };
+  assert(isAtQuestLocation({ x: 180, y: 150, region: "wild-meadow" }, grove), "inside the radius");
+  assert(!isAtQuestLocation({ x: 260, y: 140, region: "wild-meadow" }, grove), "outside the radius");
+  assert(!isAtQuestLocation({ x: 160, y: 140, region: "dark-forest" }, grove), "the region must match");
+  assert(isAtQuestLocation({ x: 9999, y: 9999, region: "wild-meadow" }, { zoneId: "wild-meadow" }), "a bare zone covers the region");
+}
+
+section("Descriptions and validation");
+{
+  assert(describeQuestObjective({ type: "escort", escortNpcName: "Wounded Scout", location: { zoneId: "wild-meadow", label: "the grove" }, count: 1 })
+    === "Escort Wounded Scout to the grove", "escort description");
+  assert(describeQuestObjective({ type: "survive", location: { zoneId: "wild-meadow" }, count: 30 })
+    === "Survive 30 ticks in wild-meadow", "survive falls back to the zone id");
+  assert(describeQuestObjective({ type: "pvp_win", count: 1, label: "Win a duel" }) === "Win a duel", "labels override");
+
+  assert(validateQuestObjective({ type: "kill", targetMobType: "mob", count: 3 }).length === 0, "a kill objective is valid");
+  assert(validateQuestObjective({ type: "escort", count: 1 }).length === 2, "escorts need a charge and a destination",
+    validateQuestObjective({ type: "escort", count: 1 }));
+  assert(validateQuestObjective({ type: "reach", location: { zoneId: "wild-meadow", x: 10 }, count: 2 }).length === 2,
+    "half a coordinate and a count over 1 are rejected");
+  assert(validateQuestObjective({ type: "deliver", count: 0 }).length === 2, "deliveries need a token and a count");
+  assert(validateQuestObjective({ type: "fly" as never, count: 1 })[0]?.includes("unknown"), "unknown types are rejected");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
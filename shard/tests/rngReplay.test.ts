@@ -0,0 +1,196 @@
+/**
+ * Deterministic RNG service — seeding, stream isolation, record/replay
+ * Run with: npx tsx tests/rngReplay.test.ts
+ */
+
+import {
+  getRngRecording,
+  replayRngRecording,
+  type RngRecording,
+  type ZoneReplayDriver,
+  rngFloat,
+  setRngSeed,
+  setRngTick,
+  startRngRecording,
+  stopRngRecording,
+  withRecordedRng,
+} from "../src/world/rng.js";
+import { rollCopper, rollDrops, type LootDrop } from "../src/items/lootTables.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const DROPS: LootDrop[] = [
+  { tokenId: 1n, minQuantity: 1, maxQuantity: 3, chance: 0.5 },
+  { tokenId: 2n, minQuantity: 1, maxQuantity: 1, chance: 0.1 },
+  { tokenId: 3n, minQuantity: 2, maxQuantity: 5, chance: 0.9 },
+];
+
+/** Simulate a short run of ticks in one zone: combat + loot rolls each tick. */
+function simulate(seed: string, zoneId: string, ticks: number): string[] {
+  setRngSeed(seed);
+  const out: string[] = [];
+  for (let tick = 1; tick <= ticks; tick++) {
+    setRngTick(tick);
+    const crit = rngFloat("combat", zoneId) < 0.2;
+    const drops = rollDrops(DROPS, zoneId).map((d) => `${d.tokenId}x${d.quantity}`).join(",");
+    out.push(`${tick}:${crit ? "crit" : "hit"}:${drops}:${rollCopper(1, 10, zoneId)}`);
+  }
+  return out;
+}
+
+section("Seeding");
+{
+  const a = simulate("seed-a", "village-square", 25);
+  const b = simulate("seed-a", "village-square", 25);
+  const c = simulate("seed-b", "village-square", 25);
+  assert(JSON.stringify(a) === JSON.stringify(b), "same seed produces identical outcomes");
+  assert(JSON.stringify(a) !== JSON.stringify(c), "different seeds diverge");
+  const other = simulate("seed-a", "wild-meadow", 25);
+  assert(JSON.stringify(a) !== JSON.stringify(other), "zones get independent streams");
+}
+
+section("Stream isolation");
+{
+  setRngSeed("iso");
+  setRngTick(7);
+  const baseline = [rngFloat("combat", "z"), rngFloat("combat", "z")];
+
+  setRngSeed("iso");
+  setRngTick(7);
+  rngFloat("loot", "z");
+  rngFloat("loot", "z");
+  const withLoot = [rngFloat("combat", "z"), rngFloat("combat", "z")];
+  assert(JSON.stringify(baseline) === JSON.stringify(withLoot), "extra loot rolls never shift combat rolls");
+
+  setRngTick(8);
+  assert(rngFloat("combat", "z") !== baseline[0], "each tick re-seeds its streams");
+}
+
+section("Record and replay");
+{
+  setRngSeed("replay-seed");
+  setRngTick(100);
+  startRngRecording("arena", [{ id: "mob-1", hp: 30 }]);
+  const live: string[] = [];
+  for (let tick = 100; tick < 110; tick++) {
+    setRngTick(tick);
+    live.push(JSON.stringify(rollDrops(DROPS, "arena").map((d) => [String(d.tokenId), d.quantity])));
+    rngFloat("combat", "other-zone"); // not recorded
+  }
+  const recording = stopRngRecording("arena")!;
+  assert(getRngRecording("arena") === undefined, "stopping removes the active recording");
+  assert(recording.draws.length > 0 && recording.draws.every((d) => d.stream === "loot"), "only the recorded zone's draws are captured", recording.draws.length);
+  assert(recording.snapshot.length === 1, "entity snapshot travels with the recording");
+
+  const verified = replayRngRecording(recording);
+  assert(verified.mismatches.length === 0, "re-deriving from the seed reproduces every draw", verified.mismatches.slice(0, 3));
+  assert(verified.ticks === 10, "replay covers every recorded tick", verified.ticks);
+
+  const tampered = { ...recording, draws: recording.draws.map((d, i) => (i === 0 ? { ...d, value: 0.999 } : d)) };
+  assert(replayRngRecording(tampered).mismatches.length === 1, "a tampered draw is reported");
+
+  // Feed the recording back into the roll functions with a different live seed.
+  setRngSeed("something-else");
+  const replayed = withRecordedRng(recording, () => {
+    const out: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      out.push(JSON.stringify(rollDrops(DROPS, "arena").map((d) => [String(d.tokenId), d.quantity])));
+    }
+    return out;
+  });
+  assert(JSON.stringify(replayed) === JSON.stringify(live), "recorded draws reproduce identical drops");
+
+  let threw = false;
+  try {
+    withRecordedRng(recording, () => rngFloat("combat", "arena"));
+  } catch {
+    threw = true;
+  }
+  assert(threw, "a roll the recording can't serve throws instead of using the live generator");
+}
+
+section("Tick replay against the snapshot");
+{
+  type Mob = { id: string; hp: number; loot: string[] };
+
+  /** One zone tick: every living mob takes a hit and rolls drops when it dies. */
+  function tickArena(mobs: Mob[], zoneId: string): void {
+    for (const mob of mobs) {
+      if (mob.hp <= 0) continue;
+      mob.hp -= rngFloat("combat", zoneId) < 0.25 ? 18 : 9;
+      if (mob.hp <= 0) mob.loot = rollDrops(DROPS, zoneId).map((d) => `${d.tokenId}x${d.quantity}`);
+    }
+  }
+
+  function driverFor(zoneId: string, extraRoll = false): ZoneReplayDriver {
+    let mobs: Mob[] = [];
+    return {
+      restore: (snapshot) => { mobs = snapshot as unknown as Mob[]; },
+      tick: () => {
+        tickArena(mobs, zoneId);
+        if (extraRoll) rngFloat("loot", zoneId);
+      },
+      capture: () => mobs as unknown as Record<string, unknown>[],
+    };
+  }
+
+  setRngSeed("tick-replay");
+  setRngTick(200);
+  const mobs: Mob[] = [
+    { id: "wolf", hp: 40, loot: [] },
+    { id: "bear", hp: 70, loot: [] },
+  ];
+  startRngRecording("den", structuredClone(mobs) as unknown as Record<string, unknown>[]);
+  for (let tick = 201; tick <= 208; tick++) {
+    setRngTick(tick);
+    tickArena(mobs, "den");
+  }
+  const recording = stopRngRecording("den", structuredClone(mobs) as unknown as Record<string, unknown>[])!;
+  assert(recording.finalSnapshot?.length === 2, "stopping stores the final snapshot");
+
+  setRngSeed("a-different-boot");
+  const result = replayRngRecording(recording, driverFor("den"));
+  assert(result.state?.ticks === 8, "every recorded tick is re-run", result.state);
+  assert(result.state?.error === undefined, "replayed ticks are served from the recording", result.state?.error);
+  assert(result.state?.unusedDraws === 0, "replayed ticks use every recorded draw", result.state?.unusedDraws);
+  assert(result.state?.mismatches.length === 0, "replayed state matches the final snapshot", result.state?.mismatches);
+  assert(mobs.every((mob) => mob.hp <= 0), "fixture actually reaches the loot rolls");
+
+  const edited: RngRecording = {
+    ...recording,
+    finalSnapshot: recording.finalSnapshot!.map((mob) => (mob.id === "bear" ? { ...mob, hp: 5 } : mob)),
+  };
+  const diverged = replayRngRecording(edited, driverFor("den")).state!;
+  assert(
+    diverged.mismatches.length === 1 && diverged.mismatches[0].entityId === "bear" && diverged.mismatches[0].field === "hp",
+    "a state divergence is reported per entity field",
+    diverged.mismatches
+  );
+
+  const extra = replayRngRecording(recording, driverFor("den", true)).state!;
+  assert(typeof extra.error === "string" && extra.error.startsWith("Tick "), "a tick that rolls more than was recorded fails the replay", extra.error);
+
+  const unstopped = replayRngRecording({ ...recording, finalSnapshot: undefined }, driverFor("den")).state!;
+  assert(unstopped.error !== undefined && unstopped.ticks === 0, "recordings without a stop snapshot can't be tick-replayed");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,125 @@
+/**
+ * Spatial index — radius queries, region membership, incremental re-filing
+ * Run with: npx tsx tests/spatialIndex.test.ts
+ */
+
+import { EntitySpatialIndex, SPATIAL_CELL_SIZE } from "../src/world/spatialIndex.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+interface TestEntity {
+  id: string;
+  x: number;
+  y: number;
+  region?: string;
+}
+
+function ids(items: TestEntity[]): string[] {
+  return items.map((item) => item.id).sort();
+}
+
+function build(entities: TestEntity[]): EntitySpatialIndex<TestEntity> {
+  const index = new EntitySpatialIndex<TestEntity>();
+  for (const entity of entities) index.set(entity.id, entity);
+  return index;
+}
+
+// ── Radius queries ──────────────────────────────────────────────────
+
+section("queryRadius");
+
+{
+  const a = { id: "a", x: 10, y: 10, region: "village" };
+  const b = { id: "b", x: 60, y: 10, region: "village" };
+  const c = { id: "c", x: SPATIAL_CELL_SIZE * 3, y: 10, region: "village" };
+  const d = { id: "d", x: 20, y: 20, region: "meadow" };
+  const e = { id: "e", x: -40, y: -40, region: "village" };
+  const index = build([a, b, c, d, e]);
+
+  assert(JSON.stringify(ids(index.queryRadius(10, 10, 55))) === '["a","b","d"]', "finds items across neighbouring cells", ids(index.queryRadius(10, 10, 55)));
+  assert(JSON.stringify(ids(index.queryRadius(10, 10, 55, "village"))) === '["a","b"]', "filters by region");
+  assert(index.queryRadius(10, 10, 49).every((item) => item.id !== "b"), "excludes items just outside the radius");
+  assert(ids(index.queryRadius(0, 0, 60)).includes("e"), "handles negative coordinates");
+  assert(index.queryRadius(10, 10, Infinity).length === 5, "an infinite radius returns everything");
+  assert(index.queryRadius(10, 10, -1).length === 0 && index.queryRadius(NaN, 10, 50).length === 0, "rejects bad queries");
+}
+
+{
+  const lost = { id: "lost", x: NaN, y: 0, region: "village" };
+  const index = build([lost]);
+  assert(index.queryRadius(0, 0, 1000).length === 0, "items with a non-finite position never match");
+  assert(Array.from(index.regionEntries("village")).length === 1, "but still belong to their region");
+}
+
+// ── Incremental updates ─────────────────────────────────────────────
+
+section("reindex / refresh");
+
+{
+  const mover = { id: "mover", x: 0, y: 0, region: "village" };
+  const index = build([mover]);
+
+  mover.x = 10;
+  assert(!index.reindex("mover"), "moving within a cell files nothing");
+  assert(index.queryRadius(10, 0, 1).length === 1, "but queries use the current position");
+
+  mover.x = SPATIAL_CELL_SIZE * 5;
+  assert(index.queryRadius(mover.x, 0, 1).length === 0, "a stale cell misses until re-filed");
+  assert(index.reindex("mover"), "crossing a cell re-files the item");
+  assert(index.queryRadius(mover.x, 0, 1).length === 1, "found at its new cell");
+  assert(index.queryRadius(0, 0, 20).length === 0, "gone from its old cell");
+
+  mover.region = "meadow";
+  index.reindex("mover");
+  assert(index.regionSize("village") === 0 && index.regionSize("meadow") === 1, "region changes move membership");
+  assert(JSON.stringify(Array.from(index.regionIds())) === '["meadow"]', "empty regions are dropped");
+}
+
+{
+  const items = Array.from({ length: 10 }, (_, i) => ({ id: `m${i}`, x: i * 5, y: 0, region: i < 5 ? "village" : "meadow" }));
+  const index = build(items);
+  for (const item of items) item.x += SPATIAL_CELL_SIZE * 2;
+  assert(index.refresh("village") === 5, "refresh(region) only re-checks that region");
+  assert(index.refresh() === 5, "refresh() catches the rest");
+  assert(index.refresh() === 0, "nothing left to move");
+}
+
+section("set / delete");
+
+{
+  const first = { id: "x", x: 0, y: 0, region: "village" };
+  const replacement = { id: "x", x: SPATIAL_CELL_SIZE * 4, y: 0, region: "meadow" };
+  const index = build([first]);
+  index.set("x", replacement);
+  assert(index.size === 1, "replacing an id keeps one entry");
+  assert(index.queryRadius(0, 0, 5).length === 0 && index.regionSize("village") === 0, "drops the replaced item");
+  assert(index.queryRadius(replacement.x, 0, 5)[0] === replacement, "indexes the replacement");
+
+  assert(index.delete("x") && !index.delete("x"), "delete reports whether the id was indexed");
+  assert(index.size === 0 && index.cellCount === 0, "no cells left behind");
+
+  index.set("y", { id: "y", x: 0, y: 0, region: "village" });
+  index.clear();
+  assert(index.size === 0 && index.regionSize("village") === 0, "clear empties everything");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
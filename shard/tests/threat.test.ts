@@ -0,0 +1,101 @@
+/**
+ * Threat tables — damage/support threat, taunts, overaggro switching
+ * Run with: npx tsx tests/threat.test.ts
+ */
+
+import {
+  addSupportThreat,
+  addThreat,
+  applyTaunt,
+  dropThreatSource,
+  getThreatSnapshot,
+  pickThreatTarget,
+  TAUNT_FIXATE_TICKS,
+} from "../src/combat/threat.js";
+import type { Entity } from "../src/world/zoneRuntime.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function makeEntity(id: string, patch: Partial<Entity> = {}): Entity {
+  return { id, type: "player", name: id, x: 0, y: 0, hp: 100, maxHp: 100, ...patch } as Entity;
+}
+
+section("Accumulation");
+{
+  const mob = makeEntity("mob", { type: "mob" });
+  const tank = makeEntity("tank", { x: 10 });
+  const healer = makeEntity("healer", { x: 80 });
+  const idleMob = makeEntity("idle", { type: "mob" });
+
+  addThreat(mob, tank.id, 100);
+  addThreat(tank, mob.id, 100);
+  assert(tank.threat === undefined, "players do not keep threat tables");
+
+  addSupportThreat(healer.id, tank.id, 40, [mob, idleMob, tank, healer]);
+  assert(mob.threat?.get(healer.id) === 40, "healing the tank adds threat on mobs fighting the tank", mob.threat);
+  assert(idleMob.threat === undefined, "mobs not in the fight are untouched");
+
+  const snapshot = getThreatSnapshot(mob);
+  assert(snapshot[0].entityId === tank.id && snapshot.length === 2, "snapshot is ordered by threat", snapshot);
+}
+
+section("Switching");
+{
+  const mob = makeEntity("mob", { type: "mob", order: { action: "attack", targetId: "tank" } });
+  const tank = makeEntity("tank", { x: 10 });
+  const dps = makeEntity("dps", { x: 20 });
+  const caster = makeEntity("caster", { x: 90 });
+  const entities = new Map([mob, tank, dps, caster].map((e) => [e.id, e]));
+
+  addThreat(mob, tank.id, 100);
+  addThreat(mob, dps.id, 105);
+  assert(pickThreatTarget(mob, entities, 150, 1)?.id === tank.id, "melee challenger below 110% does not pull");
+  addThreat(mob, dps.id, 10);
+  assert(pickThreatTarget(mob, entities, 150, 1)?.id === dps.id, "melee challenger above 110% pulls");
+
+  dropThreatSource(dps.id, entities.values());
+  addThreat(mob, caster.id, 125);
+  assert(pickThreatTarget(mob, entities, 150, 1)?.id === tank.id, "ranged challenger needs 130%");
+
+  tank.hp = 0;
+  assert(pickThreatTarget(mob, entities, 150, 1)?.id === caster.id, "dead targets are pruned");
+  assert(!mob.threat?.has(tank.id), "pruned entries leave the table");
+}
+
+section("Taunt");
+{
+  const mob = makeEntity("mob", { type: "boss", order: { action: "attack", targetId: "mage" } });
+  const mage = makeEntity("mage", { x: 30 });
+  const warrior = makeEntity("warrior", { x: 10 });
+  const entities = new Map([mob, mage, warrior].map((e) => [e.id, e]));
+
+  addThreat(mob, mage.id, 500);
+  applyTaunt(mob, warrior.id, 10);
+  assert((mob.threat?.get(warrior.id) ?? 0) > 500, "taunt jumps the taunter past the top threat", mob.threat);
+  assert(pickThreatTarget(mob, entities, 150, 10)?.id === warrior.id, "taunted mob turns to the taunter");
+
+  addThreat(mob, mage.id, 1000);
+  assert(pickThreatTarget(mob, entities, 150, 10 + TAUNT_FIXATE_TICKS - 1)?.id === warrior.id, "fixate holds through the window");
+  assert(pickThreatTarget(mob, entities, 150, 10 + TAUNT_FIXATE_TICKS)?.id === mage.id, "threat takes over once the fixate expires");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,82 @@
+/**
+ * Validation worker — validation.ts loads before achievementClaims.ts and the claim sweeps still run
+ * Run with: npx tsx tests/validationWorker.test.ts
+ */
+
+process.env.JWT_SECRET ??= "validation-worker-test";
+process.env.ENCRYPTION_KEY ??= "validation-worker-test";
+process.env.SHARD_CHAIN_ENV = "local";
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+process.env.REDIS_ALLOW_MEMORY_FALLBACK = "true";
+
+await import("../src/config/devLocalContracts.js");
+// No registry node here: without an address the registry reads report "not filed"
+delete process.env.VALIDATION_REGISTRY_ADDRESS;
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+section("Import order");
+let validation: typeof import("../src/erc8004/validation.js") | null = null;
+try {
+  // achievementClaims.ts registers its sweep while validation.ts is still loading
+  validation = await import("../src/erc8004/validation.js");
+} catch (err) {
+  console.error(err);
+}
+assert(validation !== null, "validation.ts imports before achievementClaims.ts");
+const claims = await import("../src/erc8004/achievementClaims.js");
+const store = await import("../src/erc8004/achievementClaimStore.js");
+assert(typeof claims.requeueAwaitingOwnerClaims === "function", "achievementClaims.ts finishes loading through the cycle");
+
+section("Claim sweeps");
+if (validation) {
+  const errors: unknown[] = [];
+  const logger = { error: (err: unknown) => void errors.push(err) };
+  let probeRuns = 0;
+  const unregister = validation.registerValidationClaimSweep(async () => {
+    probeRuns++;
+  });
+
+  const record = await store.createAchievementClaim(
+    "11",
+    { kind: "level", level: 10 },
+    null,
+    { chainId: 31337, identityRegistry: null, validationRegistry: null, validator: null },
+    { signMessageSync: () => "0x" },
+  );
+  await store.patchAchievementClaim(record!.requestHash, { status: "awaiting_owner" });
+
+  await validation.runValidationClaimSweeps(logger);
+  assert(probeRuns === 1 && errors.length === 0, "registered sweeps run without errors", errors.map(String));
+  assert(
+    (await store.getAchievementClaim(record!.requestHash))?.status === "awaiting_owner",
+    "claims stay awaiting_owner until the owner files the request"
+  );
+  assert((await claims.requeueAwaitingOwnerClaims()) === 0, "nothing is re-queued without a filed request");
+
+  unregister();
+  await validation.runValidationClaimSweeps(logger);
+  assert(probeRuns === 1, "unregistered sweeps stop running");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
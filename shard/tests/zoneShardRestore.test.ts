@@ -0,0 +1,100 @@
+/**
+ * Zone shard restore — a restarted worker restores only its own zones' players and none live on a peer
+ * Run with: npx tsx tests/zoneShardRestore.test.ts
+ */
+
+process.env.JWT_SECRET ??= "zone-shard-restore-test";
+process.env.ENCRYPTION_KEY ??= "zone-shard-restore-test";
+process.env.SHARD_CHAIN_ENV = "local";
+delete process.env.REDIS_URL;
+delete process.env.UPSTASH_REDIS_URL;
+delete process.env.DATABASE_URL;
+process.env.REDIS_ALLOW_MEMORY_FALLBACK = "true";
+
+await import("../src/config/devLocalContracts.js");
+
+const { getEntity, isWalletSpawned, restoreLivePlayerSessions } = await import("../src/world/zoneRuntime.js");
+const { configureZoneSharding, getZoneOwner, parseZoneShardConfig, setLiveWorkers } = await import("../src/world/zoneSharding.js");
+const { getWorldLayout } = await import("../src/world/worldLayout.js");
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function session(id: string, walletAddress: string, region: string, extra: Record<string, unknown> = {}) {
+  return {
+    sessionState: {
+      entity: { id, type: "player", name: id, walletAddress, region, x: 100, y: 100, hp: 100, maxHp: 100, level: 3, createdAt: 0, ...extra },
+      professions: [],
+      savedAt: Date.now(),
+    },
+  };
+}
+
+configureZoneSharding(parseZoneShardConfig({
+  ZONE_SHARD_WORKERS: "w0=http://127.0.0.1:3001,w1=http://127.0.0.1:3002",
+  ZONE_SHARD_WORKER_ID: "w0",
+  ZONE_SHARD_SECRET: "s3cret",
+}));
+setLiveWorkers(["w0", "w1"]);
+
+const zones = Object.keys(getWorldLayout().zones);
+const ownZone = zones.find((zoneId) => getZoneOwner(zoneId) === "w0");
+const peerZone = zones.find((zoneId) => getZoneOwner(zoneId) === "w1");
+if (!ownZone || !peerZone) {
+  console.error("  ✗ the layout has zones on both workers", zones);
+  process.exit(1);
+}
+
+section("Restarting w0 while w1 runs players");
+{
+  // Sessions every worker sees at boot; w1 still holds "walker", who crossed into its zone after the last save
+  const liveOnPeer = new Set(["0xwalker"]);
+  const restored = await restoreLivePlayerSessions(
+    [
+      session("own-player", "0xown", ownZone),
+      session("peer-player", "0xpeer", peerZone),
+      session("walker", "0xwalker", ownZone),
+      session("gladiator", "0xgladiator", "coliseum-arena", { pvpSavedPosition: { region: ownZone, x: 40, y: 50 } }),
+    ],
+    async (walletAddress) => liveOnPeer.has(walletAddress),
+  );
+
+  assert(restored === 2, "only w0's own players are restored", restored);
+  assert(getEntity("own-player")?.region === ownZone && isWalletSpawned("0xown") !== null, "a player in a zone w0 owns comes back");
+  assert(!getEntity("peer-player") && isWalletSpawned("0xpeer") === null, "a player in w1's zone is left to w1");
+  assert(!getEntity("walker") && isWalletSpawned("0xwalker") === null, "a wallet live on w1 is not cloned");
+  assert(getEntity("gladiator")?.region === ownZone, "arena players count toward the zone they return to");
+
+  const again = await restoreLivePlayerSessions([session("own-player", "0xown", ownZone)], async () => false);
+  assert(again === 0, "a player already running here is not restored twice");
+}
+
+section("Sharding off");
+{
+  configureZoneSharding(null);
+  const restored = await restoreLivePlayerSessions(
+    [session("solo-a", "0xsolo-a", ownZone), session("solo-b", "0xsolo-b", peerZone)],
+    async () => false,
+  );
+  assert(restored === 2 && Boolean(getEntity("solo-b")), "a single process restores every session");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
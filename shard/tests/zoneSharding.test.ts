@@ -0,0 +1,129 @@
+/**
+ * Zone sharding — config parsing, zone ownership, failover, request routing keys
+ * Run with: npx tsx tests/zoneSharding.test.ts
+ */
+
+import {
+  assignZoneOwners,
+  configureZoneSharding,
+  extractRoutingKeys,
+  getZoneOwner,
+  ownsZone,
+  parseZoneShardConfig,
+  rendezvousOwner,
+  setLiveWorkers,
+} from "../src/world/zoneSharding.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function throws(fn: () => unknown): boolean {
+  try {
+    fn();
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+const ENV = {
+  ZONE_SHARD_WORKERS: "w0=http://127.0.0.1:3001, w1=http://127.0.0.1:3002/,w2=http://127.0.0.1:3003",
+  ZONE_SHARD_WORKER_ID: "w1",
+  ZONE_SHARD_SECRET: "s3cret",
+};
+
+const ZONES = Array.from({ length: 40 }, (_, i) => `zone-${i}`);
+
+// ── Config ──────────────────────────────────────────────────────────
+
+section("parseZoneShardConfig");
+
+{
+  assert(parseZoneShardConfig({}) === null, "off when ZONE_SHARD_WORKERS is unset");
+  const config = parseZoneShardConfig({ ...ENV, ZONE_SHARD_PINS: "village-square=w2" });
+  assert(config?.workers.length === 3 && config.workerId === "w1", "reads the worker list and this worker's id");
+  assert(config?.workers[1].url === "http://127.0.0.1:3002", "trims trailing slashes from URLs");
+  assert(config?.pins["village-square"] === "w2", "reads pins");
+  assert(throws(() => parseZoneShardConfig({ ...ENV, ZONE_SHARD_WORKER_ID: "w9" })), "rejects an unlisted worker id");
+  assert(throws(() => parseZoneShardConfig({ ...ENV, ZONE_SHARD_WORKERS: "w0=ftp://x" })), "rejects non-http URLs");
+  assert(throws(() => parseZoneShardConfig({ ...ENV, ZONE_SHARD_WORKERS: "w0=http://a,w0=http://b", ZONE_SHARD_WORKER_ID: "w0" })), "rejects duplicate ids");
+  assert(throws(() => parseZoneShardConfig({ ...ENV, ZONE_SHARD_PINS: "village-square=w7" })), "rejects pins to unknown workers");
+  assert(throws(() => parseZoneShardConfig({ ...ENV, ZONE_SHARD_SECRET: " " })), "requires a shared secret");
+}
+
+// ── Ownership ───────────────────────────────────────────────────────
+
+section("assignZoneOwners");
+
+{
+  const all = assignZoneOwners(ZONES, ["w0", "w1", "w2"]);
+  const counts = new Map<string, number>();
+  for (const owner of all.values()) counts.set(owner, (counts.get(owner) ?? 0) + 1);
+  assert(all.size === ZONES.length, "every zone gets an owner");
+  assert(counts.size === 3 && Array.from(counts.values()).every((n) => n >= 5), "zones spread over every worker", Object.fromEntries(counts));
+  assert(rendezvousOwner("zone-3", ["w2", "w0", "w1"]) === all.get("zone-3"), "independent of worker order");
+
+  const withoutW2 = assignZoneOwners(ZONES, ["w0", "w1"]);
+  const moved = ZONES.filter((z) => all.get(z) !== withoutW2.get(z));
+  assert(moved.every((z) => all.get(z) === "w2"), "losing a worker only moves the zones it held");
+  assert(!Array.from(withoutW2.values()).includes("w2"), "dead workers own nothing");
+
+  const pinned = assignZoneOwners(["zone-1"], ["w0", "w1", "w2"], { "zone-1": "w2" });
+  assert(pinned.get("zone-1") === "w2", "pins win while the pinned worker is live");
+  const fallback = assignZoneOwners(["zone-1"], ["w0", "w1"], { "zone-1": "w2" });
+  assert(fallback.get("zone-1") === rendezvousOwner("zone-1", ["w0", "w1"]), "pins fall back to the hash when the worker is down");
+  assert(assignZoneOwners(ZONES, []).size === 0, "no live workers, no owners");
+}
+
+section("local view");
+
+{
+  configureZoneSharding(null);
+  assert(ownsZone("anything") && getZoneOwner("anything") === null, "with sharding off this process owns everything");
+
+  configureZoneSharding(parseZoneShardConfig(ENV));
+  const mine = ZONES.filter((z) => ownsZone(z));
+  assert(mine.length > 0 && mine.length < ZONES.length, "owns a share of the zones");
+  assert(!setLiveWorkers(["w0", "w1", "w2"]), "same live set is not a change");
+  assert(setLiveWorkers(["w0"]), "a worker dropping out is a change");
+  assert(ZONES.every((z) => getZoneOwner(z) !== "w2"), "its zones move to the survivors");
+  setLiveWorkers([]);
+  assert(ZONES.every((z) => ownsZone(z)), "a worker alone owns everything, never nothing");
+  setLiveWorkers(["w0", "w1", "w2", "w9"]);
+  assert(ZONES.every((z) => getZoneOwner(z) !== "w9"), "ignores heartbeats from unlisted workers");
+  configureZoneSharding(null);
+}
+
+// ── Routing ─────────────────────────────────────────────────────────
+
+section("extractRoutingKeys");
+
+{
+  const fromParams = extractRoutingKeys({ zoneId: "wild-meadow" }, {}, undefined);
+  assert(fromParams.zoneId === "wild-meadow" && !fromParams.entityId, "route params");
+  const combined = extractRoutingKeys({}, { region: "dark-forest" }, { entityId: "p1", zoneId: "village-square" });
+  assert(combined.entityId === "p1" && combined.zoneId === "dark-forest", "query beats body for the zone; entity from body");
+  assert(extractRoutingKeys({}, {}, { casterEntityId: "c1" }).entityId === "c1", "technique caster");
+  assert(extractRoutingKeys({}, {}, { entityId: "", zoneId: 7 }).zoneId === undefined, "ignores empty and non-string values");
+  assert(Object.keys(extractRoutingKeys(undefined, null, ["zoneId"])).length === 0, "global requests have no keys");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,121 @@
+/**
+ * Zone stream — entity diffing, frame buffer, epoch-aware resume cursors
+ * Run with: npx tsx tests/zoneStream.test.ts
+ */
+
+import {
+  appendZoneStreamFrame,
+  createZoneStreamLog,
+  diffEntities,
+  formatZoneStreamCursor,
+  getFramesSince,
+  parseZoneStreamCursor,
+  type ZoneStreamLog,
+} from "../src/world/zoneStreamFrames.js";
+import type { Entity } from "../src/world/zoneRuntime.js";
+
+let passed = 0;
+let failed = 0;
+
+function assert(condition: boolean, label: string, details?: unknown): void {
+  if (condition) {
+    console.log(`  ✓ ${label}`);
+    passed++;
+  } else {
+    console.error(`  ✗ ${label}`);
+    if (details !== undefined) {
+      console.error(`    ${typeof details === "string" ? details : JSON.stringify(details)}`);
+    }
+    failed++;
+  }
+}
+
+function section(name: string): void {
+  console.log(`\n── ${name} ──`);
+}
+
+function entity(id: string, overrides: Partial<Entity> = {}): Entity {
+  return { id, type: "mob", name: id, x: 100, y: 100, hp: 50, maxHp: 50, ...overrides } as Entity;
+}
+
+const serialize = (e: Entity) => ({ id: e.id, name: e.name, type: e.type });
+
+function emptyFrame(tick: number) {
+  return { tick, entities: [], intents: { upserted: [], removed: [] }, events: [] };
+}
+
+section("diffEntities");
+{
+  const log = createZoneStreamLog("village-square");
+  const wolf = entity("wolf");
+  const ore = entity("ore-1", { type: "ore-node" });
+
+  const first = diffEntities(log, [wolf, ore], serialize);
+  assert(first.length === 2 && first.every((d) => d.kind === "spawn"), "unseen entities spawn", first);
+  const spawn = first[0];
+  assert(spawn.kind === "spawn" && spawn.entity.name === "wolf", "spawns carry the serialized entity");
+
+  assert(diffEntities(log, [wolf, ore], serialize).length === 0, "an unchanged tick has no deltas");
+
+  wolf.x = 130;
+  wolf.isRunning = true;
+  wolf.hp = 35;
+  wolf.activeEffects = [{ id: "bleed", remainingTicks: 3 } as NonNullable<Entity["activeEffects"]>[number]];
+  ore.x = 999;
+  ore.hp = 0;
+  const changed = diffEntities(log, [wolf, ore], serialize);
+  const kinds = changed.map((d) => `${d.kind}:${d.id}`).sort();
+  assert(
+    JSON.stringify(kinds) === JSON.stringify(["effects:wolf", "hp:wolf", "move:wolf"]),
+    "moves, hp and effects are separate deltas; resource nodes never emit them",
+    kinds
+  );
+  const move = changed.find((d) => d.kind === "move");
+  assert(move?.kind === "move" && move.x === 130 && move.isRunning === true, "move deltas carry the new position");
+
+  wolf.activeEffects[0].remainingTicks = 2;
+  assert(diffEntities(log, [wolf, ore], serialize).some((d) => d.kind === "effects"), "ticking effects re-send the effect list");
+
+  const gone = diffEntities(log, [ore], serialize);
+  assert(gone.length === 1 && gone[0].kind === "despawn" && gone[0].id === "wolf", "missing entities despawn");
+  assert(!log.digests.has("wolf"), "despawned entities are forgotten");
+  assert(diffEntities(log, [ore, wolf], serialize)[0]?.kind === "spawn", "a returning entity spawns again");
+}
+
+section("getFramesSince");
+{
+  const log = createZoneStreamLog("wild-meadow");
+  for (let tick = 1; tick <= 5; tick++) appendZoneStreamFrame(log, emptyFrame(tick), 3);
+  assert(log.seq === 5 && log.frames.length === 3, "the buffer keeps only the newest frames", log.frames.map((f) => f.seq));
+  assert(log.frames.every((frame) => frame.epoch === log.epoch && frame.zoneId === "wild-meadow"), "frames carry the zone and epoch");
+
+  const at = (seq: number) => ({ epoch: log.epoch, seq });
+  assert(JSON.stringify(getFramesSince(log, at(3))?.map((f) => f.seq)) === "[4,5]", "returns the frames after the cursor");
+  assert(getFramesSince(log, at(2))?.length === 3, "the oldest buffered frame can still be resumed from its predecessor");
+  assert(getFramesSince(log, at(5))?.length === 0, "an up-to-date cursor gets no frames");
+  assert(getFramesSince(log, at(1)) === null, "an evicted resume point resyncs");
+  assert(getFramesSince(log, at(9)) === null, "a cursor ahead of the stream resyncs");
+
+  // The stream is recreated (idle eviction or restart): seq starts over in a new epoch.
+  const recreated: ZoneStreamLog = createZoneStreamLog("wild-meadow");
+  assert(recreated.epoch !== log.epoch, "a recreated stream gets a new epoch");
+  for (let tick = 6; tick <= 9; tick++) appendZoneStreamFrame(recreated, emptyFrame(tick), 10);
+  assert(getFramesSince(recreated, at(2)) === null, "a cursor from an earlier epoch resyncs even when its seq is buffered");
+  assert(getFramesSince(recreated, { epoch: recreated.epoch, seq: 2 })?.length === 2, "the same seq in the current epoch resumes");
+}
+
+section("Resume cursors");
+{
+  const log = createZoneStreamLog("z");
+  appendZoneStreamFrame(log, emptyFrame(1), 10);
+  const cursor = formatZoneStreamCursor(log);
+  assert(cursor === `${log.epoch}:1`, "cursor is <epoch>:<seq>", cursor);
+  const parsed = parseZoneStreamCursor(cursor);
+  assert(parsed?.epoch === log.epoch && parsed.seq === 1, "cursor round-trips");
+  assert(parseZoneStreamCursor(formatZoneStreamCursor(log.frames[0])) !== null, "frame ids are cursors");
+  assert(parseZoneStreamCursor("42") === null, "a bare seq has no epoch and is rejected");
+  assert(parseZoneStreamCursor("abc:-1") === null && parseZoneStreamCursor(undefined) === null, "malformed cursors are rejected");
+}
+
+console.log(`\n${passed} passed, ${failed} failed`);
+process.exit(failed > 0 ? 1 : 0);